@@ -9,6 +9,7 @@ import {
   getApprovalRateByCreditScore,
   getStrategyPerformance,
   getDecisionSplit,
+  getMissingDataStats,
 } from '../../services/analytics.service';
 
 const router = Router();
@@ -98,6 +99,21 @@ router.get('/decision-split', authenticate, async (req: Request, res: Response)
   }
 });
 
+/**
+ * GET /api/analytics/missing-data
+ * Count conditions and score factors decided on missing data
+ */
+router.get('/missing-data', authenticate, async (req: Request, res: Response) => {
+  try {
+    const days = parseInt(req.query.days as string) || 30;
+    const data = await getMissingDataStats(days, req.query.policy_id as string | undefined);
+    res.json({ success: true, data });
+  } catch (error: any) {
+    logger.error(`Get missing data stats error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 /**
  * Get overall system analytics
  * GET /api/analytics/overview
@@ -0,0 +1,193 @@
+import { Router, Request, Response } from 'express';
+import {
+  ExperimentError,
+  ExperimentStatus,
+  createExperiment,
+  deleteExperiment,
+  getAllExperiments,
+  getExperiment,
+  getExperimentResults,
+  startExperiment,
+  stopExperiment,
+  updateExperiment,
+} from '../../services/experiment.service';
+import { authenticate, requireRole } from '../middleware/auth.middleware';
+import { toDate } from '../../engine/dates';
+import logger from '../../utils/logger';
+
+const router = Router();
+
+// All experiment routes require authentication
+router.use(authenticate);
+
+const canEdit = requireRole(['admin', 'policy_creator']);
+
+const sendError = (res: Response, error: any, code: string, action: string) => {
+  if (!(error instanceof ExperimentError)) {
+    logger.error(`${action} error: ${error.message}`);
+  }
+  res.status(error instanceof ExperimentError ? error.status : 500).json({
+    success: false,
+    error: { code, message: error.message },
+  });
+};
+
+/**
+ * Get experiments, running first
+ * GET /api/experiments?product_type=&status=
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const experiments = await getAllExperiments({
+      product_type: req.query.product_type as string | undefined,
+      status: req.query.status as ExperimentStatus | undefined,
+    });
+
+    res.json({
+      success: true,
+      data: { experiments },
+    });
+  } catch (error) {
+    sendError(res, error, 'GET_EXPERIMENTS_ERROR', 'Get experiments');
+  }
+});
+
+/**
+ * Create a draft experiment
+ * POST /api/experiments { name, product_type, description?, arms: [{ name, role, policy_id, traffic_percent }] }
+ */
+router.post('/', canEdit, async (req: Request, res: Response) => {
+  try {
+    const { name, description, product_type, arms } = req.body;
+    const experiment = await createExperiment({ name, description, product_type, arms }, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Experiment created successfully',
+      data: experiment,
+    });
+  } catch (error) {
+    sendError(res, error, 'CREATE_EXPERIMENT_ERROR', 'Create experiment');
+  }
+});
+
+/**
+ * Get an experiment with its arms
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const experiment = await getExperiment(req.params.id);
+    if (!experiment) {
+      res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Experiment not found' },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: experiment,
+    });
+  } catch (error) {
+    sendError(res, error, 'GET_EXPERIMENT_ERROR', 'Get experiment');
+  }
+});
+
+/**
+ * Change a draft experiment
+ * PUT /api/experiments/:id { name?, description?, arms? }
+ */
+router.put('/:id', canEdit, async (req: Request, res: Response) => {
+  try {
+    const { name, description, product_type, arms } = req.body;
+    const experiment = await updateExperiment(req.params.id, { name, description, product_type, arms }, req.user!.id);
+
+    res.json({
+      success: true,
+      message: 'Experiment updated successfully',
+      data: experiment,
+    });
+  } catch (error) {
+    sendError(res, error, 'UPDATE_EXPERIMENT_ERROR', 'Update experiment');
+  }
+});
+
+/**
+ * Delete a draft experiment
+ */
+router.delete('/:id', canEdit, async (req: Request, res: Response) => {
+  try {
+    await deleteExperiment(req.params.id, req.user!.id);
+
+    res.json({
+      success: true,
+      message: 'Experiment deleted successfully',
+    });
+  } catch (error) {
+    sendError(res, error, 'DELETE_EXPERIMENT_ERROR', 'Delete experiment');
+  }
+});
+
+/**
+ * Start splitting live traffic between the arms
+ */
+router.post('/:id/start', requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const experiment = await startExperiment(req.params.id, req.user!.id);
+
+    res.json({
+      success: true,
+      message: 'Experiment started',
+      data: experiment,
+    });
+  } catch (error) {
+    sendError(res, error, 'START_EXPERIMENT_ERROR', 'Start experiment');
+  }
+});
+
+/**
+ * Stop the experiment; the champion decides all traffic again
+ */
+router.post('/:id/stop', requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const experiment = await stopExperiment(req.params.id, req.user!.id);
+
+    res.json({
+      success: true,
+      message: 'Experiment stopped',
+      data: experiment,
+    });
+  } catch (error) {
+    sendError(res, error, 'STOP_EXPERIMENT_ERROR', 'Stop experiment');
+  }
+});
+
+/**
+ * Per-arm results with confidence intervals and significance tests
+ * GET /api/experiments/:id/results?from=&to=
+ */
+router.get('/:id/results', async (req: Request, res: Response) => {
+  try {
+    const from = req.query.from ? toDate(req.query.from) : undefined;
+    const to = req.query.to ? toDate(req.query.to) : undefined;
+    if (from === null || to === null) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_DATE', message: 'from and to must be dates' },
+      });
+      return;
+    }
+
+    const results = await getExperimentResults(req.params.id, { from, to });
+
+    res.json({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    sendError(res, error, 'GET_EXPERIMENT_RESULTS_ERROR', 'Get experiment results');
+  }
+});
+
+export default router;
@@ -3,6 +3,8 @@ import { authenticate, requireRole } from '../middleware/auth.middleware';
 import { pool } from '../../config/database';
 import logger from '../../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
+import { collectVelocityMatches } from '../../engine/velocity';
+import { getApplicationSummaries } from '../../services/velocity.service';
 
 const router = Router();
 
@@ -124,6 +126,12 @@ router.get('/:id', authenticate, requireRole(['admin', 'reviewer']), async (req:
     const review = result.rows[0];
     review.activities = activities.rows;
 
+    // Velocity checks that hit, with the applications they matched
+    review.velocity_matches = collectVelocityMatches(review.execution_context?.execution_trace);
+    review.linked_applications = await getApplicationSummaries(
+      Array.from(new Set(review.velocity_matches.flatMap((match: any) => match.matched_application_ids)))
+    );
+
     res.json({
       success: true,
       data: review,
@@ -0,0 +1,261 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import {
+  NegativeListError,
+  addNegativeListEntries,
+  createNegativeList,
+  deleteNegativeList,
+  getAllNegativeLists,
+  getNegativeList,
+  getNegativeListAudit,
+  getNegativeListDependents,
+  getNegativeListEntries,
+  importNegativeListFile,
+  removeNegativeListEntry,
+  updateNegativeList,
+} from '../../services/negative-list.service';
+import { authenticate, requireRole } from '../middleware/auth.middleware';
+import { config } from '../../config/env';
+import logger from '../../utils/logger';
+
+const router = Router();
+
+// All negative list routes require authentication
+router.use(authenticate);
+
+const canEdit = requireRole(['admin', 'policy_creator']);
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.MAX_FILE_SIZE_MB * 1024 * 1024 },
+});
+
+// Multipart `file` field; upload errors (size, field name) answer 400
+const receiveFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, (uploadError: any) => {
+    if (uploadError) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'UPLOAD_ERROR', message: uploadError.message },
+      });
+      return;
+    }
+    next();
+  });
+};
+
+const sendError = (res: Response, error: any, code: string, action: string) => {
+  if (!(error instanceof NegativeListError)) {
+    logger.error(`${action} error: ${error.message}`);
+  }
+  res.status(error instanceof NegativeListError ? error.status : 500).json({
+    success: false,
+    error: { code, message: error.message },
+  });
+};
+
+/**
+ * Get all negative lists
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const lists = await getAllNegativeLists();
+
+    res.json({
+      success: true,
+      data: { lists },
+    });
+  } catch (error) {
+    sendError(res, error, 'GET_NEGATIVE_LISTS_ERROR', 'Get negative lists');
+  }
+});
+
+/**
+ * Create a negative list
+ * POST /api/negative-lists { name, list_type, match_mode?, action?, description? }
+ */
+router.post('/', canEdit, async (req: Request, res: Response) => {
+  try {
+    const { name, list_type, match_mode, action, description } = req.body;
+    const list = await createNegativeList({ name, list_type, match_mode, action, description }, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Negative list created successfully',
+      data: list,
+    });
+  } catch (error) {
+    sendError(res, error, 'CREATE_NEGATIVE_LIST_ERROR', 'Create negative list');
+  }
+});
+
+/**
+ * Get a negative list with the policies that check it
+ */
+router.get('/:name', async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+
+    const list = await getNegativeList(name);
+    if (!list) {
+      res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Negative list not found' },
+      });
+      return;
+    }
+    const dependents = await getNegativeListDependents(name);
+
+    res.json({
+      success: true,
+      data: { list, dependents },
+    });
+  } catch (error) {
+    sendError(res, error, 'GET_NEGATIVE_LIST_ERROR', 'Get negative list');
+  }
+});
+
+/**
+ * Change a list's description, match mode or action
+ */
+router.put('/:name', canEdit, async (req: Request, res: Response) => {
+  try {
+    const { match_mode, action, description } = req.body;
+    const list = await updateNegativeList(req.params.name, { match_mode, action, description }, req.user!.id);
+
+    res.json({
+      success: true,
+      message: 'Negative list updated successfully',
+      data: list,
+    });
+  } catch (error) {
+    sendError(res, error, 'UPDATE_NEGATIVE_LIST_ERROR', 'Update negative list');
+  }
+});
+
+/**
+ * Delete a negative list with its entries
+ */
+router.delete('/:name', requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    await deleteNegativeList(req.params.name, req.user!.id);
+
+    res.json({
+      success: true,
+      message: 'Negative list deleted successfully',
+    });
+  } catch (error) {
+    sendError(res, error, 'DELETE_NEGATIVE_LIST_ERROR', 'Delete negative list');
+  }
+});
+
+/**
+ * Entries of a list
+ * GET /api/negative-lists/:name/entries?search=&include_removed=true&page=1&limit=50
+ */
+router.get('/:name/entries', async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+
+    const { entries, total } = await getNegativeListEntries(req.params.name, {
+      search: (req.query.search as string) || undefined,
+      include_removed: req.query.include_removed === 'true',
+      page,
+      limit,
+    });
+
+    res.json({
+      success: true,
+      data: { entries },
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    sendError(res, error, 'GET_NEGATIVE_LIST_ENTRIES_ERROR', 'Get negative list entries');
+  }
+});
+
+/**
+ * Add entries
+ * POST /api/negative-lists/:name/entries { entries: [{ value, reason_code?, notes?, expires_at? }] }
+ */
+router.post('/:name/entries', canEdit, async (req: Request, res: Response) => {
+  try {
+    const result = await addNegativeListEntries(req.params.name, req.body.entries, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      message: `${result.added} entries added, ${result.updated} updated`,
+      data: result,
+    });
+  } catch (error) {
+    sendError(res, error, 'ADD_NEGATIVE_LIST_ENTRIES_ERROR', 'Add negative list entries');
+  }
+});
+
+/**
+ * Bulk import entries from a CSV or Excel file
+ * POST /api/negative-lists/:name/import (multipart: file with value, reason_code?, notes?, expires_at? columns)
+ */
+router.post('/:name/import', canEdit, receiveFile, async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'A CSV or Excel file is required' },
+      });
+      return;
+    }
+
+    const result = await importNegativeListFile(req.params.name, req.file, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      message: `${result.added} entries added, ${result.updated} updated`,
+      data: result,
+    });
+  } catch (error) {
+    sendError(res, error, 'IMPORT_NEGATIVE_LIST_ERROR', 'Import negative list');
+  }
+});
+
+/**
+ * Remove an entry, keeping it on record
+ * DELETE /api/negative-lists/:name/entries/:entryId { reason? }
+ */
+router.delete('/:name/entries/:entryId', canEdit, async (req: Request, res: Response) => {
+  try {
+    const { name, entryId } = req.params;
+    await removeNegativeListEntry(name, entryId, req.user!.id, req.body?.reason);
+
+    res.json({
+      success: true,
+      message: 'Entry removed successfully',
+    });
+  } catch (error) {
+    sendError(res, error, 'REMOVE_NEGATIVE_LIST_ENTRY_ERROR', 'Remove negative list entry');
+  }
+});
+
+/**
+ * Audit trail of a list
+ */
+router.get('/:name/audit', async (req: Request, res: Response) => {
+  try {
+    const audit = await getNegativeListAudit(req.params.name);
+
+    res.json({
+      success: true,
+      data: { audit },
+    });
+  } catch (error) {
+    sendError(res, error, 'GET_NEGATIVE_LIST_AUDIT_ERROR', 'Get negative list audit');
+  }
+});
+
+export default router;
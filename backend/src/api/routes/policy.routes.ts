@@ -9,9 +9,62 @@ import {
   activatePolicy,
   clonePolicy,
   validatePolicy,
+  publishPolicyVersion,
+  getSubPolicyDependents,
+  getPolicyDiff,
 } from '../../services/policy.service';
 import logger from '../../utils/logger';
 import { pool } from '../../config/database';
+import { applyInputSchema } from '../../engine/input-schema';
+import { addToDate, toDate } from '../../engine/dates';
+import { evaluateExpression } from '../../engine/expression';
+import { ParameterValues } from '../../engine/parameters';
+import {
+  ParameterChangeError,
+  getEffectiveParameterSet,
+  getParameterHistory,
+  getParameterSetValues,
+  getParameterValues,
+  proposeParameterChange,
+  reviewParameterChange,
+  withdrawParameterChange,
+} from '../../services/parameter.service';
+import {
+  ShadowOutcome,
+  ShadowPolicyError,
+  attachShadowPolicy,
+  getPolicyShadows,
+  getShadowComparison,
+  getShadowExecution,
+  getShadowExecutions,
+  stopShadowPolicy,
+} from '../../services/shadow.service';
+import {
+  BacktestError,
+  cancelBacktest,
+  getBacktest,
+  getBacktestResult,
+  getBacktestResults,
+  getBacktests,
+  startBacktest,
+} from '../../services/backtest.service';
+import { SwapType } from '../../engine/backtest';
+import {
+  BundleError,
+  exportPolicyBundle,
+  importPolicyBundle,
+  previewBundleImport,
+} from '../../services/bundle.service';
+import {
+  startDebugSession,
+  getDebugSession,
+  stepDebugSession,
+  continueDebugSession,
+  setDebugVariables,
+  setDebugBreakpoints,
+  endDebugSession,
+  DebugSnapshot,
+} from '../../engine/debugger';
 
 const router = Router();
 
@@ -21,7 +74,7 @@ const router = Router();
  */
 router.post('/', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
   try {
-    const { name, description, product_type, workflow_json, rules_summary } = req.body;
+    const { name, description, product_type, workflow_json, rules_summary, is_fragment } = req.body;
     const userId = req.user!.id;
 
     // Validate required fields
@@ -33,7 +86,7 @@ router.post('/', authenticate, requireRole(['admin', 'policy_creator']), async (
     }
 
     // Validate workflow structure (non-strict for drafts)
-    const validation = await validatePolicy(workflow_json, false);
+    const validation = await validatePolicy(workflow_json, false, { is_fragment: !!is_fragment });
     if (!validation.valid) {
       return res.status(400).json({
         success: false,
@@ -49,7 +102,8 @@ router.post('/', authenticate, requireRole(['admin', 'policy_creator']), async (
       product_type,
       workflow_json,
       rules_summary,
-      userId
+      userId,
+      !!is_fragment
     );
 
     // Log audit (optional - skip if table doesn't exist)
@@ -145,7 +199,7 @@ router.get('/:id', authenticate, async (req: Request, res: Response) => {
       `SELECT id, version, created_at, created_by, change_notes
        FROM policy_versions
        WHERE policy_id = $1
-       ORDER BY version DESC`,
+       ORDER BY created_at DESC`,
       [id]
     );
 
@@ -174,7 +228,7 @@ router.put('/:id', authenticate, requireRole(['admin', 'policy_creator']), async
 
     // If workflow_json is being updated, validate it (non-strict for drafts)
     if (updates.workflow_json) {
-      const validation = await validatePolicy(updates.workflow_json, false);
+      const validation = await validatePolicy(updates.workflow_json, false, { policy_id: id });
       if (!validation.valid) {
         return res.status(400).json({
           success: false,
@@ -255,7 +309,7 @@ router.delete('/:id', authenticate, requireRole(['admin']), async (req: Request,
 });
 
 /**
- * Publish policy (validate with strict mode, then activate)
+ * Publish policy (validate with strict mode, snapshot a new version, then activate)
  * POST /api/policies/:id/publish
  */
 router.post('/:id/publish', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
@@ -274,7 +328,10 @@ router.post('/:id/publish', authenticate, requireRole(['admin', 'policy_creator'
     }
 
     // Validate with STRICT mode (requires decision nodes, etc.)
-    const validation = await validatePolicy(policy.workflow_json, true);
+    const validation = await validatePolicy(policy.workflow_json, true, {
+      policy_id: id,
+      is_fragment: policy.is_fragment,
+    });
     if (!validation.valid) {
       return res.status(400).json({
         success: false,
@@ -283,29 +340,36 @@ router.post('/:id/publish', authenticate, requireRole(['admin', 'policy_creator'
       });
     }
 
+    // Snapshot the workflow so sub-policy nodes can pin this version
+    const version = await publishPolicyVersion(id, userId, req.body?.change_notes);
+
     // Activate the policy
     await activatePolicy(id);
 
     // Get the activated policy
     const activatedPolicy = await getPolicyById(id);
 
+    // Parent policies calling this one; those following 'latest' change behaviour now
+    const affectedParents = await getSubPolicyDependents(id);
+
     // Log audit (optional - skip if table doesn't exist)
     try {
       await pool.query(
         `INSERT INTO audit_logs (user_id, action, resource_type, resource_id, details)
          VALUES ($1, 'publish_policy', 'policy', $2, $3)`,
-        [userId, id, JSON.stringify({ published: true })]
+        [userId, id, JSON.stringify({ published: true, version, affected_parents: affectedParents.length })]
       );
     } catch (auditError: any) {
       logger.warn(`Audit logging failed: ${auditError.message}`);
     }
 
-    logger.info(`Policy published: ${id} by user ${userId}`);
+    logger.info(`Policy published: ${id} version ${version} by user ${userId}`);
 
     res.json({
       success: true,
       message: 'Policy published successfully',
       data: activatedPolicy,
+      affected_parents: affectedParents,
     });
   } catch (error: any) {
     logger.error(`Publish policy error: ${error.message}`);
@@ -313,6 +377,51 @@ router.post('/:id/publish', authenticate, requireRole(['admin', 'policy_creator'
   }
 });
 
+/**
+ * Semantic diff between two versions; either may be 'latest' or 'current'
+ * (the saved, unpublished workflow)
+ * GET /api/policies/:id/versions/:a/diff/:b
+ */
+router.get('/:id/versions/:a/diff/:b', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { id, a, b } = req.params;
+    const result = await getPolicyDiff(id, a, b);
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Policy or version not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    logger.error(`Get policy diff error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * Get policies that call this policy from a sub-policy node
+ * GET /api/policies/:id/dependents
+ */
+router.get('/:id/dependents', authenticate, async (req: Request, res: Response) => {
+  try {
+    const dependents = await getSubPolicyDependents(req.params.id);
+
+    res.json({
+      success: true,
+      data: dependents,
+    });
+  } catch (error: any) {
+    logger.error(`Get policy dependents error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 /**
  * Activate policy
  * POST /api/policies/:id/activate
@@ -436,6 +545,50 @@ router.post('/validate/workflow', authenticate, requireRole(['admin', 'policy_cr
   }
 });
 
+/**
+ * Evaluate expressions against test data with the engine's evaluator, so the
+ * builder's test run reads computed conditions as a live run would
+ * POST /api/policies/expressions/evaluate
+ */
+router.post('/expressions/evaluate', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    const { expressions, variables, as_of } = req.body;
+
+    if (!Array.isArray(expressions) || expressions.some(source => typeof source !== 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'expressions must be a list of strings',
+      });
+    }
+
+    const asOf = as_of ? toDate(as_of) : undefined;
+    if (asOf === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'as_of must be a date (YYYY-MM-DD)',
+      });
+    }
+
+    // Reference tables are not loaded here: LOOKUP() reports an error
+    const results = expressions.map((source: string) => {
+      try {
+        const value = evaluateExpression(source, variables || {}, { as_of: asOf });
+        return { expression: source, value: value instanceof Date ? value.toISOString() : value };
+      } catch (error: any) {
+        return { expression: source, value: null, error: error.message };
+      }
+    });
+
+    res.json({
+      success: true,
+      data: results,
+    });
+  } catch (error: any) {
+    logger.error(`Evaluate expressions error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 /**
  * Get policy statistics
  * GET /api/policies/:id/stats
@@ -501,6 +654,9 @@ router.get('/:id/stats', authenticate, async (req: Request, res: Response) => {
   }
 });
 
+const resolveTestParameters = (policyId: string, parameterSetId?: string): Promise<ParameterValues | null> =>
+  (parameterSetId ? getParameterSetValues(policyId, parameterSetId) : getParameterValues(policyId));
+
 /**
  * Test policy with sample data
  * POST /api/policies/:id/test
@@ -508,7 +664,7 @@ router.get('/:id/stats', authenticate, async (req: Request, res: Response) => {
 router.post('/:id/test', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { test_data } = req.body;
+    const { test_data, as_of, parameter_set_id } = req.body;
 
     if (!test_data) {
       return res.status(400).json({
@@ -517,6 +673,15 @@ router.post('/:id/test', authenticate, requireRole(['admin', 'policy_creator']),
       });
     }
 
+    // Pins today() and date conditions so a test is reproducible
+    const asOf = as_of ? toDate(as_of) : undefined;
+    if (asOf === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'as_of must be a date (YYYY-MM-DD)',
+      });
+    }
+
     const policy = await getPolicyById(id);
 
     if (!policy) {
@@ -526,14 +691,34 @@ router.post('/:id/test', authenticate, requireRole(['admin', 'policy_creator']),
       });
     }
 
+    // Approved parameters, or a pending change under review
+    const parameters = await resolveTestParameters(id, parameter_set_id);
+    if (!parameters) {
+      return res.status(404).json({
+        success: false,
+        error: 'Parameter set not found',
+      });
+    }
+
+    // Test data must satisfy the same input contract as live requests
+    const input = applyInputSchema(policy.workflow_json, test_data);
+    if (!input.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Test data does not match the policy input schema',
+        violations: input.violations,
+      });
+    }
+
     // Execute workflow with test data
     const { executeWorkflow } = require('../../engine/workflow-executor');
 
     const result = await executeWorkflow(
       policy.workflow_json,
-      test_data,
+      input.value,
       id,
-      'TEST_' + Date.now()
+      'TEST_' + Date.now(),
+      { as_of: asOf, parameters }
     );
 
     res.json({
@@ -545,6 +730,8 @@ router.post('/:id/test', authenticate, requireRole(['admin', 'policy_creator']),
         details: result.details,
         execution_trace: result.trace,
         execution_time_ms: result.execution_time_ms,
+        evaluation_date: result.evaluation_date,
+        parameter_version: result.parameter_version,
       },
     });
   } catch (error: any) {
@@ -553,4 +740,634 @@ router.post('/:id/test', authenticate, requireRole(['admin', 'policy_creator']),
   }
 });
 
+/**
+ * Start a step-through debug run with sample data
+ * POST /api/policies/:id/debug
+ *
+ * Body: { test_data, breakpoints?: string[], break_on_start?: boolean,
+ *         as_of?: evaluation date, parameter_set_id?: pending parameter change,
+ *         workflow_json?: unsaved workflow from the builder }
+ */
+router.post('/:id/debug', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { test_data, breakpoints, break_on_start, as_of, parameter_set_id, workflow_json } = req.body;
+
+    if (!test_data) {
+      return res.status(400).json({
+        success: false,
+        error: 'test_data is required',
+      });
+    }
+
+    if (breakpoints !== undefined && !Array.isArray(breakpoints)) {
+      return res.status(400).json({
+        success: false,
+        error: 'breakpoints must be an array of node ids',
+      });
+    }
+
+    const asOf = as_of ? toDate(as_of) : undefined;
+    if (asOf === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'as_of must be a date (YYYY-MM-DD)',
+      });
+    }
+
+    const policy = await getPolicyById(id);
+
+    if (!policy) {
+      return res.status(404).json({
+        success: false,
+        error: 'Policy not found',
+      });
+    }
+
+    const workflow = workflow_json || policy.workflow_json;
+
+    const parameters = await resolveTestParameters(id, parameter_set_id);
+    if (!parameters) {
+      return res.status(404).json({
+        success: false,
+        error: 'Parameter set not found',
+      });
+    }
+
+    const input = applyInputSchema(workflow, test_data);
+    if (!input.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Test data does not match the policy input schema',
+        violations: input.violations,
+      });
+    }
+
+    const snapshot = await startDebugSession(workflow, input.value, id, req.user!.id, {
+      breakpoints,
+      break_on_start,
+      as_of: asOf,
+      parameters,
+    });
+
+    res.status(201).json({ success: true, data: snapshot });
+  } catch (error: any) {
+    logger.error(`Start debug session error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+const sendDebugSnapshot = (res: Response, snapshot: DebugSnapshot | null) => {
+  if (!snapshot) {
+    return res.status(404).json({
+      success: false,
+      error: 'Debug session not found',
+    });
+  }
+  res.json({ success: true, data: snapshot });
+};
+
+/**
+ * Current state of a debug session
+ * GET /api/policies/:id/debug/:sessionId
+ */
+router.get('/:id/debug/:sessionId', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  sendDebugSnapshot(res, getDebugSession(req.params.sessionId, req.user!.id));
+});
+
+/**
+ * Run the paused node and pause before the next one
+ * POST /api/policies/:id/debug/:sessionId/step
+ */
+router.post('/:id/debug/:sessionId/step', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    sendDebugSnapshot(res, await stepDebugSession(req.params.sessionId, req.user!.id));
+  } catch (error: any) {
+    res.status(409).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * Resume until the next breakpoint or the end of the run
+ * POST /api/policies/:id/debug/:sessionId/continue
+ */
+router.post('/:id/debug/:sessionId/continue', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    sendDebugSnapshot(res, await continueDebugSession(req.params.sessionId, req.user!.id));
+  } catch (error: any) {
+    res.status(409).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * Edit variables while paused
+ * PATCH /api/policies/:id/debug/:sessionId/variables
+ *
+ * Body: { variables?: { name: value }, remove?: string[] }
+ */
+router.patch('/:id/debug/:sessionId/variables', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    const { variables, remove } = req.body;
+
+    if ((variables !== undefined && (typeof variables !== 'object' || Array.isArray(variables)))
+      || (remove !== undefined && !Array.isArray(remove))) {
+      return res.status(400).json({
+        success: false,
+        error: 'variables must be an object and remove an array of names',
+      });
+    }
+
+    sendDebugSnapshot(res, setDebugVariables(req.params.sessionId, req.user!.id, variables, remove));
+  } catch (error: any) {
+    res.status(409).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * Replace the breakpoints of a debug session
+ * PUT /api/policies/:id/debug/:sessionId/breakpoints
+ */
+router.put('/:id/debug/:sessionId/breakpoints', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  const { breakpoints } = req.body;
+
+  if (!Array.isArray(breakpoints)) {
+    return res.status(400).json({
+      success: false,
+      error: 'breakpoints must be an array of node ids',
+    });
+  }
+
+  sendDebugSnapshot(res, setDebugBreakpoints(req.params.sessionId, req.user!.id, breakpoints));
+});
+
+/**
+ * Stop a debug run
+ * DELETE /api/policies/:id/debug/:sessionId
+ */
+router.delete('/:id/debug/:sessionId', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  if (!endDebugSession(req.params.sessionId, req.user!.id)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Debug session not found',
+    });
+  }
+  res.json({ success: true, message: 'Debug session ended' });
+});
+
+const sendParameterError = (res: Response, error: any, action: string) => {
+  if (error instanceof ParameterChangeError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  logger.error(`${action} error: ${error.message}`);
+  res.status(500).json({ success: false, error: error.message });
+};
+
+const auditPolicyChange = async (userId: string, action: string, policyId: string, details: any) => {
+  try {
+    await pool.query(
+      `INSERT INTO audit_logs (user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, 'policy', $3, $4)`,
+      [userId, action, policyId, JSON.stringify(details)]
+    );
+  } catch (auditError: any) {
+    logger.warn(`Audit logging failed: ${auditError.message}`);
+  }
+};
+
+/**
+ * Effective parameter set and change history
+ * GET /api/policies/:id/parameters
+ */
+router.get('/:id/parameters', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const [effective, history] = await Promise.all([
+      getEffectiveParameterSet(id),
+      getParameterHistory(id),
+    ]);
+
+    res.json({ success: true, data: { effective, history } });
+  } catch (error: any) {
+    logger.error(`Get parameters error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * Propose a new parameter set (takes effect once another user approves it)
+ * POST /api/policies/:id/parameters
+ *
+ * Body: { parameters: [{ name, type, value, description? }], change_notes? }
+ */
+router.post('/:id/parameters', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { parameters, change_notes } = req.body;
+    const userId = req.user!.id;
+
+    const change = await proposeParameterChange(id, parameters, change_notes, userId);
+    await auditPolicyChange(userId, 'propose_parameters', id, { parameter_set_id: change.id, change_notes });
+
+    res.status(201).json({
+      success: true,
+      message: 'Parameter change submitted for approval',
+      data: change,
+    });
+  } catch (error: any) {
+    sendParameterError(res, error, 'Propose parameters');
+  }
+});
+
+/**
+ * Approve or reject a pending parameter change
+ * POST /api/policies/:id/parameters/:setId/approve
+ * POST /api/policies/:id/parameters/:setId/reject
+ *
+ * Body: { notes? }
+ */
+const reviewParameters = (decision: 'approved' | 'rejected') => async (req: Request, res: Response) => {
+  try {
+    const { id, setId } = req.params;
+    const userId = req.user!.id;
+
+    const change = await reviewParameterChange(id, setId, decision, req.body.notes, userId);
+    await auditPolicyChange(userId, decision === 'approved' ? 'approve_parameters' : 'reject_parameters', id, {
+      parameter_set_id: setId,
+      version: change.version,
+    });
+
+    res.json({
+      success: true,
+      message: decision === 'approved'
+        ? `Parameter version ${change.version} is now in effect`
+        : 'Parameter change rejected',
+      data: change,
+    });
+  } catch (error: any) {
+    sendParameterError(res, error, 'Review parameters');
+  }
+};
+
+router.post('/:id/parameters/:setId/approve', authenticate, requireRole(['admin', 'policy_creator']), reviewParameters('approved'));
+router.post('/:id/parameters/:setId/reject', authenticate, requireRole(['admin', 'policy_creator']), reviewParameters('rejected'));
+
+/**
+ * Withdraw one's own pending parameter change
+ * POST /api/policies/:id/parameters/:setId/withdraw
+ */
+router.post('/:id/parameters/:setId/withdraw', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    const { id, setId } = req.params;
+    const change = await withdrawParameterChange(id, setId, req.user!.id);
+    res.json({ success: true, message: 'Parameter change withdrawn', data: change });
+  } catch (error: any) {
+    sendParameterError(res, error, 'Withdraw parameters');
+  }
+});
+
+const sendShadowError = (res: Response, error: any, action: string) => {
+  if (error instanceof ShadowPolicyError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  logger.error(`${action} error: ${error.message}`);
+  res.status(500).json({ success: false, error: error.message });
+};
+
+/**
+ * Shadow policies of a live policy with run and disagreement counts
+ * GET /api/policies/:id/shadows
+ */
+router.get('/:id/shadows', authenticate, async (req: Request, res: Response) => {
+  try {
+    const shadows = await getPolicyShadows(req.params.id);
+    res.json({ success: true, data: { shadows } });
+  } catch (error: any) {
+    sendShadowError(res, error, 'Get shadows');
+  }
+});
+
+/**
+ * Run another policy in shadow mode on this policy's live requests
+ * POST /api/policies/:id/shadows
+ *
+ * Body: { shadow_policy_id, notes? }
+ */
+router.post('/:id/shadows', authenticate, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { shadow_policy_id, notes } = req.body;
+    const userId = req.user!.id;
+
+    const shadow = await attachShadowPolicy(id, shadow_policy_id, userId, notes);
+    await auditPolicyChange(userId, 'start_shadow_policy', id, { shadow_policy_id, notes });
+
+    res.status(201).json({
+      success: true,
+      message: 'Shadow policy started',
+      data: shadow,
+    });
+  } catch (error: any) {
+    sendShadowError(res, error, 'Start shadow');
+  }
+});
+
+/**
+ * Stop a shadow policy; its recorded runs stay available
+ * DELETE /api/policies/:id/shadows/:shadowPolicyId
+ */
+router.delete('/:id/shadows/:shadowPolicyId', authenticate, requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const { id, shadowPolicyId } = req.params;
+    const userId = req.user!.id;
+
+    await stopShadowPolicy(id, shadowPolicyId);
+    await auditPolicyChange(userId, 'stop_shadow_policy', id, { shadow_policy_id: shadowPolicyId });
+
+    res.json({ success: true, message: 'Shadow policy stopped' });
+  } catch (error: any) {
+    sendShadowError(res, error, 'Stop shadow');
+  }
+});
+
+/**
+ * Comparison report: decision matrix, agreement and approval rates, recent disagreements
+ * GET /api/policies/:id/shadows/:shadowPolicyId/comparison?from=&to=
+ */
+router.get('/:id/shadows/:shadowPolicyId/comparison', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { id, shadowPolicyId } = req.params;
+    const from = req.query.from ? toDate(req.query.from) : undefined;
+    const to = req.query.to ? toDate(req.query.to) : undefined;
+    if (from === null || to === null) {
+      return res.status(400).json({ success: false, error: 'from and to must be dates' });
+    }
+
+    const comparison = await getShadowComparison(id, shadowPolicyId, { from, to });
+    res.json({ success: true, data: comparison });
+  } catch (error: any) {
+    sendShadowError(res, error, 'Get shadow comparison');
+  }
+});
+
+/**
+ * Shadow runs, newest first
+ * GET /api/policies/:id/shadows/:shadowPolicyId/executions?outcome=agreed|disagreed|error&page=1&limit=50
+ */
+router.get('/:id/shadows/:shadowPolicyId/executions', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { id, shadowPolicyId } = req.params;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+
+    const { executions, total } = await getShadowExecutions(id, shadowPolicyId, {
+      outcome: req.query.outcome as ShadowOutcome | undefined,
+      page,
+      limit,
+    });
+
+    res.json({
+      success: true,
+      data: { executions },
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    sendShadowError(res, error, 'Get shadow executions');
+  }
+});
+
+/**
+ * One shadow run with its details and execution trace
+ * GET /api/policies/:id/shadow-executions/:executionId
+ */
+router.get('/:id/shadow-executions/:executionId', authenticate, async (req: Request, res: Response) => {
+  try {
+    const execution = await getShadowExecution(req.params.id, req.params.executionId);
+    if (!execution) {
+      return res.status(404).json({ success: false, error: 'Shadow execution not found' });
+    }
+    res.json({ success: true, data: execution });
+  } catch (error: any) {
+    sendShadowError(res, error, 'Get shadow execution');
+  }
+});
+
+const sendBacktestError = (res: Response, error: any, action: string) => {
+  if (error instanceof BacktestError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  logger.error(`${action} error: ${error.message}`);
+  res.status(500).json({ success: false, error: error.message });
+};
+
+/**
+ * Backtests of a policy, newest first, with progress and swap summaries
+ * GET /api/policies/:id/backtests
+ */
+router.get('/:id/backtests', authenticate, async (req: Request, res: Response) => {
+  try {
+    const backtests = await getBacktests(req.params.id);
+    res.json({ success: true, data: { backtests } });
+  } catch (error: any) {
+    sendBacktestError(res, error, 'Get backtests');
+  }
+});
+
+/**
+ * Replay logged applications through the policy's current workflow
+ * POST /api/policies/:id/backtests
+ *
+ * Body: { date_from, date_to, parameter_set_id?, source_policy_id? }
+ * A date-only date_to includes that whole day. Answers 202 with the job;
+ * poll GET /api/policies/:id/backtests/:backtestId for progress.
+ */
+router.post('/:id/backtests', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { date_from, date_to, parameter_set_id, source_policy_id } = req.body;
+
+    const from = toDate(date_from);
+    let to = toDate(date_to);
+    if (!from || !to) {
+      return res.status(400).json({ success: false, error: 'date_from and date_to must be dates' });
+    }
+    if (typeof date_to === 'string' && date_to.length === 10) {
+      to = new Date(addToDate(to, 1, 'DAYS').getTime() - 1);
+    }
+
+    const backtest = await startBacktest(
+      id,
+      { date_from: from, date_to: to, parameter_set_id, source_policy_id },
+      req.user!.id
+    );
+    await auditPolicyChange(req.user!.id, 'start_backtest', id, {
+      backtest_id: backtest.id,
+      date_from,
+      date_to,
+      parameter_set_id,
+      source_policy_id,
+    });
+
+    res.status(202).json({
+      success: true,
+      message: 'Backtest started',
+      data: backtest,
+    });
+  } catch (error: any) {
+    sendBacktestError(res, error, 'Start backtest');
+  }
+});
+
+/**
+ * A backtest's progress and, once completed, its swap-set summary
+ * GET /api/policies/:id/backtests/:backtestId
+ */
+router.get('/:id/backtests/:backtestId', authenticate, async (req: Request, res: Response) => {
+  try {
+    const backtest = await getBacktest(req.params.id, req.params.backtestId);
+    if (!backtest) {
+      return res.status(404).json({ success: false, error: 'Backtest not found' });
+    }
+    res.json({ success: true, data: backtest });
+  } catch (error: any) {
+    sendBacktestError(res, error, 'Get backtest');
+  }
+});
+
+/**
+ * Stop a running backtest
+ * POST /api/policies/:id/backtests/:backtestId/cancel
+ */
+router.post('/:id/backtests/:backtestId/cancel', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    await cancelBacktest(req.params.id, req.params.backtestId);
+    res.json({ success: true, message: 'Backtest cancelled' });
+  } catch (error: any) {
+    sendBacktestError(res, error, 'Cancel backtest');
+  }
+});
+
+/**
+ * Replayed applications
+ * GET /api/policies/:id/backtests/:backtestId/results?swap=any|approved_to_rejected|...&rule=&page=1&limit=50
+ */
+router.get('/:id/backtests/:backtestId/results', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { id, backtestId } = req.params;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+
+    const { results, total } = await getBacktestResults(id, backtestId, {
+      swap: req.query.swap as SwapType | 'any' | undefined,
+      rule: req.query.rule as string | undefined,
+      page,
+      limit,
+    });
+
+    res.json({
+      success: true,
+      data: { results },
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    sendBacktestError(res, error, 'Get backtest results');
+  }
+});
+
+/**
+ * One replayed application with the original request, response and the replay's trace
+ * GET /api/policies/:id/backtests/:backtestId/results/:resultId
+ */
+router.get('/:id/backtests/:backtestId/results/:resultId', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { id, backtestId, resultId } = req.params;
+    const result = await getBacktestResult(id, backtestId, resultId);
+    if (!result) {
+      return res.status(404).json({ success: false, error: 'Backtest result not found' });
+    }
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    sendBacktestError(res, error, 'Get backtest result');
+  }
+});
+
+const sendBundleError = (res: Response, error: any, action: string) => {
+  if (error instanceof BundleError) {
+    return res.status(error.status).json({ success: false, error: error.message, details: error.details });
+  }
+  logger.error(`${action} error: ${error.message}`);
+  res.status(500).json({ success: false, error: error.message });
+};
+
+/**
+ * Export the saved workflow as a signed, portable bundle
+ * GET /api/policies/:id/export
+ */
+router.get('/:id/export', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const bundle = await exportPolicyBundle(id);
+    await auditPolicyChange(req.user!.id, 'export_policy', id, { checksum: bundle.checksum, signed: !!bundle.signature });
+
+    res.json({ success: true, data: bundle });
+  } catch (error: any) {
+    sendBundleError(res, error, 'Export policy');
+  }
+});
+
+/**
+ * Resolve a bundle's dependencies here without importing it
+ * POST /api/policies/import/preview
+ *
+ * Body: { bundle, target_policy_id?, mappings? }
+ */
+router.post('/import/preview', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    const { bundle, target_policy_id, mappings } = req.body;
+    const preview = await previewBundleImport(bundle, { target_policy_id, mappings });
+    res.json({ success: true, data: preview });
+  } catch (error: any) {
+    sendBundleError(res, error, 'Preview policy import');
+  }
+});
+
+/**
+ * Import a bundle
+ * POST /api/policies/import
+ *
+ * Body: { bundle, strategy?, name?, target_policy_id?, mappings? }
+ * strategy applies when a policy with the bundle's name exists:
+ * 'new_policy', 'new_version' or 'abort' (the default, answered with 409).
+ */
+router.post('/import', authenticate, requireRole(['admin', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    const { bundle, strategy, name, target_policy_id, mappings } = req.body;
+    const result = await importPolicyBundle(bundle, { strategy, name, target_policy_id, mappings }, req.user!.id);
+    await auditPolicyChange(req.user!.id, 'import_policy', result.policy.id, {
+      action: result.action,
+      version: result.version,
+      checksum: bundle.checksum,
+      parameter_set_id: result.parameter_set_id,
+      reference_tables: result.reference_tables,
+    });
+
+    res.status(result.action === 'created' ? 201 : 200).json({
+      success: true,
+      message: result.action === 'created' ? 'Policy imported' : `Imported as version ${result.version}`,
+      data: result,
+    });
+  } catch (error: any) {
+    sendBundleError(res, error, 'Import policy');
+  }
+});
+
 export default router;
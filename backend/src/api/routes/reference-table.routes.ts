@@ -0,0 +1,225 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import {
+  ReferenceTableError,
+  deleteReferenceTable,
+  getAllReferenceTables,
+  getReferenceTable,
+  getReferenceTableDependents,
+  getReferenceTableVersion,
+  getReferenceTableVersions,
+  uploadReferenceTable,
+} from '../../services/reference-table.service';
+import { authenticate, requireRole } from '../middleware/auth.middleware';
+import { pool } from '../../config/database';
+import { config } from '../../config/env';
+import logger from '../../utils/logger';
+
+const router = Router();
+
+// All reference table routes require authentication
+router.use(authenticate);
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.MAX_FILE_SIZE_MB * 1024 * 1024 },
+});
+
+// Multipart `file` field; upload errors (size, field name) answer 400
+const receiveFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, (uploadError: any) => {
+    if (uploadError) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'UPLOAD_ERROR', message: uploadError.message },
+      });
+      return;
+    }
+    next();
+  });
+};
+
+const sendError = (res: Response, error: any, code: string, action: string) => {
+  if (!(error instanceof ReferenceTableError)) {
+    logger.error(`${action} error: ${error.message}`);
+  }
+  res.status(error instanceof ReferenceTableError ? error.status : 500).json({
+    success: false,
+    error: { code, message: error.message },
+  });
+};
+
+const auditReferenceTable = async (userId: string, action: string, tableId: string, details: any) => {
+  try {
+    await pool.query(
+      `INSERT INTO audit_logs (user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, 'reference_table', $3, $4)`,
+      [userId, action, tableId, JSON.stringify(details)]
+    );
+  } catch (auditError: any) {
+    logger.warn(`Audit logging failed: ${auditError.message}`);
+  }
+};
+
+/**
+ * Get all reference tables
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const tables = await getAllReferenceTables();
+
+    res.json({
+      success: true,
+      data: { tables },
+    });
+  } catch (error) {
+    sendError(res, error, 'GET_REFERENCE_TABLES_ERROR', 'Get reference tables');
+  }
+});
+
+/**
+ * Get a reference table with its version history
+ */
+router.get('/:name', async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+
+    const table = await getReferenceTable(name);
+    if (!table) {
+      res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Reference table not found' },
+      });
+      return;
+    }
+    const versions = await getReferenceTableVersions(name);
+
+    res.json({
+      success: true,
+      data: { table, versions },
+    });
+  } catch (error) {
+    sendError(res, error, 'GET_REFERENCE_TABLE_ERROR', 'Get reference table');
+  }
+});
+
+/**
+ * Rows of one version
+ * GET /api/reference-tables/:name/versions/:version?limit=100
+ *
+ * `current` as the version reads the current one.
+ */
+router.get('/:name/versions/:version', async (req: Request, res: Response) => {
+  try {
+    const { name, version } = req.params;
+    const limit = parseInt(req.query.limit as string) || 100;
+
+    const stored = await getReferenceTableVersion(name, version === 'current' ? undefined : parseInt(version, 10));
+    if (!stored) {
+      res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Reference table version not found' },
+      });
+      return;
+    }
+
+    const { rows, ...details } = stored;
+    res.json({
+      success: true,
+      data: { ...details, rows: (rows || []).slice(0, limit) },
+    });
+  } catch (error) {
+    sendError(res, error, 'GET_REFERENCE_TABLE_VERSION_ERROR', 'Get reference table version');
+  }
+});
+
+/**
+ * Policies that read a reference table
+ */
+router.get('/:name/dependents', async (req: Request, res: Response) => {
+  try {
+    const dependents = await getReferenceTableDependents(req.params.name);
+
+    res.json({
+      success: true,
+      data: { dependents },
+    });
+  } catch (error) {
+    sendError(res, error, 'GET_DEPENDENTS_ERROR', 'Get reference table dependents');
+  }
+});
+
+/**
+ * Upload a CSV or Excel file as the next version of a table
+ * POST /api/reference-tables/:name (multipart)
+ *
+ * Fields: file, key_column?, columns? (JSON [{ name, type }]), description?, change_notes?
+ */
+router.post('/:name', requireRole(['admin', 'policy_creator']), receiveFile, async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    const { key_column, columns, description, change_notes } = req.body;
+
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'A CSV or Excel file is required' },
+      });
+      return;
+    }
+
+    let declaredColumns;
+    try {
+      declaredColumns = columns ? JSON.parse(columns) : undefined;
+    } catch (parseError) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'columns must be a JSON list of { name, type }' },
+      });
+      return;
+    }
+
+    const result = await uploadReferenceTable(
+      name,
+      req.file,
+      { key_column, columns: declaredColumns, description, change_notes },
+      req.user!.id
+    );
+    await auditReferenceTable(req.user!.id, 'upload_reference_table', result.table.id, {
+      name,
+      version: result.version,
+      row_count: result.row_count,
+      source_filename: req.file.originalname,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Version ${result.version} uploaded`,
+      data: result,
+    });
+  } catch (error) {
+    sendError(res, error, 'UPLOAD_REFERENCE_TABLE_ERROR', 'Upload reference table');
+  }
+});
+
+/**
+ * Delete a reference table with all its versions
+ */
+router.delete('/:name', requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+
+    const table = await getReferenceTable(name);
+    await deleteReferenceTable(name);
+    await auditReferenceTable(req.user!.id, 'delete_reference_table', table.id, { name });
+
+    res.json({
+      success: true,
+      message: 'Reference table deleted successfully',
+    });
+  } catch (error) {
+    sendError(res, error, 'DELETE_REFERENCE_TABLE_ERROR', 'Delete reference table');
+  }
+});
+
+export default router;
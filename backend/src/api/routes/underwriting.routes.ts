@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { processUnderwriting, getUnderwritingStatus, getUnderwritingAnalytics } from '../../services/underwriting.service';
+import { InputValidationError } from '../../engine/input-schema';
 import logger from '../../utils/logger';
 import { pool } from '../../config/database';
 import { hashApiKey } from '../../utils/encryption';
@@ -136,7 +137,7 @@ const verifyAPIKey = async (req: Request, res: Response, next: Function) => {
  *       401:
  *         description: Invalid API key
  *       400:
- *         description: Validation error
+ *         description: Validation error. When the applicant data does not match the policy input schema, error.violations lists every failing field.
  */
 router.post('/:policy_id', verifyAPIKey, async (req: Request, res: Response) => {
   try {
@@ -165,6 +166,18 @@ router.post('/:policy_id', verifyAPIKey, async (req: Request, res: Response) =>
     res.json(result);
 
   } catch (error) {
+    if (error instanceof InputValidationError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Applicant data does not match the policy input schema',
+          violations: error.violations,
+        },
+      });
+      return;
+    }
+
     logger.error(`Underwriting request error: ${error.message}`);
     res.status(500).json({
       success: false,
@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, requireRole } from '../middleware/auth.middleware';
+import { IDENTIFIER_TYPES, IdentifierType, normalizeIdentifier } from '../../engine/velocity';
+import { backfillApplicationIdentifiers, getLinkedApplications } from '../../services/velocity.service';
+import { pool } from '../../config/database';
+import logger from '../../utils/logger';
+
+const router = Router();
+
+// All velocity routes require authentication
+router.use(authenticate);
+
+/**
+ * Applications recorded with an identifier
+ * GET /api/velocity/identifiers/:type/:value?limit=50
+ */
+router.get('/identifiers/:type/:value', requireRole(['admin', 'reviewer', 'policy_creator']), async (req: Request, res: Response) => {
+  try {
+    const type = req.params.type as IdentifierType;
+    if (!IDENTIFIER_TYPES.includes(type)) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: `Identifier type must be one of ${IDENTIFIER_TYPES.join(', ')}` },
+      });
+      return;
+    }
+
+    const value = normalizeIdentifier(type, req.params.value);
+    const limit = parseInt(req.query.limit as string) || 50;
+    const applications = value ? await getLinkedApplications(type, value, limit) : [];
+
+    res.json({
+      success: true,
+      data: { type, value, applications },
+    });
+  } catch (error) {
+    logger.error(`Get linked applications error: ${error.message}`);
+    res.status(500).json({
+      success: false,
+      error: { code: 'GET_LINKED_APPLICATIONS_ERROR', message: error.message },
+    });
+  }
+});
+
+/**
+ * Load identifiers from the logged underwriting requests
+ * POST /api/velocity/backfill
+ */
+router.post('/backfill', requireRole(['admin']), async (req: Request, res: Response) => {
+  try {
+    const result = await backfillApplicationIdentifiers();
+
+    try {
+      await pool.query(
+        `INSERT INTO audit_logs (user_id, action, resource_type, resource_id, details)
+         VALUES ($1, 'backfill_application_identifiers', 'application_identifier', NULL, $2)`,
+        [req.user!.id, JSON.stringify(result)]
+      );
+    } catch (auditError: any) {
+      logger.warn(`Audit logging failed: ${auditError.message}`);
+    }
+
+    res.json({
+      success: true,
+      message: `Recorded ${result.identifiers} identifiers from ${result.requests} requests`,
+      data: result,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: { code: 'BACKFILL_ERROR', message: error.message },
+    });
+  }
+});
+
+export default router;
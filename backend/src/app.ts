@@ -9,6 +9,10 @@ import underwritingRoutes from './api/routes/underwriting.routes';
 import policyRoutes from './api/routes/policy.routes';
 import manualReviewRoutes from './api/routes/manual-review.routes';
 import analyticsRoutes from './api/routes/analytics.routes';
+import referenceTableRoutes from './api/routes/reference-table.routes';
+import velocityRoutes from './api/routes/velocity.routes';
+import negativeListRoutes from './api/routes/negative-list.routes';
+import experimentRoutes from './api/routes/experiment.routes';
 
 const app: Application = express();
 
@@ -73,6 +77,10 @@ app.use('/api/connectors', connectorRoutes);
 app.use('/api/policies', policyRoutes);
 app.use('/api/manual-review', manualReviewRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/reference-tables', referenceTableRoutes);
+app.use('/api/velocity', velocityRoutes);
+app.use('/api/negative-lists', negativeListRoutes);
+app.use('/api/experiments', experimentRoutes);
 app.use('/api/v1/underwrite', underwritingRoutes);
 
 // 404 handler
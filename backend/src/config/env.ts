@@ -17,6 +17,7 @@ interface EnvConfig {
   JWT_SECRET: string;
   ENCRYPTION_KEY: string;
   WEBHOOK_SECRET: string;
+  BUNDLE_SIGNING_SECRET?: string;
 
   // LOS Integration
   LOS_WEBHOOK_URL: string;
@@ -47,6 +48,14 @@ interface EnvConfig {
   LOG_LEVEL: string;
   LOG_FILE_PATH: string;
 
+  // Workflow Engine
+  WORKFLOW_MAX_NODE_VISITS: number;
+  WORKFLOW_TIMEOUT_MS: number;
+  EXECUTION_PLAN_TTL_MS: number;
+  BACKTEST_MAX_APPLICATIONS: number;
+  SHADOW_MAX_CONCURRENT_REQUESTS: number;
+  API_CALL_ALLOWED_HOSTS: string; // comma-separated hosts apiCall URLs may build from variables
+
   // Feature Flags
   ENABLE_ASYNC_PROCESSING: boolean;
   ENABLE_WEBHOOK_RETRIES: boolean;
@@ -86,6 +95,7 @@ export const config: EnvConfig = {
   JWT_SECRET: getEnvVar('JWT_SECRET'),
   ENCRYPTION_KEY: getEnvVar('ENCRYPTION_KEY'),
   WEBHOOK_SECRET: getEnvVar('WEBHOOK_SECRET'),
+  BUNDLE_SIGNING_SECRET: process.env.BUNDLE_SIGNING_SECRET,
 
   // LOS Integration
   LOS_WEBHOOK_URL: getEnvVar('LOS_WEBHOOK_URL', 'https://new-age-los.netlify.app/api/underwriting/callback'),
@@ -116,6 +126,14 @@ export const config: EnvConfig = {
   LOG_LEVEL: getEnvVar('LOG_LEVEL', 'info'),
   LOG_FILE_PATH: getEnvVar('LOG_FILE_PATH', './logs/app.log'),
 
+  // Workflow Engine
+  WORKFLOW_MAX_NODE_VISITS: getEnvVarAsNumber('WORKFLOW_MAX_NODE_VISITS', 500),
+  WORKFLOW_TIMEOUT_MS: getEnvVarAsNumber('WORKFLOW_TIMEOUT_MS', 30000),
+  EXECUTION_PLAN_TTL_MS: getEnvVarAsNumber('EXECUTION_PLAN_TTL_MS', 60000),
+  BACKTEST_MAX_APPLICATIONS: getEnvVarAsNumber('BACKTEST_MAX_APPLICATIONS', 50000),
+  SHADOW_MAX_CONCURRENT_REQUESTS: getEnvVarAsNumber('SHADOW_MAX_CONCURRENT_REQUESTS', 10),
+  API_CALL_ALLOWED_HOSTS: process.env.API_CALL_ALLOWED_HOSTS || '',
+
   // Feature Flags
   ENABLE_ASYNC_PROCESSING: getEnvVarAsBoolean('ENABLE_ASYNC_PROCESSING', true),
   ENABLE_WEBHOOK_RETRIES: getEnvVarAsBoolean('ENABLE_WEBHOOK_RETRIES', true),
@@ -0,0 +1,102 @@
+/**
+ * Backtests
+ *
+ * A backtest replays logged applications through a draft policy and compares
+ * its decisions with the ones given at the time. Applications whose decision
+ * changes form the swap set:
+ *
+ *   approved → rejected        rejected → approved
+ *   approved/rejected → manual review (to_manual_review)
+ *   manual review → approved/rejected (from_manual_review)
+ *
+ * Each swap is attributed to a rule: the node that made the new decision or,
+ * when the application is now approved, the node whose old decision no
+ * longer stands.
+ */
+
+export type BacktestDecision = 'approved' | 'rejected' | 'manual_review';
+
+export const SWAP_TYPES = ['approved_to_rejected', 'rejected_to_approved', 'to_manual_review', 'from_manual_review'] as const;
+export type SwapType = typeof SWAP_TYPES[number];
+
+export const BACKTEST_DECISIONS: BacktestDecision[] = ['approved', 'rejected', 'manual_review'];
+
+export interface DecidingRule {
+  node_id: string | null;
+  label: string;
+}
+
+// What the rule attribution reads from a run (live response or replay result)
+export interface DecidedRun {
+  success?: boolean;
+  decision: string;
+  reason?: string;
+  details?: Record<string, any>;
+  execution_trace?: { node_id: string; node_type: string }[];
+}
+
+/**
+ * Swap between a past decision and the replayed one; null when unchanged
+ */
+export const classifySwap = (original: BacktestDecision, replayed: BacktestDecision): SwapType | null => {
+  if (original === replayed) return null;
+  if (replayed === 'manual_review') return 'to_manual_review';
+  if (original === 'manual_review') return 'from_manual_review';
+  return original === 'approved' ? 'approved_to_rejected' : 'rejected_to_approved';
+};
+
+/**
+ * The node that made a run's decision. Labels come from `nodeLabels`
+ * (node id → label), falling back to the trace's node id.
+ */
+export const findDecidingRule = (run: DecidedRun, nodeLabels: Map<string, string>): DecidingRule => {
+  const labelOf = (nodeId: string) => nodeLabels.get(nodeId) || nodeId;
+
+  if (run.success === false) {
+    return { node_id: null, label: 'Execution error' };
+  }
+
+  const details = run.details || {};
+  if (run.decision === 'manual_review' && Array.isArray(details.missing_data)) {
+    const referrals = details.missing_data.filter((flag: any) => flag.action === 'manual_review');
+    if (referrals.length > 0) {
+      const variables = Array.from(new Set(referrals.map((flag: any) => flag.variable)));
+      return { node_id: null, label: `Missing data: ${variables.join(', ')}` };
+    }
+  }
+
+  const strategy = details.strategyResults;
+  if (strategy) {
+    const votes: { node_id: string; label: string; decision: string }[] = strategy.votes || [];
+    const vote = votes.find(v => v.node_id === strategy.deciding_node) || votes.find(v => v.decision === run.decision);
+    if (vote) {
+      return { node_id: vote.node_id, label: nodeLabels.get(vote.node_id) || vote.label || vote.node_id };
+    }
+  }
+
+  const trace = run.execution_trace || [];
+  const decisionEntry = [...trace].reverse().find(entry => entry.node_type === 'decision');
+  if (decisionEntry) {
+    return { node_id: decisionEntry.node_id, label: labelOf(decisionEntry.node_id) };
+  }
+
+  return { node_id: null, label: run.reason || 'Unknown' };
+};
+
+/**
+ * Rule a swap is attributed to: the new decision's rule, or the old one's
+ * when the application is now approved
+ */
+export const attributeSwap = (replayed: BacktestDecision, originalRule: DecidingRule, replayedRule: DecidingRule): DecidingRule =>
+  (replayed === 'approved' ? originalRule : replayedRule);
+
+/**
+ * Node id → label for a workflow's nodes
+ */
+export const nodeLabelsOf = (workflow: { nodes?: any[] } | null | undefined): Map<string, string> => {
+  const labels = new Map<string, string>();
+  (workflow?.nodes || []).forEach(node => {
+    if (node?.id) labels.set(node.id, node.data?.label || node.id);
+  });
+  return labels;
+};
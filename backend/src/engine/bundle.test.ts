@@ -0,0 +1,143 @@
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_FORMAT_VERSION,
+  PolicyBundle,
+  computeBundleChecksum,
+  getUnresolvedRefs,
+  getWorkflowConnectorIds,
+  rewriteWorkflowRefs,
+  signBundleChecksum,
+  validateBundleShape,
+  verifyBundle,
+} from './bundle';
+import { Workflow } from './workflow-executor';
+
+const SECRET = 'bundle-secret';
+
+const workflow = (): Workflow => ({
+  nodes: [
+    { id: 'start', type: 'start', position: { x: 0, y: 0 }, data: { label: 'Start' } },
+    { id: 'bureau', type: 'dataSource', position: { x: 0, y: 100 }, data: { label: 'Bureau', config: { connector_id: 'conn-a' } } },
+    { id: 'ledger', type: 'dbQuery', position: { x: 0, y: 200 }, data: { label: 'Ledger', config: { connector_id: 'conn-b' } } },
+    { id: 'fraud', type: 'subPolicy', position: { x: 0, y: 300 }, data: { label: 'Fraud', config: { policy_id: 'pol-x', version: '3' } } },
+    { id: 'rates', type: 'lookup', position: { x: 0, y: 400 }, data: { label: 'Rates', config: { table: 'rates', version: 4 } } },
+  ],
+  edges: [],
+} as any);
+
+const bundle = (signed: boolean = true): PolicyBundle => {
+  const unsigned = {
+    format: BUNDLE_FORMAT,
+    format_version: BUNDLE_FORMAT_VERSION,
+    exported_at: '2024-06-15T12:00:00.000Z',
+    content: {
+      policy: { name: 'Personal loan', description: null, product_type: 'personal_loan', is_fragment: false, version: '1.2.0' },
+      workflow: workflow(),
+      parameters: [],
+      parameter_version: null,
+      reference_tables: [],
+      test_cases: [{ name: 'Prime', input_data: { score: 780 }, expected_decision: 'approved' }],
+      connectors: [],
+      sub_policies: [],
+      negative_lists: [],
+    },
+  };
+  const checksum = computeBundleChecksum(unsigned);
+  return { ...unsigned, checksum, signature: signed ? signBundleChecksum(checksum, SECRET) : null };
+};
+
+describe('verifyBundle', () => {
+  it('accepts an untouched signed bundle', () => {
+    expect(verifyBundle(bundle(), SECRET)).toEqual({ checksum_valid: true, signature: 'valid' });
+  });
+
+  it('does not depend on key order', () => {
+    const original = bundle();
+    const reordered = JSON.parse(JSON.stringify({ ...original, content: { ...original.content } }));
+    reordered.content = Object.fromEntries(Object.entries(reordered.content).reverse());
+    expect(verifyBundle(reordered, SECRET).checksum_valid).toBe(true);
+  });
+
+  it('detects tampered content', () => {
+    const tampered = bundle();
+    tampered.content.test_cases[0].expected_decision = 'rejected';
+    expect(verifyBundle(tampered, SECRET)).toEqual({ checksum_valid: false, signature: 'invalid' });
+  });
+
+  it('detects a checksum recomputed without the secret', () => {
+    const tampered = bundle();
+    tampered.content.policy.name = 'Other';
+    tampered.checksum = computeBundleChecksum(tampered);
+    expect(verifyBundle(tampered, SECRET)).toEqual({ checksum_valid: true, signature: 'invalid' });
+  });
+
+  it('detects a changed export time', () => {
+    const tampered = { ...bundle(), exported_at: '2024-06-16T12:00:00.000Z' };
+    expect(verifyBundle(tampered, SECRET).checksum_valid).toBe(false);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyBundle(bundle(), 'other-secret').signature).toBe('invalid');
+  });
+
+  it('reports unsigned bundles, and signed ones without a secret to check', () => {
+    expect(verifyBundle(bundle(false), SECRET)).toEqual({ checksum_valid: true, signature: 'unsigned' });
+    expect(verifyBundle(bundle(), undefined).signature).toBe('unsigned');
+  });
+
+  it('treats a malformed signature as invalid', () => {
+    expect(verifyBundle({ ...bundle(), signature: 'abc' }, SECRET).signature).toBe('invalid');
+  });
+});
+
+describe('validateBundleShape', () => {
+  it('accepts a complete bundle', () => {
+    expect(validateBundleShape(bundle())).toEqual([]);
+  });
+
+  it('reports what is missing', () => {
+    expect(validateBundleShape(null)).toEqual(['bundle must be an object']);
+    expect(validateBundleShape({ format: 'zip', format_version: 2 })).toEqual([
+      'format must be "policy-bundle"',
+      'format_version 2 is not supported',
+      'content is missing',
+    ]);
+    const partial = bundle();
+    delete (partial.content as any).connectors;
+    expect(validateBundleShape(partial)).toEqual(['content.connectors must be a list']);
+  });
+});
+
+describe('workflow references', () => {
+  it('lists the connectors a workflow uses', () => {
+    expect(getWorkflowConnectorIds(workflow())).toEqual(['conn-a', 'conn-b']);
+  });
+
+  it('rewrites ids without touching the original', () => {
+    const original = workflow();
+    const exported = rewriteWorkflowRefs(original, {
+      connectors: new Map([['conn-a', 'connector:1'], ['conn-b', 'connector:2']]),
+      policies: new Map([['pol-x', 'policy:1']]),
+    });
+    expect(exported.nodes.map(node => node.data.config?.connector_id || node.data.config?.policy_id))
+      .toEqual([undefined, 'connector:1', 'connector:2', 'policy:1', undefined]);
+    expect(original.nodes[1].data.config.connector_id).toBe('conn-a');
+    expect(getUnresolvedRefs(exported)).toEqual(['connector:1', 'connector:2', 'policy:1']);
+  });
+
+  it('resolves references on import and renumbers pinned table versions', () => {
+    const exported = rewriteWorkflowRefs(workflow(), {
+      connectors: new Map([['conn-a', 'connector:1'], ['conn-b', 'connector:2']]),
+      policies: new Map([['pol-x', 'policy:1']]),
+    });
+    const imported = rewriteWorkflowRefs(exported, {
+      connectors: new Map([['connector:1', 'local-a']]),
+      policies: new Map([['policy:1', 'local-x']]),
+      tableVersions: new Map([['rates', new Map([[4, 1]])]]),
+    });
+    expect(imported.nodes[1].data.config.connector_id).toBe('local-a');
+    expect(imported.nodes[3].data.config.policy_id).toBe('local-x');
+    expect(imported.nodes[4].data.config.version).toBe(1);
+    expect(getUnresolvedRefs(imported)).toEqual(['connector:2']);
+  });
+});
@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { Workflow } from './workflow-executor';
+import { PolicyParameter } from './parameters';
+import { ReferenceColumn } from './reference-tables';
+import { canonicalJson } from './policy-diff';
+
+/**
+ * Portable policy bundles
+ *
+ * A bundle carries a policy between environments (staging → production):
+ *
+ *   policy            name, description, product type, fragment flag
+ *   workflow          with symbolic references in place of local ids
+ *   parameters        the effective parameter set
+ *   reference_tables  every table version the workflow reads, with rows
+ *   test_cases        saved test inputs and expected decisions
+ *
+ * Connector and sub-policy ids differ per environment, so the workflow
+ * refers to them as "connector:1", "policy:1", ... and the bundle lists what
+ * each reference stood for (connector name, type and provider; policy
+ * name and pinned version). Import resolves them again by name or provider.
+ *
+ * `checksum` is the SHA-256 of the canonical JSON of everything but itself
+ * and `signature`; `signature` is an HMAC-SHA256 of the checksum with the
+ * bundle signing secret, shared by the environments that exchange bundles.
+ */
+
+export const BUNDLE_FORMAT = 'policy-bundle';
+export const BUNDLE_FORMAT_VERSION = 1;
+
+const CONNECTOR_REF = /^connector:\d+$/;
+const POLICY_REF = /^policy:\d+$/;
+
+export interface BundleConnectorRef {
+  ref: string;
+  name: string;
+  type: string;
+  provider: string | null;
+}
+
+export interface BundleSubPolicyRef {
+  ref: string;
+  name: string;
+  product_type: string;
+  is_fragment: boolean;
+}
+
+export interface BundleReferenceTable {
+  name: string;
+  version: number; // version in the exporting environment
+  description: string | null;
+  key_column: string;
+  columns: ReferenceColumn[];
+  rows: Record<string, any>[];
+}
+
+export interface BundleTestCase {
+  name: string;
+  input_data: Record<string, any>;
+  expected_decision: string | null;
+}
+
+export interface PolicyBundleContent {
+  policy: {
+    name: string;
+    description: string | null;
+    product_type: string;
+    is_fragment: boolean;
+    version: string; // version in the exporting environment
+  };
+  workflow: Workflow & { input_schema?: any };
+  parameters: PolicyParameter[];
+  parameter_version: number | null;
+  reference_tables: BundleReferenceTable[];
+  test_cases: BundleTestCase[];
+  connectors: BundleConnectorRef[];
+  sub_policies: BundleSubPolicyRef[];
+  negative_lists: string[]; // referenced by name; entries are not exported
+}
+
+export interface PolicyBundle {
+  format: string;
+  format_version: number;
+  exported_at: string;
+  content: PolicyBundleContent;
+  checksum: string;
+  signature: string | null;
+}
+
+export type BundleSignatureStatus = 'valid' | 'invalid' | 'unsigned';
+
+export const connectorRef = (index: number): string => `connector:${index + 1}`;
+export const policyRef = (index: number): string => `policy:${index + 1}`;
+
+/**
+ * SHA-256 of a bundle's format, export time and content
+ */
+export const computeBundleChecksum = (bundle: Pick<PolicyBundle, 'format' | 'format_version' | 'exported_at' | 'content'>): string =>
+  crypto
+    .createHash('sha256')
+    .update(canonicalJson({
+      format: bundle.format,
+      format_version: bundle.format_version,
+      exported_at: bundle.exported_at,
+      content: bundle.content,
+    }))
+    .digest('hex');
+
+export const signBundleChecksum = (checksum: string, secret: string): string =>
+  crypto.createHmac('sha256', secret).update(checksum).digest('hex');
+
+/**
+ * Check a bundle's checksum and signature. Without a secret to check against,
+ * a signed bundle counts as unsigned.
+ */
+export const verifyBundle = (
+  bundle: PolicyBundle,
+  secret?: string
+): { checksum_valid: boolean; signature: BundleSignatureStatus } => {
+  const checksum = computeBundleChecksum(bundle);
+  const checksumValid = typeof bundle.checksum === 'string' && bundle.checksum === checksum;
+
+  if (!bundle.signature || !secret) {
+    return { checksum_valid: checksumValid, signature: 'unsigned' };
+  }
+  const expected = Buffer.from(signBundleChecksum(checksum, secret));
+  const given = Buffer.from(String(bundle.signature));
+  const valid = given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  return { checksum_valid: checksumValid, signature: valid ? 'valid' : 'invalid' };
+};
+
+/**
+ * Problems with a bundle's shape; empty when it can be previewed
+ */
+export const validateBundleShape = (bundle: any): string[] => {
+  if (!bundle || typeof bundle !== 'object') return ['bundle must be an object'];
+  const errors: string[] = [];
+  if (bundle.format !== BUNDLE_FORMAT) errors.push(`format must be "${BUNDLE_FORMAT}"`);
+  if (bundle.format_version !== BUNDLE_FORMAT_VERSION) errors.push(`format_version ${bundle.format_version} is not supported`);
+  const content = bundle.content;
+  if (!content || typeof content !== 'object') return [...errors, 'content is missing'];
+  if (!content.policy?.name) errors.push('content.policy.name is required');
+  if (!Array.isArray(content.workflow?.nodes) || !Array.isArray(content.workflow?.edges)) {
+    errors.push('content.workflow must have nodes and edges');
+  }
+  ['parameters', 'reference_tables', 'test_cases', 'connectors', 'sub_policies', 'negative_lists'].forEach(key => {
+    if (!Array.isArray(content[key])) errors.push(`content.${key} must be a list`);
+  });
+  return errors;
+};
+
+/**
+ * Copy of a workflow with connector and sub-policy ids replaced through the
+ * given maps (local id → reference on export, reference → local id on
+ * import) and pinned lookup table versions renumbered
+ */
+export const rewriteWorkflowRefs = (
+  workflow: Workflow,
+  maps: {
+    connectors: Map<string, string>;
+    policies: Map<string, string>;
+    tableVersions?: Map<string, Map<number, number>>; // table name → old version → new version
+  }
+): Workflow => {
+  const copy: Workflow = JSON.parse(JSON.stringify(workflow));
+
+  (copy.nodes || []).forEach(node => {
+    const config = node.data?.config;
+    if (!config) return;
+    if (config.connector_id && maps.connectors.has(config.connector_id)) {
+      config.connector_id = maps.connectors.get(config.connector_id);
+    }
+    if (node.type === 'subPolicy' && config.policy_id && maps.policies.has(config.policy_id)) {
+      config.policy_id = maps.policies.get(config.policy_id);
+    }
+    if (node.type === 'lookup' && config.table && Number.isInteger(config.version)) {
+      const renumbered = maps.tableVersions?.get(config.table)?.get(config.version);
+      if (renumbered) config.version = renumbered;
+    }
+  });
+
+  return copy;
+};
+
+/**
+ * Connector ids a workflow uses (data source and database query nodes)
+ */
+export const getWorkflowConnectorIds = (workflow: Workflow): string[] =>
+  Array.from(new Set(
+    (workflow.nodes || [])
+      .map(node => node.data?.config?.connector_id)
+      .filter((id: any) => typeof id === 'string' && id !== '')
+  ));
+
+/**
+ * Symbolic references left unresolved in an imported workflow
+ */
+export const getUnresolvedRefs = (workflow: Workflow): string[] =>
+  Array.from(new Set(
+    (workflow.nodes || [])
+      .flatMap(node => [node.data?.config?.connector_id, node.type === 'subPolicy' ? node.data?.config?.policy_id : null])
+      .filter((id: any) => typeof id === 'string' && (CONNECTOR_REF.test(id) || POLICY_REF.test(id)))
+  ));
@@ -0,0 +1,202 @@
+/**
+ * Strategy condition trees
+ *
+ * A strategy node's `conditions` are the children of a root group combined
+ * with `conditionOperator`. Any child may itself be a group:
+ *
+ *   { type: 'group', operator: 'AND' | 'OR', conditions: [...] }
+ *
+ * Lists saved before groups existed have no `conditionOperator`; their
+ * per-condition `logicalOperator` connectors keep the left-to-right reading
+ * they always had, with no precedence: `a AND b OR c AND d` is
+ * `((a AND b) OR c) AND d`.
+ *
+ * A leaf's `variable` is normally a variable path; text with spaces or
+ * parentheses is an expression computing the compared value instead, e.g.
+ * `count(bureau.enquiries, withinLast(date, '90 DAYS'))`.
+ */
+
+import { MissingDataFlag, MissingDataRule } from './missing-data';
+
+export type LogicalOperator = 'AND' | 'OR';
+
+export interface ConditionLeaf {
+  id: string;
+  type?: 'condition';
+  variable: string;
+  operator: string;
+  value: any;
+  decision?: string;
+  missingData?: MissingDataRule; // overrides the policy's missing-data rule for this condition
+  logicalOperator?: LogicalOperator; // legacy connector to the next condition
+}
+
+export interface ConditionGroup {
+  id: string;
+  type: 'group';
+  operator: LogicalOperator;
+  conditions: ConditionItem[];
+  logicalOperator?: LogicalOperator;
+}
+
+export type ConditionItem = ConditionLeaf | ConditionGroup;
+
+export interface LeafEvaluation {
+  type: 'condition';
+  id: string;
+  path: string;
+  condition: string;
+  result: boolean;
+  decision?: string; // decision set on the condition when it passes
+  missing_data?: MissingDataFlag; // set when decided on missing data
+}
+
+/**
+ * What a leaf evaluator may return instead of a bare boolean, e.g. when
+ * a missing-data rule referred the condition to manual review
+ */
+export interface LeafOutcome {
+  result: boolean;
+  decision?: string;
+  missing_data?: MissingDataFlag;
+}
+
+export interface GroupEvaluation {
+  type: 'group';
+  id: string;
+  path: string; // "root", "1", "1.2", ...
+  operator: LogicalOperator;
+  result: boolean;
+  children: Array<LeafEvaluation | GroupEvaluation>;
+  skipped: string[]; // paths not evaluated because of short-circuiting
+  deciding?: string; // path of the child that settled a short-circuit
+}
+
+export const isConditionGroup = (item: ConditionItem): item is ConditionGroup =>
+  (item as ConditionGroup).type === 'group';
+
+export const isComputedCondition = (leaf: ConditionLeaf): boolean =>
+  /[\s()]/.test(leaf.variable || '');
+
+export const describeCondition = (leaf: ConditionLeaf): string =>
+  `${leaf.variable} ${leaf.operator} ${leaf.value}`;
+
+/**
+ * Build the root group from a strategy node's data
+ */
+export const buildConditionTree = (nodeData: any): ConditionGroup => {
+  const conditions: ConditionItem[] = nodeData?.conditions || [];
+
+  if (nodeData?.conditionOperator) {
+    return { id: 'root', type: 'group', operator: nodeData.conditionOperator, conditions };
+  }
+
+  // Legacy flat list: fold the connectors left to right, so
+  // `a AND b OR c` is `(a AND b) OR c` and `a OR b AND c` is `(a OR b) AND c`
+  let folded: ConditionGroup | undefined;
+  conditions.slice(1).forEach((item, offset) => {
+    const operator: LogicalOperator = conditions[offset].logicalOperator === 'OR' ? 'OR' : 'AND';
+    if (folded?.operator === operator) {
+      folded.conditions.push(item);
+    } else {
+      folded = { id: `legacy-${offset + 1}`, type: 'group', operator, conditions: [folded || conditions[0], item] };
+    }
+  });
+
+  return folded
+    ? { ...folded, id: 'root' }
+    : { id: 'root', type: 'group', operator: 'AND', conditions };
+};
+
+/**
+ * Evaluate a group with short-circuiting: AND stops at the first failing
+ * child, OR at the first passing one
+ */
+export const evaluateConditionTree = (
+  group: ConditionGroup,
+  evaluateLeaf: (leaf: ConditionLeaf) => boolean | LeafOutcome,
+  path: string = 'root'
+): GroupEvaluation => {
+  const evaluation: GroupEvaluation = {
+    type: 'group',
+    id: group.id,
+    path,
+    operator: group.operator,
+    result: group.operator === 'AND',
+    children: [],
+    skipped: [],
+  };
+
+  const items = group.conditions || [];
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const childPath = path === 'root' ? `${i + 1}` : `${path}.${i + 1}`;
+
+    if (evaluation.deciding !== undefined) {
+      evaluation.skipped.push(childPath);
+      continue;
+    }
+
+    const child: LeafEvaluation | GroupEvaluation = isConditionGroup(item)
+      ? evaluateConditionTree(item, evaluateLeaf, childPath)
+      : evaluateLeafItem(item, evaluateLeaf, childPath);
+
+    evaluation.children.push(child);
+
+    if (group.operator === 'AND' && !child.result) {
+      evaluation.result = false;
+      evaluation.deciding = childPath;
+    } else if (group.operator === 'OR' && child.result) {
+      evaluation.result = true;
+      evaluation.deciding = childPath;
+    }
+  }
+
+  // An empty group is vacuously true for AND and false for OR
+  return evaluation;
+};
+
+const evaluateLeafItem = (
+  leaf: ConditionLeaf,
+  evaluateLeaf: (leaf: ConditionLeaf) => boolean | LeafOutcome,
+  path: string
+): LeafEvaluation => {
+  const outcome = evaluateLeaf(leaf);
+  const evaluation: LeafEvaluation = {
+    type: 'condition',
+    id: leaf.id,
+    path,
+    condition: describeCondition(leaf),
+    result: typeof outcome === 'boolean' ? outcome : outcome.result,
+    decision: typeof outcome === 'boolean' || outcome.decision === undefined ? leaf.decision : outcome.decision,
+  };
+  if (typeof outcome !== 'boolean' && outcome.missing_data) {
+    evaluation.missing_data = outcome.missing_data;
+  }
+  return evaluation;
+};
+
+/**
+ * Leaves that determined the group's result: the short-circuiting child,
+ * or every evaluated child when none short-circuited
+ */
+export const getDecidingLeaves = (evaluation: GroupEvaluation): LeafEvaluation[] => {
+  const children = evaluation.deciding !== undefined
+    ? evaluation.children.filter(c => c.path === evaluation.deciding)
+    : evaluation.children;
+
+  return children.flatMap(child => (child.type === 'group' ? getDecidingLeaves(child) : [child]));
+};
+
+/**
+ * Follow short-circuiting children down to the innermost group that
+ * settled the result
+ */
+export const getDecidingGroup = (evaluation: GroupEvaluation): GroupEvaluation => {
+  if (evaluation.deciding === undefined) return evaluation;
+  const child = evaluation.children.find(c => c.path === evaluation.deciding);
+  return child && child.type === 'group' ? getDecidingGroup(child) : evaluation;
+};
+
+export const flattenLeaves = (evaluation: GroupEvaluation): LeafEvaluation[] =>
+  evaluation.children.flatMap(child => (child.type === 'group' ? flattenLeaves(child) : [child]));
@@ -0,0 +1,162 @@
+/**
+ * Dates
+ *
+ * Calendar arithmetic shared by the expression language (`age()`,
+ * `monthsBetween()`, ...) and the date operators of strategy conditions.
+ * Dates are compared as UTC calendar days; "today" is the execution's
+ * evaluation date, which callers can pin so tests and replays are
+ * deterministic.
+ *
+ * Strategy condition values:
+ *   BETWEEN      '2020-01-01, today'  or  '18, 60'    (inclusive)
+ *   BEFORE       '2024-04-01'  or  'today'
+ *   AFTER        '2024-04-01'  or  'today'
+ *   WITHIN_LAST  '90 DAYS' | '6 MONTHS' | '2 YEARS'   (up to the evaluation date)
+ */
+
+export type DateUnit = 'DAYS' | 'WEEKS' | 'MONTHS' | 'YEARS';
+
+export interface Duration {
+  amount: number;
+  unit: DateUnit;
+}
+
+export const DATE_UNITS: DateUnit[] = ['DAYS', 'WEEKS', 'MONTHS', 'YEARS'];
+
+export const DATE_CONDITION_OPERATORS = ['BETWEEN', 'BEFORE', 'AFTER', 'WITHIN_LAST'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toDate = (value: any): Date | null => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+export const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Add calendar units; month arithmetic clamps to the last day of the month
+ * (31 Jan + 1 month = 28/29 Feb)
+ */
+export const addToDate = (date: Date, amount: number, unit: DateUnit): Date => {
+  if (unit === 'DAYS' || unit === 'WEEKS') {
+    return new Date(date.getTime() + amount * (unit === 'WEEKS' ? 7 : 1) * DAY_MS);
+  }
+
+  const months = unit === 'YEARS' ? amount * 12 : amount;
+  const target = new Date(date.getTime());
+  const day = target.getUTCDate();
+  target.setUTCDate(1);
+  target.setUTCMonth(target.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target;
+};
+
+/**
+ * Whole calendar months from `from` to `to`; negative when `to` is earlier
+ */
+export const monthsBetween = (from: Date, to: Date): number => {
+  if (to < from) return -monthsBetween(to, from);
+  let months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+  if (addToDate(from, months, 'MONTHS') > to) months--;
+  return months;
+};
+
+export const yearsBetween = (from: Date, to: Date): number => Math.trunc(monthsBetween(from, to) / 12);
+
+export const daysBetween = (from: Date, to: Date): number =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+/**
+ * Parse '6 MONTHS', '90 days', '1 year'
+ */
+export const parseDuration = (value: any): Duration | null => {
+  const match = /^\s*(\d+)\s*([A-Za-z]+)\s*$/.exec(String(value ?? ''));
+  if (!match) return null;
+  const unitText = match[2].toUpperCase();
+  const unit = DATE_UNITS.find(u => u === unitText || u === `${unitText}S`);
+  return unit ? { amount: Number(match[1]), unit } : null;
+};
+
+// 'today' in a condition value means the evaluation date
+const resolveDateValue = (value: any, asOf: Date): Date | null =>
+  String(value).trim().toLowerCase() === 'today' ? startOfDay(asOf) : toDate(String(value).trim());
+
+const splitRange = (value: any): [string, string] | null => {
+  const parts = String(value ?? '').split(',').map(part => part.trim());
+  return parts.length === 2 && parts[0] && parts[1] ? [parts[0], parts[1]] : null;
+};
+
+/**
+ * Evaluate a BETWEEN / BEFORE / AFTER / WITHIN_LAST strategy condition.
+ * BETWEEN also accepts numeric bounds. Values that are not dates fail.
+ */
+export const evaluateDateCondition = (operator: string, actualValue: any, value: any, asOf: Date): boolean => {
+  if (operator === 'BETWEEN') {
+    const range = splitRange(value);
+    if (!range) return false;
+    const [low, high] = range.map(bound => resolveDateValue(bound, asOf));
+    if (low && high) {
+      const actual = toDate(actualValue);
+      return actual !== null && actual >= low && actual <= high;
+    }
+    const number = Number(actualValue);
+    if (actualValue === '' || actualValue === null || isNaN(number)) return false;
+    return number >= Number(range[0]) && number <= Number(range[1]);
+  }
+
+  const actual = toDate(actualValue);
+  if (!actual) return false;
+
+  switch (operator) {
+    case 'BEFORE': {
+      const bound = resolveDateValue(value, asOf);
+      return bound !== null && actual < bound;
+    }
+    case 'AFTER': {
+      const bound = resolveDateValue(value, asOf);
+      return bound !== null && actual > bound;
+    }
+    case 'WITHIN_LAST': {
+      const duration = parseDuration(value);
+      if (!duration) return false;
+      const end = startOfDay(asOf);
+      return actual >= addToDate(end, -duration.amount, duration.unit) && startOfDay(actual) <= end;
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Check the value of a date condition; returns an error message or null
+ */
+export const validateDateCondition = (operator: string, value: any): string | null => {
+  const isDate = (text: string) => text.toLowerCase() === 'today' || toDate(text) !== null;
+
+  switch (operator) {
+    case 'BETWEEN': {
+      const range = splitRange(value);
+      if (!range) return 'BETWEEN needs two bounds separated by a comma';
+      const dates = range.filter(isDate).length;
+      if (dates === 1 || (dates === 0 && range.some(bound => isNaN(Number(bound))))) {
+        return 'BETWEEN bounds must both be dates (YYYY-MM-DD or today) or both be numbers';
+      }
+      return null;
+    }
+    case 'BEFORE':
+    case 'AFTER':
+      return isDate(String(value ?? '').trim()) ? null : `${operator} needs a date (YYYY-MM-DD or today)`;
+    case 'WITHIN_LAST':
+      return parseDuration(value) ? null : 'WITHIN_LAST needs a duration such as 90 DAYS or 6 MONTHS';
+    default:
+      return null;
+  }
+};
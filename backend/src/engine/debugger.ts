@@ -0,0 +1,318 @@
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../utils/logger';
+import {
+  ExecutionContext,
+  ExecutionResult,
+  ExecutionTraceEntry,
+  Workflow,
+  WorkflowNode,
+  executeWorkflow,
+  pauseDeadlineClock,
+} from './workflow-executor';
+import { ParameterValues } from './parameters';
+
+/**
+ * Step-through debugging
+ *
+ * A debug session runs `executeWorkflow` with a `before_node` hook that can
+ * pause the run before a node executes: on every node while stepping, or on
+ * breakpoint nodes when continuing. While paused the variables of the scope
+ * about to run can be inspected and edited. Each command returns once the
+ * run pauses again or finishes.
+ *
+ * Sessions live in-process and end after a period without commands. Time
+ * spent paused does not count against the execution's wall-clock budget,
+ * for parallel branches still running either: the deadline clock stops for
+ * the whole run while paused.
+ */
+
+export type DebugStatus = 'running' | 'paused' | 'completed';
+
+export interface DebugPause {
+  node_id: string;
+  node_type: string;
+  label: string;
+  reason: 'step' | 'breakpoint';
+  call_stack: string[]; // policy ids; longer than one inside a sub-policy
+}
+
+export interface DebugSnapshot {
+  session_id: string;
+  policy_id: string;
+  status: DebugStatus;
+  paused_at: DebugPause | null;
+  variables: Record<string, any>;
+  breakpoints: string[];
+  execution_trace: ExecutionTraceEntry[];
+  result: ExecutionResult | null;
+}
+
+export interface DebugStartOptions {
+  breakpoints?: string[];
+  break_on_start?: boolean; // pause before the start node (default true)
+  as_of?: Date; // evaluation date, as for test runs
+  parameters?: ParameterValues;
+}
+
+interface DebugSession {
+  id: string;
+  policy_id: string;
+  owner_id: string;
+  breakpoints: Set<string>;
+  stepping: boolean;
+  status: DebugStatus;
+  aborted: boolean;
+  root: ExecutionContext | null;
+  paused: { pause: DebugPause; context: ExecutionContext } | null;
+  resume: (() => void) | null;
+  on_stop: (() => void) | null;
+  lock: Promise<void>; // parallel branches pause one at a time
+  result: ExecutionResult | null;
+  idle_timer: NodeJS.Timeout | null;
+}
+
+export const DEBUG_SESSION_IDLE_MS = 10 * 60 * 1000;
+export const MAX_DEBUG_SESSIONS = 20;
+
+const sessions = new Map<string, DebugSession>();
+
+// Values are copied so a snapshot does not change as the run continues
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value ?? null));
+
+const snapshotOf = (session: DebugSession): DebugSnapshot => {
+  const scope = session.paused?.context || session.root;
+  return {
+    session_id: session.id,
+    policy_id: session.policy_id,
+    status: session.status,
+    paused_at: session.paused ? { ...session.paused.pause } : null,
+    variables: copy(session.result ? session.result.variables : scope?.variables || {}),
+    breakpoints: Array.from(session.breakpoints),
+    execution_trace: copy(session.result ? session.result.execution_trace : session.root?.execution_trace || []),
+    result: session.result ? copy(session.result) : null,
+  };
+};
+
+const notifyStop = (session: DebugSession) => {
+  const onStop = session.on_stop;
+  session.on_stop = null;
+  if (onStop) onStop();
+};
+
+const touch = (session: DebugSession) => {
+  if (session.idle_timer) clearTimeout(session.idle_timer);
+  session.idle_timer = setTimeout(() => {
+    logger.info(`Debug session expired: ${session.id}`);
+    endDebugSession(session.id);
+  }, DEBUG_SESSION_IDLE_MS);
+  session.idle_timer.unref();
+};
+
+const pauseBeforeNode = async (session: DebugSession, node: WorkflowNode, context: ExecutionContext) => {
+  if (session.aborted) {
+    throw new Error('Debug session ended');
+  }
+
+  const atBreakpoint = session.breakpoints.has(node.id);
+  if (!session.stepping && !atBreakpoint) {
+    return;
+  }
+
+  session.paused = {
+    pause: {
+      node_id: node.id,
+      node_type: node.type,
+      label: node.data?.label || node.id,
+      reason: atBreakpoint ? 'breakpoint' : 'step',
+      call_stack: [...context.call_stack],
+    },
+    context,
+  };
+  session.status = 'paused';
+
+  const resumeClock = pauseDeadlineClock(context);
+  await new Promise<void>(resolve => {
+    session.resume = resolve;
+    notifyStop(session);
+  });
+  resumeClock();
+
+  if (session.aborted) {
+    throw new Error('Debug session ended');
+  }
+};
+
+/**
+ * Release a paused run and wait for its next pause or completion
+ */
+const runUntilStop = (session: DebugSession, release: () => void): Promise<DebugSnapshot> =>
+  new Promise(resolve => {
+    session.on_stop = () => resolve(snapshotOf(session));
+    release();
+  });
+
+const resumeRun = (session: DebugSession) => {
+  const resume = session.resume;
+  session.resume = null;
+  session.paused = null;
+  session.status = 'running';
+  if (resume) resume();
+};
+
+const requirePaused = (session: DebugSession) => {
+  if (session.status !== 'paused') {
+    throw new Error(`Debug session is ${session.status}, not paused`);
+  }
+};
+
+/**
+ * Start a run under the debugger; resolves at the first pause or when the
+ * run finishes without pausing
+ */
+export const startDebugSession = (
+  workflow: Workflow,
+  input: Record<string, any>,
+  policyId: string,
+  ownerId: string,
+  options: DebugStartOptions = {}
+): Promise<DebugSnapshot> => {
+  if (sessions.size >= MAX_DEBUG_SESSIONS) {
+    throw new Error(`Too many open debug sessions (limit ${MAX_DEBUG_SESSIONS}); end one first`);
+  }
+
+  const session: DebugSession = {
+    id: uuidv4(),
+    policy_id: policyId,
+    owner_id: ownerId,
+    breakpoints: new Set(options.breakpoints || []),
+    stepping: options.break_on_start !== false,
+    status: 'running',
+    aborted: false,
+    root: null,
+    paused: null,
+    resume: null,
+    on_stop: null,
+    lock: Promise.resolve(),
+    result: null,
+    idle_timer: null,
+  };
+  sessions.set(session.id, session);
+  touch(session);
+
+  const beforeNode = (node: WorkflowNode, context: ExecutionContext): Promise<void> => {
+    if (!session.root) session.root = context;
+    const turn = session.lock.then(() => pauseBeforeNode(session, node, context));
+    session.lock = turn.catch(() => undefined);
+    return turn;
+  };
+
+  return runUntilStop(session, () => {
+    executeWorkflow(workflow, input, policyId, `DEBUG_${Date.now()}`, {
+      before_node: beforeNode,
+      as_of: options.as_of,
+      parameters: options.parameters,
+    })
+      .then(result => {
+        session.result = result;
+      })
+      .catch(error => {
+        logger.error(`Debug run error: ${error.message}`);
+      })
+      .finally(() => {
+        session.status = 'completed';
+        session.paused = null;
+        notifyStop(session);
+      });
+  });
+};
+
+/**
+ * A session owned by the given user, or null
+ */
+const findSession = (sessionId: string, ownerId: string): DebugSession | null => {
+  const session = sessions.get(sessionId);
+  return session && session.owner_id === ownerId ? session : null;
+};
+
+export const getDebugSession = (sessionId: string, ownerId: string): DebugSnapshot | null => {
+  const session = findSession(sessionId, ownerId);
+  return session ? snapshotOf(session) : null;
+};
+
+/**
+ * Run the next node and pause before the one after it
+ */
+export const stepDebugSession = async (sessionId: string, ownerId: string): Promise<DebugSnapshot | null> => {
+  const session = findSession(sessionId, ownerId);
+  if (!session) return null;
+  requirePaused(session);
+  touch(session);
+
+  session.stepping = true;
+  return runUntilStop(session, () => resumeRun(session));
+};
+
+/**
+ * Run until the next breakpoint or the end
+ */
+export const continueDebugSession = async (sessionId: string, ownerId: string): Promise<DebugSnapshot | null> => {
+  const session = findSession(sessionId, ownerId);
+  if (!session) return null;
+  requirePaused(session);
+  touch(session);
+
+  session.stepping = false;
+  return runUntilStop(session, () => resumeRun(session));
+};
+
+/**
+ * Set (or, with `remove`, delete) variables of the paused scope
+ */
+export const setDebugVariables = (
+  sessionId: string,
+  ownerId: string,
+  variables: Record<string, any> = {},
+  remove: string[] = []
+): DebugSnapshot | null => {
+  const session = findSession(sessionId, ownerId);
+  if (!session) return null;
+  requirePaused(session);
+  touch(session);
+
+  const scope = session.paused!.context.variables;
+  Object.assign(scope, variables);
+  remove.forEach(name => delete scope[name]);
+
+  return snapshotOf(session);
+};
+
+export const setDebugBreakpoints = (
+  sessionId: string,
+  ownerId: string,
+  breakpoints: string[]
+): DebugSnapshot | null => {
+  const session = findSession(sessionId, ownerId);
+  if (!session) return null;
+  touch(session);
+
+  session.breakpoints = new Set(breakpoints);
+  return snapshotOf(session);
+};
+
+/**
+ * Stop the run (when still paused) and forget the session
+ */
+export const endDebugSession = (sessionId: string, ownerId?: string): boolean => {
+  const session = sessions.get(sessionId);
+  if (!session || (ownerId !== undefined && session.owner_id !== ownerId)) {
+    return false;
+  }
+
+  session.aborted = true;
+  if (session.idle_timer) clearTimeout(session.idle_timer);
+  if (session.status === 'paused') {
+    resumeRun(session);
+  }
+  sessions.delete(sessionId);
+  return true;
+};
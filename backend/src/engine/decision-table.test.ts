@@ -0,0 +1,150 @@
+import {
+  DecisionTableConfig,
+  evaluateDecisionTable,
+  parseCellTest,
+  validateDecisionTable,
+} from './decision-table';
+
+const riskTable = (overrides: Partial<DecisionTableConfig> = {}): DecisionTableConfig => ({
+  hit_policy: 'FIRST',
+  inputs: [
+    { id: 'score', label: 'Score', expression: 'bureau.score', type: 'number' },
+    { id: 'employment', label: 'Employment', expression: 'employment_type', type: 'string' },
+  ],
+  outputs: [{ id: 'tier', name: 'risk_tier', type: 'string', priority: ['HIGH', 'MEDIUM', 'LOW'] }],
+  rules: [
+    { id: 'r1', inputs: ['>= 750', 'SALARIED'], outputs: ['LOW'] },
+    { id: 'r2', inputs: ['[650..750)', '-'], outputs: ['MEDIUM'] },
+    { id: 'r3', inputs: ['< 650', '-'], outputs: ['HIGH'] },
+    { id: 'r4', inputs: ['-', 'not(SALARIED)'], outputs: ['HIGH'] },
+  ],
+  ...overrides,
+});
+
+describe('parseCellTest', () => {
+  it.each([
+    ['-', 1, true],
+    ['', null, true],
+    ['< 700', 699, true],
+    ['< 700', 700, false],
+    ['>= 700', 700, true],
+    ['[700..750]', 750, true],
+    ['[700..750)', 750, false],
+    ['(700..750]', 700, false],
+    ['1, 2, 3', 2, true],
+    ['not(1, 2)', 2, false],
+    ['not(1, 2)', 3, true],
+    ['null', null, true],
+    ['!= 5', 4, true],
+  ])('number cell %p against %p is %p', (cell, value, expected) => {
+    expect(parseCellTest(cell, 'number')(value)).toBe(expected);
+  });
+
+  it('compares null as no match for comparisons and ranges', () => {
+    expect(parseCellTest('< 700', 'number')(null)).toBe(false);
+    expect(parseCellTest('[0..1]', 'number')(null)).toBe(false);
+  });
+
+  it('matches quoted strings containing commas', () => {
+    const test = parseCellTest('"SELF, EMPLOYED", SALARIED', 'string');
+    expect(test('SELF, EMPLOYED')).toBe(true);
+    expect(test('SALARIED')).toBe(true);
+    expect(test('SELF')).toBe(false);
+  });
+
+  it('compares dates', () => {
+    const test = parseCellTest('>= 2024-01-01', 'date');
+    expect(test(new Date('2024-03-01'))).toBe(true);
+    expect(test(new Date('2023-12-31'))).toBe(false);
+  });
+
+  it('raises on operands of the wrong type', () => {
+    expect(() => parseCellTest('< abc', 'number')).toThrow(/Expected a number/);
+    expect(() => parseCellTest('maybe', 'boolean')).toThrow(/Expected a boolean/);
+  });
+});
+
+describe('validateDecisionTable', () => {
+  it('accepts a well-formed table', () => {
+    expect(validateDecisionTable(riskTable())).toEqual([]);
+  });
+
+  it('reports structural and cell errors', () => {
+    const errors = validateDecisionTable(riskTable({
+      hit_policy: 'PRIORITY',
+      outputs: [{ id: 'tier', name: 'risk_tier', type: 'string' }],
+      rules: [{ inputs: ['< abc'], outputs: ['LOW'] }],
+    }));
+    expect(errors).toEqual([
+      'PRIORITY hit policy requires a priority list on at least one output column',
+      'Rule 1 has 1 input cells, expected 2',
+      'Rule 1, input "Score": Expected a number but got string',
+    ]);
+  });
+});
+
+describe('evaluateDecisionTable', () => {
+  const variables = { bureau: { score: 760 }, employment_type: 'SELF_EMPLOYED' };
+
+  it('FIRST returns the first matching rule', () => {
+    const result = evaluateDecisionTable(riskTable(), variables);
+    expect(result.matched_rules.map(m => m.index)).toEqual([4]);
+    expect(result.outputs).toEqual({ risk_tier: 'HIGH' });
+    expect(result.input_values).toEqual({ Score: 760, Employment: 'SELF_EMPLOYED' });
+  });
+
+  it('UNIQUE raises when several rules match', () => {
+    expect(() => evaluateDecisionTable(riskTable({ hit_policy: 'UNIQUE' }), { ...variables, bureau: { score: 600 } }))
+      .toThrow('UNIQUE hit policy violated: rules 3, 4 all matched');
+  });
+
+  it('PRIORITY picks the highest-priority output among matches', () => {
+    const result = evaluateDecisionTable(riskTable({ hit_policy: 'PRIORITY' }), { ...variables, bureau: { score: 700 } });
+    expect(result.outputs).toEqual({ risk_tier: 'HIGH' });
+    expect(result.matched_rules.map(m => m.index)).toEqual([4]);
+    expect(result.candidate_rules).toEqual([2, 4]);
+  });
+
+  it('COLLECT aggregates numeric outputs', () => {
+    const table: DecisionTableConfig = {
+      hit_policy: 'COLLECT',
+      aggregation: 'SUM',
+      inputs: [{ id: 'dpd', expression: 'max_dpd', type: 'number' }],
+      outputs: [{ id: 'points', name: 'penalty', type: 'number' }],
+      rules: [
+        { inputs: ['> 0'], outputs: [10] },
+        { inputs: ['> 30'], outputs: ['=max_dpd / 2'] },
+        { inputs: ['> 90'], outputs: [100] },
+      ],
+    };
+    expect(evaluateDecisionTable(table, { max_dpd: 60 }).outputs).toEqual({ penalty: 40 });
+    expect(evaluateDecisionTable(table, { max_dpd: 0 }).outputs).toEqual({ penalty: 0 });
+    expect(evaluateDecisionTable({ ...table, aggregation: 'LIST' }, { max_dpd: 60 }).outputs)
+      .toEqual({ penalty: [10, 30] });
+  });
+
+  it('falls back to default outputs when nothing matches', () => {
+    const table = riskTable({
+      rules: [{ inputs: ['>= 750', 'SALARIED'], outputs: ['LOW'] }],
+      default_outputs: { risk_tier: 'REFER' },
+    });
+    const result = evaluateDecisionTable(table, variables);
+    expect(result.used_default).toBe(true);
+    expect(result.outputs).toEqual({ risk_tier: 'REFER' });
+  });
+
+  it('matches missing inputs only against null cells and wildcards', () => {
+    const table = riskTable({
+      rules: [
+        { inputs: ['< 650', '-'], outputs: ['HIGH'] },
+        { inputs: ['null', '-'], outputs: ['THIN_FILE'] },
+      ],
+    });
+    expect(evaluateDecisionTable(table, { employment_type: 'SALARIED' }).outputs).toEqual({ risk_tier: 'THIN_FILE' });
+  });
+
+  it('names the input column when its value cannot be coerced', () => {
+    expect(() => evaluateDecisionTable(riskTable(), { bureau: { score: 'n/a' } }))
+      .toThrow('Input "Score": Expected a number but got string');
+  });
+});
@@ -0,0 +1,417 @@
+import {
+  EvaluateOptions,
+  compareValues,
+  evaluateExpression,
+  toDate,
+  toNumber,
+  valuesEqual,
+} from './expression';
+
+/**
+ * Decision tables
+ *
+ * A table maps typed input columns to output columns through rows of
+ * cell tests. Input cells use a small DMN-style syntax:
+ *
+ *   -  or empty           any value
+ *   < 700, >= 700         comparisons
+ *   [700..750], (0..1]    ranges ([ ] inclusive, ( ) exclusive)
+ *   SALARIED, "SELF"      equality; comma-separated values form a list
+ *   not(TIER_3, TIER_4)   negation
+ *   null                  missing value
+ *
+ * Output cells are literals; a cell starting with `=` is evaluated as an
+ * expression against the workflow variables.
+ */
+
+export type DecisionTableHitPolicy = 'UNIQUE' | 'FIRST' | 'PRIORITY' | 'COLLECT';
+export type DecisionTableValueType = 'number' | 'string' | 'boolean' | 'date';
+export type DecisionTableAggregation = 'LIST' | 'SUM' | 'MIN' | 'MAX' | 'COUNT';
+
+export interface DecisionTableInput {
+  id: string;
+  label?: string;
+  expression: string; // variable path or expression
+  type: DecisionTableValueType;
+}
+
+export interface DecisionTableOutput {
+  id: string;
+  name: string; // variable written into context.variables
+  type: DecisionTableValueType;
+  priority?: any[]; // output values ordered highest priority first (PRIORITY)
+}
+
+export interface DecisionTableRule {
+  id?: string;
+  description?: string;
+  inputs: any[];
+  outputs: any[];
+}
+
+export interface DecisionTableConfig {
+  hit_policy: DecisionTableHitPolicy;
+  aggregation?: DecisionTableAggregation;
+  inputs: DecisionTableInput[];
+  outputs: DecisionTableOutput[];
+  rules: DecisionTableRule[];
+  default_outputs?: Record<string, any>;
+}
+
+export interface DecisionTableMatch {
+  index: number; // 1-based row number, as shown in the builder
+  id?: string;
+  description?: string;
+}
+
+export interface DecisionTableResult {
+  hit_policy: DecisionTableHitPolicy;
+  input_values: Record<string, any>;
+  matched_rules: DecisionTableMatch[];
+  candidate_rules?: number[]; // every matching row when PRIORITY picked one
+  outputs: Record<string, any>;
+  used_default: boolean;
+}
+
+export const HIT_POLICIES: DecisionTableHitPolicy[] = ['UNIQUE', 'FIRST', 'PRIORITY', 'COLLECT'];
+const VALUE_TYPES: DecisionTableValueType[] = ['number', 'string', 'boolean', 'date'];
+const AGGREGATIONS: DecisionTableAggregation[] = ['LIST', 'SUM', 'MIN', 'MAX', 'COUNT'];
+
+type CellTest = (value: any) => boolean;
+
+/**
+ * Coerce a raw value to a column type. Null stays null.
+ */
+const coerceValue = (value: any, type: DecisionTableValueType): any => {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (type) {
+    case 'number':
+      return toNumber(value);
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (String(value).toLowerCase() === 'true') return true;
+      if (String(value).toLowerCase() === 'false') return false;
+      throw new Error(`Expected a boolean but got "${value}"`);
+    case 'date': {
+      const date = toDate(value);
+      if (!date) throw new Error(`Expected a date but got "${value}"`);
+      return date;
+    }
+    default:
+      return value instanceof Date ? value.toISOString() : String(value);
+  }
+};
+
+const unquote = (text: string): string => {
+  const trimmed = text.trim();
+  if (trimmed.length >= 2 && /^(".*"|'.*')$/.test(trimmed)) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+};
+
+/**
+ * Split on commas that are not inside quotes, brackets or parentheses
+ */
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === ')' || ch === ']') {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(p => p !== '');
+};
+
+const RANGE_PATTERN = /^([[(])\s*(.+?)\s*\.\.\s*(.+?)\s*([\])])$/;
+const COMPARISON_PATTERN = /^(<=|>=|!=|<|>|=)\s*(.+)$/;
+
+const parseSingleTest = (text: string, type: DecisionTableValueType): CellTest => {
+  if (text.toLowerCase() === 'null') {
+    return value => value === null;
+  }
+
+  const range = text.match(RANGE_PATTERN);
+  if (range) {
+    const [, open, lowText, highText, close] = range;
+    const low = coerceValue(unquote(lowText), type);
+    const high = coerceValue(unquote(highText), type);
+    const lowInclusive = open === '[';
+    const highInclusive = close === ']';
+    return value => {
+      const lowCmp = compareValues(value, low);
+      const highCmp = compareValues(value, high);
+      if (lowCmp === null || highCmp === null) return false;
+      return (lowInclusive ? lowCmp >= 0 : lowCmp > 0)
+        && (highInclusive ? highCmp <= 0 : highCmp < 0);
+    };
+  }
+
+  const comparison = text.match(COMPARISON_PATTERN);
+  if (comparison) {
+    const [, operator, operandText] = comparison;
+    const operand = coerceValue(unquote(operandText), type);
+    if (operator === '=') return value => valuesEqual(value, operand);
+    if (operator === '!=') return value => !valuesEqual(value, operand);
+    return value => {
+      const c = compareValues(value, operand);
+      if (c === null) return false;
+      switch (operator) {
+        case '<': return c < 0;
+        case '<=': return c <= 0;
+        case '>': return c > 0;
+        default: return c >= 0;
+      }
+    };
+  }
+
+  const literal = coerceValue(unquote(text), type);
+  return value => valuesEqual(value, literal);
+};
+
+/**
+ * Compile an input cell into a predicate over the (already coerced) input value
+ */
+export const parseCellTest = (cell: any, type: DecisionTableValueType): CellTest => {
+  if (cell === null || cell === undefined) {
+    return () => true;
+  }
+
+  if (typeof cell !== 'string') {
+    const literal = coerceValue(cell, type);
+    return value => valuesEqual(value, literal);
+  }
+
+  const text = cell.trim();
+  if (text === '' || text === '-' || text === '*') {
+    return () => true;
+  }
+
+  const negated = text.match(/^not\s*\((.*)\)$/i);
+  if (negated) {
+    const inner = parseCellTest(negated[1], type);
+    return value => !inner(value);
+  }
+
+  const tests = splitTopLevel(text).map(part => parseSingleTest(part, type));
+  if (tests.length === 0) {
+    throw new Error(`Empty cell test "${cell}"`);
+  }
+  return value => tests.some(test => test(value));
+};
+
+const resolveOutputCell = (
+  cell: any,
+  output: DecisionTableOutput,
+  variables: Record<string, any>,
+  options: EvaluateOptions
+): any => {
+  if (typeof cell === 'string' && cell.trim().startsWith('=')) {
+    return coerceValue(evaluateExpression(cell.trim().slice(1), variables, options), output.type);
+  }
+  return coerceValue(typeof cell === 'string' ? unquote(cell) : cell, output.type);
+};
+
+const priorityRank = (output: DecisionTableOutput, value: any): number => {
+  const priority = output.priority || [];
+  const index = priority.findIndex(p => valuesEqual(coerceValue(p, output.type), value));
+  return index === -1 ? priority.length : index;
+};
+
+const aggregate = (values: any[], aggregation: DecisionTableAggregation): any => {
+  const present = values.filter(v => v !== null && v !== undefined);
+  switch (aggregation) {
+    case 'COUNT':
+      return present.length;
+    case 'SUM':
+      return present.reduce((sum, v) => sum + toNumber(v), 0);
+    case 'MIN':
+      return present.length > 0 ? Math.min(...present.map(v => toNumber(v))) : null;
+    case 'MAX':
+      return present.length > 0 ? Math.max(...present.map(v => toNumber(v))) : null;
+    default:
+      return values;
+  }
+};
+
+/**
+ * Check a decision table's structure and cell syntax
+ */
+export const validateDecisionTable = (config: DecisionTableConfig): string[] => {
+  const errors: string[] = [];
+
+  if (!config) {
+    return ['Decision table is not configured'];
+  }
+
+  if (!HIT_POLICIES.includes(config.hit_policy)) {
+    errors.push(`Unknown hit policy "${config.hit_policy}"`);
+  }
+  if (config.aggregation && !AGGREGATIONS.includes(config.aggregation)) {
+    errors.push(`Unknown aggregation "${config.aggregation}"`);
+  }
+
+  const inputs = config.inputs || [];
+  const outputs = config.outputs || [];
+  const rules = config.rules || [];
+
+  if (inputs.length === 0) errors.push('Decision table needs at least one input column');
+  if (outputs.length === 0) errors.push('Decision table needs at least one output column');
+  if (rules.length === 0) errors.push('Decision table needs at least one rule');
+
+  inputs.forEach((input, i) => {
+    if (!input.expression) errors.push(`Input column ${i + 1} has no expression`);
+    if (!VALUE_TYPES.includes(input.type)) errors.push(`Input column ${i + 1} has unknown type "${input.type}"`);
+  });
+
+  outputs.forEach((output, i) => {
+    if (!output.name) errors.push(`Output column ${i + 1} has no variable name`);
+    if (!VALUE_TYPES.includes(output.type)) errors.push(`Output column ${i + 1} has unknown type "${output.type}"`);
+  });
+
+  if (config.hit_policy === 'PRIORITY' && !outputs.some(o => o.priority && o.priority.length > 0)) {
+    errors.push('PRIORITY hit policy requires a priority list on at least one output column');
+  }
+
+  rules.forEach((rule, r) => {
+    const row = r + 1;
+    if ((rule.inputs || []).length !== inputs.length) {
+      errors.push(`Rule ${row} has ${(rule.inputs || []).length} input cells, expected ${inputs.length}`);
+    }
+    if ((rule.outputs || []).length !== outputs.length) {
+      errors.push(`Rule ${row} has ${(rule.outputs || []).length} output cells, expected ${outputs.length}`);
+    }
+    (rule.inputs || []).forEach((cell, c) => {
+      if (!inputs[c]) return;
+      try {
+        parseCellTest(cell, inputs[c].type);
+      } catch (error) {
+        errors.push(`Rule ${row}, input "${inputs[c].label || inputs[c].expression}": ${error.message}`);
+      }
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Evaluate a decision table against the workflow variables
+ */
+export const evaluateDecisionTable = (
+  config: DecisionTableConfig,
+  variables: Record<string, any>,
+  options: EvaluateOptions = {}
+): DecisionTableResult => {
+  const hitPolicy = config.hit_policy || 'UNIQUE';
+  const inputs = config.inputs || [];
+  const outputs = config.outputs || [];
+  const rules = config.rules || [];
+
+  // Resolve and coerce input column values once
+  const inputValues = inputs.map(input => {
+    try {
+      return coerceValue(evaluateExpression(input.expression, variables, options), input.type);
+    } catch (error) {
+      throw new Error(`Input "${input.label || input.expression}": ${error.message}`);
+    }
+  });
+
+  const matched: Array<{ rule: DecisionTableRule; index: number }> = [];
+  for (let r = 0; r < rules.length; r++) {
+    const rule = rules[r];
+    const isMatch = inputs.every((input, c) => parseCellTest(rule.inputs[c], input.type)(inputValues[c]));
+    if (isMatch) {
+      matched.push({ rule, index: r + 1 });
+      if (hitPolicy === 'FIRST') break;
+    }
+  }
+
+  if (hitPolicy === 'UNIQUE' && matched.length > 1) {
+    throw new Error(`UNIQUE hit policy violated: rules ${matched.map(m => m.index).join(', ')} all matched`);
+  }
+
+  const input_values: Record<string, any> = {};
+  inputs.forEach((input, c) => {
+    input_values[input.label || input.expression] = inputValues[c];
+  });
+
+  const resultOf = (hits: typeof matched): DecisionTableResult => ({
+    hit_policy: hitPolicy,
+    input_values,
+    matched_rules: hits.map(({ rule, index }) => ({ index, id: rule.id, description: rule.description })),
+    outputs: {},
+    used_default: false,
+  });
+
+  if (matched.length === 0) {
+    const result = resultOf([]);
+    outputs.forEach(output => {
+      const fallback = config.default_outputs?.[output.name];
+      result.outputs[output.name] = fallback === undefined
+        ? (hitPolicy === 'COLLECT' ? aggregate([], config.aggregation || 'LIST') : null)
+        : resolveOutputCell(fallback, output, variables, options);
+    });
+    result.used_default = config.default_outputs !== undefined;
+    return result;
+  }
+
+  const outputRow = (rule: DecisionTableRule) =>
+    outputs.map((output, c) => resolveOutputCell(rule.outputs[c], output, variables, options));
+
+  if (hitPolicy === 'COLLECT') {
+    const result = resultOf(matched);
+    const rows = matched.map(m => outputRow(m.rule));
+    outputs.forEach((output, c) => {
+      // SUM/MIN/MAX only make sense for numeric columns; others are listed
+      const aggregation = config.aggregation || 'LIST';
+      const applicable = output.type === 'number' || aggregation === 'COUNT' ? aggregation : 'LIST';
+      result.outputs[output.name] = aggregate(rows.map(row => row[c]), applicable);
+    });
+    return result;
+  }
+
+  let winner = matched[0];
+  let winnerRow = outputRow(winner.rule);
+
+  if (hitPolicy === 'PRIORITY') {
+    matched.slice(1).forEach(candidate => {
+      const row = outputRow(candidate.rule);
+      for (let c = 0; c < outputs.length; c++) {
+        if (!outputs[c].priority) continue;
+        const diff = priorityRank(outputs[c], row[c]) - priorityRank(outputs[c], winnerRow[c]);
+        if (diff < 0) {
+          winner = candidate;
+          winnerRow = row;
+        }
+        if (diff !== 0) break;
+      }
+    });
+  }
+
+  const result = resultOf([winner]);
+  if (hitPolicy === 'PRIORITY') {
+    result.candidate_rules = matched.map(m => m.index);
+  }
+  outputs.forEach((output, c) => {
+    result.outputs[output.name] = winnerRow[c];
+  });
+  return result;
+};
@@ -0,0 +1,115 @@
+import { Workflow, WorkflowNode, executeWorkflow } from './workflow-executor';
+
+jest.mock('../config/database', () => ({ pool: { query: jest.fn().mockResolvedValue({ rows: [] }) }, redis: null }));
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const node = (id: string, type: string, data: Record<string, any> = {}): WorkflowNode =>
+  ({ id, type, position: { x: 0, y: 0 }, data: { label: id, ...data } } as WorkflowNode);
+
+const calc = (id: string, formula: string, output_variable: string) =>
+  node(id, 'calculation', { config: { formula, output_variable } });
+
+const api = (id: string) =>
+  node(id, 'apiCall', { method: 'GET', url: `https://bureau.example.com/${id}`, config: { field_mapping: { score: 'score' } } });
+
+const workflow = (nodes: WorkflowNode[], edges: Array<[string, string]>): Workflow => ({
+  nodes: [node('start', 'start'), ...nodes, node('approve', 'decision', { config: { decision: 'approved', reason: 'Approved' } })],
+  edges: edges.map(([source, target], index) => ({ id: `e${index}`, source, target })),
+} as Workflow);
+
+// start -> a -> b -> a -> ...
+const loop = () => workflow(
+  [calc('a', 'x + 1', 'x'), calc('b', 'x + 1', 'x')],
+  [['start', 'a'], ['a', 'b'], ['b', 'a']]
+);
+
+// Every API call answers after `delay_ms`
+const slowReplay = (delay_ms: number) => async () => {
+  await sleep(delay_ms);
+  return { score: 720 };
+};
+
+describe('node visit cap', () => {
+  it('stops a loop and refers the application', async () => {
+    const result = await executeWorkflow(loop(), { x: 0 }, 'policy-1', 'app-1', { max_node_visits: 20 });
+
+    expect(result.success).toBe(false);
+    expect(result.decision).toBe('manual_review');
+    expect(result.reason).toMatch(/^Workflow stopped by execution guard: exceeded 20 node visits \(possible loop at node [ab]\)$/);
+    expect(result.details).toMatchObject({ guard: 'max_node_visits', limit: 20, node_visits: 21 });
+    expect(result.variables.x).toBe(19);
+  });
+
+  it('records the guard on the trace', async () => {
+    const result = await executeWorkflow(loop(), { x: 0 }, 'policy-1', 'app-1', { max_node_visits: 20 });
+    const last = result.execution_trace[result.execution_trace.length - 1];
+
+    expect(last.error).toMatch(/^Execution guard tripped: exceeded 20 node visits/);
+    expect(last.output).toMatchObject({ guard: 'max_node_visits', limit: 20 });
+  });
+
+  it('does not trip on a workflow within the cap', async () => {
+    const result = await executeWorkflow(
+      workflow([calc('a', 'x + 1', 'x')], [['start', 'a'], ['a', 'approve']]),
+      { x: 0 }, 'policy-1', 'app-1', { max_node_visits: 3 }
+    );
+
+    expect(result.decision).toBe('approved');
+  });
+
+  it('counts the visits of every parallel branch', async () => {
+    const branches = ['a', 'b', 'c'].map(id => calc(id, '1', id));
+    const forked = workflow(
+      [node('fork', 'fork'), ...branches, node('join', 'join')],
+      [['start', 'fork'], ...branches.flatMap(b => [['fork', b.id], [b.id, 'join']] as Array<[string, string]>), ['join', 'approve']]
+    );
+
+    // start, fork, three branch nodes and the decision
+    const within = await executeWorkflow(forked, {}, 'policy-1', 'app-1', { max_node_visits: 6 });
+    const over = await executeWorkflow(forked, {}, 'policy-1', 'app-1', { max_node_visits: 5 });
+
+    expect(within.decision).toBe('approved');
+    expect(over.success).toBe(false);
+    expect(over.details).toMatchObject({ guard: 'max_node_visits', limit: 5 });
+  });
+});
+
+describe('deadline', () => {
+  it('stops a slow node at the deadline', async () => {
+    const started = Date.now();
+    const result = await executeWorkflow(
+      workflow([api('bureau')], [['start', 'bureau'], ['bureau', 'approve']]),
+      {}, 'policy-1', 'app-1', { timeout_ms: 100, replay: slowReplay(1000) }
+    );
+
+    expect(Date.now() - started).toBeLessThan(500);
+    expect(result.success).toBe(false);
+    expect(result.reason).toBe('Workflow stopped by execution guard: exceeded wall-clock limit of 100ms');
+    expect(result.details).toMatchObject({ guard: 'timeout', limit_ms: 100 });
+    expect(result.variables).not.toHaveProperty('score');
+  });
+
+  it('stops the run when a parallel branch runs out of time', async () => {
+    const forked = workflow(
+      [node('fork', 'fork'), api('bureau'), calc('dti', '2', 'dti'), node('join', 'join', { config: { mode: 'all' } })],
+      [['start', 'fork'], ['fork', 'bureau'], ['fork', 'dti'], ['bureau', 'join'], ['dti', 'join'], ['join', 'approve']]
+    );
+    const started = Date.now();
+    const result = await executeWorkflow(forked, {}, 'policy-1', 'app-1', { timeout_ms: 100, replay: slowReplay(1000) });
+
+    expect(Date.now() - started).toBeLessThan(500);
+    expect(result.success).toBe(false);
+    expect(result.details).toMatchObject({ guard: 'timeout' });
+  });
+
+  it('lets a run finish within its time', async () => {
+    const result = await executeWorkflow(
+      workflow([api('bureau')], [['start', 'bureau'], ['bureau', 'approve']]),
+      {}, 'policy-1', 'app-1', { timeout_ms: 1000, replay: slowReplay(20) }
+    );
+
+    expect(result.decision).toBe('approved');
+    expect(result.variables.score).toBe(720);
+  });
+});
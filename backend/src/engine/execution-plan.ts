@@ -0,0 +1,219 @@
+import { Workflow, WorkflowEdge, WorkflowNode } from './workflow-executor';
+import { CompiledExpression, EvaluateOptions, compileExpression, toBoolean } from './expression';
+import { findMatchingJoin } from './graph';
+import { ConditionItem, buildConditionTree, isComputedCondition, isConditionGroup } from './condition-tree';
+import { NO_PARAMETERS, ParameterValues } from './parameters';
+import { ReferenceTableRef, getReferenceTableRefs } from './reference-tables';
+
+/**
+ * Execution plans
+ *
+ * A policy workflow compiled once (at publish/activate time, or on the first
+ * request after a change) into the lookups the executor needs on every step:
+ * nodes by id, outgoing edges per node, fork/join pairs, pre-parsed
+ * expressions, the connector rows its data nodes call, the reference tables
+ * it reads and the effective parameter values. Plans are cached in-process per policy and dropped when
+ * the policy, its parameters or one of its connectors changes; a TTL bounds
+ * staleness when another instance made the change.
+ */
+
+export interface ExecutionPlan {
+  policy_id: string;
+  version: string;
+  policy?: any; // policy row the plan was compiled from (status, is_fragment, ...)
+  workflow: Workflow;
+  compiled_at: number;
+  nodes_by_id: Map<string, WorkflowNode>;
+  outgoing: Map<string, WorkflowEdge[]>;
+  start_node: WorkflowNode | null;
+  fork_joins: Map<string, WorkflowNode | null>;
+  expressions: Map<string, CompiledExpression>;
+  connectors: Record<string, any>; // preloaded connector rows by id
+  parameters: ParameterValues; // effective parameter set when compiled
+  reference_tables: ReferenceTableRef[]; // loaded when an execution starts
+}
+
+export interface PlanMetadata {
+  policy_id: string;
+  version?: string;
+  policy?: any;
+  connectors?: Record<string, any>;
+  parameters?: ParameterValues;
+}
+
+const CONNECTOR_NODE_TYPES = ['dataSource', 'dbQuery'];
+
+/**
+ * Every expression a workflow evaluates, so it can be parsed ahead of time
+ */
+export const collectExpressions = (workflow: Workflow): string[] => {
+  const sources = new Set<string>();
+  const add = (source: any) => {
+    if (typeof source === 'string' && source.trim()) sources.add(source);
+  };
+  const addLeafRules = (items: ConditionItem[]) => items.forEach(item => {
+    if (isConditionGroup(item)) addLeafRules(item.conditions);
+    else {
+      if (isComputedCondition(item)) add(item.variable);
+      add(item.missingData?.expression);
+    }
+  });
+
+  (workflow.nodes || []).forEach(node => {
+    const config = node.data?.config || {};
+    switch (node.type) {
+      case 'calculation':
+        add(config.formula);
+        break;
+      case 'condition':
+        add(typeof config.condition === 'string' ? config.condition : config.condition?.expression);
+        break;
+      case 'switch':
+        add(config.expression);
+        (config.cases || []).forEach((c: any) => add(c.expression));
+        break;
+      case 'decisionTable':
+        (config.inputs || []).forEach((input: any) => add(input.expression));
+        break;
+      case 'subPolicy':
+        Object.values(config.input_mapping || {}).forEach(add);
+        break;
+      case 'lookup':
+        add(config.key);
+        break;
+      case 'velocity':
+      case 'negativeListCheck':
+        (config.checks || []).forEach((check: any) => add(check.value));
+        break;
+      case 'strategy':
+        if ((node.data?.conditions || []).length > 0) {
+          addLeafRules(buildConditionTree(node.data).conditions);
+        }
+        break;
+      case 'score':
+        (config.factors || []).forEach((factor: any) => add(factor.missing_data?.expression));
+        break;
+    }
+  });
+
+  const missingData = workflow.settings?.missing_data || {};
+  add(missingData.default?.expression);
+  Object.values(missingData.variables || {}).forEach(rule => add(rule?.expression));
+
+  return Array.from(sources);
+};
+
+/**
+ * Connector ids called by data source and database query nodes
+ */
+export const getPlanConnectorIds = (workflow: Workflow): string[] =>
+  Array.from(new Set(
+    (workflow.nodes || [])
+      .filter(node => CONNECTOR_NODE_TYPES.includes(node.type))
+      .map(node => node.data?.config?.connector_id)
+      .filter(Boolean)
+  ));
+
+/**
+ * Compile a workflow into an execution plan. Expressions that do not parse
+ * are left out; the node that uses them fails at run time as before.
+ */
+export const compileExecutionPlan = (workflow: Workflow, metadata: PlanMetadata): ExecutionPlan => {
+  const nodes = workflow.nodes || [];
+  const edges = workflow.edges || [];
+
+  const nodesById = new Map<string, WorkflowNode>();
+  nodes.forEach(node => nodesById.set(node.id, node));
+
+  const outgoing = new Map<string, WorkflowEdge[]>();
+  edges.forEach(edge => {
+    if (!outgoing.has(edge.source)) outgoing.set(edge.source, []);
+    outgoing.get(edge.source)!.push(edge);
+  });
+
+  const forkJoins = new Map<string, WorkflowNode | null>();
+  nodes.filter(node => node.type === 'fork').forEach(fork => {
+    forkJoins.set(fork.id, findMatchingJoin(fork, nodes, edges));
+  });
+
+  const expressions = new Map<string, CompiledExpression>();
+  collectExpressions(workflow).forEach(source => {
+    try {
+      expressions.set(source, compileExpression(source));
+    } catch (parseError) {
+      // Reported by policy validation; evaluated (and failing) lazily
+    }
+  });
+
+  return {
+    policy_id: metadata.policy_id,
+    version: metadata.version || metadata.policy?.version || 'draft',
+    policy: metadata.policy,
+    workflow,
+    compiled_at: Date.now(),
+    nodes_by_id: nodesById,
+    outgoing,
+    start_node: nodes.find(node => node.type === 'start') || null,
+    fork_joins: forkJoins,
+    expressions,
+    connectors: metadata.connectors || {},
+    parameters: metadata.parameters || NO_PARAMETERS,
+    reference_tables: getReferenceTableRefs(workflow, Array.from(expressions.values()).map(compiled => compiled.ast)),
+  };
+};
+
+/**
+ * Evaluate an expression through the plan's compiled copy when it has one
+ */
+export const evaluatePlanExpression = (
+  plan: ExecutionPlan | undefined,
+  source: string,
+  variables: Record<string, any>,
+  options: EvaluateOptions = {}
+): any => {
+  const compiled = plan?.expressions.get(source) || compileExpression(source);
+  return compiled.evaluate(variables, options);
+};
+
+export const evaluatePlanBoolean = (
+  plan: ExecutionPlan | undefined,
+  source: string,
+  variables: Record<string, any>,
+  options: EvaluateOptions = {}
+): boolean => toBoolean(evaluatePlanExpression(plan, source, variables, options));
+
+/**
+ * In-process plan cache, keyed by policy id
+ */
+
+const planCache = new Map<string, ExecutionPlan>();
+
+export const getCachedPlan = (policyId: string, maxAgeMs?: number): ExecutionPlan | null => {
+  const plan = planCache.get(policyId);
+  if (!plan) return null;
+  if (maxAgeMs && Date.now() - plan.compiled_at > maxAgeMs) {
+    planCache.delete(policyId);
+    return null;
+  }
+  return plan;
+};
+
+export const cacheExecutionPlan = (plan: ExecutionPlan): void => {
+  planCache.set(plan.policy_id, plan);
+};
+
+export const invalidateExecutionPlan = (policyId: string): void => {
+  planCache.delete(policyId);
+};
+
+export const invalidatePlansUsingConnector = (connectorId: string): void => {
+  planCache.forEach((plan, policyId) => {
+    if (plan.connectors[connectorId] || getPlanConnectorIds(plan.workflow).includes(connectorId)) {
+      planCache.delete(policyId);
+    }
+  });
+};
+
+export const clearExecutionPlans = (): void => {
+  planCache.clear();
+};
@@ -0,0 +1,131 @@
+import {
+  ASSIGNMENT_BUCKETS,
+  ExperimentArmDefinition,
+  compareMeans,
+  compareProportions,
+  getAssignmentBucket,
+  meanStats,
+  pickArm,
+  proportionStats,
+  validateExperimentArms,
+} from './experiments';
+
+const arms = (...percents: number[]): ExperimentArmDefinition[] =>
+  percents.map((traffic_percent, index) => ({
+    name: index === 0 ? 'champion' : `challenger_${index}`,
+    policy_id: `policy-${index}`,
+    role: index === 0 ? 'champion' : 'challenger',
+    traffic_percent,
+  }));
+
+describe('assignment', () => {
+  it('buckets an application the same way every time', () => {
+    const bucket = getAssignmentBucket('exp-1', 'app-42');
+    expect(getAssignmentBucket('exp-1', 'app-42')).toBe(bucket);
+    expect(bucket).toBeGreaterThanOrEqual(0);
+    expect(bucket).toBeLessThan(ASSIGNMENT_BUCKETS);
+  });
+
+  it('buckets independently per experiment', () => {
+    const ids = Array.from({ length: 50 }, (_, i) => `app-${i}`);
+    const first = ids.map(id => getAssignmentBucket('exp-1', id));
+    const second = ids.map(id => getAssignmentBucket('exp-2', id));
+    expect(first).not.toEqual(second);
+  });
+
+  it('splits traffic close to the configured shares', () => {
+    const definitions = arms(80, 20);
+    const counts: Record<string, number> = {};
+    for (let i = 0; i < 5000; i++) {
+      const arm = pickArm(definitions, getAssignmentBucket('exp-1', `app-${i}`));
+      counts[arm.name] = (counts[arm.name] || 0) + 1;
+    }
+    expect(counts.champion / 5000).toBeCloseTo(0.8, 1);
+    expect(counts.challenger_1 / 5000).toBeCloseTo(0.2, 1);
+  });
+
+  it('maps bucket boundaries to arms', () => {
+    const definitions = arms(50, 25, 25);
+    expect(pickArm(definitions, 0).name).toBe('champion');
+    expect(pickArm(definitions, 4999).name).toBe('champion');
+    expect(pickArm(definitions, 5000).name).toBe('challenger_1');
+    expect(pickArm(definitions, 7500).name).toBe('challenger_2');
+    expect(pickArm(definitions, ASSIGNMENT_BUCKETS - 1).name).toBe('challenger_2');
+  });
+
+  it('gives rounding leftovers to the last arm', () => {
+    const definitions = arms(33.333, 33.333, 33.334);
+    expect(pickArm(definitions, ASSIGNMENT_BUCKETS - 1).name).toBe('challenger_2');
+  });
+});
+
+describe('validateExperimentArms', () => {
+  it('accepts a champion and challengers adding up to 100%', () => {
+    expect(validateExperimentArms(arms(90, 10))).toEqual([]);
+  });
+
+  it('needs at least two arms', () => {
+    expect(validateExperimentArms(arms(100))).toEqual(['An experiment needs a champion and at least one challenger arm']);
+  });
+
+  it('reports role, policy and traffic problems', () => {
+    const definitions = arms(60, 30);
+    definitions[1] = { ...definitions[1], role: 'champion', policy_id: 'policy-0', name: 'Bad Name' };
+    expect(validateExperimentArms(definitions)).toEqual([
+      'Arm 2 needs a name of lowercase letters, digits and underscores',
+      'Exactly one arm must be the champion',
+      'Each arm must run a different policy',
+      'Traffic shares must add up to 100% (they add up to 90%)',
+    ]);
+  });
+});
+
+describe('statistics', () => {
+  it('computes a Wilson interval', () => {
+    expect(proportionStats(50, 100)).toEqual({ count: 50, rate: 50, ci_low: 40.38, ci_high: 59.62 });
+  });
+
+  it('keeps the interval inside 0-100% at the extremes', () => {
+    const none = proportionStats(0, 20);
+    expect(none.rate).toBe(0);
+    expect(none.ci_low).toBe(0);
+    expect(none.ci_high).toBeGreaterThan(0);
+
+    const all = proportionStats(20, 20);
+    expect(all.ci_high).toBe(100);
+    expect(all.ci_low).toBeLessThan(100);
+  });
+
+  it('returns zeros for an empty sample', () => {
+    expect(proportionStats(0, 0)).toEqual({ count: 0, rate: 0, ci_low: 0, ci_high: 0 });
+    expect(meanStats(0, 0, 0)).toEqual({ mean: 0, ci_low: 0, ci_high: 0, n: 0 });
+  });
+
+  it('runs a pooled two-proportion z-test', () => {
+    expect(compareProportions(50, 100, 60, 100)).toEqual({
+      difference: 10,
+      z: 1.421,
+      p_value: 0.1552,
+      significant: false,
+    });
+    expect(compareProportions(500, 1000, 600, 1000).significant).toBe(true);
+  });
+
+  it('skips the z-test without data or variance', () => {
+    expect(compareProportions(0, 0, 5, 10)).toBeNull();
+    expect(compareProportions(10, 10, 10, 10)).toEqual({ difference: 0, z: 0, p_value: 1, significant: false });
+  });
+
+  it('compares means', () => {
+    const result = compareMeans({ mean: 100, stddev: 20, n: 400 }, { mean: 104, stddev: 20, n: 400 });
+    expect(result.difference).toBe(4);
+    expect(result.z).toBeCloseTo(2.828, 3);
+    expect(result.significant).toBe(true);
+    expect(compareMeans({ mean: 100, stddev: 20, n: 1 }, { mean: 104, stddev: 20, n: 400 })).toBeNull();
+  });
+
+  it('computes a normal interval for a mean', () => {
+    expect(meanStats(100, 20, 400)).toEqual({ mean: 100, ci_low: 98.04, ci_high: 101.96, n: 400 });
+    expect(meanStats(100, 20, 1)).toEqual({ mean: 100, ci_low: 100, ci_high: 100, n: 1 });
+  });
+});
@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+
+/**
+ * Champion/challenger experiments
+ *
+ * An experiment splits the live traffic of a product between its active
+ * (champion) policy and one or more challenger policies:
+ *
+ *   arms: [
+ *     { name: 'champion', role: 'champion', policy_id: '…', traffic_percent: 80 },
+ *     { name: 'lower_foir', role: 'challenger', policy_id: '…', traffic_percent: 20 },
+ *   ]
+ *
+ * Assignment hashes the experiment id with the application id, so the same
+ * application always lands in the same arm and experiments split
+ * independently of one another. Arms take consecutive slices of 10,000
+ * buckets in their listed order.
+ */
+
+export type ExperimentArmRole = 'champion' | 'challenger';
+
+export interface ExperimentArmDefinition {
+  name: string;
+  role: ExperimentArmRole;
+  policy_id: string;
+  traffic_percent: number;
+}
+
+export interface ProportionStats {
+  count: number;
+  rate: number; // percent
+  ci_low: number;
+  ci_high: number;
+}
+
+export interface SignificanceTest {
+  difference: number; // challenger minus champion, in the metric's unit
+  z: number;
+  p_value: number;
+  significant: boolean;
+}
+
+export interface MeanStats {
+  mean: number;
+  ci_low: number;
+  ci_high: number;
+  n: number;
+}
+
+export const ARM_NAME_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+export const ASSIGNMENT_BUCKETS = 10000;
+export const SIGNIFICANCE_LEVEL = 0.05;
+const Z_95 = 1.959964;
+
+/**
+ * Bucket (0-9999) of an application in an experiment
+ */
+export const getAssignmentBucket = (experimentId: string, applicationId: string): number => {
+  const digest = crypto.createHash('sha256').update(`${experimentId}:${applicationId}`).digest('hex');
+  return parseInt(digest.slice(0, 8), 16) % ASSIGNMENT_BUCKETS;
+};
+
+/**
+ * The arm whose traffic slice holds the bucket; the last arm absorbs rounding
+ */
+export const pickArm = <T extends { traffic_percent: number }>(arms: T[], bucket: number): T => {
+  let upper = 0;
+  for (const arm of arms) {
+    upper += Math.round(Number(arm.traffic_percent) * (ASSIGNMENT_BUCKETS / 100));
+    if (bucket < upper) return arm;
+  }
+  return arms[arms.length - 1];
+};
+
+/**
+ * Problems with an experiment's arms: one champion, at least one
+ * challenger, distinct names and policies, traffic adding up to 100%
+ */
+export const validateExperimentArms = (arms: ExperimentArmDefinition[]): string[] => {
+  if (!Array.isArray(arms) || arms.length < 2) {
+    return ['An experiment needs a champion and at least one challenger arm'];
+  }
+
+  const errors: string[] = [];
+  arms.forEach((arm, index) => {
+    const label = `Arm ${index + 1}`;
+    if (!arm || typeof arm.name !== 'string' || !ARM_NAME_PATTERN.test(arm.name)) {
+      errors.push(`${label} needs a name of lowercase letters, digits and underscores`);
+    }
+    if (!arm?.policy_id) {
+      errors.push(`${label} needs a policy`);
+    }
+    if (arm?.role !== 'champion' && arm?.role !== 'challenger') {
+      errors.push(`${label} must be the champion or a challenger`);
+    }
+    const percent = Number(arm?.traffic_percent);
+    if (!(percent > 0 && percent <= 100)) {
+      errors.push(`${label} needs a traffic share above 0% and up to 100%`);
+    }
+  });
+
+  if (arms.filter(arm => arm?.role === 'champion').length !== 1) {
+    errors.push('Exactly one arm must be the champion');
+  }
+  if (new Set(arms.map(arm => arm?.name)).size !== arms.length) {
+    errors.push('Arm names must be unique');
+  }
+  if (new Set(arms.map(arm => arm?.policy_id)).size !== arms.length) {
+    errors.push('Each arm must run a different policy');
+  }
+  const total = arms.reduce((sum, arm) => sum + (Number(arm?.traffic_percent) || 0), 0);
+  if (Math.abs(total - 100) > 0.001) {
+    errors.push(`Traffic shares must add up to 100% (they add up to ${Math.round(total * 100) / 100}%)`);
+  }
+
+  return errors;
+};
+
+const round = (value: number, places: number = 2): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const twoSidedP = (z: number): number => 2 * (1 - normalCdf(Math.abs(z)));
+
+/**
+ * Rate of `count` in `n` with a 95% Wilson score interval, in percent
+ */
+export const proportionStats = (count: number, n: number): ProportionStats => {
+  if (n === 0) {
+    return { count, rate: 0, ci_low: 0, ci_high: 0 };
+  }
+  const p = count / n;
+  const z2 = Z_95 * Z_95;
+  const denominator = 1 + z2 / n;
+  const center = (p + z2 / (2 * n)) / denominator;
+  const half = (Z_95 * Math.sqrt(p * (1 - p) / n + z2 / (4 * n * n))) / denominator;
+
+  return {
+    count,
+    rate: round(p * 100),
+    ci_low: round(Math.max(0, center - half) * 100),
+    ci_high: round(Math.min(1, center + half) * 100),
+  };
+};
+
+/**
+ * Two-proportion z-test (pooled) of a challenger rate against the champion's;
+ * null when either arm has no data
+ */
+export const compareProportions = (
+  championCount: number,
+  championN: number,
+  challengerCount: number,
+  challengerN: number
+): SignificanceTest | null => {
+  if (championN === 0 || challengerN === 0) return null;
+
+  const p1 = championCount / championN;
+  const p2 = challengerCount / challengerN;
+  const pooled = (championCount + challengerCount) / (championN + challengerN);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / championN + 1 / challengerN));
+  const z = se === 0 ? 0 : (p2 - p1) / se;
+  const pValue = se === 0 ? 1 : twoSidedP(z);
+
+  return {
+    difference: round((p2 - p1) * 100),
+    z: round(z, 3),
+    p_value: round(pValue, 4),
+    significant: pValue < SIGNIFICANCE_LEVEL,
+  };
+};
+
+/**
+ * Mean with a 95% normal-approximation interval
+ */
+export const meanStats = (mean: number, stddev: number, n: number): MeanStats => {
+  if (n === 0) {
+    return { mean: 0, ci_low: 0, ci_high: 0, n };
+  }
+  const half = n > 1 ? Z_95 * (stddev || 0) / Math.sqrt(n) : 0;
+  return { mean: round(mean), ci_low: round(mean - half), ci_high: round(mean + half), n };
+};
+
+/**
+ * Welch z-test of a challenger mean against the champion's (large samples)
+ */
+export const compareMeans = (champion: { mean: number; stddev: number; n: number }, challenger: { mean: number; stddev: number; n: number }): SignificanceTest | null => {
+  if (champion.n < 2 || challenger.n < 2) return null;
+
+  const se = Math.sqrt((champion.stddev ** 2) / champion.n + (challenger.stddev ** 2) / challenger.n);
+  const z = se === 0 ? 0 : (challenger.mean - champion.mean) / se;
+  const pValue = se === 0 ? 1 : twoSidedP(z);
+
+  return {
+    difference: round(challenger.mean - champion.mean),
+    z: round(z, 3),
+    p_value: round(pValue, 4),
+    significant: pValue < SIGNIFICANCE_LEVEL,
+  };
+};
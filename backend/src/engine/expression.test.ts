@@ -0,0 +1,205 @@
+import {
+  ExpressionError,
+  TemplateError,
+  evaluateBoolean,
+  evaluateExpression,
+  getReferencedVariables,
+  parseExpression,
+  renderTemplate,
+} from './expression';
+
+const AS_OF = new Date('2024-06-15T12:00:00Z');
+
+const evaluate = (source: string, variables: Record<string, any> = {}) =>
+  evaluateExpression(source, variables, { as_of: AS_OF });
+
+describe('sandbox', () => {
+  it.each([
+    'applicant.__proto__',
+    'applicant.constructor',
+    'applicant.prototype',
+    "applicant['constructor']",
+    "applicant['__proto__'].polluted",
+  ])('blocks prototype access in %s', (source) => {
+    expect(() => evaluate(source, { applicant: { name: 'A' } })).toThrow(/is not allowed/);
+  });
+
+  it('blocks prototype names bound by collection elements', () => {
+    const items = [JSON.parse('{"__proto__": {"x": 1}}')];
+    expect(() => evaluate('count(items, __proto__.x == 1)', { items })).toThrow(/is not allowed/);
+  });
+
+  it('does not read inherited properties', () => {
+    expect(evaluate('applicant.toString', { applicant: {} })).toBeNull();
+    expect(evaluate('hasOwnProperty', {})).toBeNull();
+  });
+
+  it('only calls functions from its own library', () => {
+    expect(() => parseExpression('constructor(1)')).toThrow(/Unknown function 'constructor'/);
+    expect(() => parseExpression('hasOwnProperty(1)')).toThrow(/Unknown function/);
+    expect(() => parseExpression('eval(1)')).toThrow(/Unknown function/);
+  });
+
+  it('rejects assignment', () => {
+    expect(() => parseExpression('a = 1')).toThrow(/Use '==' for equality/);
+  });
+
+  it('limits expression length and nesting', () => {
+    expect(() => parseExpression('1 + '.repeat(600) + '1')).toThrow(/longer than/);
+    expect(() => parseExpression('('.repeat(40) + '1' + ')'.repeat(40))).toThrow(/nested too deeply/);
+  });
+
+  it('stops runaway evaluation at the step limit', () => {
+    const items = Array.from({ length: 50 }, (_, i) => ({ n: i }));
+    expect(() => evaluateExpression('count(items, count(items, n > 0) > 0)', { items }, { max_steps: 1000 }))
+      .toThrow(/exceeded 1000 evaluation steps/);
+  });
+
+  it('raises ExpressionError for parse errors', () => {
+    expect(() => parseExpression('a +')).toThrow(ExpressionError);
+    expect(() => parseExpression('')).toThrow(/empty/);
+    expect(() => parseExpression("'open")).toThrow(/Unterminated string/);
+  });
+});
+
+describe('numbers', () => {
+  it('raises on division and modulo by zero', () => {
+    expect(() => evaluate('income / debt', { income: 100, debt: 0 })).toThrow(/Division by zero/);
+    expect(() => evaluate('income % 0', { income: 100 })).toThrow(/Division by zero/);
+  });
+
+  it('propagates null through arithmetic', () => {
+    expect(evaluate('income / debt', { income: 100 })).toBeNull();
+    expect(evaluate('-missing')).toBeNull();
+    expect(evaluate('round(missing, 2)')).toBeNull();
+    expect(evaluate('coalesce(income * 2, 0)', {})).toBe(0);
+  });
+
+  it('treats numeric strings as numbers', () => {
+    expect(evaluate("'10' + 5")).toBe(15);
+    expect(evaluate("amount * 2", { amount: ' 2.5e2 ' })).toBe(500);
+    expect(evaluate("'9' < '10'")).toBe(true);
+    expect(evaluate("'b' < 'a'")).toBe(false);
+    expect(evaluate("score == '750'", { score: 750 })).toBe(true);
+  });
+
+  it('concatenates non-numeric strings', () => {
+    expect(evaluate("'DTI ' + 40")).toBe('DTI 40');
+  });
+
+  it('raises on arithmetic with non-numeric values', () => {
+    expect(() => evaluate("'abc' * 2")).toThrow(/Expected a number but got string/);
+    expect(() => evaluate('flag - 1', { flag: true })).toThrow(/Expected a number but got boolean/);
+  });
+
+  it('compares null as false', () => {
+    expect(evaluate('missing > 0')).toBe(false);
+    expect(evaluate('missing <= 0')).toBe(false);
+    expect(evaluate('missing == null')).toBe(true);
+  });
+
+  it('rounds to the given number of digits', () => {
+    expect(evaluate('round(2.345, 2)')).toBeCloseTo(2.35);
+    expect(evaluate('round(1234.5)')).toBe(1235);
+    expect(evaluate('2 ^ 10')).toBe(1024);
+  });
+});
+
+describe('variables', () => {
+  it('reads nested and flat dotted paths', () => {
+    expect(evaluate('bureau.score', { bureau: { score: 720 } })).toBe(720);
+    expect(evaluate('bureau.score', { 'bureau.score': 700 })).toBe(700);
+    expect(evaluate('bureau.missing.deep', { bureau: {} })).toBeNull();
+  });
+
+  it('lists referenced variables', () => {
+    expect(getReferencedVariables('bureau.score >= 700 and income > min_income').sort())
+      .toEqual(['bureau.score', 'income', 'min_income']);
+  });
+
+  it('reads dates relative to the evaluation date', () => {
+    expect(evaluate('age(dob)', { dob: '2000-06-16' })).toBe(23);
+    expect(evaluateBoolean("withinLast(d, '30 DAYS')", { d: '2024-06-01' }, { as_of: AS_OF })).toBe(true);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('renders placeholders and leaves unparseable ones untouched', () => {
+    expect(renderTemplate('Score {bureau.score} {a +}', { bureau: { score: 700 } })).toBe('Score 700 {a +}');
+    expect(renderTemplate('Missing: {nothing}', {})).toBe('Missing: ');
+  });
+
+  it('renders failed placeholders empty and reports them', () => {
+    const errors: TemplateError[] = [];
+    const text = renderTemplate('DTI {income / debt} for {name}', { income: 5, debt: 0, name: 'A' }, {}, errors);
+    expect(text).toBe('DTI  for A');
+    expect(errors).toEqual([{ placeholder: '{income / debt}', error: 'Division by zero' }]);
+  });
+});
+
+describe('collection functions', () => {
+  const bureau = {
+    tradelines: [
+      { amount: 5000, dpd: 0, reported_on: '2024-05-20' },
+      { amount: 12000, dpd: 45, reported_on: '2024-01-10' },
+      { amount: '3000', dpd: 95, reported_on: '2023-02-01' },
+      { amount: null, dpd: 0, reported_on: '2024-06-01' },
+    ],
+  };
+
+  it('counts matching elements', () => {
+    expect(evaluate('count(bureau.tradelines)', { bureau })).toBe(4);
+    expect(evaluate('count(bureau.tradelines, dpd > 30)', { bureau })).toBe(2);
+    expect(evaluate("count(bureau.tradelines, withinLast(reported_on, '90 DAYS'))", { bureau })).toBe(2);
+  });
+
+  it('aggregates a field, skipping nulls', () => {
+    expect(evaluate('sum(bureau.tradelines, amount)', { bureau })).toBe(20000);
+    expect(evaluate('avg(bureau.tradelines, amount, dpd == 0)', { bureau })).toBe(5000);
+    expect(evaluate('maxOf(bureau.tradelines, amount)', { bureau })).toBe(12000);
+    expect(evaluate('minOf(bureau.tradelines, amount, dpd > 30)', { bureau })).toBe(3000);
+  });
+
+  it('takes min/max over a list field', () => {
+    expect(evaluate('max(bureau.tradelines, amount)', { bureau })).toBe(12000);
+    expect(evaluate('min(bureau.tradelines, dpd, dpd > 0)', { bureau })).toBe(45);
+    expect(evaluate('max(scores)', { scores: [3, 9, 4] })).toBe(9);
+    expect(evaluate('max(1, 7, 3)')).toBe(7);
+    expect(() => evaluate('max(bureau.tradelines, amount, dpd > 0, 1)', { bureau }))
+      .toThrow(/takes a value and an optional condition/);
+  });
+
+  it('reads list length and indexes', () => {
+    expect(evaluate('bureau.tradelines.length', { bureau })).toBe(4);
+    expect(evaluate('scores[-1]', { scores: [3, 9, 4] })).toBe(4);
+    expect(evaluate('scores[5]', { scores: [3, 9, 4] })).toBeNull();
+    expect(() => evaluate('bureau.tradelines.size', { bureau })).toThrow("Unknown list property 'size'");
+  });
+
+  it('treats missing lists as empty', () => {
+    expect(evaluate('count(bureau.accounts, dpd > 0)', { bureau })).toBe(0);
+    expect(evaluate('sum(bureau.accounts, amount)', { bureau })).toBe(0);
+    expect(evaluate('avg(bureau.accounts, amount)', { bureau })).toBeNull();
+    expect(evaluate('all(bureau.accounts, dpd == 0)', { bureau })).toBe(true);
+  });
+
+  it('raises when the argument is not a list', () => {
+    expect(() => evaluate('count(bureau, dpd > 0)', { bureau })).toThrow('count() expects a list but got object');
+  });
+
+  it('binds item and nested elements', () => {
+    const loans = [{ emis: [100, 200] }, { emis: [50] }];
+    expect(evaluate('sum(loans, sum(emis))', { loans })).toBe(350);
+    expect(evaluate('any(loans, count(emis, item > 150) > 0)', { loans })).toBe(true);
+    expect(evaluate('filter(scores, item > 3)', { scores: [3, 9, 4] })).toEqual([9, 4]);
+  });
+
+  it('falls back to workflow variables inside predicates', () => {
+    expect(evaluate('count(bureau.tradelines, dpd > max_dpd)', { bureau, max_dpd: 90 })).toBe(1);
+  });
+
+  it('does not list element fields as referenced variables', () => {
+    expect(getReferencedVariables('count(bureau.tradelines, dpd > max_dpd)').sort())
+      .toEqual(['bureau.tradelines']);
+  });
+});
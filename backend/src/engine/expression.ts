@@ -0,0 +1,1207 @@
+/**
+ * Policy expression language
+ *
+ * A small, sandboxed expression language used by calculation nodes,
+ * condition nodes and reason templates. Expressions are parsed into an AST
+ * once (and cached) and evaluated against the workflow variables.
+ *
+ *   bureau.score >= 750 and applicant.income >= 50000
+ *   round(min(income * 0.5, 200000) / 12, 2)
+ *   coalesce(bank.avg_balance, 0) > 10000
+ *   if(employment_type == 'SALARIED', 0.5, 0.4)
+ *   age(date_of_birth) >= 21 and monthsBetween(last_delinquency, today()) > 12
+ *   count(bureau.tradelines, dpd > 30 and withinLast(reported_on, '12 MONTHS'))
+ *
+ * Member access is always null-safe: a missing segment yields null, and
+ * arithmetic on null yields null, so `coalesce()` can supply a fallback.
+ * `today()` and `now()` read the evaluation date (`as_of`), which defaults
+ * to the current time.
+ *
+ * Collection functions (count, sum, avg, maxOf, minOf, any, all, filter)
+ * evaluate their later arguments once per list element. Inside them the
+ * element's fields are in scope by name and `item` is the element itself;
+ * other names fall through to the workflow variables. Given a list and a
+ * value, min() and max() work as minOf() and maxOf(); `list.length` is the
+ * element count.
+ *
+ * Other modules add functions through `registerExpressionFunction()`, e.g.
+ * `LOOKUP()` over reference tables (reference-tables.ts).
+ */
+
+import {
+  DateUnit,
+  addToDate,
+  parseDuration,
+  daysBetween,
+  monthsBetween,
+  startOfDay,
+  toDate,
+  yearsBetween,
+} from './dates';
+import { ReferenceTableSet } from './reference-tables';
+
+export { toDate };
+
+export type ExpressionNode =
+  | { type: 'literal'; value: any }
+  | { type: 'variable'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: string | ExpressionNode }
+  | { type: 'unary'; operator: '-' | '!'; argument: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'logical'; operator: '&&' | '||'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'call'; callee: string; args: ExpressionNode[] }
+  | { type: 'list'; elements: ExpressionNode[] };
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%' | '^'
+  | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+export interface EvaluateOptions {
+  max_steps?: number;
+  as_of?: Date; // evaluation date for today()/now(); pinned by tests and replays
+  reference_tables?: ReferenceTableSet; // tables LOOKUP() reads, loaded before the run
+}
+
+export interface EvaluationScope {
+  variables: Record<string, any>;
+  steps: number;
+  max_steps: number;
+  as_of: Date;
+  reference_tables?: ReferenceTableSet;
+  item?: ItemBinding; // innermost collection element being evaluated
+}
+
+interface ItemBinding {
+  value: any;
+  parent?: ItemBinding;
+}
+
+export interface ExpressionFunction {
+  min_args: number;
+  max_args: number; // Infinity for variadic functions
+  // Lazy functions receive unevaluated arguments and an evaluator
+  lazy?: boolean;
+  fn: (args: any[], scope: EvaluationScope, evaluate?: (node: ExpressionNode) => any) => any;
+}
+
+export interface CompiledExpression {
+  source: string;
+  ast: ExpressionNode;
+  evaluate: (variables: Record<string, any>, options?: EvaluateOptions) => any;
+}
+
+export class ExpressionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = 'ExpressionError';
+  }
+}
+
+// Sandbox limits
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_AST_NODES = 500;
+const MAX_NESTING_DEPTH = 32;
+const DEFAULT_MAX_STEPS = 100000; // collection predicates run once per element
+const MAX_CACHE_SIZE = 1000;
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+/**
+ * Tokenizer
+ */
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: any;
+  position: number;
+}
+
+const KEYWORD_OPERATORS = new Map<string, string>([
+  ['and', '&&'],
+  ['or', '||'],
+  ['not', '!'],
+  ['in', 'in'],
+]);
+
+const MULTI_CHAR_OPERATORS = ['?.', '==', '!=', '<=', '>=', '&&', '||'];
+const SINGLE_CHAR_OPERATORS = '+-*/%^()[],.?:<>!';
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Numbers: 12, 1.5, .5, 1e6
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = source.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      tokens.push({ type: 'number', value: Number(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    // Strings: 'text' or "text" with backslash escapes
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const next = source[i + 1];
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+          i += 2;
+        } else {
+          value += source[i];
+          i++;
+        }
+      }
+      if (i >= source.length) {
+        throw new ExpressionError('Unterminated string literal', start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+      const word = match[0];
+      const keyword = KEYWORD_OPERATORS.get(word.toLowerCase());
+      tokens.push(keyword
+        ? { type: 'operator', value: keyword, position: i }
+        : { type: 'identifier', value: word, position: i });
+      i += word.length;
+      continue;
+    }
+
+    const twoChars = source.slice(i, i + 2);
+    if (MULTI_CHAR_OPERATORS.includes(twoChars)) {
+      tokens.push({ type: 'operator', value: twoChars, position: i });
+      i += 2;
+      continue;
+    }
+
+    if (ch === '=') {
+      throw new ExpressionError("Use '==' for equality", i);
+    }
+
+    if (SINGLE_CHAR_OPERATORS.includes(ch)) {
+      tokens.push({ type: 'operator', value: ch, position: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${ch}'`, i);
+  }
+
+  tokens.push({ type: 'eof', value: null, position: source.length });
+  return tokens;
+};
+
+/**
+ * Recursive-descent parser
+ *
+ *   expression  := or ('?' expression ':' expression)?
+ *   or          := and ('||' and)*
+ *   and         := not ('&&' not)*
+ *   not         := '!' not | comparison
+ *   comparison  := additive (('=='|'!='|'<'|'<='|'>'|'>='|'in') additive)?
+ *   additive    := multiplicative (('+'|'-') multiplicative)*
+ *   multiplicative := unary (('*'|'/'|'%') unary)*
+ *   unary       := '-' unary | power
+ *   power       := postfix ('^' unary)?
+ *   postfix     := primary ('.' ident | '?.' ident | '[' expression ']')*
+ *   primary     := literal | ident | ident '(' args ')' | '(' expression ')' | '[' args ']'
+ */
+class Parser {
+  private pos = 0;
+  private depth = 0;
+  private nodeCount = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseExpression();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new ExpressionError(`Unexpected '${token.value}'`, token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private isOperator(...values: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && values.includes(token.value);
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (token.type !== 'operator' || token.value !== value) {
+      throw new ExpressionError(`Expected '${value}'`, token.position);
+    }
+    return token;
+  }
+
+  private node<T extends ExpressionNode>(node: T): T {
+    this.nodeCount++;
+    if (this.nodeCount > MAX_AST_NODES) {
+      throw new ExpressionError(`Expression is too complex (more than ${MAX_AST_NODES} nodes)`);
+    }
+    return node;
+  }
+
+  private nested<T>(parse: () => T): T {
+    this.depth++;
+    if (this.depth > MAX_NESTING_DEPTH) {
+      throw new ExpressionError(`Expression is nested too deeply (more than ${MAX_NESTING_DEPTH} levels)`);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private parseExpression(): ExpressionNode {
+    return this.nested(() => {
+      const test = this.parseOr();
+      if (this.isOperator('?')) {
+        this.next();
+        const consequent = this.parseExpression();
+        this.expect(':');
+        const alternate = this.parseExpression();
+        return this.node({ type: 'conditional', test, consequent, alternate });
+      }
+      return test;
+    });
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.isOperator('||')) {
+      this.next();
+      left = this.node({ type: 'logical', operator: '||', left, right: this.parseAnd() });
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.isOperator('&&')) {
+      this.next();
+      left = this.node({ type: 'logical', operator: '&&', left, right: this.parseNot() });
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.isOperator('!')) {
+      this.next();
+      return this.nested(() => this.node({ type: 'unary', operator: '!', argument: this.parseNot() }));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    if (this.isOperator('==', '!=', '<', '<=', '>', '>=', 'in')) {
+      const operator = this.next().value as BinaryOperator;
+      return this.node({ type: 'binary', operator, left, right: this.parseAdditive() });
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+', '-')) {
+      const operator = this.next().value as BinaryOperator;
+      left = this.node({ type: 'binary', operator, left, right: this.parseMultiplicative() });
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.isOperator('*', '/', '%')) {
+      const operator = this.next().value as BinaryOperator;
+      left = this.node({ type: 'binary', operator, left, right: this.parseUnary() });
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('-')) {
+      this.next();
+      return this.nested(() => this.node({ type: 'unary', operator: '-', argument: this.parseUnary() }));
+    }
+    if (this.isOperator('+')) {
+      this.next();
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePostfix();
+    if (this.isOperator('^')) {
+      this.next();
+      return this.nested(() => this.node({ type: 'binary', operator: '^', left: base, right: this.parseUnary() }));
+    }
+    return base;
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let object = this.parsePrimary();
+
+    while (this.isOperator('.', '?.', '[')) {
+      const op = this.next();
+      if (op.value === '[') {
+        const property = this.parseExpression();
+        this.expect(']');
+        object = this.node({ type: 'member', object, property });
+      } else {
+        const token = this.next();
+        if (token.type !== 'identifier' && token.type !== 'number') {
+          throw new ExpressionError('Expected property name', token.position);
+        }
+        object = this.node({ type: 'member', object, property: String(token.value) });
+      }
+    }
+
+    return object;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'number' || token.type === 'string') {
+      return this.node({ type: 'literal', value: token.value });
+    }
+
+    if (token.type === 'identifier') {
+      const lower = token.value.toLowerCase();
+      if (lower === 'true' || lower === 'false') {
+        return this.node({ type: 'literal', value: lower === 'true' });
+      }
+      if (lower === 'null') {
+        return this.node({ type: 'literal', value: null });
+      }
+
+      if (this.isOperator('(')) {
+        this.next();
+        const name = lower;
+        const definition = getFunction(name);
+        if (!definition) {
+          throw new ExpressionError(`Unknown function '${token.value}'`, token.position);
+        }
+        const args = this.parseArguments(')');
+        if (args.length < definition.min_args || args.length > definition.max_args) {
+          throw new ExpressionError(`Wrong number of arguments for ${name}()`, token.position);
+        }
+        return this.node({ type: 'call', callee: name, args });
+      }
+
+      return this.node({ type: 'variable', name: token.value });
+    }
+
+    if (token.type === 'operator' && token.value === '(') {
+      const expression = this.parseExpression();
+      this.expect(')');
+      return expression;
+    }
+
+    if (token.type === 'operator' && token.value === '[') {
+      return this.node({ type: 'list', elements: this.parseArguments(']') });
+    }
+
+    if (token.type === 'eof') {
+      throw new ExpressionError('Unexpected end of expression', token.position);
+    }
+
+    throw new ExpressionError(`Unexpected '${token.value}'`, token.position);
+  }
+
+  private parseArguments(closing: string): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    if (this.isOperator(closing)) {
+      this.next();
+      return args;
+    }
+    do {
+      args.push(this.parseExpression());
+    } while (this.isOperator(',') && this.next());
+    this.expect(closing);
+    return args;
+  }
+}
+
+/**
+ * Type helpers
+ */
+
+const isNullish = (value: any): boolean => value === null || value === undefined;
+
+const NUMERIC_STRING = /^\s*-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/;
+
+export const toNumber = (value: any): number | null => {
+  if (isNullish(value)) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && NUMERIC_STRING.test(value)) return Number(value);
+  if (value instanceof Date) return value.getTime();
+  throw new ExpressionError(`Expected a number but got ${describeType(value)}`);
+};
+
+export const toBoolean = (value: any): boolean => {
+  if (isNullish(value)) return false;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') return value.length > 0 && value.toLowerCase() !== 'false';
+  return true;
+};
+
+const describeType = (value: any): string => {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return 'date';
+  if (Array.isArray(value)) return 'list';
+  return typeof value;
+};
+
+const normalize = (value: any): any => (value === undefined ? null : value);
+
+/**
+ * Typed equality: numbers and numeric strings compare numerically,
+ * dates by timestamp, everything else strictly
+ */
+export const valuesEqual = (left: any, right: any): boolean => {
+  if (isNullish(left) || isNullish(right)) {
+    return isNullish(left) && isNullish(right);
+  }
+  if (left instanceof Date || right instanceof Date) {
+    const l = toDate(left);
+    const r = toDate(right);
+    return l !== null && r !== null && l.getTime() === r.getTime();
+  }
+  if (typeof left === 'number' || typeof right === 'number') {
+    const l = typeof left === 'string' && NUMERIC_STRING.test(left) ? Number(left) : left;
+    const r = typeof right === 'string' && NUMERIC_STRING.test(right) ? Number(right) : right;
+    return l === r;
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return toBoolean(left) === toBoolean(right) && typeof left === typeof right;
+  }
+  return left === right;
+};
+
+/**
+ * Typed ordering. Returns null when either side is null (comparison is false).
+ */
+export const compareValues = (left: any, right: any): number | null => {
+  if (isNullish(left) || isNullish(right)) return null;
+
+  if (left instanceof Date || right instanceof Date) {
+    const l = toDate(left);
+    const r = toDate(right);
+    if (l === null || r === null) {
+      throw new ExpressionError(`Cannot compare ${describeType(left)} with ${describeType(right)}`);
+    }
+    return l.getTime() - r.getTime();
+  }
+
+  if (typeof left === 'string' && typeof right === 'string'
+      && !(NUMERIC_STRING.test(left) && NUMERIC_STRING.test(right))) {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+
+  return toNumber(left) - toNumber(right);
+};
+
+const applyBinary = (operator: BinaryOperator, left: any, right: any): any => {
+  switch (operator) {
+    case '==':
+      return valuesEqual(left, right);
+    case '!=':
+      return !valuesEqual(left, right);
+    case '<': {
+      const c = compareValues(left, right);
+      return c !== null && c < 0;
+    }
+    case '<=': {
+      const c = compareValues(left, right);
+      return c !== null && c <= 0;
+    }
+    case '>': {
+      const c = compareValues(left, right);
+      return c !== null && c > 0;
+    }
+    case '>=': {
+      const c = compareValues(left, right);
+      return c !== null && c >= 0;
+    }
+    case 'in':
+      if (isNullish(right)) return false;
+      if (Array.isArray(right)) return right.some(item => valuesEqual(left, item));
+      if (typeof right === 'string') return !isNullish(left) && right.includes(String(left));
+      throw new ExpressionError(`'in' expects a list or string but got ${describeType(right)}`);
+  }
+
+  // Arithmetic: null propagates
+  if (isNullish(left) || isNullish(right)) return null;
+
+  if (operator === '+' && (typeof left === 'string' || typeof right === 'string')
+      && !(NUMERIC_STRING.test(String(left)) && NUMERIC_STRING.test(String(right)))) {
+    return String(left) + String(right);
+  }
+
+  if (left instanceof Date || right instanceof Date) {
+    throw new ExpressionError(`Operator '${operator}' is not supported for dates`);
+  }
+
+  const l = toNumber(left);
+  const r = toNumber(right);
+
+  switch (operator) {
+    case '+': return l + r;
+    case '-': return l - r;
+    case '*': return l * r;
+    case '/':
+      if (r === 0) throw new ExpressionError('Division by zero');
+      return l / r;
+    case '%':
+      if (r === 0) throw new ExpressionError('Division by zero');
+      return l % r;
+    case '^': return Math.pow(l, r);
+  }
+
+  throw new ExpressionError(`Unknown operator '${operator}'`);
+};
+
+/**
+ * Curated function library
+ */
+
+const dateArg = (value: any, name: string): Date => {
+  const date = toDate(value);
+  if (!date) throw new ExpressionError(`${name}() expects a date but got ${describeType(value)}`);
+  return date;
+};
+
+// Null in, null out; other arguments must be dates
+const dateFunction = (name: string, fn: (from: Date, to: Date) => number): ExpressionFunction => ({
+  min_args: 2,
+  max_args: 2,
+  fn: ([from, to]) => (isNullish(from) || isNullish(to) ? null : fn(dateArg(from, name), dateArg(to, name))),
+});
+
+const shiftFunction = (name: string, unit: DateUnit): ExpressionFunction => ({
+  min_args: 2,
+  max_args: 2,
+  fn: ([date, amount]) => {
+    if (isNullish(date) || isNullish(amount)) return null;
+    const n = toNumber(amount);
+    if (!Number.isInteger(n)) throw new ExpressionError(`${name}() expects a whole number of ${unit.toLowerCase()}`);
+    return addToDate(dateArg(date, name), n, unit);
+  },
+});
+
+const numericArgs = (args: any[]): number[] => {
+  const flat = args.length === 1 && Array.isArray(args[0]) ? args[0] : args;
+  return flat.filter(v => !isNullish(v)).map(v => toNumber(v));
+};
+
+// Null lists behave as empty; anything else that is not a list is an error
+const listArg = (value: any, name: string): any[] => {
+  if (isNullish(value)) return [];
+  if (!Array.isArray(value)) throw new ExpressionError(`${name}() expects a list but got ${describeType(value)}`);
+  return value;
+};
+
+const withItem = (scope: EvaluationScope, value: any): EvaluationScope => ({
+  ...scope,
+  item: { value, parent: scope.item },
+});
+
+/**
+ * Run `body` with each element in scope; the shared step counter keeps the
+ * sandbox limit across elements
+ */
+const forEachItem = (scope: EvaluationScope, list: any[], body: (itemScope: EvaluationScope) => boolean | void) => {
+  for (const value of list) {
+    const itemScope = withItem(scope, value);
+    const stop = body(itemScope);
+    scope.steps = itemScope.steps;
+    if (stop) return;
+  }
+};
+
+const matches = (where: ExpressionNode | undefined, itemScope: EvaluationScope): boolean =>
+  !where || toBoolean(evaluateNode(where, itemScope));
+
+// Numeric values of `value` over the elements that match `where`
+const collectNumbers = (name: string, args: ExpressionNode[], scope: EvaluationScope, evaluate: (node: ExpressionNode) => any): number[] =>
+  collectListNumbers(name, listArg(evaluate(args[0]), name), args[1], args[2], scope);
+
+const collectListNumbers = (
+  name: string,
+  list: any[],
+  valueNode: ExpressionNode | undefined,
+  where: ExpressionNode | undefined,
+  scope: EvaluationScope
+): number[] => {
+  const numbers: number[] = [];
+  forEachItem(scope, list, itemScope => {
+    if (!matches(where, itemScope)) return;
+    const value = valueNode ? evaluateNode(valueNode, itemScope) : itemScope.item!.value;
+    if (isNullish(value)) return;
+    const n = toNumber(value);
+    if (n === null) throw new ExpressionError(`${name}() expects numbers but got ${describeType(value)}`);
+    numbers.push(n);
+  });
+  return numbers;
+};
+
+/**
+ * min/max over numbers, or over a list: `max(a, b)`, `max(list)` and, given
+ * a list and more arguments, `max(list, value[, where])` as in maxOf()
+ */
+const extremeFunction = (name: string, pick: (...values: number[]) => number): ExpressionFunction => ({
+  min_args: 1,
+  max_args: Infinity,
+  lazy: true,
+  fn: (args, scope, evaluate) => {
+    const first = evaluate(args[0]);
+    let values: number[];
+    if (Array.isArray(first) && args.length > 1) {
+      if (args.length > 3) {
+        throw new ExpressionError(`${name}() over a list takes a value and an optional condition`);
+      }
+      values = collectListNumbers(name, first, args[1], args[2], scope);
+    } else {
+      values = numericArgs([first, ...args.slice(1).map(evaluate)]);
+    }
+    return values.length > 0 ? pick(...values) : null;
+  },
+});
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  min: extremeFunction('min', Math.min),
+  max: extremeFunction('max', Math.max),
+  round: {
+    min_args: 1,
+    max_args: 2,
+    fn: ([value, digits]) => {
+      const n = toNumber(value);
+      if (n === null) return null;
+      const factor = Math.pow(10, toNumber(digits) || 0);
+      return Math.round(n * factor) / factor;
+    },
+  },
+  floor: {
+    min_args: 1,
+    max_args: 1,
+    fn: ([value]) => (isNullish(value) ? null : Math.floor(toNumber(value))),
+  },
+  ceil: {
+    min_args: 1,
+    max_args: 1,
+    fn: ([value]) => (isNullish(value) ? null : Math.ceil(toNumber(value))),
+  },
+  abs: {
+    min_args: 1,
+    max_args: 1,
+    fn: ([value]) => (isNullish(value) ? null : Math.abs(toNumber(value))),
+  },
+  coalesce: {
+    min_args: 1,
+    max_args: Infinity,
+    lazy: true,
+    fn: (args, scope, evaluate) => {
+      for (const arg of args) {
+        const value = evaluate(arg);
+        if (!isNullish(value)) return value;
+      }
+      return null;
+    },
+  },
+  if: {
+    min_args: 2,
+    max_args: 3,
+    lazy: true,
+    fn: ([test, consequent, alternate], scope, evaluate) => {
+      if (toBoolean(evaluate(test))) return evaluate(consequent);
+      return alternate ? evaluate(alternate) : null;
+    },
+  },
+  len: {
+    min_args: 1,
+    max_args: 1,
+    fn: ([value]) => {
+      if (isNullish(value)) return 0;
+      if (Array.isArray(value) || typeof value === 'string') return value.length;
+      throw new ExpressionError(`len() expects a list or string but got ${describeType(value)}`);
+    },
+  },
+  lower: {
+    min_args: 1,
+    max_args: 1,
+    fn: ([value]) => (isNullish(value) ? null : String(value).toLowerCase()),
+  },
+  upper: {
+    min_args: 1,
+    max_args: 1,
+    fn: ([value]) => (isNullish(value) ? null : String(value).toUpperCase()),
+  },
+  number: {
+    min_args: 1,
+    max_args: 1,
+    fn: ([value]) => toNumber(value),
+  },
+  string: {
+    min_args: 1,
+    max_args: 1,
+    fn: ([value]) => (isNullish(value) ? null : value instanceof Date ? value.toISOString() : String(value)),
+  },
+  date: {
+    min_args: 1,
+    max_args: 1,
+    fn: ([value]) => {
+      if (isNullish(value)) return null;
+      const date = toDate(value);
+      if (!date) throw new ExpressionError(`Invalid date '${value}'`);
+      return date;
+    },
+  },
+  today: {
+    min_args: 0,
+    max_args: 0,
+    fn: (args, scope) => startOfDay(scope.as_of),
+  },
+  now: {
+    min_args: 0,
+    max_args: 0,
+    fn: (args, scope) => scope.as_of,
+  },
+  // Completed years from a birth date to `on` (default: the evaluation date)
+  age: {
+    min_args: 1,
+    max_args: 2,
+    fn: ([birthDate, on], scope) => {
+      if (isNullish(birthDate)) return null;
+      return yearsBetween(dateArg(birthDate, 'age'), isNullish(on) ? scope.as_of : dateArg(on, 'age'));
+    },
+  },
+  yearsbetween: dateFunction('yearsBetween', yearsBetween),
+  monthsbetween: dateFunction('monthsBetween', monthsBetween),
+  daysbetween: dateFunction('daysBetween', daysBetween),
+  adddays: shiftFunction('addDays', 'DAYS'),
+  addmonths: shiftFunction('addMonths', 'MONTHS'),
+  addyears: shiftFunction('addYears', 'YEARS'),
+  // True when a date falls in the window ending at the evaluation date
+  withinlast: {
+    min_args: 2,
+    max_args: 2,
+    fn: ([date, window], scope) => {
+      if (isNullish(date)) return false;
+      const duration = parseDuration(window);
+      if (!duration) throw new ExpressionError(`withinLast() expects a duration such as '90 DAYS' but got '${window}'`);
+      const end = startOfDay(scope.as_of);
+      const value = dateArg(date, 'withinLast');
+      return value >= addToDate(end, -duration.amount, duration.unit) && startOfDay(value) <= end;
+    },
+  },
+
+  // Collections: count(list[, where]), sum/avg/maxOf/minOf(list[, value[, where]]),
+  // any/all(list, where), filter(list, where)
+  count: {
+    min_args: 1,
+    max_args: 2,
+    lazy: true,
+    fn: ([listNode, where], scope, evaluate) => {
+      let count = 0;
+      forEachItem(scope, listArg(evaluate(listNode), 'count'), itemScope => {
+        if (matches(where, itemScope)) count++;
+      });
+      return count;
+    },
+  },
+  sum: {
+    min_args: 1,
+    max_args: 3,
+    lazy: true,
+    fn: (args, scope, evaluate) => collectNumbers('sum', args, scope, evaluate).reduce((total, n) => total + n, 0),
+  },
+  avg: {
+    min_args: 1,
+    max_args: 3,
+    lazy: true,
+    fn: (args, scope, evaluate) => {
+      const numbers = collectNumbers('avg', args, scope, evaluate);
+      return numbers.length > 0 ? numbers.reduce((total, n) => total + n, 0) / numbers.length : null;
+    },
+  },
+  maxof: {
+    min_args: 1,
+    max_args: 3,
+    lazy: true,
+    fn: (args, scope, evaluate) => {
+      const numbers = collectNumbers('maxOf', args, scope, evaluate);
+      return numbers.length > 0 ? Math.max(...numbers) : null;
+    },
+  },
+  minof: {
+    min_args: 1,
+    max_args: 3,
+    lazy: true,
+    fn: (args, scope, evaluate) => {
+      const numbers = collectNumbers('minOf', args, scope, evaluate);
+      return numbers.length > 0 ? Math.min(...numbers) : null;
+    },
+  },
+  any: {
+    min_args: 2,
+    max_args: 2,
+    lazy: true,
+    fn: ([listNode, where], scope, evaluate) => {
+      let found = false;
+      forEachItem(scope, listArg(evaluate(listNode), 'any'), itemScope => {
+        found = matches(where, itemScope);
+        return found;
+      });
+      return found;
+    },
+  },
+  all: {
+    min_args: 2,
+    max_args: 2,
+    lazy: true,
+    fn: ([listNode, where], scope, evaluate) => {
+      let every = true;
+      forEachItem(scope, listArg(evaluate(listNode), 'all'), itemScope => {
+        every = matches(where, itemScope);
+        return !every;
+      });
+      return every;
+    },
+  },
+  filter: {
+    min_args: 2,
+    max_args: 2,
+    lazy: true,
+    fn: ([listNode, where], scope, evaluate) => {
+      const kept: any[] = [];
+      forEachItem(scope, listArg(evaluate(listNode), 'filter'), itemScope => {
+        if (matches(where, itemScope)) kept.push(itemScope.item!.value);
+      });
+      return kept;
+    },
+  },
+};
+
+const COLLECTION_FUNCTIONS = new Set(['count', 'sum', 'avg', 'maxof', 'minof', 'any', 'all', 'filter']);
+
+const getFunction = (name: string): ExpressionFunction | undefined => {
+  return Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+};
+
+/**
+ * Register an additional function (e.g. lookups backed by other services)
+ */
+export const registerExpressionFunction = (name: string, definition: ExpressionFunction): void => {
+  FUNCTIONS[name.toLowerCase()] = definition;
+  expressionCache.clear();
+};
+
+/**
+ * Evaluator
+ */
+
+const readProperty = (object: any, property: any): any => {
+  if (isNullish(object)) return null;
+
+  if (Array.isArray(object)) {
+    if (property === 'length') return object.length;
+    if (typeof property !== 'number' && !(typeof property === 'string' && NUMERIC_STRING.test(property))) {
+      throw new ExpressionError(`Unknown list property '${property}'`);
+    }
+    const index = Number(property);
+    if (!Number.isInteger(index)) return null;
+    return normalize(object[index < 0 ? object.length + index : index]);
+  }
+
+  if (typeof object !== 'object' || object instanceof Date) {
+    return null;
+  }
+
+  const key = String(property);
+  if (BLOCKED_PROPERTIES.has(key)) {
+    throw new ExpressionError(`Access to '${key}' is not allowed`);
+  }
+
+  return Object.prototype.hasOwnProperty.call(object, key) ? normalize(object[key]) : null;
+};
+
+/**
+ * A name bound by an enclosing collection element (`item` or one of its
+ * fields), innermost first
+ */
+const lookupItem = (binding: ItemBinding | undefined, name: string): { found: boolean; value?: any } => {
+  for (let current = binding; current; current = current.parent) {
+    if (name === 'item') return { found: true, value: normalize(current.value) };
+    const value = current.value;
+    if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+      && Object.prototype.hasOwnProperty.call(value, name)) {
+      if (BLOCKED_PROPERTIES.has(name)) {
+        throw new ExpressionError(`Access to '${name}' is not allowed`);
+      }
+      return { found: true, value: normalize(value[name]) };
+    }
+  }
+  return { found: false };
+};
+
+/**
+ * Dotted name for a chain of static member accesses (`a.b.c`), or null
+ */
+const staticPath = (node: ExpressionNode): string | null => {
+  if (node.type === 'variable') return node.name;
+  if (node.type === 'member' && typeof node.property === 'string') {
+    const parent = staticPath(node.object);
+    return parent === null ? null : `${parent}.${node.property}`;
+  }
+  return null;
+};
+
+const evaluateNode = (node: ExpressionNode, scope: EvaluationScope): any => {
+  scope.steps++;
+  if (scope.steps > scope.max_steps) {
+    throw new ExpressionError(`Expression exceeded ${scope.max_steps} evaluation steps`);
+  }
+
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'variable': {
+      if (scope.item) {
+        const bound = lookupItem(scope.item, node.name);
+        if (bound.found) return bound.value;
+      }
+      return readProperty(scope.variables, node.name);
+    }
+
+    case 'member': {
+      // Variables may be stored flat under a dotted key ("bureau.score"),
+      // unless the root name is an element field
+      const path = staticPath(node);
+      const itemBound = scope.item && path !== null && lookupItem(scope.item, path.split('.')[0]).found;
+      if (path !== null && !itemBound && Object.prototype.hasOwnProperty.call(scope.variables, path)) {
+        return normalize(scope.variables[path]);
+      }
+      const object = evaluateNode(node.object, scope);
+      const property = typeof node.property === 'string'
+        ? node.property
+        : evaluateNode(node.property, scope);
+      return readProperty(object, property);
+    }
+
+    case 'unary': {
+      const value = evaluateNode(node.argument, scope);
+      if (node.operator === '!') return !toBoolean(value);
+      return isNullish(value) ? null : -toNumber(value);
+    }
+
+    case 'logical': {
+      const left = toBoolean(evaluateNode(node.left, scope));
+      if (node.operator === '&&') return left && toBoolean(evaluateNode(node.right, scope));
+      return left || toBoolean(evaluateNode(node.right, scope));
+    }
+
+    case 'binary':
+      return applyBinary(node.operator, evaluateNode(node.left, scope), evaluateNode(node.right, scope));
+
+    case 'conditional':
+      return toBoolean(evaluateNode(node.test, scope))
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+
+    case 'call': {
+      const definition = getFunction(node.callee);
+      if (!definition) {
+        throw new ExpressionError(`Unknown function '${node.callee}'`);
+      }
+      if (definition.lazy) {
+        return normalize(definition.fn(node.args, scope, (arg) => evaluateNode(arg, scope)));
+      }
+      const args = node.args.map(arg => evaluateNode(arg, scope));
+      return normalize(definition.fn(args, scope));
+    }
+
+    case 'list':
+      return node.elements.map(element => evaluateNode(element, scope));
+  }
+};
+
+/**
+ * Public API
+ */
+
+const expressionCache = new Map<string, ExpressionNode>();
+
+export const parseExpression = (source: string): ExpressionNode => {
+  if (typeof source !== 'string' || source.trim() === '') {
+    throw new ExpressionError('Expression is empty');
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const cached = expressionCache.get(source);
+  if (cached) return cached;
+
+  const ast = new Parser(tokenize(source)).parse();
+
+  if (expressionCache.size >= MAX_CACHE_SIZE) {
+    expressionCache.clear();
+  }
+  expressionCache.set(source, ast);
+
+  return ast;
+};
+
+export const evaluateAST = (
+  ast: ExpressionNode,
+  variables: Record<string, any>,
+  options: EvaluateOptions = {}
+): any => {
+  const scope: EvaluationScope = {
+    variables: variables || {},
+    steps: 0,
+    max_steps: options.max_steps || DEFAULT_MAX_STEPS,
+    as_of: options.as_of || new Date(),
+    reference_tables: options.reference_tables,
+  };
+  return normalize(evaluateNode(ast, scope));
+};
+
+export const compileExpression = (source: string): CompiledExpression => {
+  const ast = parseExpression(source);
+  return {
+    source,
+    ast,
+    evaluate: (variables, options) => evaluateAST(ast, variables, options),
+  };
+};
+
+export const evaluateExpression = (
+  source: string,
+  variables: Record<string, any>,
+  options: EvaluateOptions = {}
+): any => {
+  return evaluateAST(parseExpression(source), variables, options);
+};
+
+export const evaluateBoolean = (
+  source: string,
+  variables: Record<string, any>,
+  options: EvaluateOptions = {}
+): boolean => {
+  return toBoolean(evaluateExpression(source, variables, options));
+};
+
+/**
+ * Variable paths referenced by an expression (for validation and tooling).
+ * Names inside collection predicates are element fields and not listed.
+ */
+export const getReferencedVariables = (source: string): string[] => {
+  const found = new Set<string>();
+
+  const visit = (node: ExpressionNode) => {
+    const path = staticPath(node);
+    if (path !== null) {
+      found.add(path);
+      return;
+    }
+    switch (node.type) {
+      case 'member':
+        visit(node.object);
+        if (typeof node.property !== 'string') visit(node.property);
+        break;
+      case 'unary':
+        visit(node.argument);
+        break;
+      case 'binary':
+      case 'logical':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'conditional':
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+      case 'call':
+        (COLLECTION_FUNCTIONS.has(node.callee) ? node.args.slice(0, 1) : node.args).forEach(visit);
+        break;
+      case 'list':
+        node.elements.forEach(visit);
+        break;
+    }
+  };
+
+  visit(parseExpression(source));
+  return Array.from(found);
+};
+
+export interface TemplateError {
+  placeholder: string;
+  error: string;
+}
+
+/**
+ * Render `{expression}` placeholders in a text template.
+ * Null results render as an empty string; placeholders that do not parse
+ * are left untouched. A placeholder that fails to evaluate also renders
+ * empty, and the failure is added to `errors` instead of being thrown.
+ */
+export const renderTemplate = (
+  template: string,
+  variables: Record<string, any>,
+  options: EvaluateOptions = {},
+  errors: TemplateError[] = []
+): string => {
+  if (!template) return '';
+
+  return template.replace(/\{([^{}]+)\}/g, (match, source) => {
+    let ast: ExpressionNode;
+    try {
+      ast = parseExpression(source);
+    } catch (error) {
+      return match;
+    }
+    let value: any;
+    try {
+      value = evaluateAST(ast, variables, options);
+    } catch (error) {
+      errors.push({ placeholder: match, error: error.message });
+      return '';
+    }
+    if (isNullish(value)) return '';
+    return value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+  });
+};
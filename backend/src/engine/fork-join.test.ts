@@ -0,0 +1,169 @@
+import { ReplayLookup, Workflow, WorkflowNode, executeWorkflow } from './workflow-executor';
+
+jest.mock('../config/database', () => ({ pool: { query: jest.fn().mockResolvedValue({ rows: [] }) }, redis: null }));
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const node = (id: string, type: string, data: Record<string, any> = {}): WorkflowNode =>
+  ({ id, type, position: { x: 0, y: 0 }, data: { label: id, ...data } } as WorkflowNode);
+
+const calc = (id: string, formula: string, output_variable: string) =>
+  node(id, 'calculation', { config: { formula, output_variable } });
+
+// API call whose response comes from the replay lookup below
+const api = (id: string, field_mapping: Record<string, string>) =>
+  node(id, 'apiCall', { method: 'GET', url: `https://bureau.example.com/${id}`, config: { field_mapping } });
+
+// Answers each API node after its delay; nodes without a response fail
+const replay = (responses: Record<string, { delay_ms: number; data?: any }>): ReplayLookup =>
+  async call => {
+    const response = responses[call.node_id];
+    await sleep(response?.delay_ms || 0);
+    return response?.data;
+  };
+
+/**
+ * start -> fork -> one branch per node -> join -> approve
+ */
+const forkWorkflow = (branches: WorkflowNode[], join: Record<string, any> = {}): Workflow => {
+  const edges: Array<[string, string]> = [['start', 'fork'], ['join', 'approve']];
+  branches.forEach(branch => edges.push(['fork', branch.id], [branch.id, 'join']));
+  return {
+    nodes: [
+      node('start', 'start'),
+      node('fork', 'fork'),
+      ...branches,
+      node('join', 'join', { config: join }),
+      node('approve', 'decision', { config: { decision: 'approved', reason: 'Approved' } }),
+    ],
+    edges: edges.map(([source, target], index) => ({ id: `e${index}`, source, target })),
+  } as Workflow;
+};
+
+const run = (workflow: Workflow, responses: Record<string, { delay_ms: number; data?: any }> = {}) =>
+  executeWorkflow(workflow, { income: 5000 }, 'policy-1', 'app-1', { replay: replay(responses) });
+
+const joinOutput = (result: { execution_trace: any[] }) =>
+  result.execution_trace.find(entry => entry.node_id === 'join').output;
+
+describe('join modes', () => {
+  it("'all' waits for every branch and merges their variables", async () => {
+    const result = await run(
+      forkWorkflow([api('bureau', { score: 'score' }), calc('dti', 'income / 2000', 'dti')]),
+      { bureau: { delay_ms: 30, data: { score: 720 } } }
+    );
+
+    expect(result.decision).toBe('approved');
+    expect(result.variables).toMatchObject({ score: 720, dti: 2.5 });
+    expect(joinOutput(result)).toMatchObject({
+      mode: 'all',
+      required: 2,
+      merged_variables: { score: 'fork#1', dti: 'fork#2' },
+      conflicts: [],
+    });
+    expect(joinOutput(result).branches.map(b => b.status)).toEqual(['completed', 'completed']);
+  });
+
+  it("'all' fails the run when a branch fails", async () => {
+    const result = await run(forkWorkflow([api('bureau', { score: 'score' }), calc('dti', 'income / 2000', 'dti')]));
+
+    expect(result.success).toBe(false);
+    expect(result.reason).toMatch(/Join node "join" requires 2 completed branch\(es\), got 1: fork#1: No stored api response/);
+  });
+
+  it("'any' continues with the first branch to finish", async () => {
+    const started = Date.now();
+    const result = await run(
+      forkWorkflow([api('bureau', { score: 'score' }), calc('dti', 'income / 2000', 'dti')], { mode: 'any' }),
+      { bureau: { delay_ms: 500, data: { score: 720 } } }
+    );
+
+    expect(result.decision).toBe('approved');
+    expect(Date.now() - started).toBeLessThan(400);
+    expect(result.variables.dti).toBe(2.5);
+    expect(joinOutput(result).branches.map(b => b.status)).toEqual(['abandoned', 'completed']);
+  });
+
+  it("'quorum' continues once enough branches finish", async () => {
+    const result = await run(
+      forkWorkflow(
+        [api('bureau', { score: 'score' }), calc('dti', 'income / 2000', 'dti'), calc('lti', 'income / 1000', 'lti')],
+        { mode: 'quorum', quorum: 2 }
+      ),
+      { bureau: { delay_ms: 500, data: { score: 720 } } }
+    );
+
+    expect(result.decision).toBe('approved');
+    expect(result.variables).toMatchObject({ dti: 2.5, lti: 5 });
+    expect(joinOutput(result)).toMatchObject({ mode: 'quorum', required: 2 });
+    expect(joinOutput(result).branches.map(b => b.status)).toEqual(['abandoned', 'completed', 'completed']);
+  });
+
+  it("'quorum' fails once it can no longer be met", async () => {
+    const result = await run(forkWorkflow(
+      [api('bureau', { score: 'score' }), api('fraud', { flag: 'flag' }), calc('dti', 'income / 2000', 'dti')],
+      { mode: 'quorum', quorum: 2 }
+    ));
+
+    expect(result.success).toBe(false);
+    expect(result.reason).toMatch(/requires 2 completed branch\(es\), got 1/);
+  });
+});
+
+describe('abandoned branches', () => {
+  it('discards what a losing branch returns after the join', async () => {
+    const result = await run(
+      forkWorkflow([api('bureau', { score: 'score' }), calc('dti', 'income / 2000', 'dti')], { mode: 'any' }),
+      { bureau: { delay_ms: 100, data: { score: 720 } } }
+    );
+    await sleep(200);
+
+    expect(result.variables).not.toHaveProperty('score');
+    expect(result.execution_trace.map(entry => entry.node_id)).not.toContain('bureau');
+  });
+
+  it('stops a losing branch before its next node', async () => {
+    const workflow = forkWorkflow([api('bureau', { score: 'score' }), calc('dti', 'income / 2000', 'dti')], { mode: 'any' });
+    workflow.nodes.push(calc('band', 'score / 100', 'band'));
+    workflow.edges = workflow.edges.map(edge =>
+      edge.source === 'bureau' ? { ...edge, target: 'band' } : edge);
+    workflow.edges.push({ id: 'band-join', source: 'band', target: 'join' } as any);
+
+    const visited: string[] = [];
+    const result = await executeWorkflow(workflow, { income: 5000 }, 'policy-1', 'app-1', {
+      replay: replay({ bureau: { delay_ms: 100, data: { score: 720 } } }),
+      before_node: async current => { visited.push(current.id); },
+    });
+    await sleep(200);
+
+    expect(result.decision).toBe('approved');
+    expect(visited).toContain('bureau');
+    expect(visited).not.toContain('band');
+  });
+});
+
+describe('merging branch variables', () => {
+  it('keeps the earlier branch on a conflict, whichever finishes first', async () => {
+    const result = await run(
+      forkWorkflow([api('bureau', { tier: 'tier' }), calc('rules', "'B'", 'tier')]),
+      { bureau: { delay_ms: 30, data: { tier: 'A' } } }
+    );
+
+    expect(result.variables.tier).toBe('A');
+    expect(joinOutput(result).conflicts).toEqual([{ variable: 'tier', kept_from: 'fork#1', ignored_from: 'fork#2' }]);
+  });
+
+  it('does not report branches that agree', async () => {
+    const result = await run(forkWorkflow([calc('a', "'A'", 'tier'), calc('b', "'A'", 'tier')]));
+
+    expect(result.variables.tier).toBe('A');
+    expect(joinOutput(result).conflicts).toEqual([]);
+  });
+
+  it('ignores variables a branch leaves unchanged', async () => {
+    const result = await run(forkWorkflow([calc('a', 'income', 'income'), calc('b', 'income * 2', 'income')]));
+
+    expect(result.variables.income).toBe(10000);
+    expect(joinOutput(result).merged_variables).toEqual({ income: 'fork#2' });
+  });
+});
@@ -0,0 +1,114 @@
+import { WorkflowNode, WorkflowEdge } from './workflow-executor';
+
+/**
+ * Graph helpers shared by the executor and policy validation
+ */
+
+export const getOutgoingEdges = (edges: WorkflowEdge[], nodeId: string): WorkflowEdge[] => {
+  return edges.filter(e => e.source === nodeId);
+};
+
+/**
+ * Find the join node that closes a fork.
+ * Nested fork/join pairs are skipped by tracking the nesting depth.
+ */
+export const findMatchingJoin = (
+  forkNode: WorkflowNode,
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): WorkflowNode | null => {
+  const nodesById = new Map(nodes.map(n => [n.id, n]));
+  const queue: Array<{ id: string; depth: number }> = getOutgoingEdges(edges, forkNode.id)
+    .map(e => ({ id: e.target, depth: 0 }));
+  const visited = new Set<string>();
+
+  while (queue.length > 0) {
+    const { id, depth } = queue.shift()!;
+    const key = `${id}:${depth}`;
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    const node = nodesById.get(id);
+    if (!node) continue;
+
+    let nextDepth = depth;
+    if (node.type === 'join') {
+      if (depth === 0) return node;
+      nextDepth = depth - 1;
+    } else if (node.type === 'fork') {
+      nextDepth = depth + 1;
+    }
+
+    getOutgoingEdges(edges, id).forEach(e => queue.push({ id: e.target, depth: nextDepth }));
+  }
+
+  return null;
+};
+
+/**
+ * Collect every node reachable from a fork before its matching join
+ */
+export const getNodesBetween = (
+  forkNode: WorkflowNode,
+  joinNode: WorkflowNode,
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): WorkflowNode[] => {
+  const nodesById = new Map(nodes.map(n => [n.id, n]));
+  const stack = getOutgoingEdges(edges, forkNode.id).map(e => e.target);
+  const seen = new Set<string>();
+  const result: WorkflowNode[] = [];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === joinNode.id || seen.has(id)) continue;
+    seen.add(id);
+
+    const node = nodesById.get(id);
+    if (!node) continue;
+    result.push(node);
+
+    getOutgoingEdges(edges, id).forEach(e => stack.push(e.target));
+  }
+
+  return result;
+};
+
+/**
+ * Detect cycles with a depth-first search. Returns one node path per
+ * back edge found, each starting and ending at the same node.
+ */
+export const findCycles = (nodes: WorkflowNode[], edges: WorkflowEdge[]): string[][] => {
+  const WHITE = 0;
+  const GREY = 1;
+  const BLACK = 2;
+
+  const color = new Map<string, number>(nodes.map(n => [n.id, WHITE]));
+  const cycles: string[][] = [];
+  const path: string[] = [];
+
+  const visit = (id: string) => {
+    color.set(id, GREY);
+    path.push(id);
+
+    getOutgoingEdges(edges, id).forEach(edge => {
+      const state = color.get(edge.target);
+      if (state === GREY) {
+        cycles.push([...path.slice(path.indexOf(edge.target)), edge.target]);
+      } else if (state === WHITE) {
+        visit(edge.target);
+      }
+    });
+
+    path.pop();
+    color.set(id, BLACK);
+  };
+
+  nodes.forEach(node => {
+    if (color.get(node.id) === WHITE) {
+      visit(node.id);
+    }
+  });
+
+  return cycles;
+};
@@ -0,0 +1,362 @@
+/**
+ * Policy input contracts
+ *
+ * A policy version may declare the shape of the applicant data it expects in
+ * `workflow.input_schema`, using a subset of JSON Schema:
+ *
+ *   type                  string | number | integer | boolean | object | array
+ *                         (or a list of them, e.g. ["number", "null"])
+ *   properties, required, additionalProperties       objects
+ *   items, minItems, maxItems                        arrays
+ *   enum, default                                    any type
+ *   minimum, maximum, exclusiveMinimum, exclusiveMaximum   numbers
+ *   minLength, maxLength, pattern, format (date, date-time, email)   strings
+ *
+ * Validation collects every violation instead of stopping at the first one.
+ * Values arriving as strings (query-string style payloads, spreadsheet
+ * uploads) are coerced to the declared type where that is unambiguous.
+ */
+
+export type InputSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export type InputSchemaFormat = 'date' | 'date-time' | 'email';
+
+export interface InputSchema {
+  type?: InputSchemaType | InputSchemaType[];
+  title?: string;
+  description?: string;
+  properties?: Record<string, InputSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: InputSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: any[];
+  default?: any;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: InputSchemaFormat;
+  examples?: any[];
+}
+
+export interface InputViolation {
+  path: string; // dotted path to the offending field, "" for the root
+  keyword: string; // schema keyword that failed, e.g. "required", "minimum"
+  message: string;
+  value?: any;
+}
+
+export interface InputValidationResult {
+  valid: boolean;
+  value: any; // the coerced input, with defaults applied
+  violations: InputViolation[];
+}
+
+export interface InputValidationOptions {
+  coerce?: boolean; // default true
+}
+
+export class InputValidationError extends Error {
+  violations: InputViolation[];
+
+  constructor(violations: InputViolation[]) {
+    super(`Input does not match the policy input schema (${violations.length} violation${violations.length === 1 ? '' : 's'})`);
+    this.name = 'InputValidationError';
+    this.violations = violations;
+  }
+}
+
+export const INPUT_SCHEMA_TYPES: InputSchemaType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+const INPUT_SCHEMA_FORMATS: InputSchemaFormat[] = ['date', 'date-time', 'email'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const joinPath = (path: string, key: string | number): string => {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+};
+
+const getTypes = (schema: InputSchema): InputSchemaType[] => {
+  if (!schema.type) return [];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+};
+
+const typeOf = (value: any): InputSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as InputSchemaType;
+};
+
+const matchesType = (value: any, type: InputSchemaType): boolean => {
+  const actual = typeOf(value);
+  if (type === 'number') return (actual === 'number' || actual === 'integer') && Number.isFinite(value);
+  return actual === type;
+};
+
+/**
+ * Convert a value to the declared type when the conversion is lossless;
+ * returns undefined when it is not
+ */
+const coerceValue = (value: any, type: InputSchemaType): any => {
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      if (typeof value === 'string' && value.trim() !== '') {
+        const num = Number(value.trim());
+        if (Number.isFinite(num) && (type === 'number' || Number.isInteger(num))) return num;
+      }
+      return undefined;
+    }
+    case 'boolean': {
+      if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (normalized === 'true') return true;
+        if (normalized === 'false') return false;
+      }
+      if (value === 1 || value === 0) return value === 1;
+      return undefined;
+    }
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+      return undefined;
+    case 'null':
+      return value === '' ? null : undefined;
+    default:
+      return undefined;
+  }
+};
+
+const describeExpected = (types: InputSchemaType[]): string =>
+  types.length === 1 ? types[0] : types.slice(0, -1).join(', ') + ' or ' + types[types.length - 1];
+
+const isValidDate = (value: string, format: InputSchemaFormat): boolean => {
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) return false;
+  // Reject dates the parser silently rolls over, e.g. 2024-02-30
+  return format !== 'date' || (DATE_PATTERN.test(value) && parsed.toISOString().slice(0, 10) === value);
+};
+
+const validateNode = (
+  schema: InputSchema,
+  input: any,
+  path: string,
+  violations: InputViolation[],
+  coerce: boolean
+): any => {
+  let value = input;
+  const types = getTypes(schema);
+
+  if (types.length > 0 && !types.some(t => matchesType(value, t))) {
+    const coerced = coerce
+      ? types.map(t => coerceValue(value, t)).find(v => v !== undefined)
+      : undefined;
+
+    if (coerced === undefined) {
+      violations.push({
+        path,
+        keyword: 'type',
+        message: `must be ${describeExpected(types)}, got ${typeOf(value) === 'integer' ? 'number' : typeOf(value)}`,
+        value,
+      });
+      return value;
+    }
+    value = coerced;
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    violations.push({
+      path,
+      keyword: 'enum',
+      message: `must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`,
+      value,
+    });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, keyword: 'minimum', message: `must be >= ${schema.minimum}`, value });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, keyword: 'maximum', message: `must be <= ${schema.maximum}`, value });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      violations.push({ path, keyword: 'exclusiveMinimum', message: `must be > ${schema.exclusiveMinimum}`, value });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      violations.push({ path, keyword: 'exclusiveMaximum', message: `must be < ${schema.exclusiveMaximum}`, value });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path, keyword: 'minLength', message: `must be at least ${schema.minLength} characters`, value });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path, keyword: 'maxLength', message: `must be at most ${schema.maxLength} characters`, value });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      violations.push({ path, keyword: 'pattern', message: `must match pattern ${schema.pattern}`, value });
+    }
+    if (schema.format === 'email' && !EMAIL_PATTERN.test(value)) {
+      violations.push({ path, keyword: 'format', message: 'must be a valid email address', value });
+    } else if ((schema.format === 'date' || schema.format === 'date-time') && !isValidDate(value, schema.format)) {
+      violations.push({
+        path,
+        keyword: 'format',
+        message: schema.format === 'date' ? 'must be a date (YYYY-MM-DD)' : 'must be a date-time',
+        value,
+      });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path, keyword: 'minItems', message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path, keyword: 'maxItems', message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value = value.map((item, index) => validateNode(schema.items, item, joinPath(path, index), violations, coerce));
+    }
+  }
+
+  if (typeOf(value) === 'object' && (schema.properties || schema.required || schema.additionalProperties === false)) {
+    const properties = schema.properties || {};
+    const result: Record<string, any> = { ...value };
+
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      const present = Object.prototype.hasOwnProperty.call(value, key) && value[key] !== undefined;
+      if (present) {
+        result[key] = validateNode(propertySchema, value[key], joinPath(path, key), violations, coerce);
+      } else if (propertySchema.default !== undefined) {
+        result[key] = propertySchema.default;
+      }
+    }
+
+    (schema.required || []).forEach(key => {
+      if (result[key] === undefined) {
+        violations.push({ path: joinPath(path, key), keyword: 'required', message: 'is required' });
+      }
+    });
+
+    if (schema.additionalProperties === false) {
+      Object.keys(value)
+        .filter(key => !Object.prototype.hasOwnProperty.call(properties, key))
+        .forEach(key => {
+          violations.push({ path: joinPath(path, key), keyword: 'additionalProperties', message: 'is not allowed' });
+        });
+    }
+
+    value = result;
+  }
+
+  return value;
+};
+
+/**
+ * Validate and coerce input against a schema, collecting every violation
+ */
+export const validateInput = (
+  schema: InputSchema,
+  input: any,
+  options: InputValidationOptions = {}
+): InputValidationResult => {
+  const violations: InputViolation[] = [];
+  const value = validateNode(schema, input, '', violations, options.coerce !== false);
+  return { valid: violations.length === 0, value, violations };
+};
+
+/**
+ * Validate a workflow's input against its declared schema. Workflows without
+ * a schema accept any input unchanged.
+ */
+export const applyInputSchema = (workflow: any, input: any): InputValidationResult => {
+  const schema: InputSchema | undefined = workflow?.input_schema;
+  if (!schema) {
+    return { valid: true, value: input, violations: [] };
+  }
+  return validateInput(schema, input);
+};
+
+/**
+ * Check that a schema itself is well-formed; returns one message per problem
+ */
+export const validateInputSchema = (schema: any, path: string = ''): string[] => {
+  const errors: string[] = [];
+  const where = path ? `"${path}"` : 'root';
+
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return [`Input schema ${where} must be an object`];
+  }
+
+  const types: any[] = schema.type === undefined ? [] : (Array.isArray(schema.type) ? schema.type : [schema.type]);
+  types
+    .filter(t => !INPUT_SCHEMA_TYPES.includes(t))
+    .forEach(t => errors.push(`Input schema ${where} has unknown type "${t}"`));
+
+  if (!path && types.length > 0 && !types.includes('object')) {
+    errors.push('Input schema root must be of type object');
+  }
+
+  if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+    errors.push(`Input schema ${where} enum must be a non-empty list`);
+  }
+
+  if (schema.format !== undefined && !INPUT_SCHEMA_FORMATS.includes(schema.format)) {
+    errors.push(`Input schema ${where} has unsupported format "${schema.format}"`);
+  }
+
+  ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'minLength', 'maxLength', 'minItems', 'maxItems']
+    .filter(keyword => schema[keyword] !== undefined && typeof schema[keyword] !== 'number')
+    .forEach(keyword => errors.push(`Input schema ${where} ${keyword} must be a number`));
+
+  if (typeof schema.minimum === 'number' && typeof schema.maximum === 'number' && schema.minimum > schema.maximum) {
+    errors.push(`Input schema ${where} minimum is greater than maximum`);
+  }
+  if (typeof schema.minLength === 'number' && typeof schema.maxLength === 'number' && schema.minLength > schema.maxLength) {
+    errors.push(`Input schema ${where} minLength is greater than maxLength`);
+  }
+
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern);
+    } catch (error) {
+      errors.push(`Input schema ${where} has an invalid pattern: ${error.message}`);
+    }
+  }
+
+  if (schema.required !== undefined) {
+    if (!Array.isArray(schema.required) || schema.required.some((key: any) => typeof key !== 'string')) {
+      errors.push(`Input schema ${where} required must be a list of property names`);
+    } else {
+      schema.required
+        .filter((key: string) => !schema.properties || !Object.prototype.hasOwnProperty.call(schema.properties, key))
+        .forEach((key: string) => errors.push(`Input schema ${where} requires undeclared property "${key}"`));
+    }
+  }
+
+  if (schema.properties !== undefined) {
+    if (typeof schema.properties !== 'object' || Array.isArray(schema.properties)) {
+      errors.push(`Input schema ${where} properties must be an object`);
+    } else {
+      Object.entries(schema.properties).forEach(([key, child]) => {
+        errors.push(...validateInputSchema(child, joinPath(path, key)));
+      });
+    }
+  }
+
+  if (schema.items !== undefined) {
+    errors.push(...validateInputSchema(schema.items, joinPath(path, 'items')));
+  }
+
+  return errors;
+};
@@ -0,0 +1,140 @@
+/**
+ * Missing-data policy
+ *
+ * Decides what a strategy condition or score factor does when the variable
+ * it reads is absent (undefined, null, empty string or NaN). Rules are
+ * resolved most specific first:
+ *
+ *   1. the condition's `missingData` / the score factor's `missing_data`
+ *   2. `workflow.settings.missing_data.variables[<variable>]`
+ *   3. `workflow.settings.missing_data.default`
+ *   4. fail
+ *
+ * Actions:
+ *   fail           the condition is not met; the factor scores 0
+ *   pass           the condition is met; the factor gets its best range score
+ *   manual_review  the condition is met but refers the application; the factor
+ *                  scores 0. Either way the application cannot be auto-approved.
+ *   default        evaluate with `value` in place of the missing one
+ *   impute         evaluate with the result of `expression`, computed from the
+ *                  other variables; if that is missing too, manual review
+ */
+
+import { EvaluateOptions, evaluateExpression } from './expression';
+
+export type MissingDataAction = 'fail' | 'pass' | 'manual_review' | 'default' | 'impute';
+
+export interface MissingDataRule {
+  action: MissingDataAction;
+  value?: any; // default
+  expression?: string; // impute
+}
+
+export interface MissingDataSettings {
+  default?: MissingDataRule;
+  variables?: Record<string, MissingDataRule>;
+}
+
+export type MissingDataRuleSource = 'condition' | 'factor' | 'variable' | 'policy' | 'engine';
+
+/**
+ * One condition or factor decided on missing data; recorded on the node's
+ * trace entry and in the execution details
+ */
+export interface MissingDataFlag {
+  node_id?: string;
+  variable: string;
+  target: string; // condition text or factor name
+  action: MissingDataAction; // action actually applied
+  rule_source: MissingDataRuleSource;
+  substituted_value?: any; // default / impute
+  note?: string;
+}
+
+export interface MissingDataResolution {
+  action: MissingDataAction;
+  rule_source: MissingDataRuleSource;
+  value?: any; // substitute for default / impute
+  note?: string;
+}
+
+export const MISSING_DATA_ACTIONS: MissingDataAction[] = ['fail', 'pass', 'manual_review', 'default', 'impute'];
+
+export const isMissingValue = (value: any): boolean =>
+  value === undefined || value === null || value === '' || (typeof value === 'number' && isNaN(value));
+
+/**
+ * Read the policy-level missing-data settings from a workflow
+ */
+export const getMissingDataSettings = (workflow: any): MissingDataSettings =>
+  workflow?.settings?.missing_data || {};
+
+const findRule = (
+  variable: string,
+  override: MissingDataRule | undefined,
+  overrideSource: MissingDataRuleSource,
+  settings: MissingDataSettings
+): { rule: MissingDataRule; source: MissingDataRuleSource } => {
+  if (override?.action) return { rule: override, source: overrideSource };
+
+  const variableRule = settings.variables?.[variable];
+  if (variableRule?.action) return { rule: variableRule, source: 'variable' };
+
+  if (settings.default?.action) return { rule: settings.default, source: 'policy' };
+
+  return { rule: { action: 'fail' }, source: 'engine' };
+};
+
+/**
+ * Resolve what to do about a missing variable. Substitutions that cannot be
+ * computed fall back to manual review rather than guessing.
+ */
+export const resolveMissingData = (
+  variable: string,
+  override: MissingDataRule | undefined,
+  overrideSource: MissingDataRuleSource,
+  settings: MissingDataSettings,
+  variables: Record<string, any>,
+  options: EvaluateOptions = {}
+): MissingDataResolution => {
+  const { rule, source } = findRule(variable, override, overrideSource, settings);
+
+  if (rule.action === 'default') {
+    if (isMissingValue(rule.value)) {
+      return { action: 'manual_review', rule_source: source, note: 'No default value configured' };
+    }
+    return { action: 'default', rule_source: source, value: rule.value };
+  }
+
+  if (rule.action === 'impute') {
+    let value: any;
+    try {
+      value = rule.expression ? evaluateExpression(rule.expression, variables, options) : undefined;
+    } catch (error) {
+      return { action: 'manual_review', rule_source: source, note: `Imputation failed: ${error.message}` };
+    }
+    if (isMissingValue(value)) {
+      return { action: 'manual_review', rule_source: source, note: 'Imputed value is missing' };
+    }
+    return { action: 'impute', rule_source: source, value };
+  }
+
+  return { action: MISSING_DATA_ACTIONS.includes(rule.action) ? rule.action : 'fail', rule_source: source };
+};
+
+/**
+ * Check a configured rule; returns an error message or null
+ */
+export const validateMissingDataRule = (rule: any): string | null => {
+  if (!rule || typeof rule !== 'object') return 'missing-data rule must be an object';
+  if (!MISSING_DATA_ACTIONS.includes(rule.action)) {
+    return `unknown missing-data action "${rule.action}" (expected ${MISSING_DATA_ACTIONS.join(', ')})`;
+  }
+  if (rule.action === 'default' && isMissingValue(rule.value)) {
+    return 'missing-data action "default" requires a value';
+  }
+  if (rule.action === 'impute' && !rule.expression) {
+    return 'missing-data action "impute" requires an expression';
+  }
+  return null;
+};
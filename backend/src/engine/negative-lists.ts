@@ -0,0 +1,136 @@
+import { Workflow } from './workflow-executor';
+import { IDENTIFIER_TYPES, IdentifierType, normalizeIdentifier } from './velocity';
+
+/**
+ * Negative lists
+ *
+ * Internal lists of values a lender refuses or wants a human to look at:
+ * fraudulent PANs, blocked employers, defaulted customers, bad pincodes.
+ * Each list has a type, which decides how values are normalized, a match
+ * mode and the action a hit routes to. A negativeListCheck node checks
+ * applicant values against one or more lists:
+ *
+ *   data.config = {
+ *     checks: [
+ *       { list: 'fraud_pans', value: 'pan' },
+ *       { list: 'blocked_employers', value: 'company_name' },
+ *     ],
+ *     output_variable?: 'negative_list',  // { outcome, hit, hits }
+ *   }
+ *
+ * The node leaves through its `reject` output when a hit's list rejects,
+ * else through `manual_review` when a hit's list refers, else `clear`.
+ * Entries count from when they were added until they expire or are
+ * removed, measured at the evaluation date.
+ */
+
+export type NegativeListType = IdentifierType | 'employer' | 'pincode' | 'text';
+export type NegativeListMatchMode = 'exact' | 'normalized';
+export type NegativeListAction = 'reject' | 'manual_review';
+export type NegativeListOutcome = 'clear' | NegativeListAction;
+
+export interface NegativeListCheck {
+  list: string;
+  value: string; // expression; a list of values checks each of them
+}
+
+export interface NegativeListCheckConfig {
+  checks: NegativeListCheck[];
+  output_variable?: string;
+}
+
+export interface NegativeListHit {
+  list: string;
+  action: NegativeListAction;
+  value: any; // as checked
+  entry_id: string;
+  entry_value: string; // as listed
+  match: NegativeListMatchMode;
+  reason_code: string | null;
+  expires_at: string | null;
+}
+
+export const NEGATIVE_LIST_TYPES: NegativeListType[] = [...IDENTIFIER_TYPES, 'employer', 'pincode', 'text'];
+export const NEGATIVE_LIST_MATCH_MODES: NegativeListMatchMode[] = ['exact', 'normalized'];
+export const NEGATIVE_LIST_ACTIONS: NegativeListAction[] = ['reject', 'manual_review'];
+
+// Output handles of a negativeListCheck node
+export const NEGATIVE_LIST_HANDLES: NegativeListOutcome[] = ['clear', 'manual_review', 'reject'];
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Legal-form suffixes dropped from employer names: 'Acme Pvt. Ltd.' is 'acme'
+const EMPLOYER_SUFFIXES = /(\s+(private|pvt|limited|ltd|llp|inc|corporation|corp|company|co))+$/;
+
+export const isValidNegativeListName = (name: any): boolean => typeof name === 'string' && NAME_PATTERN.test(name);
+
+/**
+ * Value as compared in exact mode: the text with surrounding spaces removed
+ */
+export const exactListValue = (value: any): string | null => {
+  if (value === null || value === undefined || typeof value === 'object') return null;
+  const text = String(value).trim();
+  return text || null;
+};
+
+/**
+ * Value as compared in normalized mode, by list type
+ */
+export const normalizeListValue = (type: NegativeListType, value: any): string | null => {
+  const text = exactListValue(value);
+  if (text === null) return null;
+
+  switch (type) {
+    case 'employer': {
+      const name = text.toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+        .replace(EMPLOYER_SUFFIXES, '');
+      return name || null;
+    }
+    case 'pincode':
+      return text.replace(/\D/g, '') || null;
+    case 'text':
+      return text.toLowerCase().replace(/\s+/g, ' ');
+    default:
+      return normalizeIdentifier(type, text);
+  }
+};
+
+/**
+ * The output a set of hits routes to: reject beats manual review
+ */
+export const getNegativeListOutcome = (hits: NegativeListHit[]): NegativeListOutcome => {
+  if (hits.some(hit => hit.action === 'reject')) return 'reject';
+  if (hits.length > 0) return 'manual_review';
+  return 'clear';
+};
+
+/**
+ * Names of the lists a workflow's check nodes read
+ */
+export const getNegativeListRefs = (workflow: Workflow): string[] =>
+  Array.from(new Set(
+    (workflow.nodes || [])
+      .filter(node => node.type === 'negativeListCheck')
+      .flatMap(node => (node.data?.config?.checks || []).map((check: any) => check?.list))
+      .filter(isValidNegativeListName)
+  ));
+
+/**
+ * Check a negativeListCheck node's configuration; returns every problem found
+ */
+export const validateNegativeListCheckConfig = (config: Partial<NegativeListCheckConfig> | undefined): string[] => {
+  const errors: string[] = [];
+  if (!Array.isArray(config?.checks) || config.checks.length === 0) {
+    errors.push('at least one check is required');
+    return errors;
+  }
+
+  config.checks.forEach((check, index) => {
+    if (!isValidNegativeListName(check?.list)) errors.push(`check ${index + 1}: a negative list is required`);
+    if (!check?.value || !String(check.value).trim()) errors.push(`check ${index + 1}: a value expression is required`);
+  });
+  return errors;
+};
@@ -0,0 +1,149 @@
+import { Workflow } from './workflow-executor';
+import { collectExpressions } from './execution-plan';
+import { getReferencedVariables } from './expression';
+import { ConditionItem, buildConditionTree, isConditionGroup } from './condition-tree';
+
+/**
+ * Policy parameters
+ *
+ * Named, typed values declared per policy (minimum score, FOIR cap, allowed
+ * cities) and versioned separately from the workflow, so thresholds change
+ * without editing the graph. During execution the effective values are the
+ * `params` variable:
+ *
+ *   bureau.score >= params.min_score            (formulas and conditions)
+ *   foir <= params.foir_cap                     (calculation nodes)
+ *   strategy condition value: params.min_score  (the whole value)
+ *
+ * `params` is set after the input, so applicant data cannot override it.
+ */
+
+export type ParameterType = 'number' | 'integer' | 'string' | 'boolean' | 'list';
+
+export interface PolicyParameter {
+  name: string;
+  type: ParameterType;
+  value: any;
+  description?: string;
+}
+
+/**
+ * Values one execution runs with; `version` is null when testing a
+ * proposed change that has not been approved
+ */
+export interface ParameterValues {
+  version: number | null;
+  set_id?: string;
+  values: Record<string, any>;
+}
+
+export const PARAMETER_TYPES: ParameterType[] = ['number', 'integer', 'string', 'boolean', 'list'];
+
+export const PARAMETERS_VARIABLE = 'params';
+
+export const NO_PARAMETERS: ParameterValues = { version: null, values: {} };
+
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PARAMETER_REFERENCE = /^\s*params\.([A-Za-z_][A-Za-z0-9_]*)\s*$/;
+
+const checkValue = (type: ParameterType, value: any): boolean => {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'list':
+      return Array.isArray(value) && value.every(v => typeof v === 'string' || typeof v === 'number');
+    default:
+      return false;
+  }
+};
+
+/**
+ * Check a parameter set; returns every problem found
+ */
+export const validateParameters = (parameters: any): string[] => {
+  if (!Array.isArray(parameters)) {
+    return ['parameters must be a list of { name, type, value }'];
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  parameters.forEach((parameter: any, index: number) => {
+    const name = parameter?.name;
+    const label = name ? `Parameter "${name}"` : `Parameter ${index + 1}`;
+    if (typeof name !== 'string' || !PARAMETER_NAME.test(name)) {
+      errors.push(`${label}: name must start with a letter or underscore and contain only letters, digits and underscores`);
+    } else if (seen.has(name)) {
+      errors.push(`${label} is declared more than once`);
+    }
+    seen.add(name);
+
+    if (!PARAMETER_TYPES.includes(parameter?.type)) {
+      errors.push(`${label}: type must be one of ${PARAMETER_TYPES.join(', ')}`);
+    } else if (!checkValue(parameter.type, parameter.value)) {
+      errors.push(`${label}: value ${JSON.stringify(parameter.value)} is not a valid ${parameter.type}`);
+    }
+  });
+  return errors;
+};
+
+export const toParameterValues = (
+  parameters: PolicyParameter[],
+  version: number | null,
+  setId?: string
+): ParameterValues => {
+  const values: Record<string, any> = {};
+  (parameters || []).forEach(parameter => {
+    values[parameter.name] = parameter.value;
+  });
+  return { version, ...(setId ? { set_id: setId } : {}), values };
+};
+
+/**
+ * A strategy condition value that is exactly `params.<name>` takes the
+ * parameter's value
+ */
+export const resolveParameterReference = (value: any, values: Record<string, any>): any => {
+  if (typeof value !== 'string') return value;
+  const match = PARAMETER_REFERENCE.exec(value);
+  if (!match) return value;
+  return Object.prototype.hasOwnProperty.call(values, match[1]) ? values[match[1]] : null;
+};
+
+/**
+ * Parameter names a workflow references, from expressions and strategy
+ * condition values
+ */
+export const getParameterReferences = (workflow: Workflow): string[] => {
+  const names = new Set<string>();
+  const prefix = `${PARAMETERS_VARIABLE}.`;
+
+  collectExpressions(workflow).forEach(source => {
+    try {
+      getReferencedVariables(source)
+        .filter(path => path.startsWith(prefix))
+        .forEach(path => names.add(path.slice(prefix.length).split('.')[0]));
+    } catch (parseError) {
+      // Reported by policy validation
+    }
+  });
+
+  const visit = (items: ConditionItem[]) => items.forEach(item => {
+    if (isConditionGroup(item)) {
+      visit(item.conditions);
+      return;
+    }
+    const match = typeof item.value === 'string' ? PARAMETER_REFERENCE.exec(item.value) : null;
+    if (match) names.add(match[1]);
+  });
+  (workflow.nodes || [])
+    .filter(node => node.type === 'strategy' && (node.data?.conditions || []).length > 0)
+    .forEach(node => visit(buildConditionTree(node.data).conditions));
+
+  return Array.from(names);
+};
@@ -0,0 +1,386 @@
+import { Workflow, WorkflowEdge, WorkflowNode } from './workflow-executor';
+import { PolicyParameter } from './parameters';
+
+/**
+ * Semantic policy diff
+ *
+ * Compares two workflow snapshots the way a reviewer reads them rather than
+ * as JSON:
+ *
+ *   nodes       matched by id; added, removed or changed field by field
+ *   conditions  matched by id and shown as expressions,
+ *               e.g. "bureau.score >= 700 → >= 720"
+ *   lists       items matched by id (or name), so reordering is not a change
+ *   mappings    one change per mapped variable ("credit_score ← data.score")
+ *   edges       keyed by source node and handle; a new target is a rewiring
+ *   settings    strategy aggregation, missing-data rules and the input schema
+ *   parameters  values of the parameter sets in effect for each side
+ *
+ * Node positions are layout only and never reported.
+ */
+
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+export interface DiffChange {
+  field: string; // e.g. "conditions[2]", "field_mapping.credit_score", "settings.missing_data"
+  status: DiffStatus;
+  before?: any;
+  after?: any;
+  summary: string;
+}
+
+export interface NodeDiff {
+  node_id: string;
+  type: string;
+  label: string;
+  status: DiffStatus;
+  changes: DiffChange[]; // field changes of a changed node
+}
+
+export interface EdgeDiff {
+  status: 'added' | 'removed' | 'rewired';
+  source: string;
+  source_handle: string | null;
+  before_target: string | null;
+  after_target: string | null;
+  before_edge_id: string | null;
+  after_edge_id: string | null;
+  summary: string;
+}
+
+export interface PolicyDiff {
+  nodes: NodeDiff[];
+  edges: EdgeDiff[];
+  settings: DiffChange[];
+  parameters: DiffChange[];
+  summary: {
+    nodes_added: number;
+    nodes_removed: number;
+    nodes_changed: number;
+    edges_changed: number;
+    settings_changed: number;
+    parameters_changed: number;
+  };
+}
+
+const isPlainObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * JSON with object keys sorted, so { a, b } and { b, a } serialize alike
+ */
+export const canonicalJson = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sameValue = (a: any, b: any): boolean => canonicalJson(a) === canonicalJson(b);
+
+const formatValue = (value: any): string => {
+  if (value === undefined) return '(none)';
+  if (typeof value === 'string') return value === '' ? '""' : value;
+  return JSON.stringify(value);
+};
+
+// Condition leaves as written in strategy, decision and missing-data configs
+const isConditionLeaf = (value: any): boolean =>
+  isPlainObject(value) && typeof value.variable === 'string' && typeof value.operator === 'string';
+
+const describeLeaf = (leaf: any): string =>
+  `${leaf.variable} ${leaf.operator}${leaf.value === undefined ? '' : ` ${formatValue(leaf.value)}`}`;
+
+const describeLeafChange = (before: any, after: any): string => {
+  const from = describeLeaf(before);
+  const to = before.variable === after.variable
+    ? describeLeaf(after).slice(after.variable.length + 1)
+    : describeLeaf(after);
+  const extras = ['decision', 'missingData', 'logicalOperator']
+    .filter(key => !sameValue(before[key], after[key]))
+    .map(key => `${key}: ${formatValue(before[key])} → ${formatValue(after[key])}`);
+  return [from === describeLeaf(after) ? null : `${from} → ${to}`, ...extras].filter(Boolean).join('; ')
+    || `${from} (edited)`;
+};
+
+// Items of a list are matched by id, else by name; lists of neither compare by position
+const itemKey = (item: any): string | null => {
+  if (!isPlainObject(item)) return null;
+  if (item.id !== undefined && item.id !== null) return `id:${item.id}`;
+  if (typeof item.name === 'string') return `name:${item.name}`;
+  return null;
+};
+
+const joinField = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+const diffList = (path: string, before: any[], after: any[], changes: DiffChange[]): void => {
+  const keyed = [...before, ...after].every(item => itemKey(item) !== null);
+  if (!keyed) {
+    if (before.length !== after.length || before.some((item, i) => isPlainObject(item) !== isPlainObject(after[i]))) {
+      if (!sameValue(before, after)) {
+        changes.push({ field: path, status: 'changed', before, after, summary: `${path}: ${formatValue(before)} → ${formatValue(after)}` });
+      }
+      return;
+    }
+    before.forEach((item, i) => diffValue(`${path}[${i + 1}]`, item, after[i], changes));
+    return;
+  }
+
+  // Named items (score factors, table outputs) are shown by name, the rest by position
+  const fieldOf = (item: any, index: number) =>
+    `${path}[${itemKey(item)!.startsWith('name:') ? item.name : index + 1}]`;
+  const afterByKey = new Map(after.map((item, i) => [itemKey(item), { item, field: fieldOf(item, i) }]));
+  const beforeKeys = new Set(before.map(itemKey));
+
+  before.forEach((item, i) => {
+    const match = afterByKey.get(itemKey(item));
+    if (match) {
+      diffValue(match.field, item, match.item, changes);
+    } else {
+      changes.push({ field: fieldOf(item, i), status: 'removed', before: item, summary: `Removed ${describeItem(item)}` });
+    }
+  });
+  after.forEach((item, i) => {
+    if (!beforeKeys.has(itemKey(item))) {
+      changes.push({ field: fieldOf(item, i), status: 'added', after: item, summary: `Added ${describeItem(item)}` });
+    }
+  });
+};
+
+const describeItem = (item: any): string => {
+  if (isConditionLeaf(item)) return describeLeaf(item);
+  if (isPlainObject(item) && item.type === 'group') {
+    return `${item.operator} group of ${(item.conditions || []).length}`;
+  }
+  if (isPlainObject(item)) return item.label || item.name || item.description || item.id || formatValue(item);
+  return formatValue(item);
+};
+
+// Variable ← response path, one change per mapped variable
+const diffMapping = (path: string, before: Record<string, any>, after: Record<string, any>, changes: DiffChange[]): void => {
+  const variables = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  variables.forEach(variable => {
+    const field = joinField(path, variable);
+    if (!(variable in before)) {
+      changes.push({ field, status: 'added', after: after[variable], summary: `Mapped ${variable} ← ${formatValue(after[variable])}` });
+    } else if (!(variable in after)) {
+      changes.push({ field, status: 'removed', before: before[variable], summary: `Unmapped ${variable} (was ← ${formatValue(before[variable])})` });
+    } else if (!sameValue(before[variable], after[variable])) {
+      changes.push({
+        field,
+        status: 'changed',
+        before: before[variable],
+        after: after[variable],
+        summary: `${variable} ← ${formatValue(before[variable])} → ${formatValue(after[variable])}`,
+      });
+    }
+  });
+};
+
+const diffValue = (path: string, before: any, after: any, changes: DiffChange[]): void => {
+  if (sameValue(before, after)) return;
+
+  if (before === undefined) {
+    changes.push({ field: path, status: 'added', after, summary: `${path}: set to ${formatValue(after)}` });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ field: path, status: 'removed', before, summary: `${path}: removed (was ${formatValue(before)})` });
+    return;
+  }
+  if (isConditionLeaf(before) && isConditionLeaf(after)) {
+    changes.push({ field: path, status: 'changed', before, after, summary: describeLeafChange(before, after) });
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    diffList(path, before, after, changes);
+    return;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    if (/(^|\.)field_mapping$/.test(path)) {
+      diffMapping(path, before, after, changes);
+      return;
+    }
+    Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+      .forEach(key => diffValue(joinField(path, key), before[key], after[key], changes));
+    return;
+  }
+  changes.push({ field: path, status: 'changed', before, after, summary: `${path}: ${formatValue(before)} → ${formatValue(after)}` });
+};
+
+/**
+ * Field changes between two versions of a node's data; `config.` is dropped
+ * from field names
+ */
+export const diffNodeData = (before: Record<string, any>, after: Record<string, any>): DiffChange[] => {
+  const flatten = (data: Record<string, any>) => {
+    const { config, ...rest } = data || {};
+    return { ...rest, ...(isPlainObject(config) ? config : {}) };
+  };
+  const changes: DiffChange[] = [];
+  diffValue('', flatten(before), flatten(after), changes);
+  return changes;
+};
+
+const nodeLabel = (node: WorkflowNode): string => node.data?.label || node.id;
+
+const diffEdges = (
+  before: WorkflowEdge[],
+  after: WorkflowEdge[],
+  labels: Map<string, string>,
+  newOrGoneNodes: Set<string>
+): EdgeDiff[] => {
+  const group = (edges: WorkflowEdge[]) => {
+    const bySource = new Map<string, WorkflowEdge[]>();
+    edges.forEach(edge => {
+      const key = `${edge.source}\u0000${edge.sourceHandle || ''}`;
+      bySource.set(key, [...(bySource.get(key) || []), edge]);
+    });
+    return bySource;
+  };
+  const beforeGroups = group(before);
+  const afterGroups = group(after);
+  const labelOf = (nodeId: string) => labels.get(nodeId) || nodeId;
+  const diffs: EdgeDiff[] = [];
+
+  Array.from(new Set([...beforeGroups.keys(), ...afterGroups.keys()])).forEach(key => {
+    const was = beforeGroups.get(key) || [];
+    const now = afterGroups.get(key) || [];
+    const { source, sourceHandle } = (was[0] || now[0]);
+    // Edges of an added or removed node follow from the node change
+    if (newOrGoneNodes.has(source)) return;
+
+    const removed = was.filter(edge => !now.some(e => e.target === edge.target));
+    const added = now.filter(edge => !was.some(e => e.target === edge.target));
+    const from = `${labelOf(source)}${sourceHandle ? ` (${sourceHandle})` : ''}`;
+    const base = { source, source_handle: sourceHandle || null };
+
+    while (removed.length > 0 && added.length > 0) {
+      const old = removed.shift()!;
+      const next = added.shift()!;
+      diffs.push({
+        ...base,
+        status: 'rewired',
+        before_target: old.target,
+        after_target: next.target,
+        before_edge_id: old.id,
+        after_edge_id: next.id,
+        summary: `${from}: ${labelOf(old.target)} → ${labelOf(next.target)}`,
+      });
+    }
+    removed.forEach(edge => diffs.push({
+      ...base,
+      status: 'removed',
+      before_target: edge.target,
+      after_target: null,
+      before_edge_id: edge.id,
+      after_edge_id: null,
+      summary: `Disconnected ${from} → ${labelOf(edge.target)}`,
+    }));
+    added.forEach(edge => diffs.push({
+      ...base,
+      status: 'added',
+      before_target: null,
+      after_target: edge.target,
+      before_edge_id: null,
+      after_edge_id: edge.id,
+      summary: `Connected ${from} → ${labelOf(edge.target)}`,
+    }));
+  });
+
+  return diffs;
+};
+
+/**
+ * Parameter changes by name
+ */
+export const diffParameters = (before: PolicyParameter[], after: PolicyParameter[]): DiffChange[] => {
+  const changes: DiffChange[] = [];
+  const afterByName = new Map(after.map(param => [param.name, param]));
+  const beforeNames = new Set(before.map(param => param.name));
+
+  before.forEach(param => {
+    const next = afterByName.get(param.name);
+    if (!next) {
+      changes.push({ field: param.name, status: 'removed', before: param.value, summary: `Removed ${param.name} (was ${formatValue(param.value)})` });
+    } else if (!sameValue(param.value, next.value) || param.type !== next.type) {
+      changes.push({
+        field: param.name,
+        status: 'changed',
+        before: param.value,
+        after: next.value,
+        summary: `${param.name}: ${formatValue(param.value)} → ${formatValue(next.value)}`
+          + (param.type !== next.type ? ` (${param.type} → ${next.type})` : ''),
+      });
+    }
+  });
+  after.forEach(param => {
+    if (!beforeNames.has(param.name)) {
+      changes.push({ field: param.name, status: 'added', after: param.value, summary: `Added ${param.name} = ${formatValue(param.value)}` });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Diff two workflows, and the parameter lists in effect for each
+ */
+export const diffWorkflows = (
+  before: Workflow & { input_schema?: any },
+  after: Workflow & { input_schema?: any },
+  parameters: { before: PolicyParameter[]; after: PolicyParameter[] } = { before: [], after: [] }
+): PolicyDiff => {
+  const beforeNodes = new Map((before?.nodes || []).map(node => [node.id, node]));
+  const afterNodes = new Map((after?.nodes || []).map(node => [node.id, node]));
+  const nodes: NodeDiff[] = [];
+
+  beforeNodes.forEach((node, id) => {
+    const next = afterNodes.get(id);
+    if (!next) {
+      nodes.push({ node_id: id, type: node.type, label: nodeLabel(node), status: 'removed', changes: [] });
+      return;
+    }
+    const changes = next.type === node.type
+      ? diffNodeData(node.data, next.data)
+      : [{ field: 'type', status: 'changed' as DiffStatus, before: node.type, after: next.type, summary: `type: ${node.type} → ${next.type}` }];
+    if (changes.length > 0) {
+      nodes.push({ node_id: id, type: next.type, label: nodeLabel(next), status: 'changed', changes });
+    }
+  });
+  afterNodes.forEach((node, id) => {
+    if (!beforeNodes.has(id)) {
+      nodes.push({ node_id: id, type: node.type, label: nodeLabel(node), status: 'added', changes: [] });
+    }
+  });
+
+  const labels = new Map<string, string>();
+  beforeNodes.forEach((node, id) => labels.set(id, nodeLabel(node)));
+  afterNodes.forEach((node, id) => labels.set(id, nodeLabel(node)));
+  const newOrGone = new Set(nodes.filter(node => node.status !== 'changed').map(node => node.node_id));
+  const edges = diffEdges(before?.edges || [], after?.edges || [], labels, newOrGone);
+
+  const settings: DiffChange[] = [];
+  diffValue('settings', before?.settings || {}, after?.settings || {}, settings);
+  diffValue('input_schema', before?.input_schema, after?.input_schema, settings);
+
+  const parameterChanges = diffParameters(parameters.before, parameters.after);
+
+  return {
+    nodes,
+    edges,
+    settings,
+    parameters: parameterChanges,
+    summary: {
+      nodes_added: nodes.filter(node => node.status === 'added').length,
+      nodes_removed: nodes.filter(node => node.status === 'removed').length,
+      nodes_changed: nodes.filter(node => node.status === 'changed').length,
+      edges_changed: edges.length,
+      settings_changed: settings.length,
+      parameters_changed: parameterChanges.length,
+    },
+  };
+};
@@ -0,0 +1,342 @@
+import { ExpressionError, ExpressionNode, EvaluateOptions, evaluateExpression, registerExpressionFunction } from './expression';
+import { Workflow } from './workflow-executor';
+
+/**
+ * Reference tables
+ *
+ * Uploaded spreadsheets (pincode risk tiers, employer categories, negative
+ * areas) kept as numbered versions and held in memory as an index on their
+ * key column. A workflow reads them through lookup nodes or `LOOKUP()`:
+ *
+ *   data.config = {
+ *     table: 'pincode_tiers',
+ *     version?: 3,                  // pinned version; the current one when absent
+ *     key: 'applicant.pincode',     // expression giving the key
+ *     column?: 'tier',              // one column instead of the whole row
+ *     output_variable: 'pincode_tier',
+ *     default_value?: 'UNKNOWN',    // when no row matches (null otherwise)
+ *   }
+ *
+ *   LOOKUP('pincode_tiers', applicant.pincode, 'tier')
+ *   LOOKUP('negative_areas', applicant.pincode) != null
+ *
+ * Keys match case-insensitively and ignore surrounding spaces; 400001 and
+ * '400001' are the same key. Tables are loaded before the workflow runs,
+ * so LOOKUP() needs the table name as a quoted string.
+ */
+
+export type ReferenceColumnType = 'string' | 'number' | 'boolean';
+
+export interface ReferenceColumn {
+  name: string;
+  type: ReferenceColumnType;
+}
+
+export interface ReferenceTableSchema {
+  key_column: string;
+  columns: ReferenceColumn[];
+}
+
+export interface ReferenceTableIndex extends ReferenceTableSchema {
+  name: string;
+  version: number;
+  rows: Map<string, Record<string, any>>; // by normalized key
+}
+
+// Loaded tables of one execution, by referenceTableKey()
+export type ReferenceTableSet = Record<string, ReferenceTableIndex>;
+
+export interface ReferenceTableRef {
+  name: string;
+  version?: number; // pinned by a lookup node
+}
+
+// Recorded on execution results: which version of each table a run read
+export interface ReferenceTableUsage {
+  name: string;
+  version: number;
+}
+
+export interface LookupConfig {
+  table: string;
+  version?: number;
+  key: string;
+  column?: string;
+  output_variable: string;
+  default_value?: any;
+}
+
+export const REFERENCE_COLUMN_TYPES: ReferenceColumnType[] = ['string', 'number', 'boolean'];
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const TRUE_TEXT = ['true', 'yes', 'y', '1'];
+const FALSE_TEXT = ['false', 'no', 'n', '0'];
+const MAX_REPORTED_ERRORS = 20;
+
+export const isValidReferenceName = (name: any): boolean => typeof name === 'string' && NAME_PATTERN.test(name);
+
+export const referenceTableKey = (name: string, version?: number): string =>
+  version ? `${name}@${version}` : name;
+
+export const normalizeReferenceKey = (value: any): string | null => {
+  if (value === null || value === undefined) return null;
+  const text = typeof value === 'number' ? String(value) : String(value).trim().toLowerCase();
+  return text === '' ? null : text;
+};
+
+const isBlank = (value: any) => value === null || value === undefined || String(value).trim() === '';
+
+const isNumeric = (value: any) =>
+  typeof value === 'number' ? Number.isFinite(value) : /^\s*-?\d+(\.\d+)?\s*$/.test(String(value));
+
+const isBooleanText = (value: any) =>
+  typeof value === 'boolean' || [...TRUE_TEXT, ...FALSE_TEXT].includes(String(value).trim().toLowerCase());
+
+/**
+ * Column types guessed from the data, for uploads without a schema. The key
+ * column is kept as text so codes with leading zeros survive.
+ */
+export const inferReferenceColumns = (rows: Record<string, any>[], names: string[], keyColumn?: string): ReferenceColumn[] =>
+  names.map(name => {
+    const values = rows.map(row => row[name]).filter(value => !isBlank(value));
+    let type: ReferenceColumnType = 'string';
+    if (name !== keyColumn && values.length > 0) {
+      if (values.every(isNumeric)) type = 'number';
+      else if (values.every(isBooleanText)) type = 'boolean';
+    }
+    return { name, type };
+  });
+
+/**
+ * Check a schema; returns every problem found
+ */
+export const validateReferenceSchema = (schema: ReferenceTableSchema): string[] => {
+  const errors: string[] = [];
+  const columns = Array.isArray(schema?.columns) ? schema.columns : [];
+  if (columns.length === 0) {
+    errors.push('A reference table needs at least one column');
+  }
+
+  const seen = new Set<string>();
+  columns.forEach(column => {
+    if (!isValidReferenceName(column?.name)) {
+      errors.push(`Column "${column?.name}": names must start with a letter or underscore and contain only letters, digits and underscores`);
+    } else if (seen.has(column.name)) {
+      errors.push(`Column "${column.name}" appears more than once`);
+    }
+    seen.add(column?.name);
+    if (!REFERENCE_COLUMN_TYPES.includes(column?.type)) {
+      errors.push(`Column "${column?.name}": type must be one of ${REFERENCE_COLUMN_TYPES.join(', ')}`);
+    }
+  });
+
+  if (!schema?.key_column) {
+    errors.push('A key column is required');
+  } else if (!seen.has(schema.key_column)) {
+    errors.push(`Key column "${schema.key_column}" is not one of the columns`);
+  }
+  return errors;
+};
+
+const coerceCell = (value: any, type: ReferenceColumnType): { value: any; ok: boolean } => {
+  if (isBlank(value)) return { value: null, ok: true };
+  switch (type) {
+    case 'number':
+      return isNumeric(value) ? { value: Number(value), ok: true } : { value, ok: false };
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value, ok: true };
+      const text = String(value).trim().toLowerCase();
+      if (TRUE_TEXT.includes(text)) return { value: true, ok: true };
+      if (FALSE_TEXT.includes(text)) return { value: false, ok: true };
+      return { value, ok: false };
+    }
+    default:
+      return { value: String(value).trim(), ok: true };
+  }
+};
+
+/**
+ * Convert uploaded rows to the schema's types. Keys must be present and
+ * unique; row numbers in errors count the header as row 1.
+ */
+export const coerceReferenceRows = (
+  rawRows: Record<string, any>[],
+  schema: ReferenceTableSchema
+): { rows: Record<string, any>[]; errors: string[] } => {
+  const errors: string[] = [];
+  const keys = new Map<string, number>();
+
+  const rows = rawRows.map((raw, index) => {
+    const rowNumber = index + 2;
+    const row: Record<string, any> = {};
+    schema.columns.forEach(column => {
+      const cell = coerceCell(raw[column.name], column.type);
+      if (!cell.ok) {
+        errors.push(`Row ${rowNumber}: ${column.name} "${raw[column.name]}" is not a ${column.type}`);
+      }
+      row[column.name] = cell.value;
+    });
+
+    const key = normalizeReferenceKey(row[schema.key_column]);
+    if (key === null) {
+      errors.push(`Row ${rowNumber}: key column ${schema.key_column} is empty`);
+    } else if (keys.has(key)) {
+      errors.push(`Row ${rowNumber}: key "${row[schema.key_column]}" repeats row ${keys.get(key)}`);
+    } else {
+      keys.set(key, rowNumber);
+    }
+    return row;
+  });
+
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    const more = errors.length - MAX_REPORTED_ERRORS;
+    return { rows, errors: [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${more} more`] };
+  }
+  return { rows, errors };
+};
+
+export const buildReferenceIndex = (
+  name: string,
+  version: number,
+  schema: ReferenceTableSchema,
+  rows: Record<string, any>[]
+): ReferenceTableIndex => {
+  const index = new Map<string, Record<string, any>>();
+  rows.forEach(row => {
+    const key = normalizeReferenceKey(row[schema.key_column]);
+    if (key !== null) index.set(key, row);
+  });
+  return { name, version, key_column: schema.key_column, columns: schema.columns, rows: index };
+};
+
+export const describeReferenceTables = (tables: ReferenceTableSet): ReferenceTableUsage[] =>
+  Object.values(tables || {}).map(table => ({ name: table.name, version: table.version }));
+
+/**
+ * Row for a key (a copy, so callers can keep it in variables), or null
+ */
+export const lookupReferenceRow = (table: ReferenceTableIndex, key: any): Record<string, any> | null => {
+  const normalized = normalizeReferenceKey(key);
+  const row = normalized === null ? undefined : table.rows.get(normalized);
+  return row ? { ...row } : null;
+};
+
+const pickColumn = (table: ReferenceTableIndex, row: Record<string, any> | null, column?: string): any => {
+  if (!column) return row;
+  if (!table.columns.some(c => c.name === column)) {
+    throw new ExpressionError(`Reference table '${table.name}' has no column '${column}'`);
+  }
+  return row ? row[column] : null;
+};
+
+const getLoadedTable = (tables: ReferenceTableSet | undefined, name: string, version?: number): ReferenceTableIndex => {
+  const table = (tables || {})[referenceTableKey(name, version)];
+  if (!table) {
+    throw new ExpressionError(`Reference table '${name}' is not loaded`);
+  }
+  return table;
+};
+
+registerExpressionFunction('lookup', {
+  min_args: 2,
+  max_args: 3,
+  fn: ([name, key, column], scope) => {
+    const table = getLoadedTable(scope.reference_tables, String(name));
+    return pickColumn(table, lookupReferenceRow(table, key), column === undefined || column === null ? undefined : String(column));
+  },
+});
+
+/**
+ * Run a lookup node's configuration against the loaded tables
+ */
+export const evaluateLookup = (
+  config: LookupConfig,
+  variables: Record<string, any>,
+  options: EvaluateOptions = {}
+): { key: any; found: boolean; value: any; version: number } => {
+  const table = getLoadedTable(options.reference_tables, config.table, config.version);
+  const key = evaluateExpression(config.key, variables, options);
+  const row = lookupReferenceRow(table, key);
+  const value = pickColumn(table, row, config.column);
+
+  return {
+    key,
+    found: row !== null,
+    value: row === null && config.default_value !== undefined ? config.default_value : value,
+    version: table.version,
+  };
+};
+
+/**
+ * Table names LOOKUP() calls in an expression name; null marks a call whose
+ * table is not a quoted string
+ */
+export const getLookupCallTables = (ast: ExpressionNode): (string | null)[] => {
+  const found: (string | null)[] = [];
+  const visit = (node: ExpressionNode) => {
+    switch (node.type) {
+      case 'call':
+        if (node.callee === 'lookup') {
+          const first = node.args[0];
+          found.push(first?.type === 'literal' && typeof first.value === 'string' ? first.value : null);
+        }
+        node.args.forEach(visit);
+        break;
+      case 'member':
+        visit(node.object);
+        if (typeof node.property !== 'string') visit(node.property);
+        break;
+      case 'unary':
+        visit(node.argument);
+        break;
+      case 'binary':
+      case 'logical':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'conditional':
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+      case 'list':
+        node.elements.forEach(visit);
+        break;
+    }
+  };
+  visit(ast);
+  return found;
+};
+
+/**
+ * Tables (and pinned versions) a workflow reads, given its parsed expressions
+ */
+export const getReferenceTableRefs = (workflow: Workflow, expressions: ExpressionNode[]): ReferenceTableRef[] => {
+  const refs = new Map<string, ReferenceTableRef>();
+  const add = (name: any, version?: any) => {
+    if (!isValidReferenceName(name)) return;
+    const pinned = Number.isInteger(version) && version > 0 ? version : undefined;
+    refs.set(referenceTableKey(name, pinned), pinned ? { name, version: pinned } : { name });
+  };
+
+  (workflow.nodes || [])
+    .filter(node => node.type === 'lookup')
+    .forEach(node => add(node.data?.config?.table, node.data?.config?.version));
+  expressions.forEach(ast => getLookupCallTables(ast).forEach(name => add(name)));
+
+  return Array.from(refs.values());
+};
+
+/**
+ * Check a lookup node's configuration; returns every problem found
+ */
+export const validateLookupConfig = (config: Partial<LookupConfig> | undefined): string[] => {
+  const errors: string[] = [];
+  if (!config?.table) errors.push('a reference table is required');
+  if (!config?.key || !String(config.key).trim()) errors.push('a key expression is required');
+  if (!config?.output_variable) errors.push('an output variable is required');
+  if (config?.version !== undefined && config.version !== null && !(Number.isInteger(config.version) && config.version > 0)) {
+    errors.push('version must be a positive whole number');
+  }
+  return errors;
+};
@@ -0,0 +1,123 @@
+/**
+ * Strategy aggregation
+ *
+ * Combines the decisions of every strategy node that ran into the final
+ * workflow decision. The mode is configured per policy in
+ * `workflow.settings.strategy_aggregation`:
+ *
+ *   strict_veto     any rejection rejects, any manual review refers (default)
+ *   weighted        the decision with the largest total strategy weight wins;
+ *                   ties go to the more conservative decision
+ *   first_decisive  the first strategy (in execution order) that did not fall
+ *                   through to its default decision decides
+ *   n_of_m_reject   reject only when at least `reject_threshold` strategies
+ *                   reject; fewer rejections are outvoted
+ */
+
+export type StrategyDecision = 'approved' | 'rejected' | 'manual_review';
+
+export type StrategyAggregationMode = 'strict_veto' | 'weighted' | 'first_decisive' | 'n_of_m_reject';
+
+export interface StrategyAggregationSettings {
+  mode: StrategyAggregationMode;
+  reject_threshold?: number; // n_of_m_reject
+}
+
+export interface StrategyVote {
+  node_id: string;
+  label: string;
+  decision: StrategyDecision;
+  weight: number;
+  fell_through: boolean; // decided by the node's default decision
+}
+
+export interface StrategyAggregationResult {
+  decision: StrategyDecision;
+  deciding_node?: string;
+  weights?: Record<StrategyDecision, number>;
+}
+
+export const STRATEGY_AGGREGATION_MODES: StrategyAggregationMode[] = [
+  'strict_veto',
+  'weighted',
+  'first_decisive',
+  'n_of_m_reject',
+];
+
+// Most conservative first
+const SEVERITY: StrategyDecision[] = ['rejected', 'manual_review', 'approved'];
+
+const DECISION_ALIASES: Record<string, StrategyDecision> = {
+  approved: 'approved',
+  approve: 'approved',
+  rejected: 'rejected',
+  reject: 'rejected',
+  manual_review: 'manual_review',
+  'manual review': 'manual_review',
+  'manual check': 'manual_review',
+  manual_check: 'manual_review',
+};
+
+/**
+ * Map builder labels ("Approved", "Manual Check", "Reject") to engine decisions
+ */
+export const normalizeStrategyDecision = (value: any): StrategyDecision | null => {
+  if (typeof value !== 'string') return null;
+  return DECISION_ALIASES[value.trim().toLowerCase()] || null;
+};
+
+const strictVeto = (votes: StrategyVote[]): StrategyDecision => {
+  if (votes.some(v => v.decision === 'rejected')) return 'rejected';
+  if (votes.some(v => v.decision === 'manual_review')) return 'manual_review';
+  return 'approved';
+};
+
+export const aggregateStrategyVotes = (
+  votes: StrategyVote[],
+  settings: StrategyAggregationSettings
+): StrategyAggregationResult => {
+  switch (settings.mode) {
+    case 'weighted': {
+      const weights: Record<StrategyDecision, number> = { approved: 0, rejected: 0, manual_review: 0 };
+      votes.forEach(v => {
+        weights[v.decision] += v.weight;
+      });
+      const decision = SEVERITY.reduce((best, candidate) =>
+        weights[candidate] > weights[best] ? candidate : best
+      );
+      return { decision, weights };
+    }
+
+    case 'first_decisive': {
+      const decisive = votes.find(v => !v.fell_through);
+      if (decisive) {
+        return { decision: decisive.decision, deciding_node: decisive.node_id };
+      }
+      // Every strategy fell through: the last default decision stands
+      const last = votes[votes.length - 1];
+      return { decision: last.decision, deciding_node: last.node_id };
+    }
+
+    case 'n_of_m_reject': {
+      const threshold = settings.reject_threshold || 1;
+      const rejections = votes.filter(v => v.decision === 'rejected').length;
+      if (rejections >= threshold) return { decision: 'rejected' };
+      if (votes.some(v => v.decision === 'manual_review')) return { decision: 'manual_review' };
+      return { decision: 'approved' };
+    }
+
+    default:
+      return { decision: strictVeto(votes) };
+  }
+};
+
+/**
+ * Read the aggregation settings from a workflow, defaulting to strict veto
+ */
+export const getStrategyAggregationSettings = (workflow: any): StrategyAggregationSettings => {
+  const settings = workflow?.settings?.strategy_aggregation;
+  if (!settings || !STRATEGY_AGGREGATION_MODES.includes(settings.mode)) {
+    return { mode: 'strict_veto' };
+  }
+  return settings;
+};
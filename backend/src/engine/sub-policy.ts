@@ -0,0 +1,88 @@
+/**
+ * Sub-policy calls
+ *
+ * A `subPolicy` node runs a published version of another policy (typically
+ * a library-only fragment such as a KYC or bureau hygiene block) in its own
+ * variable scope:
+ *
+ *   data.config = {
+ *     policy_id: '<uuid>',
+ *     version: '3.0' | 'latest',      // pinned version, or follow every publish
+ *     input_mapping:  { <child variable>: '<expression over parent variables>' },
+ *     output_mapping: { <parent variable>: '<child variable or dotted path>' },
+ *     result_variable?: 'kyc',        // receives { decision, reason } of the call
+ *     count_decision?: true,          // the child's decision votes in the parent
+ *   }
+ */
+
+import { EvaluateOptions, evaluateExpression } from './expression';
+
+export interface SubPolicyConfig {
+  policy_id: string;
+  version: string;
+  input_mapping?: Record<string, string>;
+  output_mapping?: Record<string, string>;
+  result_variable?: string;
+  count_decision?: boolean;
+}
+
+export interface SubPolicyReference {
+  node_id: string;
+  label: string;
+  policy_id: string;
+  version: string;
+}
+
+// Calls may nest (a fragment calling a fragment) up to this depth
+export const SUB_POLICY_MAX_DEPTH = 5;
+
+export const LATEST_VERSION = 'latest';
+
+/**
+ * Sub-policy nodes of a workflow with the policy and version they call
+ */
+export const getSubPolicyReferences = (workflow: any): SubPolicyReference[] =>
+  (workflow?.nodes || [])
+    .filter((node: any) => node.type === 'subPolicy')
+    .map((node: any) => ({
+      node_id: node.id,
+      label: node.data?.label || node.id,
+      policy_id: node.data?.config?.policy_id,
+      version: node.data?.config?.version,
+    }));
+
+/**
+ * Build the child's input variables from the parent's
+ */
+export const mapSubPolicyInputs = (
+  mapping: Record<string, string> = {},
+  variables: Record<string, any>,
+  options: EvaluateOptions = {}
+): Record<string, any> => {
+  const inputs: Record<string, any> = {};
+  Object.entries(mapping).forEach(([childVariable, source]) => {
+    try {
+      inputs[childVariable] = evaluateExpression(String(source), variables, options);
+    } catch (error) {
+      throw new Error(`Input mapping for "${childVariable}": ${error.message}`);
+    }
+  });
+  return inputs;
+};
+
+/**
+ * Read the mapped outputs from the child's variables. Sources are flat
+ * variable names or dotted paths into nested values.
+ */
+export const mapSubPolicyOutputs = (
+  mapping: Record<string, string> = {},
+  childVariables: Record<string, any>
+): Record<string, any> => {
+  const outputs: Record<string, any> = {};
+  Object.entries(mapping).forEach(([parentVariable, source]) => {
+    outputs[parentVariable] = source in childVariables
+      ? childVariables[source]
+      : source.split('.').reduce((current: any, key) => current?.[key], childVariables);
+  });
+  return outputs;
+};
@@ -0,0 +1,124 @@
+import {
+  EvaluateOptions,
+  evaluateBoolean,
+  evaluateExpression,
+  parseExpression,
+  valuesEqual,
+} from './expression';
+
+/**
+ * Switch nodes
+ *
+ * Multi-way branch on a categorical value. Cases are tried in order and the
+ * first match picks the outgoing edge whose `sourceHandle` is the case id;
+ * when nothing matches the edge on the `default` handle is taken.
+ *
+ *   data.config = {
+ *     expression: 'employment_type',          // subject for value-list cases
+ *     cases: [
+ *       { id: 'salaried', label: 'Salaried', values: ['SALARIED'] },
+ *       { id: 'self', label: 'Self-employed', values: ['SELF_EMPLOYED', 'BUSINESS'] },
+ *       { id: 'high', label: 'High income', expression: 'income > 100000' },
+ *     ],
+ *   }
+ */
+
+export interface SwitchCase {
+  id: string; // output handle
+  label?: string;
+  values?: any[]; // matches when the subject equals any of these
+  expression?: string; // boolean expression; used instead of values
+}
+
+export interface SwitchConfig {
+  expression?: string;
+  cases: SwitchCase[];
+}
+
+export interface SwitchResult {
+  handle: string;
+  matched_case: string | null; // case label, null when the default was taken
+  subject?: any;
+}
+
+export const SWITCH_DEFAULT_HANDLE = 'default';
+
+const caseLabel = (switchCase: SwitchCase, index: number): string =>
+  switchCase.label || switchCase.id || `case ${index + 1}`;
+
+/**
+ * Pick the first matching case, or the default handle
+ */
+export const evaluateSwitch = (
+  config: SwitchConfig,
+  variables: Record<string, any>,
+  options: EvaluateOptions = {}
+): SwitchResult => {
+  const subject = config.expression ? evaluateExpression(config.expression, variables, options) : undefined;
+
+  const index = (config.cases || []).findIndex(switchCase => {
+    if (switchCase.expression) {
+      return evaluateBoolean(switchCase.expression, variables, options);
+    }
+    return (switchCase.values || []).some(value => valuesEqual(subject, value));
+  });
+
+  if (index === -1) {
+    return { handle: SWITCH_DEFAULT_HANDLE, matched_case: null, subject };
+  }
+
+  const matched = config.cases[index];
+  return { handle: matched.id, matched_case: caseLabel(matched, index), subject };
+};
+
+/**
+ * Check a switch configuration; returns one message per problem
+ */
+export const validateSwitchConfig = (config: SwitchConfig): string[] => {
+  if (!config) {
+    return ['Switch is not configured'];
+  }
+
+  const errors: string[] = [];
+  const cases = config.cases || [];
+  const seen = new Set<string>();
+
+  if (cases.length === 0) {
+    errors.push('Switch needs at least one case');
+  }
+
+  if (config.expression) {
+    try {
+      parseExpression(config.expression);
+    } catch (expressionError) {
+      errors.push(`Switch expression: ${expressionError.message}`);
+    }
+  }
+
+  cases.forEach((switchCase, index) => {
+    const label = caseLabel(switchCase, index);
+
+    if (!switchCase.id) {
+      errors.push(`Case ${index + 1} has no id`);
+    } else if (switchCase.id === SWITCH_DEFAULT_HANDLE) {
+      errors.push(`Case "${label}" cannot use the reserved id "${SWITCH_DEFAULT_HANDLE}"`);
+    } else if (seen.has(switchCase.id)) {
+      errors.push(`Case id "${switchCase.id}" is used more than once`);
+    }
+    seen.add(switchCase.id);
+
+    if (switchCase.expression) {
+      try {
+        parseExpression(switchCase.expression);
+      } catch (expressionError) {
+        errors.push(`Case "${label}": ${expressionError.message}`);
+      }
+    } else if ((switchCase.values || []).length === 0) {
+      errors.push(`Case "${label}" needs a list of values or an expression`);
+    } else if (!config.expression) {
+      errors.push(`Case "${label}" matches values but the switch has no expression to compare`);
+    }
+  });
+
+  return errors;
+};
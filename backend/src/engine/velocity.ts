@@ -0,0 +1,195 @@
+import { ExecutionTraceEntry } from './workflow-executor';
+
+/**
+ * Velocity and duplicate-application checks
+ *
+ * Every underwriting request records the applicant's identifiers (PAN,
+ * mobile, email, device, bank account) in an indexed store. A velocity node
+ * counts earlier applications that share an identifier within a window:
+ *
+ *   data.config = {
+ *     checks: [
+ *       // more than 3 applications with this PAN in 7 days
+ *       { label: 'PAN velocity', identifier: 'pan', window: 7, window_unit: 'days', max_count: 3 },
+ *       // the same bank account used by more than one PAN in 90 days
+ *       { identifier: 'bank_account', value: 'bank.account_no', distinct_by: 'pan',
+ *         window: 90, window_unit: 'days', max_count: 1 },
+ *     ],
+ *     output_variable: 'velocity',  // { hit, hits, matched_application_ids, checks }
+ *   }
+ *
+ * Counts include the application being decided, so max_count is the most
+ * applications (or distinct applicants, with distinct_by) allowed. A check's
+ * value defaults to the identifier's standard applicant field. Windows end
+ * at the evaluation date, so replays only see what was known then.
+ */
+
+export type IdentifierType = 'pan' | 'mobile' | 'email' | 'device_id' | 'bank_account';
+export type VelocityWindowUnit = 'hours' | 'days';
+
+export interface VelocityCheck {
+  label?: string;
+  identifier: IdentifierType;
+  value?: string; // expression; the identifier's standard field when absent
+  window: number;
+  window_unit: VelocityWindowUnit;
+  max_count: number;
+  distinct_by?: IdentifierType; // count distinct applicants by this identifier instead of applications
+}
+
+export interface VelocityConfig {
+  checks: VelocityCheck[];
+  output_variable: string;
+}
+
+export interface ApplicationIdentifier {
+  type: IdentifierType;
+  value: string; // normalized
+}
+
+export interface VelocityCheckResult {
+  label: string;
+  identifier: IdentifierType;
+  value: string | null; // normalized; null when the application has none
+  distinct_by?: IdentifierType;
+  window: string; // e.g. '7 days'
+  count: number;
+  max_count: number;
+  hit: boolean;
+  matched_application_ids: string[]; // earlier applications sharing the value, newest first
+}
+
+export interface VelocityMatch extends VelocityCheckResult {
+  node_id: string;
+}
+
+export const IDENTIFIER_TYPES: IdentifierType[] = ['pan', 'mobile', 'email', 'device_id', 'bank_account'];
+export const VELOCITY_WINDOW_UNITS: VelocityWindowUnit[] = ['hours', 'days'];
+
+// Applicant fields each identifier is read from, first match wins
+export const IDENTIFIER_FIELDS: Record<IdentifierType, string[]> = {
+  pan: ['pan', 'pan_number'],
+  mobile: ['mobile', 'mobile_number', 'phone'],
+  email: ['email'],
+  device_id: ['device_id'],
+  bank_account: ['bank_account_number', 'bank_account', 'account_number'],
+};
+
+const UNIT_MS: Record<VelocityWindowUnit, number> = {
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Canonical form of an identifier so formatting differences still match;
+ * null when nothing usable is left
+ */
+export const normalizeIdentifier = (type: IdentifierType, value: any): string | null => {
+  if (value === null || value === undefined || typeof value === 'object') return null;
+  const text = String(value).trim();
+  let normalized: string;
+
+  switch (type) {
+    case 'pan':
+    case 'bank_account':
+      normalized = text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+      break;
+    case 'mobile': {
+      // '+91 98200-12345' and '9820012345' are the same number
+      const digits = text.replace(/\D/g, '');
+      normalized = digits.length > 10 ? digits.slice(-10) : digits;
+      break;
+    }
+    case 'email':
+      normalized = text.toLowerCase();
+      break;
+    default:
+      normalized = text;
+  }
+
+  return normalized || null;
+};
+
+/**
+ * Identifiers found on an applicant's standard fields; the request metadata
+ * is read too, where LOS integrations usually send the device id
+ */
+export const extractIdentifiers = (
+  applicant: Record<string, any>,
+  metadata: Record<string, any> = {}
+): ApplicationIdentifier[] => {
+  const identifiers: ApplicationIdentifier[] = [];
+
+  IDENTIFIER_TYPES.forEach(type => {
+    for (const source of [applicant || {}, metadata || {}]) {
+      const field = IDENTIFIER_FIELDS[type].find(name => normalizeIdentifier(type, source[name]) !== null);
+      if (field) {
+        identifiers.push({ type, value: normalizeIdentifier(type, source[field])! });
+        return;
+      }
+    }
+  });
+
+  return identifiers;
+};
+
+export const describeVelocityWindow = (check: VelocityCheck): string =>
+  `${check.window} ${check.window === 1 ? check.window_unit.replace(/s$/, '') : check.window_unit}`;
+
+/**
+ * First instant a check's window covers, counting back from the evaluation date
+ */
+export const getVelocityWindowStart = (check: VelocityCheck, asOf: Date): Date =>
+  new Date(asOf.getTime() - check.window * UNIT_MS[check.window_unit]);
+
+/**
+ * Check a velocity node's configuration; returns every problem found
+ */
+export const validateVelocityConfig = (config: Partial<VelocityConfig> | undefined): string[] => {
+  const errors: string[] = [];
+  if (!config?.output_variable) errors.push('an output variable is required');
+  if (!Array.isArray(config?.checks) || config.checks.length === 0) {
+    errors.push('at least one check is required');
+    return errors;
+  }
+
+  config.checks.forEach((check, index) => {
+    const name = check?.label || `check ${index + 1}`;
+    if (!IDENTIFIER_TYPES.includes(check?.identifier)) {
+      errors.push(`${name}: identifier must be one of ${IDENTIFIER_TYPES.join(', ')}`);
+    }
+    if (check?.distinct_by !== undefined && !IDENTIFIER_TYPES.includes(check.distinct_by)) {
+      errors.push(`${name}: distinct_by must be one of ${IDENTIFIER_TYPES.join(', ')}`);
+    }
+    if (check?.distinct_by && check.distinct_by === check.identifier) {
+      errors.push(`${name}: distinct_by must differ from the identifier`);
+    }
+    if (!(typeof check?.window === 'number' && check.window > 0)) {
+      errors.push(`${name}: window must be a positive number`);
+    }
+    if (!VELOCITY_WINDOW_UNITS.includes(check?.window_unit)) {
+      errors.push(`${name}: window unit must be hours or days`);
+    }
+    if (!(Number.isInteger(check?.max_count) && check.max_count >= 1)) {
+      errors.push(`${name}: max count must be a whole number of at least 1`);
+    }
+  });
+  return errors;
+};
+
+/**
+ * Velocity checks that hit in an execution trace, sub-policy traces included
+ */
+export const collectVelocityMatches = (trace: ExecutionTraceEntry[] = []): VelocityMatch[] => {
+  const matches: VelocityMatch[] = [];
+  const visit = (entries: ExecutionTraceEntry[]) => entries.forEach(entry => {
+    if (entry.node_type === 'velocity') {
+      (entry.output?.checks || [])
+        .filter((check: VelocityCheckResult) => check.hit)
+        .forEach((check: VelocityCheckResult) => matches.push({ node_id: entry.node_id, ...check }));
+    }
+    visit(entry.children || []);
+  });
+  visit(trace);
+  return matches;
+};
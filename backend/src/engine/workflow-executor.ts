@@ -1,7 +1,81 @@
 import { v4 as uuidv4 } from 'uuid';
 import logger from '../utils/logger';
-import { callConnector } from '../services/connector.service';
-import * as math from 'mathjs';
+import { callConnector, callExternalAPI, queryDatabaseConnector } from '../services/connector.service';
+import {
+  ExecutionPlan,
+  compileExecutionPlan,
+  evaluatePlanBoolean,
+  evaluatePlanExpression,
+} from './execution-plan';
+import { evaluateDecisionTable } from './decision-table';
+import { SWITCH_DEFAULT_HANDLE, SwitchConfig, evaluateSwitch } from './switch';
+import {
+  ConditionLeaf,
+  LeafOutcome,
+  buildConditionTree,
+  evaluateConditionTree,
+  flattenLeaves,
+  getDecidingGroup,
+  getDecidingLeaves,
+  isComputedCondition,
+} from './condition-tree';
+import {
+  StrategyAggregationSettings,
+  StrategyDecision,
+  StrategyVote,
+  aggregateStrategyVotes,
+  getStrategyAggregationSettings,
+  normalizeStrategyDecision,
+} from './strategy-aggregation';
+import {
+  EvaluateOptions,
+  TemplateError,
+  compareValues,
+  renderTemplate,
+  valuesEqual,
+} from './expression';
+import { DATE_CONDITION_OPERATORS, evaluateDateCondition } from './dates';
+import {
+  MissingDataFlag,
+  MissingDataSettings,
+  getMissingDataSettings,
+  isMissingValue,
+  resolveMissingData,
+} from './missing-data';
+import {
+  LATEST_VERSION,
+  SUB_POLICY_MAX_DEPTH,
+  SubPolicyConfig,
+  mapSubPolicyInputs,
+  mapSubPolicyOutputs,
+} from './sub-policy';
+import { applyInputSchema } from './input-schema';
+import { getPolicyVersion } from '../services/policy.service';
+import { getParameterValues } from '../services/parameter.service';
+import { PARAMETERS_VARIABLE, ParameterValues, resolveParameterReference } from './parameters';
+import { loadReferenceTables } from '../services/reference-table.service';
+import {
+  LookupConfig,
+  ReferenceTableSet,
+  ReferenceTableUsage,
+  describeReferenceTables,
+  evaluateLookup,
+} from './reference-tables';
+import { countVelocity } from '../services/velocity.service';
+import {
+  VelocityCheckResult,
+  VelocityConfig,
+  describeVelocityWindow,
+  extractIdentifiers,
+  normalizeIdentifier,
+} from './velocity';
+import { findNegativeListMatches } from '../services/negative-list.service';
+import {
+  NegativeListCheckConfig,
+  NegativeListHit,
+  getNegativeListOutcome,
+} from './negative-lists';
+import { config } from '../config/env';
 
 export interface WorkflowNode {
   id: string;
@@ -21,6 +95,12 @@ export interface WorkflowEdge {
 export interface Workflow {
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
+  settings?: WorkflowSettings;
+}
+
+export interface WorkflowSettings {
+  strategy_aggregation?: StrategyAggregationSettings;
+  missing_data?: MissingDataSettings;
 }
 
 export interface ExecutionContext {
@@ -33,6 +113,75 @@ export interface ExecutionContext {
   execution_trace: ExecutionTraceEntry[];
   start_time: number;
   current_node: string | null;
+  budget: ExecutionBudget; // shared by reference with parallel branches
+  missing_data_settings: MissingDataSettings;
+  missing_data: MissingDataFlag[]; // every condition/factor decided on missing data
+  call_stack: string[]; // policy ids from the root policy down to the running sub-policy
+  plan: ExecutionPlan; // lookups for the workflow being walked
+  before_node?: NodeHook;
+  as_of: Date; // evaluation date: today() in expressions and date conditions
+  parameters: ParameterValues; // the policy's parameter set, exposed as `params`
+  reference_tables: ReferenceTableSet; // tables the plan reads, loaded when the run starts
+  replay?: ReplayLookup; // backtests and shadow runs: connector nodes answer from stored responses and never call out
+  signal?: AbortSignal; // aborted when the join of the running parallel branch no longer waits for it
+}
+
+// Awaited before each node runs; the debugger pauses the run inside it
+export type NodeHook = (node: WorkflowNode, context: ExecutionContext) => Promise<void>;
+
+// A data source, API call or database query a replayed run needs answered
+export interface ReplayCall {
+  node_id: string;
+  kind: 'connector' | 'api' | 'database';
+  connector_id?: string;
+  params?: any; // connector params, or positional query params
+  method?: string;
+  url?: string;
+  body?: any;
+  query?: string;
+}
+
+// Stored response for a call, or undefined when none was recorded
+export type ReplayLookup = (call: ReplayCall) => Promise<any>;
+
+/**
+ * Key of a call's response in connector_cache
+ */
+export const connectorCacheKey = (call: ReplayCall): string => {
+  switch (call.kind) {
+    case 'api':
+      return `api_${call.method}_${call.url}_${JSON.stringify(call.body)}`;
+    case 'database':
+      return `db_${call.connector_id}_${call.query}_${JSON.stringify(call.params)}`;
+    default:
+      return `${call.connector_id}_${JSON.stringify(call.params)}`;
+  }
+};
+
+/**
+ * Replay lookup answering from another run's connector_cache; calls that run
+ * did not make stay unanswered
+ */
+export const replayFromCache = (cache: Record<string, any>): ReplayLookup =>
+  async (call: ReplayCall) => cache[connectorCacheKey(call)];
+
+export interface ExecutionBudget {
+  node_visits: number;
+  max_node_visits: number;
+  deadline: number;
+  paused_since?: number | null; // set while the debugger holds a branch; the deadline clock stops meanwhile
+  on_resume?: Array<() => void>; // deadline timers that came due while paused
+}
+
+export interface ExecutionOptions {
+  max_node_visits?: number;
+  timeout_ms?: number;
+  plan?: ExecutionPlan; // precompiled plan of `workflow`; compiled on the fly when absent
+  before_node?: NodeHook;
+  as_of?: Date; // pins the evaluation date (tests, replays); defaults to the start time
+  parameters?: ParameterValues; // overrides the plan's set, e.g. to test a pending change
+  connector_cache?: Record<string, any>; // filled in place; lets a later run replay this run's responses
+  replay?: ReplayLookup;
 }
 
 export interface ExecutionTraceEntry {
@@ -43,6 +192,9 @@ export interface ExecutionTraceEntry {
   output: any;
   execution_time_ms: number;
   error?: string;
+  branch?: string; // set for nodes executed inside a parallel branch
+  missing_data?: MissingDataFlag[];
+  children?: ExecutionTraceEntry[]; // trace of the policy a subPolicy node called
 }
 
 export interface ExecutionResult {
@@ -55,8 +207,43 @@ export interface ExecutionResult {
   execution_trace: ExecutionTraceEntry[];
   total_execution_time_ms: number;
   variables: Record<string, any>;
+  evaluation_date: string;
+  parameter_version: number | null;
+  reference_tables: ReferenceTableUsage[];
+}
+
+/**
+ * Raised when an execution exceeds its node-visit or wall-clock budget
+ */
+export class ExecutionBudgetError extends Error {
+  constructor(
+    message: string,
+    public guard: 'max_node_visits' | 'timeout',
+    public details: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'ExecutionBudgetError';
+  }
 }
 
+/**
+ * Raised inside a parallel branch its join stopped waiting for
+ */
+class BranchAbandonedError extends Error {
+  constructor() {
+    super('Branch abandoned: its join was already decided');
+    this.name = 'BranchAbandonedError';
+  }
+}
+
+// Stops an abandoned branch; called before each node and before a node
+// writes a connector response, so late results never reach the context
+const throwIfAbandoned = (context: ExecutionContext): void => {
+  if (context.signal?.aborted) {
+    throw new BranchAbandonedError();
+  }
+};
+
 /**
  * Main workflow executor
  */
@@ -64,9 +251,14 @@ export const executeWorkflow = async (
   workflow: Workflow,
   inputData: Record<string, any>,
   policyId: string,
-  applicationId: string
+  applicationId: string,
+  options: ExecutionOptions = {}
 ): Promise<ExecutionResult> => {
   const underwritingId = uuidv4();
+  const startTime = Date.now();
+
+  const plan = options.plan || compileExecutionPlan(workflow, { policy_id: policyId });
+  const parameters = options.parameters || plan.parameters;
 
   // Initialize execution context
   const context: ExecutionContext = {
@@ -74,117 +266,146 @@ export const executeWorkflow = async (
     underwriting_id: underwritingId,
     policy_id: policyId,
     input_data: inputData,
-    variables: { ...inputData }, // Start with input data as variables
-    connector_cache: {},
+    // Start with input data as variables; parameters cannot be overridden by it
+    variables: { ...inputData, [PARAMETERS_VARIABLE]: { ...parameters.values } },
+    connector_cache: options.connector_cache || {},
     execution_trace: [],
-    start_time: Date.now(),
+    start_time: startTime,
     current_node: null,
+    budget: {
+      node_visits: 0,
+      max_node_visits: options.max_node_visits || config.WORKFLOW_MAX_NODE_VISITS,
+      deadline: startTime + (options.timeout_ms || config.WORKFLOW_TIMEOUT_MS),
+    },
+    missing_data_settings: getMissingDataSettings(workflow),
+    missing_data: [],
+    call_stack: [policyId],
+    plan,
+    before_node: options.before_node,
+    as_of: options.as_of || new Date(startTime),
+    parameters,
+    reference_tables: {},
+    replay: options.replay,
   };
 
   try {
+    context.reference_tables = await loadReferenceTables(plan.reference_tables);
+
     // Find start node
-    let currentNode = findStartNode(workflow.nodes);
+    const startNode = context.plan.start_node;
 
-    if (!currentNode) {
+    if (!startNode) {
       throw new Error('No start node found in workflow');
     }
 
     // Track all strategy node decisions for voting
-    const allStrategyDecisions: Array<'approved' | 'rejected' | 'manual_review'> = [];
-    const allFailedConditions: string[] = [];
-    const allManualCheckReasons: string[] = [];
+    const tally = createStrategyTally();
 
     // Execute workflow
-    while (currentNode) {
-      context.current_node = currentNode.id;
-
-      // Execute node
-      const nodeResult = await executeNode(currentNode, context, workflow);
+    const outcome = await walkPath(startNode, context, workflow, tally, false);
 
-      // If this is a strategy node, collect its decision
-      if (currentNode.type === 'strategy') {
-        allStrategyDecisions.push(nodeResult.decision);
-        if (nodeResult.failedConditions && nodeResult.failedConditions.length > 0) {
-          allFailedConditions.push(...nodeResult.failedConditions);
-        }
-        if (nodeResult.manualCheckReasons && nodeResult.manualCheckReasons.length > 0) {
-          allManualCheckReasons.push(...nodeResult.manualCheckReasons);
-        }
-      }
-
-      // If this is a decision node, we're done
-      if (currentNode.type === 'decision') {
-        const totalTime = Date.now() - context.start_time;
-
-        return {
-          success: true,
-          application_id: applicationId,
-          underwriting_id: underwritingId,
-          decision: nodeResult.decision,
-          reason: nodeResult.reason,
-          details: nodeResult.details || {},
-          execution_trace: context.execution_trace,
-          total_execution_time_ms: totalTime,
-          variables: context.variables,
-        };
-      }
+    // If we reached a decision node, we're done
+    if (outcome.decisionResult) {
+      const nodeResult = outcome.decisionResult;
+      const totalTime = Date.now() - context.start_time;
+      const final = applyMissingDataReferral(nodeResult.decision, nodeResult.reason, context);
 
-      // Find next node
-      currentNode = findNextNode(currentNode, nodeResult, workflow);
+      return {
+        success: true,
+        application_id: applicationId,
+        underwriting_id: underwritingId,
+        decision: final.decision,
+        reason: final.reason,
+        details: withMissingData(nodeResult.details || {}, context),
+        execution_trace: context.execution_trace,
+        total_execution_time_ms: totalTime,
+        variables: context.variables,
+        evaluation_date: context.as_of.toISOString(),
+        parameter_version: context.parameters.version,
+        reference_tables: describeReferenceTables(context.reference_tables),
+      };
     }
 
-    // If we've executed strategy nodes, determine final decision based on voting
-    if (allStrategyDecisions.length > 0) {
+    // If we've executed strategy nodes, aggregate their decisions
+    if (tally.votes.length > 0) {
       const totalTime = Date.now() - context.start_time;
+      const settings = getStrategyAggregationSettings(workflow);
+      const aggregation = aggregateStrategyVotes(tally.votes, settings);
 
-      // Voting logic: Rejected > Manual Review > Approved
-      let finalDecision: 'approved' | 'rejected' | 'manual_review';
-      let finalReason: string;
-
-      const rejectedCount = allStrategyDecisions.filter(d => d === 'rejected').length;
-      const manualReviewCount = allStrategyDecisions.filter(d => d === 'manual_review').length;
-      const approvedCount = allStrategyDecisions.filter(d => d === 'approved').length;
-
-      if (rejectedCount > 0) {
-        finalDecision = 'rejected';
-        finalReason = `Application rejected. Failed conditions: ${allFailedConditions.join('; ')}`;
-      } else if (manualReviewCount > 0) {
-        finalDecision = 'manual_review';
-        finalReason = `Manual review required. ${allManualCheckReasons.join('; ')}`;
-      } else {
-        finalDecision = 'approved';
-        finalReason = `All ${approvedCount} strategy block(s) approved`;
-      }
+      const countOf = (decision: StrategyDecision) => tally.votes.filter(v => v.decision === decision).length;
+      const final = applyMissingDataReferral(
+        aggregation.decision,
+        describeStrategyOutcome(aggregation.decision, tally, settings, aggregation.deciding_node),
+        context
+      );
 
       return {
         success: true,
         application_id: applicationId,
         underwriting_id: underwritingId,
-        decision: finalDecision,
-        reason: finalReason,
-        details: {
+        decision: final.decision,
+        reason: final.reason,
+        details: withMissingData({
           strategyResults: {
-            total: allStrategyDecisions.length,
-            approved: approvedCount,
-            rejected: rejectedCount,
-            manualReview: manualReviewCount,
+            mode: settings.mode,
+            ...(settings.mode === 'n_of_m_reject' ? { reject_threshold: settings.reject_threshold || 1 } : {}),
+            ...(aggregation.weights ? { weights: aggregation.weights } : {}),
+            ...(aggregation.deciding_node ? { deciding_node: aggregation.deciding_node } : {}),
+            total: tally.votes.length,
+            approved: countOf('approved'),
+            rejected: countOf('rejected'),
+            manualReview: countOf('manual_review'),
+            votes: tally.votes,
           },
-          failedConditions: allFailedConditions,
-          manualCheckReasons: allManualCheckReasons,
-        },
+          failedConditions: tally.failedConditions,
+          manualCheckReasons: tally.manualCheckReasons,
+        }, context),
         execution_trace: context.execution_trace,
         total_execution_time_ms: totalTime,
         variables: context.variables,
+        evaluation_date: context.as_of.toISOString(),
+        parameter_version: context.parameters.version,
+        reference_tables: describeReferenceTables(context.reference_tables),
       };
     }
 
     throw new Error('Workflow ended without reaching a decision node or executing any strategy nodes');
 
   } catch (error) {
-    logger.error(`Workflow execution error: ${error.message}`);
-
     const totalTime = Date.now() - context.start_time;
 
+    if (error instanceof ExecutionBudgetError) {
+      logger.error(`Workflow execution guard tripped (${error.guard}): ${error.message}`);
+
+      const guardNode = context.plan.nodes_by_id.get(context.current_node || '');
+      context.execution_trace.push({
+        node_id: context.current_node || 'workflow',
+        node_type: guardNode?.type || 'workflow',
+        timestamp: new Date().toISOString(),
+        input: {},
+        output: { guard: error.guard, ...error.details },
+        execution_time_ms: 0,
+        error: `Execution guard tripped: ${error.message}`,
+      });
+
+      return {
+        success: false,
+        application_id: applicationId,
+        underwriting_id: underwritingId,
+        decision: 'manual_review',
+        reason: `Workflow stopped by execution guard: ${error.message}`,
+        details: { error: error.message, guard: error.guard, ...error.details },
+        execution_trace: context.execution_trace,
+        total_execution_time_ms: totalTime,
+        variables: context.variables,
+        evaluation_date: context.as_of.toISOString(),
+        parameter_version: context.parameters.version,
+        reference_tables: describeReferenceTables(context.reference_tables),
+      };
+    }
+
+    logger.error(`Workflow execution error: ${error.message}`);
+
     // Return error as manual review
     return {
       success: false,
@@ -196,15 +417,520 @@ export const executeWorkflow = async (
       execution_trace: context.execution_trace,
       total_execution_time_ms: totalTime,
       variables: context.variables,
+      evaluation_date: context.as_of.toISOString(),
+      parameter_version: context.parameters.version,
+      reference_tables: describeReferenceTables(context.reference_tables),
     };
   }
 };
 
+// What expressions evaluated for this run may read besides its variables
+const evaluateOptions = (context: ExecutionContext): EvaluateOptions => ({
+  as_of: context.as_of,
+  reference_tables: context.reference_tables,
+});
+
+interface StrategyTally {
+  votes: StrategyVote[];
+  failedConditions: string[];
+  manualCheckReasons: string[];
+}
+
+interface PathOutcome {
+  decisionResult?: any; // result of the decision node that ended the path
+  joinNode?: WorkflowNode; // join node reached by a parallel branch
+}
+
+interface BranchRun {
+  index: number;
+  label: string;
+  target: string;
+  context: ExecutionContext;
+  tally: StrategyTally;
+  status: 'running' | 'completed' | 'failed';
+  error?: string;
+  execution_time_ms?: number;
+}
+
+const createStrategyTally = (): StrategyTally => ({
+  votes: [],
+  failedConditions: [],
+  manualCheckReasons: [],
+});
+
 /**
- * Find start node in workflow
+ * Human-readable reason for an aggregated strategy decision
  */
-const findStartNode = (nodes: WorkflowNode[]): WorkflowNode | null => {
-  return nodes.find(node => node.type === 'start') || null;
+const describeStrategyOutcome = (
+  decision: StrategyDecision,
+  tally: StrategyTally,
+  settings: StrategyAggregationSettings,
+  decidingNode?: string
+): string => {
+  const deciding = tally.votes.find(v => v.node_id === decidingNode);
+  const suffix = deciding ? ` (decided by "${deciding.label}")` : '';
+
+  if (decision === 'rejected') {
+    const detail = tally.failedConditions.length > 0
+      ? `Failed conditions: ${tally.failedConditions.join('; ')}`
+      : 'Rejected by strategy default decision';
+    return `Application rejected. ${detail}${suffix}`;
+  }
+
+  if (decision === 'manual_review') {
+    const detail = tally.manualCheckReasons.length > 0
+      ? tally.manualCheckReasons.join('; ')
+      : tally.failedConditions.length > 0
+        ? `Failed conditions: ${tally.failedConditions.join('; ')}`
+        : 'Referred by strategy default decision';
+    return `Manual review required. ${detail}${suffix}`;
+  }
+
+  if (settings.mode === 'strict_veto') {
+    return `All ${tally.votes.length} strategy block(s) approved`;
+  }
+  const approvals = tally.votes.filter(v => v.decision === 'approved').length;
+  return `Approved by ${approvals} of ${tally.votes.length} strategy block(s)${suffix}`;
+};
+
+/**
+ * A missing-data rule that asked for manual review blocks auto-approval,
+ * whichever node type it fired in
+ */
+const applyMissingDataReferral = (
+  decision: StrategyDecision,
+  reason: string,
+  context: ExecutionContext
+): { decision: StrategyDecision; reason: string } => {
+  const referrals = context.missing_data.filter(f => f.action === 'manual_review');
+  if (decision !== 'approved' || referrals.length === 0) {
+    return { decision, reason };
+  }
+  const variables = Array.from(new Set(referrals.map(f => f.variable)));
+  return {
+    decision: 'manual_review',
+    reason: `Manual review required. Missing data: ${variables.join(', ')}`,
+  };
+};
+
+const withMissingData = (details: Record<string, any>, context: ExecutionContext): Record<string, any> =>
+  context.missing_data.length > 0 ? { ...details, missing_data: context.missing_data } : details;
+
+/**
+ * Walk the workflow from a node until a decision node, a join node
+ * (inside a parallel branch) or the end of the path
+ */
+const walkPath = async (
+  startNode: WorkflowNode,
+  context: ExecutionContext,
+  workflow: Workflow,
+  tally: StrategyTally,
+  inBranch: boolean
+): Promise<PathOutcome> => {
+  let currentNode: WorkflowNode | null = startNode;
+
+  while (currentNode) {
+    throwIfAbandoned(context);
+
+    if (currentNode.type === 'join') {
+      if (inBranch) {
+        return { joinNode: currentNode };
+      }
+      throw new Error(`Join node "${currentNode.data?.label || currentNode.id}" reached outside of a parallel branch`);
+    }
+
+    context.current_node = currentNode.id;
+    if (context.before_node) {
+      await context.before_node(currentNode, context);
+    }
+    consumeBudget(context);
+
+    if (currentNode.type === 'fork') {
+      const joinNode = await executeForkNode(currentNode, context, workflow, tally);
+      currentNode = findNextNode(joinNode, {}, context.plan);
+      continue;
+    }
+
+    // Execute node; a slow node cannot outlive the execution budget
+    const nodeResult = await raceDeadline(executeNode(currentNode, context, workflow), context);
+    throwIfAbandoned(context);
+
+    // If this is a strategy node, collect its decision
+    if (currentNode.type === 'strategy') {
+      tally.votes.push({
+        node_id: currentNode.id,
+        label: currentNode.data?.label || currentNode.id,
+        decision: nodeResult.decision,
+        weight: Number(currentNode.data?.weight) || 1,
+        fell_through: nodeResult.fell_through,
+      });
+      if (nodeResult.failedConditions && nodeResult.failedConditions.length > 0) {
+        tally.failedConditions.push(...nodeResult.failedConditions);
+      }
+      if (nodeResult.manualCheckReasons && nodeResult.manualCheckReasons.length > 0) {
+        tally.manualCheckReasons.push(...nodeResult.manualCheckReasons);
+      }
+    }
+
+    // A sub-policy's decision votes like a strategy node unless it only computes variables
+    if (currentNode.type === 'subPolicy' && nodeResult.decision && currentNode.data?.config?.count_decision !== false) {
+      tally.votes.push({
+        node_id: currentNode.id,
+        label: currentNode.data?.label || currentNode.id,
+        decision: nodeResult.decision,
+        weight: Number(currentNode.data?.weight) || 1,
+        fell_through: false,
+      });
+      const prefix = `${currentNode.data?.label || currentNode.id}: `;
+      tally.failedConditions.push(...nodeResult.failedConditions.map((c: string) => prefix + c));
+      tally.manualCheckReasons.push(...nodeResult.manualCheckReasons.map((r: string) => prefix + r));
+    }
+
+    // If this is a decision node, the path is done
+    if (currentNode.type === 'decision') {
+      if (inBranch) {
+        throw new Error(`Decision node "${currentNode.data?.label || currentNode.id}" cannot be inside a parallel branch`);
+      }
+      return { decisionResult: nodeResult };
+    }
+
+    // Find next node
+    currentNode = findNextNode(currentNode, nodeResult, context.plan);
+  }
+
+  if (inBranch) {
+    throw new Error('Parallel branch ended without reaching a join node');
+  }
+
+  return {};
+};
+
+/**
+ * Count a node visit and enforce the per-execution budget
+ */
+const consumeBudget = (context: ExecutionContext): void => {
+  const budget = context.budget;
+  budget.node_visits++;
+
+  if (budget.node_visits > budget.max_node_visits) {
+    throw new ExecutionBudgetError(
+      `exceeded ${budget.max_node_visits} node visits (possible loop at node ${context.current_node})`,
+      'max_node_visits',
+      { limit: budget.max_node_visits, node_visits: budget.node_visits }
+    );
+  }
+
+  throwIfPastDeadline(context);
+};
+
+const deadlineError = (context: ExecutionContext): ExecutionBudgetError => {
+  const limit = context.budget.deadline - context.start_time;
+  return new ExecutionBudgetError(
+    `exceeded wall-clock limit of ${limit}ms`,
+    'timeout',
+    { limit_ms: limit, elapsed_ms: Date.now() - context.start_time }
+  );
+};
+
+// Deadline with the current pause, if any, added
+const currentDeadline = (budget: ExecutionBudget): number =>
+  budget.deadline + (budget.paused_since ? Date.now() - budget.paused_since : 0);
+
+const throwIfPastDeadline = (context: ExecutionContext): void => {
+  if (Date.now() > currentDeadline(context.budget)) {
+    throw deadlineError(context);
+  }
+};
+
+const remainingTime = (context: ExecutionContext): number =>
+  Math.max(currentDeadline(context.budget) - Date.now(), 0);
+
+/**
+ * Stop the deadline clock for every branch of the run, e.g. while the
+ * debugger holds one of them. Returns the function that restarts it, moving
+ * the deadline by the time spent paused. One branch pauses at a time.
+ */
+export const pauseDeadlineClock = (context: ExecutionContext): (() => void) => {
+  const budget = context.budget;
+  budget.paused_since = Date.now();
+  return () => {
+    budget.deadline += Date.now() - budget.paused_since;
+    budget.paused_since = null;
+    const waiting = budget.on_resume || [];
+    budget.on_resume = [];
+    waiting.forEach(rearm => rearm());
+  };
+};
+
+/**
+ * Call `onDeadline` once the execution deadline has passed. The deadline
+ * moves, and its clock stops, while the debugger holds a branch, so the
+ * timer re-arms until the current deadline is reached. Returns a cancel
+ * function.
+ */
+const whenPastDeadline = (context: ExecutionContext, onDeadline: () => void): (() => void) => {
+  const budget = context.budget;
+  let timer: NodeJS.Timeout;
+  let cancelled = false;
+  const arm = () => {
+    if (cancelled) return;
+    timer = setTimeout(() => {
+      if (budget.paused_since) {
+        budget.on_resume = [...(budget.on_resume || []), arm];
+      } else if (Date.now() >= budget.deadline) {
+        onDeadline();
+      } else {
+        arm();
+      }
+    }, remainingTime(context));
+    timer.unref();
+  };
+  arm();
+  return () => {
+    cancelled = true;
+    clearTimeout(timer);
+  };
+};
+
+/**
+ * Settle with `work`, or fail with the timeout guard at the deadline. The
+ * node's outbound calls are cancelled at the same moment (see callSignal).
+ */
+const raceDeadline = <T>(work: Promise<T>, context: ExecutionContext): Promise<T> => {
+  let cancel: () => void;
+  const deadline = new Promise<never>((resolve, reject) => {
+    cancel = whenPastDeadline(context, () => reject(deadlineError(context)));
+  });
+  return Promise.race([work, deadline]).finally(() => cancel());
+};
+
+/**
+ * Signal for a connector, API or database call: aborted at the execution
+ * deadline or when the branch making the call is abandoned
+ */
+const callSignal = (context: ExecutionContext): AbortSignal => {
+  const controller = new AbortController();
+  const cancel = whenPastDeadline(context, () => controller.abort());
+  controller.signal.addEventListener('abort', cancel, { once: true });
+  if (context.signal?.aborted) {
+    controller.abort();
+  } else {
+    context.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+  }
+  return controller.signal;
+};
+
+/**
+ * Run every outgoing branch of a fork concurrently and merge them at the
+ * matching join. Returns the join node so the caller can continue after it.
+ *
+ * Join config: mode 'all' (default) | 'any' | 'quorum' (with `quorum: n`).
+ * Variables are merged in branch (edge) order; when two branches write the
+ * same variable with different values the earlier branch wins and the
+ * conflict is reported on the join trace entry. Once 'any' or 'quorum' is
+ * satisfied the remaining branches are aborted: in-flight calls are
+ * cancelled and whatever they return afterwards is discarded.
+ */
+const executeForkNode = async (
+  forkNode: WorkflowNode,
+  context: ExecutionContext,
+  workflow: Workflow,
+  tally: StrategyTally
+): Promise<WorkflowNode> => {
+  const forkStart = Date.now();
+  const branchEdges = context.plan.outgoing.get(forkNode.id) || [];
+
+  if (branchEdges.length === 0) {
+    throw new Error(`Fork node "${forkNode.data?.label || forkNode.id}" has no outgoing branches`);
+  }
+
+  const joinNode = context.plan.fork_joins.get(forkNode.id) || null;
+  if (!joinNode) {
+    throw new Error(`Fork node "${forkNode.data?.label || forkNode.id}" has no matching join node`);
+  }
+
+  const joinConfig = joinNode.data?.config || {};
+  const mode: 'all' | 'any' | 'quorum' = joinConfig.mode || 'all';
+  const required = mode === 'any'
+    ? 1
+    : mode === 'quorum'
+      ? Math.min(Math.max(Number(joinConfig.quorum) || 1, 1), branchEdges.length)
+      : branchEdges.length;
+
+  const baseVariables = structuredClone(context.variables);
+
+  context.execution_trace.push({
+    node_id: forkNode.id,
+    node_type: forkNode.type,
+    timestamp: new Date().toISOString(),
+    input: { ...context.variables },
+    output: {
+      success: true,
+      join_node: joinNode.id,
+      branches: branchEdges.map((e, index) => ({ branch: `${forkNode.id}#${index + 1}`, target: e.target })),
+    },
+    execution_time_ms: 0,
+  });
+
+  // One controller per branch, also aborted when this run itself is abandoned
+  const controllers = branchEdges.map(() => new AbortController());
+  const abortAll = () => controllers.forEach(controller => controller.abort());
+  context.signal?.addEventListener('abort', abortAll, { once: true });
+
+  const branches: BranchRun[] = branchEdges.map((edge, index) => ({
+    index,
+    label: `${forkNode.id}#${index + 1}`,
+    target: edge.target,
+    context: {
+      ...context,
+      variables: structuredClone(baseVariables),
+      execution_trace: [],
+      current_node: null,
+      missing_data: [],
+      signal: controllers[index].signal,
+    },
+    tally: createStrategyTally(),
+    status: 'running',
+  }));
+
+  let budgetError: ExecutionBudgetError | null = null;
+
+  // Resolve as soon as the join is satisfied or can no longer be satisfied
+  await new Promise<void>(resolve => {
+    let settled = false;
+
+    const check = () => {
+      if (settled) return;
+      const completed = branches.filter(b => b.status === 'completed').length;
+      const running = branches.filter(b => b.status === 'running').length;
+      if (completed >= required || completed + running < required) {
+        settled = true;
+        branches.forEach(b => {
+          if (b.status === 'running') controllers[b.index].abort();
+        });
+        context.signal?.removeEventListener('abort', abortAll);
+        resolve();
+      }
+    };
+
+    branches.forEach(branch => {
+      const startNode = context.plan.nodes_by_id.get(branch.target);
+      const branchStart = Date.now();
+
+      const run = startNode
+        ? walkPath(startNode, branch.context, workflow, branch.tally, true)
+        : Promise.reject(new Error(`Branch target node ${branch.target} not found`));
+
+      run.then(
+        (outcome) => {
+          if (settled) return;
+          if (outcome.joinNode?.id !== joinNode.id) {
+            branch.status = 'failed';
+            branch.error = `Branch reached join ${outcome.joinNode?.id} instead of ${joinNode.id}`;
+          } else {
+            branch.status = 'completed';
+          }
+          branch.execution_time_ms = Date.now() - branchStart;
+          check();
+        },
+        (error) => {
+          if (settled) return;
+          if (error instanceof ExecutionBudgetError) {
+            budgetError = budgetError || error;
+          }
+          branch.status = 'failed';
+          branch.error = error.message;
+          branch.execution_time_ms = Date.now() - branchStart;
+          check();
+        }
+      );
+    });
+  });
+
+  // Keep the merged trace readable: each finished branch's entries stay
+  // together, in branch order, tagged with the branch label
+  branches.forEach(branch => {
+    if (branch.status === 'running') return;
+    branch.context.execution_trace.forEach(entry => {
+      context.execution_trace.push({ ...entry, branch: entry.branch || branch.label });
+    });
+  });
+
+  // A tripped guard stops the whole execution, not just the branch
+  if (budgetError) {
+    throw budgetError;
+  }
+
+  const included = branches.filter(b => b.status === 'completed');
+  const branchSummary = branches.map(b => ({
+    branch: b.label,
+    target: b.target,
+    status: b.status === 'running' ? 'abandoned' : b.status,
+    execution_time_ms: b.execution_time_ms ?? null,
+    ...(b.error ? { error: b.error } : {}),
+  }));
+
+  if (included.length < required) {
+    const errors = branches.filter(b => b.error).map(b => `${b.label}: ${b.error}`);
+    context.execution_trace.push({
+      node_id: joinNode.id,
+      node_type: joinNode.type,
+      timestamp: new Date().toISOString(),
+      input: { ...context.variables },
+      output: null,
+      execution_time_ms: Date.now() - forkStart,
+      error: `Join requires ${required} completed branch(es), got ${included.length}`,
+    });
+    throw new Error(
+      `Join node "${joinNode.data?.label || joinNode.id}" requires ${required} completed branch(es), ` +
+      `got ${included.length}: ${errors.join('; ')}`
+    );
+  }
+
+  // Merge branch variables deterministically (branch order, first writer wins)
+  const writtenBy: Record<string, string> = {};
+  const conflicts: Array<{ variable: string; kept_from: string; ignored_from: string }> = [];
+
+  included.forEach(branch => {
+    Object.keys(branch.context.variables).forEach(name => {
+      const value = branch.context.variables[name];
+      if (JSON.stringify(value) === JSON.stringify(baseVariables[name])) return;
+
+      if (writtenBy[name]) {
+        if (JSON.stringify(value) !== JSON.stringify(context.variables[name])) {
+          conflicts.push({ variable: name, kept_from: writtenBy[name], ignored_from: branch.label });
+        }
+        return;
+      }
+
+      writtenBy[name] = branch.label;
+      context.variables[name] = value;
+    });
+
+    tally.votes.push(...branch.tally.votes);
+    tally.failedConditions.push(...branch.tally.failedConditions);
+    tally.manualCheckReasons.push(...branch.tally.manualCheckReasons);
+    context.missing_data.push(...branch.context.missing_data);
+  });
+
+  context.current_node = joinNode.id;
+  context.execution_trace.push({
+    node_id: joinNode.id,
+    node_type: joinNode.type,
+    timestamp: new Date().toISOString(),
+    input: { ...context.variables },
+    output: {
+      success: true,
+      mode,
+      required,
+      branches: branchSummary,
+      merged_variables: writtenBy,
+      conflicts,
+    },
+    execution_time_ms: Date.now() - forkStart,
+  });
+
+  return joinNode;
 };
 
 /**
@@ -213,10 +939,10 @@ const findStartNode = (nodes: WorkflowNode[]): WorkflowNode | null => {
 const findNextNode = (
   currentNode: WorkflowNode,
   nodeResult: any,
-  workflow: Workflow
+  plan: ExecutionPlan
 ): WorkflowNode | null => {
   // Find outgoing edges from current node
-  const outgoingEdges = workflow.edges.filter(e => e.source === currentNode.id);
+  const outgoingEdges = plan.outgoing.get(currentNode.id) || [];
 
   if (outgoingEdges.length === 0) {
     return null;
@@ -229,13 +955,34 @@ const findNextNode = (
     );
 
     if (targetEdge) {
-      return workflow.nodes.find(n => n.id === targetEdge.target) || null;
+      return plan.nodes_by_id.get(targetEdge.target) || null;
+    }
+  }
+
+  // For switch nodes, follow the matched case's handle, falling back to the default
+  if (currentNode.type === 'switch') {
+    const targetEdge = outgoingEdges.find(e => e.sourceHandle === nodeResult.handle)
+      || outgoingEdges.find(e => e.sourceHandle === SWITCH_DEFAULT_HANDLE);
+
+    if (!targetEdge) {
+      throw new Error(`Switch node "${currentNode.data?.label || currentNode.id}" has no edge for "${nodeResult.handle}" and no default edge`);
     }
+    return plan.nodes_by_id.get(targetEdge.target) || null;
+  }
+
+  // For negative list checks, a hit must leave through its action's output
+  if (currentNode.type === 'negativeListCheck') {
+    const targetEdge = outgoingEdges.find(e => e.sourceHandle === nodeResult.handle);
+
+    if (!targetEdge) {
+      throw new Error(`Negative list check "${currentNode.data?.label || currentNode.id}" has no edge for "${nodeResult.handle}"`);
+    }
+    return plan.nodes_by_id.get(targetEdge.target) || null;
   }
 
   // For other nodes, take the first outgoing edge
   const nextEdge = outgoingEdges[0];
-  return workflow.nodes.find(n => n.id === nextEdge.target) || null;
+  return plan.nodes_by_id.get(nextEdge.target) || null;
 };
 
 /**
@@ -279,6 +1026,24 @@ const executeNode = async (
       case 'dbQuery':
         result = await executeDBQueryNode(node, context);
         break;
+      case 'decisionTable':
+        result = await executeDecisionTableNode(node, context);
+        break;
+      case 'subPolicy':
+        result = await executeSubPolicyNode(node, context);
+        break;
+      case 'switch':
+        result = await executeSwitchNode(node, context);
+        break;
+      case 'lookup':
+        result = await executeLookupNode(node, context);
+        break;
+      case 'velocity':
+        result = await executeVelocityNode(node, context);
+        break;
+      case 'negativeListCheck':
+        result = await executeNegativeListCheckNode(node, context);
+        break;
       case 'end':
         result = { success: true };
         break;
@@ -288,14 +1053,25 @@ const executeNode = async (
 
     const executionTime = Date.now() - startTime;
 
+    // Flag conditions and factors decided on missing data
+    const missingData: MissingDataFlag[] = (result?.missing_data || []).map(
+      (flag: MissingDataFlag) => ({ node_id: node.id, ...flag })
+    );
+    context.missing_data.push(...missingData);
+
+    // A sub-policy's own trace nests under its node instead of the output
+    const { nested_trace: children, ...output } = result || {};
+
     // Add to execution trace
     context.execution_trace.push({
       node_id: node.id,
       node_type: node.type,
       timestamp: new Date().toISOString(),
       input: { ...context.variables },
-      output: result,
+      output: result ? output : result,
       execution_time_ms: executionTime,
+      ...(missingData.length > 0 ? { missing_data: missingData } : {}),
+      ...(children ? { children } : {}),
     });
 
     return result;
@@ -312,6 +1088,7 @@ const executeNode = async (
       output: null,
       execution_time_ms: executionTime,
       error: error.message,
+      ...(error.nested_trace ? { children: error.nested_trace } : {}),
     });
 
     throw error;
@@ -330,74 +1107,79 @@ const executeStrategyNode = async (node: WorkflowNode, context: ExecutionContext
   const nodeData = node.data || {};
   const conditions = nodeData.conditions || [];
 
+  // Decision applied when the conditions are not met (falls through)
+  const defaultDecision = normalizeStrategyDecision(nodeData.defaultDecision);
+  const fallthroughDecision: StrategyDecision = defaultDecision || 'rejected';
+
   if (conditions.length === 0) {
-    throw new Error(`Strategy node "${nodeData.label || 'Unnamed'}" has no conditions configured`);
+    if (!defaultDecision) {
+      throw new Error(`Strategy node "${nodeData.label || 'Unnamed'}" has no conditions configured`);
+    }
+    return {
+      success: true,
+      decision: defaultDecision,
+      reason: 'No conditions configured; default decision applied',
+      fell_through: true,
+      conditionsEvaluated: [],
+      failedConditions: [],
+      manualCheckReasons: [],
+    };
   }
 
-  const conditionsEvaluated: any[] = [];
-  const failedConditions: string[] = [];
-  const manualCheckReasons: string[] = [];
-
-  let hasAnyRejection = false;
-  let hasManualCheck = false;
-
-  // Evaluate all conditions
-  for (let i = 0; i < conditions.length; i++) {
-    const cond = conditions[i];
-    const isMatch = evaluateStrategyCondition(cond, context.variables);
-
-    const conditionStr = `${cond.variable} ${cond.operator} ${cond.value}`;
-
-    if (isMatch) {
-      // Condition matched - use the decision set on the condition
-      if (cond.decision === 'Manual Check') {
-        hasManualCheck = true;
-        manualCheckReasons.push(`${conditionStr} requires manual review`);
-        conditionsEvaluated.push({
-          condition: conditionStr,
-          result: true,
-          decision: 'Manual Check',
-          reason: 'Requires manual verification'
-        });
-      } else {
-        // Approved
-        conditionsEvaluated.push({
-          condition: conditionStr,
-          result: true,
-          decision: 'Approved'
-        });
-      }
-    } else {
-      // Condition did NOT match - this becomes a REJECT
-      hasAnyRejection = true;
-      failedConditions.push(conditionStr);
-      conditionsEvaluated.push({
-        condition: conditionStr,
+  // Evaluate the condition tree (groups short-circuit)
+  const evaluation = evaluateConditionTree(
+    buildConditionTree(nodeData),
+    leaf => evaluateStrategyLeaf(leaf, context)
+  );
+  const passed = evaluation.result;
+  const decidingLeaves = getDecidingLeaves(evaluation);
+  const decidingGroup = getDecidingGroup(evaluation);
+
+  const failedConditions = passed
+    ? []
+    : decidingLeaves.filter(l => !l.result).map(l => l.condition);
+  const manualCheckReasons = passed
+    ? decidingLeaves
+      .filter(l => l.result && l.decision === 'Manual Check')
+      .map(l => (l.missing_data?.action === 'manual_review'
+        ? `${l.condition}: ${l.missing_data.variable} is missing`
+        : `${l.condition} requires manual review`))
+    : [];
+
+  const leaves = flattenLeaves(evaluation);
+  const conditionsEvaluated = leaves.map(l => {
+    const missing = l.missing_data ? { missing_data: l.missing_data } : {};
+    if (!l.result) {
+      return {
+        path: l.path,
+        condition: l.condition,
         result: false,
-        decision: 'Rejected',
-        reason: 'Condition not met'
-      });
-
-      // For AND logic, if one condition fails, stop evaluating
-      if (i < conditions.length - 1 && cond.logicalOperator === 'AND') {
-        break;
-      }
+        decision: passed ? 'Not Met' : DECISION_LABELS[fallthroughDecision],
+        reason: l.missing_data ? describeMissingData(l.missing_data) : 'Condition not met',
+        ...missing,
+      };
     }
-
-    // For OR logic, if one condition passes, we can stop
-    if (isMatch && i < conditions.length - 1 && cond.logicalOperator === 'OR') {
-      break;
+    if (l.decision === 'Manual Check') {
+      const reason = l.missing_data?.action === 'manual_review'
+        ? `${l.missing_data.variable} is missing`
+        : 'Requires manual verification';
+      return { path: l.path, condition: l.condition, result: true, decision: 'Manual Check', reason, ...missing };
     }
-  }
+    return { path: l.path, condition: l.condition, result: true, decision: 'Approved', ...missing };
+  });
 
-  // Determine node decision: Rejected > Manual Review > Approved
-  let decision: 'approved' | 'rejected' | 'manual_review';
+  // Unmet conditions fall through to the default decision (reject unless
+  // configured otherwise); then Manual Review > Approved
+  let decision: StrategyDecision;
   let reason: string;
 
-  if (hasAnyRejection) {
-    decision = 'rejected';
+  if (!passed) {
+    decision = fallthroughDecision;
     reason = `Failed conditions: ${failedConditions.join(', ')}`;
-  } else if (hasManualCheck) {
+    if (fallthroughDecision !== 'rejected') {
+      reason += ` (default decision: ${fallthroughDecision})`;
+    }
+  } else if (manualCheckReasons.length > 0) {
     decision = 'manual_review';
     reason = manualCheckReasons.join('; ');
   } else {
@@ -409,18 +1191,83 @@ const executeStrategyNode = async (node: WorkflowNode, context: ExecutionContext
     success: true,
     decision,
     reason,
+    fell_through: !passed,
+    decided_by: {
+      group: decidingGroup.path,
+      operator: decidingGroup.operator,
+      result: decidingGroup.result,
+    },
     conditionsEvaluated,
+    conditionTree: evaluation,
     failedConditions,
     manualCheckReasons,
+    missing_data: leaves.filter(l => l.missing_data).map(l => l.missing_data),
   };
 };
 
-// Helper function to evaluate a strategy condition
-const evaluateStrategyCondition = (condition: any, variables: Record<string, any>): boolean => {
-  const { variable, operator, value } = condition;
+const describeMissingData = (flag: MissingDataFlag): string =>
+  flag.substituted_value !== undefined
+    ? `${flag.variable} is missing; evaluated with ${JSON.stringify(flag.substituted_value)}`
+    : `${flag.variable} is missing`;
 
-  // Get actual value from variables using dot notation
-  const actualValue = getNestedValue(variables, variable);
+const DECISION_LABELS: Record<StrategyDecision, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  manual_review: 'Manual Check',
+};
+
+/**
+ * Evaluate a strategy condition, applying the missing-data policy when its
+ * variable is absent. IS_NULL / IS_NOT_NULL test for absence themselves.
+ */
+const evaluateStrategyLeaf = (leaf: ConditionLeaf, context: ExecutionContext): boolean | LeafOutcome => {
+  const actualValue = isComputedCondition(leaf)
+    ? evaluatePlanExpression(context.plan, leaf.variable, context.variables, evaluateOptions(context))
+    : getNestedValue(context.variables, leaf.variable);
+
+  const condition = { ...leaf, value: resolveParameterReference(leaf.value, context.parameters.values) };
+
+  if (!isMissingValue(actualValue) || leaf.operator === 'IS_NULL' || leaf.operator === 'IS_NOT_NULL') {
+    return evaluateStrategyCondition(condition, actualValue, context.as_of);
+  }
+
+  const resolution = resolveMissingData(
+    leaf.variable,
+    leaf.missingData,
+    'condition',
+    context.missing_data_settings,
+    context.variables,
+    evaluateOptions(context)
+  );
+  const flag: MissingDataFlag = {
+    variable: leaf.variable,
+    target: `${leaf.variable} ${leaf.operator} ${leaf.value}`,
+    action: resolution.action,
+    rule_source: resolution.rule_source,
+    ...(resolution.value !== undefined ? { substituted_value: resolution.value } : {}),
+    ...(resolution.note ? { note: resolution.note } : {}),
+  };
+
+  switch (resolution.action) {
+    case 'pass':
+      return { result: true, missing_data: flag };
+    case 'manual_review':
+      return { result: true, decision: 'Manual Check', missing_data: flag };
+    case 'default':
+    case 'impute':
+      return { result: evaluateStrategyCondition(condition, resolution.value, context.as_of), missing_data: flag };
+    default:
+      return { result: false, missing_data: flag };
+  }
+};
+
+// Helper function to compare a strategy condition's variable value
+const evaluateStrategyCondition = (condition: any, actualValue: any, asOf: Date): boolean => {
+  const { operator, value } = condition;
+
+  if (DATE_CONDITION_OPERATORS.includes(operator)) {
+    return evaluateDateCondition(operator, actualValue, value, asOf);
+  }
 
   switch (operator) {
     case '=':
@@ -471,9 +1318,11 @@ const executeDataSourceNode = async (node: WorkflowNode, context: ExecutionConte
     });
   }
 
-  // Check cache
-  const cacheKey = `${connectorId}_${JSON.stringify(params)}`;
+  // Check cache; mapping still applies, as a shadow run may map fields the live run did not
+  const call: ReplayCall = { node_id: node.id, kind: 'connector', connector_id: connectorId, params };
+  const cacheKey = connectorCacheKey(call);
   if (context.connector_cache[cacheKey]) {
+    mapFields(config.field_mapping, context.connector_cache[cacheKey], context.variables);
     return {
       success: true,
       data: context.connector_cache[cacheKey],
@@ -483,15 +1332,19 @@ const executeDataSourceNode = async (node: WorkflowNode, context: ExecutionConte
 
   // Call connector
   try {
-    const response = await callConnector(connectorId, params, config.cache_response !== false);
+    const response = context.replay
+      ? await replayResponse(context, call)
+      : await callConnector(
+          connectorId,
+          params,
+          config.cache_response !== false,
+          context.plan.connectors[connectorId],
+          callSignal(context)
+        );
+    throwIfAbandoned(context);
 
     // Map response to variables
-    if (config.field_mapping) {
-      Object.keys(config.field_mapping).forEach(variableName => {
-        const responsePath = config.field_mapping[variableName];
-        context.variables[variableName] = getNestedValue(response, responsePath);
-      });
-    }
+    mapFields(config.field_mapping, response, context.variables);
 
     // Cache response
     context.connector_cache[cacheKey] = response;
@@ -502,12 +1355,16 @@ const executeDataSourceNode = async (node: WorkflowNode, context: ExecutionConte
       from_cache: false,
     };
   } catch (error) {
+    // A cancelled call is not an error the node's on_error setting handles
+    throwIfAbandoned(context);
+    throwIfPastDeadline(context);
     // Handle based on error configuration
     if (config.on_error === 'skip') {
       return { success: true, skipped: true };
     } else if (config.on_error === 'use_cached') {
       const cached = context.connector_cache[cacheKey];
       if (cached) {
+        mapFields(config.field_mapping, cached, context.variables);
         return { success: true, data: cached, from_cache: true };
       }
     } else if (config.on_error === 'manual_review') {
@@ -517,6 +1374,22 @@ const executeDataSourceNode = async (node: WorkflowNode, context: ExecutionConte
   }
 };
 
+// Stored response for a replayed call; a missing one fails the node like a failed call would
+const replayResponse = async (context: ExecutionContext, call: ReplayCall): Promise<any> => {
+  const stored = await context.replay(call);
+  if (stored === undefined) {
+    throw new Error(`No stored ${call.kind} response to replay`);
+  }
+  return stored;
+};
+
+// Copy response fields into variables per a node's { variable: path } mapping
+const mapFields = (mapping: Record<string, string> | undefined, response: any, variables: Record<string, any>): void => {
+  Object.keys(mapping || {}).forEach(variableName => {
+    variables[variableName] = getNestedValue(response, mapping[variableName]);
+  });
+};
+
 const executeConditionNode = async (node: WorkflowNode, context: ExecutionContext) => {
   const config = node.data.config || {};
   const condition = config.condition;
@@ -525,7 +1398,7 @@ const executeConditionNode = async (node: WorkflowNode, context: ExecutionContex
     throw new Error('No condition configured');
   }
 
-  const result = evaluateCondition(condition, context.variables);
+  const result = evaluateCondition(condition, context.variables, context.plan, evaluateOptions(context));
 
   return {
     success: true,
@@ -533,6 +1406,118 @@ const executeConditionNode = async (node: WorkflowNode, context: ExecutionContex
   };
 };
 
+const executeSwitchNode = async (node: WorkflowNode, context: ExecutionContext) => {
+  const switchConfig: SwitchConfig = node.data.config || { cases: [] };
+  const result = evaluateSwitch(switchConfig, context.variables, evaluateOptions(context));
+
+  return {
+    success: true,
+    ...result,
+  };
+};
+
+const executeLookupNode = async (node: WorkflowNode, context: ExecutionContext) => {
+  const lookupConfig: LookupConfig = node.data.config || {};
+  if (!lookupConfig.table || !lookupConfig.key || !lookupConfig.output_variable) {
+    throw new Error('Reference table, key and output variable are required');
+  }
+
+  const result = evaluateLookup(lookupConfig, context.variables, evaluateOptions(context));
+  context.variables[lookupConfig.output_variable] = result.value;
+
+  return {
+    success: true,
+    table: lookupConfig.table,
+    ...result,
+  };
+};
+
+const executeVelocityNode = async (node: WorkflowNode, context: ExecutionContext) => {
+  const velocityConfig: VelocityConfig = node.data.config || { checks: [] };
+  if ((velocityConfig.checks || []).length === 0 || !velocityConfig.output_variable) {
+    throw new Error('At least one velocity check and an output variable are required');
+  }
+
+  // Identifiers on the applicant's standard fields, for checks without a value
+  const standard = extractIdentifiers(context.input_data);
+  const standardValue = (type: string): string | null => standard.find(i => i.type === type)?.value ?? null;
+
+  const checks: VelocityCheckResult[] = [];
+  for (const check of velocityConfig.checks) {
+    const value = check.value
+      ? normalizeIdentifier(
+        check.identifier,
+        evaluatePlanExpression(context.plan, check.value, context.variables, evaluateOptions(context))
+      )
+      : standardValue(check.identifier);
+
+    // An application without the identifier shares it with nobody
+    const counted = value === null
+      ? { count: 0, matched_application_ids: [] }
+      : await countVelocity(
+        check,
+        value,
+        context.application_id,
+        check.distinct_by ? standardValue(check.distinct_by) : null,
+        context.as_of
+      );
+
+    checks.push({
+      label: check.label || `${check.identifier} in ${describeVelocityWindow(check)}`,
+      identifier: check.identifier,
+      value,
+      ...(check.distinct_by ? { distinct_by: check.distinct_by } : {}),
+      window: describeVelocityWindow(check),
+      count: counted.count,
+      max_count: check.max_count,
+      hit: counted.count > check.max_count,
+      matched_application_ids: counted.matched_application_ids,
+    });
+  }
+
+  const hits = checks.filter(check => check.hit);
+  const result = {
+    hit: hits.length > 0,
+    hits: hits.map(check => check.label),
+    matched_application_ids: Array.from(new Set(hits.flatMap(check => check.matched_application_ids))),
+    checks,
+  };
+  context.variables[velocityConfig.output_variable] = result;
+
+  return {
+    success: true,
+    ...result,
+  };
+};
+
+const executeNegativeListCheckNode = async (node: WorkflowNode, context: ExecutionContext) => {
+  const checkConfig: NegativeListCheckConfig = node.data.config || { checks: [] };
+  if ((checkConfig.checks || []).length === 0) {
+    throw new Error('At least one negative list check is required');
+  }
+
+  const hits: NegativeListHit[] = [];
+  for (const check of checkConfig.checks) {
+    const evaluated = evaluatePlanExpression(context.plan, check.value, context.variables, evaluateOptions(context));
+    // A list of values (e.g. every employer on file) is checked value by value
+    for (const value of Array.isArray(evaluated) ? evaluated : [evaluated]) {
+      hits.push(...await findNegativeListMatches(check.list, value, context.as_of));
+    }
+  }
+
+  const outcome = getNegativeListOutcome(hits);
+  if (checkConfig.output_variable) {
+    context.variables[checkConfig.output_variable] = { outcome, hit: hits.length > 0, hits };
+  }
+
+  return {
+    success: true,
+    handle: outcome,
+    outcome,
+    hits,
+  };
+};
+
 const executeCalculationNode = async (node: WorkflowNode, context: ExecutionContext) => {
   const config = node.data.config || {};
   const formula = config.formula;
@@ -543,7 +1528,7 @@ const executeCalculationNode = async (node: WorkflowNode, context: ExecutionCont
   }
 
   // Evaluate formula
-  const result = evaluateFormula(formula, context.variables);
+  const result = evaluateFormula(formula, context.variables, context.plan, evaluateOptions(context));
 
   // Store in context
   context.variables[outputVariable] = result;
@@ -562,15 +1547,46 @@ const executeScoreNode = async (node: WorkflowNode, context: ExecutionContext) =
   let totalScore = 0;
   const scoreBreakdown: Record<string, any> = {};
 
+  const missingData: MissingDataFlag[] = [];
+
   factors.forEach((factor: any) => {
-    const value = context.variables[factor.variable];
+    const ranges = factor.ranges || [];
+    let value = context.variables[factor.variable];
     let factorScore = 0;
+    let missing: MissingDataFlag | undefined;
+
+    if (isMissingValue(value)) {
+      const resolution = resolveMissingData(
+        factor.variable,
+        factor.missing_data,
+        'factor',
+        context.missing_data_settings,
+        context.variables,
+        evaluateOptions(context)
+      );
+      missing = {
+        variable: factor.variable,
+        target: factor.name,
+        action: resolution.action,
+        rule_source: resolution.rule_source,
+        ...(resolution.value !== undefined ? { substituted_value: resolution.value } : {}),
+        ...(resolution.note ? { note: resolution.note } : {}),
+      };
+      missingData.push(missing);
+      value = resolution.value;
+
+      if (resolution.action === 'pass' && ranges.length > 0) {
+        factorScore = Math.max(...ranges.map((r: any) => Number(r.score) || 0));
+      }
+    }
 
     // Find matching range
-    for (const range of factor.ranges) {
-      if (value >= range.min && value <= range.max) {
-        factorScore = range.score;
-        break;
+    if (!isMissingValue(value)) {
+      for (const range of ranges) {
+        if (value >= range.min && value <= range.max) {
+          factorScore = range.score;
+          break;
+        }
       }
     }
 
@@ -580,6 +1596,7 @@ const executeScoreNode = async (node: WorkflowNode, context: ExecutionContext) =
       raw_score: factorScore,
       weight: factor.weight,
       weighted_score: weightedScore,
+      ...(missing ? { missing_data: missing.action } : {}),
     };
 
     totalScore += weightedScore;
@@ -592,19 +1609,24 @@ const executeScoreNode = async (node: WorkflowNode, context: ExecutionContext) =
     success: true,
     total_score: totalScore,
     breakdown: scoreBreakdown,
+    missing_data: missingData,
   };
 };
 
 const executeDecisionNode = async (node: WorkflowNode, context: ExecutionContext) => {
   const config = node.data.config || {};
   const decision = config.decision;
-  const reason = resolveString(config.reason, context.variables);
+  // A placeholder that fails to evaluate leaves a gap in the reason and is
+  // reported on the node's trace entry rather than failing the decision
+  const templateErrors: TemplateError[] = [];
+  const reason = resolveString(config.reason, context.variables, evaluateOptions(context), templateErrors);
   const conditions = config.conditions || [];
 
   return {
     success: true,
     decision,
     reason,
+    ...(templateErrors.length > 0 ? { template_errors: templateErrors } : {}),
     details: {
       conditions,
       variables: context.variables,
@@ -612,62 +1634,361 @@ const executeDecisionNode = async (node: WorkflowNode, context: ExecutionContext
   };
 };
 
+// Published versions never change, so pinned ones are loaded and compiled once per process
+const subPolicyPlans = new Map<string, ExecutionPlan>();
+
+const loadSubPolicyPlan = async (policyId: string, version: string): Promise<ExecutionPlan> => {
+  const key = `${policyId}@${version}`;
+  if (version !== LATEST_VERSION && subPolicyPlans.has(key)) {
+    return subPolicyPlans.get(key);
+  }
+
+  const policyVersion = await getPolicyVersion(policyId, version);
+  if (!policyVersion) {
+    throw new Error(`Sub-policy ${policyId} has no published version ${version}`);
+  }
+  const plan = compileExecutionPlan(policyVersion.workflow_json, {
+    policy_id: policyId,
+    version: policyVersion.version,
+  });
+  if (version !== LATEST_VERSION) {
+    subPolicyPlans.set(key, plan);
+  }
+  return plan;
+};
+
+const executeSubPolicyNode = async (node: WorkflowNode, context: ExecutionContext) => {
+  const subConfig: SubPolicyConfig = node.data.config || {};
+  if (!subConfig.policy_id || !subConfig.version) {
+    throw new Error('Sub-policy node has no policy version selected');
+  }
+  if (context.call_stack.includes(subConfig.policy_id)) {
+    throw new Error(`Sub-policy call cycle: ${[...context.call_stack, subConfig.policy_id].join(' → ')}`);
+  }
+  if (context.call_stack.length > SUB_POLICY_MAX_DEPTH) {
+    throw new Error(`Sub-policies nested deeper than ${SUB_POLICY_MAX_DEPTH} levels`);
+  }
+
+  const childPlan = await loadSubPolicyPlan(subConfig.policy_id, subConfig.version);
+  const childWorkflow: Workflow = childPlan.workflow;
+  const childParameters = await getParameterValues(subConfig.policy_id);
+
+  const input = applyInputSchema(childWorkflow, mapSubPolicyInputs(subConfig.input_mapping, context.variables, evaluateOptions(context)));
+  if (!input.valid) {
+    const violations = input.violations.map(v => `${v.path}: ${v.message}`).join('; ');
+    throw new Error(`Sub-policy input does not match its schema: ${violations}`);
+  }
+
+  // The child runs in its own variable scope but shares the budget and connector cache
+  const child: ExecutionContext = {
+    ...context,
+    policy_id: subConfig.policy_id,
+    input_data: input.value,
+    variables: { ...input.value, [PARAMETERS_VARIABLE]: { ...childParameters.values } },
+    execution_trace: [],
+    current_node: null,
+    missing_data_settings: getMissingDataSettings(childWorkflow),
+    missing_data: [],
+    call_stack: [...context.call_stack, subConfig.policy_id],
+    plan: childPlan,
+    parameters: childParameters,
+    reference_tables: await loadReferenceTables(childPlan.reference_tables),
+  };
+
+  const startNode = childPlan.start_node;
+  if (!startNode) {
+    throw new Error('Sub-policy has no start node');
+  }
+
+  const tally = createStrategyTally();
+  let outcome: PathOutcome;
+  try {
+    outcome = await walkPath(startNode, child, childWorkflow, tally, false);
+  } catch (error) {
+    error.nested_trace = child.execution_trace;
+    throw error;
+  }
+
+  // Fragments that only compute variables return no decision
+  let decision: StrategyDecision | null = null;
+  let reason: string | null = null;
+  if (outcome.decisionResult) {
+    decision = normalizeStrategyDecision(outcome.decisionResult.decision);
+    reason = outcome.decisionResult.reason;
+  } else if (tally.votes.length > 0) {
+    const settings = getStrategyAggregationSettings(childWorkflow);
+    const aggregation = aggregateStrategyVotes(tally.votes, settings);
+    decision = aggregation.decision;
+    reason = describeStrategyOutcome(aggregation.decision, tally, settings, aggregation.deciding_node);
+  }
+  if (decision) {
+    ({ decision, reason } = applyMissingDataReferral(decision, reason, child));
+  }
+
+  // Reasons the parent reports when this call's decision counts
+  const detailOf = (collected: string[]) => (collected.length > 0 ? collected : [reason]);
+  const failedConditions = decision === 'rejected' ? detailOf(tally.failedConditions) : [];
+  const manualCheckReasons = decision === 'manual_review' ? detailOf(tally.manualCheckReasons) : [];
+
+  const outputs = mapSubPolicyOutputs(subConfig.output_mapping, child.variables);
+  Object.assign(context.variables, outputs);
+  if (subConfig.result_variable) {
+    context.variables[subConfig.result_variable] = { decision, reason };
+  }
+
+  return {
+    success: true,
+    policy_id: subConfig.policy_id,
+    version: childPlan.version,
+    parameter_version: childParameters.version,
+    reference_tables: describeReferenceTables(child.reference_tables),
+    decision,
+    reason,
+    outputs,
+    failedConditions,
+    manualCheckReasons,
+    missing_data: child.missing_data,
+    nested_trace: child.execution_trace,
+  };
+};
+
 const executeAPICallNode = async (node: WorkflowNode, context: ExecutionContext) => {
-  // Similar to data source but for custom API calls
-  return { success: true };
+  // The builder stores method/url/headers/body directly on node data;
+  // engine options (field_mapping, on_error, ...) may live under data.config
+  const config = { ...(node.data || {}), ...(node.data?.config || {}) };
+
+  if (!config.url) {
+    throw new Error('No URL configured for API call node');
+  }
+
+  const method = String(config.method || 'GET').toUpperCase();
+  const url = resolveApiCallUrl(config.url, context.variables);
+  const headers = resolveTemplate(config.headers || {}, context.variables);
+  const body = resolveTemplate(config.body || {}, context.variables);
+
+  const call: ReplayCall = { node_id: node.id, kind: 'api', method, url, body };
+  const cacheKey = connectorCacheKey(call);
+
+  try {
+    const response = context.replay
+      ? { data: await replayResponse(context, call), status_code: null, attempts: 0 }
+      : await callExternalAPI(
+        {
+          method,
+          url,
+          headers,
+          body,
+          timeout: config.timeout_ms || 10000,
+          retry_count: config.retry_count,
+          retry_delay_ms: config.retry_delay_ms,
+          signal: callSignal(context),
+        },
+        {
+          policy_id: context.policy_id,
+          application_id: context.application_id,
+          underwriting_id: context.underwriting_id,
+          node_id: node.id,
+        }
+      );
+    throwIfAbandoned(context);
+
+    // Map response to variables
+    mapFields(config.field_mapping, response.data, context.variables);
+
+    context.connector_cache[cacheKey] = response.data;
+
+    return {
+      success: true,
+      request: { method, url },
+      status_code: response.status_code,
+      attempts: response.attempts,
+      data: response.data,
+      from_cache: false,
+    };
+  } catch (error) {
+    // A cancelled call is not an error the node's on_error setting handles
+    throwIfAbandoned(context);
+    throwIfPastDeadline(context);
+    // Handle based on error configuration
+    if (config.on_error === 'skip') {
+      return { success: true, skipped: true, request: { method, url }, error: error.message };
+    } else if (config.on_error === 'use_cached') {
+      const cached = context.connector_cache[cacheKey];
+      if (cached) {
+        mapFields(config.field_mapping, cached, context.variables);
+        return { success: true, request: { method, url }, data: cached, from_cache: true };
+      }
+    } else if (config.on_error === 'manual_review') {
+      throw new Error(`API call failed: ${error.message}. Sending to manual review.`);
+    }
+    throw error;
+  }
 };
 
 const executeDBQueryNode = async (node: WorkflowNode, context: ExecutionContext) => {
-  // Database query execution
-  return { success: true };
+  const config = node.data.config || {};
+  const connectorId = config.connector_id;
+
+  if (!connectorId) {
+    throw new Error('No connector configured for database query node');
+  }
+
+  if (!config.query) {
+    throw new Error('No query configured for database query node');
+  }
+
+  // Positional parameters ($1, $2, ...) bound from workflow variables
+  const params: any[] = resolveTemplate(config.params || [], context.variables);
+
+  const call: ReplayCall = { node_id: node.id, kind: 'database', connector_id: connectorId, query: config.query, params };
+  const cacheKey = connectorCacheKey(call);
+
+  try {
+    const result = context.replay
+      ? await replayResponse(context, call)
+      : await queryDatabaseConnector(connectorId, config.query, params, {
+          max_rows: config.max_rows,
+          // Not capped by the deadline, which a debugger pause can move: the
+          // node is abandoned at the deadline and the statement ends at its own timeout
+          timeout_ms: config.timeout_ms,
+          connector: context.plan.connectors[connectorId],
+          signal: callSignal(context),
+        });
+    throwIfAbandoned(context);
+
+    // Mapping paths are resolved against { rows, row_count, first }
+    const queryOutput = {
+      rows: result.rows,
+      row_count: result.row_count,
+      first: result.rows[0] || null,
+    };
+
+    mapFields(config.field_mapping, queryOutput, context.variables);
+
+    context.connector_cache[cacheKey] = queryOutput;
+
+    return {
+      success: true,
+      row_count: result.row_count,
+      truncated: result.truncated,
+      data: queryOutput,
+      from_cache: false,
+    };
+  } catch (error) {
+    // A cancelled call is not an error the node's on_error setting handles
+    throwIfAbandoned(context);
+    throwIfPastDeadline(context);
+    // Handle based on error configuration
+    if (config.on_error === 'skip') {
+      return { success: true, skipped: true, error: error.message };
+    } else if (config.on_error === 'use_cached') {
+      const cached = context.connector_cache[cacheKey];
+      if (cached) {
+        mapFields(config.field_mapping, cached, context.variables);
+        return { success: true, data: cached, from_cache: true };
+      }
+    } else if (config.on_error === 'manual_review') {
+      throw new Error(`Database query failed: ${error.message}. Sending to manual review.`);
+    }
+    throw error;
+  }
+};
+
+const executeDecisionTableNode = async (node: WorkflowNode, context: ExecutionContext) => {
+  const config = node.data.config;
+
+  if (!config) {
+    throw new Error('Decision table is not configured');
+  }
+
+  const result = evaluateDecisionTable(config, context.variables, evaluateOptions(context));
+
+  // Write outputs into context
+  Object.entries(result.outputs).forEach(([variableName, value]) => {
+    context.variables[variableName] = value;
+  });
+
+  return {
+    success: true,
+    ...result,
+  };
 };
 
 /**
  * Helper functions
  */
 
-const evaluateCondition = (condition: any, variables: Record<string, any>): boolean => {
+const evaluateCondition = (
+  condition: any,
+  variables: Record<string, any>,
+  plan?: ExecutionPlan,
+  options: EvaluateOptions = {}
+): boolean => {
+  // Free-form expression: "bureau.score >= 750 and foir < 0.5"
+  if (typeof condition === 'string') {
+    return evaluatePlanBoolean(plan, condition, variables, options);
+  }
+
+  if (condition.expression) {
+    return evaluatePlanBoolean(plan, condition.expression, variables, options);
+  }
+
   if (condition.operator === 'AND') {
-    return condition.conditions.every((c: any) => evaluateCondition(c, variables));
+    return condition.conditions.every((c: any) => evaluateCondition(c, variables, plan, options));
   }
 
   if (condition.operator === 'OR') {
-    return condition.conditions.some((c: any) => evaluateCondition(c, variables));
+    return condition.conditions.some((c: any) => evaluateCondition(c, variables, plan, options));
   }
 
-  const leftValue = resolveVariable(condition.left, variables);
-  const rightValue = resolveVariable(condition.right, variables);
+  const leftValue = resolveOperand(condition.left, variables);
+  const rightValue = resolveOperand(condition.right, variables);
+
+  const compare = (test: (c: number) => boolean) => {
+    const c = compareValues(leftValue, rightValue);
+    return c !== null && test(c);
+  };
 
   switch (condition.operator) {
-    case '>': return leftValue > rightValue;
-    case '<': return leftValue < rightValue;
-    case '>=': return leftValue >= rightValue;
-    case '<=': return leftValue <= rightValue;
-    case '==': return leftValue == rightValue;
-    case '!=': return leftValue != rightValue;
-    case 'IN': return Array.isArray(rightValue) && rightValue.includes(leftValue);
-    case 'NOT IN': return Array.isArray(rightValue) && !rightValue.includes(leftValue);
+    case '>': return compare(c => c > 0);
+    case '<': return compare(c => c < 0);
+    case '>=': return compare(c => c >= 0);
+    case '<=': return compare(c => c <= 0);
+    case '==': return valuesEqual(leftValue, rightValue);
+    case '!=': return !valuesEqual(leftValue, rightValue);
+    case 'IN': return Array.isArray(rightValue) && rightValue.some(v => valuesEqual(leftValue, v));
+    case 'NOT IN': return Array.isArray(rightValue) && !rightValue.some(v => valuesEqual(leftValue, v));
     default: throw new Error(`Unknown operator: ${condition.operator}`);
   }
 };
 
-const evaluateFormula = (formula: string, variables: Record<string, any>): number => {
-  let expression = formula;
-
-  // Replace variable names with values
-  Object.keys(variables).forEach(varName => {
-    const regex = new RegExp(`\\b${varName}\\b`, 'g');
-    const value = variables[varName];
-    expression = expression.replace(regex, String(value));
-  });
-
+const evaluateFormula = (
+  formula: string,
+  variables: Record<string, any>,
+  plan?: ExecutionPlan,
+  options: EvaluateOptions = {}
+): any => {
   try {
-    return math.evaluate(expression);
+    return evaluatePlanExpression(plan, formula, variables, options);
   } catch (error) {
     throw new Error(`Formula evaluation error: ${error.message}`);
   }
 };
 
+/**
+ * Condition operands name a variable (flat or dotted path) or are literals
+ */
+const resolveOperand = (value: any, variables: Record<string, any>): any => {
+  if (typeof value === 'string') {
+    if (value in variables) return variables[value];
+    if (/^[A-Za-z_][\w]*(\.[\w]+)+$/.test(value)) {
+      const nested = getNestedValue(variables, value);
+      if (nested !== undefined) return nested;
+    }
+  }
+  return value;
+};
+
 const resolveVariable = (value: any, variables: Record<string, any>): any => {
   if (typeof value === 'string' && value in variables) {
     return variables[value];
@@ -675,16 +1996,111 @@ const resolveVariable = (value: any, variables: Record<string, any>): any => {
   return value;
 };
 
-const resolveString = (template: string, variables: Record<string, any>): string => {
-  if (!template) return '';
+const resolveString = (
+  template: string,
+  variables: Record<string, any>,
+  options: EvaluateOptions = {},
+  errors?: TemplateError[]
+): string => {
+  return renderTemplate(template, variables, options, errors);
+};
+
+/**
+ * Fill `{variable.path}` placeholders in strings, arrays and objects.
+ * A string that is exactly one placeholder keeps the variable's type.
+ */
+const resolveTemplate = (
+  template: any,
+  variables: Record<string, any>
+): any => {
+  if (typeof template === 'string') {
+    const single = template.match(/^\{([\w.]+)\}$/);
+    if (single) {
+      return getNestedValue(variables, single[1]);
+    }
+    return template.replace(/\{([\w.]+)\}/g, (match, path) => {
+      const value = getNestedValue(variables, path);
+      if (value === undefined || value === null) return '';
+      return String(value);
+    });
+  }
+
+  if (Array.isArray(template)) {
+    return template.map(item => resolveTemplate(item, variables));
+  }
+
+  if (template && typeof template === 'object') {
+    const resolved: Record<string, any> = {};
+    Object.keys(template).forEach(key => {
+      resolved[key] = resolveTemplate(template[key], variables);
+    });
+    return resolved;
+  }
+
+  return template;
+};
+
+const URL_ORIGIN = /^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i;
 
-  let result = template;
-  Object.keys(variables).forEach(varName => {
-    const regex = new RegExp(`\\{${varName}\\}`, 'g');
-    result = result.replace(regex, String(variables[varName]));
+// Path values keep their slashes; "." and ".." segments cannot climb the path
+const encodePathValue = (value: string): string =>
+  value
+    .split('/')
+    .map(segment => (segment === '.' || segment === '..' ? segment.replace(/\./g, '%2E') : encodeURIComponent(segment)))
+    .join('/');
+
+/**
+ * Fill an apiCall URL template. A placeholder is encoded for where it lands:
+ * before the path (a base URL) it is inserted as is, in the path it is
+ * encoded segment by segment, in the query it is encoded as a value.
+ *
+ * The request must stay on the host the node is configured with: the
+ * template's own host, or, when the host itself comes from a variable, one
+ * listed in API_CALL_ALLOWED_HOSTS.
+ */
+const resolveApiCallUrl = (template: string, variables: Record<string, any>): string => {
+  let url = '';
+  let last = 0;
+  template.replace(/\{([\w.]+)\}/g, (match, path, offset) => {
+    url += template.slice(last, offset);
+    last = offset + match.length;
+    const value = getNestedValue(variables, path);
+    const text = value === undefined || value === null ? '' : String(value);
+    const origin = url.match(URL_ORIGIN);
+    if (/[?#]/.test(url)) {
+      url += encodeURIComponent(text);
+    } else if (origin && url.length > origin[0].length) {
+      url += encodePathValue(text);
+    } else {
+      url += text;
+    }
+    return match;
   });
+  url += template.slice(last);
+
+  let resolved: URL;
+  try {
+    resolved = new URL(url);
+  } catch (error) {
+    throw new Error(`API call URL is not a valid absolute URL: ${url}`);
+  }
+  if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') {
+    throw new Error(`API call URL must use http or https: ${url}`);
+  }
+
+  const configuredOrigin = template.match(URL_ORIGIN)?.[0];
+  if (configuredOrigin && !configuredOrigin.includes('{')) {
+    if (resolved.origin !== new URL(configuredOrigin).origin) {
+      throw new Error(`API call URL left its configured host ${configuredOrigin}: ${url}`);
+    }
+  } else {
+    const allowed = config.API_CALL_ALLOWED_HOSTS.split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+    if (!allowed.includes(resolved.hostname.toLowerCase())) {
+      throw new Error(`API call host ${resolved.hostname} is not listed in API_CALL_ALLOWED_HOSTS`);
+    }
+  }
 
-  return result;
+  return url;
 };
 
 const getNestedValue = (obj: any, path: string): any => {
@@ -1,5 +1,6 @@
 import { pool } from '../config/database';
 import logger from '../utils/logger';
+import { ArmResult, getExperimentResults } from './experiment.service';
 
 /**
  * Get daily application volume and approval trend
@@ -146,88 +147,63 @@ export const getApprovalRateByCreditScore = async (): Promise<any[]> => {
 /**
  * Get champion vs challenger strategy performance
  * Graph 4: Comparison Cards
+ *
+ * Compares the champion with the first challenger of the running
+ * experiment, or of the most recently started one when none runs.
  */
 export const getStrategyPerformance = async (): Promise<any> => {
   try {
-    // Get all active policies
-    const policiesResult = await pool.query(
+    const experimentResult = await pool.query(
       `
-      SELECT id, name, status
-      FROM policies
-      WHERE status = 'active'
-      ORDER BY created_at DESC
-      LIMIT 2
+      SELECT id
+      FROM experiments
+      WHERE status IN ('running', 'stopped')
+      ORDER BY (status = 'running') DESC, started_at DESC
+      LIMIT 1
       `
     );
 
-    if (policiesResult.rows.length < 2) {
-      // Return default structure if we don't have 2 policies
+    if (experimentResult.rows.length === 0) {
       return {
+        experiment: null,
         champion: null,
         challenger: null,
       };
     }
 
-    const champion = policiesResult.rows[0];
-    const challenger = policiesResult.rows[1];
+    const results = await getExperimentResults(experimentResult.rows[0].id);
+    const champion = results.arms.find(arm => arm.role === 'champion');
+    const challenger = results.arms.find(arm => arm.role === 'challenger');
 
-    // Get stats for champion
-    const championStats = await pool.query(
-      `
-      SELECT
-        COUNT(*) as applications_processed,
-        ROUND(
-          (SUM(CASE WHEN decision = 'approved' THEN 1 ELSE 0 END)::NUMERIC /
-          NULLIF(COUNT(*), 0)) * 100,
-          2
-        ) as approval_rate,
-        ROUND(AVG((request_data->'applicant'->>'credit_score')::INT)) as avg_credit_score,
-        ROUND(AVG(execution_time_ms)) as avg_tat_ms
-      FROM api_requests
-      WHERE
-        policy_id = $1
-        AND created_at >= CURRENT_DATE - INTERVAL '30 days'
-        AND decision = 'approved'
-      `,
-      [champion.id]
-    );
-
-    // Get stats for challenger
-    const challengerStats = await pool.query(
-      `
-      SELECT
-        COUNT(*) as applications_processed,
-        ROUND(
-          (SUM(CASE WHEN decision = 'approved' THEN 1 ELSE 0 END)::NUMERIC /
-          NULLIF(COUNT(*), 0)) * 100,
-          2
-        ) as approval_rate,
-        ROUND(AVG((request_data->'applicant'->>'credit_score')::INT)) as avg_credit_score,
-        ROUND(AVG(execution_time_ms)) as avg_tat_ms
-      FROM api_requests
-      WHERE
-        policy_id = $1
-        AND created_at >= CURRENT_DATE - INTERVAL '30 days'
-        AND decision = 'approved'
-      `,
-      [challenger.id]
-    );
+    const toStats = (arm: ArmResult) => ({
+      name: arm.policy_name,
+      arm: arm.name,
+      trafficPercent: arm.traffic_percent,
+      applicationsProcessed: arm.applications,
+      approvalRate: arm.approval.rate,
+      approvalRateCiLow: arm.approval.ci_low,
+      approvalRateCiHigh: arm.approval.ci_high,
+      avgCreditScore: arm.avg_credit_score || 0,
+      avgTatMs: Math.round(arm.execution_time_ms.mean),
+    });
 
     return {
-      champion: {
-        name: champion.name,
-        applicationsProcessed: parseInt(championStats.rows[0]?.applications_processed) || 0,
-        approvalRate: parseFloat(championStats.rows[0]?.approval_rate) || 0,
-        avgCreditScore: parseInt(championStats.rows[0]?.avg_credit_score) || 0,
-        avgTatMs: parseInt(championStats.rows[0]?.avg_tat_ms) || 0,
-      },
-      challenger: {
-        name: challenger.name,
-        applicationsProcessed: parseInt(challengerStats.rows[0]?.applications_processed) || 0,
-        approvalRate: parseFloat(challengerStats.rows[0]?.approval_rate) || 0,
-        avgCreditScore: parseInt(challengerStats.rows[0]?.avg_credit_score) || 0,
-        avgTatMs: parseInt(challengerStats.rows[0]?.avg_tat_ms) || 0,
+      experiment: {
+        id: results.experiment.id,
+        name: results.experiment.name,
+        status: results.experiment.status,
+        productType: results.experiment.product_type,
+        startedAt: results.experiment.started_at,
       },
+      champion: champion ? toStats(champion) : null,
+      challenger: challenger
+        ? {
+            ...toStats(challenger),
+            approvalRateDifference: challenger.approval_test?.difference ?? null,
+            approvalPValue: challenger.approval_test?.p_value ?? null,
+            approvalSignificant: challenger.approval_test?.significant ?? false,
+          }
+        : null,
     };
   } catch (error) {
     logger.error(`Get strategy performance error: ${error.message}`);
@@ -325,6 +301,68 @@ export const getDecisionSplit = async (): Promise<any> => {
   }
 };
 
+/**
+ * Count decisions made on missing data, per variable and action
+ */
+export const getMissingDataStats = async (days: number = 30, policyId?: string): Promise<any> => {
+  try {
+    const params: any[] = [];
+    let policyFilter = '';
+    if (policyId) {
+      params.push(policyId);
+      policyFilter = `AND policy_id = $${params.length}`;
+    }
+
+    const totals = await pool.query(
+      `
+      SELECT
+        COUNT(*) as total_applications,
+        SUM(CASE WHEN jsonb_array_length(COALESCE(response_data->'details'->'missing_data', '[]'::jsonb)) > 0 THEN 1 ELSE 0 END) as affected_applications
+      FROM api_requests
+      WHERE created_at >= CURRENT_DATE - INTERVAL '${days} days'
+        ${policyFilter}
+      `,
+      params
+    );
+
+    const byVariable = await pool.query(
+      `
+      SELECT
+        flag->>'variable' as variable,
+        flag->>'action' as action,
+        COUNT(*) as occurrences,
+        COUNT(DISTINCT r.id) as applications
+      FROM api_requests r,
+        jsonb_array_elements(COALESCE(r.response_data->'details'->'missing_data', '[]'::jsonb)) as flag
+      WHERE r.created_at >= CURRENT_DATE - INTERVAL '${days} days'
+        ${policyFilter}
+      GROUP BY flag->>'variable', flag->>'action'
+      ORDER BY occurrences DESC
+      `,
+      params
+    );
+
+    const stats = totals.rows[0];
+    const total = parseInt(stats.total_applications) || 0;
+    const affected = parseInt(stats.affected_applications) || 0;
+
+    return {
+      totalApplications: total,
+      affectedApplications: affected,
+      affectedRate: total > 0 ? Math.round((affected / total) * 10000) / 100 : 0,
+      byVariable: byVariable.rows.map(row => ({
+        variable: row.variable,
+        action: row.action,
+        occurrences: parseInt(row.occurrences),
+        applications: parseInt(row.applications),
+      })),
+    };
+  } catch (error) {
+    logger.error(`Get missing data stats error: ${error.message}`);
+    throw error;
+  }
+};
+
 /**
  * Get all analytics data at once
  */
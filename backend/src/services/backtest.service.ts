@@ -0,0 +1,612 @@
+import { pool } from '../config/database';
+import logger from '../utils/logger';
+import { config } from '../config/env';
+import { executeWorkflow, ReplayCall, ReplayLookup, Workflow } from '../engine/workflow-executor';
+import { compileExecutionPlan, ExecutionPlan } from '../engine/execution-plan';
+import { applyInputSchema } from '../engine/input-schema';
+import { ParameterValues } from '../engine/parameters';
+import {
+  BacktestDecision,
+  BACKTEST_DECISIONS,
+  SwapType,
+  attributeSwap,
+  classifySwap,
+  findDecidingRule,
+  nodeLabelsOf,
+} from '../engine/backtest';
+import { getPolicyById } from './policy.service';
+import { assertReadOnlySQL } from './connector.service';
+import { getParameterSetValues, getParameterValues } from './parameter.service';
+
+/**
+ * Historical backtests
+ *
+ * A backtest replays the applicant payloads logged in api_requests for a
+ * date range through a policy's current (draft) workflow. Connector, API and
+ * database nodes never call out: they answer from the responses logged for
+ * the original request, and a call with nothing stored fails its node as a
+ * failed call would (so the node's on_error setting applies). A replay that
+ * ran a database query with no logged rows is reported as not replayable
+ * rather than scored. Each replay is evaluated at the original request's
+ * date.
+ *
+ * Jobs run in the background in this process, in pages, and stop at the next
+ * page once cancelled. Each page touches the job's heartbeat; a running job
+ * whose heartbeat is older than BACKTEST_STALE_AFTER_MS died with its process
+ * and is marked failed the next time the policy's backtests are read or a
+ * new one is started.
+ */
+
+export type BacktestStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Backtest {
+  id: string;
+  policy_id: string;
+  parameter_set_id: string | null;
+  source_policy_id: string | null;
+  date_from: Date;
+  date_to: Date;
+  status: BacktestStatus;
+  total: number;
+  processed: number;
+  summary: BacktestSummary | null;
+  error_message: string | null;
+  created_by: string;
+  created_by_name?: string;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+export interface BacktestSummary {
+  replayed: number;
+  unchanged: number;
+  errors: number; // replays that could not run
+  invalid_input: number; // logged payloads the draft's input schema rejects
+  not_replayable: number; // replays that ran a database query with no logged rows
+  incomplete: number; // replays missing at least one stored response
+  matrix: Record<string, Record<string, number>>; // original decision → backtest decision → count
+  swaps: Record<SwapType, number>;
+  by_rule: { swap: SwapType; rule: string; count: number }[];
+}
+
+export interface BacktestResult {
+  id: string;
+  application_id: string;
+  api_request_id: string | null;
+  requested_at: Date;
+  original_decision: string;
+  original_rule: string | null;
+  backtest_decision: string;
+  backtest_rule: string | null;
+  backtest_reason: string | null;
+  swap: SwapType | null;
+  swap_rule: string | null;
+  missing_responses: ReplayCall[];
+  execution_trace?: any[];
+}
+
+export interface BacktestInput {
+  date_from: Date;
+  date_to: Date;
+  parameter_set_id?: string;
+  source_policy_id?: string;
+}
+
+export class BacktestError extends Error {
+  status: number; // HTTP status the API answers with
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'BacktestError';
+    this.status = status;
+  }
+}
+
+const PAGE_SIZE = 100;
+const BACKTEST_STALE_AFTER_MS = 10 * 60 * 1000;
+
+/**
+ * Mark a policy's running backtests that stopped reporting progress as failed
+ */
+const failStaleBacktests = async (policyId: string): Promise<void> => {
+  const result = await pool.query(
+    `UPDATE backtests
+     SET status = 'failed', error_message = 'Interrupted: the job stopped reporting progress (the server may have restarted)',
+       completed_at = NOW()
+     WHERE policy_id = $1 AND status = 'running' AND heartbeat_at < NOW() - ($2 || ' milliseconds')::interval
+     RETURNING id`,
+    [policyId, BACKTEST_STALE_AFTER_MS]
+  );
+  result.rows.forEach(row => logger.warn(`Backtest ${row.id} marked failed: no progress for ${BACKTEST_STALE_AFTER_MS}ms`));
+};
+
+const RESULT_COLUMNS = `id, application_id, api_request_id, requested_at, original_decision, original_rule,
+  backtest_decision, backtest_rule, backtest_reason, swap, swap_rule, missing_responses`;
+
+// Logged requests of the backtest's product (or source policy) in its date range
+const sourceFilter = (backtest: { product_type: string; source_policy_id: string | null }, params: any[]): string => {
+  params.push(backtest.product_type);
+  let where = `p.product_type = $${params.length}
+    AND r.created_at >= $1 AND r.created_at <= $2
+    AND r.decision IN ('approved', 'rejected', 'manual_review')`;
+  if (backtest.source_policy_id) {
+    params.push(backtest.source_policy_id);
+    where += ` AND r.policy_id = $${params.length}`;
+  }
+  return where;
+};
+
+/**
+ * Answers a replayed call from what was logged for the original request:
+ * connector_logs for data sources (matched on connector and params) and
+ * api_call_logs for API calls (matched on application, method, URL and
+ * body) and connector_logs again for database queries (matched on
+ * connector, statement and params), taking the latest successful response
+ * logged up to the request. Queries logged before rows were kept stay
+ * unanswered.
+ */
+// The statement as queryDatabaseConnector logs it
+const loggedStatement = (sql: string): string => {
+  try {
+    return assertReadOnlySQL(sql);
+  } catch (error) {
+    return sql;
+  }
+};
+
+const createReplayLookup = (applicationId: string, requestedAt: Date, missing: ReplayCall[]): ReplayLookup =>
+  async (call: ReplayCall) => {
+    let result = { rows: [] as any[] };
+
+    if (call.kind === 'connector') {
+      result = await pool.query(
+        `SELECT response_data FROM connector_logs
+         WHERE connector_id = $1 AND request_data = $2::jsonb
+           AND status_code BETWEEN 200 AND 299 AND created_at <= $3
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [call.connector_id, JSON.stringify(call.params || {}), requestedAt]
+      );
+    } else if (call.kind === 'api') {
+      result = await pool.query(
+        `SELECT response_data FROM api_call_logs
+         WHERE application_id = $1 AND method = $2 AND url = $3
+           AND COALESCE(request_data->'body', '{}'::jsonb) = $4::jsonb
+           AND status_code BETWEEN 200 AND 299 AND created_at <= $5
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [applicationId, call.method, call.url, JSON.stringify(call.body || {}), requestedAt]
+      );
+    } else if (call.kind === 'database') {
+      result = await pool.query(
+        `SELECT response_data FROM connector_logs
+         WHERE connector_id = $1 AND request_data = $2::jsonb AND response_data ? 'rows'
+           AND status_code BETWEEN 200 AND 299 AND created_at <= $3
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [call.connector_id, JSON.stringify({ sql: loggedStatement(call.query), params: call.params || [] }), requestedAt]
+      );
+    }
+
+    if (result.rows.length === 0) {
+      missing.push(call);
+      return undefined;
+    }
+    return result.rows[0].response_data;
+  };
+
+const replayRequest = async (
+  backtestId: string,
+  policyId: string,
+  workflow: Workflow,
+  plan: ExecutionPlan,
+  parameters: ParameterValues,
+  labels: Map<string, string>,
+  row: any
+): Promise<void> => {
+  const original = row.response_data || {};
+  const originalDecision = row.decision as BacktestDecision;
+  const originalRule = findDecidingRule({ ...original, decision: originalDecision }, labels);
+  const asOf = original.evaluation_date ? new Date(original.evaluation_date) : new Date(row.created_at);
+  const missing: ReplayCall[] = [];
+
+  let decision: string;
+  let reason: string;
+  let rule: string | null = null;
+  let swap: SwapType | null = null;
+  let swapRule: string | null = null;
+  let trace: any[] | null = null;
+
+  try {
+    const input = applyInputSchema(workflow, row.request_data?.applicant || {});
+    if (!input.valid) {
+      decision = 'invalid_input';
+      reason = input.violations.map(v => `${v.path}: ${v.message}`).join('; ');
+    } else {
+      const result = await executeWorkflow(workflow, input.value, policyId, row.application_id, {
+        plan,
+        parameters,
+        as_of: asOf,
+        replay: createReplayLookup(row.application_id, new Date(row.created_at), missing),
+      });
+
+      const replayedRule = findDecidingRule(result, labels);
+      const unansweredQueries = missing.filter(call => call.kind === 'database');
+      decision = result.success ? result.decision : 'error';
+      reason = result.reason;
+      rule = replayedRule.label;
+
+      if (unansweredQueries.length > 0) {
+        // Scoring on rows the query never returned would report false swaps
+        decision = 'not_replayable';
+        reason = `No logged rows for the database query at ${Array.from(new Set(unansweredQueries.map(call => call.node_id))).join(', ')}`;
+        rule = null;
+      } else if (result.success) {
+        swap = classifySwap(originalDecision, result.decision);
+        if (swap) {
+          swapRule = attributeSwap(result.decision, originalRule, replayedRule).label;
+        }
+      }
+      if (swap || !result.success) {
+        trace = result.execution_trace;
+      }
+    }
+  } catch (error) {
+    decision = 'error';
+    reason = error.message;
+  }
+
+  await pool.query(
+    `INSERT INTO backtest_results (backtest_id, api_request_id, application_id, requested_at, original_decision, original_rule,
+       backtest_decision, backtest_rule, backtest_reason, swap, swap_rule, missing_responses, execution_trace)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+    [
+      backtestId,
+      row.id,
+      row.application_id,
+      row.created_at,
+      originalDecision,
+      originalRule.label,
+      decision,
+      rule,
+      reason,
+      swap,
+      swapRule,
+      JSON.stringify(missing),
+      trace ? JSON.stringify(trace) : null,
+    ]
+  );
+};
+
+const summarizeBacktest = async (backtestId: string): Promise<BacktestSummary> => {
+  const matrixResult = await pool.query(
+    `SELECT original_decision, backtest_decision, COUNT(*)::int AS count,
+       COUNT(*) FILTER (WHERE jsonb_array_length(missing_responses) > 0)::int AS incomplete
+     FROM backtest_results
+     WHERE backtest_id = $1
+     GROUP BY original_decision, backtest_decision`,
+    [backtestId]
+  );
+  const ruleResult = await pool.query(
+    `SELECT swap, swap_rule AS rule, COUNT(*)::int AS count
+     FROM backtest_results
+     WHERE backtest_id = $1 AND swap IS NOT NULL
+     GROUP BY swap, swap_rule
+     ORDER BY count DESC, swap_rule`,
+    [backtestId]
+  );
+
+  const summary: BacktestSummary = {
+    replayed: 0,
+    unchanged: 0,
+    errors: 0,
+    invalid_input: 0,
+    not_replayable: 0,
+    incomplete: 0,
+    matrix: {},
+    swaps: { approved_to_rejected: 0, rejected_to_approved: 0, to_manual_review: 0, from_manual_review: 0 },
+    by_rule: ruleResult.rows,
+  };
+
+  matrixResult.rows.forEach(row => {
+    summary.replayed += row.count;
+    summary.incomplete += row.incomplete;
+    summary.matrix[row.original_decision] = { ...summary.matrix[row.original_decision], [row.backtest_decision]: row.count };
+
+    if (row.backtest_decision === 'error') {
+      summary.errors += row.count;
+    } else if (row.backtest_decision === 'invalid_input') {
+      summary.invalid_input += row.count;
+    } else if (row.backtest_decision === 'not_replayable') {
+      summary.not_replayable += row.count;
+    } else if (row.backtest_decision === row.original_decision) {
+      summary.unchanged += row.count;
+    } else if (BACKTEST_DECISIONS.includes(row.backtest_decision)) {
+      summary.swaps[classifySwap(row.original_decision, row.backtest_decision)] += row.count;
+    }
+  });
+
+  return summary;
+};
+
+const runBacktest = async (
+  backtest: Backtest & { product_type: string },
+  workflow: Workflow,
+  parameters: ParameterValues
+): Promise<void> => {
+  try {
+    const plan = compileExecutionPlan(workflow, { policy_id: backtest.policy_id, parameters });
+    const labels = nodeLabelsOf(workflow);
+
+    let after: { created_at: Date; id: string } | null = null;
+    let processed = 0;
+
+    while (true) {
+      const status = await pool.query('SELECT status FROM backtests WHERE id = $1', [backtest.id]);
+      if (status.rows[0]?.status !== 'running') {
+        logger.info(`Backtest ${backtest.id} ${status.rows[0]?.status || 'deleted'}; stopping`);
+        return;
+      }
+
+      const params: any[] = [backtest.date_from, backtest.date_to];
+      let where = sourceFilter(backtest, params);
+      if (after) {
+        params.push(after.created_at, after.id);
+        where += ` AND (r.created_at, r.id) > ($${params.length - 1}, $${params.length})`;
+      }
+      params.push(Math.min(PAGE_SIZE, backtest.total - processed));
+
+      const page = await pool.query(
+        `SELECT r.id, r.application_id, r.request_data, r.response_data, r.decision, r.created_at
+         FROM api_requests r
+         JOIN policies p ON p.id = r.policy_id
+         WHERE ${where}
+         ORDER BY r.created_at, r.id
+         LIMIT $${params.length}`,
+        params
+      );
+      if (page.rows.length === 0) break;
+
+      for (const row of page.rows) {
+        await replayRequest(backtest.id, backtest.policy_id, workflow, plan, parameters, labels, row);
+      }
+      processed += page.rows.length;
+      const last = page.rows[page.rows.length - 1];
+      after = { created_at: last.created_at, id: last.id };
+
+      await pool.query('UPDATE backtests SET processed = $1, heartbeat_at = NOW() WHERE id = $2', [processed, backtest.id]);
+      if (processed >= backtest.total) break;
+    }
+
+    const summary = await summarizeBacktest(backtest.id);
+    await pool.query(
+      `UPDATE backtests SET status = 'completed', summary = $1, completed_at = NOW()
+       WHERE id = $2 AND status = 'running'`,
+      [JSON.stringify(summary), backtest.id]
+    );
+    logger.info(`Backtest ${backtest.id} completed: ${processed} applications replayed`);
+  } catch (error) {
+    logger.error(`Backtest ${backtest.id} failed: ${error.message}`);
+    await pool.query(
+      `UPDATE backtests SET status = 'failed', error_message = $1, completed_at = NOW() WHERE id = $2`,
+      [error.message, backtest.id]
+    ).catch(updateError => logger.error(`Mark backtest failed error: ${updateError.message}`));
+  }
+};
+
+/**
+ * Start replaying a date range of logged applications through the policy's
+ * current workflow. Returns once the job is recorded; it runs in the
+ * background.
+ */
+export const startBacktest = async (policyId: string, input: BacktestInput, userId: string): Promise<Backtest> => {
+  try {
+    if (!input.date_from || !input.date_to || input.date_from > input.date_to) {
+      throw new BacktestError('date_from and date_to must be dates, date_from first');
+    }
+
+    const policy = await getPolicyById(policyId);
+    if (!policy) {
+      throw new BacktestError('Policy not found', 404);
+    }
+    if (policy.is_fragment) {
+      throw new BacktestError('Library fragments cannot be backtested; backtest a policy that calls them');
+    }
+
+    // The approved parameters, or a pending change under review
+    const parameters = input.parameter_set_id
+      ? await getParameterSetValues(policyId, input.parameter_set_id)
+      : await getParameterValues(policyId);
+    if (!parameters) {
+      throw new BacktestError('Parameter set not found', 404);
+    }
+
+    await failStaleBacktests(policyId);
+    const running = await pool.query(
+      `SELECT id FROM backtests WHERE policy_id = $1 AND status = 'running'`,
+      [policyId]
+    );
+    if (running.rows.length > 0) {
+      throw new BacktestError('A backtest of this policy is already running; wait for it or cancel it', 409);
+    }
+
+    const source = { product_type: policy.product_type, source_policy_id: input.source_policy_id || null };
+    const countParams: any[] = [input.date_from, input.date_to];
+    const count = await pool.query(
+      `SELECT COUNT(*)::int AS total
+       FROM api_requests r
+       JOIN policies p ON p.id = r.policy_id
+       WHERE ${sourceFilter(source, countParams)}`,
+      countParams
+    );
+    const total = count.rows[0].total;
+    if (total === 0) {
+      throw new BacktestError('No decided applications were logged in that range');
+    }
+    if (total > config.BACKTEST_MAX_APPLICATIONS) {
+      throw new BacktestError(
+        `${total} applications were logged in that range; backtests replay at most ${config.BACKTEST_MAX_APPLICATIONS}. Narrow the range.`
+      );
+    }
+
+    const result = await pool.query(
+      `INSERT INTO backtests (policy_id, workflow_json, parameter_set_id, source_policy_id, date_from, date_to, total, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        policyId,
+        JSON.stringify(policy.workflow_json),
+        input.parameter_set_id || null,
+        source.source_policy_id,
+        input.date_from,
+        input.date_to,
+        total,
+        userId,
+      ]
+    );
+    const backtest: Backtest = result.rows[0];
+
+    runBacktest({ ...backtest, product_type: policy.product_type }, policy.workflow_json, parameters);
+    logger.info(`Backtest ${backtest.id} started on ${policy.name}: ${total} applications`);
+
+    const { workflow_json, ...summary } = backtest as any;
+    return summary;
+  } catch (error) {
+    logger.error(`Start backtest error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * A policy's backtests, newest first
+ */
+export const getBacktests = async (policyId: string): Promise<Backtest[]> => {
+  try {
+    await failStaleBacktests(policyId);
+    const result = await pool.query(
+      `SELECT b.id, b.policy_id, b.parameter_set_id, b.source_policy_id, b.date_from, b.date_to, b.status,
+         b.total, b.processed, b.summary, b.error_message, b.created_by, b.created_at, b.completed_at,
+         u.full_name AS created_by_name
+       FROM backtests b
+       LEFT JOIN users u ON u.id = b.created_by
+       WHERE b.policy_id = $1
+       ORDER BY b.created_at DESC`,
+      [policyId]
+    );
+
+    return result.rows;
+  } catch (error) {
+    logger.error(`Get backtests error: ${error.message}`);
+    throw error;
+  }
+};
+
+export const getBacktest = async (policyId: string, backtestId: string): Promise<Backtest | null> => {
+  try {
+    const result = await pool.query(
+      `SELECT b.id, b.policy_id, b.parameter_set_id, b.source_policy_id, b.date_from, b.date_to, b.status,
+         b.total, b.processed, b.summary, b.error_message, b.created_by, b.created_at, b.completed_at,
+         u.full_name AS created_by_name
+       FROM backtests b
+       LEFT JOIN users u ON u.id = b.created_by
+       WHERE b.id = $1 AND b.policy_id = $2`,
+      [backtestId, policyId]
+    );
+
+    return result.rows[0] || null;
+  } catch (error) {
+    logger.error(`Get backtest error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Stop a running backtest after the page it is replaying
+ */
+export const cancelBacktest = async (policyId: string, backtestId: string): Promise<void> => {
+  try {
+    const result = await pool.query(
+      `UPDATE backtests SET status = 'cancelled', completed_at = NOW()
+       WHERE id = $1 AND policy_id = $2 AND status = 'running'`,
+      [backtestId, policyId]
+    );
+    if (result.rowCount === 0) {
+      throw new BacktestError('Backtest not found or not running', 404);
+    }
+  } catch (error) {
+    logger.error(`Cancel backtest error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Page through a backtest's applications: all, one swap type or those
+ * attributed to one rule
+ */
+export const getBacktestResults = async (
+  policyId: string,
+  backtestId: string,
+  query: { swap?: SwapType | 'any'; rule?: string; page?: number; limit?: number } = {}
+): Promise<{ results: BacktestResult[]; total: number }> => {
+  try {
+    const backtest = await getBacktest(policyId, backtestId);
+    if (!backtest) {
+      throw new BacktestError('Backtest not found', 404);
+    }
+
+    const page = query.page || 1;
+    const limit = Math.min(query.limit || 50, 500);
+    const params: any[] = [backtestId];
+    let where = 'backtest_id = $1';
+    if (query.swap === 'any') {
+      where += ' AND swap IS NOT NULL';
+    } else if (query.swap) {
+      params.push(query.swap);
+      where += ` AND swap = $${params.length}`;
+    }
+    if (query.rule) {
+      params.push(query.rule);
+      where += ` AND swap_rule = $${params.length}`;
+    }
+
+    const count = await pool.query(`SELECT COUNT(*) FROM backtest_results WHERE ${where}`, params);
+    const result = await pool.query(
+      `SELECT ${RESULT_COLUMNS}
+       FROM backtest_results
+       WHERE ${where}
+       ORDER BY requested_at, application_id
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    return { results: result.rows, total: parseInt(count.rows[0].count) };
+  } catch (error) {
+    logger.error(`Get backtest results error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * One replayed application with its trace and the original request
+ */
+export const getBacktestResult = async (
+  policyId: string,
+  backtestId: string,
+  resultId: string
+): Promise<(BacktestResult & { request_data: any; original_response: any }) | null> => {
+  try {
+    const result = await pool.query(
+      `SELECT br.*, r.request_data, r.response_data AS original_response
+       FROM backtest_results br
+       JOIN backtests b ON b.id = br.backtest_id
+       LEFT JOIN api_requests r ON r.id = br.api_request_id
+       WHERE br.id = $1 AND br.backtest_id = $2 AND b.policy_id = $3`,
+      [resultId, backtestId, policyId]
+    );
+
+    return result.rows[0] || null;
+  } catch (error) {
+    logger.error(`Get backtest result error: ${error.message}`);
+    throw error;
+  }
+};
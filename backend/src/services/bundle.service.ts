@@ -0,0 +1,600 @@
+import { pool } from '../config/database';
+import logger from '../utils/logger';
+import { config } from '../config/env';
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_FORMAT_VERSION,
+  BundleConnectorRef,
+  BundleReferenceTable,
+  BundleSignatureStatus,
+  BundleSubPolicyRef,
+  PolicyBundle,
+  PolicyBundleContent,
+  computeBundleChecksum,
+  connectorRef,
+  getUnresolvedRefs,
+  getWorkflowConnectorIds,
+  policyRef,
+  rewriteWorkflowRefs,
+  signBundleChecksum,
+  validateBundleShape,
+  verifyBundle,
+} from '../engine/bundle';
+import { compileExecutionPlan } from '../engine/execution-plan';
+import { getNegativeListRefs } from '../engine/negative-lists';
+import { getParameterReferences } from '../engine/parameters';
+import { getSubPolicyReferences } from '../engine/sub-policy';
+import { canonicalJson } from '../engine/policy-diff';
+import { Workflow } from '../engine/workflow-executor';
+import { getAllConnectors, getConnectorById } from './connector.service';
+import {
+  Policy,
+  createPolicy,
+  getPolicyById,
+  getPolicyVersion,
+  publishPolicyVersion,
+  updatePolicy,
+  validatePolicy,
+} from './policy.service';
+import { getEffectiveParameterSet, getParameterValues, proposeParameterChange } from './parameter.service';
+import {
+  getReferenceTableDependents,
+  getReferenceTableVersion,
+  saveReferenceTableVersion,
+} from './reference-table.service';
+import { getNegativeList } from './negative-list.service';
+
+/**
+ * Policy bundle export and import
+ *
+ * Import runs in two steps: a preview resolving every dependency of the
+ * bundle in this environment (connectors by name or provider, sub-policies
+ * by name, reference tables by content, negative lists by name) and the
+ * import itself, refused while the preview reports errors. When a policy
+ * with the bundle's name exists, the conflict strategy decides:
+ *
+ *   new_policy   create a separate draft policy
+ *   new_version  replace the existing policy's workflow and publish it as
+ *                its next version
+ *   abort        refuse the import (the default)
+ *
+ * Parameters arrive as a pending change for maker-checker approval, as when
+ * a policy is cloned. Reference tables whose rows differ from every local
+ * version are uploaded as a new version.
+ */
+
+export type ImportStrategy = 'new_policy' | 'new_version' | 'abort';
+
+export const IMPORT_STRATEGIES: ImportStrategy[] = ['new_policy', 'new_version', 'abort'];
+
+export interface ImportOptions {
+  strategy?: ImportStrategy;
+  name?: string; // name of a new policy; defaults to the bundle's
+  target_policy_id?: string; // policy new_version applies to; defaults to the one named like the bundle
+  mappings?: Record<string, string>; // bundle reference ("connector:1", "policy:1") → local id
+}
+
+export type DependencyStatus = 'resolved' | 'missing' | 'ambiguous';
+
+export interface ConnectorResolution extends BundleConnectorRef {
+  status: DependencyStatus;
+  connector_id: string | null;
+  matched_by: 'mapping' | 'name' | 'provider' | null;
+  candidates: { id: string; name: string }[];
+}
+
+export interface SubPolicyResolution extends BundleSubPolicyRef {
+  status: DependencyStatus;
+  policy_id: string | null;
+  matched_by: 'mapping' | 'name' | null;
+  candidates: { id: string; name: string }[];
+  missing_versions: string[]; // pinned versions the local policy has not published
+}
+
+export interface ReferenceTableResolution {
+  name: string;
+  version: number;
+  row_count: number;
+  status: 'identical' | 'new_table' | 'new_version';
+  local_version: number | null; // the identical local version
+  readers: { id: string; name: string }[]; // local policies reading the table
+}
+
+export interface ImportPreview {
+  checksum_valid: boolean;
+  signature: BundleSignatureStatus;
+  policy: PolicyBundleContent['policy'];
+  conflict: { policy_id: string; name: string; status: string; version: string } | null;
+  connectors: ConnectorResolution[];
+  sub_policies: SubPolicyResolution[];
+  reference_tables: ReferenceTableResolution[];
+  negative_lists: { name: string; exists: boolean }[];
+  parameters: number;
+  test_cases: number;
+  errors: string[]; // block the import
+  warnings: string[];
+}
+
+export interface ImportResult {
+  policy: Policy;
+  action: 'created' | 'new_version';
+  version: string;
+  parameter_set_id: string | null; // pending parameter change, when one was proposed
+  reference_tables: { name: string; version: number; status: ReferenceTableResolution['status'] }[];
+  test_cases_imported: number;
+}
+
+export class BundleError extends Error {
+  status: number; // HTTP status the API answers with
+  details?: string[];
+
+  constructor(message: string, status: number = 400, details?: string[]) {
+    super(message);
+    this.name = 'BundleError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Export a policy's saved workflow with everything it needs elsewhere
+ */
+export const exportPolicyBundle = async (policyId: string): Promise<PolicyBundle> => {
+  try {
+    const policy = await getPolicyById(policyId);
+    if (!policy) {
+      throw new BundleError('Policy not found', 404);
+    }
+    const workflow: Workflow = policy.workflow_json || { nodes: [], edges: [] };
+
+    const connectorRefs = new Map<string, string>();
+    const connectors: BundleConnectorRef[] = [];
+    for (const id of getWorkflowConnectorIds(workflow)) {
+      const connector = await getConnectorById(id);
+      if (!connector) {
+        throw new BundleError(`The workflow uses connector ${id}, which no longer exists`);
+      }
+      const ref = connectorRef(connectors.length);
+      connectorRefs.set(id, ref);
+      connectors.push({ ref, name: connector.name, type: connector.type, provider: connector.provider || null });
+    }
+
+    const policyRefs = new Map<string, string>();
+    const subPolicies: BundleSubPolicyRef[] = [];
+    for (const call of getSubPolicyReferences(workflow)) {
+      if (!call.policy_id || policyRefs.has(call.policy_id)) continue;
+      const child = await getPolicyById(call.policy_id);
+      if (!child) {
+        throw new BundleError(`Sub-policy node "${call.label}" calls a policy that no longer exists`);
+      }
+      const ref = policyRef(subPolicies.length);
+      policyRefs.set(call.policy_id, ref);
+      subPolicies.push({ ref, name: child.name, product_type: child.product_type, is_fragment: !!child.is_fragment });
+    }
+
+    const tables: BundleReferenceTable[] = [];
+    for (const tableRef of compileExecutionPlan(workflow, { policy_id: policyId }).reference_tables) {
+      const version = await getReferenceTableVersion(tableRef.name, tableRef.version);
+      if (!version) {
+        throw new BundleError(tableRef.version
+          ? `Reference table "${tableRef.name}" has no version ${tableRef.version}`
+          : `Reference table "${tableRef.name}" does not exist`);
+      }
+      if (tables.some(table => table.name === tableRef.name && table.version === version.version)) continue;
+      const table = await pool.query('SELECT description FROM reference_tables WHERE name = $1', [tableRef.name]);
+      tables.push({
+        name: tableRef.name,
+        version: version.version,
+        description: table.rows[0]?.description || null,
+        key_column: version.key_column,
+        columns: version.columns,
+        rows: version.rows,
+      });
+    }
+
+    const parameters = await getEffectiveParameterSet(policyId);
+    const testCases = await pool.query(
+      'SELECT name, input_data, expected_decision FROM test_cases WHERE policy_id = $1 ORDER BY created_at',
+      [policyId]
+    );
+
+    const content: PolicyBundleContent = {
+      policy: {
+        name: policy.name,
+        description: policy.description || null,
+        product_type: policy.product_type,
+        is_fragment: !!policy.is_fragment,
+        version: policy.version,
+      },
+      workflow: rewriteWorkflowRefs(workflow, { connectors: connectorRefs, policies: policyRefs }),
+      parameters: parameters?.parameters || [],
+      parameter_version: parameters?.version ?? null,
+      reference_tables: tables,
+      test_cases: testCases.rows,
+      connectors,
+      sub_policies: subPolicies,
+      negative_lists: getNegativeListRefs(workflow),
+    };
+
+    const unsigned = {
+      format: BUNDLE_FORMAT,
+      format_version: BUNDLE_FORMAT_VERSION,
+      exported_at: new Date().toISOString(),
+      content,
+    };
+    const checksum = computeBundleChecksum(unsigned);
+
+    logger.info(`Policy bundle exported: ${policyId}`);
+
+    return {
+      ...unsigned,
+      checksum,
+      signature: config.BUNDLE_SIGNING_SECRET ? signBundleChecksum(checksum, config.BUNDLE_SIGNING_SECRET) : null,
+    };
+  } catch (error) {
+    logger.error(`Export policy bundle error: ${error.message}`);
+    throw error;
+  }
+};
+
+const sameName = (a: string | null | undefined, b: string | null | undefined): boolean =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const resolveConnectors = async (
+  refs: BundleConnectorRef[],
+  mappings: Record<string, string>
+): Promise<ConnectorResolution[]> => {
+  const active = await getAllConnectors({ is_active: true });
+
+  return Promise.all(refs.map(async (ref): Promise<ConnectorResolution> => {
+    const resolution = (status: DependencyStatus, matched: typeof active, matchedBy: ConnectorResolution['matched_by']) => ({
+      ...ref,
+      status,
+      connector_id: status === 'resolved' ? matched[0].id : null,
+      matched_by: status === 'resolved' ? matchedBy : null,
+      candidates: matched.map(connector => ({ id: connector.id, name: connector.name })),
+    });
+
+    if (mappings[ref.ref]) {
+      const mapped = await getConnectorById(mappings[ref.ref]);
+      return mapped && mapped.is_active ? resolution('resolved', [mapped], 'mapping') : resolution('missing', [], null);
+    }
+
+    const byName = active.filter(connector => connector.type === ref.type && sameName(connector.name, ref.name));
+    if (byName.length > 0) {
+      return resolution(byName.length === 1 ? 'resolved' : 'ambiguous', byName, 'name');
+    }
+    const byProvider = active.filter(connector => connector.type === ref.type && sameName(connector.provider, ref.provider));
+    if (byProvider.length > 0) {
+      return resolution(byProvider.length === 1 ? 'resolved' : 'ambiguous', byProvider, 'provider');
+    }
+    return resolution('missing', [], null);
+  }));
+};
+
+const resolveSubPolicies = async (
+  refs: BundleSubPolicyRef[],
+  workflow: Workflow,
+  mappings: Record<string, string>
+): Promise<SubPolicyResolution[]> => {
+  const calls = getSubPolicyReferences(workflow);
+
+  return Promise.all(refs.map(async (ref): Promise<SubPolicyResolution> => {
+    let matched: { id: string; name: string }[];
+    let matchedBy: SubPolicyResolution['matched_by'] = null;
+    if (mappings[ref.ref]) {
+      const mapped = await getPolicyById(mappings[ref.ref]);
+      matched = mapped ? [{ id: mapped.id, name: mapped.name }] : [];
+      matchedBy = 'mapping';
+    } else {
+      const result = await pool.query(
+        `SELECT id, name FROM policies
+         WHERE LOWER(name) = LOWER($1) AND is_fragment = $2 AND status <> 'archived'`,
+        [ref.name, ref.is_fragment]
+      );
+      matched = result.rows;
+      matchedBy = 'name';
+    }
+
+    const status: DependencyStatus = matched.length === 1 ? 'resolved' : matched.length === 0 ? 'missing' : 'ambiguous';
+    const missingVersions: string[] = [];
+    if (status === 'resolved') {
+      const pinned = Array.from(new Set(calls.filter(call => call.policy_id === ref.ref).map(call => call.version)));
+      for (const version of pinned) {
+        if (version && !(await getPolicyVersion(matched[0].id, version))) {
+          missingVersions.push(version);
+        }
+      }
+    }
+
+    return {
+      ...ref,
+      status,
+      policy_id: status === 'resolved' ? matched[0].id : null,
+      matched_by: status === 'resolved' ? matchedBy : null,
+      candidates: matched,
+      missing_versions: missingVersions,
+    };
+  }));
+};
+
+/**
+ * Find a local version with the bundled rows. A table the workflow reads
+ * without pinning a version only matches its current version.
+ */
+const resolveReferenceTable = async (table: BundleReferenceTable, workflow: Workflow): Promise<ReferenceTableResolution> => {
+  const refs = compileExecutionPlan(workflow, { policy_id: 'bundle' }).reference_tables.filter(ref => ref.name === table.name);
+  const readsCurrent = refs.some(ref => !ref.version);
+
+  const local = await pool.query('SELECT current_version FROM reference_tables WHERE name = $1', [table.name]);
+  const base = { name: table.name, version: table.version, row_count: table.rows.length };
+  if (local.rows.length === 0) {
+    return { ...base, status: 'new_table', local_version: null, readers: [] };
+  }
+
+  const content = canonicalJson({ key_column: table.key_column, columns: table.columns, rows: table.rows });
+  const versions = await pool.query(
+    `SELECT v.version, v.key_column, v.columns, v.rows
+     FROM reference_table_versions v
+     JOIN reference_tables t ON t.id = v.table_id
+     WHERE t.name = $1 AND v.row_count = $2
+     ORDER BY v.version DESC`,
+    [table.name, table.rows.length]
+  );
+  const identical = versions.rows.find(version =>
+    (!readsCurrent || version.version === local.rows[0].current_version)
+    && canonicalJson({ key_column: version.key_column, columns: version.columns, rows: version.rows }) === content);
+
+  return identical
+    ? { ...base, status: 'identical', local_version: identical.version, readers: [] }
+    : { ...base, status: 'new_version', local_version: null, readers: await getReferenceTableDependents(table.name) };
+};
+
+const findConflict = async (bundle: PolicyBundle, options: ImportOptions): Promise<Policy | null> => {
+  if (options.target_policy_id) {
+    const target = await getPolicyById(options.target_policy_id);
+    if (!target) {
+      throw new BundleError('Target policy not found', 404);
+    }
+    return target;
+  }
+  const result = await pool.query(
+    `SELECT id FROM policies
+     WHERE LOWER(name) = LOWER($1) AND status <> 'archived'
+     ORDER BY updated_at DESC
+     LIMIT 1`,
+    [bundle.content.policy.name]
+  );
+  return result.rows.length > 0 ? getPolicyById(result.rows[0].id) : null;
+};
+
+/**
+ * Resolve a bundle's dependencies here without changing anything
+ */
+export const previewBundleImport = async (bundle: PolicyBundle, options: ImportOptions = {}): Promise<ImportPreview> => {
+  try {
+    const shapeErrors = validateBundleShape(bundle);
+    if (shapeErrors.length > 0) {
+      throw new BundleError('Invalid bundle', 400, shapeErrors);
+    }
+
+    const { content } = bundle;
+    const mappings = options.mappings || {};
+    const { checksum_valid: checksumValid, signature } = verifyBundle(bundle, config.BUNDLE_SIGNING_SECRET);
+    const conflict = await findConflict(bundle, options);
+
+    const connectors = await resolveConnectors(content.connectors, mappings);
+    const subPolicies = await resolveSubPolicies(content.sub_policies, content.workflow, mappings);
+    const tables: ReferenceTableResolution[] = [];
+    for (const table of content.reference_tables) {
+      tables.push(await resolveReferenceTable(table, content.workflow));
+    }
+    const negativeLists = await Promise.all(content.negative_lists.map(async name => ({
+      name,
+      exists: !!(await getNegativeList(name)),
+    })));
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    if (!checksumValid) errors.push('The checksum does not match the bundle; it was changed after export');
+    if (signature === 'invalid') errors.push('The signature does not match; the bundle was not signed with this environment\'s secret');
+    if (signature === 'unsigned') warnings.push('The bundle is not signed, or this environment has no signing secret to check it');
+
+    connectors.forEach(connector => {
+      if (connector.status === 'missing') {
+        errors.push(`No active ${connector.type} connector named "${connector.name}"${connector.provider ? ` or from ${connector.provider}` : ''}; map ${connector.ref} to a local connector`);
+      } else if (connector.status === 'ambiguous') {
+        errors.push(`${connector.candidates.length} connectors match "${connector.name}"; map ${connector.ref} to one of them`);
+      }
+    });
+    subPolicies.forEach(child => {
+      if (child.status === 'missing') {
+        errors.push(`No policy named "${child.name}" to call as a sub-policy; import it first or map ${child.ref}`);
+      } else if (child.status === 'ambiguous') {
+        errors.push(`${child.candidates.length} policies are named "${child.name}"; map ${child.ref} to one of them`);
+      } else if (child.missing_versions.length > 0) {
+        errors.push(`Sub-policy "${child.name}" has no published version ${child.missing_versions.join(', ')} here`);
+      }
+    });
+    negativeLists.filter(list => !list.exists).forEach(list => {
+      errors.push(`Negative list "${list.name}" does not exist here`);
+    });
+    tables.filter(table => table.status === 'new_version' && table.readers.length > 0).forEach(table => {
+      warnings.push(`Reference table "${table.name}" gets a new version; ${table.readers.length} local policies read it and those not pinning a version will use the imported rows`);
+    });
+    if (conflict) {
+      warnings.push(`A policy named "${conflict.name}" already exists (${conflict.status}, version ${conflict.version})`);
+      if (conflict.product_type !== content.policy.product_type) {
+        warnings.push(`The existing policy is for ${conflict.product_type}, the bundle for ${content.policy.product_type}`);
+      }
+      if (conflict.status === 'active') {
+        warnings.push('Importing as a new version changes the decisions of the active policy immediately');
+      }
+      // Publishing needs every referenced parameter approved on the existing policy
+      const { values } = await getParameterValues(conflict.id);
+      const unapproved = getParameterReferences(content.workflow).filter(name => !(name in values));
+      if (unapproved.length > 0) {
+        warnings.push(`The existing policy has no approved value for ${unapproved.join(', ')}; a new version cannot be published until they are approved there`);
+      }
+    }
+
+    return {
+      checksum_valid: checksumValid,
+      signature,
+      policy: content.policy,
+      conflict: conflict
+        ? { policy_id: conflict.id, name: conflict.name, status: conflict.status, version: conflict.version }
+        : null,
+      connectors,
+      sub_policies: subPolicies,
+      reference_tables: tables,
+      negative_lists: negativeLists,
+      parameters: content.parameters.length,
+      test_cases: content.test_cases.length,
+      errors,
+      warnings,
+    };
+  } catch (error) {
+    logger.error(`Preview bundle import error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Import a bundle as a new policy or a new version of an existing one
+ */
+export const importPolicyBundle = async (
+  bundle: PolicyBundle,
+  options: ImportOptions,
+  userId: string
+): Promise<ImportResult> => {
+  try {
+    if (options.strategy && !IMPORT_STRATEGIES.includes(options.strategy)) {
+      throw new BundleError(`strategy must be one of: ${IMPORT_STRATEGIES.join(', ')}`);
+    }
+
+    const preview = await previewBundleImport(bundle, options);
+    if (preview.errors.length > 0) {
+      throw new BundleError('The bundle cannot be imported', 400, preview.errors);
+    }
+
+    const strategy = options.strategy || 'abort';
+    const target = preview.conflict ? await getPolicyById(preview.conflict.policy_id) : null;
+    if (target && strategy === 'abort') {
+      throw new BundleError(`A policy named "${target.name}" already exists; import it as a new policy or a new version`, 409);
+    }
+    if (!target && strategy === 'new_version') {
+      throw new BundleError(`No policy named "${bundle.content.policy.name}" to add a version to`, 404);
+    }
+    const asNewVersion = !!target && strategy === 'new_version';
+    const { content } = bundle;
+
+    // Reference tables first: the workflow must validate against them
+    const tableVersions = new Map<string, Map<number, number>>();
+    const importedTables: ImportResult['reference_tables'] = [];
+    // Oldest first, so a table's current version here ends up the bundle's current one
+    const resolutions = [...preview.reference_tables].sort((a, b) => a.version - b.version);
+    for (const resolution of resolutions) {
+      const table = content.reference_tables.find(t => t.name === resolution.name && t.version === resolution.version)!;
+      let localVersion = resolution.local_version;
+      if (resolution.status !== 'identical') {
+        const saved = await saveReferenceTableVersion(
+          table.name,
+          { key_column: table.key_column, columns: table.columns },
+          table.rows,
+          {
+            description: table.description || undefined,
+            change_notes: `Imported with policy "${content.policy.name}" (version ${table.version} where exported)`,
+          },
+          userId
+        );
+        localVersion = saved.version;
+      }
+      if (!tableVersions.has(table.name)) tableVersions.set(table.name, new Map());
+      tableVersions.get(table.name)!.set(table.version, localVersion!);
+      importedTables.push({ name: table.name, version: localVersion!, status: resolution.status });
+    }
+
+    const workflow = rewriteWorkflowRefs(content.workflow, {
+      connectors: new Map(preview.connectors.map(connector => [connector.ref, connector.connector_id!])),
+      policies: new Map(preview.sub_policies.map(child => [child.ref, child.policy_id!])),
+      tableVersions,
+    });
+    const unresolved = getUnresolvedRefs(workflow);
+    if (unresolved.length > 0) {
+      throw new BundleError(`The workflow refers to ${unresolved.join(', ')}, which the bundle does not list`);
+    }
+
+    const isFragment = asNewVersion ? !!target!.is_fragment : content.policy.is_fragment;
+    const validation = await validatePolicy(workflow, asNewVersion, {
+      policy_id: asNewVersion ? target!.id : undefined,
+      is_fragment: isFragment,
+    });
+    if (!validation.valid) {
+      throw new BundleError('The imported workflow is not valid here', 400, validation.errors);
+    }
+
+    let policyId: string;
+    let version: string;
+    const notes = `Imported from bundle exported ${bundle.exported_at} (version ${content.policy.version})`;
+    if (asNewVersion) {
+      policyId = target!.id;
+      await updatePolicy(policyId, { workflow_json: workflow });
+      version = await publishPolicyVersion(policyId, userId, notes);
+    } else {
+      const name = options.name?.trim() || (target ? `${content.policy.name} (imported)` : content.policy.name);
+      const created = await createPolicy(
+        name,
+        content.policy.description || '',
+        content.policy.product_type,
+        workflow,
+        notes,
+        userId,
+        isFragment
+      );
+      policyId = created.id;
+      version = created.version;
+    }
+
+    // Parameters go through approval like any other change
+    let parameterSetId: string | null = null;
+    const effective = await getEffectiveParameterSet(policyId);
+    if (content.parameters.length > 0 && canonicalJson(effective?.parameters || []) !== canonicalJson(content.parameters)) {
+      const proposed = await proposeParameterChange(
+        policyId,
+        content.parameters,
+        `Imported from bundle (parameter version ${content.parameter_version ?? 'none'} where exported)`,
+        userId
+      );
+      parameterSetId = proposed.id;
+    }
+
+    // Test cases by name; ones the policy already has are kept as they are
+    const existing = await pool.query('SELECT name FROM test_cases WHERE policy_id = $1', [policyId]);
+    const existingNames = new Set(existing.rows.map(row => row.name));
+    let testCasesImported = 0;
+    for (const testCase of content.test_cases) {
+      if (existingNames.has(testCase.name)) continue;
+      await pool.query(
+        `INSERT INTO test_cases (name, policy_id, input_data, expected_decision, created_by)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [testCase.name, policyId, JSON.stringify(testCase.input_data), testCase.expected_decision, userId]
+      );
+      testCasesImported++;
+    }
+
+    logger.info(`Policy bundle imported into ${policyId} (${asNewVersion ? `version ${version}` : 'new policy'}) by user ${userId}`);
+
+    return {
+      policy: await getPolicyById(policyId),
+      action: asNewVersion ? 'new_version' : 'created',
+      version,
+      parameter_set_id: parameterSetId,
+      reference_tables: importedTables,
+      test_cases_imported: testCasesImported,
+    };
+  } catch (error) {
+    logger.error(`Import policy bundle error: ${error.message}`);
+    throw error;
+  }
+};
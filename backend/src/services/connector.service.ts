@@ -3,6 +3,8 @@ import { redis } from '../config/database';
 import { encryptData, decryptData } from '../utils/encryption';
 import logger from '../utils/logger';
 import axios, { AxiosRequestConfig } from 'axios';
+import { Pool } from 'pg';
+import { invalidatePlansUsingConnector } from '../engine/execution-plan';
 
 export interface Connector {
   id: string;
@@ -26,6 +28,13 @@ export interface ConnectorConfig {
   cache_ttl?: number;
   headers?: Record<string, string>;
   params?: Record<string, any>;
+  // database connectors
+  connection_string?: string;
+  ssl?: boolean;
+  ssl_ca?: string; // PEM certificate of a private CA the server certificate chains to
+  ssl_skip_verify?: boolean; // accept any server certificate; explicit opt-out only
+  max_rows?: number;
+  statement_timeout_ms?: number;
 }
 
 /**
@@ -169,6 +178,8 @@ export const updateConnector = async (
 
     // Clear cache
     await redis.del(`connector:${connectorId}`);
+    await closeDatabasePool(connectorId);
+    invalidatePlansUsingConnector(connectorId);
 
     logger.info(`Connector updated: ${connectorId}`);
   } catch (error) {
@@ -186,6 +197,8 @@ export const deleteConnector = async (connectorId: string): Promise<void> => {
 
     // Clear cache
     await redis.del(`connector:${connectorId}`);
+    await closeDatabasePool(connectorId);
+    invalidatePlansUsingConnector(connectorId);
 
     logger.info(`Connector deleted: ${connectorId}`);
   } catch (error) {
@@ -277,7 +290,9 @@ export const testConnector = async (connectorId: string): Promise<{
 export const callConnector = async (
   connectorId: string,
   params: Record<string, any>,
-  cacheEnabled: boolean = true
+  cacheEnabled: boolean = true,
+  preloaded?: Connector, // row from a compiled execution plan; skips the lookup
+  signal?: AbortSignal // cancels the call, e.g. for an abandoned parallel branch
 ): Promise<any> => {
   const startTime = Date.now();
 
@@ -293,7 +308,7 @@ export const callConnector = async (
       }
     }
 
-    const connector = await getConnectorById(connectorId);
+    const connector = preloaded || await getConnectorById(connectorId);
 
     if (!connector) {
       throw new Error('Connector not found');
@@ -312,6 +327,7 @@ export const callConnector = async (
       data: params,
       timeout: config.timeout || 10000,
       headers: config.headers || {},
+      signal,
     };
 
     // Add authentication
@@ -345,6 +361,10 @@ export const callConnector = async (
       } catch (error) {
         lastError = error;
 
+        if (signal?.aborted) {
+          break;
+        }
+
         if (attempt < maxRetries) {
           // Exponential backoff
           const delay = Math.pow(2, attempt) * 1000;
@@ -368,6 +388,338 @@ export const callConnector = async (
   }
 };
 
+export interface DatabaseQueryOptions {
+  max_rows?: number;
+  timeout_ms?: number;
+  connector?: Connector; // row from a compiled execution plan; skips the lookup
+  signal?: AbortSignal; // checked before the query starts; a running query is not interrupted
+}
+
+export interface DatabaseQueryResult {
+  rows: Record<string, any>[];
+  row_count: number;
+  truncated: boolean;
+  execution_time_ms: number;
+}
+
+const DEFAULT_MAX_ROWS = 100;
+const DEFAULT_STATEMENT_TIMEOUT_MS = 5000;
+
+const SQL_SKIPPED_TEXT = /--[^\n]*|\/\*[\s\S]*?\*\/|\$([A-Za-z_][A-Za-z0-9_]*)?\$[\s\S]*?\$\1\$|'(?:[^']|'')*'|"(?:[^"]|"")*"/g;
+
+// One pool per database connector, created lazily
+const databasePools = new Map<string, Pool>();
+
+/**
+ * Reject anything but a single statement starting with SELECT or WITH. The
+ * query itself runs in a READ ONLY transaction under a statement timeout,
+ * which is what keeps it from writing.
+ */
+export const assertReadOnlySQL = (sql: string): string => {
+  // Strip comments, string literals (including $tag$ dollar quoting) and
+  // quoted identifiers, whichever opens first, before looking for statement
+  // separators
+  const stripped = sql
+    .replace(SQL_SKIPPED_TEXT, ' ')
+    .trim()
+    .replace(/;\s*$/, '');
+
+  if (stripped.includes(';')) {
+    throw new Error('Only a single SQL statement is allowed');
+  }
+
+  if (!/^(SELECT|WITH)\b/i.test(stripped)) {
+    throw new Error('Only SELECT statements are allowed');
+  }
+
+  return sql.trim().replace(/;\s*$/, '');
+};
+
+const closeDatabasePool = async (connectorId: string): Promise<void> => {
+  const dbPool = databasePools.get(connectorId);
+  if (dbPool) {
+    databasePools.delete(connectorId);
+    await dbPool.end().catch(() => undefined);
+  }
+};
+
+// TLS with certificate verification unless the connector opts out
+const databaseSslOptions = (config: ConnectorConfig) => {
+  if (config.ssl === false) return false;
+  return {
+    rejectUnauthorized: config.ssl_skip_verify !== true,
+    ...(config.ssl_ca ? { ca: config.ssl_ca } : {}),
+  };
+};
+
+const getDatabasePool = (connector: Connector): Pool => {
+  let dbPool = databasePools.get(connector.id);
+
+  if (!dbPool) {
+    const config = connector.config as ConnectorConfig;
+
+    if (!config.connection_string) {
+      throw new Error(`Database connector "${connector.name}" has no connection string`);
+    }
+
+    dbPool = new Pool({
+      connectionString: config.connection_string,
+      max: 5,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 5000,
+      ssl: databaseSslOptions(config),
+    });
+
+    dbPool.on('error', (err) => {
+      logger.error(`Database connector pool error (${connector.name}): ${err.message}`);
+    });
+
+    databasePools.set(connector.id, dbPool);
+  }
+
+  return dbPool;
+};
+
+/**
+ * Run a parameterized, read-only query against a database connector
+ */
+export const queryDatabaseConnector = async (
+  connectorId: string,
+  sql: string,
+  params: any[] = [],
+  options: DatabaseQueryOptions = {}
+): Promise<DatabaseQueryResult> => {
+  const startTime = Date.now();
+
+  try {
+    const connector = options.connector || await getConnectorById(connectorId);
+
+    if (!connector) {
+      throw new Error('Connector not found');
+    }
+
+    if (connector.type !== 'database') {
+      throw new Error(`Connector "${connector.name}" is not a database connector`);
+    }
+
+    if (!connector.is_active) {
+      throw new Error('Connector is not active');
+    }
+
+    const config = connector.config as ConnectorConfig;
+    const statement = assertReadOnlySQL(sql);
+
+    // Node settings may tighten, but never loosen, the connector limits
+    const connectorMaxRows = config.max_rows || DEFAULT_MAX_ROWS;
+    const maxRows = Math.min(options.max_rows || connectorMaxRows, connectorMaxRows);
+    const connectorTimeout = config.statement_timeout_ms || DEFAULT_STATEMENT_TIMEOUT_MS;
+    const timeoutMs = Math.min(options.timeout_ms || connectorTimeout, connectorTimeout);
+
+    if (options.signal?.aborted) {
+      throw new Error('Query cancelled');
+    }
+
+    const client = await getDatabasePool(connector).connect();
+
+    try {
+      await client.query('BEGIN READ ONLY');
+      await client.query(`SET LOCAL statement_timeout = ${Math.floor(timeoutMs)}`);
+
+      // Fetch one extra row to detect truncation
+      const result = await client.query(
+        `SELECT * FROM (\n${statement}\n) AS q LIMIT ${Math.floor(maxRows) + 1}`,
+        params
+      );
+
+      await client.query('ROLLBACK');
+
+      const truncated = result.rows.length > maxRows;
+      const rows = truncated ? result.rows.slice(0, maxRows) : result.rows;
+      const responseTime = Date.now() - startTime;
+
+      // Rows are logged so backtests can replay the query
+      await logConnectorCall(connectorId, { sql: statement, params }, { rows, row_count: rows.length, truncated }, 200, null, responseTime);
+
+      return {
+        rows,
+        row_count: rows.length,
+        truncated,
+        execution_time_ms: responseTime,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    const responseTime = Date.now() - startTime;
+
+    await logConnectorCall(connectorId, { sql, params }, null, 0, error.message, responseTime);
+
+    logger.error(`Database connector query error: ${error.message}`);
+    throw error;
+  }
+};
+
+export interface ExternalAPIRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: any;
+  timeout?: number;
+  retry_count?: number;
+  retry_delay_ms?: number;
+  signal?: AbortSignal;
+}
+
+export interface ExternalAPICallContext {
+  policy_id: string;
+  application_id: string;
+  underwriting_id: string;
+  node_id: string;
+}
+
+export interface ExternalAPIResponse {
+  status_code: number;
+  data: any;
+  attempts: number;
+  response_time_ms: number;
+}
+
+const SENSITIVE_HEADERS = ['authorization', 'x-api-key', 'cookie', 'proxy-authorization'];
+
+/**
+ * Call an ad-hoc HTTP endpoint (apiCall workflow nodes)
+ */
+export const callExternalAPI = async (
+  request: ExternalAPIRequest,
+  callContext: ExternalAPICallContext
+): Promise<ExternalAPIResponse> => {
+  const startTime = Date.now();
+  const method = (request.method || 'GET').toUpperCase();
+  const maxAttempts = (request.retry_count || 0) + 1;
+  const retryDelay = request.retry_delay_ms ?? 500;
+
+  const axiosConfig: AxiosRequestConfig = {
+    method,
+    url: request.url,
+    headers: request.headers || {},
+    timeout: request.timeout || 10000,
+    signal: request.signal,
+  };
+
+  if (method === 'GET' || method === 'DELETE') {
+    if (request.body && Object.keys(request.body).length > 0) {
+      axiosConfig.params = request.body;
+    }
+  } else {
+    axiosConfig.data = request.body;
+  }
+
+  let lastError: any;
+  let attempt = 0;
+
+  while (attempt < maxAttempts) {
+    attempt++;
+
+    try {
+      const response = await axios(axiosConfig);
+      const responseTime = Date.now() - startTime;
+
+      await logExternalAPICall(callContext, method, request, response.data, response.status, null, attempt, responseTime);
+
+      logger.info(`External API call successful: ${method} ${request.url}`);
+
+      return {
+        status_code: response.status,
+        data: response.data,
+        attempts: attempt,
+        response_time_ms: responseTime,
+      };
+    } catch (error) {
+      lastError = error;
+
+      // Client errors will not succeed on retry, nor will a cancelled call
+      const status = error.response?.status;
+      if ((status && status >= 400 && status < 500) || request.signal?.aborted) {
+        break;
+      }
+
+      if (attempt < maxAttempts) {
+        // Exponential backoff
+        const delay = Math.pow(2, attempt - 1) * retryDelay;
+        await new Promise(resolve => setTimeout(resolve, delay));
+        logger.warn(`External API call failed, retrying (${attempt}/${maxAttempts - 1})...`);
+      }
+    }
+  }
+
+  const responseTime = Date.now() - startTime;
+
+  await logExternalAPICall(
+    callContext,
+    method,
+    request,
+    lastError.response?.data ?? null,
+    lastError.response?.status || 0,
+    lastError.message,
+    attempt,
+    responseTime
+  );
+
+  logger.error(`External API call error: ${method} ${request.url} - ${lastError.message}`);
+  throw lastError;
+};
+
+/**
+ * Mask credentials in request headers before they are persisted
+ */
+const maskHeaders = (headers: Record<string, string> = {}): Record<string, string> => {
+  const masked: Record<string, string> = {};
+  Object.keys(headers).forEach(name => {
+    masked[name] = SENSITIVE_HEADERS.includes(name.toLowerCase()) ? '***' : headers[name];
+  });
+  return masked;
+};
+
+/**
+ * Log external API call
+ */
+const logExternalAPICall = async (
+  callContext: ExternalAPICallContext,
+  method: string,
+  request: ExternalAPIRequest,
+  responseData: any,
+  statusCode: number,
+  errorMessage: string | null,
+  attempts: number,
+  executionTimeMs: number
+): Promise<void> => {
+  try {
+    await pool.query(
+      `INSERT INTO api_call_logs (policy_id, application_id, underwriting_id, node_id, method, url, request_data, response_data, status_code, error_message, attempts, execution_time_ms)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        callContext.policy_id,
+        callContext.application_id,
+        callContext.underwriting_id,
+        callContext.node_id,
+        method,
+        request.url,
+        JSON.stringify({ headers: maskHeaders(request.headers), body: request.body ?? null }),
+        responseData ? JSON.stringify(responseData) : null,
+        statusCode,
+        errorMessage,
+        attempts,
+        executionTimeMs,
+      ]
+    );
+  } catch (error) {
+    logger.error(`Log external API call error: ${error.message}`);
+  }
+};
+
 /**
  * Log connector call
  */
@@ -2,6 +2,7 @@ import { pool } from '../config/database';
 import logger from '../utils/logger';
 import { generateApiKey, hashApiKey } from '../utils/encryption';
 import { validatePolicy } from './policy.service';
+import { invalidateExecutionPlan } from '../engine/execution-plan';
 
 export interface APIKey {
   id: string;
@@ -213,6 +214,7 @@ export const deployPolicy = async (
         'UPDATE policies SET status = $1 WHERE id = $2',
         ['active', policyId]
       );
+      invalidateExecutionPlan(policyId);
     }
 
     // Log deployment
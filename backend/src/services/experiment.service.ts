@@ -0,0 +1,537 @@
+import { pool } from '../config/database';
+import logger from '../utils/logger';
+import { config } from '../config/env';
+import {
+  ExperimentArmDefinition,
+  ExperimentArmRole,
+  MeanStats,
+  ProportionStats,
+  SIGNIFICANCE_LEVEL,
+  SignificanceTest,
+  compareMeans,
+  compareProportions,
+  getAssignmentBucket,
+  meanStats,
+  pickArm,
+  proportionStats,
+  validateExperimentArms,
+} from '../engine/experiments';
+import { getPolicyById, validatePolicy } from './policy.service';
+
+/**
+ * Champion/challenger experiments
+ *
+ * A running experiment intercepts live requests sent to its champion policy
+ * and lets the arm an application hashes to decide it. The assignment is
+ * logged on the api_requests row, which per-arm results are computed from.
+ * Arms are edited while the experiment is a draft; once started, only
+ * stopping it is possible, so every logged assignment matches the split.
+ */
+
+export type ExperimentStatus = 'draft' | 'running' | 'stopped';
+
+export interface ExperimentArm extends ExperimentArmDefinition {
+  id: string;
+  position: number;
+  policy_name?: string;
+  policy_status?: string;
+}
+
+export interface Experiment {
+  id: string;
+  name: string;
+  description: string | null;
+  product_type: string;
+  status: ExperimentStatus;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+  started_at: Date | null;
+  stopped_at: Date | null;
+  arms: ExperimentArm[];
+}
+
+export interface ExperimentInput {
+  name?: string;
+  description?: string;
+  product_type?: string;
+  arms?: ExperimentArmDefinition[];
+}
+
+export interface ExperimentAssignment {
+  experiment_id: string;
+  arm: string;
+  role: ExperimentArmRole;
+  policy_id: string;
+}
+
+export interface ArmResult {
+  name: string;
+  role: ExperimentArmRole;
+  policy_id: string;
+  policy_name: string;
+  traffic_percent: number;
+  applications: number; // decided (approved, rejected or manual review)
+  errors: number; // system errors, sent to manual review
+  invalid_input: number;
+  share_percent: number; // of all decided applications in the experiment
+  approval: ProportionStats;
+  rejection: ProportionStats;
+  manual_review: ProportionStats;
+  execution_time_ms: MeanStats;
+  avg_credit_score: number | null;
+  // Tests against the champion; absent on the champion arm
+  approval_test?: SignificanceTest | null;
+  rejection_test?: SignificanceTest | null;
+  manual_review_test?: SignificanceTest | null;
+  execution_time_test?: SignificanceTest | null;
+}
+
+export interface ExperimentResults {
+  experiment: Experiment;
+  from: string | null;
+  to: string | null;
+  significance_level: number;
+  arms: ArmResult[];
+}
+
+export class ExperimentError extends Error {
+  status: number; // HTTP status the API answers with
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'ExperimentError';
+    this.status = status;
+  }
+}
+
+// Running experiment per champion policy (null: none), refreshed after the plan TTL or on start/stop
+const runningCache = new Map<string, { experiment: Experiment | null; loaded_at: number }>();
+
+const auditExperiment = async (userId: string, action: string, experimentId: string, details: any): Promise<void> => {
+  try {
+    await pool.query(
+      `INSERT INTO audit_logs (user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, 'experiment', $3, $4)`,
+      [userId, action, experimentId, JSON.stringify(details)]
+    );
+  } catch (auditError) {
+    logger.warn(`Audit logging failed: ${auditError.message}`);
+  }
+};
+
+const loadArms = async (experimentIds: string[]): Promise<Map<string, ExperimentArm[]>> => {
+  const arms = new Map<string, ExperimentArm[]>();
+  if (experimentIds.length === 0) return arms;
+
+  const result = await pool.query(
+    `SELECT a.*, p.name AS policy_name, p.status AS policy_status
+     FROM experiment_arms a
+     LEFT JOIN policies p ON p.id = a.policy_id
+     WHERE a.experiment_id = ANY($1)
+     ORDER BY a.position`,
+    [experimentIds]
+  );
+  result.rows.forEach(row => {
+    const arm: ExperimentArm = { ...row, traffic_percent: parseFloat(row.traffic_percent) };
+    arms.set(row.experiment_id, [...(arms.get(row.experiment_id) || []), arm]);
+  });
+  return arms;
+};
+
+const requireExperiment = async (experimentId: string): Promise<Experiment> => {
+  const experiment = await getExperiment(experimentId);
+  if (!experiment) {
+    throw new ExperimentError('Experiment not found', 404);
+  }
+  return experiment;
+};
+
+/**
+ * Arms must run non-fragment policies of the experiment's product
+ */
+const checkArmPolicies = async (productType: string, arms: ExperimentArmDefinition[]): Promise<void> => {
+  const errors = validateExperimentArms(arms);
+  if (errors.length > 0) {
+    throw new ExperimentError(errors.join('; '));
+  }
+
+  for (const arm of arms) {
+    const policy = await getPolicyById(arm.policy_id);
+    if (!policy) {
+      throw new ExperimentError(`Policy of arm "${arm.name}" not found`);
+    }
+    if (policy.is_fragment) {
+      throw new ExperimentError(`Arm "${arm.name}" runs a library fragment`);
+    }
+    if (policy.product_type !== productType) {
+      throw new ExperimentError(`Arm "${arm.name}" runs a ${policy.product_type} policy, not ${productType}`);
+    }
+  }
+};
+
+const replaceArms = async (client: any, experimentId: string, arms: ExperimentArmDefinition[]): Promise<void> => {
+  await client.query('DELETE FROM experiment_arms WHERE experiment_id = $1', [experimentId]);
+  for (const [position, arm] of arms.entries()) {
+    await client.query(
+      `INSERT INTO experiment_arms (experiment_id, position, name, role, policy_id, traffic_percent)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [experimentId, position, arm.name, arm.role, arm.policy_id, arm.traffic_percent]
+    );
+  }
+};
+
+export const getExperiment = async (experimentId: string): Promise<Experiment | null> => {
+  try {
+    const result = await pool.query('SELECT * FROM experiments WHERE id = $1', [experimentId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const arms = await loadArms([experimentId]);
+    return { ...result.rows[0], arms: arms.get(experimentId) || [] };
+  } catch (error) {
+    logger.error(`Get experiment error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * All experiments, running first
+ */
+export const getAllExperiments = async (filters: { product_type?: string; status?: ExperimentStatus } = {}): Promise<Experiment[]> => {
+  try {
+    const params: any[] = [];
+    let where = 'WHERE 1=1';
+    if (filters.product_type) {
+      params.push(filters.product_type);
+      where += ` AND product_type = $${params.length}`;
+    }
+    if (filters.status) {
+      params.push(filters.status);
+      where += ` AND status = $${params.length}`;
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM experiments ${where}
+       ORDER BY CASE status WHEN 'running' THEN 0 WHEN 'draft' THEN 1 ELSE 2 END, created_at DESC`,
+      params
+    );
+    const arms = await loadArms(result.rows.map(row => row.id));
+
+    return result.rows.map(row => ({ ...row, arms: arms.get(row.id) || [] }));
+  } catch (error) {
+    logger.error(`Get experiments error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Create a draft experiment
+ */
+export const createExperiment = async (input: ExperimentInput, userId: string): Promise<Experiment> => {
+  if (!input.name?.trim() || !input.product_type) {
+    throw new ExperimentError('name and product_type are required');
+  }
+
+  const client = await pool.connect();
+  try {
+    await checkArmPolicies(input.product_type, input.arms || []);
+
+    await client.query('BEGIN');
+    const result = await client.query(
+      `INSERT INTO experiments (name, description, product_type, created_by)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [input.name.trim(), input.description || null, input.product_type, userId]
+    );
+    const experimentId = result.rows[0].id;
+    await replaceArms(client, experimentId, input.arms);
+    await client.query('COMMIT');
+
+    await auditExperiment(userId, 'create_experiment', experimentId, input);
+    logger.info(`Experiment created: ${input.name}`);
+
+    return getExperiment(experimentId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error(`Create experiment error: ${error.message}`);
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Change a draft experiment's name, description or arms
+ */
+export const updateExperiment = async (experimentId: string, updates: ExperimentInput, userId: string): Promise<Experiment> => {
+  const client = await pool.connect();
+  try {
+    const experiment = await requireExperiment(experimentId);
+    if (experiment.status !== 'draft') {
+      throw new ExperimentError('Only draft experiments can be changed', 409);
+    }
+    if (updates.product_type && updates.product_type !== experiment.product_type) {
+      throw new ExperimentError('The product of an experiment cannot change');
+    }
+    if (updates.arms) {
+      await checkArmPolicies(experiment.product_type, updates.arms);
+    }
+
+    await client.query('BEGIN');
+    await client.query(
+      `UPDATE experiments SET name = COALESCE($1, name), description = COALESCE($2, description)
+       WHERE id = $3`,
+      [updates.name?.trim() || null, updates.description ?? null, experimentId]
+    );
+    if (updates.arms) {
+      await replaceArms(client, experimentId, updates.arms);
+    }
+    await client.query('COMMIT');
+
+    await auditExperiment(userId, 'update_experiment', experimentId, {
+      before: { name: experiment.name, description: experiment.description, arms: experiment.arms },
+      after: updates,
+    });
+
+    return getExperiment(experimentId);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error(`Update experiment error: ${error.message}`);
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Start splitting traffic. The champion must be the product's active policy
+ * and every challenger must pass publish validation, as it decides live
+ * applications.
+ */
+export const startExperiment = async (experimentId: string, userId: string): Promise<Experiment> => {
+  try {
+    const experiment = await requireExperiment(experimentId);
+    if (experiment.status !== 'draft') {
+      throw new ExperimentError('Only draft experiments can be started', 409);
+    }
+    await checkArmPolicies(experiment.product_type, experiment.arms);
+
+    for (const arm of experiment.arms) {
+      const policy = await getPolicyById(arm.policy_id);
+      if (arm.role === 'champion' && policy.status !== 'active') {
+        throw new ExperimentError(`The champion "${policy.name}" must be the active ${experiment.product_type} policy`);
+      }
+      const validation = await validatePolicy(policy.workflow_json, true, { policy_id: policy.id });
+      if (!validation.valid) {
+        throw new ExperimentError(`Policy "${policy.name}" of arm "${arm.name}" is not valid: ${validation.errors.join('; ')}`);
+      }
+    }
+
+    try {
+      await pool.query(
+        `UPDATE experiments SET status = 'running', started_at = NOW() WHERE id = $1`,
+        [experimentId]
+      );
+    } catch (error) {
+      if (error.code === '23505') {
+        throw new ExperimentError(`Another ${experiment.product_type} experiment is already running`, 409);
+      }
+      throw error;
+    }
+    runningCache.clear();
+
+    await auditExperiment(userId, 'start_experiment', experimentId, { arms: experiment.arms });
+    logger.info(`Experiment started: ${experiment.name}`);
+
+    return getExperiment(experimentId);
+  } catch (error) {
+    logger.error(`Start experiment error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Stop splitting traffic; all requests go to the champion again
+ */
+export const stopExperiment = async (experimentId: string, userId: string): Promise<Experiment> => {
+  try {
+    const result = await pool.query(
+      `UPDATE experiments SET status = 'stopped', stopped_at = NOW()
+       WHERE id = $1 AND status = 'running'`,
+      [experimentId]
+    );
+    if (result.rowCount === 0) {
+      throw new ExperimentError('Experiment not found or not running', 404);
+    }
+    runningCache.clear();
+
+    await auditExperiment(userId, 'stop_experiment', experimentId, {});
+    logger.info(`Experiment stopped: ${experimentId}`);
+
+    return getExperiment(experimentId);
+  } catch (error) {
+    logger.error(`Stop experiment error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Delete a draft experiment; started ones are kept for their results
+ */
+export const deleteExperiment = async (experimentId: string, userId: string): Promise<void> => {
+  try {
+    const experiment = await requireExperiment(experimentId);
+    if (experiment.status !== 'draft') {
+      throw new ExperimentError('Only draft experiments can be deleted; stop a running one instead', 409);
+    }
+
+    await pool.query('DELETE FROM experiments WHERE id = $1', [experimentId]);
+    await auditExperiment(userId, 'delete_experiment', experimentId, { name: experiment.name });
+  } catch (error) {
+    logger.error(`Delete experiment error: ${error.message}`);
+    throw error;
+  }
+};
+
+const getRunningExperiment = async (championPolicyId: string): Promise<Experiment | null> => {
+  const cached = runningCache.get(championPolicyId);
+  if (cached && Date.now() - cached.loaded_at < config.EXECUTION_PLAN_TTL_MS) {
+    return cached.experiment;
+  }
+
+  const result = await pool.query(
+    `SELECT e.id FROM experiments e
+     JOIN experiment_arms a ON a.experiment_id = e.id AND a.role = 'champion'
+     WHERE e.status = 'running' AND a.policy_id = $1
+     LIMIT 1`,
+    [championPolicyId]
+  );
+  const experiment = result.rows.length > 0 ? await getExperiment(result.rows[0].id) : null;
+  runningCache.set(championPolicyId, { experiment, loaded_at: Date.now() });
+  return experiment;
+};
+
+/**
+ * The arm that decides an application sent to a policy, or null when no
+ * running experiment has that policy as its champion
+ */
+export const getExperimentAssignment = async (
+  policyId: string,
+  applicationId: string
+): Promise<ExperimentAssignment | null> => {
+  try {
+    const experiment = await getRunningExperiment(policyId);
+    if (!experiment || experiment.arms.length === 0) {
+      return null;
+    }
+
+    const arm = pickArm(experiment.arms, getAssignmentBucket(experiment.id, String(applicationId)));
+    return { experiment_id: experiment.id, arm: arm.name, role: arm.role, policy_id: arm.policy_id };
+  } catch (error) {
+    logger.error(`Get experiment assignment error: ${error.message}`);
+    throw error;
+  }
+};
+
+const DECIDED = `decision IN ('approved', 'rejected', 'manual_review')`;
+
+/**
+ * Per-arm decision rates and turnaround with 95% intervals, each challenger
+ * tested against the champion
+ */
+export const getExperimentResults = async (
+  experimentId: string,
+  range: { from?: Date; to?: Date } = {}
+): Promise<ExperimentResults> => {
+  try {
+    const experiment = await requireExperiment(experimentId);
+
+    const params: any[] = [experimentId];
+    let where = 'experiment_id = $1';
+    if (range.from) {
+      params.push(range.from);
+      where += ` AND created_at >= $${params.length}`;
+    }
+    if (range.to) {
+      params.push(range.to);
+      where += ` AND created_at <= $${params.length}`;
+    }
+
+    const result = await pool.query(
+      `SELECT
+         experiment_arm,
+         COUNT(*) FILTER (WHERE ${DECIDED})::int AS applications,
+         COUNT(*) FILTER (WHERE decision = 'approved')::int AS approved,
+         COUNT(*) FILTER (WHERE decision = 'rejected')::int AS rejected,
+         COUNT(*) FILTER (WHERE decision = 'manual_review')::int AS manual_review,
+         COUNT(*) FILTER (WHERE decision = 'error')::int AS errors,
+         COUNT(*) FILTER (WHERE decision = 'invalid_input')::int AS invalid_input,
+         AVG(execution_time_ms) FILTER (WHERE ${DECIDED}) AS avg_ms,
+         STDDEV_SAMP(execution_time_ms) FILTER (WHERE ${DECIDED}) AS stddev_ms,
+         AVG(CASE WHEN request_data->'applicant'->>'credit_score' ~ '^[0-9]+(\\.[0-9]+)?$'
+                  THEN (request_data->'applicant'->>'credit_score')::NUMERIC END) FILTER (WHERE ${DECIDED}) AS avg_credit_score
+       FROM api_requests
+       WHERE ${where}
+       GROUP BY experiment_arm`,
+      params
+    );
+
+    const rows = new Map(result.rows.map(row => [row.experiment_arm, row]));
+    const totalDecided = result.rows.reduce((sum, row) => sum + row.applications, 0);
+
+    const stats = experiment.arms.map(arm => {
+      const row = rows.get(arm.name) || {};
+      const n = row.applications || 0;
+      return {
+        arm,
+        n,
+        approved: row.approved || 0,
+        rejected: row.rejected || 0,
+        manual_review: row.manual_review || 0,
+        time: { mean: parseFloat(row.avg_ms) || 0, stddev: parseFloat(row.stddev_ms) || 0, n },
+        row,
+      };
+    });
+    const champion = stats.find(s => s.arm.role === 'champion');
+
+    const arms: ArmResult[] = stats.map(s => {
+      const armResult: ArmResult = {
+        name: s.arm.name,
+        role: s.arm.role,
+        policy_id: s.arm.policy_id,
+        policy_name: s.arm.policy_name,
+        traffic_percent: s.arm.traffic_percent,
+        applications: s.n,
+        errors: s.row.errors || 0,
+        invalid_input: s.row.invalid_input || 0,
+        share_percent: totalDecided > 0 ? Math.round((s.n / totalDecided) * 10000) / 100 : 0,
+        approval: proportionStats(s.approved, s.n),
+        rejection: proportionStats(s.rejected, s.n),
+        manual_review: proportionStats(s.manual_review, s.n),
+        execution_time_ms: meanStats(s.time.mean, s.time.stddev, s.n),
+        avg_credit_score: s.row.avg_credit_score ? Math.round(parseFloat(s.row.avg_credit_score)) : null,
+      };
+
+      if (s.arm.role === 'challenger' && champion) {
+        armResult.approval_test = compareProportions(champion.approved, champion.n, s.approved, s.n);
+        armResult.rejection_test = compareProportions(champion.rejected, champion.n, s.rejected, s.n);
+        armResult.manual_review_test = compareProportions(champion.manual_review, champion.n, s.manual_review, s.n);
+        armResult.execution_time_test = compareMeans(champion.time, s.time);
+      }
+      return armResult;
+    });
+
+    return {
+      experiment,
+      from: range.from ? range.from.toISOString() : null,
+      to: range.to ? range.to.toISOString() : null,
+      significance_level: SIGNIFICANCE_LEVEL,
+      arms,
+    };
+  } catch (error) {
+    logger.error(`Get experiment results error: ${error.message}`);
+    throw error;
+  }
+};
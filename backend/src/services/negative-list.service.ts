@@ -0,0 +1,498 @@
+import { pool } from '../config/database';
+import logger from '../utils/logger';
+import {
+  NEGATIVE_LIST_ACTIONS,
+  NEGATIVE_LIST_MATCH_MODES,
+  NEGATIVE_LIST_TYPES,
+  NegativeListAction,
+  NegativeListHit,
+  NegativeListMatchMode,
+  NegativeListType,
+  exactListValue,
+  getNegativeListRefs,
+  isValidNegativeListName,
+  normalizeListValue,
+} from '../engine/negative-lists';
+import { ReferenceTableError, parseReferenceTableFile } from './reference-table.service';
+
+/**
+ * Negative lists with reason codes, expiry dates and an audit trail
+ *
+ * Entries are never deleted: removing one stamps it, so the entries a past
+ * decision matched stay visible. Adding a value that is already listed
+ * updates its reason, notes and expiry instead of listing it twice.
+ */
+
+export interface NegativeList {
+  id: string;
+  name: string;
+  description: string | null;
+  list_type: NegativeListType;
+  match_mode: NegativeListMatchMode;
+  action: NegativeListAction;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface NegativeListEntryInput {
+  value: any;
+  reason_code?: string;
+  notes?: string;
+  expires_at?: string | Date | null;
+}
+
+export interface NegativeListEntryQuery {
+  search?: string;
+  include_removed?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export class NegativeListError extends Error {
+  status: number; // HTTP status the API answers with
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'NegativeListError';
+    this.status = status;
+  }
+}
+
+const MAX_REPORTED_ERRORS = 20;
+
+const validateListSettings = (settings: Partial<NegativeList>): void => {
+  if (settings.list_type !== undefined && !NEGATIVE_LIST_TYPES.includes(settings.list_type)) {
+    throw new NegativeListError(`List type must be one of ${NEGATIVE_LIST_TYPES.join(', ')}`);
+  }
+  if (settings.match_mode !== undefined && !NEGATIVE_LIST_MATCH_MODES.includes(settings.match_mode)) {
+    throw new NegativeListError(`Match mode must be one of ${NEGATIVE_LIST_MATCH_MODES.join(', ')}`);
+  }
+  if (settings.action !== undefined && !NEGATIVE_LIST_ACTIONS.includes(settings.action)) {
+    throw new NegativeListError(`Action must be one of ${NEGATIVE_LIST_ACTIONS.join(', ')}`);
+  }
+};
+
+const requireList = async (name: string): Promise<NegativeList> => {
+  const list = await getNegativeList(name);
+  if (!list) {
+    throw new NegativeListError('Negative list not found', 404);
+  }
+  return list;
+};
+
+const auditNegativeList = async (userId: string, action: string, listId: string, details: any): Promise<void> => {
+  try {
+    await pool.query(
+      `INSERT INTO audit_logs (user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, 'negative_list', $3, $4)`,
+      [userId, action, listId, JSON.stringify(details)]
+    );
+  } catch (auditError) {
+    logger.warn(`Audit logging failed: ${auditError.message}`);
+  }
+};
+
+export const getNegativeList = async (name: string): Promise<NegativeList | null> => {
+  try {
+    const result = await pool.query('SELECT * FROM negative_lists WHERE name = $1', [name]);
+    return result.rows[0] || null;
+  } catch (error) {
+    logger.error(`Get negative list error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * All lists with their count of entries in force
+ */
+export const getAllNegativeLists = async (): Promise<any[]> => {
+  try {
+    const result = await pool.query(
+      `SELECT l.*,
+              COUNT(e.id) FILTER (
+                WHERE e.removed_at IS NULL AND (e.expires_at IS NULL OR e.expires_at > NOW())
+              )::INT AS active_entries
+       FROM negative_lists l
+       LEFT JOIN negative_list_entries e ON e.list_id = l.id
+       GROUP BY l.id
+       ORDER BY l.name`
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error(`Get negative lists error: ${error.message}`);
+    throw error;
+  }
+};
+
+export const createNegativeList = async (
+  settings: Pick<NegativeList, 'name' | 'list_type'> & Partial<Pick<NegativeList, 'description' | 'match_mode' | 'action'>>,
+  userId: string
+): Promise<NegativeList> => {
+  if (!isValidNegativeListName(settings.name)) {
+    throw new NegativeListError('List names must start with a letter or underscore and contain only letters, digits and underscores');
+  }
+  if (!settings.list_type) {
+    throw new NegativeListError('A list type is required');
+  }
+  validateListSettings(settings);
+
+  try {
+    const result = await pool.query(
+      `INSERT INTO negative_lists (name, description, list_type, match_mode, action, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (name) DO NOTHING
+       RETURNING *`,
+      [
+        settings.name,
+        settings.description || null,
+        settings.list_type,
+        settings.match_mode || 'normalized',
+        settings.action || 'reject',
+        userId,
+      ]
+    );
+    if (result.rows.length === 0) {
+      throw new NegativeListError(`A negative list named "${settings.name}" already exists`, 409);
+    }
+
+    const list: NegativeList = result.rows[0];
+    await auditNegativeList(userId, 'create_negative_list', list.id, settings);
+
+    logger.info(`Negative list created: ${list.name}`);
+
+    return list;
+  } catch (error) {
+    logger.error(`Create negative list error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Change a list's description, match mode or action. The type decides how
+ * stored entries were normalized, so it cannot change.
+ */
+export const updateNegativeList = async (
+  name: string,
+  updates: Partial<Pick<NegativeList, 'description' | 'match_mode' | 'action'>>,
+  userId: string
+): Promise<NegativeList> => {
+  validateListSettings(updates);
+
+  try {
+    const list = await requireList(name);
+    const result = await pool.query(
+      `UPDATE negative_lists
+       SET description = COALESCE($1, description),
+           match_mode = COALESCE($2, match_mode),
+           action = COALESCE($3, action)
+       WHERE id = $4
+       RETURNING *`,
+      [updates.description ?? null, updates.match_mode || null, updates.action || null, list.id]
+    );
+
+    await auditNegativeList(userId, 'update_negative_list', list.id, {
+      before: { description: list.description, match_mode: list.match_mode, action: list.action },
+      after: updates,
+    });
+
+    return result.rows[0];
+  } catch (error) {
+    logger.error(`Update negative list error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Policies whose workflow checks a list
+ */
+export const getNegativeListDependents = async (name: string): Promise<{ id: string; name: string }[]> => {
+  try {
+    const result = await pool.query('SELECT id, name, workflow_json FROM policies');
+    return result.rows
+      .filter(policy => getNegativeListRefs(policy.workflow_json || {}).includes(name))
+      .map(policy => ({ id: policy.id, name: policy.name }));
+  } catch (error) {
+    logger.error(`Get negative list dependents error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Delete a list with its entries; refused while a policy checks it
+ */
+export const deleteNegativeList = async (name: string, userId: string): Promise<void> => {
+  try {
+    const list = await requireList(name);
+    const dependents = await getNegativeListDependents(name);
+    if (dependents.length > 0) {
+      throw new NegativeListError(
+        `Negative list is checked by ${dependents.map(p => `"${p.name}"`).join(', ')}`,
+        409
+      );
+    }
+
+    await pool.query('DELETE FROM negative_lists WHERE id = $1', [list.id]);
+    await auditNegativeList(userId, 'delete_negative_list', list.id, { name });
+
+    logger.info(`Negative list deleted: ${name}`);
+  } catch (error) {
+    logger.error(`Delete negative list error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Entries of a list, newest first; removed entries only when asked for
+ */
+export const getNegativeListEntries = async (
+  name: string,
+  query: NegativeListEntryQuery = {}
+): Promise<{ entries: any[]; total: number }> => {
+  try {
+    const list = await requireList(name);
+    const limit = query.limit || 50;
+    const offset = ((query.page || 1) - 1) * limit;
+
+    const params: any[] = [list.id];
+    let where = 'e.list_id = $1';
+    if (!query.include_removed) {
+      where += ' AND e.removed_at IS NULL';
+    }
+    if (query.search) {
+      params.push(`%${query.search}%`, `%${normalizeListValue(list.list_type, query.search) || query.search}%`);
+      where += ` AND (e.value ILIKE $${params.length - 1} OR e.normalized_value ILIKE $${params.length} OR e.reason_code ILIKE $${params.length - 1})`;
+    }
+
+    const count = await pool.query(`SELECT COUNT(*) FROM negative_list_entries e WHERE ${where}`, params);
+    const result = await pool.query(
+      `SELECT e.*, adder.full_name AS added_by_name, remover.full_name AS removed_by_name
+       FROM negative_list_entries e
+       LEFT JOIN users adder ON adder.id = e.added_by
+       LEFT JOIN users remover ON remover.id = e.removed_by
+       WHERE ${where}
+       ORDER BY e.added_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return { entries: result.rows, total: parseInt(count.rows[0].count, 10) };
+  } catch (error) {
+    logger.error(`Get negative list entries error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Add entries to a list, updating values that are already listed. Invalid
+ * entries are reported by position and nothing is written.
+ */
+export const addNegativeListEntries = async (
+  name: string,
+  entries: NegativeListEntryInput[],
+  userId: string,
+  source: string = 'api'
+): Promise<{ added: number; updated: number }> => {
+  const list = await requireList(name);
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new NegativeListError('At least one entry is required');
+  }
+
+  const errors: string[] = [];
+  const rows = entries.map((entry, index) => {
+    const value = exactListValue(entry?.value);
+    const normalized = normalizeListValue(list.list_type, entry?.value);
+    const expiresAt = entry?.expires_at ? new Date(entry.expires_at) : null;
+
+    if (value === null || normalized === null) {
+      errors.push(`Entry ${index + 1}: value is empty or not a valid ${list.list_type}`);
+    }
+    if (expiresAt && isNaN(expiresAt.getTime())) {
+      errors.push(`Entry ${index + 1}: expires_at "${entry.expires_at}" is not a date`);
+    }
+    return {
+      value,
+      normalized,
+      reason_code: entry?.reason_code ? String(entry.reason_code).trim() : null,
+      notes: entry?.notes ? String(entry.notes) : null,
+      expires_at: expiresAt,
+    };
+  });
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_REPORTED_ERRORS);
+    if (errors.length > shown.length) shown.push(`…and ${errors.length - shown.length} more`);
+    throw new NegativeListError(shown.join('; '));
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    let added = 0;
+    let updated = 0;
+    for (const row of rows) {
+      const result = await client.query(
+        `INSERT INTO negative_list_entries (list_id, value, normalized_value, reason_code, notes, expires_at, added_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (list_id, normalized_value) WHERE removed_at IS NULL DO UPDATE SET
+           reason_code = COALESCE(EXCLUDED.reason_code, negative_list_entries.reason_code),
+           notes = COALESCE(EXCLUDED.notes, negative_list_entries.notes),
+           expires_at = EXCLUDED.expires_at
+         RETURNING (xmax = 0) AS inserted`,
+        [list.id, row.value, row.normalized, row.reason_code, row.notes, row.expires_at, userId]
+      );
+      if (result.rows[0].inserted) added++;
+      else updated++;
+    }
+
+    await client.query('COMMIT');
+
+    await auditNegativeList(userId, 'add_negative_list_entries', list.id, {
+      source,
+      added,
+      updated,
+      values: rows.slice(0, MAX_REPORTED_ERRORS).map(row => row.value),
+    });
+
+    logger.info(`Negative list ${name}: ${added} entries added, ${updated} updated by user ${userId}`);
+
+    return { added, updated };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    logger.error(`Add negative list entries error: ${error.message}`);
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Bulk import from a CSV or Excel file with a `value` column and optional
+ * reason_code, notes and expires_at columns
+ */
+export const importNegativeListFile = async (
+  name: string,
+  file: { buffer: Buffer; originalname: string },
+  userId: string
+): Promise<{ added: number; updated: number }> => {
+  let parsed: { columns: string[]; rows: Record<string, any>[] };
+  try {
+    parsed = parseReferenceTableFile(file.buffer, file.originalname);
+  } catch (parseError) {
+    if (parseError instanceof ReferenceTableError) {
+      throw new NegativeListError(parseError.message);
+    }
+    throw parseError;
+  }
+
+  if (!parsed.columns.includes('value')) {
+    throw new NegativeListError('The file needs a "value" column');
+  }
+
+  // Excel keeps dates as day serials counted from 1899-12-30
+  const rows: NegativeListEntryInput[] = parsed.rows.map((row: any) => (typeof row.expires_at === 'number'
+    ? { ...row, expires_at: new Date(Math.round((row.expires_at - 25569) * 86400000)) }
+    : row));
+
+  return addNegativeListEntries(name, rows, userId, file.originalname);
+};
+
+/**
+ * Take an entry off a list, keeping it for the record
+ */
+export const removeNegativeListEntry = async (
+  name: string,
+  entryId: string,
+  userId: string,
+  reason?: string
+): Promise<void> => {
+  try {
+    const list = await requireList(name);
+    const result = await pool.query(
+      `UPDATE negative_list_entries
+       SET removed_at = NOW(), removed_by = $1, removal_reason = $2
+       WHERE id = $3 AND list_id = $4 AND removed_at IS NULL
+       RETURNING value`,
+      [userId, reason || null, entryId, list.id]
+    );
+    if (result.rows.length === 0) {
+      throw new NegativeListError('Entry not found or already removed', 404);
+    }
+
+    await auditNegativeList(userId, 'remove_negative_list_entry', list.id, {
+      entry_id: entryId,
+      value: result.rows[0].value,
+      reason,
+    });
+  } catch (error) {
+    logger.error(`Remove negative list entry error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Changes to a list and its entries, newest first
+ */
+export const getNegativeListAudit = async (name: string, limit: number = 100): Promise<any[]> => {
+  try {
+    const list = await requireList(name);
+    const result = await pool.query(
+      `SELECT a.id, a.action, a.details, a.created_at, u.full_name AS user_name
+       FROM audit_logs a
+       LEFT JOIN users u ON u.id = a.user_id
+       WHERE a.resource_type = 'negative_list' AND a.resource_id = $1
+       ORDER BY a.created_at DESC
+       LIMIT $2`,
+      [list.id, limit]
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error(`Get negative list audit error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Entries of a list a value matches at a point in time: added by then and
+ * neither expired nor removed yet
+ */
+export const findNegativeListMatches = async (
+  name: string,
+  value: any,
+  asOf: Date
+): Promise<NegativeListHit[]> => {
+  const list = await getNegativeList(name);
+  if (!list) {
+    throw new Error(`Negative list "${name}" does not exist`);
+  }
+
+  const compared = list.match_mode === 'exact' ? exactListValue(value) : normalizeListValue(list.list_type, value);
+  if (compared === null) return [];
+
+  try {
+    const result = await pool.query(
+      `SELECT id, value, reason_code, expires_at
+       FROM negative_list_entries
+       WHERE list_id = $1 AND ${list.match_mode === 'exact' ? 'value' : 'normalized_value'} = $2
+         AND added_at <= $3
+         AND (removed_at IS NULL OR removed_at > $3)
+         AND (expires_at IS NULL OR expires_at > $3)`,
+      [list.id, compared, asOf]
+    );
+
+    return result.rows.map(row => ({
+      list: name,
+      action: list.action,
+      value,
+      entry_id: row.id,
+      entry_value: row.value,
+      match: list.match_mode,
+      reason_code: row.reason_code,
+      expires_at: row.expires_at ? new Date(row.expires_at).toISOString() : null,
+    }));
+  } catch (error) {
+    logger.error(`Find negative list matches error: ${error.message}`);
+    throw error;
+  }
+};
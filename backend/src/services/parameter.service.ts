@@ -0,0 +1,299 @@
+import { pool } from '../config/database';
+import logger from '../utils/logger';
+import { config } from '../config/env';
+import { invalidateExecutionPlan } from '../engine/execution-plan';
+import {
+  ParameterValues,
+  PolicyParameter,
+  getParameterReferences,
+  toParameterValues,
+  validateParameters,
+} from '../engine/parameters';
+
+/**
+ * Policy parameter sets with maker-checker approval
+ *
+ * A change proposes the complete parameter list of a policy. It takes effect
+ * only when a different user approves it, at which point it gets the next
+ * parameter version; the workflow and its published versions are untouched.
+ * A change proposed against an older version must be resubmitted.
+ */
+
+export type ParameterSetStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+export interface ParameterSet {
+  id: string;
+  policy_id: string;
+  version: number | null;
+  base_version: number;
+  parameters: PolicyParameter[];
+  status: ParameterSetStatus;
+  change_notes: string | null;
+  proposed_by: string;
+  proposed_at: Date;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  review_notes: string | null;
+}
+
+export class ParameterChangeError extends Error {
+  status: number; // HTTP status the API answers with
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'ParameterChangeError';
+    this.status = status;
+  }
+}
+
+// Effective values per policy, refreshed after the plan TTL or on approval
+const valuesCache = new Map<string, { values: ParameterValues; loaded_at: number }>();
+
+/**
+ * The approved set currently in effect, or null when none was approved yet
+ */
+export const getEffectiveParameterSet = async (policyId: string): Promise<ParameterSet | null> => {
+  try {
+    const result = await pool.query(
+      `SELECT * FROM policy_parameter_sets
+       WHERE policy_id = $1 AND status = 'approved'
+       ORDER BY version DESC LIMIT 1`,
+      [policyId]
+    );
+    return result.rows[0] || null;
+  } catch (error) {
+    logger.error(`Get effective parameter set error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * The approved set that was in effect at a point in time
+ */
+export const getParameterSetAt = async (policyId: string, at: Date): Promise<ParameterSet | null> => {
+  try {
+    const result = await pool.query(
+      `SELECT * FROM policy_parameter_sets
+       WHERE policy_id = $1 AND status = 'approved' AND reviewed_at <= $2
+       ORDER BY version DESC LIMIT 1`,
+      [policyId, at]
+    );
+    return result.rows[0] || null;
+  } catch (error) {
+    logger.error(`Get parameter set at date error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Effective parameter values for execution (cached in-process)
+ */
+export const getParameterValues = async (policyId: string): Promise<ParameterValues> => {
+  const cached = valuesCache.get(policyId);
+  if (cached && Date.now() - cached.loaded_at <= config.EXECUTION_PLAN_TTL_MS) {
+    return cached.values;
+  }
+
+  const set = await getEffectiveParameterSet(policyId);
+  const values = set ? toParameterValues(set.parameters, set.version) : toParameterValues([], 0);
+  valuesCache.set(policyId, { values, loaded_at: Date.now() });
+  return values;
+};
+
+/**
+ * Values of one set (e.g. a pending change a checker wants to test)
+ */
+export const getParameterSetValues = async (policyId: string, setId: string): Promise<ParameterValues | null> => {
+  const set = await getParameterSet(policyId, setId);
+  if (!set) return null;
+  return toParameterValues(set.parameters, set.status === 'approved' ? set.version : null, set.id);
+};
+
+export const getParameterSet = async (policyId: string, setId: string): Promise<ParameterSet | null> => {
+  try {
+    const result = await pool.query(
+      'SELECT * FROM policy_parameter_sets WHERE id = $1 AND policy_id = $2',
+      [setId, policyId]
+    );
+    return result.rows[0] || null;
+  } catch (error) {
+    logger.error(`Get parameter set error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Change history of a policy's parameters, newest first, with user names
+ */
+export const getParameterHistory = async (policyId: string): Promise<any[]> => {
+  try {
+    const result = await pool.query(
+      `SELECT s.*, p.full_name AS proposed_by_name, r.full_name AS reviewed_by_name
+       FROM policy_parameter_sets s
+       LEFT JOIN users p ON p.id = s.proposed_by
+       LEFT JOIN users r ON r.id = s.reviewed_by
+       WHERE s.policy_id = $1
+       ORDER BY s.proposed_at DESC`,
+      [policyId]
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error(`Get parameter history error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Propose a new complete parameter set (maker)
+ */
+export const proposeParameterChange = async (
+  policyId: string,
+  parameters: PolicyParameter[],
+  changeNotes: string,
+  userId: string
+): Promise<ParameterSet> => {
+  try {
+    const errors = validateParameters(parameters);
+    if (errors.length > 0) {
+      throw new ParameterChangeError(errors.join('; '));
+    }
+
+    const policy = await pool.query('SELECT workflow_json FROM policies WHERE id = $1', [policyId]);
+    if (policy.rows.length === 0) {
+      throw new ParameterChangeError('Policy not found', 404);
+    }
+
+    // Removing a parameter the workflow still uses would break it
+    const declared = new Set(parameters.map(p => p.name));
+    const missing = getParameterReferences(policy.rows[0].workflow_json || {}).filter(name => !declared.has(name));
+    if (missing.length > 0) {
+      throw new ParameterChangeError(`The workflow references parameters this set does not declare: ${missing.join(', ')}`);
+    }
+
+    const current = await getEffectiveParameterSet(policyId);
+    const result = await pool.query(
+      `INSERT INTO policy_parameter_sets (policy_id, base_version, parameters, change_notes, proposed_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [policyId, current ? current.version : 0, JSON.stringify(parameters), changeNotes || null, userId]
+    );
+
+    logger.info(`Parameter change proposed for policy ${policyId} by user ${userId}`);
+
+    return result.rows[0];
+  } catch (error) {
+    logger.error(`Propose parameter change error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Approve or reject a pending change (checker). Approval makes it the
+ * effective set under the next version number.
+ */
+export const reviewParameterChange = async (
+  policyId: string,
+  setId: string,
+  decision: 'approved' | 'rejected',
+  reviewNotes: string,
+  userId: string
+): Promise<ParameterSet> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // Serializes reviews of one policy so two approvals cannot share a version
+    await client.query('SELECT id FROM policies WHERE id = $1 FOR UPDATE', [policyId]);
+
+    const found = await client.query(
+      'SELECT * FROM policy_parameter_sets WHERE id = $1 AND policy_id = $2',
+      [setId, policyId]
+    );
+    const set: ParameterSet = found.rows[0];
+    if (!set) {
+      throw new ParameterChangeError('Parameter change not found', 404);
+    }
+    if (set.status !== 'pending') {
+      throw new ParameterChangeError(`Parameter change is already ${set.status}`, 409);
+    }
+    if (set.proposed_by === userId) {
+      throw new ParameterChangeError('A parameter change must be reviewed by someone other than its author', 403);
+    }
+
+    let version: number | null = null;
+    if (decision === 'approved') {
+      const current = await client.query(
+        `SELECT COALESCE(MAX(version), 0) AS version FROM policy_parameter_sets
+         WHERE policy_id = $1 AND status = 'approved'`,
+        [policyId]
+      );
+      const currentVersion = parseInt(current.rows[0].version, 10);
+      if (set.base_version !== currentVersion) {
+        throw new ParameterChangeError(
+          `Parameter change was proposed against version ${set.base_version}, but version ${currentVersion} is now in effect; propose it again`,
+          409
+        );
+      }
+      version = currentVersion + 1;
+    }
+
+    const result = await client.query(
+      `UPDATE policy_parameter_sets
+       SET status = $1, version = $2, reviewed_by = $3, reviewed_at = CURRENT_TIMESTAMP, review_notes = $4
+       WHERE id = $5
+       RETURNING *`,
+      [decision, version, userId, reviewNotes || null, setId]
+    );
+
+    await client.query('COMMIT');
+
+    if (decision === 'approved') {
+      valuesCache.delete(policyId);
+      invalidateExecutionPlan(policyId);
+    }
+
+    logger.info(`Parameter change ${setId} ${decision} by user ${userId}${version ? ` (version ${version})` : ''}`);
+
+    return result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    logger.error(`Review parameter change error: ${error.message}`);
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Withdraw one's own pending change
+ */
+export const withdrawParameterChange = async (
+  policyId: string,
+  setId: string,
+  userId: string
+): Promise<ParameterSet> => {
+  try {
+    const set = await getParameterSet(policyId, setId);
+    if (!set) {
+      throw new ParameterChangeError('Parameter change not found', 404);
+    }
+    if (set.proposed_by !== userId) {
+      throw new ParameterChangeError('Only the author can withdraw a parameter change', 403);
+    }
+
+    const result = await pool.query(
+      `UPDATE policy_parameter_sets SET status = 'withdrawn'
+       WHERE id = $1 AND status = 'pending'
+       RETURNING *`,
+      [setId]
+    );
+    if (result.rows.length === 0) {
+      throw new ParameterChangeError(`Parameter change is already ${set.status}`, 409);
+    }
+
+    return result.rows[0];
+  } catch (error) {
+    logger.error(`Withdraw parameter change error: ${error.message}`);
+    throw error;
+  }
+};
@@ -1,6 +1,35 @@
 import { pool } from '../config/database';
 import logger from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
+import { assertReadOnlySQL, getConnectorById } from './connector.service';
+import { findCycles, findMatchingJoin, getNodesBetween, getOutgoingEdges } from '../engine/graph';
+import { parseExpression } from '../engine/expression';
+import { validateDecisionTable } from '../engine/decision-table';
+import { buildConditionTree, isComputedCondition, isConditionGroup } from '../engine/condition-tree';
+import { STRATEGY_AGGREGATION_MODES, normalizeStrategyDecision } from '../engine/strategy-aggregation';
+import { validateInputSchema } from '../engine/input-schema';
+import { validateDateCondition } from '../engine/dates';
+import { validateMissingDataRule } from '../engine/missing-data';
+import { LATEST_VERSION, getSubPolicyReferences } from '../engine/sub-policy';
+import { SWITCH_DEFAULT_HANDLE, validateSwitchConfig } from '../engine/switch';
+import {
+  ExecutionPlan,
+  cacheExecutionPlan,
+  collectExpressions,
+  compileExecutionPlan,
+  getCachedPlan,
+  getPlanConnectorIds,
+  invalidateExecutionPlan,
+} from '../engine/execution-plan';
+import { config } from '../config/env';
+import { getEffectiveParameterSet, getParameterSetAt, getParameterValues, proposeParameterChange } from './parameter.service';
+import { getParameterReferences } from '../engine/parameters';
+import { PolicyDiff, diffWorkflows } from '../engine/policy-diff';
+import { getLookupCallTables, getReferenceTableRefs, validateLookupConfig } from '../engine/reference-tables';
+import { validateVelocityConfig } from '../engine/velocity';
+import { NEGATIVE_LIST_HANDLES, getNegativeListRefs, validateNegativeListCheckConfig } from '../engine/negative-lists';
+import { getNegativeList } from './negative-list.service';
+import { getReferenceTableVersion } from './reference-table.service';
 
 export interface Policy {
   id: string;
@@ -11,6 +40,7 @@ export interface Policy {
   status: 'draft' | 'active' | 'archived';
   workflow_json: any;
   rules_summary?: string;
+  is_fragment?: boolean;
   created_by: string;
   created_at: Date;
   updated_at: Date;
@@ -27,14 +57,15 @@ export const createPolicy = async (
   productType: string,
   workflowJson: any,
   rulesSummary: string,
-  userId: string
+  userId: string,
+  isFragment: boolean = false
 ): Promise<Policy> => {
   try {
     const result = await pool.query(
-      `INSERT INTO policies (name, description, product_type, workflow_json, rules_summary, created_by, version)
-       VALUES ($1, $2, $3, $4, $5, $6, '1.0')
+      `INSERT INTO policies (name, description, product_type, workflow_json, rules_summary, created_by, version, is_fragment)
+       VALUES ($1, $2, $3, $4, $5, $6, '1.0', $7)
        RETURNING *`,
-      [name, description, productType, JSON.stringify(workflowJson), rulesSummary, userId]
+      [name, description, productType, JSON.stringify(workflowJson), rulesSummary, userId, isFragment]
     );
 
     logger.info(`Policy created: ${name}`);
@@ -121,6 +152,7 @@ export const updatePolicy = async (
     workflow_json?: any;
     rules_summary?: string;
     status?: string;
+    is_fragment?: boolean;
   }
 ): Promise<void> => {
   try {
@@ -152,6 +184,11 @@ export const updatePolicy = async (
       setClauses.push(`status = $${params.length}`);
     }
 
+    if (updates.is_fragment !== undefined) {
+      params.push(!!updates.is_fragment);
+      setClauses.push(`is_fragment = $${params.length}`);
+    }
+
     if (setClauses.length === 0) {
       return;
     }
@@ -161,6 +198,7 @@ export const updatePolicy = async (
                    WHERE id = $${params.length}`;
 
     await pool.query(query, params);
+    invalidateExecutionPlan(policyId);
 
     logger.info(`Policy updated: ${policyId}`);
   } catch (error) {
@@ -175,6 +213,7 @@ export const updatePolicy = async (
 export const deletePolicy = async (policyId: string): Promise<void> => {
   try {
     await pool.query('DELETE FROM policies WHERE id = $1', [policyId]);
+    invalidateExecutionPlan(policyId);
     logger.info(`Policy deleted: ${policyId}`);
   } catch (error) {
     logger.error(`Delete policy error: ${error.message}`);
@@ -230,6 +269,198 @@ export const getPolicyVersions = async (policyId: string): Promise<any[]> => {
   }
 };
 
+/**
+ * Get one published version of a policy; 'latest' resolves to the newest
+ */
+export const getPolicyVersion = async (policyId: string, version: string): Promise<any | null> => {
+  try {
+    const result = version === LATEST_VERSION
+      ? await pool.query(
+        `SELECT * FROM policy_versions
+         WHERE policy_id = $1
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [policyId]
+      )
+      : await pool.query(
+        'SELECT * FROM policy_versions WHERE policy_id = $1 AND version = $2',
+        [policyId, version]
+      );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      ...row,
+      workflow_json: typeof row.workflow_json === 'string' ? JSON.parse(row.workflow_json) : row.workflow_json,
+    };
+  } catch (error) {
+    logger.error(`Get policy version error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Snapshot the current workflow as the next published version ("1.0", "2.0", ...)
+ */
+export const publishPolicyVersion = async (
+  policyId: string,
+  userId: string,
+  changeNotes: string = ''
+): Promise<string> => {
+  try {
+    const policy = await getPolicyById(policyId);
+    if (!policy) {
+      throw new Error('Policy not found');
+    }
+
+    const countResult = await pool.query(
+      'SELECT COUNT(*) as count FROM policy_versions WHERE policy_id = $1',
+      [policyId]
+    );
+    const version = `${parseInt(countResult.rows[0].count) + 1}.0`;
+
+    await createPolicyVersion(policyId, version, policy.workflow_json, changeNotes, userId);
+    await pool.query('UPDATE policies SET version = $1 WHERE id = $2', [version, policyId]);
+    invalidateExecutionPlan(policyId);
+
+    return version;
+  } catch (error) {
+    logger.error(`Publish policy version error: ${error.message}`);
+    throw error;
+  }
+};
+
+// Compares against the saved, unpublished workflow instead of a published version
+export const CURRENT_WORKFLOW = 'current';
+
+export interface PolicyDiffSide {
+  version: string; // published version, or 'current'
+  created_at: Date | null;
+  parameter_version: number | null;
+  workflow_json: any;
+}
+
+/**
+ * Semantic diff between two versions of a policy ('latest' and 'current'
+ * allowed). Each side is compared with the parameter set that was in effect
+ * when it was published; 'current' uses the set in effect now. Null when
+ * the policy or either version does not exist.
+ */
+export const getPolicyDiff = async (
+  policyId: string,
+  from: string,
+  to: string
+): Promise<{ from: PolicyDiffSide; to: PolicyDiffSide; diff: PolicyDiff } | null> => {
+  try {
+    const resolve = async (version: string): Promise<{ side: PolicyDiffSide; parameters: any[] } | null> => {
+      if (version === CURRENT_WORKFLOW) {
+        const policy = await getPolicyById(policyId);
+        if (!policy) return null;
+        const set = await getEffectiveParameterSet(policyId);
+        return {
+          side: { version, created_at: null, parameter_version: set?.version ?? null, workflow_json: policy.workflow_json },
+          parameters: set?.parameters || [],
+        };
+      }
+
+      const row = await getPolicyVersion(policyId, version);
+      if (!row) return null;
+      const set = await getParameterSetAt(policyId, row.created_at);
+      return {
+        side: { version: row.version, created_at: row.created_at, parameter_version: set?.version ?? null, workflow_json: row.workflow_json },
+        parameters: set?.parameters || [],
+      };
+    };
+
+    const [before, after] = await Promise.all([resolve(from), resolve(to)]);
+    if (!before || !after) {
+      return null;
+    }
+
+    return {
+      from: before.side,
+      to: after.side,
+      diff: diffWorkflows(before.side.workflow_json, after.side.workflow_json, {
+        before: before.parameters,
+        after: after.parameters,
+      }),
+    };
+  } catch (error) {
+    logger.error(`Get policy diff error: ${error.message}`);
+    throw error;
+  }
+};
+
+export interface SubPolicyDependent {
+  policy_id: string;
+  policy_name: string;
+  status: string;
+  node_id: string;
+  node_label: string;
+  pinned_version: string;
+  follows_latest: boolean; // picks up every new publish immediately
+}
+
+/**
+ * Policies whose current workflow calls the given policy from a subPolicy node
+ */
+export const getSubPolicyDependents = async (policyId: string): Promise<SubPolicyDependent[]> => {
+  try {
+    const result = await pool.query(
+      `SELECT id, name, status, workflow_json FROM policies
+       WHERE id != $1 AND workflow_json @> $2::jsonb
+       ORDER BY name`,
+      [policyId, JSON.stringify({ nodes: [{ type: 'subPolicy', data: { config: { policy_id: policyId } } }] })]
+    );
+
+    return result.rows.flatMap(row => {
+      const workflow = typeof row.workflow_json === 'string' ? JSON.parse(row.workflow_json) : row.workflow_json;
+      return getSubPolicyReferences(workflow)
+        .filter(ref => ref.policy_id === policyId)
+        .map(ref => ({
+          policy_id: row.id,
+          policy_name: row.name,
+          status: row.status,
+          node_id: ref.node_id,
+          node_label: ref.label,
+          pinned_version: ref.version,
+          follows_latest: ref.version === LATEST_VERSION,
+        }));
+    });
+  } catch (error) {
+    logger.error(`Get sub-policy dependents error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Follow subPolicy references from a workflow through the versions they pin;
+ * returns the policy ids forming a call cycle, or null
+ */
+export const findSubPolicyCycle = async (
+  policyId: string,
+  workflowJson: any
+): Promise<string[] | null> => {
+  const visit = async (workflow: any, stack: string[]): Promise<string[] | null> => {
+    for (const ref of getSubPolicyReferences(workflow)) {
+      if (!ref.policy_id || !ref.version) continue;
+      if (stack.includes(ref.policy_id)) {
+        return [...stack, ref.policy_id];
+      }
+      const child = await getPolicyVersion(ref.policy_id, ref.version);
+      if (!child) continue;
+      const cycle = await visit(child.workflow_json, [...stack, ref.policy_id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  return visit(workflowJson, [policyId]);
+};
+
 /**
  * Activate policy (set as active, deactivate others of same product type)
  */
@@ -241,37 +472,107 @@ export const activatePolicy = async (policyId: string): Promise<void> => {
       throw new Error('Policy not found');
     }
 
-    // Start transaction
-    await pool.query('BEGIN');
+    // A workflow that does not compile must not replace the active policy
+    invalidateExecutionPlan(policyId);
+    await getExecutionPlan(policyId);
+
+    const client = await pool.connect();
+    let archivedIds: string[] = [];
+    try {
+      await client.query('BEGIN');
+
+      // Deactivate all other policies of same product type. Fragments are
+      // libraries and never replace one another.
+      if (!policy.is_fragment) {
+        const archived = await client.query(
+          `UPDATE policies SET status = 'archived'
+           WHERE product_type = $1 AND status = 'active' AND id != $2 AND is_fragment = false
+           RETURNING id`,
+          [policy.product_type, policyId]
+        );
+        archivedIds = archived.rows.map(row => row.id);
+      }
 
-    // Deactivate all other policies of same product type
-    await pool.query(
-      `UPDATE policies SET status = 'archived'
-       WHERE product_type = $1 AND status = 'active' AND id != $2`,
-      [policy.product_type, policyId]
-    );
+      // Activate this policy
+      await client.query(
+        `UPDATE policies SET status = 'active', effective_from = NOW()
+         WHERE id = $1`,
+        [policyId]
+      );
 
-    // Activate this policy
-    await pool.query(
-      `UPDATE policies SET status = 'active', effective_from = NOW()
-       WHERE id = $1`,
-      [policyId]
-    );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
 
-    await pool.query('COMMIT');
+    archivedIds.forEach(invalidateExecutionPlan);
+    invalidateExecutionPlan(policyId);
 
     logger.info(`Policy activated: ${policyId}`);
+
+    // Recompile with the active status now rather than on the first request;
+    // the activation stands either way
+    try {
+      await getExecutionPlan(policyId);
+    } catch (error) {
+      logger.warn(`Execution plan for activated policy ${policyId} not compiled: ${error.message}`);
+    }
   } catch (error) {
-    await pool.query('ROLLBACK');
     logger.error(`Activate policy error: ${error.message}`);
     throw error;
   }
 };
 
+/**
+ * Compiled execution plan of a policy's current workflow, from the
+ * in-process cache when fresh. Connector rows are loaded into the plan so
+ * data nodes skip the lookup on every request.
+ */
+export const getExecutionPlan = async (policyId: string): Promise<ExecutionPlan | null> => {
+  try {
+    const cached = getCachedPlan(policyId, config.EXECUTION_PLAN_TTL_MS);
+    if (cached) {
+      return cached;
+    }
+
+    const policy = await getPolicyById(policyId);
+    if (!policy) {
+      return null;
+    }
+
+    const connectors: Record<string, any> = {};
+    for (const connectorId of getPlanConnectorIds(policy.workflow_json || {})) {
+      const connector = await getConnectorById(connectorId);
+      if (connector) connectors[connectorId] = connector;
+    }
+
+    const plan = compileExecutionPlan(policy.workflow_json || {}, {
+      policy_id: policyId,
+      version: policy.version,
+      policy,
+      connectors,
+      parameters: await getParameterValues(policyId),
+    });
+    cacheExecutionPlan(plan);
+
+    return plan;
+  } catch (error) {
+    logger.error(`Get execution plan error: ${error.message}`);
+    throw error;
+  }
+};
+
 /**
  * Validate policy workflow
  */
-export const validatePolicy = async (workflowJson: any, strict: boolean = false): Promise<{
+export const validatePolicy = async (
+  workflowJson: any,
+  strict: boolean = false,
+  options: { policy_id?: string; is_fragment?: boolean } = {}
+): Promise<{
   valid: boolean;
   errors: string[];
 }> => {
@@ -287,11 +588,203 @@ export const validatePolicy = async (workflowJson: any, strict: boolean = false)
       errors.push('Workflow must have a start node');
     }
 
+    // The input contract, when declared, must itself be a valid schema
+    if (workflowJson.input_schema) {
+      errors.push(...validateInputSchema(workflowJson.input_schema));
+    }
+
+    // Database query nodes may only run read-only statements
+    nodes.filter((n: any) => n.type === 'dbQuery').forEach((node: any) => {
+      const query = node.data?.config?.query;
+      if (!query) {
+        if (strict) {
+          errors.push(`Database query node "${node.data?.label || node.id}" must have a query`);
+        }
+        return;
+      }
+      try {
+        assertReadOnlySQL(query);
+      } catch (sqlError) {
+        errors.push(`Database query node "${node.data?.label || node.id}": ${sqlError.message}`);
+      }
+    });
+
+    // Formulas and expression conditions must parse
+    nodes.forEach((node: any) => {
+      const nodeConfig = node.data?.config || {};
+      const label = node.data?.label || node.id;
+      const expressions: string[] = [];
+
+      if (node.type === 'calculation' && nodeConfig.formula) {
+        expressions.push(nodeConfig.formula);
+      }
+      if (node.type === 'condition') {
+        const condition = nodeConfig.condition;
+        if (typeof condition === 'string') expressions.push(condition);
+        else if (condition?.expression) expressions.push(condition.expression);
+      }
+      if (node.type === 'switch') {
+        if (nodeConfig.expression) expressions.push(nodeConfig.expression);
+        (nodeConfig.cases || []).forEach((c: any) => c.expression && expressions.push(c.expression));
+      }
+      if (node.type === 'lookup' && nodeConfig.key) {
+        expressions.push(nodeConfig.key);
+      }
+      if (node.type === 'velocity' || node.type === 'negativeListCheck') {
+        (nodeConfig.checks || []).forEach((check: any) => check?.value && expressions.push(check.value));
+      }
+
+      expressions.forEach(source => {
+        try {
+          parseExpression(source);
+        } catch (expressionError) {
+          errors.push(`Node "${label}": ${expressionError.message}`);
+        }
+      });
+    });
+
+    // LOOKUP() tables are loaded before the run, so their names must be literal
+    const parsedExpressions = collectExpressions(workflowJson).map(source => {
+      try {
+        return parseExpression(source);
+      } catch (expressionError) {
+        return null; // reported with its node
+      }
+    }).filter(Boolean);
+    if (parsedExpressions.some(ast => getLookupCallTables(ast).includes(null))) {
+      errors.push("LOOKUP() must name its reference table as a quoted string, e.g. LOOKUP('pincode_tiers', pincode)");
+    }
+
+    // Switch edges must leave from a known handle; published switches must be
+    // complete and have every output connected
+    nodes.filter((n: any) => n.type === 'switch').forEach((node: any) => {
+      const label = node.data?.label || node.id;
+      const switchConfig = node.data?.config;
+      const handles = new Set([SWITCH_DEFAULT_HANDLE, ...(switchConfig?.cases || []).map((c: any) => c.id)]);
+      const outgoing = getOutgoingEdges(edges, node.id);
+      outgoing.forEach((edge: any) => {
+        if (!handles.has(edge.sourceHandle)) {
+          errors.push(`Switch node "${label}" has an edge from unknown output "${edge.sourceHandle || '(none)'}"`);
+        }
+      });
+
+      if (strict) {
+        validateSwitchConfig(switchConfig).forEach(switchError => {
+          errors.push(`Switch node "${label}": ${switchError}`);
+        });
+        if (!outgoing.some((edge: any) => edge.sourceHandle === SWITCH_DEFAULT_HANDLE)) {
+          errors.push(`Switch node "${label}" must connect its default output`);
+        }
+        (switchConfig?.cases || []).forEach((switchCase: any) => {
+          if (!outgoing.some((edge: any) => edge.sourceHandle === switchCase.id)) {
+            errors.push(`Switch node "${label}" case "${switchCase.label || switchCase.id}" is not connected`);
+          }
+        });
+      }
+    });
+
+    // Negative list checks leave through clear, manual_review or reject; published
+    // ones must connect all three, since a list's action can change later
+    nodes.filter((n: any) => n.type === 'negativeListCheck').forEach((node: any) => {
+      const label = node.data?.label || node.id;
+      const outgoing = getOutgoingEdges(edges, node.id);
+      outgoing.forEach((edge: any) => {
+        if (!NEGATIVE_LIST_HANDLES.includes(edge.sourceHandle)) {
+          errors.push(`Negative list check "${label}" has an edge from unknown output "${edge.sourceHandle || '(none)'}"`);
+        }
+      });
+
+      if (strict) {
+        validateNegativeListCheckConfig(node.data?.config).forEach(checkError => {
+          errors.push(`Negative list check "${label}": ${checkError}`);
+        });
+        NEGATIVE_LIST_HANDLES.forEach(handle => {
+          if (!outgoing.some((edge: any) => edge.sourceHandle === handle)) {
+            errors.push(`Negative list check "${label}" must connect its ${handle.replace('_', ' ')} output`);
+          }
+        });
+      }
+    });
+
+    // Missing-data rules must name a known action and carry what it needs
+    const checkMissingDataRule = (rule: any, where: string) => {
+      if (!rule) return;
+      const ruleError = validateMissingDataRule(rule);
+      if (ruleError) {
+        errors.push(`${where}: ${ruleError}`);
+        return;
+      }
+      if (rule.action === 'impute') {
+        try {
+          parseExpression(rule.expression);
+        } catch (expressionError) {
+          errors.push(`${where}: ${expressionError.message}`);
+        }
+      }
+    };
+
+    const missingDataSettings = workflowJson.settings?.missing_data || {};
+    checkMissingDataRule(missingDataSettings.default, 'Default missing-data rule');
+    Object.entries(missingDataSettings.variables || {}).forEach(([variable, rule]) => {
+      checkMissingDataRule(rule, `Missing-data rule for "${variable}"`);
+    });
+
+    nodes.forEach((node: any) => {
+      const label = node.data?.label || node.id;
+
+      if (node.type === 'strategy') {
+        const visit = (items: any[]) => (items || []).forEach(item => {
+          if (isConditionGroup(item)) {
+            visit(item.conditions);
+          } else {
+            checkMissingDataRule(item.missingData, `Strategy node "${label}" condition on "${item.variable}"`);
+            if (isComputedCondition(item)) {
+              try {
+                parseExpression(item.variable);
+              } catch (expressionError) {
+                errors.push(`Strategy node "${label}" condition "${item.variable}": ${expressionError.message}`);
+              }
+            }
+            const dateError = validateDateCondition(item.operator, item.value);
+            if (dateError) {
+              errors.push(`Strategy node "${label}" condition on "${item.variable}": ${dateError}`);
+            }
+          }
+        });
+        visit(node.data?.conditions);
+      }
+
+      if (node.type === 'score') {
+        (node.data?.config?.factors || []).forEach((factor: any) => {
+          checkMissingDataRule(factor.missing_data, `Score node "${label}" factor "${factor.name}"`);
+        });
+      }
+    });
+
+    // Sub-policy input mappings must parse; a policy cannot call itself
+    getSubPolicyReferences(workflowJson).forEach(ref => {
+      const node = nodes.find((n: any) => n.id === ref.node_id);
+      const config = node?.data?.config || {};
+      if (options.policy_id && ref.policy_id === options.policy_id) {
+        errors.push(`Sub-policy node "${ref.label}" cannot call its own policy`);
+      }
+      Object.entries(config.input_mapping || {}).forEach(([variable, source]) => {
+        try {
+          parseExpression(String(source));
+        } catch (expressionError) {
+          errors.push(`Sub-policy node "${ref.label}" input "${variable}": ${expressionError.message}`);
+        }
+      });
+    });
+
     // Only enforce decision node requirement in strict mode (for activation/publishing)
     if (strict) {
-      // Check for at least one decision-making node (decision OR strategy nodes)
-      const decisionNodes = nodes.filter((n: any) => n.type === 'decision' || n.type === 'strategy');
-      if (decisionNodes.length === 0) {
+      // Check for at least one decision-making node (decision OR strategy nodes);
+      // fragments only compute variables for their callers
+      const decisionNodes = nodes.filter((n: any) =>
+        n.type === 'decision' || n.type === 'strategy' || n.type === 'subPolicy'
+      );
+      if (decisionNodes.length === 0 && !options.is_fragment) {
         errors.push('Workflow must have at least one strategy or decision node');
       }
 
@@ -310,13 +803,155 @@ export const validatePolicy = async (workflowJson: any, strict: boolean = false)
         errors.push(`Found ${orphanedNodes.length} orphaned node(s)`);
       }
 
+      // Workflows must be acyclic
+      findCycles(nodes, edges).forEach(cycle => {
+        const labels = cycle.map(id => {
+          const node = nodes.find((n: any) => n.id === id);
+          return node?.data?.label || id;
+        });
+        errors.push(`Workflow contains a cycle: ${labels.join(' → ')}`);
+      });
+
+      // Decision tables must be complete and well-formed
+      nodes.filter((n: any) => n.type === 'decisionTable').forEach((node: any) => {
+        const label = node.data?.label || node.id;
+        validateDecisionTable(node.data?.config).forEach(tableError => {
+          errors.push(`Decision table "${label}": ${tableError}`);
+        });
+      });
+
+      // Validate parallel fork/join pairs
+      nodes.filter((n: any) => n.type === 'fork').forEach((fork: any) => {
+        const label = fork.data?.label || fork.id;
+        const branchCount = getOutgoingEdges(edges, fork.id).length;
+
+        if (branchCount < 2) {
+          errors.push(`Fork node "${label}" must have at least two outgoing branches`);
+        }
+
+        const join = findMatchingJoin(fork, nodes, edges);
+        if (!join) {
+          errors.push(`Fork node "${label}" has no matching join node`);
+          return;
+        }
+
+        const joinConfig = join.data?.config || {};
+        const mode = joinConfig.mode || 'all';
+        if (!['all', 'any', 'quorum'].includes(mode)) {
+          errors.push(`Join node "${join.data?.label || join.id}" has invalid mode "${mode}"`);
+        }
+        if (mode === 'quorum') {
+          const quorum = Number(joinConfig.quorum);
+          if (!Number.isInteger(quorum) || quorum < 1 || quorum > branchCount) {
+            errors.push(`Join node "${join.data?.label || join.id}" quorum must be between 1 and ${branchCount}`);
+          }
+        }
+
+        const branchDecisions = getNodesBetween(fork, join, nodes, edges).filter((n: any) => n.type === 'decision');
+        if (branchDecisions.length > 0) {
+          errors.push(`Fork node "${label}" has decision node(s) inside its parallel branches`);
+        }
+      });
+
       // Validate that strategy nodes have proper configuration
       const strategyNodes = nodes.filter((n: any) => n.type === 'strategy');
       strategyNodes.forEach((node: any) => {
+        const label = node.data?.label || node.id;
         if (!node.data?.defaultDecision) {
-          errors.push(`Strategy node "${node.data?.label || node.id}" must have a default decision`);
+          errors.push(`Strategy node "${label}" must have a default decision`);
+        } else if (!normalizeStrategyDecision(node.data.defaultDecision)) {
+          errors.push(`Strategy node "${label}" has an invalid default decision "${node.data.defaultDecision}"`);
+        }
+        if (node.data?.weight !== undefined && !(Number(node.data.weight) > 0)) {
+          errors.push(`Strategy node "${label}" must have a positive weight`);
+        }
+
+        // Condition groups need a valid operator and at least one member
+        const checkGroup = (group: any, path: string) => {
+          if (group.operator !== 'AND' && group.operator !== 'OR') {
+            errors.push(`Strategy node "${label}": condition group ${path} must use AND or OR`);
+          }
+          if (!group.conditions || group.conditions.length === 0) {
+            errors.push(`Strategy node "${label}": condition group ${path} is empty`);
+            return;
+          }
+          group.conditions.forEach((item: any, index: number) => {
+            if (isConditionGroup(item)) {
+              checkGroup(item, path === 'root' ? `${index + 1}` : `${path}.${index + 1}`);
+            }
+          });
+        };
+        if ((node.data?.conditions || []).length > 0) {
+          checkGroup(buildConditionTree(node.data), 'root');
         }
       });
+
+      // Sub-policies must pin a published version that exists
+      for (const ref of getSubPolicyReferences(workflowJson)) {
+        if (!ref.policy_id || !ref.version) {
+          errors.push(`Sub-policy node "${ref.label}" must select a policy and a version`);
+          continue;
+        }
+        const version = await getPolicyVersion(ref.policy_id, ref.version);
+        if (!version) {
+          errors.push(`Sub-policy node "${ref.label}" calls version ${ref.version} of a policy that has no such published version`);
+        }
+      }
+
+      // Lookup nodes must be complete and every table (or pinned version) must exist
+      nodes.filter((n: any) => n.type === 'lookup').forEach((node: any) => {
+        validateLookupConfig(node.data?.config).forEach(lookupError => {
+          errors.push(`Lookup node "${node.data?.label || node.id}": ${lookupError}`);
+        });
+      });
+      for (const ref of getReferenceTableRefs(workflowJson, parsedExpressions)) {
+        if (!(await getReferenceTableVersion(ref.name, ref.version))) {
+          errors.push(ref.version
+            ? `Reference table "${ref.name}" has no version ${ref.version}`
+            : `Reference table "${ref.name}" does not exist`);
+        }
+      }
+
+      // Velocity nodes need complete checks
+      nodes.filter((n: any) => n.type === 'velocity').forEach((node: any) => {
+        validateVelocityConfig(node.data?.config).forEach(velocityError => {
+          errors.push(`Velocity node "${node.data?.label || node.id}": ${velocityError}`);
+        });
+      });
+      for (const name of getNegativeListRefs(workflowJson)) {
+        if (!(await getNegativeList(name))) {
+          errors.push(`Negative list "${name}" does not exist`);
+        }
+      }
+
+      if (options.policy_id) {
+        const cycle = await findSubPolicyCycle(options.policy_id, workflowJson);
+        if (cycle) {
+          const names = await pool.query('SELECT id, name FROM policies WHERE id = ANY($1)', [cycle]);
+          const nameOf = (id: string) => names.rows.find(r => r.id === id)?.name || id;
+          errors.push(`Sub-policy calls form a cycle: ${cycle.map(nameOf).join(' → ')}`);
+        }
+
+        // Referenced parameters must exist in the approved set
+        const { values } = await getParameterValues(options.policy_id);
+        const undeclared = getParameterReferences(workflowJson).filter(name => !(name in values));
+        if (undeclared.length > 0) {
+          errors.push(`Workflow references parameters with no approved value: ${undeclared.join(', ')}`);
+        }
+      }
+
+      // Validate strategy aggregation settings
+      const aggregation = workflowJson.settings?.strategy_aggregation;
+      if (aggregation) {
+        if (!STRATEGY_AGGREGATION_MODES.includes(aggregation.mode)) {
+          errors.push(`Unknown strategy aggregation mode "${aggregation.mode}"`);
+        } else if (aggregation.mode === 'n_of_m_reject') {
+          const threshold = Number(aggregation.reject_threshold);
+          if (!Number.isInteger(threshold) || threshold < 1 || threshold > strategyNodes.length) {
+            errors.push(`Reject threshold must be between 1 and ${strategyNodes.length} (the number of strategy nodes)`);
+          }
+        }
+      }
     }
 
     return {
@@ -344,8 +979,8 @@ export const clonePolicy = async (
     }
 
     const result = await pool.query(
-      `INSERT INTO policies (name, description, product_type, workflow_json, rules_summary, created_by, version, status)
-       VALUES ($1, $2, $3, $4, $5, $6, '1.0', 'draft')
+      `INSERT INTO policies (name, description, product_type, workflow_json, rules_summary, created_by, version, status, is_fragment)
+       VALUES ($1, $2, $3, $4, $5, $6, '1.0', 'draft', $7)
        RETURNING *`,
       [
         newName,
@@ -354,9 +989,21 @@ export const clonePolicy = async (
         JSON.stringify(original.workflow_json),
         original.rules_summary,
         userId,
+        !!original.is_fragment,
       ]
     );
 
+    // The clone starts from the same parameters, pending approval like any change
+    const parameters = await getEffectiveParameterSet(policyId);
+    if (parameters) {
+      await proposeParameterChange(
+        result.rows[0].id,
+        parameters.parameters,
+        `Copied from ${original.name} (parameter version ${parameters.version})`,
+        userId
+      );
+    }
+
     logger.info(`Policy cloned: ${policyId} -> ${result.rows[0].id}`);
 
     return result.rows[0];
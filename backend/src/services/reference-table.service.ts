@@ -0,0 +1,360 @@
+import path from 'path';
+import * as XLSX from 'xlsx';
+import { pool } from '../config/database';
+import logger from '../utils/logger';
+import { config } from '../config/env';
+import { compileExecutionPlan } from '../engine/execution-plan';
+import {
+  ReferenceColumn,
+  ReferenceTableIndex,
+  ReferenceTableRef,
+  ReferenceTableSchema,
+  ReferenceTableSet,
+  buildReferenceIndex,
+  coerceReferenceRows,
+  inferReferenceColumns,
+  isValidReferenceName,
+  referenceTableKey,
+  validateReferenceSchema,
+} from '../engine/reference-tables';
+
+/**
+ * Reference tables uploaded as CSV or Excel files
+ *
+ * Every upload replaces the whole table as a new version; earlier versions
+ * stay available to lookup nodes that pin them. Column types come from the
+ * upload, the previous version or the data, in that order.
+ */
+
+export interface ReferenceTable {
+  id: string;
+  name: string;
+  description: string | null;
+  current_version: number;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ReferenceTableUpload {
+  key_column?: string;
+  columns?: ReferenceColumn[];
+  description?: string;
+  change_notes?: string;
+}
+
+export class ReferenceTableError extends Error {
+  status: number; // HTTP status the API answers with
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'ReferenceTableError';
+    this.status = status;
+  }
+}
+
+export const REFERENCE_FILE_TYPES = ['.csv', '.xlsx', '.xls'];
+
+// Indexed tables by referenceTableKey(); current versions refresh after the
+// plan TTL or on upload, pinned versions never change
+const indexCache = new Map<string, { index: ReferenceTableIndex; loaded_at: number }>();
+
+// 'Risk Tier ' -> 'risk_tier'
+const toColumnName = (header: any): string =>
+  String(header ?? '').trim().replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '').toLowerCase();
+
+/**
+ * Header and rows of the first sheet. CSV cells are read as text so codes
+ * keep their leading zeros; the schema decides the types.
+ */
+export const parseReferenceTableFile = (
+  buffer: Buffer,
+  filename: string
+): { columns: string[]; rows: Record<string, any>[] } => {
+  const extension = path.extname(filename || '').toLowerCase();
+  if (!REFERENCE_FILE_TYPES.includes(extension)) {
+    throw new ReferenceTableError(`Upload a ${REFERENCE_FILE_TYPES.join(', ')} file`);
+  }
+
+  let sheet: XLSX.WorkSheet;
+  try {
+    const workbook = XLSX.read(buffer, { type: 'buffer', raw: extension === '.csv' });
+    sheet = workbook.Sheets[workbook.SheetNames[0]];
+  } catch (parseError) {
+    throw new ReferenceTableError(`Could not read ${filename}: ${parseError.message}`);
+  }
+  if (!sheet) {
+    throw new ReferenceTableError(`${filename} has no sheets`);
+  }
+
+  const grid: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: null, blankrows: false });
+  if (grid.length === 0) {
+    throw new ReferenceTableError(`${filename} is empty`);
+  }
+
+  const columns = (grid[0] || []).map(toColumnName);
+  if (columns.some(name => !isValidReferenceName(name))) {
+    throw new ReferenceTableError('Every column needs a header that starts with a letter');
+  }
+
+  const rows = grid.slice(1).map(cells => {
+    const row: Record<string, any> = {};
+    columns.forEach((name, index) => {
+      row[name] = cells[index] ?? null;
+    });
+    return row;
+  });
+  return { columns, rows };
+};
+
+export const getReferenceTable = async (name: string): Promise<ReferenceTable | null> => {
+  try {
+    const result = await pool.query('SELECT * FROM reference_tables WHERE name = $1', [name]);
+    return result.rows[0] || null;
+  } catch (error) {
+    logger.error(`Get reference table error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * All tables with their current version's schema and size
+ */
+export const getAllReferenceTables = async (): Promise<any[]> => {
+  try {
+    const result = await pool.query(
+      `SELECT t.*, v.key_column, v.columns, v.row_count, v.uploaded_at, u.full_name AS uploaded_by_name
+       FROM reference_tables t
+       LEFT JOIN reference_table_versions v ON v.table_id = t.id AND v.version = t.current_version
+       LEFT JOIN users u ON u.id = v.uploaded_by
+       ORDER BY t.name`
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error(`Get reference tables error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Versions of a table, newest first, without their rows
+ */
+export const getReferenceTableVersions = async (name: string): Promise<any[]> => {
+  try {
+    const result = await pool.query(
+      `SELECT v.id, v.version, v.key_column, v.columns, v.row_count, v.source_filename, v.change_notes,
+              v.uploaded_by, v.uploaded_at, u.full_name AS uploaded_by_name
+       FROM reference_table_versions v
+       JOIN reference_tables t ON t.id = v.table_id
+       LEFT JOIN users u ON u.id = v.uploaded_by
+       WHERE t.name = $1
+       ORDER BY v.version DESC`,
+      [name]
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error(`Get reference table versions error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * One version with its rows (the current one when no version is given)
+ */
+export const getReferenceTableVersion = async (name: string, version?: number): Promise<any | null> => {
+  try {
+    const result = await pool.query(
+      `SELECT v.*, t.name
+       FROM reference_table_versions v
+       JOIN reference_tables t ON t.id = v.table_id
+       WHERE t.name = $1 AND v.version = COALESCE($2, t.current_version)`,
+      [name, version || null]
+    );
+    return result.rows[0] || null;
+  } catch (error) {
+    logger.error(`Get reference table version error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Upload a file as the next version of a table, creating the table on its
+ * first upload
+ */
+export const uploadReferenceTable = async (
+  name: string,
+  file: { buffer: Buffer; originalname: string },
+  upload: ReferenceTableUpload,
+  userId: string
+): Promise<{ table: ReferenceTable; version: number; row_count: number }> => {
+  if (!isValidReferenceName(name)) {
+    throw new ReferenceTableError('Table names must start with a letter or underscore and contain only letters, digits and underscores');
+  }
+
+  const parsed = parseReferenceTableFile(file.buffer, file.originalname);
+  const previous = await getReferenceTableVersion(name);
+
+  // Types: as uploaded, else as in the previous version, else from the data
+  const keyColumn = upload.key_column || previous?.key_column || parsed.columns[0];
+  const declared = new Map<string, ReferenceColumn>();
+  (previous?.columns || []).forEach((column: ReferenceColumn) => declared.set(column.name, column));
+  (upload.columns || []).forEach(column => declared.set(column.name, column));
+  const inferred = inferReferenceColumns(parsed.rows, parsed.columns, keyColumn);
+  const schema: ReferenceTableSchema = {
+    key_column: keyColumn,
+    columns: inferred.map(column => declared.get(column.name) || column),
+  };
+
+  return saveReferenceTableVersion(name, schema, parsed.rows, { ...upload, source_filename: file.originalname }, userId);
+};
+
+/**
+ * Store rows as the next version of a table (creating the table), checked
+ * against the schema; uploads and policy bundle imports both end here
+ */
+export const saveReferenceTableVersion = async (
+  name: string,
+  schema: ReferenceTableSchema,
+  rawRows: Record<string, any>[],
+  upload: ReferenceTableUpload & { source_filename?: string },
+  userId: string
+): Promise<{ table: ReferenceTable; version: number; row_count: number }> => {
+  if (!isValidReferenceName(name)) {
+    throw new ReferenceTableError('Table names must start with a letter or underscore and contain only letters, digits and underscores');
+  }
+
+  const schemaErrors = validateReferenceSchema(schema);
+  if (schemaErrors.length > 0) {
+    throw new ReferenceTableError(schemaErrors.join('; '));
+  }
+  const { rows, errors } = coerceReferenceRows(rawRows, schema);
+  if (errors.length > 0) {
+    throw new ReferenceTableError(errors.join('; '));
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      `INSERT INTO reference_tables (name, description, created_by)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (name) DO NOTHING`,
+      [name, upload.description || null, userId]
+    );
+    // Serializes uploads of one table so two cannot share a version
+    const locked = await client.query('SELECT * FROM reference_tables WHERE name = $1 FOR UPDATE', [name]);
+    const table: ReferenceTable = locked.rows[0];
+    const version = table.current_version + 1;
+
+    await client.query(
+      `INSERT INTO reference_table_versions
+       (table_id, version, key_column, columns, rows, row_count, source_filename, change_notes, uploaded_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        table.id,
+        version,
+        schema.key_column,
+        JSON.stringify(schema.columns),
+        JSON.stringify(rows),
+        rows.length,
+        upload.source_filename || null,
+        upload.change_notes || null,
+        userId,
+      ]
+    );
+    const updated = await client.query(
+      `UPDATE reference_tables SET current_version = $1, description = COALESCE($2, description)
+       WHERE id = $3
+       RETURNING *`,
+      [version, upload.description || null, table.id]
+    );
+
+    await client.query('COMMIT');
+    indexCache.delete(referenceTableKey(name));
+
+    logger.info(`Reference table ${name} version ${version} uploaded by user ${userId} (${rows.length} rows)`);
+
+    return { table: updated.rows[0], version, row_count: rows.length };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    logger.error(`Upload reference table error: ${error.message}`);
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Policies whose workflow reads a table
+ */
+export const getReferenceTableDependents = async (name: string): Promise<{ id: string; name: string }[]> => {
+  try {
+    const result = await pool.query('SELECT id, name, workflow_json FROM policies');
+    return result.rows
+      .filter(policy => compileExecutionPlan(policy.workflow_json || {}, { policy_id: policy.id })
+        .reference_tables.some(ref => ref.name === name))
+      .map(policy => ({ id: policy.id, name: policy.name }));
+  } catch (error) {
+    logger.error(`Get reference table dependents error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Delete a table and all its versions; refused while a policy reads it
+ */
+export const deleteReferenceTable = async (name: string): Promise<void> => {
+  try {
+    const dependents = await getReferenceTableDependents(name);
+    if (dependents.length > 0) {
+      throw new ReferenceTableError(
+        `Reference table is used by ${dependents.map(p => `"${p.name}"`).join(', ')}`,
+        409
+      );
+    }
+
+    const result = await pool.query('DELETE FROM reference_tables WHERE name = $1', [name]);
+    if (result.rowCount === 0) {
+      throw new ReferenceTableError('Reference table not found', 404);
+    }
+
+    indexCache.forEach((entry, key) => {
+      if (entry.index.name === name) indexCache.delete(key);
+    });
+
+    logger.info(`Reference table deleted: ${name}`);
+  } catch (error) {
+    logger.error(`Delete reference table error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Indexed tables an execution reads, from the in-process cache when fresh
+ */
+export const loadReferenceTables = async (refs: ReferenceTableRef[]): Promise<ReferenceTableSet> => {
+  const tables: ReferenceTableSet = {};
+
+  for (const ref of refs) {
+    const key = referenceTableKey(ref.name, ref.version);
+    const cached = indexCache.get(key);
+    if (cached && (ref.version || Date.now() - cached.loaded_at <= config.EXECUTION_PLAN_TTL_MS)) {
+      tables[key] = cached.index;
+      continue;
+    }
+
+    const stored = await getReferenceTableVersion(ref.name, ref.version);
+    if (!stored) {
+      throw new Error(ref.version
+        ? `Reference table "${ref.name}" has no version ${ref.version}`
+        : `Reference table "${ref.name}" does not exist`);
+    }
+
+    const index = buildReferenceIndex(ref.name, stored.version, stored, stored.rows || []);
+    indexCache.set(key, { index, loaded_at: Date.now() });
+    tables[key] = index;
+  }
+
+  return tables;
+};
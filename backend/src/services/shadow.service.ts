@@ -0,0 +1,420 @@
+import { pool } from '../config/database';
+import logger from '../utils/logger';
+import { config } from '../config/env';
+import { ExecutionResult, executeWorkflow, replayFromCache } from '../engine/workflow-executor';
+import { applyInputSchema } from '../engine/input-schema';
+import { getExecutionPlan, getPolicyById, validatePolicy } from './policy.service';
+
+/**
+ * Shadow-mode execution of challenger policies
+ *
+ * Only one policy per product type can be active, so a new policy is trialled
+ * by attaching it to the live one as a shadow. After a live request has been
+ * decided, each active shadow runs on the same input, at the same evaluation
+ * date and against the live run's connector responses. Shadows never call
+ * out: a data source, API call or database query the live run did not make
+ * fails in the shadow as an unanswered replay would in a backtest. Shadow
+ * decisions and traces are stored for comparison only: they are never
+ * returned, queued for manual review or sent as webhooks, and they do not
+ * record velocity identifiers.
+ */
+
+export interface PolicyShadow {
+  id: string;
+  policy_id: string;
+  shadow_policy_id: string;
+  shadow_policy_name?: string;
+  shadow_policy_status?: string;
+  is_active: boolean;
+  notes: string | null;
+  created_by: string;
+  created_at: Date;
+  stopped_at: Date | null;
+  executions?: number;
+  disagreements?: number;
+  last_run_at?: Date | null;
+}
+
+export interface ShadowExecution {
+  id: string;
+  policy_id: string;
+  shadow_policy_id: string;
+  application_id: string;
+  champion_underwriting_id: string;
+  champion_decision: string;
+  champion_reason: string;
+  shadow_decision: string; // 'error' when the shadow could not run
+  shadow_reason: string;
+  shadow_details?: Record<string, any>;
+  execution_trace?: any[];
+  execution_time_ms: number;
+  created_at: Date;
+}
+
+export interface ShadowComparison {
+  policy_id: string;
+  shadow_policy_id: string;
+  from: string | null;
+  to: string | null;
+  total: number;
+  agreed: number;
+  disagreed: number;
+  errors: number;
+  agreement_rate: number; // percent of runs without an error
+  champion_approval_rate: number;
+  shadow_approval_rate: number;
+  matrix: { champion_decision: string; shadow_decision: string; count: number }[];
+  disagreements: ShadowExecution[]; // most recent first
+}
+
+export class ShadowPolicyError extends Error {
+  status: number; // HTTP status the API answers with
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'ShadowPolicyError';
+    this.status = status;
+  }
+}
+
+// Disagreements listed in a comparison; the counts cover every run
+const MAX_LISTED_DISAGREEMENTS = 50;
+
+const SUMMARY_COLUMNS = `id, policy_id, shadow_policy_id, application_id, champion_underwriting_id,
+  champion_decision, champion_reason, shadow_decision, shadow_reason, execution_time_ms, created_at`;
+
+const percent = (count: number, total: number): number =>
+  total > 0 ? Math.round((count / total) * 10000) / 100 : 0;
+
+/**
+ * Shadows attached to a live policy, with run and disagreement counts
+ */
+export const getPolicyShadows = async (policyId: string): Promise<PolicyShadow[]> => {
+  try {
+    const result = await pool.query(
+      `SELECT s.*, p.name AS shadow_policy_name, p.status AS shadow_policy_status,
+              COUNT(e.id)::int AS executions,
+              COUNT(e.id) FILTER (WHERE e.shadow_decision NOT IN (e.champion_decision, 'error'))::int AS disagreements,
+              MAX(e.created_at) AS last_run_at
+       FROM policy_shadows s
+       JOIN policies p ON p.id = s.shadow_policy_id
+       LEFT JOIN shadow_executions e ON e.policy_id = s.policy_id AND e.shadow_policy_id = s.shadow_policy_id
+       WHERE s.policy_id = $1
+       GROUP BY s.id, p.name, p.status
+       ORDER BY s.is_active DESC, s.created_at DESC`,
+      [policyId]
+    );
+
+    return result.rows;
+  } catch (error) {
+    logger.error(`Get policy shadows error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Attach a policy as a shadow of a live policy, or restart a stopped one.
+ * The shadow must pass the same validation as publishing, since every live
+ * request will run it.
+ */
+export const attachShadowPolicy = async (
+  policyId: string,
+  shadowPolicyId: string,
+  userId: string,
+  notes?: string
+): Promise<PolicyShadow> => {
+  try {
+    if (!shadowPolicyId) {
+      throw new ShadowPolicyError('shadow_policy_id is required');
+    }
+    if (shadowPolicyId === policyId) {
+      throw new ShadowPolicyError('A policy cannot shadow itself');
+    }
+
+    const [policy, shadow] = await Promise.all([getPolicyById(policyId), getPolicyById(shadowPolicyId)]);
+    if (!policy) {
+      throw new ShadowPolicyError('Policy not found', 404);
+    }
+    if (!shadow) {
+      throw new ShadowPolicyError('Shadow policy not found', 404);
+    }
+    if (policy.is_fragment || shadow.is_fragment) {
+      throw new ShadowPolicyError('Library fragments cannot run or be run in shadow mode');
+    }
+
+    const validation = await validatePolicy(shadow.workflow_json, true, { policy_id: shadowPolicyId });
+    if (!validation.valid) {
+      throw new ShadowPolicyError(`Shadow policy is not valid: ${validation.errors.join('; ')}`);
+    }
+
+    const result = await pool.query(
+      `INSERT INTO policy_shadows (policy_id, shadow_policy_id, notes, created_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (policy_id, shadow_policy_id) DO UPDATE SET
+         is_active = true,
+         stopped_at = NULL,
+         notes = COALESCE(EXCLUDED.notes, policy_shadows.notes)
+       RETURNING *`,
+      [policyId, shadowPolicyId, notes || null, userId]
+    );
+
+    logger.info(`Shadow policy ${shadowPolicyId} attached to ${policyId}`);
+
+    return result.rows[0];
+  } catch (error) {
+    logger.error(`Attach shadow policy error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Stop running a shadow; its recorded executions are kept
+ */
+export const stopShadowPolicy = async (policyId: string, shadowPolicyId: string): Promise<void> => {
+  try {
+    const result = await pool.query(
+      `UPDATE policy_shadows SET is_active = false, stopped_at = NOW()
+       WHERE policy_id = $1 AND shadow_policy_id = $2 AND is_active = true`,
+      [policyId, shadowPolicyId]
+    );
+    if (result.rowCount === 0) {
+      throw new ShadowPolicyError('No running shadow with this policy', 404);
+    }
+
+    logger.info(`Shadow policy ${shadowPolicyId} stopped on ${policyId}`);
+  } catch (error) {
+    logger.error(`Stop shadow policy error: ${error.message}`);
+    throw error;
+  }
+};
+
+const runShadow = async (
+  policyId: string,
+  shadowPolicyId: string,
+  applicationId: string,
+  applicant: Record<string, any>,
+  champion: ExecutionResult,
+  connectorCache: Record<string, any>
+): Promise<void> => {
+  const startTime = Date.now();
+  let decision: string;
+  let reason: string;
+  let details: Record<string, any>;
+  let trace: any[] = [];
+
+  try {
+    const plan = await getExecutionPlan(shadowPolicyId);
+    if (!plan) {
+      throw new Error('Shadow policy not found');
+    }
+
+    const input = applyInputSchema(plan.policy.workflow_json, applicant);
+    if (!input.valid) {
+      decision = 'error';
+      reason = 'Input does not match the shadow policy schema';
+      details = { violations: input.violations };
+    } else {
+      // A copy, so one shadow's run cannot change what the next one sees
+      const cache = { ...connectorCache };
+      const result = await executeWorkflow(plan.policy.workflow_json, input.value, shadowPolicyId, applicationId, {
+        plan,
+        as_of: new Date(champion.evaluation_date),
+        connector_cache: cache,
+        replay: replayFromCache(cache),
+      });
+
+      decision = result.success ? result.decision : 'error';
+      reason = result.reason;
+      details = result.details;
+      trace = result.execution_trace;
+    }
+  } catch (error) {
+    decision = 'error';
+    reason = error.message;
+    details = { error: error.message };
+  }
+
+  await pool.query(
+    `INSERT INTO shadow_executions (policy_id, shadow_policy_id, application_id, champion_underwriting_id,
+       champion_decision, champion_reason, shadow_decision, shadow_reason, shadow_details, execution_trace, execution_time_ms)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+    [
+      policyId,
+      shadowPolicyId,
+      applicationId,
+      champion.underwriting_id,
+      champion.decision,
+      champion.reason,
+      decision,
+      reason,
+      JSON.stringify(details),
+      JSON.stringify(trace),
+      Date.now() - startTime,
+    ]
+  );
+};
+
+// Live requests whose shadows are running in this process
+let runningShadowRequests = 0;
+
+/**
+ * Run a decided live request through the policy's active shadows, one after
+ * another. Called without awaiting once the live decision is made; failures
+ * are logged and never reach the caller. While SHADOW_MAX_CONCURRENT_REQUESTS
+ * requests are already being shadowed, further ones are skipped.
+ */
+export const runShadowPolicies = async (
+  policyId: string,
+  applicationId: string,
+  applicant: Record<string, any>,
+  champion: ExecutionResult,
+  connectorCache: Record<string, any>
+): Promise<void> => {
+  if (runningShadowRequests >= config.SHADOW_MAX_CONCURRENT_REQUESTS) {
+    logger.warn(`Shadow runs skipped for ${applicationId}: ${runningShadowRequests} requests already being shadowed`);
+    return;
+  }
+
+  runningShadowRequests++;
+  try {
+    const shadows = await pool.query(
+      'SELECT shadow_policy_id FROM policy_shadows WHERE policy_id = $1 AND is_active = true',
+      [policyId]
+    );
+
+    for (const row of shadows.rows) {
+      try {
+        await runShadow(policyId, row.shadow_policy_id, applicationId, applicant, champion, connectorCache);
+      } catch (error) {
+        logger.error(`Shadow policy ${row.shadow_policy_id} run error: ${error.message}`);
+      }
+    }
+  } catch (error) {
+    logger.error(`Run shadow policies error: ${error.message}`);
+  } finally {
+    runningShadowRequests--;
+  }
+};
+
+/**
+ * Where a shadow would have decided differently from the live policy
+ */
+export const getShadowComparison = async (
+  policyId: string,
+  shadowPolicyId: string,
+  range: { from?: Date; to?: Date } = {}
+): Promise<ShadowComparison> => {
+  try {
+    const params: any[] = [policyId, shadowPolicyId];
+    let where = 'policy_id = $1 AND shadow_policy_id = $2';
+    if (range.from) {
+      params.push(range.from);
+      where += ` AND created_at >= $${params.length}`;
+    }
+    if (range.to) {
+      params.push(range.to);
+      where += ` AND created_at <= $${params.length}`;
+    }
+
+    const matrixResult = await pool.query(
+      `SELECT champion_decision, shadow_decision, COUNT(*)::int AS count
+       FROM shadow_executions
+       WHERE ${where}
+       GROUP BY champion_decision, shadow_decision
+       ORDER BY count DESC`,
+      params
+    );
+    const disagreements = await pool.query(
+      `SELECT ${SUMMARY_COLUMNS}
+       FROM shadow_executions
+       WHERE ${where} AND shadow_decision NOT IN (champion_decision, 'error')
+       ORDER BY created_at DESC
+       LIMIT ${MAX_LISTED_DISAGREEMENTS}`,
+      params
+    );
+
+    const matrix = matrixResult.rows;
+    const countWhere = (predicate: (cell: typeof matrix[number]) => boolean) =>
+      matrix.filter(predicate).reduce((sum, cell) => sum + cell.count, 0);
+
+    const total = countWhere(() => true);
+    const errors = countWhere(cell => cell.shadow_decision === 'error');
+    const agreed = countWhere(cell => cell.shadow_decision === cell.champion_decision);
+    const compared = total - errors;
+
+    return {
+      policy_id: policyId,
+      shadow_policy_id: shadowPolicyId,
+      from: range.from ? range.from.toISOString() : null,
+      to: range.to ? range.to.toISOString() : null,
+      total,
+      agreed,
+      disagreed: compared - agreed,
+      errors,
+      agreement_rate: percent(agreed, compared),
+      champion_approval_rate: percent(countWhere(cell => cell.champion_decision === 'approved' && cell.shadow_decision !== 'error'), compared),
+      shadow_approval_rate: percent(countWhere(cell => cell.shadow_decision === 'approved'), compared),
+      matrix,
+      disagreements: disagreements.rows,
+    };
+  } catch (error) {
+    logger.error(`Get shadow comparison error: ${error.message}`);
+    throw error;
+  }
+};
+
+export type ShadowOutcome = 'agreed' | 'disagreed' | 'error';
+
+const OUTCOME_FILTERS: Record<ShadowOutcome, string> = {
+  agreed: 'shadow_decision = champion_decision',
+  disagreed: "shadow_decision NOT IN (champion_decision, 'error')",
+  error: "shadow_decision = 'error'",
+};
+
+/**
+ * Page through a shadow's runs, optionally only those with one outcome
+ */
+export const getShadowExecutions = async (
+  policyId: string,
+  shadowPolicyId: string,
+  query: { outcome?: ShadowOutcome; page?: number; limit?: number } = {}
+): Promise<{ executions: ShadowExecution[]; total: number }> => {
+  try {
+    const page = query.page || 1;
+    const limit = Math.min(query.limit || 50, 500);
+    const filter = OUTCOME_FILTERS[query.outcome];
+    const where = `policy_id = $1 AND shadow_policy_id = $2${filter ? ` AND ${filter}` : ''}`;
+
+    const count = await pool.query(`SELECT COUNT(*) FROM shadow_executions WHERE ${where}`, [policyId, shadowPolicyId]);
+    const result = await pool.query(
+      `SELECT ${SUMMARY_COLUMNS}
+       FROM shadow_executions
+       WHERE ${where}
+       ORDER BY created_at DESC
+       LIMIT $3 OFFSET $4`,
+      [policyId, shadowPolicyId, limit, (page - 1) * limit]
+    );
+
+    return { executions: result.rows, total: parseInt(count.rows[0].count) };
+  } catch (error) {
+    logger.error(`Get shadow executions error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * One shadow run with its details and trace
+ */
+export const getShadowExecution = async (policyId: string, executionId: string): Promise<ShadowExecution | null> => {
+  try {
+    const result = await pool.query(
+      'SELECT * FROM shadow_executions WHERE id = $1 AND policy_id = $2',
+      [executionId, policyId]
+    );
+
+    return result.rows[0] || null;
+  } catch (error) {
+    logger.error(`Get shadow execution error: ${error.message}`);
+    throw error;
+  }
+};
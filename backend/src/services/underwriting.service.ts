@@ -1,11 +1,15 @@
 import { pool } from '../config/database';
 import logger from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
-import { getPolicyById } from './policy.service';
+import { getExecutionPlan } from './policy.service';
 import { executeWorkflow } from '../engine/workflow-executor';
+import { applyInputSchema, InputValidationError } from '../engine/input-schema';
 import axios from 'axios';
 import { config } from '../config/env';
 import { generateHMACSignature } from '../utils/encryption';
+import { recordApplicationIdentifiers } from './velocity.service';
+import { runShadowPolicies } from './shadow.service';
+import { ExperimentAssignment, getExperimentAssignment } from './experiment.service';
 
 export interface UnderwritingRequest {
   application_id: string;
@@ -35,25 +39,52 @@ export const processUnderwriting = async (
   apiKeyId?: string
 ): Promise<UnderwritingResponse> => {
   const startTime = Date.now();
+  // Experiment arm deciding the application; logged on every outcome
+  let assignment: ExperimentAssignment | null = null;
+  let decidingPolicyId = policyId;
 
   try {
-    // Get policy
-    const policy = await getPolicyById(policyId);
+    // Get the policy's compiled plan (cached between requests)
+    let plan = await getExecutionPlan(policyId);
 
-    if (!policy) {
+    if (!plan) {
       throw new Error('Policy not found');
     }
 
-    if (policy.status !== 'active') {
+    if (plan.policy.status !== 'active') {
       throw new Error('Policy is not active');
     }
 
-    // Execute workflow
+    if (plan.policy.is_fragment) {
+      throw new Error('Policy is a library fragment and can only be called from a sub-policy node');
+    }
+
+    // A running experiment may hand the application to a challenger policy
+    assignment = await getExperimentAssignment(policyId, request.application_id);
+    if (assignment && assignment.policy_id !== policyId) {
+      plan = await getExecutionPlan(assignment.policy_id);
+      if (!plan) {
+        throw new Error(`Policy of experiment arm "${assignment.arm}" not found`);
+      }
+      decidingPolicyId = assignment.policy_id;
+    }
+
+    const policy = plan.policy;
+
+    // Validate and coerce applicant data against the policy's input contract
+    const input = applyInputSchema(policy.workflow_json, request.applicant);
+    if (!input.valid) {
+      throw new InputValidationError(input.violations);
+    }
+
+    // Execute workflow; its connector responses are kept for shadow runs
+    const connectorCache: Record<string, any> = {};
     const result = await executeWorkflow(
       policy.workflow_json,
-      request.applicant,
-      policyId,
-      request.application_id
+      input.value,
+      decidingPolicyId,
+      request.application_id,
+      { plan, connector_cache: connectorCache }
     );
 
     const executionTime = Date.now() - startTime;
@@ -61,12 +92,22 @@ export const processUnderwriting = async (
     // Log API request
     await logAPIRequest(
       apiKeyId,
-      policyId,
+      decidingPolicyId,
       request.application_id,
       request,
       result,
       result.decision,
-      executionTime
+      executionTime,
+      assignment
+    );
+
+    // Later velocity checks count this application
+    await recordApplicationIdentifiers(
+      request.application_id,
+      request.applicant,
+      request.metadata,
+      decidingPolicyId,
+      result.underwriting_id
     );
 
     // Handle based on decision
@@ -75,7 +116,7 @@ export const processUnderwriting = async (
       await addToManualReviewQueue(
         request.application_id,
         result.underwriting_id,
-        policyId,
+        decidingPolicyId,
         request.applicant,
         result,
         result.reason
@@ -94,6 +135,12 @@ export const processUnderwriting = async (
       });
     }
 
+    // Shadow policies run in the background and never change this response; they
+    // are compared with the champion, so applications an experiment arm decided are skipped
+    if (decidingPolicyId === policyId) {
+      runShadowPolicies(policyId, request.application_id, request.applicant, result, connectorCache);
+    }
+
     // Return response
     return {
       success: true,
@@ -109,26 +156,51 @@ export const processUnderwriting = async (
   } catch (error) {
     const executionTime = Date.now() - startTime;
 
+    // Invalid input is the caller's error: reject it instead of queueing a review
+    if (error instanceof InputValidationError) {
+      logger.warn(`Underwriting input rejected for ${request.application_id}: ${error.violations.length} violation(s)`);
+      await logAPIRequest(
+        apiKeyId,
+        decidingPolicyId,
+        request.application_id,
+        request,
+        { error: error.message, violations: error.violations },
+        'invalid_input',
+        executionTime,
+        assignment
+      );
+      throw error;
+    }
+
     logger.error(`Underwriting error: ${error.message}`);
 
     // Log failed request
     await logAPIRequest(
       apiKeyId,
-      policyId,
+      decidingPolicyId,
       request.application_id,
       request,
       { error: error.message },
       'error',
-      executionTime
+      executionTime,
+      assignment
     );
 
     // Return as manual review on error
     const underwritingId = uuidv4();
 
+    await recordApplicationIdentifiers(
+      request.application_id,
+      request.applicant,
+      request.metadata,
+      decidingPolicyId,
+      underwritingId
+    );
+
     await addToManualReviewQueue(
       request.application_id,
       underwritingId,
-      policyId,
+      decidingPolicyId,
       request.applicant,
       { error: error.message },
       `System error: ${error.message}`
@@ -157,12 +229,13 @@ const logAPIRequest = async (
   requestData: any,
   responseData: any,
   decision: string,
-  executionTimeMs: number
+  executionTimeMs: number,
+  assignment?: ExperimentAssignment | null
 ): Promise<void> => {
   try {
     await pool.query(
-      `INSERT INTO api_requests (api_key_id, policy_id, application_id, request_data, response_data, decision, execution_time_ms)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      `INSERT INTO api_requests (api_key_id, policy_id, application_id, request_data, response_data, decision, execution_time_ms, experiment_id, experiment_arm)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
       [
         apiKeyId || null,
         policyId,
@@ -171,6 +244,8 @@ const logAPIRequest = async (
         JSON.stringify(responseData),
         decision,
         executionTimeMs,
+        assignment?.experiment_id || null,
+        assignment?.arm || null,
       ]
     );
   } catch (error) {
@@ -0,0 +1,226 @@
+import { pool } from '../config/database';
+import logger from '../utils/logger';
+import {
+  ApplicationIdentifier,
+  IdentifierType,
+  VelocityCheck,
+  extractIdentifiers,
+  getVelocityWindowStart,
+} from '../engine/velocity';
+
+/**
+ * Identifier store behind velocity checks
+ *
+ * One row per identifier per application, written when a live underwriting
+ * request is decided (policy test runs and debug sessions are not recorded).
+ * Earlier traffic can be loaded from the api_requests log with a backfill.
+ */
+
+export interface VelocityCount {
+  count: number;
+  matched_application_ids: string[];
+}
+
+export interface LinkedApplication {
+  application_id: string;
+  policy_id: string | null;
+  policy_name: string | null;
+  decision: string | null;
+  seen_at: Date;
+}
+
+// Matched ids kept per check; the count still covers every match
+const MAX_MATCHED_IDS = 50;
+const BACKFILL_BATCH_SIZE = 500;
+
+const insertIdentifiers = async (
+  applicationId: string,
+  identifiers: ApplicationIdentifier[],
+  policyId: string | null,
+  underwritingId: string | null,
+  seenAt: Date
+): Promise<number> => {
+  if (identifiers.length === 0) return 0;
+
+  const params: any[] = [applicationId, policyId, underwritingId, seenAt];
+  const values = identifiers.map(identifier => {
+    params.push(identifier.type, identifier.value);
+    return `($${params.length - 1}, $${params.length}, $1, $2, $3, $4)`;
+  });
+
+  const result = await pool.query(
+    `INSERT INTO application_identifiers (identifier_type, identifier_value, application_id, policy_id, underwriting_id, seen_at)
+     VALUES ${values.join(', ')}
+     ON CONFLICT (identifier_type, identifier_value, application_id) DO NOTHING`,
+    params
+  );
+  return result.rowCount || 0;
+};
+
+/**
+ * Record the identifiers of a decided application; failures are logged and
+ * never fail the underwriting request
+ */
+export const recordApplicationIdentifiers = async (
+  applicationId: string,
+  applicant: Record<string, any>,
+  metadata: Record<string, any> | undefined,
+  policyId: string,
+  underwritingId: string
+): Promise<void> => {
+  try {
+    await insertIdentifiers(applicationId, extractIdentifiers(applicant, metadata), policyId, underwritingId, new Date());
+  } catch (error) {
+    logger.error(`Record application identifiers error: ${error.message}`);
+  }
+};
+
+/**
+ * Applications (or distinct applicants) sharing a value within a check's
+ * window, the application being decided included
+ */
+export const countVelocity = async (
+  check: VelocityCheck,
+  value: string,
+  applicationId: string,
+  applicant: string | null, // the application's distinct_by value
+  asOf: Date
+): Promise<VelocityCount> => {
+  try {
+    const result = await pool.query(
+      `SELECT a.application_id, d.identifier_value AS applicant
+       FROM application_identifiers a
+       LEFT JOIN application_identifiers d
+         ON d.application_id = a.application_id AND d.identifier_type = $5
+       WHERE a.identifier_type = $1 AND a.identifier_value = $2
+         AND a.seen_at >= $3 AND a.seen_at <= $4
+         AND a.application_id <> $6
+       ORDER BY a.seen_at DESC`,
+      [check.identifier, value, getVelocityWindowStart(check, asOf), asOf, check.distinct_by || null, applicationId]
+    );
+
+    if (!check.distinct_by) {
+      return {
+        count: result.rows.length + 1,
+        matched_application_ids: result.rows.slice(0, MAX_MATCHED_IDS).map(row => row.application_id),
+      };
+    }
+
+    // Applications without the distinct_by identifier count as applicants of their own
+    const applicants = new Set<string>([applicant ?? `application:${applicationId}`]);
+    const matched: string[] = [];
+    result.rows.forEach(row => {
+      const key = row.applicant ?? `application:${row.application_id}`;
+      if (key === applicant) return;
+      applicants.add(key);
+      matched.push(row.application_id);
+    });
+
+    return {
+      count: applicants.size,
+      matched_application_ids: matched.slice(0, MAX_MATCHED_IDS),
+    };
+  } catch (error) {
+    logger.error(`Count velocity error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Applications recorded with an identifier, newest first
+ */
+export const getLinkedApplications = async (
+  type: IdentifierType,
+  value: string,
+  limit: number = 50
+): Promise<LinkedApplication[]> => {
+  try {
+    const result = await pool.query(
+      `SELECT ai.application_id, ai.policy_id, p.name AS policy_name, ai.seen_at,
+              (SELECT r.decision FROM api_requests r
+               WHERE r.application_id = ai.application_id
+               ORDER BY r.created_at DESC LIMIT 1) AS decision
+       FROM application_identifiers ai
+       LEFT JOIN policies p ON p.id = ai.policy_id
+       WHERE ai.identifier_type = $1 AND ai.identifier_value = $2
+       ORDER BY ai.seen_at DESC
+       LIMIT $3`,
+      [type, value, limit]
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error(`Get linked applications error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Latest decision of each application, for showing velocity matches
+ */
+export const getApplicationSummaries = async (applicationIds: string[]): Promise<LinkedApplication[]> => {
+  if (applicationIds.length === 0) return [];
+
+  try {
+    const result = await pool.query(
+      `SELECT DISTINCT ON (r.application_id)
+              r.application_id, r.policy_id, p.name AS policy_name, r.decision, r.created_at AS seen_at
+       FROM api_requests r
+       LEFT JOIN policies p ON p.id = r.policy_id
+       WHERE r.application_id = ANY($1)
+       ORDER BY r.application_id, r.created_at DESC`,
+      [applicationIds]
+    );
+    return result.rows;
+  } catch (error) {
+    logger.error(`Get application summaries error: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Load identifiers from logged underwriting requests, e.g. after the store
+ * was introduced; requests rejected for invalid input are skipped
+ */
+export const backfillApplicationIdentifiers = async (): Promise<{ requests: number; identifiers: number }> => {
+  let requests = 0;
+  let identifiers = 0;
+  let cursor: { created_at: Date; id: string } | null = null;
+
+  try {
+    while (true) {
+      const result = await pool.query(
+        `SELECT id, application_id, policy_id, request_data, created_at
+         FROM api_requests
+         WHERE application_id IS NOT NULL
+           AND (decision IS NULL OR decision <> 'invalid_input')
+           AND ($1::timestamp IS NULL OR (created_at, id) > ($1, $2::uuid))
+         ORDER BY created_at, id
+         LIMIT $3`,
+        [cursor?.created_at || null, cursor?.id || null, BACKFILL_BATCH_SIZE]
+      );
+
+      for (const row of result.rows) {
+        const request = row.request_data || {};
+        identifiers += await insertIdentifiers(
+          row.application_id,
+          extractIdentifiers(request.applicant, request.metadata),
+          row.policy_id,
+          null,
+          row.created_at
+        );
+      }
+
+      requests += result.rows.length;
+      if (result.rows.length < BACKFILL_BATCH_SIZE) break;
+      const last = result.rows[result.rows.length - 1];
+      cursor = { created_at: last.created_at, id: last.id };
+    }
+
+    logger.info(`Backfilled ${identifiers} application identifiers from ${requests} requests`);
+
+    return { requests, identifiers };
+  } catch (error) {
+    logger.error(`Backfill application identifiers error: ${error.message}`);
+    throw error;
+  }
+};
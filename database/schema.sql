@@ -76,6 +76,27 @@ CREATE INDEX idx_connector_logs_connector_id ON connector_logs(connector_id);
 CREATE INDEX idx_connector_logs_created_at ON connector_logs(created_at);
 CREATE INDEX idx_connector_logs_status_code ON connector_logs(status_code);
 
+CREATE TABLE api_call_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id UUID,
+  application_id VARCHAR(255),
+  underwriting_id UUID,
+  node_id VARCHAR(100), -- workflow node that issued the call
+  method VARCHAR(10) NOT NULL,
+  url TEXT NOT NULL,
+  request_data JSONB, -- headers (credentials masked) and body
+  response_data JSONB,
+  status_code INT,
+  error_message TEXT,
+  attempts INT DEFAULT 1,
+  execution_time_ms INT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_api_call_logs_policy_id ON api_call_logs(policy_id);
+CREATE INDEX idx_api_call_logs_application_id ON api_call_logs(application_id);
+CREATE INDEX idx_api_call_logs_created_at ON api_call_logs(created_at);
+
 -- ============================================================================
 -- POLICIES & WORKFLOWS
 -- ============================================================================
@@ -93,7 +114,8 @@ CREATE TABLE policies (
   effective_from DATE,
   effective_to DATE,
   workflow_json JSONB NOT NULL, -- React Flow JSON
-  rules_summary TEXT
+  rules_summary TEXT,
+  is_fragment BOOLEAN DEFAULT false -- library-only workflow, callable from subPolicy nodes but not underwritable
 );
 
 CREATE INDEX idx_policies_status ON policies(status);
@@ -113,6 +135,131 @@ CREATE TABLE policy_versions (
 
 CREATE INDEX idx_policy_versions_policy_id ON policy_versions(policy_id);
 CREATE INDEX idx_policy_versions_version ON policy_versions(version);
+CREATE UNIQUE INDEX idx_policy_versions_policy_version ON policy_versions(policy_id, version);
+
+-- Named, typed policy parameters (params.<name>), versioned apart from the
+-- workflow. Each row is a complete set proposed by one user (maker) and
+-- approved or rejected by another (checker); the effective set is the
+-- highest approved version.
+CREATE TABLE policy_parameter_sets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id UUID REFERENCES policies(id) ON DELETE CASCADE,
+  version INT, -- assigned on approval
+  base_version INT NOT NULL DEFAULT 0, -- effective version when proposed; approval requires it still is
+  parameters JSONB NOT NULL, -- [{ name, type, value, description }]
+  status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'withdrawn')),
+  change_notes TEXT,
+  proposed_by UUID REFERENCES users(id),
+  proposed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  reviewed_by UUID REFERENCES users(id),
+  reviewed_at TIMESTAMP,
+  review_notes TEXT
+);
+
+CREATE INDEX idx_policy_parameter_sets_policy_id ON policy_parameter_sets(policy_id);
+CREATE INDEX idx_policy_parameter_sets_status ON policy_parameter_sets(status);
+CREATE UNIQUE INDEX idx_policy_parameter_sets_policy_version ON policy_parameter_sets(policy_id, version);
+
+-- ============================================================================
+-- REFERENCE TABLES
+-- ============================================================================
+
+CREATE TABLE reference_tables (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) UNIQUE NOT NULL, -- used in lookup nodes and LOOKUP('name', key)
+  description TEXT,
+  current_version INT NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE reference_table_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  table_id UUID REFERENCES reference_tables(id) ON DELETE CASCADE,
+  version INT NOT NULL,
+  key_column VARCHAR(100) NOT NULL,
+  columns JSONB NOT NULL, -- [{ name, type }]
+  rows JSONB NOT NULL, -- typed rows as uploaded
+  row_count INT NOT NULL,
+  source_filename VARCHAR(255),
+  change_notes TEXT,
+  uploaded_by UUID REFERENCES users(id),
+  uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_reference_table_versions_table_version ON reference_table_versions(table_id, version);
+
+-- ============================================================================
+-- NEGATIVE LISTS
+-- ============================================================================
+
+CREATE TABLE negative_lists (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) UNIQUE NOT NULL, -- used in negativeListCheck nodes
+  description TEXT,
+  list_type VARCHAR(20) NOT NULL CHECK (list_type IN ('pan', 'mobile', 'email', 'device_id', 'bank_account', 'employer', 'pincode', 'text')),
+  match_mode VARCHAR(20) NOT NULL DEFAULT 'normalized' CHECK (match_mode IN ('exact', 'normalized')),
+  action VARCHAR(20) NOT NULL DEFAULT 'reject' CHECK (action IN ('reject', 'manual_review')),
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Entries are removed by stamping removed_at, so past decisions stay explainable
+CREATE TABLE negative_list_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  list_id UUID REFERENCES negative_lists(id) ON DELETE CASCADE,
+  value VARCHAR(500) NOT NULL, -- as listed, trimmed
+  normalized_value VARCHAR(500) NOT NULL,
+  reason_code VARCHAR(50),
+  notes TEXT,
+  expires_at TIMESTAMP,
+  added_by UUID REFERENCES users(id),
+  added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  removed_by UUID REFERENCES users(id),
+  removed_at TIMESTAMP,
+  removal_reason TEXT
+);
+
+CREATE UNIQUE INDEX idx_negative_list_entries_active ON negative_list_entries(list_id, normalized_value) WHERE removed_at IS NULL;
+CREATE INDEX idx_negative_list_entries_normalized ON negative_list_entries(list_id, normalized_value);
+CREATE INDEX idx_negative_list_entries_value ON negative_list_entries(list_id, value);
+
+-- ============================================================================
+-- EXPERIMENTS (champion/challenger traffic splitting)
+-- ============================================================================
+
+CREATE TABLE experiments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(), -- also the assignment hash salt
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  product_type VARCHAR(50) NOT NULL,
+  status VARCHAR(20) DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP,
+  stopped_at TIMESTAMP
+);
+
+-- One running experiment per product
+CREATE UNIQUE INDEX idx_experiments_running_product ON experiments(product_type) WHERE status = 'running';
+
+-- Arms take consecutive slices of the hash space in position order
+CREATE TABLE experiment_arms (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  experiment_id UUID REFERENCES experiments(id) ON DELETE CASCADE,
+  position INT NOT NULL,
+  name VARCHAR(50) NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('champion', 'challenger')),
+  policy_id UUID REFERENCES policies(id),
+  traffic_percent NUMERIC(5, 2) NOT NULL CHECK (traffic_percent > 0 AND traffic_percent <= 100)
+);
+
+CREATE UNIQUE INDEX idx_experiment_arms_name ON experiment_arms(experiment_id, name);
+CREATE UNIQUE INDEX idx_experiment_arms_policy ON experiment_arms(experiment_id, policy_id);
+CREATE INDEX idx_experiment_arms_policy_id ON experiment_arms(policy_id);
 
 -- ============================================================================
 -- TESTING
@@ -176,7 +323,9 @@ CREATE TABLE api_requests (
   decision VARCHAR(20),
   execution_time_ms INT,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  ip_address VARCHAR(45)
+  ip_address VARCHAR(45),
+  experiment_id UUID REFERENCES experiments(id) ON DELETE SET NULL, -- set when an experiment assigned the application
+  experiment_arm VARCHAR(50)
 );
 
 CREATE INDEX idx_api_requests_api_key_id ON api_requests(api_key_id);
@@ -184,6 +333,103 @@ CREATE INDEX idx_api_requests_policy_id ON api_requests(policy_id);
 CREATE INDEX idx_api_requests_application_id ON api_requests(application_id);
 CREATE INDEX idx_api_requests_created_at ON api_requests(created_at);
 CREATE INDEX idx_api_requests_decision ON api_requests(decision);
+CREATE INDEX idx_api_requests_experiment ON api_requests(experiment_id, experiment_arm) WHERE experiment_id IS NOT NULL;
+
+-- Normalized applicant identifiers (PAN, mobile, email, device, bank account)
+-- of every decided application, counted by velocity nodes
+CREATE TABLE application_identifiers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  identifier_type VARCHAR(20) NOT NULL CHECK (identifier_type IN ('pan', 'mobile', 'email', 'device_id', 'bank_account')),
+  identifier_value VARCHAR(255) NOT NULL,
+  application_id VARCHAR(255) NOT NULL,
+  policy_id UUID REFERENCES policies(id) ON DELETE SET NULL,
+  underwriting_id UUID,
+  seen_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_application_identifiers_unique ON application_identifiers(identifier_type, identifier_value, application_id);
+CREATE INDEX idx_application_identifiers_lookup ON application_identifiers(identifier_type, identifier_value, seen_at);
+CREATE INDEX idx_application_identifiers_application_id ON application_identifiers(application_id);
+
+-- Shadow (challenger) policies attached to a live policy. Each live request
+-- also runs through its active shadows after answering; their decisions are
+-- stored for comparison and never returned, queued or sent as webhooks.
+CREATE TABLE policy_shadows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id UUID REFERENCES policies(id) ON DELETE CASCADE, -- the live policy
+  shadow_policy_id UUID REFERENCES policies(id) ON DELETE CASCADE,
+  is_active BOOLEAN DEFAULT true,
+  notes TEXT,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  stopped_at TIMESTAMP,
+  CHECK (policy_id != shadow_policy_id)
+);
+
+CREATE UNIQUE INDEX idx_policy_shadows_pair ON policy_shadows(policy_id, shadow_policy_id);
+CREATE INDEX idx_policy_shadows_active ON policy_shadows(policy_id) WHERE is_active = true;
+
+CREATE TABLE shadow_executions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id UUID REFERENCES policies(id) ON DELETE CASCADE,
+  shadow_policy_id UUID REFERENCES policies(id) ON DELETE CASCADE,
+  application_id VARCHAR(255),
+  champion_underwriting_id UUID, -- the live run this shadows
+  champion_decision VARCHAR(20),
+  champion_reason TEXT,
+  shadow_decision VARCHAR(20), -- 'error' when the shadow could not run
+  shadow_reason TEXT,
+  shadow_details JSONB,
+  execution_trace JSONB,
+  execution_time_ms INT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_shadow_executions_pair ON shadow_executions(policy_id, shadow_policy_id, created_at);
+CREATE INDEX idx_shadow_executions_application_id ON shadow_executions(application_id);
+
+-- Replays of logged applications through a draft policy (see engine/backtest.ts)
+CREATE TABLE backtests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id UUID REFERENCES policies(id) ON DELETE CASCADE,
+  workflow_json JSONB NOT NULL, -- the draft as it was when the backtest started
+  parameter_set_id UUID REFERENCES policy_parameter_sets(id) ON DELETE SET NULL,
+  source_policy_id UUID REFERENCES policies(id) ON DELETE SET NULL, -- NULL: every policy of the product
+  date_from TIMESTAMP NOT NULL,
+  date_to TIMESTAMP NOT NULL,
+  status VARCHAR(20) DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+  total INT DEFAULT 0,
+  processed INT DEFAULT 0,
+  summary JSONB, -- decision matrix, swap counts and swaps by rule, filled when completed
+  error_message TEXT,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  heartbeat_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- touched after every page; a stale one means the job died
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX idx_backtests_policy_id ON backtests(policy_id, created_at);
+
+CREATE TABLE backtest_results (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  backtest_id UUID REFERENCES backtests(id) ON DELETE CASCADE,
+  api_request_id UUID REFERENCES api_requests(id) ON DELETE SET NULL,
+  application_id VARCHAR(255),
+  requested_at TIMESTAMP, -- the original request; also the replay's evaluation date
+  original_decision VARCHAR(20),
+  original_rule VARCHAR(255),
+  backtest_decision VARCHAR(20), -- 'error' when the replay could not run, 'invalid_input' on schema violations, 'not_replayable' without logged query rows
+  backtest_rule VARCHAR(255),
+  backtest_reason TEXT,
+  swap VARCHAR(30) CHECK (swap IN ('approved_to_rejected', 'rejected_to_approved', 'to_manual_review', 'from_manual_review')),
+  swap_rule VARCHAR(255),
+  missing_responses JSONB, -- calls with no stored response to replay
+  execution_trace JSONB, -- kept for swaps and errors only
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_backtest_results_backtest_id ON backtest_results(backtest_id, swap);
+CREATE INDEX idx_backtest_results_application_id ON backtest_results(application_id);
 
 -- ============================================================================
 -- MANUAL REVIEW QUEUE
@@ -346,6 +592,15 @@ CREATE TRIGGER update_connectors_updated_at BEFORE UPDATE ON connectors
 CREATE TRIGGER update_policies_updated_at BEFORE UPDATE ON policies
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_reference_tables_updated_at BEFORE UPDATE ON reference_tables
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_negative_lists_updated_at BEFORE UPDATE ON negative_lists
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_experiments_updated_at BEFORE UPDATE ON experiments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- ============================================================================
 -- SEED DATA - Default Admin User
 -- ============================================================================
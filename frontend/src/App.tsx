@@ -5,6 +5,9 @@ import Dashboard from './pages/Dashboard';
 import Policies from './pages/Policies';
 import PolicyBuilder from './pages/PolicyBuilder';
 import Connectors from './pages/Connectors';
+import ReferenceTables from './pages/ReferenceTables';
+import NegativeLists from './pages/NegativeLists';
+import Experiments from './pages/Experiments';
 import ManualReview from './pages/ManualReview';
 import Analytics from './pages/Analytics';
 import Layout from './components/Layout';
@@ -56,6 +59,9 @@ const AppRouter = () => {
         <Route path="policy-builder" element={<PolicyBuilder />} />
         <Route path="policy-builder/:id" element={<PolicyBuilder />} />
         <Route path="connectors" element={<Connectors />} />
+        <Route path="reference-tables" element={<ReferenceTables />} />
+        <Route path="negative-lists" element={<NegativeLists />} />
+        <Route path="experiments" element={<Experiments />} />
         <Route path="manual-review" element={<ManualReview />} />
         <Route path="analytics" element={<Analytics />} />
       </Route>
@@ -18,6 +18,9 @@ const Layout: React.FC = () => {
     { name: 'Dashboard', path: '/dashboard', icon: '📊' },
     { name: 'Policies', path: '/policies', icon: '📋' },
     { name: 'Connectors', path: '/connectors', icon: '🔌' },
+    { name: 'Reference Tables', path: '/reference-tables', icon: '🗂️' },
+    { name: 'Negative Lists', path: '/negative-lists', icon: '⛔' },
+    { name: 'Experiments', path: '/experiments', icon: '🧪' },
     { name: 'Manual Review', path: '/manual-review', icon: '👥' },
     { name: 'Analytics', path: '/analytics', icon: '📈' },
   ];
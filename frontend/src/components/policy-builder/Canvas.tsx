@@ -1,4 +1,4 @@
-import React, { useCallback, useRef, useEffect } from 'react';
+import React, { useCallback, useRef, useEffect, useMemo } from 'react';
 import ReactFlow, {
   Background,
   Controls,
@@ -44,8 +44,24 @@ export const Canvas: React.FC = () => {
     addNode,
     initializeCanvas,
     openConfigModal,
+    breakpoints,
+    toggleBreakpoint,
+    debugSession,
   } = usePolicyBuilderStore();
 
+  // Debugger overlay: breakpoint outline, and a ring on the node the run is paused before
+  const pausedNodeId = debugSession?.status === 'paused' ? debugSession.paused_at?.node_id : null;
+  const displayNodes = useMemo(() => {
+    if (breakpoints.length === 0 && !pausedNodeId) return nodes;
+    return nodes.map(node => {
+      const classes = [
+        breakpoints.includes(node.id) ? 'outline outline-2 outline-red-500 outline-offset-4 rounded-lg' : '',
+        node.id === pausedNodeId ? 'ring-4 ring-yellow-400 ring-offset-2 rounded-lg' : '',
+      ].filter(Boolean);
+      return classes.length > 0 ? { ...node, className: classes.join(' ') } : node;
+    });
+  }, [nodes, breakpoints, pausedNodeId]);
+
   // Initialize canvas with Start node on mount
   useEffect(() => {
     initializeCanvas();
@@ -84,8 +100,8 @@ export const Canvas: React.FC = () => {
 
   const onNodeClick = useCallback(
     (_event: React.MouseEvent, node: any) => {
-      // For Strategy nodes, open config modal directly
-      if (node.type === 'strategy') {
+      // For Strategy, Decision Table, Switch, Sub-policy, Lookup, Velocity and Negative List nodes, open config modal directly
+      if (['strategy', 'decisionTable', 'switch', 'subPolicy', 'lookup', 'velocity', 'negativeListCheck'].includes(node.type)) {
         openConfigModal(node.id);
       } else {
         // For other nodes (like START), show in PropertyPanel
@@ -95,6 +111,15 @@ export const Canvas: React.FC = () => {
     [openConfigModal, selectNode]
   );
 
+  // Right-click toggles a debugger breakpoint
+  const onNodeContextMenu = useCallback(
+    (event: React.MouseEvent, node: any) => {
+      event.preventDefault();
+      toggleBreakpoint(node.id);
+    },
+    [toggleBreakpoint]
+  );
+
   const onPaneClick = useCallback(() => {
     selectNode(null);
   }, [selectNode]);
@@ -125,7 +150,7 @@ export const Canvas: React.FC = () => {
   return (
     <div ref={reactFlowWrapper} className="flex-1 h-full">
       <ReactFlow
-        nodes={nodes}
+        nodes={displayNodes}
         edges={edges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
@@ -134,6 +159,7 @@ export const Canvas: React.FC = () => {
         onDrop={onDrop}
         onDragOver={onDragOver}
         onNodeClick={onNodeClick}
+        onNodeContextMenu={onNodeContextMenu}
         onPaneClick={onPaneClick}
         nodeTypes={nodeTypes}
         defaultEdgeOptions={defaultEdgeOptions}
@@ -155,6 +181,18 @@ export const Canvas: React.FC = () => {
                 return '#16a34a'; // Green for START
               case 'strategy':
                 return '#6b7280';
+              case 'decisionTable':
+                return '#7c3aed';
+              case 'subPolicy':
+                return '#0d9488';
+              case 'switch':
+                return '#d97706';
+              case 'lookup':
+                return '#0891b2';
+              case 'velocity':
+                return '#e11d48';
+              case 'negativeListCheck':
+                return '#475569';
               default:
                 return '#9ca3af';
             }
@@ -165,6 +203,18 @@ export const Canvas: React.FC = () => {
                 return '#dcfce7'; // Light green for START
               case 'strategy':
                 return '#f3f4f6';
+              case 'decisionTable':
+                return '#f5f3ff';
+              case 'subPolicy':
+                return '#f0fdfa';
+              case 'switch':
+                return '#fffbeb';
+              case 'lookup':
+                return '#ecfeff';
+              case 'velocity':
+                return '#fff1f2';
+              case 'negativeListCheck':
+                return '#f8fafc';
               default:
                 return '#f9fafb';
             }
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import {
+  XMarkIcon,
+  ForwardIcon,
+  PlayIcon,
+  StopIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  PlusIcon,
+} from '@heroicons/react/24/outline';
+import { usePolicyBuilderStore } from '../../stores/policyBuilderStore';
+
+interface DebugPanelProps {
+  onClose: () => void;
+  onStep: () => Promise<void>;
+  onContinue: () => Promise<void>;
+  onSetVariable: (name: string, value: any) => Promise<void>;
+  onRemoveVariable: (name: string) => Promise<void>;
+  isBusy: boolean;
+  error: string;
+}
+
+const formatValue = (value: any): string =>
+  value === undefined ? 'undefined' : JSON.stringify(value);
+
+// Edited values are JSON; anything that does not parse is kept as a string
+const parseValue = (text: string): any => {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return text;
+  }
+};
+
+export const DebugPanel: React.FC<DebugPanelProps> = ({
+  onClose,
+  onStep,
+  onContinue,
+  onSetVariable,
+  onRemoveVariable,
+  isBusy,
+  error,
+}) => {
+  const { debugSession, nodes } = usePolicyBuilderStore();
+  const [editing, setEditing] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [newName, setNewName] = useState('');
+  const [newValue, setNewValue] = useState('');
+
+  if (!debugSession) {
+    return null;
+  }
+
+  const paused = debugSession.status === 'paused';
+  const pausedAt = debugSession.paused_at;
+  const labelOf = (nodeId: string) =>
+    nodes.find(n => n.id === nodeId)?.data?.label || nodeId;
+
+  const startEdit = (name: string) => {
+    setEditing(name);
+    setEditText(formatValue(debugSession.variables[name]));
+  };
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    await onSetVariable(editing, parseValue(editText));
+    setEditing(null);
+  };
+
+  const addVariable = async () => {
+    if (!newName.trim()) return;
+    await onSetVariable(newName.trim(), parseValue(newValue));
+    setNewName('');
+    setNewValue('');
+  };
+
+  const decisionClass = (decision: string) => {
+    if (decision === 'approved') return 'bg-green-50 border-green-200 text-green-800';
+    if (decision === 'rejected') return 'bg-red-50 border-red-200 text-red-800';
+    return 'bg-yellow-50 border-yellow-200 text-yellow-800';
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-white border-r border-gray-300 shadow-lg">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-gray-50">
+        <h3 className="text-lg font-semibold text-gray-900">Debugger</h3>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-200 rounded-lg transition-colors"
+          title="Stop debugging"
+        >
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200">
+        <button
+          onClick={onStep}
+          disabled={!paused || isBusy}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Run this node and pause before the next"
+        >
+          <ForwardIcon className="w-4 h-4" />
+          Step
+        </button>
+        <button
+          onClick={onContinue}
+          disabled={!paused || isBusy}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Run to the next breakpoint or the end"
+        >
+          <PlayIcon className="w-4 h-4" />
+          Continue
+        </button>
+        <button
+          onClick={onClose}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100"
+        >
+          <StopIcon className="w-4 h-4" />
+          Stop
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5">
+        {/* Where the run is */}
+        {paused && pausedAt && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
+            <div className="font-medium text-yellow-900">
+              Paused before {pausedAt.label}
+              <span className="ml-2 text-xs font-normal text-yellow-700">
+                ({pausedAt.node_type}, {pausedAt.reason === 'breakpoint' ? 'breakpoint' : 'step'})
+              </span>
+            </div>
+            {pausedAt.call_stack.length > 1 && (
+              <div className="text-xs text-yellow-700 mt-1">
+                Inside a sub-policy ({pausedAt.call_stack.length - 1} level{pausedAt.call_stack.length > 2 ? 's' : ''} deep)
+              </div>
+            )}
+          </div>
+        )}
+
+        {debugSession.result && (
+          <div className={`p-3 border rounded-lg text-sm ${decisionClass(debugSession.result.decision)}`}>
+            <div className="font-semibold capitalize">{debugSession.result.decision.replace('_', ' ')}</div>
+            <div className="text-xs mt-1">{debugSession.result.reason}</div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {/* Variables inspector */}
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">
+            Variables{paused ? '' : ' (read-only)'}
+          </h4>
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {Object.keys(debugSession.variables).length === 0 && (
+              <div className="px-3 py-2 text-xs text-gray-500">No variables yet</div>
+            )}
+            {Object.entries(debugSession.variables).map(([name, value]) => (
+              <div key={name} className="px-3 py-2 text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono font-medium text-gray-900">{name}</span>
+                  {paused && editing !== name && (
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => startEdit(name)}
+                        className="p-0.5 text-gray-400 hover:text-blue-600"
+                        title="Edit value"
+                      >
+                        <PencilSquareIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => onRemoveVariable(name)}
+                        disabled={isBusy}
+                        className="p-0.5 text-gray-400 hover:text-red-600"
+                        title="Remove variable"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {editing === name ? (
+                  <div className="mt-1 space-y-1">
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      rows={Math.min(6, editText.split('\n').length + 1)}
+                      className="w-full px-2 py-1 font-mono border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setEditing(null)} className="text-gray-600 hover:text-gray-800">
+                        Cancel
+                      </button>
+                      <button onClick={saveEdit} disabled={isBusy} className="text-blue-600 hover:text-blue-800 font-medium">
+                        Apply
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <pre className="mt-0.5 font-mono text-gray-600 whitespace-pre-wrap break-all">{formatValue(value)}</pre>
+                )}
+              </div>
+            ))}
+          </div>
+          {paused && (
+            <div className="flex items-center gap-2 mt-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="name"
+                className="w-28 px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+              />
+              <input
+                type="text"
+                value={newValue}
+                onChange={(e) => setNewValue(e.target.value)}
+                placeholder='value (JSON), e.g. 720 or "SALARIED"'
+                className="flex-1 px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+              />
+              <button
+                onClick={addVariable}
+                disabled={!newName.trim() || isBusy}
+                className="p-1 text-blue-600 hover:text-blue-800 disabled:opacity-40"
+                title="Set variable"
+              >
+                <PlusIcon className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Executed nodes */}
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Executed nodes</h4>
+          <ol className="space-y-1 text-xs">
+            {debugSession.execution_trace.length === 0 && (
+              <li className="text-gray-500">Nothing has run yet</li>
+            )}
+            {debugSession.execution_trace.map((entry, index) => (
+              <li key={`${entry.node_id}-${index}`} className="flex items-start justify-between gap-2">
+                <span className={entry.error ? 'text-red-700' : 'text-gray-800'}>
+                  {index + 1}. {labelOf(entry.node_id)}
+                  {entry.branch && <span className="text-gray-400"> [{entry.branch}]</span>}
+                  {entry.error && <span className="block text-red-600">{entry.error}</span>}
+                </span>
+                <span className="text-gray-400 whitespace-nowrap">{entry.execution_time_ms} ms</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <p className="text-xs text-gray-400">
+          Right-click a node on the canvas to toggle a breakpoint.
+        </p>
+      </div>
+    </div>
+  );
+};
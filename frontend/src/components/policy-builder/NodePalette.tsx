@@ -1,5 +1,5 @@
 import React from 'react';
-import { Cog6ToothIcon } from '@heroicons/react/24/outline';
+import { ArrowsRightLeftIcon, BoltIcon, Cog6ToothIcon, MagnifyingGlassIcon, NoSymbolIcon, Square3Stack3DIcon, TableCellsIcon } from '@heroicons/react/24/outline';
 
 interface NodePaletteProps {
   onDragStart: (event: React.DragEvent, nodeType: string) => void;
@@ -11,7 +11,7 @@ export const NodePalette: React.FC<NodePaletteProps> = ({ onDragStart }) => {
       <h2 className="text-lg font-semibold text-gray-900 mb-4">NODES</h2>
 
       <div className="space-y-4">
-        {/* Strategy Node - Only draggable node */}
+        {/* Strategy Node */}
         <div
           draggable
           onDragStart={(e) => onDragStart(e, 'strategy')}
@@ -32,13 +32,139 @@ export const NodePalette: React.FC<NodePaletteProps> = ({ onDragStart }) => {
           </p>
         </div>
 
+        {/* Decision Table Node */}
+        <div
+          draggable
+          onDragStart={(e) => onDragStart(e, 'decisionTable')}
+          className="
+            p-4 rounded-lg border-2 border-dashed border-purple-300 bg-white
+            cursor-grab active:cursor-grabbing
+            hover:border-purple-500 hover:shadow-lg
+            transition-all duration-150
+            flex flex-col items-center gap-2
+          "
+        >
+          <div className="w-10 h-10 rounded-full bg-purple-50 flex items-center justify-center text-purple-600">
+            <TableCellsIcon className="w-6 h-6" />
+          </div>
+          <span className="font-medium text-sm text-gray-900">Decision Table</span>
+          <p className="text-xs text-gray-500 text-center">
+            Drag to canvas
+          </p>
+        </div>
+
+        {/* Switch Node */}
+        <div
+          draggable
+          onDragStart={(e) => onDragStart(e, 'switch')}
+          className="
+            p-4 rounded-lg border-2 border-dashed border-amber-300 bg-white
+            cursor-grab active:cursor-grabbing
+            hover:border-amber-500 hover:shadow-lg
+            transition-all duration-150
+            flex flex-col items-center gap-2
+          "
+        >
+          <div className="w-10 h-10 rounded-full bg-amber-50 flex items-center justify-center text-amber-600">
+            <ArrowsRightLeftIcon className="w-6 h-6" />
+          </div>
+          <span className="font-medium text-sm text-gray-900">Switch</span>
+          <p className="text-xs text-gray-500 text-center">
+            Drag to canvas
+          </p>
+        </div>
+
+        {/* Lookup Node */}
+        <div
+          draggable
+          onDragStart={(e) => onDragStart(e, 'lookup')}
+          className="
+            p-4 rounded-lg border-2 border-dashed border-cyan-300 bg-white
+            cursor-grab active:cursor-grabbing
+            hover:border-cyan-500 hover:shadow-lg
+            transition-all duration-150
+            flex flex-col items-center gap-2
+          "
+        >
+          <div className="w-10 h-10 rounded-full bg-cyan-50 flex items-center justify-center text-cyan-600">
+            <MagnifyingGlassIcon className="w-6 h-6" />
+          </div>
+          <span className="font-medium text-sm text-gray-900">Lookup</span>
+          <p className="text-xs text-gray-500 text-center">
+            Drag to canvas
+          </p>
+        </div>
+
+        {/* Velocity Node */}
+        <div
+          draggable
+          onDragStart={(e) => onDragStart(e, 'velocity')}
+          className="
+            p-4 rounded-lg border-2 border-dashed border-rose-300 bg-white
+            cursor-grab active:cursor-grabbing
+            hover:border-rose-500 hover:shadow-lg
+            transition-all duration-150
+            flex flex-col items-center gap-2
+          "
+        >
+          <div className="w-10 h-10 rounded-full bg-rose-50 flex items-center justify-center text-rose-600">
+            <BoltIcon className="w-6 h-6" />
+          </div>
+          <span className="font-medium text-sm text-gray-900">Velocity</span>
+          <p className="text-xs text-gray-500 text-center">
+            Drag to canvas
+          </p>
+        </div>
+
+        {/* Negative List Check Node */}
+        <div
+          draggable
+          onDragStart={(e) => onDragStart(e, 'negativeListCheck')}
+          className="
+            p-4 rounded-lg border-2 border-dashed border-slate-300 bg-white
+            cursor-grab active:cursor-grabbing
+            hover:border-slate-500 hover:shadow-lg
+            transition-all duration-150
+            flex flex-col items-center gap-2
+          "
+        >
+          <div className="w-10 h-10 rounded-full bg-slate-50 flex items-center justify-center text-slate-600">
+            <NoSymbolIcon className="w-6 h-6" />
+          </div>
+          <span className="font-medium text-sm text-gray-900">Negative List</span>
+          <p className="text-xs text-gray-500 text-center">
+            Drag to canvas
+          </p>
+        </div>
+
+        {/* Sub-policy Node */}
+        <div
+          draggable
+          onDragStart={(e) => onDragStart(e, 'subPolicy')}
+          className="
+            p-4 rounded-lg border-2 border-dashed border-teal-300 bg-white
+            cursor-grab active:cursor-grabbing
+            hover:border-teal-500 hover:shadow-lg
+            transition-all duration-150
+            flex flex-col items-center gap-2
+          "
+        >
+          <div className="w-10 h-10 rounded-full bg-teal-50 flex items-center justify-center text-teal-600">
+            <Square3Stack3DIcon className="w-6 h-6" />
+          </div>
+          <span className="font-medium text-sm text-gray-900">Sub-policy</span>
+          <p className="text-xs text-gray-500 text-center">
+            Drag to canvas
+          </p>
+        </div>
+
         {/* Help tip */}
         <div className="mt-6 p-3 bg-blue-50 border border-blue-200 rounded-lg">
           <p className="text-xs text-blue-800">
             <strong>How to use:</strong><br/>
-            1. Drag Strategy Node to canvas<br/>
+            1. Drag a node to canvas<br/>
             2. Connect nodes from bottom to top<br/>
-            3. Click node to configure conditions
+            3. Click node to configure it
           </p>
         </div>
       </div>
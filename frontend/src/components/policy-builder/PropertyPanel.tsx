@@ -1,9 +1,9 @@
 import React from 'react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
-import { usePolicyBuilderStore } from '../../stores/policyBuilderStore';
+import { usePolicyBuilderStore, countConditions } from '../../stores/policyBuilderStore';
 
 export const PropertyPanel: React.FC = () => {
-  const { selectedNode, selectNode, openConfigModal, deleteNode } = usePolicyBuilderStore();
+  const { selectedNode, selectNode, openConfigModal, deleteNode, breakpoints, toggleBreakpoint } = usePolicyBuilderStore();
 
   if (!selectedNode) {
     return null;
@@ -20,7 +20,7 @@ export const PropertyPanel: React.FC = () => {
   };
 
   const handleConfigure = () => {
-    if (selectedNode && selectedNode.type === 'strategy') {
+    if (selectedNode && ['strategy', 'decisionTable', 'switch', 'subPolicy', 'lookup', 'velocity', 'negativeListCheck'].includes(selectedNode.type || '')) {
       openConfigModal(selectedNode.id);
     }
   };
@@ -56,7 +56,7 @@ export const PropertyPanel: React.FC = () => {
           <>
             <div className="text-xs text-gray-500 mt-2">Conditions</div>
             <div className="text-sm text-gray-900">
-              {selectedNode.data.conditions.length} condition(s)
+              {countConditions(selectedNode.data.conditions)} condition(s)
             </div>
           </>
         )}
@@ -71,6 +71,68 @@ export const PropertyPanel: React.FC = () => {
         </button>
       )}
 
+      {selectedNode.type === 'decisionTable' && (
+        <button
+          onClick={handleConfigure}
+          className="w-full mb-3 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Configure Decision Table
+        </button>
+      )}
+
+      {selectedNode.type === 'switch' && (
+        <button
+          onClick={handleConfigure}
+          className="w-full mb-3 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Configure Switch
+        </button>
+      )}
+
+      {selectedNode.type === 'lookup' && (
+        <button
+          onClick={handleConfigure}
+          className="w-full mb-3 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Configure Lookup
+        </button>
+      )}
+
+      {selectedNode.type === 'velocity' && (
+        <button
+          onClick={handleConfigure}
+          className="w-full mb-3 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Configure Velocity Checks
+        </button>
+      )}
+
+      {selectedNode.type === 'negativeListCheck' && (
+        <button
+          onClick={handleConfigure}
+          className="w-full mb-3 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Configure Negative List Checks
+        </button>
+      )}
+
+      {selectedNode.type === 'subPolicy' && (
+        <button
+          onClick={handleConfigure}
+          className="w-full mb-3 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Configure Sub-policy
+        </button>
+      )}
+
+      <button
+        onClick={() => toggleBreakpoint(selectedNode.id)}
+        className="w-full mb-3 px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 transition-colors"
+        title="The debugger pauses before this node (right-click a node to toggle)"
+      >
+        {breakpoints.includes(selectedNode.id) ? 'Remove Breakpoint' : 'Add Breakpoint'}
+      </button>
+
       {selectedNode.type !== 'start' && selectedNode.id !== 'start-node' && (
         <div className="mt-6 pt-6 border-t border-gray-200">
           <button
@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { XMarkIcon, PlayIcon } from '@heroicons/react/24/outline';
+import { XMarkIcon, PlayIcon, BugAntIcon } from '@heroicons/react/24/outline';
+import { usePolicyBuilderStore, buildSampleInput } from '../../stores/policyBuilderStore';
 
 interface TestPanelProps {
   onClose: () => void;
-  onRunTest: (jsonData: any) => Promise<void>;
+  onRunTest: (jsonData: any, asOf?: string) => Promise<void>;
+  onDebug?: (jsonData: any, asOf?: string) => Promise<void>; // step through the run on the backend engine
   isRunning: boolean;
   initialJsonData?: string;
 }
@@ -11,11 +13,14 @@ interface TestPanelProps {
 export const TestPanel: React.FC<TestPanelProps> = ({
   onClose,
   onRunTest,
+  onDebug,
   isRunning,
   initialJsonData,
 }) => {
   const [jsonInput, setJsonInput] = useState(initialJsonData || '');
   const [jsonError, setJsonError] = useState('');
+  const [asOf, setAsOf] = useState(''); // evaluation date; empty means today
+  const inputSchema = usePolicyBuilderStore(state => state.inputSchema);
 
   // Auto-run test when panel opens with initial data
   useEffect(() => {
@@ -29,10 +34,10 @@ export const TestPanel: React.FC<TestPanelProps> = ({
     setJsonError('');
   };
 
-  const handleRunTest = async () => {
+  const runWith = async (run: (jsonData: any, asOf?: string) => Promise<void>) => {
     try {
       const parsedJson = JSON.parse(jsonInput);
-      await onRunTest(parsedJson);
+      await run(parsedJson, asOf || undefined);
     } catch (error: any) {
       if (error instanceof SyntaxError) {
         setJsonError('Invalid JSON format');
@@ -42,7 +47,11 @@ export const TestPanel: React.FC<TestPanelProps> = ({
     }
   };
 
-  const exampleJson = {
+  const handleRunTest = async () => {
+    await runWith(onRunTest);
+  };
+
+  const exampleJson = inputSchema ? buildSampleInput(inputSchema) : {
     applicant: {
       name: "John Doe",
       age: 35,
@@ -92,6 +101,21 @@ export const TestPanel: React.FC<TestPanelProps> = ({
           )}
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Evaluation Date
+          </label>
+          <input
+            type="date"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Used for today(), age() and date conditions. Leave empty for today.
+          </p>
+        </div>
+
         <button
           onClick={handleRunTest}
           disabled={!jsonInput || isRunning}
@@ -100,6 +124,18 @@ export const TestPanel: React.FC<TestPanelProps> = ({
           <PlayIcon className="w-5 h-5" />
           {isRunning ? 'Running Test...' : 'Run Test'}
         </button>
+
+        {onDebug && (
+          <button
+            onClick={() => runWith(onDebug)}
+            disabled={!jsonInput || isRunning}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            title="Run on the server one node at a time, pausing at breakpoints"
+          >
+            <BugAntIcon className="w-4 h-4" />
+            Debug Step by Step
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,478 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import {
+  policyApi,
+  Backtest,
+  BacktestResult,
+  BacktestSwap,
+  ParameterSet,
+} from '../../../services/policyApi';
+
+interface BacktestModalProps {
+  isOpen: boolean;
+  policyId: string | null;
+  onClose: () => void;
+}
+
+const DECISIONS = ['approved', 'rejected', 'manual_review'];
+const OUTCOMES = [...DECISIONS, 'error', 'invalid_input', 'not_replayable'];
+
+const DECISION_LABELS: Record<string, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  manual_review: 'Manual review',
+  error: 'Error',
+  invalid_input: 'Invalid input',
+  not_replayable: 'Not replayable',
+};
+
+const SWAP_LABELS: Record<BacktestSwap, string> = {
+  approved_to_rejected: 'Approved → Rejected',
+  rejected_to_approved: 'Rejected → Approved',
+  to_manual_review: 'To manual review',
+  from_manual_review: 'From manual review',
+};
+
+const SWAPS = Object.keys(SWAP_LABELS) as BacktestSwap[];
+const PAGE_SIZE = 50;
+
+const labelOf = (decision: string) => DECISION_LABELS[decision] || decision;
+
+export const BacktestModal: React.FC<BacktestModalProps> = ({
+  isOpen,
+  policyId,
+  onClose,
+}) => {
+  const [backtests, setBacktests] = useState<Backtest[]>([]);
+  const [pendingSets, setPendingSets] = useState<ParameterSet[]>([]);
+  const [sources, setSources] = useState<{ id: string; name: string; status: string }[]>([]);
+  const [form, setForm] = useState({ date_from: '', date_to: '', parameter_set_id: '', source_policy_id: '' });
+  const [selected, setSelected] = useState<Backtest | null>(null);
+  const [filter, setFilter] = useState<{ swap: BacktestSwap | 'any'; rule?: string }>({ swap: 'any' });
+  const [results, setResults] = useState<BacktestResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [detail, setDetail] = useState<BacktestResult | null>(null);
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const load = async () => {
+    if (!policyId) return;
+    setBacktests(await policyApi.getBacktests(policyId));
+  };
+
+  useEffect(() => {
+    if (!isOpen || !policyId) return;
+    setError('');
+    setSelected(null);
+    setDetail(null);
+    load().catch((e: any) => setError(e.message));
+    policyApi.getParameters(policyId)
+      .then(({ history }) => setPendingSets(history.filter(set => set.status === 'pending')))
+      .catch(err => console.warn('Failed to load parameter sets:', err));
+    Promise.all([policyApi.getPolicyById(policyId), policyApi.getAllPolicies()])
+      .then(([policy, all]) => setSources(all.filter(p => !p.is_fragment && p.product_type === policy.product_type)))
+      .catch(err => console.warn('Failed to load policies:', err));
+  }, [isOpen, policyId]);
+
+  // Poll a running backtest until it finishes
+  useEffect(() => {
+    if (!isOpen || !policyId || selected?.status !== 'running') return;
+    const timer = setInterval(() => {
+      policyApi.getBacktest(policyId, selected.id)
+        .then(backtest => {
+          setSelected(backtest);
+          if (backtest.status !== 'running') load();
+        })
+        .catch((e: any) => setError(e.message));
+    }, 2000);
+    return () => clearInterval(timer);
+  }, [isOpen, policyId, selected?.id, selected?.status]);
+
+  useEffect(() => {
+    if (!isOpen || !policyId || selected?.status !== 'completed') return;
+    setDetail(null);
+    policyApi.getBacktestResults(policyId, selected.id, { ...filter, limit: PAGE_SIZE })
+      .then(page => {
+        setResults(page);
+        setHasMore(page.length === PAGE_SIZE);
+      })
+      .catch((e: any) => setError(e.message));
+  }, [isOpen, policyId, selected?.id, selected?.status, filter.swap, filter.rule]);
+
+  if (!isOpen) return null;
+
+  const handleStart = async () => {
+    setIsBusy(true);
+    setError('');
+    try {
+      const backtest = await policyApi.startBacktest(policyId!, {
+        date_from: form.date_from,
+        date_to: form.date_to,
+        parameter_set_id: form.parameter_set_id || undefined,
+        source_policy_id: form.source_policy_id || undefined,
+      });
+      setFilter({ swap: 'any' });
+      setSelected(backtest);
+      await load();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCancel = async (backtest: Backtest) => {
+    try {
+      await policyApi.cancelBacktest(policyId!, backtest.id);
+      setSelected(await policyApi.getBacktest(policyId!, backtest.id));
+      await load();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!selected) return;
+    try {
+      const page = await policyApi.getBacktestResults(policyId!, selected.id, {
+        ...filter,
+        limit: PAGE_SIZE,
+        page: Math.floor(results.length / PAGE_SIZE) + 1,
+      });
+      setResults([...results, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const openResult = (resultId: string) => {
+    policyApi.getBacktestResult(policyId!, selected!.id, resultId)
+      .then(setDetail)
+      .catch((e: any) => setError(e.message));
+  };
+
+  const summary = selected?.summary;
+  const cell = (original: string, replayed: string) => summary?.matrix[original]?.[replayed] || 0;
+  const day = (value: string) => new Date(value).toLocaleDateString();
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="relative bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[85vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+            <h2 className="text-lg font-bold text-gray-900">Backtest</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-5">
+            <p className="text-sm text-gray-600">
+              Replays the applications logged in a date range through the saved workflow of this policy and
+              lists the ones whose decision would change. Connector and API calls are answered from the responses
+              stored for each original request, and each replay is evaluated at its original date. Save the policy
+              before running so unsaved edits are included.
+            </p>
+
+            {/* Start a backtest */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+              <label className="block text-sm">
+                <span className="text-gray-700">From</span>
+                <input
+                  type="date"
+                  value={form.date_from}
+                  onChange={(e) => setForm({ ...form, date_from: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="text-gray-700">To</span>
+                <input
+                  type="date"
+                  value={form.date_to}
+                  onChange={(e) => setForm({ ...form, date_to: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="text-gray-700">Parameters</span>
+                <select
+                  value={form.parameter_set_id}
+                  onChange={(e) => setForm({ ...form, parameter_set_id: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Approved set</option>
+                  {pendingSets.map(set => (
+                    <option key={set.id} value={set.id}>
+                      Pending: {set.change_notes || new Date(set.proposed_at).toLocaleString()}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm">
+                <span className="text-gray-700">Applications of</span>
+                <select
+                  value={form.source_policy_id}
+                  onChange={(e) => setForm({ ...form, source_policy_id: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Every policy of the product</option>
+                  {sources.map(p => (
+                    <option key={p.id} value={p.id}>{p.name} ({p.status})</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={handleStart}
+                disabled={!form.date_from || !form.date_to || isBusy}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Run Backtest
+              </button>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {/* Backtests */}
+            {backtests.length === 0 ? (
+              <p className="text-sm text-gray-500">No backtests yet</p>
+            ) : (
+              <table className="min-w-full text-sm border border-gray-200">
+                <thead className="bg-gray-50 text-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Range</th>
+                    <th className="px-3 py-2 text-left">State</th>
+                    <th className="px-3 py-2 text-right">Applications</th>
+                    <th className="px-3 py-2 text-right">Swaps</th>
+                    <th className="px-3 py-2 text-left">Run by</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {backtests.map(backtest => (
+                    <tr key={backtest.id} className={selected?.id === backtest.id ? 'bg-blue-50' : ''}>
+                      <td className="px-3 py-2">
+                        {day(backtest.date_from)} – {day(backtest.date_to)}
+                        {backtest.parameter_set_id && <div className="text-xs text-gray-500">pending parameters</div>}
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        {backtest.status === 'running'
+                          ? `Running ${backtest.processed}/${backtest.total}`
+                          : backtest.status.charAt(0).toUpperCase() + backtest.status.slice(1)}
+                      </td>
+                      <td className="px-3 py-2 text-right">{backtest.total}</td>
+                      <td className="px-3 py-2 text-right">
+                        {backtest.summary ? SWAPS.reduce((sum, swap) => sum + backtest.summary!.swaps[swap], 0) : '—'}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-500">
+                        {backtest.created_by_name} · {new Date(backtest.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap space-x-3">
+                        <button
+                          onClick={() => {
+                            setFilter({ swap: 'any' });
+                            setSelected(backtest);
+                          }}
+                          className="text-blue-600 hover:underline"
+                        >
+                          Open
+                        </button>
+                        {backtest.status === 'running' && (
+                          <button onClick={() => handleCancel(backtest)} className="text-red-600 hover:underline">
+                            Cancel
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {selected?.status === 'running' && (
+              <div>
+                <div className="text-sm text-gray-600 mb-1">Replaying {selected.processed} of {selected.total} applications…</div>
+                <div className="h-2 bg-gray-200 rounded">
+                  <div
+                    className="h-2 bg-blue-600 rounded"
+                    style={{ width: `${selected.total ? (selected.processed / selected.total) * 100 : 0}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            {selected?.status === 'failed' && (
+              <p className="text-sm text-red-600">Backtest failed: {selected.error_message}</p>
+            )}
+
+            {/* Swap-set report */}
+            {selected?.status === 'completed' && summary && (
+              <div className="border-t border-gray-200 pt-5 space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                  {SWAPS.map(swap => (
+                    <button
+                      key={swap}
+                      onClick={() => setFilter({ swap })}
+                      className={`p-3 rounded ${filter.swap === swap && !filter.rule ? 'bg-blue-100' : 'bg-gray-50 hover:bg-gray-100'}`}
+                    >
+                      <div className="text-xl font-bold text-gray-900">{summary.swaps[swap]}</div>
+                      <div className="text-xs text-gray-500">{SWAP_LABELS[swap]}</div>
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {summary.replayed} replayed · {summary.unchanged} unchanged · {summary.errors} errors ·{' '}
+                  {summary.invalid_input} invalid input · {summary.not_replayable ?? 0} not replayable (no logged query rows) ·{' '}
+                  {summary.incomplete} missing a stored response
+                </p>
+
+                {/* Decision matrix: logged decisions down, backtest decisions across */}
+                <table className="min-w-full text-xs border border-gray-200">
+                  <thead className="bg-gray-50 text-gray-700">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Logged ↓ / Backtest →</th>
+                      {OUTCOMES.map(d => (
+                        <th key={d} className="px-3 py-2 text-right">{labelOf(d)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {DECISIONS.map(original => (
+                      <tr key={original}>
+                        <td className="px-3 py-1.5 font-medium text-gray-700">{labelOf(original)}</td>
+                        {OUTCOMES.map(replayed => (
+                          <td
+                            key={replayed}
+                            className={`px-3 py-1.5 text-right ${original === replayed ? 'text-green-700 font-semibold' : cell(original, replayed) ? 'text-red-700' : 'text-gray-400'}`}
+                          >
+                            {cell(original, replayed)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {/* Swaps by rule */}
+                <div>
+                  <h4 className="text-xs font-semibold text-gray-700 mb-1">Swaps by rule</h4>
+                  {summary.by_rule.length === 0 ? (
+                    <p className="text-xs text-gray-500">No decision would change</p>
+                  ) : (
+                    <table className="min-w-full text-xs border border-gray-200">
+                      <tbody className="divide-y divide-gray-100">
+                        {summary.by_rule.map(row => (
+                          <tr
+                            key={`${row.swap}:${row.rule}`}
+                            onClick={() => setFilter({ swap: row.swap, rule: row.rule })}
+                            className={`cursor-pointer hover:bg-gray-50 ${filter.swap === row.swap && filter.rule === row.rule ? 'bg-blue-50' : ''}`}
+                          >
+                            <td className="px-3 py-1.5 text-gray-900">{row.rule}</td>
+                            <td className="px-3 py-1.5 text-gray-600">{SWAP_LABELS[row.swap]}</td>
+                            <td className="px-3 py-1.5 text-right font-semibold">{row.count}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+
+                {/* Applications */}
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <h4 className="text-xs font-semibold text-gray-700">
+                      {filter.swap === 'any' ? 'All swaps' : SWAP_LABELS[filter.swap]}
+                      {filter.rule && ` · ${filter.rule}`}
+                    </h4>
+                    {(filter.swap !== 'any' || filter.rule) && (
+                      <button onClick={() => setFilter({ swap: 'any' })} className="text-xs text-blue-600 hover:underline">
+                        Show all swaps
+                      </button>
+                    )}
+                  </div>
+                  {results.length === 0 ? (
+                    <p className="text-xs text-gray-500">None</p>
+                  ) : (
+                    <ul className="text-xs divide-y divide-gray-100 border border-gray-200 rounded max-h-56 overflow-y-auto">
+                      {results.map(result => (
+                        <li key={result.id}>
+                          <button
+                            onClick={() => openResult(result.id)}
+                            className={`w-full text-left px-3 py-1.5 hover:bg-gray-50 ${detail?.id === result.id ? 'bg-blue-50' : ''}`}
+                          >
+                            <span className="font-mono">{result.application_id}</span>
+                            <span className="ml-2 text-gray-700">
+                              {labelOf(result.original_decision)} → {labelOf(result.backtest_decision)}
+                            </span>
+                            {result.swap_rule && <span className="ml-2 text-gray-500">{result.swap_rule}</span>}
+                            {result.missing_responses.length > 0 && (
+                              <span className="ml-2 text-yellow-700">{result.missing_responses.length} missing response(s)</span>
+                            )}
+                            <span className="ml-2 text-gray-400">{new Date(result.requested_at).toLocaleString()}</span>
+                          </button>
+                        </li>
+                      ))}
+                      {hasMore && (
+                        <li>
+                          <button onClick={loadMore} className="w-full px-3 py-1.5 text-blue-600 hover:bg-gray-50">
+                            Load more
+                          </button>
+                        </li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+
+                {detail && (
+                  <div className="text-xs space-y-2">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="p-2 rounded bg-gray-50">
+                        <div className="font-semibold text-gray-700">Logged: {labelOf(detail.original_decision)}</div>
+                        <div className="text-gray-600">{detail.original_response?.reason}</div>
+                        {detail.original_rule && <div className="text-gray-500">Rule: {detail.original_rule}</div>}
+                      </div>
+                      <div className="p-2 rounded bg-gray-50">
+                        <div className="font-semibold text-gray-700">Backtest: {labelOf(detail.backtest_decision)}</div>
+                        <div className="text-gray-600">{detail.backtest_reason}</div>
+                        {detail.backtest_rule && <div className="text-gray-500">Rule: {detail.backtest_rule}</div>}
+                      </div>
+                    </div>
+                    {detail.missing_responses.length > 0 && (
+                      <p className="text-yellow-700">
+                        No stored response for: {detail.missing_responses.map(call => `${call.node_id} (${call.kind})`).join(', ')}
+                      </p>
+                    )}
+                    <details>
+                      <summary className="cursor-pointer text-gray-600">Applicant data</summary>
+                      <pre className="mt-1 p-2 bg-gray-900 text-gray-100 rounded overflow-x-auto max-h-64">
+                        {JSON.stringify(detail.request_data?.applicant, null, 2)}
+                      </pre>
+                    </details>
+                    <details>
+                      <summary className="cursor-pointer text-gray-600">Backtest trace ({(detail.execution_trace || []).length} nodes)</summary>
+                      <pre className="mt-1 p-2 bg-gray-900 text-gray-100 rounded overflow-x-auto max-h-64">
+                        {JSON.stringify(detail.execution_trace, null, 2)}
+                      </pre>
+                    </details>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
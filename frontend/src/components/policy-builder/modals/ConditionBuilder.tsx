@@ -1,7 +1,14 @@
 import React from 'react';
-import { TrashIcon } from '@heroicons/react/24/outline';
+import { TrashIcon, PlusIcon } from '@heroicons/react/24/outline';
 import { VariableAutocomplete } from './VariableAutocomplete';
-import { Condition } from './StrategyConfigModal';
+import { MissingDataRuleEditor } from './MissingDataRuleEditor';
+import {
+  Condition,
+  ConditionGroup,
+  ConditionItem,
+  isConditionGroup,
+  dateConditionError,
+} from '../../../stores/policyBuilderStore';
 
 interface ConditionBuilderProps {
   condition: Condition;
@@ -9,6 +16,13 @@ interface ConditionBuilderProps {
   onDelete: () => void;
 }
 
+const DATE_PLACEHOLDERS: Record<string, string> = {
+  BETWEEN: '2020-01-01, today  or  18, 60',
+  BEFORE: '2024-04-01 or today',
+  AFTER: '2024-04-01 or today',
+  WITHIN_LAST: '90 DAYS, 6 MONTHS, 2 YEARS',
+};
+
 const DECISIONS = [
   { value: 'Approved', label: '✓ Approved', color: 'text-green-600' },
   { value: 'Manual Check', label: '⚠ Manual Check', color: 'text-yellow-600' },
@@ -21,6 +35,8 @@ export const ConditionBuilder: React.FC<ConditionBuilderProps> = ({
 }) => {
   const isNullOperator = condition.operator === 'IS_NULL' || condition.operator === 'IS_NOT_NULL';
   const isListOperator = condition.operator === 'IN' || condition.operator === 'NOT IN';
+  const datePlaceholder = DATE_PLACEHOLDERS[condition.operator];
+  const dateError = datePlaceholder && condition.value !== '' ? dateConditionError(condition.operator, condition.value) : null;
 
   return (
     <div className="border-2 border-gray-200 rounded-lg p-4 hover:border-gray-300 transition-colors">
@@ -63,6 +79,12 @@ export const ConditionBuilder: React.FC<ConditionBuilderProps> = ({
               <option value="CONTAINS">CONTAINS (contains text)</option>
               <option value="STARTS_WITH">STARTS_WITH (starts with)</option>
             </optgroup>
+            <optgroup label="Dates">
+              <option value="BETWEEN">BETWEEN (in range, inclusive)</option>
+              <option value="BEFORE">BEFORE (earlier than date)</option>
+              <option value="AFTER">AFTER (later than date)</option>
+              <option value="WITHIN_LAST">WITHIN_LAST (in the last N days/months/years)</option>
+            </optgroup>
             <optgroup label="Null Checks">
               <option value="IS_NULL">IS_NULL (is empty)</option>
               <option value="IS_NOT_NULL">IS_NOT_NULL (has value)</option>
@@ -83,6 +105,8 @@ export const ConditionBuilder: React.FC<ConditionBuilderProps> = ({
             placeholder={
               isListOperator
                 ? 'Mumbai, Delhi, Bangalore'
+                : datePlaceholder
+                ? datePlaceholder
                 : isNullOperator
                 ? '(not needed)'
                 : 'e.g., 750'
@@ -94,6 +118,11 @@ export const ConditionBuilder: React.FC<ConditionBuilderProps> = ({
           {isListOperator && (
             <p className="text-xs text-gray-500 mt-1">Comma-separated values</p>
           )}
+          {datePlaceholder && (
+            <p className={`text-xs mt-1 ${dateError ? 'text-red-600' : 'text-gray-500'}`}>
+              {dateError || '"today" is the evaluation date'}
+            </p>
+          )}
         </div>
 
         {/* Box 4: Decision (Dropdown) */}
@@ -118,8 +147,17 @@ export const ConditionBuilder: React.FC<ConditionBuilderProps> = ({
         </div>
       </div>
 
-      {/* Delete Button */}
-      <div className="flex justify-end">
+      {/* Missing data + Delete */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <label className="text-xs font-medium text-gray-700">If variable is missing:</label>
+          <MissingDataRuleEditor
+            rule={condition.missingData}
+            onChange={(rule) => onChange({ missingData: rule })}
+            inheritLabel="Policy default"
+            disabled={isNullOperator}
+          />
+        </div>
         <button
           onClick={onDelete}
           className="flex items-center gap-1 px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded-md transition-colors"
@@ -131,3 +169,139 @@ export const ConditionBuilder: React.FC<ConditionBuilderProps> = ({
     </div>
   );
 };
+
+// Groups can nest this many levels below the root
+const MAX_GROUP_DEPTH = 3;
+
+export const createCondition = (): Condition => ({
+  id: `cond-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  type: 'condition',
+  variable: '',
+  operator: '>=',
+  value: '',
+  decision: 'Approved',
+});
+
+const createGroup = (operator: 'AND' | 'OR'): ConditionGroup => ({
+  id: `group-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  type: 'group',
+  operator,
+  conditions: [createCondition()],
+});
+
+interface ConditionGroupBuilderProps {
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  onDelete?: () => void;
+  depth?: number;
+}
+
+export const ConditionGroupBuilder: React.FC<ConditionGroupBuilderProps> = ({
+  group,
+  onChange,
+  onDelete,
+  depth = 0,
+}) => {
+  const updateItem = (index: number, item: ConditionItem) => {
+    const conditions = [...group.conditions];
+    conditions[index] = item;
+    onChange({ ...group, conditions });
+  };
+
+  const deleteItem = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  const addItem = (item: ConditionItem) => {
+    onChange({ ...group, conditions: [...group.conditions, item] });
+  };
+
+  const isRoot = depth === 0;
+
+  return (
+    <div
+      className={
+        isRoot
+          ? 'space-y-3'
+          : 'border-2 border-dashed border-indigo-200 bg-indigo-50/40 rounded-lg p-3 space-y-3'
+      }
+    >
+      {/* Group operator */}
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-semibold text-gray-700">
+          {isRoot ? 'Pass when' : 'Group: pass when'}
+        </span>
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+          {(['AND', 'OR'] as const).map(op => (
+            <button
+              key={op}
+              onClick={() => onChange({ ...group, operator: op })}
+              className={`px-3 py-1 text-xs font-medium transition-colors ${
+                group.operator === op ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {op === 'AND' ? 'ALL match (AND)' : 'ANY matches (OR)'}
+            </button>
+          ))}
+        </div>
+        {onDelete && (
+          <button
+            onClick={onDelete}
+            className="ml-auto flex items-center gap-1 px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded-md transition-colors"
+          >
+            <TrashIcon className="w-4 h-4" />
+            <span>Delete group</span>
+          </button>
+        )}
+      </div>
+
+      {/* Members */}
+      {group.conditions.map((item, index) => (
+        <div key={item.id} className="space-y-3">
+          {isConditionGroup(item) ? (
+            <ConditionGroupBuilder
+              group={item}
+              onChange={(updated) => updateItem(index, updated)}
+              onDelete={() => deleteItem(index)}
+              depth={depth + 1}
+            />
+          ) : (
+            <ConditionBuilder
+              condition={item}
+              onChange={(updates) => updateItem(index, { ...item, ...updates })}
+              onDelete={() => deleteItem(index)}
+            />
+          )}
+
+          {index < group.conditions.length - 1 && (
+            <div className="ml-4 text-xs font-bold text-blue-700">{group.operator}</div>
+          )}
+        </div>
+      ))}
+
+      {/* Add buttons */}
+      <div className="flex gap-2">
+        <button
+          onClick={() => addItem(createCondition())}
+          className="flex-1 px-4 py-2 border-2 border-dashed border-gray-300 rounded-lg
+                   text-blue-600 hover:border-blue-400 hover:bg-blue-50 transition-all
+                   flex items-center justify-center gap-2 text-sm"
+        >
+          <PlusIcon className="w-4 h-4" />
+          <span className="font-medium">Add Condition</span>
+        </button>
+        {depth < MAX_GROUP_DEPTH && (
+          <button
+            onClick={() => addItem(createGroup(group.operator === 'AND' ? 'OR' : 'AND'))}
+            className="flex-1 px-4 py-2 border-2 border-dashed border-indigo-300 rounded-lg
+                     text-indigo-600 hover:border-indigo-400 hover:bg-indigo-50 transition-all
+                     flex items-center justify-center gap-2 text-sm"
+          >
+            <PlusIcon className="w-4 h-4" />
+            <span className="font-medium">Add Group</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,353 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  DecisionTableConfig,
+  DecisionTableHitPolicy,
+  DecisionTableValueType,
+} from '../../../stores/policyBuilderStore';
+
+interface DecisionTableConfigModalProps {
+  isOpen: boolean;
+  nodeName: string;
+  config: DecisionTableConfig;
+  onClose: () => void;
+  onSave: (nodeName: string, config: DecisionTableConfig) => void;
+}
+
+const HIT_POLICIES: { value: DecisionTableHitPolicy; description: string }[] = [
+  { value: 'UNIQUE', description: 'Exactly one rule may match' },
+  { value: 'FIRST', description: 'First matching rule wins' },
+  { value: 'PRIORITY', description: 'Highest priority output wins' },
+  { value: 'COLLECT', description: 'All matching rules are collected' },
+];
+
+const VALUE_TYPES: DecisionTableValueType[] = ['number', 'string', 'boolean', 'date'];
+
+export const DecisionTableConfigModal: React.FC<DecisionTableConfigModalProps> = ({
+  isOpen,
+  nodeName,
+  config: initialConfig,
+  onClose,
+  onSave,
+}) => {
+  const [config, setConfig] = useState<DecisionTableConfig>(initialConfig);
+  const [tempName, setTempName] = useState(nodeName);
+
+  useEffect(() => {
+    setConfig(initialConfig);
+    setTempName(nodeName);
+  }, [initialConfig, nodeName, isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (updates: Partial<DecisionTableConfig>) => {
+    setConfig({ ...config, ...updates });
+  };
+
+  const addInput = () => {
+    update({
+      inputs: [...config.inputs, { id: `in-${Date.now()}`, label: '', expression: '', type: 'number' }],
+      rules: config.rules.map(r => ({ ...r, inputs: [...r.inputs, '-'] })),
+    });
+  };
+
+  const removeInput = (index: number) => {
+    update({
+      inputs: config.inputs.filter((_, i) => i !== index),
+      rules: config.rules.map(r => ({ ...r, inputs: r.inputs.filter((_, i) => i !== index) })),
+    });
+  };
+
+  const addOutput = () => {
+    update({
+      outputs: [...config.outputs, { id: `out-${Date.now()}`, name: '', type: 'string' }],
+      rules: config.rules.map(r => ({ ...r, outputs: [...r.outputs, ''] })),
+    });
+  };
+
+  const removeOutput = (index: number) => {
+    update({
+      outputs: config.outputs.filter((_, i) => i !== index),
+      rules: config.rules.map(r => ({ ...r, outputs: r.outputs.filter((_, i) => i !== index) })),
+    });
+  };
+
+  const addRule = () => {
+    update({
+      rules: [
+        ...config.rules,
+        {
+          id: `rule-${Date.now()}`,
+          inputs: config.inputs.map(() => '-'),
+          outputs: config.outputs.map(() => ''),
+        },
+      ],
+    });
+  };
+
+  const updateCell = (ruleIndex: number, kind: 'inputs' | 'outputs', cellIndex: number, value: string) => {
+    update({
+      rules: config.rules.map((rule, r) => {
+        if (r !== ruleIndex) return rule;
+        const cells = [...rule[kind]];
+        cells[cellIndex] = value;
+        return { ...rule, [kind]: cells };
+      }),
+    });
+  };
+
+  const handleSave = () => {
+    if (config.inputs.some(i => !i.expression) || config.outputs.some(o => !o.name)) {
+      alert('Please fill in every input expression and output variable');
+      return;
+    }
+
+    if (config.rules.length === 0) {
+      alert('Please add at least one rule');
+      return;
+    }
+
+    if (config.hit_policy === 'PRIORITY' && !config.outputs.some(o => o.priority && o.priority.length > 0)) {
+      alert('PRIORITY tables need a priority order on at least one output');
+      return;
+    }
+
+    onSave(tempName, config);
+  };
+
+  const cellClass = 'w-full px-2 py-1 text-sm font-mono border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="relative bg-white rounded-lg shadow-xl w-full max-w-6xl max-h-[85vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+            <input
+              type="text"
+              value={tempName}
+              onChange={(e) => setTempName(e.target.value)}
+              className="text-lg font-bold text-gray-900 bg-transparent border-b-2 border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none px-2"
+              maxLength={50}
+            />
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-6">
+            {/* Hit policy */}
+            <div className="flex items-center gap-4">
+              <label className="text-sm font-semibold text-gray-700">Hit policy:</label>
+              <select
+                value={config.hit_policy}
+                onChange={(e) => update({ hit_policy: e.target.value as DecisionTableHitPolicy })}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {HIT_POLICIES.map(p => (
+                  <option key={p.value} value={p.value}>{p.value} — {p.description}</option>
+                ))}
+              </select>
+              {config.hit_policy === 'COLLECT' && (
+                <select
+                  value={config.aggregation || 'LIST'}
+                  onChange={(e) => update({ aggregation: e.target.value as DecisionTableConfig['aggregation'] })}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  {['LIST', 'SUM', 'MIN', 'MAX', 'COUNT'].map(a => (
+                    <option key={a} value={a}>{a}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {/* Table grid */}
+            <div className="overflow-x-auto">
+              <table className="min-w-full border border-gray-200 text-sm">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="px-2 py-2 border-b border-gray-200 text-left text-xs text-gray-500 w-10">#</th>
+                    {config.inputs.map((input, i) => (
+                      <th key={input.id} className="px-2 py-2 border-b border-l border-gray-200 bg-blue-50 align-top min-w-[160px]">
+                        <div className="flex items-center gap-1 mb-1">
+                          <span className="text-xs font-semibold text-blue-800">INPUT</span>
+                          <button onClick={() => removeInput(i)} className="ml-auto text-gray-400 hover:text-red-600" title="Remove column">
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <input
+                          type="text"
+                          value={input.expression}
+                          onChange={(e) => update({
+                            inputs: config.inputs.map((c, j) => (j === i ? { ...c, expression: e.target.value } : c)),
+                          })}
+                          placeholder="e.g. bureau.score"
+                          className={cellClass}
+                        />
+                        <select
+                          value={input.type}
+                          onChange={(e) => update({
+                            inputs: config.inputs.map((c, j) => (j === i ? { ...c, type: e.target.value as DecisionTableValueType } : c)),
+                          })}
+                          className="mt-1 w-full px-2 py-1 text-xs border border-gray-300 rounded"
+                        >
+                          {VALUE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                      </th>
+                    ))}
+                    {config.outputs.map((output, i) => (
+                      <th key={output.id} className="px-2 py-2 border-b border-l border-gray-200 bg-green-50 align-top min-w-[160px]">
+                        <div className="flex items-center gap-1 mb-1">
+                          <span className="text-xs font-semibold text-green-800">OUTPUT</span>
+                          <button onClick={() => removeOutput(i)} className="ml-auto text-gray-400 hover:text-red-600" title="Remove column">
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <input
+                          type="text"
+                          value={output.name}
+                          onChange={(e) => update({
+                            outputs: config.outputs.map((c, j) => (j === i ? { ...c, name: e.target.value } : c)),
+                          })}
+                          placeholder="variable name"
+                          className={cellClass}
+                        />
+                        <select
+                          value={output.type}
+                          onChange={(e) => update({
+                            outputs: config.outputs.map((c, j) => (j === i ? { ...c, type: e.target.value as DecisionTableValueType } : c)),
+                          })}
+                          className="mt-1 w-full px-2 py-1 text-xs border border-gray-300 rounded"
+                        >
+                          {VALUE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                        {config.hit_policy === 'PRIORITY' && (
+                          <input
+                            type="text"
+                            value={(output.priority || []).join(', ')}
+                            onChange={(e) => update({
+                              outputs: config.outputs.map((c, j) => (j === i
+                                ? { ...c, priority: e.target.value.split(',').map(v => v.trim()).filter(Boolean) }
+                                : c)),
+                            })}
+                            placeholder="priority: highest first"
+                            className="mt-1 w-full px-2 py-1 text-xs border border-gray-300 rounded"
+                          />
+                        )}
+                      </th>
+                    ))}
+                    <th className="px-2 py-2 border-b border-l border-gray-200 w-10" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {config.rules.map((rule, r) => (
+                    <tr key={rule.id} className="hover:bg-gray-50">
+                      <td className="px-2 py-1 border-b border-gray-200 text-xs text-gray-500">{r + 1}</td>
+                      {config.inputs.map((input, c) => (
+                        <td key={input.id} className="px-2 py-1 border-b border-l border-gray-200">
+                          <input
+                            type="text"
+                            value={rule.inputs[c] ?? ''}
+                            onChange={(e) => updateCell(r, 'inputs', c, e.target.value)}
+                            className={cellClass}
+                          />
+                        </td>
+                      ))}
+                      {config.outputs.map((output, c) => (
+                        <td key={output.id} className="px-2 py-1 border-b border-l border-gray-200">
+                          <input
+                            type="text"
+                            value={rule.outputs[c] ?? ''}
+                            onChange={(e) => updateCell(r, 'outputs', c, e.target.value)}
+                            className={cellClass}
+                          />
+                        </td>
+                      ))}
+                      <td className="px-2 py-1 border-b border-l border-gray-200">
+                        <button
+                          onClick={() => update({ rules: config.rules.filter((_, i) => i !== r) })}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Delete rule"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                onClick={addRule}
+                className="px-4 py-2 border-2 border-dashed border-gray-300 rounded-lg text-blue-600 hover:border-blue-400 hover:bg-blue-50 transition-all flex items-center gap-2"
+              >
+                <PlusIcon className="w-4 h-4" />
+                <span className="text-sm font-medium">Add Rule</span>
+              </button>
+              <button
+                onClick={addInput}
+                className="px-4 py-2 border-2 border-dashed border-gray-300 rounded-lg text-blue-600 hover:border-blue-400 hover:bg-blue-50 transition-all flex items-center gap-2"
+              >
+                <PlusIcon className="w-4 h-4" />
+                <span className="text-sm font-medium">Add Input</span>
+              </button>
+              <button
+                onClick={addOutput}
+                className="px-4 py-2 border-2 border-dashed border-gray-300 rounded-lg text-green-600 hover:border-green-400 hover:bg-green-50 transition-all flex items-center gap-2"
+              >
+                <PlusIcon className="w-4 h-4" />
+                <span className="text-sm font-medium">Add Output</span>
+              </button>
+            </div>
+
+            {/* Cell syntax help */}
+            <div className="border-t border-gray-200 pt-6">
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-blue-900 mb-2">
+                  Cell syntax:
+                </h4>
+                <ul className="text-sm text-blue-800 space-y-1 font-mono">
+                  <li>- <span className="font-sans">any value</span></li>
+                  <li>&gt;= 750, &lt; 650 <span className="font-sans">comparisons</span></li>
+                  <li>[650..750), (0..1] <span className="font-sans">ranges ([ ] inclusive, ( ) exclusive)</span></li>
+                  <li>SALARIED, SELF_EMPLOYED <span className="font-sans">one of a list</span></li>
+                  <li>not(TIER_3) <span className="font-sans">negation</span></li>
+                  <li>=income * 10 <span className="font-sans">output computed from an expression</span></li>
+                </ul>
+              </div>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex items-center justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Save & Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,422 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { InputSchema } from '../../../stores/policyBuilderStore';
+
+interface InputSchemaModalProps {
+  isOpen: boolean;
+  schema: InputSchema | null;
+  onClose: () => void;
+  onSave: (schema: InputSchema | null) => void;
+}
+
+type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'email' | 'array';
+
+interface SchemaField {
+  id: string;
+  name: string; // dotted names become nested objects
+  type: FieldType;
+  required: boolean;
+  minimum: string;
+  maximum: string;
+  allowed: string; // comma separated enum values
+  description: string;
+  extra: InputSchema; // keywords the field editor does not expose (pattern, items, ...)
+}
+
+const FIELD_TYPES: FieldType[] = ['string', 'number', 'integer', 'boolean', 'date', 'email', 'array'];
+
+let fieldIdCounter = 1;
+
+const createField = (): SchemaField => ({
+  id: `field-${fieldIdCounter++}`,
+  name: '',
+  type: 'string',
+  required: false,
+  minimum: '',
+  maximum: '',
+  allowed: '',
+  description: '',
+  extra: {},
+});
+
+const toFieldType = (property: InputSchema): FieldType => {
+  const types = Array.isArray(property.type) ? property.type : property.type ? [property.type] : [];
+  const type = types.find(t => t !== 'null');
+  if (type === 'string' && (property.format === 'date' || property.format === 'date-time')) return 'date';
+  if (type === 'string' && property.format === 'email') return 'email';
+  return FIELD_TYPES.includes(type as FieldType) ? (type as FieldType) : 'string';
+};
+
+const isNumeric = (type: FieldType) => type === 'number' || type === 'integer';
+
+const toFields = (schema: InputSchema | null, prefix: string = ''): SchemaField[] => {
+  if (!schema?.properties) return [];
+
+  return Object.entries(schema.properties).flatMap(([key, property]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (property.type === 'object' && property.properties) {
+      return toFields(property, name);
+    }
+
+    const { type, format, minimum, maximum, minLength, maxLength, description, ...extra } = property;
+    const fieldType = toFieldType(property);
+    const low = isNumeric(fieldType) ? minimum : minLength;
+    const high = isNumeric(fieldType) ? maximum : maxLength;
+
+    return [{
+      ...createField(),
+      name,
+      type: fieldType,
+      required: (schema.required || []).includes(key),
+      minimum: low !== undefined ? String(low) : '',
+      maximum: high !== undefined ? String(high) : '',
+      allowed: (extra.enum || []).join(', '),
+      description: description || '',
+      extra: { ...extra, enum: undefined },
+    }];
+  });
+};
+
+const toPropertySchema = (field: SchemaField): InputSchema => {
+  const property: InputSchema = { ...field.extra };
+
+  if (field.type === 'date' || field.type === 'email') {
+    property.type = 'string';
+    property.format = field.type;
+  } else {
+    property.type = field.type;
+  }
+
+  const low = field.minimum.trim();
+  const high = field.maximum.trim();
+  if (isNumeric(field.type)) {
+    if (low) property.minimum = Number(low);
+    if (high) property.maximum = Number(high);
+  } else if (field.type === 'string') {
+    if (low) property.minLength = Number(low);
+    if (high) property.maxLength = Number(high);
+  }
+
+  const allowed = field.allowed.split(',').map(v => v.trim()).filter(Boolean);
+  if (allowed.length > 0) {
+    property.enum = isNumeric(field.type) ? allowed.map(Number) : allowed;
+  }
+
+  if (field.description.trim()) property.description = field.description.trim();
+  return JSON.parse(JSON.stringify(property)); // drop undefined keywords
+};
+
+const fromFields = (fields: SchemaField[]): InputSchema | null => {
+  const named = fields.filter(f => f.name.trim());
+  if (named.length === 0) return null;
+
+  const root: InputSchema = { type: 'object', properties: {} };
+
+  named.forEach(field => {
+    const parts = field.name.trim().split('.');
+    let parent = root;
+    parts.slice(0, -1).forEach(part => {
+      parent.properties![part] = parent.properties![part] || { type: 'object', properties: {} };
+      parent = parent.properties![part];
+    });
+
+    const key = parts[parts.length - 1];
+    parent.properties![key] = toPropertySchema(field);
+    if (field.required) {
+      parent.required = [...(parent.required || []), key];
+    }
+  });
+
+  return root;
+};
+
+const validateFields = (fields: SchemaField[]): string[] => {
+  const errors: string[] = [];
+  const names = fields.map(f => f.name.trim()).filter(Boolean);
+
+  names
+    .filter((name, index) => names.indexOf(name) !== index)
+    .forEach(name => errors.push(`Field "${name}" is declared more than once`));
+
+  names
+    .filter(name => names.some(other => other.startsWith(`${name}.`)))
+    .forEach(name => errors.push(`Field "${name}" cannot also be a parent of other fields`));
+
+  fields.forEach(field => {
+    const label = field.name.trim() || 'Unnamed field';
+    if (field.name.trim() && !/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/.test(field.name.trim())) {
+      errors.push(`${label}: names may only contain letters, digits, underscores and dots`);
+    }
+    const low = field.minimum.trim();
+    const high = field.maximum.trim();
+    if ((low && isNaN(Number(low))) || (high && isNaN(Number(high)))) {
+      errors.push(`${label}: min and max must be numbers`);
+    } else if (low && high && Number(low) > Number(high)) {
+      errors.push(`${label}: min is greater than max`);
+    }
+    if (isNumeric(field.type) && field.allowed.split(',').map(v => v.trim()).filter(Boolean).some(v => isNaN(Number(v)))) {
+      errors.push(`${label}: allowed values must be numbers`);
+    }
+  });
+
+  return errors;
+};
+
+export const InputSchemaModal: React.FC<InputSchemaModalProps> = ({
+  isOpen,
+  schema,
+  onClose,
+  onSave,
+}) => {
+  const [mode, setMode] = useState<'fields' | 'json'>('fields');
+  const [fields, setFields] = useState<SchemaField[]>([]);
+  const [jsonText, setJsonText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    setFields(toFields(schema));
+    setJsonText(schema ? JSON.stringify(schema, null, 2) : '');
+    setMode('fields');
+    setErrors([]);
+  }, [schema, isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateField = (id: string, updates: Partial<SchemaField>) => {
+    setFields(fields.map(f => (f.id === id ? { ...f, ...updates } : f)));
+  };
+
+  const parseJson = (): InputSchema | null | undefined => {
+    if (!jsonText.trim()) return null;
+    try {
+      const parsed = JSON.parse(jsonText);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        setErrors(['The schema must be a JSON object']);
+        return undefined;
+      }
+      return parsed;
+    } catch {
+      setErrors(['Invalid JSON format']);
+      return undefined;
+    }
+  };
+
+  const handleModeSwitch = (next: 'fields' | 'json') => {
+    if (next === mode) return;
+    setErrors([]);
+
+    if (next === 'json') {
+      const fieldErrors = validateFields(fields);
+      if (fieldErrors.length > 0) {
+        setErrors(fieldErrors);
+        return;
+      }
+      const built = fromFields(fields);
+      // Keep root-level keywords (title, additionalProperties) from the JSON view
+      const previous = parseJson();
+      setJsonText(built ? JSON.stringify({ ...(previous || {}), ...built }, null, 2) : '');
+    } else {
+      const parsed = parseJson();
+      if (parsed === undefined) return;
+      setFields(toFields(parsed));
+    }
+    setMode(next);
+  };
+
+  const handleSave = () => {
+    if (mode === 'json') {
+      const parsed = parseJson();
+      if (parsed === undefined) return;
+      if (parsed && parsed.type !== undefined && parsed.type !== 'object') {
+        setErrors(['The schema root must be of type object']);
+        return;
+      }
+      onSave(parsed);
+      return;
+    }
+
+    const fieldErrors = validateFields(fields);
+    if (fieldErrors.length > 0) {
+      setErrors(fieldErrors);
+      return;
+    }
+
+    const built = fromFields(fields);
+    onSave(built && schema ? { ...schema, ...built } : built);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="relative bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[85vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">Input Schema</h2>
+              <p className="text-xs text-gray-500">
+                Applications submitted to this policy are validated against these fields before the workflow runs
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-4">
+            <div className="flex gap-2">
+              {(['fields', 'json'] as const).map(m => (
+                <button
+                  key={m}
+                  onClick={() => handleModeSwitch(m)}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    mode === m ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {m === 'fields' ? 'Fields' : 'JSON Schema'}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'fields' ? (
+              <div className="space-y-2">
+                <div className="grid grid-cols-12 gap-2 text-xs font-semibold text-gray-600 px-1">
+                  <div className="col-span-3">Field (use dots for nesting)</div>
+                  <div className="col-span-2">Type</div>
+                  <div className="col-span-1 text-center">Required</div>
+                  <div className="col-span-1">Min</div>
+                  <div className="col-span-1">Max</div>
+                  <div className="col-span-2">Allowed values</div>
+                  <div className="col-span-2">Description</div>
+                </div>
+
+                {fields.length === 0 && (
+                  <div className="text-sm text-gray-500 py-4 text-center border border-dashed border-gray-300 rounded-md">
+                    No input schema. Applications are passed to the workflow unchecked.
+                  </div>
+                )}
+
+                {fields.map(field => (
+                  <div key={field.id} className="grid grid-cols-12 gap-2 items-center">
+                    <input
+                      type="text"
+                      value={field.name}
+                      onChange={(e) => updateField(field.id, { name: e.target.value })}
+                      placeholder="e.g. bureau.score"
+                      className="col-span-3 px-2 py-1.5 border border-gray-300 rounded-md text-sm font-mono"
+                    />
+                    <select
+                      value={field.type}
+                      onChange={(e) => updateField(field.id, { type: e.target.value as FieldType })}
+                      className="col-span-2 px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                    >
+                      {FIELD_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                    <div className="col-span-1 flex justify-center">
+                      <input
+                        type="checkbox"
+                        checked={field.required}
+                        onChange={(e) => updateField(field.id, { required: e.target.checked })}
+                      />
+                    </div>
+                    <input
+                      type="text"
+                      value={field.minimum}
+                      onChange={(e) => updateField(field.id, { minimum: e.target.value })}
+                      disabled={!isNumeric(field.type) && field.type !== 'string'}
+                      title={field.type === 'string' ? 'Minimum length' : 'Minimum value'}
+                      className="col-span-1 px-2 py-1.5 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+                    />
+                    <input
+                      type="text"
+                      value={field.maximum}
+                      onChange={(e) => updateField(field.id, { maximum: e.target.value })}
+                      disabled={!isNumeric(field.type) && field.type !== 'string'}
+                      title={field.type === 'string' ? 'Maximum length' : 'Maximum value'}
+                      className="col-span-1 px-2 py-1.5 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+                    />
+                    <input
+                      type="text"
+                      value={field.allowed}
+                      onChange={(e) => updateField(field.id, { allowed: e.target.value })}
+                      disabled={field.type === 'boolean' || field.type === 'array'}
+                      placeholder="A, B, C"
+                      className="col-span-2 px-2 py-1.5 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+                    />
+                    <div className="col-span-2 flex items-center gap-1">
+                      <input
+                        type="text"
+                        value={field.description}
+                        onChange={(e) => updateField(field.id, { description: e.target.value })}
+                        className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+                      />
+                      <button
+                        onClick={() => setFields(fields.filter(f => f.id !== field.id))}
+                        className="p-1 text-red-500 hover:bg-red-50 rounded"
+                        title="Remove field"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+
+                <button
+                  onClick={() => setFields([...fields, createField()])}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  Add Field
+                </button>
+              </div>
+            ) : (
+              <textarea
+                value={jsonText}
+                onChange={(e) => {
+                  setJsonText(e.target.value);
+                  setErrors([]);
+                }}
+                placeholder={'{\n  "type": "object",\n  "required": ["income"],\n  "properties": {\n    "income": { "type": "number", "minimum": 0 }\n  }\n}'}
+                className="w-full h-80 px-4 py-3 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+            )}
+
+            {errors.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <ul className="text-sm text-red-700 space-y-1">
+                  {errors.map((error, index) => <li key={index}>• {error}</li>)}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex items-center justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Save & Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { LookupConfig } from '../../../stores/policyBuilderStore';
+import { referenceTableApi, ReferenceTableSummary, ReferenceTableVersion } from '../../../services/referenceTableApi';
+import { VariableAutocomplete } from './VariableAutocomplete';
+
+interface LookupConfigModalProps {
+  isOpen: boolean;
+  nodeName: string;
+  config: LookupConfig;
+  onClose: () => void;
+  onSave: (nodeName: string, config: LookupConfig) => void;
+}
+
+export const LookupConfigModal: React.FC<LookupConfigModalProps> = ({
+  isOpen,
+  nodeName,
+  config,
+  onClose,
+  onSave,
+}) => {
+  const [tempName, setTempName] = useState(nodeName);
+  const [table, setTable] = useState(config.table);
+  const [version, setVersion] = useState<string>(config.version ? String(config.version) : '');
+  const [keyExpression, setKeyExpression] = useState(config.key);
+  const [column, setColumn] = useState(config.column || '');
+  const [outputVariable, setOutputVariable] = useState(config.output_variable);
+  const [defaultValue, setDefaultValue] = useState(
+    config.default_value === undefined ? '' : String(config.default_value)
+  );
+  const [tables, setTables] = useState<ReferenceTableSummary[]>([]);
+  const [versions, setVersions] = useState<ReferenceTableVersion[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setTempName(nodeName);
+    setTable(config.table);
+    setVersion(config.version ? String(config.version) : '');
+    setKeyExpression(config.key);
+    setColumn(config.column || '');
+    setOutputVariable(config.output_variable);
+    setDefaultValue(config.default_value === undefined ? '' : String(config.default_value));
+    setError('');
+  }, [config, nodeName, isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    referenceTableApi.getTables()
+      .then(setTables)
+      .catch(err => console.warn('Failed to load reference tables:', err));
+  }, [isOpen]);
+
+  // Versions of the selected table, for pinning
+  useEffect(() => {
+    if (!isOpen || !table) {
+      setVersions([]);
+      return;
+    }
+    referenceTableApi.getTable(table)
+      .then(data => setVersions(data.versions))
+      .catch(err => console.warn('Failed to load reference table versions:', err));
+  }, [isOpen, table]);
+
+  if (!isOpen) return null;
+
+  const selected = tables.find(t => t.name === table);
+  const pinned = versions.find(v => String(v.version) === version);
+  const columns = (pinned || selected)?.columns || [];
+
+  const handleSave = () => {
+    if (!table || !keyExpression.trim() || !outputVariable.trim()) {
+      setError('Select a table and fill in the key and the output variable');
+      return;
+    }
+
+    onSave(tempName, {
+      table,
+      ...(version ? { version: Number(version) } : {}),
+      key: keyExpression.trim(),
+      ...(column ? { column } : {}),
+      output_variable: outputVariable.trim(),
+      ...(defaultValue !== '' ? { default_value: defaultValue } : {}),
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[85vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+            <input
+              type="text"
+              value={tempName}
+              onChange={(e) => setTempName(e.target.value)}
+              className="text-lg font-bold text-gray-900 bg-transparent border-b-2 border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none px-2"
+              maxLength={50}
+            />
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-5">
+            <div className="flex items-center gap-4">
+              <label className="text-sm font-semibold text-gray-700">Table:</label>
+              <select
+                value={table}
+                onChange={(e) => {
+                  setTable(e.target.value);
+                  setVersion('');
+                  setColumn('');
+                }}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">Select a reference table…</option>
+                {tables.map(t => (
+                  <option key={t.id} value={t.name}>
+                    {t.name} ({t.row_count ?? 0} rows)
+                  </option>
+                ))}
+              </select>
+              <label className="text-sm font-semibold text-gray-700">Version:</label>
+              <select
+                value={version}
+                onChange={(e) => setVersion(e.target.value)}
+                disabled={!table}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+              >
+                <option value="">Current</option>
+                {versions.map(v => (
+                  <option key={v.id} value={v.version}>v{v.version}</option>
+                ))}
+              </select>
+            </div>
+            {tables.length === 0 && (
+              <p className="text-xs text-orange-600">No reference tables yet. Upload one under Reference Tables.</p>
+            )}
+            {table && !version && (
+              <p className="text-xs text-gray-500">Every upload of a new version changes what this node returns immediately.</p>
+            )}
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-1">
+                Key{selected?.key_column ? ` (matched against ${selected.key_column})` : ''}
+              </label>
+              <VariableAutocomplete value={keyExpression} onChange={setKeyExpression} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-1">Return</label>
+                <select
+                  value={column}
+                  onChange={(e) => setColumn(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">Whole row</option>
+                  {columns.map(c => (
+                    <option key={c.name} value={c.name}>{c.name} ({c.type})</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-1">Store in variable</label>
+                <input
+                  type="text"
+                  value={outputVariable}
+                  onChange={(e) => setOutputVariable(e.target.value)}
+                  placeholder="e.g. pincode_tier"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-1">When no row matches</label>
+              <input
+                type="text"
+                value={defaultValue}
+                onChange={(e) => setDefaultValue(e.target.value)}
+                placeholder="leave empty for null (missing-data rules apply downstream)"
+                className={inputClass}
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          {/* Footer */}
+          <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex items-center justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Save & Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
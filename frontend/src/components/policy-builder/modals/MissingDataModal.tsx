@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { MissingDataRule, MissingDataSettings } from '../../../stores/policyBuilderStore';
+import { MissingDataRuleEditor } from './MissingDataRuleEditor';
+import { VariableAutocomplete } from './VariableAutocomplete';
+
+interface MissingDataModalProps {
+  isOpen: boolean;
+  settings: MissingDataSettings;
+  onClose: () => void;
+  onSave: (settings: MissingDataSettings) => void;
+}
+
+interface VariableRuleRow {
+  id: string;
+  variable: string;
+  rule?: MissingDataRule;
+}
+
+let rowIdCounter = 1;
+
+const isIncomplete = (rule?: MissingDataRule) =>
+  (rule?.action === 'default' && (rule.value === undefined || rule.value === ''))
+  || (rule?.action === 'impute' && !rule.expression?.trim());
+
+export const MissingDataModal: React.FC<MissingDataModalProps> = ({
+  isOpen,
+  settings,
+  onClose,
+  onSave,
+}) => {
+  const [defaultRule, setDefaultRule] = useState<MissingDataRule | undefined>(settings.default);
+  const [rows, setRows] = useState<VariableRuleRow[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setDefaultRule(settings.default);
+    setRows(Object.entries(settings.variables || {}).map(([variable, rule]) => ({
+      id: `row-${rowIdCounter++}`,
+      variable,
+      rule,
+    })));
+    setError('');
+  }, [settings, isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateRow = (id: string, updates: Partial<VariableRuleRow>) => {
+    setRows(rows.map(r => (r.id === id ? { ...r, ...updates } : r)));
+  };
+
+  const handleSave = () => {
+    const filled = rows.filter(r => r.variable.trim() && r.rule);
+    const variables = filled.map(r => r.variable.trim());
+
+    if (variables.some((v, index) => variables.indexOf(v) !== index)) {
+      setError('Each variable can only have one rule');
+      return;
+    }
+    if (isIncomplete(defaultRule) || filled.some(r => isIncomplete(r.rule))) {
+      setError('Rules need a default value or an impute expression');
+      return;
+    }
+
+    onSave({
+      ...(defaultRule ? { default: defaultRule } : {}),
+      ...(filled.length > 0
+        ? { variables: Object.fromEntries(filled.map(r => [r.variable.trim(), r.rule as MissingDataRule])) }
+        : {}),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="relative bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[85vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">Missing Data</h2>
+              <p className="text-xs text-gray-500">
+                What conditions and score factors do when a variable has no value. Rules set on a condition take precedence.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-6">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Policy default</label>
+              <MissingDataRuleEditor
+                rule={defaultRule}
+                onChange={setDefaultRule}
+                inheritLabel="Fail (engine default)"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Per-variable rules</label>
+              <div className="space-y-2">
+                {rows.length === 0 && (
+                  <div className="text-sm text-gray-500 py-3 text-center border border-dashed border-gray-300 rounded-md">
+                    Every variable uses the policy default
+                  </div>
+                )}
+                {rows.map(row => (
+                  <div key={row.id} className="flex items-center gap-3">
+                    <div className="w-64">
+                      <VariableAutocomplete
+                        value={row.variable}
+                        onChange={(variable) => updateRow(row.id, { variable })}
+                      />
+                    </div>
+                    <MissingDataRuleEditor
+                      rule={row.rule}
+                      onChange={(rule) => updateRow(row.id, { rule })}
+                      inheritLabel="Policy default"
+                    />
+                    <button
+                      onClick={() => setRows(rows.filter(r => r.id !== row.id))}
+                      className="ml-auto p-1 text-red-500 hover:bg-red-50 rounded"
+                      title="Remove rule"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setRows([...rows, { id: `row-${rowIdCounter++}`, variable: '', rule: { action: 'manual_review' } }])}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  Add Variable Rule
+                </button>
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          {/* Footer */}
+          <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex items-center justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Save & Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { MissingDataAction, MissingDataRule } from '../../../stores/policyBuilderStore';
+
+interface MissingDataRuleEditorProps {
+  rule?: MissingDataRule;
+  onChange: (rule: MissingDataRule | undefined) => void;
+  inheritLabel: string; // option shown when no rule is set, e.g. "Policy default"
+  disabled?: boolean;
+}
+
+const ACTIONS: { value: MissingDataAction; label: string }[] = [
+  { value: 'fail', label: 'Fail' },
+  { value: 'pass', label: 'Pass' },
+  { value: 'manual_review', label: 'Manual review' },
+  { value: 'default', label: 'Use default value' },
+  { value: 'impute', label: 'Impute (expression)' },
+];
+
+export const MissingDataRuleEditor: React.FC<MissingDataRuleEditorProps> = ({
+  rule,
+  onChange,
+  inheritLabel,
+  disabled,
+}) => {
+  const handleActionChange = (action: string) => {
+    if (!action) {
+      onChange(undefined);
+      return;
+    }
+    onChange({ action: action as MissingDataAction, value: rule?.value, expression: rule?.expression });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={rule?.action || ''}
+        onChange={(e) => handleActionChange(e.target.value)}
+        disabled={disabled}
+        className="px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-100 disabled:cursor-not-allowed"
+      >
+        <option value="">{inheritLabel}</option>
+        {ACTIONS.map(a => (
+          <option key={a.value} value={a.value}>{a.label}</option>
+        ))}
+      </select>
+
+      {rule?.action === 'default' && (
+        <input
+          type="text"
+          value={rule.value ?? ''}
+          onChange={(e) => onChange({ ...rule, value: e.target.value })}
+          placeholder="Value"
+          className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm"
+        />
+      )}
+
+      {rule?.action === 'impute' && (
+        <input
+          type="text"
+          value={rule.expression ?? ''}
+          onChange={(e) => onChange({ ...rule, expression: e.target.value })}
+          placeholder="e.g. monthly_income * 12"
+          className="w-48 px-2 py-1 border border-gray-300 rounded-md text-sm font-mono"
+        />
+      )}
+    </div>
+  );
+};
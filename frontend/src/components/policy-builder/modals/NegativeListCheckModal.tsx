@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { NegativeListCheck, NegativeListCheckConfig } from '../../../stores/policyBuilderStore';
+import { negativeListApi, NegativeList } from '../../../services/negativeListApi';
+import { VariableAutocomplete } from './VariableAutocomplete';
+
+interface NegativeListCheckModalProps {
+  isOpen: boolean;
+  nodeName: string;
+  config: NegativeListCheckConfig;
+  onClose: () => void;
+  onSave: (nodeName: string, config: NegativeListCheckConfig) => void;
+}
+
+// Standard application fields usually checked against each list type
+const SUGGESTED_VALUES: Record<string, string> = {
+  pan: 'pan',
+  mobile: 'mobile',
+  email: 'email',
+  device_id: 'device_id',
+  bank_account: 'bank_account_number',
+  employer: 'company_name',
+  pincode: 'pincode',
+};
+
+export const NegativeListCheckModal: React.FC<NegativeListCheckModalProps> = ({
+  isOpen,
+  nodeName,
+  config,
+  onClose,
+  onSave,
+}) => {
+  const [tempName, setTempName] = useState(nodeName);
+  const [checks, setChecks] = useState<NegativeListCheck[]>(config.checks || []);
+  const [outputVariable, setOutputVariable] = useState(config.output_variable || '');
+  const [lists, setLists] = useState<NegativeList[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setTempName(nodeName);
+    setChecks(config.checks || []);
+    setOutputVariable(config.output_variable || '');
+    setError('');
+  }, [config, nodeName, isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    negativeListApi.getLists()
+      .then(setLists)
+      .catch(err => console.warn('Failed to load negative lists:', err));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateCheck = (index: number, updates: Partial<NegativeListCheck>) => {
+    setChecks(checks.map((check, i) => (i === index ? { ...check, ...updates } : check)));
+  };
+
+  const selectList = (index: number, name: string) => {
+    const list = lists.find(l => l.name === name);
+    const check = checks[index];
+    updateCheck(index, {
+      list: name,
+      value: check.value || (list ? SUGGESTED_VALUES[list.list_type] || '' : ''),
+    });
+  };
+
+  const handleSave = () => {
+    if (checks.length === 0 || checks.some(c => !c.list || !c.value.trim())) {
+      setError('Every check needs a list and a value');
+      return;
+    }
+
+    onSave(tempName, {
+      checks: checks.map(check => ({ list: check.list, value: check.value.trim() })),
+      ...(outputVariable.trim() ? { output_variable: outputVariable.trim() } : {}),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[85vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+            <input
+              type="text"
+              value={tempName}
+              onChange={(e) => setTempName(e.target.value)}
+              className="text-lg font-bold text-gray-900 bg-transparent border-b-2 border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none px-2"
+              maxLength={50}
+            />
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-5">
+            <p className="text-sm text-gray-600">
+              Checks values against negative lists. A hit on a reject list leaves through <b>reject</b>, a hit
+              on a manual-review list through <b>review</b>, and no hit through <b>clear</b>.
+            </p>
+
+            <div className="space-y-3">
+              {checks.map((check, index) => {
+                const list = lists.find(l => l.name === check.list);
+                return (
+                  <div key={index} className="border border-gray-200 rounded-md p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={check.list}
+                        onChange={(e) => selectList(index, e.target.value)}
+                        className="flex-1 px-2 py-1 text-sm font-mono border border-gray-300 rounded-md"
+                      >
+                        <option value="">— select a list —</option>
+                        {lists.map(l => (
+                          <option key={l.id} value={l.name}>{l.name}</option>
+                        ))}
+                        {check.list && !list && <option value={check.list}>{check.list} (missing)</option>}
+                      </select>
+                      {list && (
+                        <span className={`text-xs px-2 py-0.5 rounded ${list.action === 'reject' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'}`}>
+                          {list.action === 'reject' ? 'Reject' : 'Manual review'}
+                        </span>
+                      )}
+                      <button
+                        onClick={() => setChecks(checks.filter((_, i) => i !== index))}
+                        className="p-1 text-red-500 hover:bg-red-50 rounded"
+                        title="Remove check"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <label className="block text-xs text-gray-500">
+                      Value (expression; each element of a list is checked)
+                      <VariableAutocomplete value={check.value} onChange={(value) => updateCheck(index, { value })} />
+                    </label>
+                  </div>
+                );
+              })}
+
+              <button
+                onClick={() => setChecks([...checks, { list: '', value: '' }])}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+              >
+                <PlusIcon className="w-4 h-4" />
+                Add Check
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-1">Store result in variable (optional)</label>
+              <input
+                type="text"
+                value={outputVariable}
+                onChange={(e) => setOutputVariable(e.target.value)}
+                placeholder="e.g. negative_lists"
+                className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Holds the outcome and the matched entries; hits are always kept in the trace.
+              </p>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          {/* Footer */}
+          <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex items-center justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Save & Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,373 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon, PlusIcon, TrashIcon, CheckIcon, NoSymbolIcon } from '@heroicons/react/24/outline';
+import { policyApi, ParameterSet, ParameterType, PolicyParameter } from '../../../services/policyApi';
+import { useAuth } from '../../../contexts/AuthContext';
+
+interface ParametersModalProps {
+  isOpen: boolean;
+  policyId: string | null;
+  onClose: () => void;
+  onEffectiveChange: (values: Record<string, any>) => void; // approved values, for test runs
+}
+
+interface ParameterRow {
+  id: string;
+  name: string;
+  type: ParameterType;
+  value: string; // edited as text, converted on submit
+  description: string;
+}
+
+const TYPES: ParameterType[] = ['number', 'integer', 'string', 'boolean', 'list'];
+
+let rowIdCounter = 1;
+
+const toRow = (parameter: PolicyParameter): ParameterRow => ({
+  id: `param-${rowIdCounter++}`,
+  name: parameter.name,
+  type: parameter.type,
+  value: parameter.type === 'list' ? (parameter.value || []).join(', ') : String(parameter.value ?? ''),
+  description: parameter.description || '',
+});
+
+const parseValue = (row: ParameterRow): any => {
+  switch (row.type) {
+    case 'number':
+    case 'integer':
+      return row.value.trim() === '' ? NaN : Number(row.value);
+    case 'boolean':
+      return row.value === 'true';
+    case 'list':
+      return row.value.split(',').map(v => v.trim()).filter(Boolean)
+        .map(v => (v !== '' && !isNaN(Number(v)) ? Number(v) : v));
+    default:
+      return row.value;
+  }
+};
+
+export const valuesOf = (set: ParameterSet | null): Record<string, any> =>
+  Object.fromEntries((set?.parameters || []).map(p => [p.name, p.value]));
+
+const formatValue = (value: any) => (Array.isArray(value) ? value.join(', ') : String(value));
+
+/**
+ * What a proposed set changes relative to the effective one
+ */
+const describeChanges = (proposed: PolicyParameter[], effective: ParameterSet | null): string[] => {
+  const before = valuesOf(effective);
+  const after = Object.fromEntries(proposed.map(p => [p.name, p.value]));
+  const changes: string[] = [];
+  proposed.forEach(p => {
+    if (!(p.name in before)) changes.push(`+ ${p.name} = ${formatValue(p.value)}`);
+    else if (JSON.stringify(before[p.name]) !== JSON.stringify(p.value)) {
+      changes.push(`${p.name}: ${formatValue(before[p.name])} → ${formatValue(p.value)}`);
+    }
+  });
+  Object.keys(before).filter(name => !(name in after)).forEach(name => changes.push(`− ${name}`));
+  return changes;
+};
+
+export const ParametersModal: React.FC<ParametersModalProps> = ({
+  isOpen,
+  policyId,
+  onClose,
+  onEffectiveChange,
+}) => {
+  const { user } = useAuth();
+  const [effective, setEffective] = useState<ParameterSet | null>(null);
+  const [history, setHistory] = useState<ParameterSet[]>([]);
+  const [rows, setRows] = useState<ParameterRow[]>([]);
+  const [changeNotes, setChangeNotes] = useState('');
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const load = async () => {
+    if (!policyId) return;
+    const data = await policyApi.getParameters(policyId);
+    setEffective(data.effective);
+    setHistory(data.history);
+    setRows((data.effective?.parameters || []).map(toRow));
+    onEffectiveChange(valuesOf(data.effective));
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setChangeNotes('');
+    setError('');
+    load().catch((e: any) => setError(e.message));
+  }, [isOpen, policyId]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<any>) => {
+    setIsBusy(true);
+    setError('');
+    try {
+      await action();
+      await load();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const updateRow = (id: string, updates: Partial<ParameterRow>) => {
+    setRows(rows.map(r => (r.id === id ? { ...r, ...updates } : r)));
+  };
+
+  const handleSubmit = () => run(async () => {
+    const parameters: PolicyParameter[] = rows
+      .filter(r => r.name.trim())
+      .map(r => ({
+        name: r.name.trim(),
+        type: r.type,
+        value: parseValue(r),
+        ...(r.description.trim() ? { description: r.description.trim() } : {}),
+      }));
+    await policyApi.proposeParameters(policyId!, parameters, changeNotes);
+    setChangeNotes('');
+  });
+
+  const pending = history.filter(set => set.status === 'pending');
+  const past = history.filter(set => set.status !== 'pending');
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="relative bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[85vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">Parameters</h2>
+              <p className="text-xs text-gray-500">
+                Thresholds referenced as <span className="font-mono">params.name</span> in formulas, conditions and
+                strategy values. Changes take effect when another user approves them; the workflow is not republished.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-6">
+            {!policyId ? (
+              <p className="text-sm text-gray-500">Save the policy before declaring parameters.</p>
+            ) : (
+              <>
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-semibold text-gray-700">Parameter set</label>
+                    <span className="text-xs text-gray-500">
+                      {effective
+                        ? `Version ${effective.version} in effect, approved by ${effective.reviewed_by_name || 'another user'}`
+                        : 'No approved parameters yet'}
+                    </span>
+                  </div>
+                  <div className="space-y-2">
+                    {rows.length === 0 && (
+                      <div className="text-sm text-gray-500 py-3 text-center border border-dashed border-gray-300 rounded-md">
+                        No parameters declared
+                      </div>
+                    )}
+                    {rows.map(row => (
+                      <div key={row.id} className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={row.name}
+                          onChange={(e) => updateRow(row.id, { name: e.target.value })}
+                          placeholder="min_score"
+                          className="w-40 px-2 py-1.5 text-sm font-mono border border-gray-300 rounded-md"
+                        />
+                        <select
+                          value={row.type}
+                          onChange={(e) => updateRow(row.id, {
+                            type: e.target.value as ParameterType,
+                            value: e.target.value === 'boolean' ? 'true' : row.value,
+                          })}
+                          className="px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+                        >
+                          {TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                        {row.type === 'boolean' ? (
+                          <select
+                            value={row.value}
+                            onChange={(e) => updateRow(row.id, { value: e.target.value })}
+                            className="w-40 px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+                          >
+                            <option value="true">true</option>
+                            <option value="false">false</option>
+                          </select>
+                        ) : (
+                          <input
+                            type="text"
+                            value={row.value}
+                            onChange={(e) => updateRow(row.id, { value: e.target.value })}
+                            placeholder={row.type === 'list' ? 'Mumbai, Delhi' : '700'}
+                            className="w-40 px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+                          />
+                        )}
+                        <input
+                          type="text"
+                          value={row.description}
+                          onChange={(e) => updateRow(row.id, { description: e.target.value })}
+                          placeholder="Description"
+                          className="flex-1 px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+                        />
+                        <button
+                          onClick={() => setRows(rows.filter(r => r.id !== row.id))}
+                          className="p-1 text-red-500 hover:bg-red-50 rounded"
+                          title="Remove parameter"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => setRows([...rows, { id: `param-${rowIdCounter++}`, name: '', type: 'number', value: '', description: '' }])}
+                      className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      <PlusIcon className="w-4 h-4" />
+                      Add Parameter
+                    </button>
+                  </div>
+
+                  <div className="flex items-end gap-3 mt-4">
+                    <textarea
+                      value={changeNotes}
+                      onChange={(e) => setChangeNotes(e.target.value)}
+                      placeholder="Why the change (e.g. raise minimum score after Q3 loss review)"
+                      rows={2}
+                      className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md"
+                    />
+                    <button
+                      onClick={handleSubmit}
+                      disabled={isBusy}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+                    >
+                      Submit for Approval
+                    </button>
+                  </div>
+                </div>
+
+                {/* Pending changes */}
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Pending approval ({pending.length})
+                  </label>
+                  {pending.length === 0 && <p className="text-sm text-gray-500">Nothing waiting for review</p>}
+                  <div className="space-y-3">
+                    {pending.map(set => {
+                      const own = set.proposed_by === user?.id;
+                      const changes = describeChanges(set.parameters, effective);
+                      return (
+                        <div key={set.id} className="border border-yellow-200 bg-yellow-50 rounded-md p-3 text-sm">
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium text-gray-900">
+                              Proposed by {set.proposed_by_name || 'unknown'} on {new Date(set.proposed_at).toLocaleString()}
+                            </span>
+                            <span className="text-xs text-gray-500">against version {set.base_version}</span>
+                          </div>
+                          {set.change_notes && <p className="text-gray-700 mt-1">{set.change_notes}</p>}
+                          <ul className="mt-2 font-mono text-xs text-gray-800 space-y-0.5">
+                            {changes.length === 0 && <li>No value changes</li>}
+                            {changes.map(change => <li key={change}>{change}</li>)}
+                          </ul>
+                          <div className="flex items-center gap-2 mt-3">
+                            {own ? (
+                              <button
+                                onClick={() => run(() => policyApi.withdrawParameters(policyId, set.id))}
+                                disabled={isBusy}
+                                className="px-3 py-1 text-xs border border-gray-300 rounded-md hover:bg-white disabled:opacity-50"
+                              >
+                                Withdraw
+                              </button>
+                            ) : (
+                              <>
+                                <input
+                                  type="text"
+                                  value={reviewNotes[set.id] || ''}
+                                  onChange={(e) => setReviewNotes({ ...reviewNotes, [set.id]: e.target.value })}
+                                  placeholder="Review notes"
+                                  className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded-md"
+                                />
+                                <button
+                                  onClick={() => run(() => policyApi.reviewParameters(policyId, set.id, 'approve', reviewNotes[set.id]))}
+                                  disabled={isBusy}
+                                  className="flex items-center gap-1 px-3 py-1 text-xs bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                                >
+                                  <CheckIcon className="w-3.5 h-3.5" />
+                                  Approve
+                                </button>
+                                <button
+                                  onClick={() => run(() => policyApi.reviewParameters(policyId, set.id, 'reject', reviewNotes[set.id]))}
+                                  disabled={isBusy}
+                                  className="flex items-center gap-1 px-3 py-1 text-xs bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                                >
+                                  <NoSymbolIcon className="w-3.5 h-3.5" />
+                                  Reject
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {/* History */}
+                {past.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">History</label>
+                    <ol className="text-xs space-y-1">
+                      {past.map(set => (
+                        <li key={set.id} className="flex items-start justify-between gap-3">
+                          <span className="text-gray-800">
+                            {set.status === 'approved' ? `Version ${set.version}` : set.status}
+                            {' — '}{set.change_notes || 'no notes'}
+                            <span className="text-gray-500">
+                              {' '}(by {set.proposed_by_name || 'unknown'}
+                              {set.reviewed_by_name ? `, reviewed by ${set.reviewed_by_name}` : ''})
+                            </span>
+                          </span>
+                          <span className="text-gray-400 whitespace-nowrap">
+                            {new Date(set.reviewed_at || set.proposed_at).toLocaleDateString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+              </>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          {/* Footer */}
+          <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex items-center justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,347 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { policyApi, PolicyShadow, ShadowComparison, ShadowExecution } from '../../../services/policyApi';
+
+interface ShadowPoliciesModalProps {
+  isOpen: boolean;
+  policyId: string | null;
+  onClose: () => void;
+}
+
+const DECISIONS = ['approved', 'rejected', 'manual_review'];
+
+const DECISION_LABELS: Record<string, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  manual_review: 'Manual review',
+  error: 'Error',
+};
+
+const labelOf = (decision: string) => DECISION_LABELS[decision] || decision;
+
+export const ShadowPoliciesModal: React.FC<ShadowPoliciesModalProps> = ({
+  isOpen,
+  policyId,
+  onClose,
+}) => {
+  const [shadows, setShadows] = useState<PolicyShadow[]>([]);
+  const [candidates, setCandidates] = useState<{ id: string; name: string; status: string }[]>([]);
+  const [newShadowId, setNewShadowId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [comparison, setComparison] = useState<ShadowComparison | null>(null);
+  const [execution, setExecution] = useState<ShadowExecution | null>(null);
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const load = async () => {
+    if (!policyId) return;
+    setShadows(await policyApi.getShadows(policyId));
+  };
+
+  useEffect(() => {
+    if (!isOpen || !policyId) return;
+    setError('');
+    setSelected(null);
+    setComparison(null);
+    setExecution(null);
+    load().catch((e: any) => setError(e.message));
+    policyApi.getAllPolicies()
+      .then(all => setCandidates(all.filter(p => p.id !== policyId && !p.is_fragment)))
+      .catch(err => console.warn('Failed to load policies:', err));
+  }, [isOpen, policyId]);
+
+  useEffect(() => {
+    if (!isOpen || !policyId || !selected) return;
+    setExecution(null);
+    policyApi.getShadowComparison(policyId, selected, range)
+      .then(setComparison)
+      .catch((e: any) => setError(e.message));
+  }, [isOpen, policyId, selected, range.from, range.to]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<any>) => {
+    setIsBusy(true);
+    setError('');
+    try {
+      await action();
+      await load();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = (shadowPolicyId: string) => run(async () => {
+    await policyApi.startShadow(policyId!, shadowPolicyId, notes);
+    setNewShadowId('');
+    setNotes('');
+  });
+
+  const handleStop = (shadow: PolicyShadow) => {
+    if (!confirm(`Stop running "${shadow.shadow_policy_name}" in shadow mode? Its results are kept.`)) return;
+    run(() => policyApi.stopShadow(policyId!, shadow.shadow_policy_id));
+  };
+
+  const openExecution = (executionId: string) => {
+    policyApi.getShadowExecution(policyId!, executionId)
+      .then(setExecution)
+      .catch((e: any) => setError(e.message));
+  };
+
+  const cell = (champion: string, shadow: string) =>
+    comparison?.matrix.find(m => m.champion_decision === champion && m.shadow_decision === shadow)?.count || 0;
+
+  const attached = new Set(shadows.filter(s => s.is_active).map(s => s.shadow_policy_id));
+  const selectedShadow = shadows.find(s => s.shadow_policy_id === selected);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="relative bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[85vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+            <h2 className="text-lg font-bold text-gray-900">Shadow Policies</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-5">
+            <p className="text-sm text-gray-600">
+              Shadow policies run on every live request of this policy, on the same input and connector
+              responses, after the response has been sent. Their decisions are only recorded for comparison:
+              they are never returned, queued for manual review or sent as webhooks.
+            </p>
+
+            {/* Start a shadow */}
+            <div className="flex items-end gap-2">
+              <label className="flex-1 block text-sm">
+                <span className="text-gray-700">Challenger policy</span>
+                <select
+                  value={newShadowId}
+                  onChange={(e) => setNewShadowId(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">— select a policy —</option>
+                  {candidates.filter(p => !attached.has(p.id)).map(p => (
+                    <option key={p.id} value={p.id}>{p.name} ({p.status})</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex-1 block text-sm">
+                <span className="text-gray-700">Notes</span>
+                <input
+                  type="text"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="What this trial checks"
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </label>
+              <button
+                onClick={() => handleStart(newShadowId)}
+                disabled={!newShadowId || isBusy}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Start Shadow
+              </button>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {/* Shadows */}
+            {shadows.length === 0 ? (
+              <p className="text-sm text-gray-500">No shadow policies yet</p>
+            ) : (
+              <table className="min-w-full text-sm border border-gray-200">
+                <thead className="bg-gray-50 text-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Policy</th>
+                    <th className="px-3 py-2 text-left">State</th>
+                    <th className="px-3 py-2 text-right">Runs</th>
+                    <th className="px-3 py-2 text-right">Disagreements</th>
+                    <th className="px-3 py-2 text-left">Last run</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {shadows.map(shadow => (
+                    <tr key={shadow.id} className={selected === shadow.shadow_policy_id ? 'bg-blue-50' : ''}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{shadow.shadow_policy_name}</div>
+                        {shadow.notes && <div className="text-xs text-gray-500">{shadow.notes}</div>}
+                      </td>
+                      <td className="px-3 py-2">
+                        {shadow.is_active ? (
+                          <span className="text-xs px-2 py-0.5 rounded bg-green-100 text-green-800">Running</span>
+                        ) : (
+                          <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700">Stopped</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right">{shadow.executions}</td>
+                      <td className="px-3 py-2 text-right">{shadow.disagreements}</td>
+                      <td className="px-3 py-2 text-xs text-gray-500">
+                        {shadow.last_run_at ? new Date(shadow.last_run_at).toLocaleString() : '—'}
+                      </td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap space-x-3">
+                        <button
+                          onClick={() => setSelected(shadow.shadow_policy_id)}
+                          className="text-blue-600 hover:underline"
+                        >
+                          Compare
+                        </button>
+                        {shadow.is_active ? (
+                          <button onClick={() => handleStop(shadow)} disabled={isBusy} className="text-red-600 hover:underline">
+                            Stop
+                          </button>
+                        ) : (
+                          <button onClick={() => handleStart(shadow.shadow_policy_id)} disabled={isBusy} className="text-green-700 hover:underline">
+                            Restart
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {/* Comparison report */}
+            {selectedShadow && comparison && (
+              <div className="border-t border-gray-200 pt-5 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-gray-700">
+                    Live policy vs. {selectedShadow.shadow_policy_name}
+                  </h3>
+                  <div className="flex items-center gap-2 text-xs text-gray-600">
+                    From
+                    <input
+                      type="date"
+                      value={range.from}
+                      onChange={(e) => setRange({ ...range, from: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    />
+                    to
+                    <input
+                      type="date"
+                      value={range.to}
+                      onChange={(e) => setRange({ ...range, to: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-4 gap-3 text-center">
+                  <div className="p-3 rounded bg-gray-50">
+                    <div className="text-xl font-bold text-gray-900">{comparison.total}</div>
+                    <div className="text-xs text-gray-500">runs ({comparison.errors} errors)</div>
+                  </div>
+                  <div className="p-3 rounded bg-gray-50">
+                    <div className="text-xl font-bold text-gray-900">{comparison.agreement_rate}%</div>
+                    <div className="text-xs text-gray-500">agreement ({comparison.disagreed} differ)</div>
+                  </div>
+                  <div className="p-3 rounded bg-gray-50">
+                    <div className="text-xl font-bold text-gray-900">{comparison.champion_approval_rate}%</div>
+                    <div className="text-xs text-gray-500">live approval rate</div>
+                  </div>
+                  <div className="p-3 rounded bg-gray-50">
+                    <div className="text-xl font-bold text-gray-900">{comparison.shadow_approval_rate}%</div>
+                    <div className="text-xs text-gray-500">shadow approval rate</div>
+                  </div>
+                </div>
+
+                {/* Decision matrix: live decisions down, shadow decisions across */}
+                <table className="min-w-full text-xs border border-gray-200">
+                  <thead className="bg-gray-50 text-gray-700">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Live ↓ / Shadow →</th>
+                      {[...DECISIONS, 'error'].map(d => (
+                        <th key={d} className="px-3 py-2 text-right">{labelOf(d)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {DECISIONS.map(champion => (
+                      <tr key={champion}>
+                        <td className="px-3 py-1.5 font-medium text-gray-700">{labelOf(champion)}</td>
+                        {[...DECISIONS, 'error'].map(shadow => (
+                          <td
+                            key={shadow}
+                            className={`px-3 py-1.5 text-right ${champion === shadow ? 'text-green-700 font-semibold' : cell(champion, shadow) ? 'text-red-700' : 'text-gray-400'}`}
+                          >
+                            {cell(champion, shadow)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {/* Recent disagreements */}
+                <div>
+                  <h4 className="text-xs font-semibold text-gray-700 mb-1">Recent disagreements</h4>
+                  {comparison.disagreements.length === 0 ? (
+                    <p className="text-xs text-gray-500">None</p>
+                  ) : (
+                    <ul className="text-xs divide-y divide-gray-100 border border-gray-200 rounded max-h-56 overflow-y-auto">
+                      {comparison.disagreements.map(d => (
+                        <li key={d.id}>
+                          <button
+                            onClick={() => openExecution(d.id)}
+                            className={`w-full text-left px-3 py-1.5 hover:bg-gray-50 ${execution?.id === d.id ? 'bg-blue-50' : ''}`}
+                          >
+                            <span className="font-mono">{d.application_id}</span>
+                            <span className="ml-2 text-gray-700">
+                              {labelOf(d.champion_decision)} → {labelOf(d.shadow_decision)}
+                            </span>
+                            <span className="ml-2 text-gray-400">{new Date(d.created_at).toLocaleString()}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {execution && (
+                  <div className="text-xs space-y-2">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="p-2 rounded bg-gray-50">
+                        <div className="font-semibold text-gray-700">Live: {labelOf(execution.champion_decision)}</div>
+                        <div className="text-gray-600">{execution.champion_reason}</div>
+                      </div>
+                      <div className="p-2 rounded bg-gray-50">
+                        <div className="font-semibold text-gray-700">Shadow: {labelOf(execution.shadow_decision)}</div>
+                        <div className="text-gray-600">{execution.shadow_reason}</div>
+                      </div>
+                    </div>
+                    <details>
+                      <summary className="cursor-pointer text-gray-600">Shadow trace ({(execution.execution_trace || []).length} nodes)</summary>
+                      <pre className="mt-1 p-2 bg-gray-900 text-gray-100 rounded overflow-x-auto max-h-64">
+                        {JSON.stringify(execution.execution_trace, null, 2)}
+                      </pre>
+                    </details>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,72 +1,70 @@
 import React, { useState, useEffect } from 'react';
-import { XMarkIcon, PlusIcon } from '@heroicons/react/24/outline';
-import { ConditionBuilder } from './ConditionBuilder';
-
-export interface Condition {
-  id: string;
-  variable: string;
-  operator: string;
-  value: string | number;
-  decision: 'Approved' | 'Manual Check';
-  logicalOperator?: 'AND' | 'OR';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { ConditionGroupBuilder } from './ConditionBuilder';
+import {
+  Condition,
+  ConditionGroup,
+  ConditionItem,
+  StrategyDefaultDecision,
+  isConditionGroup,
+} from '../../../stores/policyBuilderStore';
+
+export interface StrategyOptions {
+  defaultDecision: StrategyDefaultDecision;
+  weight: number;
 }
 
 interface StrategyConfigModalProps {
   isOpen: boolean;
   nodeName: string;
-  conditions: Condition[];
+  group: ConditionGroup;
+  options: StrategyOptions;
   onClose: () => void;
-  onSave: (nodeName: string, conditions: Condition[]) => void;
+  onSave: (nodeName: string, group: ConditionGroup, options: StrategyOptions) => void;
 }
 
+const collectLeaves = (items: ConditionItem[]): Condition[] =>
+  items.flatMap(item => (isConditionGroup(item) ? collectLeaves(item.conditions) : [item]));
+
+const hasEmptyGroup = (group: ConditionGroup): boolean =>
+  group.conditions.length === 0
+  || group.conditions.some(item => isConditionGroup(item) && hasEmptyGroup(item));
+
 export const StrategyConfigModal: React.FC<StrategyConfigModalProps> = ({
   isOpen,
   nodeName,
-  conditions: initialConditions,
+  group: initialGroup,
+  options: initialOptions,
   onClose,
   onSave,
 }) => {
-  const [conditions, setConditions] = useState<Condition[]>(initialConditions);
+  const [group, setGroup] = useState<ConditionGroup>(initialGroup);
+  const [options, setOptions] = useState<StrategyOptions>(initialOptions);
   const [editingName, setEditingName] = useState(false);
   const [tempName, setTempName] = useState(nodeName);
 
   useEffect(() => {
-    setConditions(initialConditions);
+    setGroup(initialGroup);
+    setOptions(initialOptions);
     setTempName(nodeName);
-  }, [initialConditions, nodeName, isOpen]);
+  }, [initialGroup, initialOptions, nodeName, isOpen]);
 
   if (!isOpen) return null;
 
-  const addCondition = () => {
-    const newCondition: Condition = {
-      id: `cond-${Date.now()}`,
-      variable: '',
-      operator: '>=',
-      value: '',
-      decision: 'Approved',
-      logicalOperator: 'AND',
-    };
-    setConditions([...conditions, newCondition]);
-  };
-
-  const updateCondition = (index: number, updates: Partial<Condition>) => {
-    const newConditions = [...conditions];
-    newConditions[index] = { ...newConditions[index], ...updates };
-    setConditions(newConditions);
-  };
-
-  const deleteCondition = (index: number) => {
-    const newConditions = conditions.filter((_, i) => i !== index);
-    setConditions(newConditions);
-  };
-
   const handleSave = () => {
-    // Validate: At least one condition required
+    const conditions = collectLeaves(group.conditions);
+
+    // Validate: At least one condition required, and no empty groups
     if (conditions.length === 0) {
       alert('Please add at least one condition');
       return;
     }
 
+    if (hasEmptyGroup(group)) {
+      alert('Please add a condition to every group or delete empty groups');
+      return;
+    }
+
     // Validate: All conditions must have required fields
     const invalidConditions = conditions.filter(
       (c) => !c.variable || !c.operator || (c.value === '' && c.operator !== 'IS_NULL' && c.operator !== 'IS_NOT_NULL')
@@ -77,8 +75,23 @@ export const StrategyConfigModal: React.FC<StrategyConfigModalProps> = ({
       return;
     }
 
+    const incompleteMissingData = conditions.filter(
+      (c) => (c.missingData?.action === 'default' && (c.missingData.value === undefined || c.missingData.value === ''))
+        || (c.missingData?.action === 'impute' && !c.missingData.expression?.trim())
+    );
+
+    if (incompleteMissingData.length > 0) {
+      alert('Missing-data rules need a default value or an impute expression');
+      return;
+    }
+
+    if (!(options.weight > 0)) {
+      alert('Weight must be a positive number');
+      return;
+    }
+
     // Save with node name
-    onSave(tempName, conditions);
+    onSave(tempName, group, options);
   };
 
   return (
@@ -130,56 +143,39 @@ export const StrategyConfigModal: React.FC<StrategyConfigModalProps> = ({
             <div>
               <h3 className="text-sm font-semibold text-gray-700 mb-4">Conditions:</h3>
 
-              {/* Conditions List */}
-              <div className="space-y-4">
-                {conditions.map((condition, index) => (
-                  <div key={condition.id} className="space-y-3">
-                    {/* Condition Builder */}
-                    <ConditionBuilder
-                      condition={condition}
-                      onChange={(updates) => updateCondition(index, updates)}
-                      onDelete={() => deleteCondition(index)}
-                    />
-
-                    {/* AND/OR selector (if not last condition) */}
-                    {index < conditions.length - 1 && (
-                      <div className="flex items-center gap-4 ml-4">
-                        <label className="flex items-center gap-2 cursor-pointer">
-                          <input
-                            type="radio"
-                            name={`logic-${index}`}
-                            checked={condition.logicalOperator === 'AND'}
-                            onChange={() => updateCondition(index, { logicalOperator: 'AND' })}
-                            className="w-4 h-4 text-blue-600"
-                          />
-                          <span className="text-sm font-medium text-gray-700">AND</span>
-                        </label>
-                        <label className="flex items-center gap-2 cursor-pointer">
-                          <input
-                            type="radio"
-                            name={`logic-${index}`}
-                            checked={condition.logicalOperator === 'OR'}
-                            onChange={() => updateCondition(index, { logicalOperator: 'OR' })}
-                            className="w-4 h-4 text-blue-600"
-                          />
-                          <span className="text-sm font-medium text-gray-700">OR</span>
-                        </label>
-                      </div>
-                    )}
-                  </div>
-                ))}
-              </div>
+              {/* Condition tree: groups nest with explicit AND/OR */}
+              <ConditionGroupBuilder group={group} onChange={setGroup} />
+            </div>
 
-              {/* Add Condition Button */}
-              <button
-                onClick={addCondition}
-                className="mt-4 w-full px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg
-                         text-blue-600 hover:border-blue-400 hover:bg-blue-50 transition-all
-                         flex items-center justify-center gap-2"
-              >
-                <PlusIcon className="w-5 h-5" />
-                <span className="font-medium">Add Condition</span>
-              </button>
+            {/* Fallthrough decision and weight */}
+            <div className="border-t border-gray-200 pt-6 grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  If conditions are not met:
+                </label>
+                <select
+                  value={options.defaultDecision}
+                  onChange={(e) => setOptions({ ...options, defaultDecision: e.target.value as StrategyDefaultDecision })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="Rejected">Reject</option>
+                  <option value="Manual Check">Manual Check</option>
+                  <option value="Approved">Approve</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Weight (weighted voting):
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={options.weight}
+                  onChange={(e) => setOptions({ ...options, weight: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
             </div>
 
             {/* Decision Logic Info */}
@@ -189,7 +185,7 @@ export const StrategyConfigModal: React.FC<StrategyConfigModalProps> = ({
                   Decision Logic:
                 </h4>
                 <ul className="text-sm text-blue-800 space-y-1">
-                  <li>• If ALL conditions FAIL → Block outputs <span className="font-semibold text-red-600">REJECT</span></li>
+                  <li>• If a condition FAILS → Block outputs the decision chosen above (<span className="font-semibold text-red-600">REJECT</span> by default)</li>
                   <li>• If any condition PASSES with "Manual Check" → Block outputs <span className="font-semibold text-yellow-600">MANUAL CHECK</span></li>
                   <li>• If all passing conditions are "Approved" → Block outputs <span className="font-semibold text-green-600">APPROVED</span></li>
                 </ul>
@@ -0,0 +1,340 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { SubPolicyConfig, SchemaVariable, getSchemaVariables } from '../../../stores/policyBuilderStore';
+import { policyApi, PolicyVersionSummary } from '../../../services/policyApi';
+import { VariableAutocomplete } from './VariableAutocomplete';
+
+interface SubPolicyConfigModalProps {
+  isOpen: boolean;
+  nodeName: string;
+  config: SubPolicyConfig;
+  currentPolicyId: string | null;
+  onClose: () => void;
+  onSave: (nodeName: string, config: SubPolicyConfig, subPolicyName: string) => void;
+}
+
+interface PolicyOption {
+  id: string;
+  name: string;
+  is_fragment?: boolean;
+}
+
+interface MappingRow {
+  id: string;
+  target: string;
+  source: string;
+}
+
+let rowIdCounter = 1;
+
+const toRows = (mapping: Record<string, string> = {}): MappingRow[] =>
+  Object.entries(mapping).map(([target, source]) => ({ id: `map-${rowIdCounter++}`, target, source }));
+
+const toMapping = (rows: MappingRow[]): Record<string, string> =>
+  Object.fromEntries(rows.filter(r => r.target.trim() && r.source.trim()).map(r => [r.target.trim(), r.source.trim()]));
+
+export const SubPolicyConfigModal: React.FC<SubPolicyConfigModalProps> = ({
+  isOpen,
+  nodeName,
+  config,
+  currentPolicyId,
+  onClose,
+  onSave,
+}) => {
+  const [tempName, setTempName] = useState(nodeName);
+  const [policyId, setPolicyId] = useState(config.policy_id);
+  const [version, setVersion] = useState(config.version);
+  const [inputRows, setInputRows] = useState<MappingRow[]>([]);
+  const [outputRows, setOutputRows] = useState<MappingRow[]>([]);
+  const [resultVariable, setResultVariable] = useState(config.result_variable || '');
+  const [countDecision, setCountDecision] = useState(config.count_decision !== false);
+  const [policies, setPolicies] = useState<PolicyOption[]>([]);
+  const [versions, setVersions] = useState<PolicyVersionSummary[]>([]);
+  const [childVariables, setChildVariables] = useState<SchemaVariable[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setTempName(nodeName);
+    setPolicyId(config.policy_id);
+    setVersion(config.version);
+    setInputRows(toRows(config.input_mapping));
+    setOutputRows(toRows(config.output_mapping));
+    setResultVariable(config.result_variable || '');
+    setCountDecision(config.count_decision !== false);
+    setError('');
+  }, [config, nodeName, isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    policyApi.getAllPolicies()
+      .then(all => setPolicies(all.filter(p => p.id !== currentPolicyId)))
+      .catch(err => console.warn('Failed to load policies:', err));
+  }, [isOpen, currentPolicyId]);
+
+  // Versions and input fields of the selected policy
+  useEffect(() => {
+    if (!isOpen || !policyId) {
+      setVersions([]);
+      setChildVariables([]);
+      return;
+    }
+    policyApi.getPolicyById(policyId)
+      .then(policy => {
+        setVersions(policy.versions || []);
+        setChildVariables(getSchemaVariables(policy.workflow_json?.input_schema || null)
+          .filter(v => !v.name.includes('.')));
+      })
+      .catch(err => console.warn('Failed to load policy versions:', err));
+  }, [isOpen, policyId]);
+
+  if (!isOpen) return null;
+
+  const handlePolicyChange = (id: string) => {
+    setPolicyId(id);
+    setVersion('');
+  };
+
+  // Add a row for every required input of the called policy not mapped yet
+  const addRequiredInputs = () => {
+    const mapped = new Set(inputRows.map(r => r.target.trim()));
+    const missing = childVariables.filter(v => v.required && !mapped.has(v.name));
+    setInputRows([
+      ...inputRows,
+      ...missing.map(v => ({ id: `map-${rowIdCounter++}`, target: v.name, source: v.name })),
+    ]);
+  };
+
+  const handleSave = () => {
+    if (!policyId || !version) {
+      setError('Select a policy and a version to call');
+      return;
+    }
+    if ([...inputRows, ...outputRows].some(r => !r.target.trim() !== !r.source.trim())) {
+      setError('Every mapping row needs both sides filled in');
+      return;
+    }
+
+    const policyName = policies.find(p => p.id === policyId)?.name || '';
+    onSave(tempName, {
+      policy_id: policyId,
+      version,
+      input_mapping: toMapping(inputRows),
+      output_mapping: toMapping(outputRows),
+      ...(resultVariable.trim() ? { result_variable: resultVariable.trim() } : {}),
+      count_decision: countDecision,
+    }, policyName);
+  };
+
+  const inputClass = 'w-full px-2 py-1 text-sm font-mono border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  const renderRows = (
+    rows: MappingRow[],
+    setRows: (rows: MappingRow[]) => void,
+    renderTarget: (row: MappingRow, onChange: (value: string) => void) => React.ReactNode,
+    renderSource: (row: MappingRow, onChange: (value: string) => void) => React.ReactNode
+  ) => {
+    const updateRow = (id: string, updates: Partial<MappingRow>) =>
+      setRows(rows.map(r => (r.id === id ? { ...r, ...updates } : r)));
+
+    return rows.map(row => (
+      <div key={row.id} className="flex items-center gap-3">
+        <div className="flex-1">{renderTarget(row, (target) => updateRow(row.id, { target }))}</div>
+        <span className="text-gray-400">←</span>
+        <div className="flex-1">{renderSource(row, (source) => updateRow(row.id, { source }))}</div>
+        <button
+          onClick={() => setRows(rows.filter(r => r.id !== row.id))}
+          className="p-1 text-red-500 hover:bg-red-50 rounded"
+          title="Remove mapping"
+        >
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </div>
+    ));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="relative bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[85vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+            <input
+              type="text"
+              value={tempName}
+              onChange={(e) => setTempName(e.target.value)}
+              className="text-lg font-bold text-gray-900 bg-transparent border-b-2 border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none px-2"
+              maxLength={50}
+            />
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-6">
+            {/* Called policy */}
+            <div className="flex items-center gap-4">
+              <label className="text-sm font-semibold text-gray-700">Policy:</label>
+              <select
+                value={policyId}
+                onChange={(e) => handlePolicyChange(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">Select a policy…</option>
+                {policies.map(p => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}{p.is_fragment ? ' (fragment)' : ''}
+                  </option>
+                ))}
+              </select>
+              <label className="text-sm font-semibold text-gray-700">Version:</label>
+              <select
+                value={version}
+                onChange={(e) => setVersion(e.target.value)}
+                disabled={!policyId}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+              >
+                <option value="">Select…</option>
+                <option value="latest">Latest published</option>
+                {versions.map(v => (
+                  <option key={v.id} value={v.version}>v{v.version}</option>
+                ))}
+              </select>
+            </div>
+            {policyId && versions.length === 0 && (
+              <p className="text-xs text-orange-600">This policy has no published versions yet. Publish it before it can be called.</p>
+            )}
+            {version === 'latest' && (
+              <p className="text-xs text-gray-500">Every new publish of the called policy changes this policy's behaviour immediately.</p>
+            )}
+
+            {/* Inputs */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-semibold text-gray-700">Inputs (called policy variable ← expression)</label>
+                {childVariables.some(v => v.required) && (
+                  <button onClick={addRequiredInputs} className="text-xs text-blue-600 hover:text-blue-800">
+                    Add required inputs
+                  </button>
+                )}
+              </div>
+              <div className="space-y-2">
+                {renderRows(
+                  inputRows,
+                  setInputRows,
+                  (row, onChange) => (
+                    <input
+                      type="text"
+                      value={row.target}
+                      onChange={(e) => onChange(e.target.value)}
+                      placeholder="e.g. pan"
+                      list="sub-policy-inputs"
+                      className={inputClass}
+                    />
+                  ),
+                  (row, onChange) => <VariableAutocomplete value={row.source} onChange={onChange} />
+                )}
+                <datalist id="sub-policy-inputs">
+                  {childVariables.map(v => <option key={v.name} value={v.name}>{v.type}</option>)}
+                </datalist>
+                <button
+                  onClick={() => setInputRows([...inputRows, { id: `map-${rowIdCounter++}`, target: '', source: '' }])}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  Add Input
+                </button>
+              </div>
+            </div>
+
+            {/* Outputs */}
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Outputs (this policy's variable ← called policy variable)</label>
+              <div className="space-y-2">
+                {renderRows(
+                  outputRows,
+                  setOutputRows,
+                  (row, onChange) => (
+                    <input
+                      type="text"
+                      value={row.target}
+                      onChange={(e) => onChange(e.target.value)}
+                      placeholder="e.g. kyc_status"
+                      className={inputClass}
+                    />
+                  ),
+                  (row, onChange) => (
+                    <input
+                      type="text"
+                      value={row.source}
+                      onChange={(e) => onChange(e.target.value)}
+                      placeholder="e.g. status"
+                      className={inputClass}
+                    />
+                  )
+                )}
+                <button
+                  onClick={() => setOutputRows([...outputRows, { id: `map-${rowIdCounter++}`, target: '', source: '' }])}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  Add Output
+                </button>
+              </div>
+            </div>
+
+            {/* Decision */}
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={countDecision}
+                  onChange={(e) => setCountDecision(e.target.checked)}
+                />
+                The called policy's decision votes in this policy
+              </label>
+              <div className="flex items-center gap-3">
+                <label className="text-sm text-gray-700">Store decision and reason in:</label>
+                <input
+                  type="text"
+                  value={resultVariable}
+                  onChange={(e) => setResultVariable(e.target.value)}
+                  placeholder="optional, e.g. kyc"
+                  className="w-48 px-2 py-1 text-sm font-mono border border-gray-300 rounded"
+                />
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          {/* Footer */}
+          <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex items-center justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Save & Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import {
+  XMarkIcon,
+  PlusIcon,
+  TrashIcon,
+  ChevronUpIcon,
+  ChevronDownIcon,
+} from '@heroicons/react/24/outline';
+import { SwitchCase, SwitchConfig, SWITCH_DEFAULT_HANDLE } from '../../../stores/policyBuilderStore';
+import { VariableAutocomplete } from './VariableAutocomplete';
+
+interface SwitchConfigModalProps {
+  isOpen: boolean;
+  nodeName: string;
+  config: SwitchConfig;
+  onClose: () => void;
+  onSave: (nodeName: string, config: SwitchConfig) => void;
+}
+
+// Values are edited as comma-separated text
+interface CaseRow extends SwitchCase {
+  valuesText: string;
+  matchBy: 'values' | 'expression';
+}
+
+const toRows = (cases: SwitchCase[]): CaseRow[] =>
+  cases.map(c => ({
+    ...c,
+    valuesText: (c.values || []).join(', '),
+    matchBy: c.expression ? 'expression' : 'values',
+  }));
+
+export const SwitchConfigModal: React.FC<SwitchConfigModalProps> = ({
+  isOpen,
+  nodeName,
+  config,
+  onClose,
+  onSave,
+}) => {
+  const [tempName, setTempName] = useState(nodeName);
+  const [expression, setExpression] = useState(config.expression);
+  const [rows, setRows] = useState<CaseRow[]>(toRows(config.cases));
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setTempName(nodeName);
+    setExpression(config.expression);
+    setRows(toRows(config.cases));
+    setError('');
+  }, [config, nodeName, isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateRow = (index: number, updates: Partial<CaseRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const moveRow = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rows.length) return;
+    const next = [...rows];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRows(next);
+  };
+
+  const addCase = () => {
+    setRows([
+      ...rows,
+      { id: `case-${Date.now()}`, label: `Case ${rows.length + 1}`, valuesText: '', matchBy: 'values' },
+    ]);
+  };
+
+  const handleSave = () => {
+    const cases: SwitchCase[] = rows.map(row => {
+      const base = { id: row.id, label: row.label.trim() || row.id };
+      return row.matchBy === 'expression'
+        ? { ...base, expression: (row.expression || '').trim() }
+        : { ...base, values: row.valuesText.split(',').map(v => v.trim()).filter(Boolean) };
+    });
+
+    if (cases.length === 0) {
+      setError('Add at least one case');
+      return;
+    }
+    if (cases.some(c => (c.expression !== undefined ? !c.expression : !(c.values || []).length))) {
+      setError('Every case needs values or an expression');
+      return;
+    }
+    if (cases.some(c => c.values) && !expression.trim()) {
+      setError('Cases that match values need a switch expression to compare against');
+      return;
+    }
+    const labels = cases.map(c => c.label.toLowerCase());
+    if (labels.some((label, i) => labels.indexOf(label) !== i || label === SWITCH_DEFAULT_HANDLE)) {
+      setError('Case labels must be unique and cannot be "default"');
+      return;
+    }
+
+    onSave(tempName, { expression: expression.trim(), cases });
+  };
+
+  const inputClass = 'w-full px-2 py-1 text-sm font-mono border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="relative bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[85vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+            <input
+              type="text"
+              value={tempName}
+              onChange={(e) => setTempName(e.target.value)}
+              className="text-lg font-bold text-gray-900 bg-transparent border-b-2 border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none px-2"
+              maxLength={50}
+            />
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-6">
+            <div className="flex items-center gap-4">
+              <label className="text-sm font-semibold text-gray-700 whitespace-nowrap">Switch on:</label>
+              <div className="flex-1">
+                <VariableAutocomplete value={expression} onChange={setExpression} />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-1">Cases</label>
+              <p className="text-xs text-gray-500 mb-3">
+                Tried top to bottom; the first match picks the output. Each case gets its own handle on the node.
+              </p>
+              <div className="space-y-2">
+                {rows.map((row, index) => (
+                  <div key={row.id} className="flex items-center gap-2">
+                    <div className="flex flex-col">
+                      <button
+                        onClick={() => moveRow(index, -1)}
+                        disabled={index === 0}
+                        className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ChevronUpIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => moveRow(index, 1)}
+                        disabled={index === rows.length - 1}
+                        className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ChevronDownIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <input
+                      type="text"
+                      value={row.label}
+                      onChange={(e) => updateRow(index, { label: e.target.value })}
+                      placeholder="Label"
+                      className="w-40 px-2 py-1 text-sm border border-gray-300 rounded"
+                    />
+                    <select
+                      value={row.matchBy}
+                      onChange={(e) => updateRow(index, { matchBy: e.target.value as CaseRow['matchBy'] })}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="values">equals one of</option>
+                      <option value="expression">expression is true</option>
+                    </select>
+                    <div className="flex-1">
+                      {row.matchBy === 'values' ? (
+                        <input
+                          type="text"
+                          value={row.valuesText}
+                          onChange={(e) => updateRow(index, { valuesText: e.target.value })}
+                          placeholder="e.g. SALARIED, SALARIED_GOVT"
+                          className={inputClass}
+                        />
+                      ) : (
+                        <input
+                          type="text"
+                          value={row.expression || ''}
+                          onChange={(e) => updateRow(index, { expression: e.target.value })}
+                          placeholder="e.g. income > 100000"
+                          className={inputClass}
+                        />
+                      )}
+                    </div>
+                    <button
+                      onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                      className="p-1 text-red-500 hover:bg-red-50 rounded"
+                      title="Remove case (its connection is removed too)"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+
+                <div className="flex items-center gap-2 pl-6 text-sm text-gray-500 italic">
+                  default — taken when no case matches
+                </div>
+
+                <button
+                  onClick={addCase}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  Add Case
+                </button>
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          {/* Footer */}
+          <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex items-center justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Save & Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -9,7 +9,7 @@ import {
   XCircleIcon,
   ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
-import { usePolicyBuilderStore } from '../../../stores/policyBuilderStore';
+import { usePolicyBuilderStore, buildSampleInput } from '../../../stores/policyBuilderStore';
 
 interface TestModalProps {
   isOpen: boolean;
@@ -32,7 +32,7 @@ export const TestModal: React.FC<TestModalProps> = ({
   const [isRunning, setIsRunning] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const { testResults, clearTestResults } = usePolicyBuilderStore();
+  const { testResults, clearTestResults, inputSchema } = usePolicyBuilderStore();
 
   if (!isOpen) return null;
 
@@ -94,7 +94,8 @@ export const TestModal: React.FC<TestModalProps> = ({
     }
   };
 
-  const exampleJson = {
+  // Policies with an input schema get a sample shaped by it
+  const exampleJson = inputSchema ? buildSampleInput(inputSchema) : {
     applicant: {
       name: "John Doe",
       age: 35,
@@ -160,9 +161,17 @@ export const TestModal: React.FC<TestModalProps> = ({
           {testMode === 'single' ? (
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Application Data (JSON)
-                </label>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Application Data (JSON)
+                  </label>
+                  <button
+                    onClick={() => handleJsonChange(JSON.stringify(exampleJson, null, 2))}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    {inputSchema ? 'Insert sample from input schema' : 'Insert sample'}
+                  </button>
+                </div>
                 <textarea
                   value={jsonInput}
                   onChange={(e) => handleJsonChange(e.target.value)}
@@ -300,19 +309,35 @@ export const TestModal: React.FC<TestModalProps> = ({
 
                         {/* All Conditions */}
                         <div className="text-xs">
-                          <p className="font-semibold text-gray-700 mb-1">All Conditions:</p>
+                          <p className="font-semibold text-gray-700 mb-1">
+                            All Conditions:
+                            {trace.decidedBy && trace.decidedBy !== 'root' && (
+                              <span className="ml-2 font-normal text-gray-500">decided by group {trace.decidedBy}</span>
+                            )}
+                          </p>
                           <div className="space-y-1">
                             {trace.conditionsEvaluated.map((cond, i) => (
                               <div key={i} className="flex items-center gap-2">
                                 <span className={cond.result ? 'text-green-600' : 'text-red-600'}>
                                   {cond.result ? '✓' : '✗'}
                                 </span>
+                                {cond.path && <span className="text-gray-400 font-mono">{cond.path}</span>}
                                 <span className="text-gray-700">{cond.condition}</span>
+                                {cond.missingData && (
+                                  <span
+                                    className="px-2 py-0.5 rounded text-xs bg-orange-100 text-orange-800"
+                                    title={cond.reason}
+                                  >
+                                    missing data: {cond.missingData.replace('_', ' ')}
+                                  </span>
+                                )}
                                 <span className={`ml-auto px-2 py-0.5 rounded text-xs ${
                                   cond.decision === 'Approved'
                                     ? 'bg-green-100 text-green-800'
                                     : cond.decision === 'Rejected'
                                     ? 'bg-red-100 text-red-800'
+                                    : cond.decision === 'Not Met'
+                                    ? 'bg-gray-100 text-gray-600'
                                     : 'bg-yellow-100 text-yellow-800'
                                 }`}>
                                   {cond.decision}
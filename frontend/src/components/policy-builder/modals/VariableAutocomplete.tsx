@@ -1,11 +1,13 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { ChevronDownIcon } from '@heroicons/react/24/outline';
+import { usePolicyBuilderStore, getSchemaVariables } from '../../../stores/policyBuilderStore';
 
 interface Variable {
   name: string;
   type: string;
   connector: string;
   description?: string;
+  required?: boolean;
 }
 
 interface VariableAutocompleteProps {
@@ -18,6 +20,8 @@ const MOCK_VARIABLES: Variable[] = [
   { name: 'bureau.score', type: 'number', connector: 'Bureau Data (Experian)', description: 'CIBIL/Experian credit score' },
   { name: 'bureau.accounts.total', type: 'number', connector: 'Bureau Data (Experian)', description: 'Total number of credit accounts' },
   { name: 'bureau.delinquencies.dpd30', type: 'number', connector: 'Bureau Data (Experian)', description: 'Days past due 30+' },
+  { name: 'bureau.tradelines', type: 'list', connector: 'Bureau Data (Experian)', description: 'Tradelines (type, dpd, balance, reported_on)' },
+  { name: 'bureau.enquiries', type: 'list', connector: 'Bureau Data (Experian)', description: 'Credit enquiries (date, purpose, amount)' },
   { name: 'applicant.income', type: 'number', connector: 'Applicant Data', description: 'Monthly income' },
   { name: 'applicant.age', type: 'number', connector: 'Applicant Data', description: 'Age in years' },
   { name: 'applicant.employment', type: 'string', connector: 'Applicant Data', description: 'Employment type (SALARIED/SELF_EMPLOYED)' },
@@ -25,25 +29,53 @@ const MOCK_VARIABLES: Variable[] = [
   { name: 'bank.avgBalance', type: 'number', connector: 'Bank Statement (Perfios)', description: 'Average monthly balance' },
   { name: 'bank.bounces', type: 'number', connector: 'Bank Statement (Perfios)', description: 'Number of bounced transactions' },
   { name: 'bank.salary_credits', type: 'number', connector: 'Bank Statement (Perfios)', description: 'Number of salary credits' },
+  { name: 'bank.transactions', type: 'list', connector: 'Bank Statement (Perfios)', description: 'Transactions (date, amount, type, narration)' },
 ];
 
+// Computed values: collection functions over the list variables above
+const EXPRESSION_EXAMPLES = [
+  "count(bureau.tradelines, dpd > 30 and withinLast(reported_on, '12 MONTHS'))",
+  "count(bureau.enquiries, withinLast(date, '90 DAYS'))",
+  "sum(bank.transactions, amount, type == 'CREDIT' and withinLast(date, '3 MONTHS'))",
+  'maxOf(bureau.tradelines, dpd)',
+  "LOOKUP('pincode_tiers', applicant.pincode, 'tier')",
+];
+
+// Spaces or parentheses make the value an expression (as on the backend)
+const isExpression = (text: string) => /[\s()]/.test(text);
+
+const INPUT_SCHEMA_GROUP = 'Application Input (schema)';
+
 export const VariableAutocomplete: React.FC<VariableAutocompleteProps> = ({
   value,
   onChange,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filteredVariables, setFilteredVariables] = useState<Variable[]>(MOCK_VARIABLES);
+  const inputSchema = usePolicyBuilderStore(state => state.inputSchema);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  // A declared input schema replaces the sample applicant fields
+  const allVariables = useMemo<Variable[]>(() => {
+    const schemaVariables = getSchemaVariables(inputSchema);
+    if (schemaVariables.length === 0) return MOCK_VARIABLES;
+
+    return [
+      ...schemaVariables.map(v => ({ ...v, connector: INPUT_SCHEMA_GROUP })),
+      ...MOCK_VARIABLES.filter(v => v.connector !== 'Applicant Data'),
+    ];
+  }, [inputSchema]);
+
+  const [filteredVariables, setFilteredVariables] = useState<Variable[]>(allVariables);
+
   useEffect(() => {
     // Filter variables based on search term
     if (searchTerm.trim() === '') {
-      setFilteredVariables(MOCK_VARIABLES);
+      setFilteredVariables(allVariables);
     } else {
       const term = searchTerm.toLowerCase();
-      const filtered = MOCK_VARIABLES.filter(
+      const filtered = allVariables.filter(
         (v) =>
           v.name.toLowerCase().includes(term) ||
           v.description?.toLowerCase().includes(term) ||
@@ -51,7 +83,7 @@ export const VariableAutocomplete: React.FC<VariableAutocompleteProps> = ({
       );
       setFilteredVariables(filtered);
     }
-  }, [searchTerm]);
+  }, [searchTerm, allVariables]);
 
   useEffect(() => {
     // Close dropdown on outside click
@@ -71,6 +103,17 @@ export const VariableAutocomplete: React.FC<VariableAutocompleteProps> = ({
     setIsOpen(false);
   };
 
+  // Typed text (a path not in the list, or an expression) is used as is
+  const commitTyped = (text: string) => {
+    if (!text.trim()) return;
+    onChange(text.trim());
+    setSearchTerm('');
+    setIsOpen(false);
+  };
+
+  const typed = searchTerm.trim();
+  const offerTyped = typed !== '' && !allVariables.some(v => v.name === typed);
+
   // Group variables by connector
   const groupedVariables = filteredVariables.reduce((acc, variable) => {
     if (!acc[variable.connector]) {
@@ -92,8 +135,18 @@ export const VariableAutocomplete: React.FC<VariableAutocompleteProps> = ({
             setSearchTerm(e.target.value);
             if (!isOpen) setIsOpen(true);
           }}
-          onFocus={() => setIsOpen(true)}
-          placeholder="Select variable..."
+          onFocus={() => {
+            // Expressions open for editing; variables open the full list
+            setSearchTerm(isExpression(value || '') ? value : '');
+            setIsOpen(true);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              commitTyped(searchTerm);
+            }
+          }}
+          placeholder="Select variable or type an expression..."
           className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-md text-sm
                    focus:outline-none focus:ring-2 focus:ring-blue-500"
         />
@@ -105,6 +158,33 @@ export const VariableAutocomplete: React.FC<VariableAutocompleteProps> = ({
       {/* Dropdown */}
       {isOpen && (
         <div className="absolute z-10 mt-1 w-full max-h-64 overflow-y-auto bg-white border border-gray-300 rounded-md shadow-lg">
+          {offerTyped && (
+            <div
+              onClick={() => commitTyped(typed)}
+              className="px-3 py-2 hover:bg-blue-50 cursor-pointer border-b border-gray-200"
+            >
+              <div className="text-sm font-medium text-gray-900 font-mono break-all">{typed}</div>
+              <div className="text-xs text-gray-500 mt-0.5">
+                {isExpression(typed) ? 'Use as expression' : 'Use this variable'} (Enter)
+              </div>
+            </div>
+          )}
+          {!typed && (
+            <div>
+              <div className="px-3 py-2 bg-gray-50 text-xs font-semibold text-gray-700 border-b border-gray-200">
+                Computed (collections)
+              </div>
+              {EXPRESSION_EXAMPLES.map(example => (
+                <div
+                  key={example}
+                  onClick={() => commitTyped(example)}
+                  className="px-3 py-2 hover:bg-blue-50 cursor-pointer border-b border-gray-100 text-xs font-mono text-gray-700 break-all"
+                >
+                  {example}
+                </div>
+              ))}
+            </div>
+          )}
           {Object.keys(groupedVariables).length === 0 ? (
             <div className="px-3 py-2 text-sm text-gray-500">
               No variables found
@@ -124,8 +204,12 @@ export const VariableAutocomplete: React.FC<VariableAutocompleteProps> = ({
                     onClick={() => handleSelect(variable)}
                     className="px-3 py-2 hover:bg-blue-50 cursor-pointer border-b border-gray-100 last:border-b-0"
                   >
-                    <div className="text-sm font-medium text-gray-900">
-                      {variable.name}
+                    <div className="flex items-center justify-between text-sm font-medium text-gray-900">
+                      <span>
+                        {variable.name}
+                        {variable.required && <span className="text-red-500 ml-0.5">*</span>}
+                      </span>
+                      <span className="text-xs font-normal text-gray-400">{variable.type}</span>
                     </div>
                     {variable.description && (
                       <div className="text-xs text-gray-500 mt-0.5">
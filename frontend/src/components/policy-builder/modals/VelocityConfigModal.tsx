@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { IdentifierType, VelocityCheck, VelocityConfig } from '../../../stores/policyBuilderStore';
+
+interface VelocityConfigModalProps {
+  isOpen: boolean;
+  nodeName: string;
+  config: VelocityConfig;
+  onClose: () => void;
+  onSave: (nodeName: string, config: VelocityConfig) => void;
+}
+
+const IDENTIFIERS: { value: IdentifierType; label: string }[] = [
+  { value: 'pan', label: 'PAN' },
+  { value: 'mobile', label: 'Mobile' },
+  { value: 'email', label: 'Email' },
+  { value: 'device_id', label: 'Device ID' },
+  { value: 'bank_account', label: 'Bank account' },
+];
+
+const labelOf = (type: IdentifierType) => IDENTIFIERS.find(i => i.value === type)?.label || type;
+
+export const VelocityConfigModal: React.FC<VelocityConfigModalProps> = ({
+  isOpen,
+  nodeName,
+  config,
+  onClose,
+  onSave,
+}) => {
+  const [tempName, setTempName] = useState(nodeName);
+  const [checks, setChecks] = useState<VelocityCheck[]>(config.checks || []);
+  const [outputVariable, setOutputVariable] = useState(config.output_variable);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setTempName(nodeName);
+    setChecks(config.checks || []);
+    setOutputVariable(config.output_variable);
+    setError('');
+  }, [config, nodeName, isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateCheck = (index: number, updates: Partial<VelocityCheck>) => {
+    setChecks(checks.map((check, i) => (i === index ? { ...check, ...updates } : check)));
+  };
+
+  const addCheck = () => {
+    setChecks([...checks, { identifier: 'mobile', window: 7, window_unit: 'days', max_count: 3 }]);
+  };
+
+  const handleSave = () => {
+    if (checks.length === 0 || !outputVariable.trim()) {
+      setError('Add at least one check and fill in the output variable');
+      return;
+    }
+    if (checks.some(c => !(c.window > 0) || !(Number.isInteger(c.max_count) && c.max_count >= 1))) {
+      setError('Every check needs a positive window and a max count of at least 1');
+      return;
+    }
+    if (checks.some(c => c.distinct_by === c.identifier)) {
+      setError('"Different applicants by" must be another identifier');
+      return;
+    }
+
+    onSave(tempName, {
+      checks: checks.map(({ label, value, distinct_by, ...check }) => ({
+        ...check,
+        ...(label?.trim() ? { label: label.trim() } : {}),
+        ...(value?.trim() ? { value: value.trim() } : {}),
+        ...(distinct_by ? { distinct_by } : {}),
+      })),
+      output_variable: outputVariable.trim(),
+    });
+  };
+
+  const inputClass = 'w-full px-2 py-1 text-sm font-mono border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="relative bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[85vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
+            <input
+              type="text"
+              value={tempName}
+              onChange={(e) => setTempName(e.target.value)}
+              className="text-lg font-bold text-gray-900 bg-transparent border-b-2 border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none px-2"
+              maxLength={50}
+            />
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-5">
+            <p className="text-sm text-gray-600">
+              Counts earlier applications that share an identifier within a window. Counts include this
+              application; a check hits when the count is above its maximum.
+            </p>
+
+            <div className="space-y-3">
+              {checks.map((check, index) => (
+                <div key={index} className="border border-gray-200 rounded-md p-3 space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-700">More than</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={check.max_count}
+                      onChange={(e) => updateCheck(index, { max_count: parseInt(e.target.value, 10) })}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded"
+                    />
+                    <span className="text-gray-700">{check.distinct_by ? 'applicants' : 'applications'} with this</span>
+                    <select
+                      value={check.identifier}
+                      onChange={(e) => updateCheck(index, { identifier: e.target.value as IdentifierType })}
+                      className="px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      {IDENTIFIERS.map(i => <option key={i.value} value={i.value}>{i.label}</option>)}
+                    </select>
+                    <span className="text-gray-700">in</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={check.window}
+                      onChange={(e) => updateCheck(index, { window: Number(e.target.value) })}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded"
+                    />
+                    <select
+                      value={check.window_unit}
+                      onChange={(e) => updateCheck(index, { window_unit: e.target.value as VelocityCheck['window_unit'] })}
+                      className="px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      <option value="hours">hours</option>
+                      <option value="days">days</option>
+                    </select>
+                    <button
+                      onClick={() => setChecks(checks.filter((_, i) => i !== index))}
+                      className="ml-auto p-1 text-red-500 hover:bg-red-50 rounded"
+                      title="Remove check"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2 text-xs">
+                    <label className="block">
+                      <span className="text-gray-500">Label</span>
+                      <input
+                        type="text"
+                        value={check.label || ''}
+                        onChange={(e) => updateCheck(index, { label: e.target.value })}
+                        placeholder={`${labelOf(check.identifier)} velocity`}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-gray-500">Value (expression)</span>
+                      <input
+                        type="text"
+                        value={check.value || ''}
+                        onChange={(e) => updateCheck(index, { value: e.target.value })}
+                        placeholder={`standard ${check.identifier} field`}
+                        className={inputClass}
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-gray-500">Different applicants by</span>
+                      <select
+                        value={check.distinct_by || ''}
+                        onChange={(e) => updateCheck(index, { distinct_by: (e.target.value || undefined) as IdentifierType | undefined })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      >
+                        <option value="">— count applications —</option>
+                        {IDENTIFIERS.filter(i => i.value !== check.identifier).map(i => (
+                          <option key={i.value} value={i.value}>{i.label}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                </div>
+              ))}
+
+              <button
+                onClick={addCheck}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+              >
+                <PlusIcon className="w-4 h-4" />
+                Add Check
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-1">Store result in variable</label>
+              <input
+                type="text"
+                value={outputVariable}
+                onChange={(e) => setOutputVariable(e.target.value)}
+                placeholder="e.g. velocity"
+                className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Route on <span className="font-mono">{outputVariable || 'velocity'}.hit</span> in a condition or strategy
+                node; matched application IDs are kept in the trace and shown on manual review.
+              </p>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          {/* Footer */}
+          <div className="sticky bottom-0 bg-gray-50 border-t border-gray-200 px-6 py-4 flex items-center justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Save & Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
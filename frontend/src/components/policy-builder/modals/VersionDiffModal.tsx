@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import ReactFlow, { Background, BackgroundVariant, Controls, MarkerType, ReactFlowProvider } from 'reactflow';
+import 'reactflow/dist/style.css';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { nodeTypes } from '../nodes';
+import { policyApi, PolicyDiff, PolicyVersionSummary, DiffChange } from '../../../services/policyApi';
+
+interface VersionDiffModalProps {
+  isOpen: boolean;
+  policyId: string | null;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const NODE_HIGHLIGHTS: Record<string, string> = {
+  added: 'ring-4 ring-green-500 ring-offset-2 rounded-lg',
+  removed: 'ring-4 ring-red-500 ring-offset-2 rounded-lg opacity-70',
+  changed: 'ring-4 ring-amber-400 ring-offset-2 rounded-lg',
+};
+
+const STATUS_BADGES: Record<string, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-amber-100 text-amber-800',
+  rewired: 'bg-amber-100 text-amber-800',
+};
+
+const edgeStyle = (color: string, width: number = 2) => ({
+  type: 'smoothstep',
+  style: { strokeWidth: width, stroke: color },
+  markerEnd: { type: MarkerType.ArrowClosed, color },
+});
+
+interface DiffCanvasProps {
+  workflow: any;
+  nodeStatus: Map<string, string>;
+  changedEdgeIds: Set<string>;
+  edgeColor: string;
+  focusedNodeId: string | null;
+}
+
+// Read-only canvas: node buttons would otherwise act on the policy being edited
+const DiffCanvas: React.FC<DiffCanvasProps> = ({ workflow, nodeStatus, changedEdgeIds, edgeColor, focusedNodeId }) => {
+  const nodes = useMemo(() => (workflow?.nodes || []).map((node: any) => ({
+    ...node,
+    draggable: false,
+    selectable: false,
+    className: [
+      'pointer-events-none',
+      NODE_HIGHLIGHTS[nodeStatus.get(node.id) || ''] || '',
+      node.id === focusedNodeId ? 'outline outline-4 outline-blue-500 outline-offset-8' : '',
+    ].filter(Boolean).join(' '),
+  })), [workflow, nodeStatus, focusedNodeId]);
+
+  const edges = useMemo(() => (workflow?.edges || []).map((edge: any) => ({
+    ...edge,
+    animated: false,
+    ...(changedEdgeIds.has(edge.id) ? edgeStyle(edgeColor, 4) : edgeStyle('#9CA3AF')),
+  })), [workflow, changedEdgeIds, edgeColor]);
+
+  return (
+    <ReactFlowProvider>
+      <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        nodeTypes={nodeTypes}
+        nodesDraggable={false}
+        nodesConnectable={false}
+        elementsSelectable={false}
+        fitView
+        attributionPosition="bottom-left"
+      >
+        <Background variant={BackgroundVariant.Dots} gap={12} size={1} />
+        <Controls showInteractive={false} />
+      </ReactFlow>
+    </ReactFlowProvider>
+  );
+};
+
+const ChangeList: React.FC<{ changes: DiffChange[] }> = ({ changes }) => (
+  <ul className="mt-1 space-y-0.5">
+    {changes.map((change, index) => (
+      <li key={`${change.field}:${index}`} className="flex gap-2">
+        <span className={`px-1.5 rounded text-[10px] uppercase ${STATUS_BADGES[change.status]}`}>{change.status}</span>
+        <span className="text-gray-500 font-mono">{change.field}</span>
+        <span className="font-mono text-gray-900">{change.summary}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+export const VersionDiffModal: React.FC<VersionDiffModalProps> = ({ isOpen, policyId, onClose }) => {
+  const [versions, setVersions] = useState<PolicyVersionSummary[]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState(CURRENT);
+  const [result, setResult] = useState<PolicyDiff | null>(null);
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen || !policyId) return;
+    setError('');
+    setResult(null);
+    policyApi.getPolicyById(policyId)
+      .then(policy => {
+        const published = policy.versions || [];
+        setVersions(published);
+        setFrom(published.length > 0 ? published[0].version : '');
+        setTo(CURRENT);
+      })
+      .catch((e: any) => setError(e.message));
+  }, [isOpen, policyId]);
+
+  useEffect(() => {
+    if (!isOpen || !policyId || !from || !to) return;
+    setFocusedNodeId(null);
+    policyApi.getPolicyDiff(policyId, from, to)
+      .then(diff => {
+        setResult(diff);
+        setError('');
+      })
+      .catch((e: any) => setError(e.message));
+  }, [isOpen, policyId, from, to]);
+
+  const highlights = useMemo(() => {
+    const before = new Map<string, string>();
+    const after = new Map<string, string>();
+    const beforeEdges = new Set<string>();
+    const afterEdges = new Set<string>();
+    result?.diff.nodes.forEach(node => {
+      if (node.status !== 'added') before.set(node.node_id, node.status);
+      if (node.status !== 'removed') after.set(node.node_id, node.status);
+    });
+    result?.diff.edges.forEach(edge => {
+      if (edge.before_edge_id) beforeEdges.add(edge.before_edge_id);
+      if (edge.after_edge_id) afterEdges.add(edge.after_edge_id);
+    });
+    return { before, after, beforeEdges, afterEdges };
+  }, [result]);
+
+  if (!isOpen) return null;
+
+  const versionLabel = (version: string) => (version === CURRENT ? 'Saved workflow (unpublished)' : `v${version}`);
+  const versionOptions = (
+    <>
+      <option value={CURRENT}>{versionLabel(CURRENT)}</option>
+      {versions.map(version => (
+        <option key={version.id} value={version.version}>
+          {versionLabel(version.version)} · {new Date(version.created_at).toLocaleDateString()}
+          {version.change_notes ? ` · ${version.change_notes}` : ''}
+        </option>
+      ))}
+    </>
+  );
+  const diff = result?.diff;
+  const unchanged = diff && Object.values(diff.summary).every(count => count === 0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-white flex flex-col">
+      {/* Header */}
+      <div className="border-b border-gray-200 px-6 py-3 flex items-center gap-4 bg-gray-50">
+        <h2 className="text-lg font-bold text-gray-900">Compare Versions</h2>
+        <select
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+        >
+          {!from && <option value="">Select a version</option>}
+          {versionOptions}
+        </select>
+        <span className="text-gray-500">→</span>
+        <select
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+        >
+          {versionOptions}
+        </select>
+        <div className="flex gap-3 text-xs text-gray-600">
+          <span><span className="inline-block w-3 h-3 rounded-sm bg-green-500 mr-1 align-middle" />added</span>
+          <span><span className="inline-block w-3 h-3 rounded-sm bg-red-500 mr-1 align-middle" />removed</span>
+          <span><span className="inline-block w-3 h-3 rounded-sm bg-amber-400 mr-1 align-middle" />changed</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="ml-auto text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+      </div>
+
+      {error && <p className="px-6 py-2 text-sm text-red-600">{error}</p>}
+      {versions.length === 0 && !error && (
+        <p className="px-6 py-2 text-sm text-gray-500">This policy has no published versions to compare yet.</p>
+      )}
+
+      {/* Side-by-side canvases */}
+      <div className="flex-1 grid grid-cols-2 divide-x divide-gray-200 min-h-0">
+        {[result?.from, result?.to].map((side, index) => (
+          <div key={index} className="flex flex-col min-h-0">
+            <div className="px-4 py-1.5 text-xs text-gray-600 border-b border-gray-100">
+              {side ? versionLabel(side.version) : '—'}
+              {side?.parameter_version != null && ` · parameters v${side.parameter_version}`}
+            </div>
+            <div className="flex-1 min-h-0">
+              {side && (
+                <DiffCanvas
+                  workflow={side.workflow_json}
+                  nodeStatus={index === 0 ? highlights.before : highlights.after}
+                  changedEdgeIds={index === 0 ? highlights.beforeEdges : highlights.afterEdges}
+                  edgeColor={index === 0 ? '#EF4444' : '#22C55E'}
+                  focusedNodeId={focusedNodeId}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Changes */}
+      {diff && (
+        <div className="h-64 overflow-y-auto border-t border-gray-200 px-6 py-3 text-xs space-y-3">
+          {unchanged ? (
+            <p className="text-gray-500">No differences</p>
+          ) : (
+            <>
+              <p className="text-gray-600">
+                {diff.summary.nodes_added} nodes added · {diff.summary.nodes_removed} removed · {diff.summary.nodes_changed} changed ·{' '}
+                {diff.summary.edges_changed} connections · {diff.summary.settings_changed} settings · {diff.summary.parameters_changed} parameters
+              </p>
+              {diff.nodes.map(node => (
+                <div
+                  key={node.node_id}
+                  onClick={() => setFocusedNodeId(focusedNodeId === node.node_id ? null : node.node_id)}
+                  className={`p-2 rounded cursor-pointer ${focusedNodeId === node.node_id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <span className={`px-1.5 rounded text-[10px] uppercase ${STATUS_BADGES[node.status]}`}>{node.status}</span>
+                  <span className="ml-2 font-semibold text-gray-900">{node.label}</span>
+                  <span className="ml-2 text-gray-500">{node.type}</span>
+                  {node.changes.length > 0 && <ChangeList changes={node.changes} />}
+                </div>
+              ))}
+              {diff.edges.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-gray-700">Connections</h4>
+                  <ul className="mt-1 space-y-0.5">
+                    {diff.edges.map((edge, index) => (
+                      <li key={index} className="flex gap-2">
+                        <span className={`px-1.5 rounded text-[10px] uppercase ${STATUS_BADGES[edge.status]}`}>{edge.status}</span>
+                        <span className="text-gray-900">{edge.summary}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {diff.settings.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-gray-700">Settings</h4>
+                  <ChangeList changes={diff.settings} />
+                </div>
+              )}
+              {diff.parameters.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-gray-700">Parameters</h4>
+                  <ChangeList changes={diff.parameters} />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Handle, Position, NodeProps } from 'reactflow';
+import { XMarkIcon } from '@heroicons/react/24/solid';
+import { NoSymbolIcon } from '@heroicons/react/24/outline';
+import { usePolicyBuilderStore, NegativeListCheckConfig } from '../../../stores/policyBuilderStore';
+
+interface NegativeListCheckNodeData {
+  label: string;
+  config?: NegativeListCheckConfig;
+}
+
+// Fixed outputs, matching the engine's NEGATIVE_LIST_HANDLES
+const OUTPUTS = [
+  { id: 'clear', label: 'clear', className: '!bg-green-500', textClassName: 'text-green-700' },
+  { id: 'manual_review', label: 'review', className: '!bg-yellow-500', textClassName: 'text-yellow-700' },
+  { id: 'reject', label: 'reject', className: '!bg-red-500', textClassName: 'text-red-700' },
+];
+
+export const NegativeListCheckNode: React.FC<NodeProps<NegativeListCheckNodeData>> = ({
+  data,
+  selected,
+  id,
+}) => {
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const deleteNode = usePolicyBuilderStore(state => state.deleteNode);
+
+  const checks = data.config?.checks || [];
+  const isConfigured = checks.length > 0 && checks.every(check => check.list && check.value);
+  const lists = Array.from(new Set(checks.map(check => check.list).filter(Boolean)));
+
+  const handleDeleteClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowDeleteConfirm(true);
+  };
+
+  const handleConfirmDelete = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    deleteNode(id);
+    setShowDeleteConfirm(false);
+  };
+
+  const handleCancelDelete = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowDeleteConfirm(false);
+  };
+
+  return (
+    <div
+      className="relative px-4 py-3 rounded-lg transition-all bg-white"
+      style={{
+        border: selected ? '2px solid #3B82F6' : '2px solid #475569',
+        boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+        minWidth: '220px',
+        minHeight: '96px',
+      }}
+    >
+      {/* Input handle */}
+      <Handle
+        type="target"
+        position={Position.Top}
+        id="negative-list-input-top"
+        className="!w-4 !h-4 !bg-slate-500 !border-3 !border-white hover:!scale-150 transition-transform cursor-crosshair"
+        style={{
+          top: -8,
+        }}
+      />
+
+      {/* Delete button */}
+      {!showDeleteConfirm && (
+        <button
+          onClick={handleDeleteClick}
+          className="absolute -top-2 -right-2 bg-red-500 hover:bg-red-600 text-white rounded-full w-6 h-6 flex items-center justify-center transition-colors shadow-md z-10"
+          title="Delete node"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      )}
+
+      {/* Delete confirmation dialog */}
+      {showDeleteConfirm && (
+        <div className="absolute -top-16 left-1/2 transform -translate-x-1/2 bg-white border-2 border-red-500 rounded-lg shadow-lg p-3 z-20 min-w-[200px]">
+          <p className="text-xs text-gray-900 font-semibold mb-2">Delete this negative list check?</p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleConfirmDelete}
+              className="flex-1 px-3 py-1 bg-red-500 hover:bg-red-600 text-white text-xs rounded transition-colors"
+            >
+              Delete
+            </button>
+            <button
+              onClick={handleCancelDelete}
+              className="flex-1 px-3 py-1 bg-gray-300 hover:bg-gray-400 text-gray-800 text-xs rounded transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Node content */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2 font-bold text-sm text-gray-900">
+          <NoSymbolIcon className="w-4 h-4 text-slate-600" />
+          {data.label}
+        </div>
+
+        <div className="text-xs text-gray-600">
+          {isConfigured ? (
+            <span className="flex items-center gap-1">
+              <span>✓</span>
+              <span className="font-mono truncate max-w-[180px]" title={lists.join(', ')}>{lists.join(', ')}</span>
+            </span>
+          ) : (
+            <span className="flex items-center gap-1">
+              <span>⚙</span>
+              <span>Configure</span>
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Output labels */}
+      <div className="flex justify-around gap-1 mt-3 -mb-1">
+        {OUTPUTS.map(output => (
+          <span key={output.id} className={`text-[10px] ${output.textClassName}`}>
+            {output.label}
+          </span>
+        ))}
+      </div>
+
+      {/* Output handles: no hit, a manual-review list hit, a reject list hit */}
+      {OUTPUTS.map((output, index) => (
+        <Handle
+          key={output.id}
+          type="source"
+          position={Position.Bottom}
+          id={output.id}
+          className={`!w-4 !h-4 ${output.className} !border-3 !border-white hover:!scale-150 transition-transform cursor-crosshair`}
+          style={{
+            bottom: -8,
+            left: `${((index + 0.5) / OUTPUTS.length) * 100}%`,
+          }}
+        />
+      ))}
+    </div>
+  );
+};
@@ -1,11 +1,11 @@
 import React, { useState } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
 import { XMarkIcon } from '@heroicons/react/24/solid';
-import { usePolicyBuilderStore } from '../../../stores/policyBuilderStore';
+import { usePolicyBuilderStore, countConditions, ConditionItem } from '../../../stores/policyBuilderStore';
 
 interface StrategyNodeData {
   label: string;
-  conditions?: any[];
+  conditions?: ConditionItem[];
   testResult?: 'approved' | 'reject' | 'manual_check' | null;
 }
 
@@ -14,7 +14,8 @@ export const StrategyNode: React.FC<NodeProps<StrategyNodeData>> = ({
   selected,
   id,
 }) => {
-  const hasConditions = data.conditions && data.conditions.length > 0;
+  const conditionCount = countConditions(data.conditions);
+  const hasConditions = conditionCount > 0;
   const testResult = data.testResult;
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const deleteNode = usePolicyBuilderStore(state => state.deleteNode);
@@ -146,7 +147,7 @@ export const StrategyNode: React.FC<NodeProps<StrategyNodeData>> = ({
           {hasConditions ? (
             <span className="flex items-center gap-1">
               <span>✓</span>
-              <span>Configured ({data.conditions?.length} condition{data.conditions?.length !== 1 ? 's' : ''})</span>
+              <span>Configured ({conditionCount} condition{conditionCount !== 1 ? 's' : ''})</span>
             </span>
           ) : (
             <span className="flex items-center gap-1">
@@ -159,7 +160,7 @@ export const StrategyNode: React.FC<NodeProps<StrategyNodeData>> = ({
         {/* Condition count badge */}
         {hasConditions && !showDeleteConfirm && (
           <div className="absolute -bottom-2 -right-2 bg-blue-600 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs font-bold">
-            {data.conditions?.length}
+            {conditionCount}
           </div>
         )}
       </div>
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Handle, Position, NodeProps } from 'reactflow';
+import { XMarkIcon } from '@heroicons/react/24/solid';
+import { Square3Stack3DIcon } from '@heroicons/react/24/outline';
+import { usePolicyBuilderStore, SubPolicyConfig } from '../../../stores/policyBuilderStore';
+
+interface SubPolicyNodeData {
+  label: string;
+  config?: SubPolicyConfig;
+  subPolicyName?: string; // display name of the called policy, saved with the node
+}
+
+export const SubPolicyNode: React.FC<NodeProps<SubPolicyNodeData>> = ({
+  data,
+  selected,
+  id,
+}) => {
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const deleteNode = usePolicyBuilderStore(state => state.deleteNode);
+
+  const call = data.config;
+  const isConfigured = !!call?.policy_id && !!call.version;
+  const countsDecision = call?.count_decision !== false;
+
+  const handleDeleteClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowDeleteConfirm(true);
+  };
+
+  const handleConfirmDelete = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    deleteNode(id);
+    setShowDeleteConfirm(false);
+  };
+
+  const handleCancelDelete = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowDeleteConfirm(false);
+  };
+
+  return (
+    <div
+      className="relative px-4 py-3 rounded-lg transition-all bg-white"
+      style={{
+        border: selected ? '2px solid #3B82F6' : '2px solid #0D9488',
+        boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+        minWidth: '180px',
+        minHeight: '80px',
+      }}
+    >
+      {/* Input handle */}
+      <Handle
+        type="target"
+        position={Position.Top}
+        id="subpolicy-input-top"
+        className="!w-4 !h-4 !bg-teal-500 !border-3 !border-white hover:!scale-150 transition-transform cursor-crosshair"
+        style={{
+          top: -8,
+        }}
+      />
+
+      {/* Delete button */}
+      {!showDeleteConfirm && (
+        <button
+          onClick={handleDeleteClick}
+          className="absolute -top-2 -right-2 bg-red-500 hover:bg-red-600 text-white rounded-full w-6 h-6 flex items-center justify-center transition-colors shadow-md z-10"
+          title="Delete node"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      )}
+
+      {/* Delete confirmation dialog */}
+      {showDeleteConfirm && (
+        <div className="absolute -top-16 left-1/2 transform -translate-x-1/2 bg-white border-2 border-red-500 rounded-lg shadow-lg p-3 z-20 min-w-[200px]">
+          <p className="text-xs text-gray-900 font-semibold mb-2">Delete this sub-policy call?</p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleConfirmDelete}
+              className="flex-1 px-3 py-1 bg-red-500 hover:bg-red-600 text-white text-xs rounded transition-colors"
+            >
+              Delete
+            </button>
+            <button
+              onClick={handleCancelDelete}
+              className="flex-1 px-3 py-1 bg-gray-300 hover:bg-gray-400 text-gray-800 text-xs rounded transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Node content */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2 font-bold text-sm text-gray-900">
+          <Square3Stack3DIcon className="w-4 h-4 text-teal-600" />
+          {data.label}
+        </div>
+
+        <div className="text-xs text-gray-600">
+          {isConfigured ? (
+            <span className="flex items-center gap-1">
+              <span>✓</span>
+              <span>
+                {data.subPolicyName || 'Policy'} · {call?.version === 'latest' ? 'latest' : `v${call?.version}`}
+                {!countsDecision && ' · variables only'}
+              </span>
+            </span>
+          ) : (
+            <span className="flex items-center gap-1">
+              <span>⚙</span>
+              <span>Configure</span>
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Output handle */}
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        id="subpolicy-output-bottom"
+        className="!w-4 !h-4 !bg-teal-600 !border-3 !border-white hover:!scale-150 transition-transform cursor-crosshair"
+        style={{
+          bottom: -8,
+        }}
+      />
+    </div>
+  );
+};
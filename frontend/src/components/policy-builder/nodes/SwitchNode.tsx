@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { Handle, Position, NodeProps, useUpdateNodeInternals } from 'reactflow';
+import { XMarkIcon } from '@heroicons/react/24/solid';
+import { ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+import { usePolicyBuilderStore, SwitchConfig, SWITCH_DEFAULT_HANDLE } from '../../../stores/policyBuilderStore';
+
+interface SwitchNodeData {
+  label: string;
+  config?: SwitchConfig;
+}
+
+export const SwitchNode: React.FC<NodeProps<SwitchNodeData>> = ({
+  data,
+  selected,
+  id,
+}) => {
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const deleteNode = usePolicyBuilderStore(state => state.deleteNode);
+  const updateNodeInternals = useUpdateNodeInternals();
+
+  const cases = data.config?.cases || [];
+  const isConfigured = cases.length > 0
+    && cases.every(c => c.expression || ((c.values || []).length > 0 && data.config?.expression));
+
+  // One output handle per case in order, then the default
+  const outputs = [
+    ...cases.map(c => ({ id: c.id, label: c.label || c.id })),
+    { id: SWITCH_DEFAULT_HANDLE, label: 'default' },
+  ];
+
+  // React Flow caches handle positions; refresh them when cases change
+  const handleKey = outputs.map(o => o.id).join('|');
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, handleKey, updateNodeInternals]);
+
+  const handleDeleteClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowDeleteConfirm(true);
+  };
+
+  const handleConfirmDelete = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    deleteNode(id);
+    setShowDeleteConfirm(false);
+  };
+
+  const handleCancelDelete = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowDeleteConfirm(false);
+  };
+
+  return (
+    <div
+      className="relative px-4 py-3 rounded-lg transition-all bg-white"
+      style={{
+        border: selected ? '2px solid #3B82F6' : '2px solid #D97706',
+        boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+        minWidth: `${Math.max(180, outputs.length * 80)}px`,
+        minHeight: '96px',
+      }}
+    >
+      {/* Input handle */}
+      <Handle
+        type="target"
+        position={Position.Top}
+        id="switch-input-top"
+        className="!w-4 !h-4 !bg-amber-500 !border-3 !border-white hover:!scale-150 transition-transform cursor-crosshair"
+        style={{
+          top: -8,
+        }}
+      />
+
+      {/* Delete button */}
+      {!showDeleteConfirm && (
+        <button
+          onClick={handleDeleteClick}
+          className="absolute -top-2 -right-2 bg-red-500 hover:bg-red-600 text-white rounded-full w-6 h-6 flex items-center justify-center transition-colors shadow-md z-10"
+          title="Delete node"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      )}
+
+      {/* Delete confirmation dialog */}
+      {showDeleteConfirm && (
+        <div className="absolute -top-16 left-1/2 transform -translate-x-1/2 bg-white border-2 border-red-500 rounded-lg shadow-lg p-3 z-20 min-w-[200px]">
+          <p className="text-xs text-gray-900 font-semibold mb-2">Delete this switch?</p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleConfirmDelete}
+              className="flex-1 px-3 py-1 bg-red-500 hover:bg-red-600 text-white text-xs rounded transition-colors"
+            >
+              Delete
+            </button>
+            <button
+              onClick={handleCancelDelete}
+              className="flex-1 px-3 py-1 bg-gray-300 hover:bg-gray-400 text-gray-800 text-xs rounded transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Node content */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2 font-bold text-sm text-gray-900">
+          <ArrowsRightLeftIcon className="w-4 h-4 text-amber-600" />
+          {data.label}
+        </div>
+
+        <div className="text-xs text-gray-600">
+          {isConfigured ? (
+            <span className="flex items-center gap-1">
+              <span>✓</span>
+              <span>{data.config?.expression || 'expression'} · {cases.length} case{cases.length !== 1 ? 's' : ''}</span>
+            </span>
+          ) : (
+            <span className="flex items-center gap-1">
+              <span>⚙</span>
+              <span>Configure</span>
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Case labels */}
+      <div className="flex justify-around gap-1 mt-3 -mb-1">
+        {outputs.map(output => (
+          <span
+            key={output.id}
+            className={`text-[10px] truncate max-w-[72px] ${output.id === SWITCH_DEFAULT_HANDLE ? 'text-gray-400 italic' : 'text-amber-800'}`}
+            title={output.label}
+          >
+            {output.label}
+          </span>
+        ))}
+      </div>
+
+      {/* Output handles, one per case plus the default */}
+      {outputs.map((output, index) => (
+        <Handle
+          key={output.id}
+          type="source"
+          position={Position.Bottom}
+          id={output.id}
+          className={`!w-4 !h-4 ${output.id === SWITCH_DEFAULT_HANDLE ? '!bg-gray-400' : '!bg-amber-600'} !border-3 !border-white hover:!scale-150 transition-transform cursor-crosshair`}
+          style={{
+            bottom: -8,
+            left: `${((index + 0.5) / outputs.length) * 100}%`,
+          }}
+        />
+      ))}
+    </div>
+  );
+};
@@ -1,10 +1,22 @@
 import { StartNode } from './StartNode';
 import { StrategyNode } from './StrategyNode';
+import { DecisionTableNode } from './DecisionTableNode';
+import { SubPolicyNode } from './SubPolicyNode';
+import { SwitchNode } from './SwitchNode';
+import { LookupNode } from './LookupNode';
+import { VelocityNode } from './VelocityNode';
+import { NegativeListCheckNode } from './NegativeListCheckNode';
 
-export { StartNode, StrategyNode };
+export { StartNode, StrategyNode, DecisionTableNode, SubPolicyNode, SwitchNode, LookupNode, VelocityNode, NegativeListCheckNode };
 
 // Node type registry for React Flow
 export const nodeTypes = {
   start: StartNode,
   strategy: StrategyNode,
+  decisionTable: DecisionTableNode,
+  subPolicy: SubPolicyNode,
+  switch: SwitchNode,
+  lookup: LookupNode,
+  velocity: VelocityNode,
+  negativeListCheck: NegativeListCheckNode,
 };
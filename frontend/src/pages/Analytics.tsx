@@ -274,6 +274,12 @@ const Analytics: React.FC = () => {
             Champion vs Challenger Strategy Performance
           </h2>
         </div>
+        {analytics.strategyPerformance.experiment && (
+          <p className="text-sm text-gray-500 -mt-4 mb-6">
+            Experiment “{analytics.strategyPerformance.experiment.name}” on {analytics.strategyPerformance.experiment.productType}
+            {analytics.strategyPerformance.experiment.status === 'running' ? ' (running)' : ' (stopped)'} · approval rates with 95% confidence intervals
+          </p>
+        )}
 
         {analytics.strategyPerformance.champion && analytics.strategyPerformance.challenger ? (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -284,7 +290,7 @@ const Analytics: React.FC = () => {
                   🏆 Champion Strategy
                 </h3>
                 <span className="px-3 py-1 bg-green-600 text-white rounded-full text-xs font-semibold">
-                  ACTIVE
+                  {analytics.strategyPerformance.champion.trafficPercent}% TRAFFIC
                 </span>
               </div>
               <p className="text-2xl font-bold text-green-900 mb-4">
@@ -301,6 +307,9 @@ const Analytics: React.FC = () => {
                   <span className="text-sm text-gray-700">Approval Rate:</span>
                   <span className="text-lg font-bold text-green-600">
                     {analytics.strategyPerformance.champion.approvalRate}%
+                    <span className="ml-1 text-xs font-normal text-gray-500">
+                      ({analytics.strategyPerformance.champion.approvalRateCiLow}–{analytics.strategyPerformance.champion.approvalRateCiHigh})
+                    </span>
                   </span>
                 </div>
                 <div className="flex justify-between items-center">
@@ -325,7 +334,7 @@ const Analytics: React.FC = () => {
                   🔬 Challenger Strategy
                 </h3>
                 <span className="px-3 py-1 bg-blue-600 text-white rounded-full text-xs font-semibold">
-                  TESTING
+                  {analytics.strategyPerformance.challenger.trafficPercent}% TRAFFIC
                 </span>
               </div>
               <p className="text-2xl font-bold text-blue-900 mb-4">
@@ -342,6 +351,17 @@ const Analytics: React.FC = () => {
                   <span className="text-sm text-gray-700">Approval Rate:</span>
                   <span className="text-lg font-bold text-blue-600">
                     {analytics.strategyPerformance.challenger.approvalRate}%
+                    <span className="ml-1 text-xs font-normal text-gray-500">
+                      ({analytics.strategyPerformance.challenger.approvalRateCiLow}–{analytics.strategyPerformance.challenger.approvalRateCiHigh})
+                    </span>
+                  </span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-700">vs Champion:</span>
+                  <span className={`text-sm font-semibold ${analytics.strategyPerformance.challenger.approvalSignificant ? 'text-blue-700' : 'text-gray-500'}`}>
+                    {analytics.strategyPerformance.challenger.approvalRateDifference === null
+                      ? 'Not enough data'
+                      : `${analytics.strategyPerformance.challenger.approvalRateDifference > 0 ? '+' : ''}${analytics.strategyPerformance.challenger.approvalRateDifference} pts, p=${analytics.strategyPerformance.challenger.approvalPValue}${analytics.strategyPerformance.challenger.approvalSignificant ? ' (significant)' : ''}`}
                   </span>
                 </div>
                 <div className="flex justify-between items-center">
@@ -362,10 +382,10 @@ const Analytics: React.FC = () => {
         ) : (
           <div className="text-center py-12 bg-gray-50 rounded-lg">
             <p className="text-gray-600">
-              Not enough policies to show champion vs challenger comparison.
+              No champion vs challenger experiment has run yet.
             </p>
             <p className="text-sm text-gray-500 mt-2">
-              Create at least 2 active policies to see this comparison.
+              Start an experiment on the Experiments page to see this comparison.
             </p>
           </div>
         )}
@@ -0,0 +1,470 @@
+import React, { useEffect, useState } from 'react';
+import {
+  experimentApi,
+  ArmResult,
+  Experiment,
+  ExperimentArmInput,
+  ExperimentResults,
+  ExperimentStatus,
+  ProportionStats,
+  SignificanceTest,
+} from '../services/experimentApi';
+import { policyApi, Policy } from '../services/policyApi';
+
+const STATUS_STYLES: Record<ExperimentStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  running: 'bg-green-100 text-green-800',
+  stopped: 'bg-yellow-100 text-yellow-800',
+};
+
+type ExperimentForm = {
+  id?: string;
+  name: string;
+  description: string;
+  product_type: string;
+  arms: ExperimentArmInput[];
+};
+
+const emptyForm = (productType: string = ''): ExperimentForm => ({
+  name: '',
+  description: '',
+  product_type: productType,
+  arms: [
+    { name: 'champion', role: 'champion', policy_id: '', traffic_percent: 80 },
+    { name: 'challenger_1', role: 'challenger', policy_id: '', traffic_percent: 20 },
+  ],
+});
+
+const formatRate = (stats: ProportionStats) => `${stats.rate}% (${stats.ci_low}–${stats.ci_high})`;
+
+const formatTest = (test: SignificanceTest | null | undefined, unit: string) => {
+  if (!test) return <span className="text-gray-400">—</span>;
+  const sign = test.difference > 0 ? '+' : '';
+  return (
+    <span className={test.significant ? 'font-semibold text-indigo-700' : 'text-gray-600'}>
+      {sign}{test.difference}{unit} · p={test.p_value}
+    </span>
+  );
+};
+
+const Experiments: React.FC = () => {
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [policies, setPolicies] = useState<Policy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [results, setResults] = useState<ExperimentResults | null>(null);
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [form, setForm] = useState<ExperimentForm | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadExperiments();
+    policyApi.getAllPolicies()
+      .then(all => setPolicies(all.filter(p => !p.is_fragment)))
+      .catch(loadError => console.error('Failed to load policies:', loadError));
+  }, []);
+
+  useEffect(() => {
+    if (selected) loadResults(selected);
+  }, [selected]);
+
+  const loadExperiments = async () => {
+    try {
+      setExperiments(await experimentApi.getExperiments());
+    } catch (loadError: any) {
+      console.error('Failed to load experiments:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadResults = async (id: string) => {
+    setError('');
+    try {
+      setResults(await experimentApi.getResults(id, {
+        from: range.from || undefined,
+        to: range.to || undefined,
+      }));
+    } catch (loadError: any) {
+      setError(loadError.message);
+    }
+  };
+
+  const productTypes = Array.from(new Set(policies.map(p => p.product_type).filter(Boolean))) as string[];
+  const trafficTotal = form ? form.arms.reduce((sum, arm) => sum + (Number(arm.traffic_percent) || 0), 0) : 0;
+
+  const updateArm = (index: number, changes: Partial<ExperimentArmInput>) => {
+    if (!form) return;
+    setForm({ ...form, arms: form.arms.map((arm, i) => (i === index ? { ...arm, ...changes } : arm)) });
+  };
+
+  const addChallenger = () => {
+    if (!form) return;
+    setForm({
+      ...form,
+      arms: [...form.arms, { name: `challenger_${form.arms.length}`, role: 'challenger', policy_id: '', traffic_percent: 0 }],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setError('');
+    const { id, ...input } = form;
+    const payload = {
+      ...input,
+      description: input.description || undefined,
+      arms: input.arms.map(arm => ({ ...arm, traffic_percent: Number(arm.traffic_percent) })),
+    };
+    try {
+      const saved = id
+        ? await experimentApi.updateExperiment(id, payload)
+        : await experimentApi.createExperiment(payload);
+      setForm(null);
+      await loadExperiments();
+      setSelected(saved.id);
+      await loadResults(saved.id);
+    } catch (saveError: any) {
+      setError(saveError.message);
+    }
+  };
+
+  const handleEdit = (experiment: Experiment) => {
+    setForm({
+      id: experiment.id,
+      name: experiment.name,
+      description: experiment.description || '',
+      product_type: experiment.product_type,
+      arms: experiment.arms.map(({ name, role, policy_id, traffic_percent }) => ({ name, role, policy_id, traffic_percent })),
+    });
+  };
+
+  const handleAction = async (action: 'start' | 'stop' | 'delete', experiment: Experiment) => {
+    const prompts = {
+      start: `Start "${experiment.name}"? Live ${experiment.product_type} applications will be split between its arms.`,
+      stop: `Stop "${experiment.name}"? The champion will decide all applications again.`,
+      delete: `Delete draft experiment "${experiment.name}"?`,
+    };
+    if (!confirm(prompts[action])) return;
+
+    setError('');
+    try {
+      if (action === 'start') await experimentApi.startExperiment(experiment.id);
+      if (action === 'stop') await experimentApi.stopExperiment(experiment.id);
+      if (action === 'delete') {
+        await experimentApi.deleteExperiment(experiment.id);
+        setSelected(null);
+        setResults(null);
+      }
+      await loadExperiments();
+      if (action !== 'delete') await loadResults(experiment.id);
+    } catch (actionError: any) {
+      setError(actionError.message);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const selectedExperiment = experiments.find(e => e.id === selected);
+  const armPolicies = form ? policies.filter(p => p.product_type === form.product_type) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Experiments</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Split a product's live traffic between its active policy and challengers; each application always lands in the same arm
+          </p>
+        </div>
+        <button onClick={() => setForm(emptyForm(productTypes[0]))} className="btn btn-primary">
+          + New Experiment
+        </button>
+      </div>
+
+      {error && <div className="card text-sm text-red-600">{error}</div>}
+
+      {/* Create / edit form */}
+      {form && (
+        <div className="card space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">{form.id ? 'Edit experiment' : 'New experiment'}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="block text-sm">
+              <span className="text-gray-700">Name</span>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Lower FOIR cut-off"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700">Product</span>
+              <select
+                value={form.product_type}
+                disabled={!!form.id}
+                onChange={(e) => setForm({ ...form, product_type: e.target.value, arms: form.arms.map(arm => ({ ...arm, policy_id: '' })) })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md disabled:bg-gray-100"
+              >
+                {productTypes.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700">Description</span>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+          </div>
+
+          <table className="min-w-full text-sm border border-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-gray-700">Arm</th>
+                <th className="px-3 py-2 text-left text-gray-700">Role</th>
+                <th className="px-3 py-2 text-left text-gray-700">Policy</th>
+                <th className="px-3 py-2 text-left text-gray-700">Traffic %</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {form.arms.map((arm, index) => (
+                <tr key={index}>
+                  <td className="px-3 py-1.5">
+                    <input
+                      type="text"
+                      value={arm.name}
+                      onChange={(e) => updateArm(index, { name: e.target.value })}
+                      className="w-full px-2 py-1 font-mono border border-gray-300 rounded-md"
+                    />
+                  </td>
+                  <td className="px-3 py-1.5 text-gray-600">{arm.role === 'champion' ? 'Champion' : 'Challenger'}</td>
+                  <td className="px-3 py-1.5">
+                    <select
+                      value={arm.policy_id}
+                      onChange={(e) => updateArm(index, { policy_id: e.target.value })}
+                      className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      <option value="">Select a policy</option>
+                      {armPolicies
+                        .filter(p => arm.role === 'challenger' || p.status === 'active')
+                        .map(p => <option key={p.id} value={p.id}>{p.name} (v{p.version}, {p.status})</option>)}
+                    </select>
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={0.5}
+                      value={arm.traffic_percent}
+                      onChange={(e) => updateArm(index, { traffic_percent: e.target.value === '' ? 0 : Number(e.target.value) })}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    {arm.role === 'challenger' && form.arms.length > 2 && (
+                      <button
+                        onClick={() => setForm({ ...form, arms: form.arms.filter((_, i) => i !== index) })}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex justify-between items-center">
+            <div className="flex items-center gap-4">
+              <button onClick={addChallenger} className="btn btn-secondary text-sm">
+                + Add Challenger
+              </button>
+              <span className={`text-sm ${Math.abs(trafficTotal - 100) > 0.001 ? 'text-red-600' : 'text-gray-600'}`}>
+                Traffic: {trafficTotal}% of 100%
+              </span>
+            </div>
+            <div className="flex gap-3">
+              <button onClick={() => setForm(null)} className="btn btn-secondary">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!form.name || !form.product_type || form.arms.some(arm => !arm.policy_id)}
+                className="btn btn-primary disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Experiments */}
+        <div className="card p-0 overflow-hidden">
+          {experiments.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">No experiments yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {experiments.map(experiment => (
+                <li key={experiment.id}>
+                  <button
+                    onClick={() => setSelected(experiment.id)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${selected === experiment.id ? 'bg-blue-50' : ''}`}
+                  >
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium text-gray-900">{experiment.name}</span>
+                      <span className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLES[experiment.status]}`}>
+                        {experiment.status}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {experiment.product_type} · {experiment.arms.map(arm => `${arm.name} ${arm.traffic_percent}%`).join(' / ')}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Selected experiment */}
+        <div className="card lg:col-span-2">
+          {!selectedExperiment ? (
+            <p className="text-gray-500">Select an experiment to see its results</p>
+          ) : (
+            <div className="space-y-5">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">{selectedExperiment.name}</h2>
+                  {selectedExperiment.description && <p className="text-sm text-gray-500">{selectedExperiment.description}</p>}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {selectedExperiment.product_type}
+                    {selectedExperiment.started_at && ` · started ${new Date(selectedExperiment.started_at).toLocaleString()}`}
+                    {selectedExperiment.stopped_at && ` · stopped ${new Date(selectedExperiment.stopped_at).toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {selectedExperiment.status === 'draft' && (
+                    <>
+                      <button onClick={() => handleEdit(selectedExperiment)} className="btn btn-secondary text-sm">
+                        Edit
+                      </button>
+                      <button onClick={() => handleAction('start', selectedExperiment)} className="btn btn-primary text-sm">
+                        Start
+                      </button>
+                      <button onClick={() => handleAction('delete', selectedExperiment)} className="btn btn-danger text-sm">
+                        Delete
+                      </button>
+                    </>
+                  )}
+                  {selectedExperiment.status === 'running' && (
+                    <button onClick={() => handleAction('stop', selectedExperiment)} className="btn btn-danger text-sm">
+                      Stop
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3 text-sm">
+                <label className="text-gray-700">
+                  From
+                  <input
+                    type="date"
+                    value={range.from}
+                    onChange={(e) => setRange({ ...range, from: e.target.value })}
+                    className="ml-2 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                </label>
+                <label className="text-gray-700">
+                  To
+                  <input
+                    type="date"
+                    value={range.to}
+                    onChange={(e) => setRange({ ...range, to: e.target.value })}
+                    className="ml-2 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                </label>
+                <button onClick={() => loadResults(selectedExperiment.id)} className="btn btn-secondary text-sm">
+                  Refresh
+                </button>
+              </div>
+
+              {results && results.experiment.id === selectedExperiment.id && (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-xs border border-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-gray-700">Arm</th>
+                        <th className="px-3 py-2 text-right text-gray-700">Traffic</th>
+                        <th className="px-3 py-2 text-right text-gray-700">Decided</th>
+                        <th className="px-3 py-2 text-left text-gray-700">Approval (95% CI)</th>
+                        <th className="px-3 py-2 text-left text-gray-700">Rejection (95% CI)</th>
+                        <th className="px-3 py-2 text-left text-gray-700">Manual review (95% CI)</th>
+                        <th className="px-3 py-2 text-right text-gray-700">Avg TAT</th>
+                        <th className="px-3 py-2 text-right text-gray-700">Errors</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {results.arms.map((arm: ArmResult) => (
+                        <tr key={arm.name} className="text-gray-800 align-top">
+                          <td className="px-3 py-2">
+                            <div className="font-mono font-medium">{arm.name}</div>
+                            <div className="text-gray-500">{arm.policy_name}{arm.role === 'champion' && ' · champion'}</div>
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {arm.traffic_percent}%
+                            <div className="text-gray-500">actual {arm.share_percent}%</div>
+                          </td>
+                          <td className="px-3 py-2 text-right">{arm.applications.toLocaleString()}</td>
+                          <td className="px-3 py-2">
+                            {formatRate(arm.approval)}
+                            {arm.role === 'challenger' && <div>{formatTest(arm.approval_test, ' pts')}</div>}
+                          </td>
+                          <td className="px-3 py-2">
+                            {formatRate(arm.rejection)}
+                            {arm.role === 'challenger' && <div>{formatTest(arm.rejection_test, ' pts')}</div>}
+                          </td>
+                          <td className="px-3 py-2">
+                            {formatRate(arm.manual_review)}
+                            {arm.role === 'challenger' && <div>{formatTest(arm.manual_review_test, ' pts')}</div>}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {Math.round(arm.execution_time_ms.mean)}ms
+                            {arm.role === 'challenger' && <div>{formatTest(arm.execution_time_test, 'ms')}</div>}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {arm.errors}
+                            {arm.invalid_input > 0 && <div className="text-gray-500">{arm.invalid_input} invalid</div>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Challenger rows show the difference from the champion with its two-sided p-value;
+                    bold differences are significant at {results.significance_level * 100}%.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Experiments;
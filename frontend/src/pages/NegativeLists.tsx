@@ -0,0 +1,471 @@
+import React, { useEffect, useState } from 'react';
+import {
+  negativeListApi,
+  NegativeList,
+  NegativeListAction,
+  NegativeListAuditEntry,
+  NegativeListEntry,
+  NegativeListMatchMode,
+  NegativeListType,
+} from '../services/negativeListApi';
+
+const LIST_TYPES: { value: NegativeListType; label: string }[] = [
+  { value: 'pan', label: 'PAN' },
+  { value: 'mobile', label: 'Mobile' },
+  { value: 'email', label: 'Email' },
+  { value: 'device_id', label: 'Device ID' },
+  { value: 'bank_account', label: 'Bank account' },
+  { value: 'employer', label: 'Employer' },
+  { value: 'pincode', label: 'Pincode' },
+  { value: 'text', label: 'Other text' },
+];
+
+const ACTION_LABELS: Record<NegativeListAction, string> = {
+  reject: 'Reject',
+  manual_review: 'Manual review',
+};
+
+const emptyList = { name: '', list_type: 'pan' as NegativeListType, match_mode: 'normalized' as NegativeListMatchMode, action: 'reject' as NegativeListAction, description: '' };
+const emptyEntry = { value: '', reason_code: '', notes: '', expires_at: '' };
+
+const NegativeLists: React.FC = () => {
+  const [lists, setLists] = useState<NegativeList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [dependents, setDependents] = useState<{ id: string; name: string }[]>([]);
+  const [entries, setEntries] = useState<NegativeListEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [audit, setAudit] = useState<NegativeListAuditEntry[]>([]);
+  const [search, setSearch] = useState('');
+  const [includeRemoved, setIncludeRemoved] = useState(false);
+  const [newList, setNewList] = useState<typeof emptyList | null>(null);
+  const [entry, setEntry] = useState(emptyEntry);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    loadLists();
+  }, []);
+
+  useEffect(() => {
+    if (selected) loadEntries(selected);
+  }, [selected, includeRemoved]);
+
+  const loadLists = async () => {
+    try {
+      setLists(await negativeListApi.getLists());
+    } catch (loadError: any) {
+      console.error('Failed to load negative lists:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openList = async (name: string) => {
+    setSelected(name);
+    setSearch('');
+    setError('');
+    setNotice('');
+    try {
+      const [details, trail] = await Promise.all([negativeListApi.getList(name), negativeListApi.getAudit(name)]);
+      setDependents(details.dependents);
+      setAudit(trail);
+    } catch (loadError: any) {
+      setError(loadError.message);
+    }
+  };
+
+  const loadEntries = async (name: string, term: string = search) => {
+    try {
+      const page = await negativeListApi.getEntries(name, { search: term || undefined, include_removed: includeRemoved, limit: 100 });
+      setEntries(page.entries);
+      setTotal(page.total);
+    } catch (loadError: any) {
+      setError(loadError.message);
+    }
+  };
+
+  // Entries, counts and the audit trail after a change
+  const refresh = async (name: string) => {
+    await Promise.all([loadEntries(name), loadLists(), negativeListApi.getAudit(name).then(setAudit)]);
+  };
+
+  const handleCreate = async () => {
+    if (!newList?.name) return;
+    setError('');
+    try {
+      await negativeListApi.createList({ ...newList, description: newList.description || undefined } as Partial<NegativeList>);
+      const name = newList.name;
+      setNewList(null);
+      await loadLists();
+      await openList(name);
+    } catch (createError: any) {
+      setError(createError.message);
+    }
+  };
+
+  const handleUpdate = async (updates: Partial<NegativeList>) => {
+    if (!selected) return;
+    try {
+      await negativeListApi.updateList(selected, updates);
+      await loadLists();
+      setAudit(await negativeListApi.getAudit(selected));
+    } catch (updateError: any) {
+      setError(updateError.message);
+    }
+  };
+
+  const handleAddEntry = async () => {
+    if (!selected || !entry.value.trim()) return;
+    setError('');
+    try {
+      const result = await negativeListApi.addEntries(selected, [{
+        value: entry.value.trim(),
+        ...(entry.reason_code ? { reason_code: entry.reason_code } : {}),
+        ...(entry.notes ? { notes: entry.notes } : {}),
+        ...(entry.expires_at ? { expires_at: entry.expires_at } : {}),
+      }]);
+      setNotice(result.added ? 'Entry added' : 'Value was already listed; its details were updated');
+      setEntry(emptyEntry);
+      await refresh(selected);
+    } catch (addError: any) {
+      setError(addError.message);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!selected || !file) return;
+    setError('');
+    try {
+      const result = await negativeListApi.importFile(selected, file);
+      setNotice(`Imported ${file.name}: ${result.added} added, ${result.updated} updated`);
+      await refresh(selected);
+    } catch (importError: any) {
+      setError(importError.message);
+    }
+  };
+
+  const handleRemove = async (item: NegativeListEntry) => {
+    if (!selected) return;
+    const reason = prompt(`Remove "${item.value}" from ${selected}? Reason:`);
+    if (reason === null) return;
+    try {
+      await negativeListApi.removeEntry(selected, item.id, reason || undefined);
+      await refresh(selected);
+    } catch (removeError: any) {
+      setError(removeError.message);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!confirm(`Delete negative list "${name}" and all its entries?`)) return;
+
+    try {
+      await negativeListApi.deleteList(name);
+      setSelected(null);
+      loadLists();
+    } catch (deleteError: any) {
+      alert(deleteError.message);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const selectedList = lists.find(l => l.name === selected);
+  const isExpired = (item: NegativeListEntry) => !!item.expires_at && new Date(item.expires_at) <= new Date();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Negative Lists</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Values checked by negative list nodes; a hit routes to rejection or manual review per list
+          </p>
+        </div>
+        <button onClick={() => setNewList({ ...emptyList })} className="btn btn-primary">
+          + New List
+        </button>
+      </div>
+
+      {error && <div className="card text-sm text-red-600">{error}</div>}
+
+      {/* Create form */}
+      {newList && (
+        <div className="card space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">New negative list</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <label className="block text-sm">
+              <span className="text-gray-700">Name</span>
+              <input
+                type="text"
+                value={newList.name}
+                onChange={(e) => setNewList({ ...newList, name: e.target.value })}
+                placeholder="fraud_pans"
+                className="mt-1 w-full px-3 py-2 font-mono border border-gray-300 rounded-md"
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700">Type</span>
+              <select
+                value={newList.list_type}
+                onChange={(e) => setNewList({ ...newList, list_type: e.target.value as NegativeListType })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {LIST_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700">Matching</span>
+              <select
+                value={newList.match_mode}
+                onChange={(e) => setNewList({ ...newList, match_mode: e.target.value as NegativeListMatchMode })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="normalized">Normalized (case, spacing, formatting)</option>
+                <option value="exact">Exact</option>
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700">On a hit</span>
+              <select
+                value={newList.action}
+                onChange={(e) => setNewList({ ...newList, action: e.target.value as NegativeListAction })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="reject">Reject</option>
+                <option value="manual_review">Manual review</option>
+              </select>
+            </label>
+          </div>
+          <input
+            type="text"
+            value={newList.description}
+            onChange={(e) => setNewList({ ...newList, description: e.target.value })}
+            placeholder="Description"
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md"
+          />
+          <div className="flex justify-end gap-3">
+            <button onClick={() => setNewList(null)} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button onClick={handleCreate} disabled={!newList.name} className="btn btn-primary disabled:opacity-50">
+              Create
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Lists */}
+        <div className="card p-0 overflow-hidden">
+          {lists.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">No negative lists yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {lists.map(list => (
+                <li key={list.id}>
+                  <button
+                    onClick={() => openList(list.name)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${selected === list.name ? 'bg-blue-50' : ''}`}
+                  >
+                    <div className="flex justify-between items-center">
+                      <span className="font-mono font-medium text-gray-900">{list.name}</span>
+                      <span className={`text-xs px-2 py-0.5 rounded ${list.action === 'reject' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'}`}>
+                        {ACTION_LABELS[list.action]}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {list.active_entries ?? 0} entries · {LIST_TYPES.find(t => t.value === list.list_type)?.label} · {list.match_mode}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Selected list */}
+        <div className="card lg:col-span-2">
+          {!selectedList ? (
+            <p className="text-gray-500">Select a list to manage its entries</p>
+          ) : (
+            <div className="space-y-5">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h2 className="text-lg font-semibold font-mono text-gray-900">{selectedList.name}</h2>
+                  {selectedList.description && <p className="text-sm text-gray-500">{selectedList.description}</p>}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {dependents.length > 0
+                      ? `Checked by ${dependents.map(p => p.name).join(', ')}`
+                      : 'Not checked by any policy'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={selectedList.match_mode}
+                    onChange={(e) => handleUpdate({ match_mode: e.target.value as NegativeListMatchMode })}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  >
+                    <option value="normalized">Normalized</option>
+                    <option value="exact">Exact</option>
+                  </select>
+                  <select
+                    value={selectedList.action}
+                    onChange={(e) => handleUpdate({ action: e.target.value as NegativeListAction })}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  >
+                    <option value="reject">Reject</option>
+                    <option value="manual_review">Manual review</option>
+                  </select>
+                  <button onClick={() => handleDelete(selectedList.name)} className="btn btn-danger text-sm">
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {/* Add an entry */}
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+                <input
+                  type="text"
+                  value={entry.value}
+                  onChange={(e) => setEntry({ ...entry, value: e.target.value })}
+                  placeholder="Value"
+                  className="md:col-span-2 px-3 py-2 text-sm font-mono border border-gray-300 rounded-md"
+                />
+                <input
+                  type="text"
+                  value={entry.reason_code}
+                  onChange={(e) => setEntry({ ...entry, reason_code: e.target.value })}
+                  placeholder="Reason code"
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md"
+                />
+                <input
+                  type="date"
+                  value={entry.expires_at}
+                  onChange={(e) => setEntry({ ...entry, expires_at: e.target.value })}
+                  title="Expires on (optional)"
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md"
+                />
+                <button onClick={handleAddEntry} disabled={!entry.value.trim()} className="btn btn-primary text-sm disabled:opacity-50">
+                  Add
+                </button>
+                <input
+                  type="text"
+                  value={entry.notes}
+                  onChange={(e) => setEntry({ ...entry, notes: e.target.value })}
+                  placeholder="Notes"
+                  className="md:col-span-5 px-3 py-2 text-sm border border-gray-300 rounded-md"
+                />
+              </div>
+              <label className="block text-sm text-gray-700">
+                Bulk import (CSV or Excel with value, reason_code, notes, expires_at columns):
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,.xls"
+                  onChange={(e) => {
+                    handleImport(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                  className="ml-2 text-sm"
+                />
+              </label>
+              {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+              {/* Entries */}
+              <div>
+                <div className="flex items-center gap-3 mb-2">
+                  <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && loadEntries(selectedList.name)}
+                    placeholder="Search values or reason codes"
+                    className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md"
+                  />
+                  <label className="flex items-center gap-1 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={includeRemoved}
+                      onChange={(e) => setIncludeRemoved(e.target.checked)}
+                    />
+                    Show removed
+                  </label>
+                  <span className="text-xs text-gray-500">{total} entries</span>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-xs border border-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-gray-700">Value</th>
+                        <th className="px-3 py-2 text-left text-gray-700">Reason</th>
+                        <th className="px-3 py-2 text-left text-gray-700">Expires</th>
+                        <th className="px-3 py-2 text-left text-gray-700">Added</th>
+                        <th className="px-3 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {entries.map(item => (
+                        <tr key={item.id} className={item.removed_at || isExpired(item) ? 'text-gray-400' : 'text-gray-800'}>
+                          <td className="px-3 py-1.5 font-mono" title={item.notes || undefined}>
+                            {item.value}
+                            {item.removed_at && <span className="ml-2 italic">removed{item.removal_reason ? `: ${item.removal_reason}` : ''}</span>}
+                          </td>
+                          <td className="px-3 py-1.5">{item.reason_code || '—'}</td>
+                          <td className="px-3 py-1.5">
+                            {item.expires_at ? new Date(item.expires_at).toLocaleDateString() : 'never'}
+                            {isExpired(item) ? ' (expired)' : ''}
+                          </td>
+                          <td className="px-3 py-1.5">
+                            {new Date(item.added_at).toLocaleDateString()}
+                            {item.added_by_name ? ` by ${item.added_by_name}` : ''}
+                          </td>
+                          <td className="px-3 py-1.5 text-right">
+                            {!item.removed_at && (
+                              <button onClick={() => handleRemove(item)} className="text-red-600 hover:underline">
+                                Remove
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Audit trail */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Audit trail</h3>
+                <ol className="text-xs space-y-1 max-h-48 overflow-y-auto">
+                  {audit.map(item => (
+                    <li key={item.id} className="flex justify-between gap-3">
+                      <span className="text-gray-800">
+                        {item.action.replace(/_/g, ' ')}
+                        {item.details?.added !== undefined ? ` — ${item.details.added} added, ${item.details.updated} updated` : ''}
+                        {item.details?.value ? ` — ${item.details.value}` : ''}
+                        {item.details?.reason ? ` (${item.details.reason})` : ''}
+                      </span>
+                      <span className="text-gray-400 whitespace-nowrap">
+                        {item.user_name ? `${item.user_name}, ` : ''}
+                        {new Date(item.created_at).toLocaleString()}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NegativeLists;
@@ -1,11 +1,44 @@
 import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { apiService } from '../services/api';
+import { policyApi, PolicyBundle, ImportPreview, ImportResult, ImportStrategy } from '../services/policyApi';
+
+const DEPENDENCY_BADGES: Record<string, string> = {
+  resolved: 'bg-green-100 text-green-800',
+  identical: 'bg-green-100 text-green-800',
+  new_table: 'bg-blue-100 text-blue-800',
+  new_version: 'bg-blue-100 text-blue-800',
+  missing: 'bg-red-100 text-red-800',
+  ambiguous: 'bg-amber-100 text-amber-800',
+};
+
+interface ImportState {
+  bundle: PolicyBundle | null;
+  preview: ImportPreview | null;
+  mappings: Record<string, string>;
+  strategy: ImportStrategy;
+  name: string;
+  result: ImportResult | null;
+}
+
+const emptyImport = (): ImportState => ({
+  bundle: null,
+  preview: null,
+  mappings: {},
+  strategy: 'new_policy',
+  name: '',
+  result: null,
+});
 
 const Policies: React.FC = () => {
   const [policies, setPolicies] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState('all');
+  const [importState, setImportState] = useState<ImportState | null>(null);
+  const [importError, setImportError] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [connectors, setConnectors] = useState<any[]>([]);
+  const [allPolicies, setAllPolicies] = useState<any[]>([]);
 
   useEffect(() => {
     loadPolicies();
@@ -50,6 +83,87 @@ const Policies: React.FC = () => {
     }
   };
 
+  const handleExport = async (policy: any) => {
+    try {
+      const bundle = await policyApi.exportPolicy(policy.id);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${policy.name}-bundle.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Failed to export policy:', error);
+      alert(error.message);
+    }
+  };
+
+  const openImport = async () => {
+    setImportState(emptyImport());
+    setImportError('');
+    try {
+      const [connectorResponse, policyResponse] = await Promise.all([
+        apiService.getConnectors(),
+        apiService.getPolicies(),
+      ]);
+      if (connectorResponse.success) setConnectors(connectorResponse.data);
+      if (policyResponse.success) setAllPolicies(policyResponse.data);
+    } catch (error) {
+      console.error('Failed to load import choices:', error);
+    }
+  };
+
+  // The preview is re-run whenever a mapping changes so errors clear as references resolve
+  const runPreview = async (bundle: PolicyBundle, mappings: Record<string, string>) => {
+    try {
+      const preview = await policyApi.previewImport(bundle, { mappings });
+      setImportState(state => state && { ...state, bundle, mappings, preview, result: null });
+      setImportError('');
+    } catch (error: any) {
+      setImportError(error.message);
+    }
+  };
+
+  const handleBundleFile = async (file: File | undefined) => {
+    if (!file) return;
+    let bundle: PolicyBundle;
+    try {
+      bundle = JSON.parse(await file.text());
+    } catch (error) {
+      setImportError(`${file.name} is not a JSON bundle`);
+      return;
+    }
+    runPreview(bundle, {});
+  };
+
+  const setMapping = (ref: string, id: string) => {
+    if (!importState?.bundle) return;
+    const mappings = { ...importState.mappings };
+    if (id) mappings[ref] = id;
+    else delete mappings[ref];
+    runPreview(importState.bundle, mappings);
+  };
+
+  const handleImport = async () => {
+    if (!importState?.bundle || !importState.preview) return;
+    const { bundle, preview, mappings, strategy, name } = importState;
+    setIsImporting(true);
+    try {
+      const result = await policyApi.importPolicy(bundle, {
+        mappings,
+        strategy: preview.conflict ? strategy : 'new_policy',
+        name: name.trim() || undefined,
+      });
+      setImportState({ ...importState, result });
+      setImportError('');
+      loadPolicies();
+    } catch (error: any) {
+      setImportError(error.message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -62,11 +176,214 @@ const Policies: React.FC = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold text-gray-900">Policies</h1>
-        <Link to="/policies/new" className="btn btn-primary">
-          + Create New Policy
-        </Link>
+        <div className="flex gap-3">
+          <button onClick={openImport} className="btn btn-secondary">
+            Import Bundle
+          </button>
+          <Link to="/policies/new" className="btn btn-primary">
+            + Create New Policy
+          </Link>
+        </div>
       </div>
 
+      {/* Bundle import */}
+      {importState && (
+        <div className="card space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Import a policy bundle</h2>
+          <label className="block text-sm">
+            <span className="text-gray-700">Bundle file exported from another environment</span>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => handleBundleFile(e.target.files?.[0])}
+              className="mt-1 w-full text-sm"
+            />
+          </label>
+
+          {importError && <p className="text-sm text-red-600">{importError}</p>}
+
+          {importState.preview && (() => {
+            const preview = importState.preview;
+            return (
+              <div className="space-y-4 text-sm">
+                <div className="flex flex-wrap gap-4 text-gray-700">
+                  <span className="font-semibold text-gray-900">
+                    {preview.policy.name} v{preview.policy.version}
+                  </span>
+                  <span>{preview.policy.product_type}{preview.policy.is_fragment ? ' · fragment' : ''}</span>
+                  <span className={preview.checksum_valid ? 'text-green-700' : 'text-red-600'}>
+                    checksum {preview.checksum_valid ? 'valid' : 'invalid'}
+                  </span>
+                  <span className={preview.signature === 'valid' ? 'text-green-700' : preview.signature === 'invalid' ? 'text-red-600' : 'text-amber-700'}>
+                    signature {preview.signature}
+                  </span>
+                  <span>{preview.parameters} parameters · {preview.test_cases} test cases</span>
+                </div>
+
+                {preview.connectors.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold text-gray-700 mb-1">Connectors</h3>
+                    <ul className="space-y-1">
+                      {preview.connectors.map(connector => (
+                        <li key={connector.ref} className="flex items-center gap-2">
+                          <span className={`px-1.5 rounded text-[10px] uppercase ${DEPENDENCY_BADGES[connector.status]}`}>{connector.status}</span>
+                          <span className="font-mono">{connector.name}</span>
+                          <span className="text-gray-500">{connector.type}{connector.provider ? ` · ${connector.provider}` : ''}</span>
+                          {connector.matched_by && <span className="text-gray-500">matched by {connector.matched_by}</span>}
+                          {(connector.status !== 'resolved' || connector.matched_by === 'mapping') && (
+                            <select
+                              value={importState.mappings[connector.ref] || ''}
+                              onChange={(e) => setMapping(connector.ref, e.target.value)}
+                              className="px-2 py-1 border border-gray-300 rounded-md"
+                            >
+                              <option value="">Map to a connector…</option>
+                              {(connector.candidates.length > 0
+                                ? connector.candidates
+                                : connectors.filter(c => c.type === connector.type)
+                              ).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </select>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {preview.sub_policies.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold text-gray-700 mb-1">Sub-policies</h3>
+                    <ul className="space-y-1">
+                      {preview.sub_policies.map(subPolicy => (
+                        <li key={subPolicy.ref} className="flex items-center gap-2">
+                          <span className={`px-1.5 rounded text-[10px] uppercase ${DEPENDENCY_BADGES[subPolicy.status]}`}>{subPolicy.status}</span>
+                          <span className="font-mono">{subPolicy.name}</span>
+                          {subPolicy.missing_versions.length > 0 && (
+                            <span className="text-red-600">missing v{subPolicy.missing_versions.join(', v')}</span>
+                          )}
+                          {(subPolicy.status !== 'resolved' || subPolicy.matched_by === 'mapping') && (
+                            <select
+                              value={importState.mappings[subPolicy.ref] || ''}
+                              onChange={(e) => setMapping(subPolicy.ref, e.target.value)}
+                              className="px-2 py-1 border border-gray-300 rounded-md"
+                            >
+                              <option value="">Map to a policy…</option>
+                              {(subPolicy.candidates.length > 0
+                                ? subPolicy.candidates
+                                : allPolicies.filter(p => p.is_fragment === subPolicy.is_fragment)
+                              ).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {(preview.reference_tables.length > 0 || preview.negative_lists.length > 0) && (
+                  <div>
+                    <h3 className="font-semibold text-gray-700 mb-1">Reference data</h3>
+                    <ul className="space-y-1">
+                      {preview.reference_tables.map(table => (
+                        <li key={`${table.name}:${table.version}`} className="flex items-center gap-2">
+                          <span className={`px-1.5 rounded text-[10px] uppercase ${DEPENDENCY_BADGES[table.status]}`}>
+                            {table.status.replace('_', ' ')}
+                          </span>
+                          <span className="font-mono">{table.name}</span>
+                          <span className="text-gray-500">
+                            {table.row_count} rows{table.local_version != null ? ` · same as local v${table.local_version}` : ''}
+                          </span>
+                        </li>
+                      ))}
+                      {preview.negative_lists.map(list => (
+                        <li key={list.name} className="flex items-center gap-2">
+                          <span className={`px-1.5 rounded text-[10px] uppercase ${DEPENDENCY_BADGES[list.exists ? 'resolved' : 'missing']}`}>
+                            {list.exists ? 'resolved' : 'missing'}
+                          </span>
+                          <span className="font-mono">{list.name}</span>
+                          <span className="text-gray-500">negative list</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {preview.errors.length > 0 && (
+                  <ul className="list-disc pl-5 text-red-600">
+                    {preview.errors.map(message => <li key={message}>{message}</li>)}
+                  </ul>
+                )}
+                {preview.warnings.length > 0 && (
+                  <ul className="list-disc pl-5 text-amber-700">
+                    {preview.warnings.map(message => <li key={message}>{message}</li>)}
+                  </ul>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {preview.conflict && (
+                    <label className="block">
+                      <span className="text-gray-700">
+                        "{preview.conflict.name}" exists here ({preview.conflict.status}, v{preview.conflict.version})
+                      </span>
+                      <select
+                        value={importState.strategy}
+                        onChange={(e) => setImportState({ ...importState, strategy: e.target.value as ImportStrategy })}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+                      >
+                        <option value="new_policy">Create a separate policy</option>
+                        <option value="new_version">Publish as its next version</option>
+                        <option value="abort">Abort</option>
+                      </select>
+                    </label>
+                  )}
+                  {(!preview.conflict || importState.strategy === 'new_policy') && (
+                    <label className="block">
+                      <span className="text-gray-700">Policy name</span>
+                      <input
+                        type="text"
+                        value={importState.name}
+                        onChange={(e) => setImportState({ ...importState, name: e.target.value })}
+                        placeholder={preview.conflict ? `${preview.policy.name} (imported)` : preview.policy.name}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+                      />
+                    </label>
+                  )}
+                </div>
+              </div>
+            );
+          })()}
+
+          {importState.result && (
+            <p className="text-sm text-green-700">
+              {importState.result.action === 'created' ? 'Created' : 'Published'}{' '}
+              <Link to={`/policies/${importState.result.policy.id}/edit`} className="underline">
+                {importState.result.policy.name}
+              </Link>{' '}
+              v{importState.result.version} · {importState.result.test_cases_imported} test cases imported
+              {importState.result.parameter_set_id && ' · parameters await approval'}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button onClick={() => setImportState(null)} className="btn btn-secondary">
+              {importState.result ? 'Close' : 'Cancel'}
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={
+                !importState.preview
+                || importState.preview.errors.length > 0
+                || (!!importState.preview.conflict && importState.strategy === 'abort')
+                || !!importState.result
+                || isImporting
+              }
+              className="btn btn-primary"
+            >
+              {isImporting ? 'Importing…' : 'Import'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Filters */}
       <div className="flex space-x-4">
         <button
@@ -104,7 +421,10 @@ const Policies: React.FC = () => {
               <div className="flex justify-between items-start mb-4">
                 <div>
                   <h3 className="text-lg font-semibold text-gray-900">{policy.name}</h3>
-                  <p className="text-sm text-gray-500">{policy.product_type}</p>
+                  <p className="text-sm text-gray-500">
+                    {policy.product_type}
+                    {policy.is_fragment && <span className="ml-2 text-teal-700">· fragment</span>}
+                  </p>
                 </div>
                 <span
                   className={`px-2 py-1 text-xs font-medium rounded-full ${
@@ -140,6 +460,12 @@ const Policies: React.FC = () => {
                     Activate
                   </button>
                 )}
+                <button
+                  onClick={() => handleExport(policy)}
+                  className="btn btn-secondary text-sm"
+                >
+                  Export
+                </button>
                 <button
                   onClick={() => handleDelete(policy.id)}
                   className="btn btn-danger text-sm"
@@ -1,4 +1,4 @@
-import React, { useEffect, useCallback, useState } from 'react';
+import React, { useEffect, useCallback, useMemo, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   ArrowLeftIcon,
@@ -8,15 +8,46 @@ import {
   BeakerIcon,
   ChevronLeftIcon,
   ChevronRightIcon,
+  DocumentTextIcon,
+  QuestionMarkCircleIcon,
+  AdjustmentsHorizontalIcon,
+  EyeIcon,
+  ClockIcon,
+  ArrowsRightLeftIcon,
 } from '@heroicons/react/24/outline';
 
-import { usePolicyBuilderStore } from '../stores/policyBuilderStore';
+import {
+  usePolicyBuilderStore,
+  ConditionGroup,
+  DecisionTableConfig,
+  StrategyAggregationMode,
+  LookupConfig,
+  VelocityConfig,
+  NegativeListCheckConfig,
+  SubPolicyConfig,
+  SwitchConfig,
+  SWITCH_DEFAULT_HANDLE,
+  toConditionGroup,
+} from '../stores/policyBuilderStore';
 import { NodePalette } from '../components/policy-builder/NodePalette';
 import { CanvasWithProvider } from '../components/policy-builder/Canvas';
 import { PropertyPanel } from '../components/policy-builder/PropertyPanel';
-import { StrategyConfigModal } from '../components/policy-builder/modals/StrategyConfigModal';
+import { StrategyConfigModal, StrategyOptions } from '../components/policy-builder/modals/StrategyConfigModal';
+import { DecisionTableConfigModal } from '../components/policy-builder/modals/DecisionTableConfigModal';
+import { SubPolicyConfigModal } from '../components/policy-builder/modals/SubPolicyConfigModal';
+import { SwitchConfigModal } from '../components/policy-builder/modals/SwitchConfigModal';
+import { LookupConfigModal } from '../components/policy-builder/modals/LookupConfigModal';
+import { VelocityConfigModal } from '../components/policy-builder/modals/VelocityConfigModal';
+import { NegativeListCheckModal } from '../components/policy-builder/modals/NegativeListCheckModal';
+import { InputSchemaModal } from '../components/policy-builder/modals/InputSchemaModal';
+import { MissingDataModal } from '../components/policy-builder/modals/MissingDataModal';
+import { ParametersModal, valuesOf } from '../components/policy-builder/modals/ParametersModal';
+import { ShadowPoliciesModal } from '../components/policy-builder/modals/ShadowPoliciesModal';
+import { BacktestModal } from '../components/policy-builder/modals/BacktestModal';
+import { VersionDiffModal } from '../components/policy-builder/modals/VersionDiffModal';
 import { TestModal } from '../components/policy-builder/modals/TestModal';
 import { TestPanel } from '../components/policy-builder/TestPanel';
+import { DebugPanel } from '../components/policy-builder/DebugPanel';
 import { TestResultsOverlay } from '../components/policy-builder/TestResultsOverlay';
 import { policyApi } from '../services/policyApi';
 
@@ -30,10 +61,22 @@ const PolicyBuilder: React.FC = () => {
   const [isTestPanelOpen, setIsTestPanelOpen] = useState(false);
   const [isTestRunning, setIsTestRunning] = useState(false);
   const [pendingTestData, setPendingTestData] = useState<any>(null);
+  const [isInputSchemaOpen, setIsInputSchemaOpen] = useState(false);
+  const [isMissingDataOpen, setIsMissingDataOpen] = useState(false);
+  const [isParametersOpen, setIsParametersOpen] = useState(false);
+  const [isShadowsOpen, setIsShadowsOpen] = useState(false);
+  const [isBacktestOpen, setIsBacktestOpen] = useState(false);
+  const [isDiffOpen, setIsDiffOpen] = useState(false);
+  const [isDebugBusy, setIsDebugBusy] = useState(false);
+  const [debugError, setDebugError] = useState('');
 
   const {
     policyName,
     policyDescription,
+    strategyAggregation,
+    inputSchema,
+    missingDataSettings,
+    isFragment,
     nodes,
     edges,
     validationErrors,
@@ -42,6 +85,11 @@ const PolicyBuilder: React.FC = () => {
     isTestModalOpen,
     testResults,
     setPolicyMetadata,
+    setStrategyAggregation,
+    setInputSchema,
+    setMissingDataSettings,
+    setIsFragment,
+    setEdges,
     loadPolicy,
     clearPolicy,
     validateWorkflow,
@@ -51,8 +99,22 @@ const PolicyBuilder: React.FC = () => {
     closeTestModal,
     clearTestResults,
     testPolicy,
+    breakpoints,
+    debugSession,
+    setDebugSession,
+    setParameterValues,
   } = usePolicyBuilderStore();
 
+  const strategyOptions = useMemo<StrategyOptions>(() => ({
+    defaultDecision: selectedNode?.data?.defaultDecision || 'Rejected',
+    weight: selectedNode?.data?.weight || 1,
+  }), [selectedNode]);
+
+  const strategyConditionGroup = useMemo<ConditionGroup>(
+    () => toConditionGroup(selectedNode?.data || { label: '' }),
+    [selectedNode]
+  );
+
   // Load policy if editing
   useEffect(() => {
     const loadPolicyData = async () => {
@@ -60,6 +122,8 @@ const PolicyBuilder: React.FC = () => {
         try {
           const policy = await policyApi.getPolicyById(id);
           loadPolicy(policy);
+          const parameters = await policyApi.getParameters(id);
+          setParameterValues(valuesOf(parameters.effective));
         } catch (error) {
           console.warn('Failed to load policy (offline mode):', error);
           // Don't show error in offline mode - just start with empty policy
@@ -70,7 +134,7 @@ const PolicyBuilder: React.FC = () => {
     };
 
     loadPolicyData();
-  }, [id, loadPolicy, clearPolicy]);
+  }, [id, loadPolicy, clearPolicy, setParameterValues]);
 
   const handleDragStart = useCallback((event: React.DragEvent, nodeType: string) => {
     event.dataTransfer.setData('application/reactflow', nodeType);
@@ -87,6 +151,58 @@ const PolicyBuilder: React.FC = () => {
     setTimeout(() => setSaveMessage(null), 3000);
   };
 
+  const buildWorkflowJson = () => ({
+    nodes,
+    edges,
+    settings: {
+      strategy_aggregation: strategyAggregation,
+      missing_data: missingDataSettings,
+    },
+    ...(inputSchema ? { input_schema: inputSchema } : {}),
+  });
+
+  // Step-through debugging runs the canvas as it is now on the backend engine
+  const runDebugCommand = async (command: () => Promise<any>) => {
+    setIsDebugBusy(true);
+    setDebugError('');
+    try {
+      setDebugSession(await command());
+    } catch (error: any) {
+      setDebugError(error.message || 'Debugger request failed');
+    } finally {
+      setIsDebugBusy(false);
+    }
+  };
+
+  const handleStartDebug = async (jsonData: any, asOf?: string) => {
+    if (!id) {
+      throw new Error('Save the policy before debugging it');
+    }
+    clearTestResults();
+    setDebugSession(await policyApi.startDebug(id, jsonData, {
+      breakpoints,
+      as_of: asOf,
+      workflow_json: buildWorkflowJson(),
+    }));
+    setDebugError('');
+  };
+
+  const handleStopDebug = async () => {
+    if (id && debugSession) {
+      await policyApi.endDebug(id, debugSession.session_id).catch(() => undefined);
+    }
+    setDebugSession(null);
+    setDebugError('');
+  };
+
+  // Breakpoints toggled on the canvas apply to the running session
+  const debugSessionId = debugSession?.status !== 'completed' ? debugSession?.session_id : undefined;
+  useEffect(() => {
+    if (!id || !debugSessionId) return;
+    policyApi.setDebugBreakpoints(id, debugSessionId, breakpoints)
+      .catch(err => console.warn('Failed to update breakpoints:', err));
+  }, [id, debugSessionId, breakpoints]);
+
   const handleSave = async () => {
     setIsSaving(true);
 
@@ -105,10 +221,8 @@ const PolicyBuilder: React.FC = () => {
         name: policyName || 'Untitled Policy', // Ensure name is never empty
         description: policyDescription || '',
         product_type: 'loan', // Default product type
-        workflow_json: {
-          nodes,
-          edges,
-        },
+        is_fragment: isFragment,
+        workflow_json: buildWorkflowJson(),
       };
 
       console.log('Saving policy with data:', policyData);
@@ -144,6 +258,15 @@ const PolicyBuilder: React.FC = () => {
     }
 
     try {
+      // Parents following 'latest' pick up the new version immediately
+      const dependents = await policyApi.getDependents(id).catch(() => []);
+      if (dependents.length > 0) {
+        const lines = dependents.map(d =>
+          `• ${d.policy_name} (${d.node_label}): ${d.follows_latest ? 'follows latest, affected now' : `pinned to v${d.pinned_version}`}`
+        );
+        if (!confirm(`This policy is called by:\n${lines.join('\n')}\n\nPublish anyway?`)) return;
+      }
+
       await policyApi.publishPolicy(id);
       setSaveMessage({ type: 'success', text: 'Policy published successfully!' });
       setTimeout(() => setSaveMessage(null), 3000);
@@ -161,11 +284,78 @@ const PolicyBuilder: React.FC = () => {
     }
   };
 
-  const handleSaveStrategy = (nodeName: string, conditions: any[]) => {
+  const handleSaveStrategy = (nodeName: string, group: ConditionGroup, options: StrategyOptions) => {
+    if (selectedNode) {
+      updateNodeData(selectedNode.id, {
+        label: nodeName,
+        conditions: group.conditions,
+        conditionOperator: group.operator,
+        defaultDecision: options.defaultDecision,
+        weight: options.weight,
+      });
+      closeConfigModal();
+    }
+  };
+
+  const handleSaveDecisionTable = (nodeName: string, config: DecisionTableConfig) => {
+    if (selectedNode) {
+      updateNodeData(selectedNode.id, {
+        label: nodeName,
+        config,
+      });
+      closeConfigModal();
+    }
+  };
+
+  const handleSaveSwitch = (nodeName: string, config: SwitchConfig) => {
     if (selectedNode) {
       updateNodeData(selectedNode.id, {
         label: nodeName,
-        conditions,
+        config,
+      });
+      // Drop connections of removed cases
+      const handles = new Set([SWITCH_DEFAULT_HANDLE, ...config.cases.map(c => c.id)]);
+      setEdges(edges.filter(e => e.source !== selectedNode.id || handles.has(e.sourceHandle || '')));
+      closeConfigModal();
+    }
+  };
+
+  const handleSaveLookup = (nodeName: string, config: LookupConfig) => {
+    if (selectedNode) {
+      updateNodeData(selectedNode.id, {
+        label: nodeName,
+        config,
+      });
+      closeConfigModal();
+    }
+  };
+
+  const handleSaveVelocity = (nodeName: string, config: VelocityConfig) => {
+    if (selectedNode) {
+      updateNodeData(selectedNode.id, {
+        label: nodeName,
+        config,
+      });
+      closeConfigModal();
+    }
+  };
+
+  const handleSaveNegativeListCheck = (nodeName: string, config: NegativeListCheckConfig) => {
+    if (selectedNode) {
+      updateNodeData(selectedNode.id, {
+        label: nodeName,
+        config,
+      });
+      closeConfigModal();
+    }
+  };
+
+  const handleSaveSubPolicy = (nodeName: string, config: SubPolicyConfig, subPolicyName: string) => {
+    if (selectedNode) {
+      updateNodeData(selectedNode.id, {
+        label: nodeName,
+        config,
+        subPolicyName,
       });
       closeConfigModal();
     }
@@ -219,6 +409,110 @@ const PolicyBuilder: React.FC = () => {
               </div>
             )}
 
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-gray-600">Voting:</label>
+              <select
+                value={strategyAggregation.mode}
+                onChange={(e) => setStrategyAggregation({
+                  ...strategyAggregation,
+                  mode: e.target.value as StrategyAggregationMode,
+                })}
+                className="px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-700"
+                title="How strategy node decisions combine into the final decision"
+              >
+                <option value="strict_veto">Strict veto</option>
+                <option value="weighted">Weighted</option>
+                <option value="first_decisive">First decisive wins</option>
+                <option value="n_of_m_reject">Reject if N reject</option>
+              </select>
+              {strategyAggregation.mode === 'n_of_m_reject' && (
+                <input
+                  type="number"
+                  min={1}
+                  value={strategyAggregation.reject_threshold || 1}
+                  onChange={(e) => setStrategyAggregation({
+                    ...strategyAggregation,
+                    reject_threshold: Number(e.target.value),
+                  })}
+                  className="w-16 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                  title="Number of rejecting strategies required to reject"
+                />
+              )}
+            </div>
+
+            <label
+              className="flex items-center gap-2 text-sm text-gray-600"
+              title="Library-only policy: callable from sub-policy nodes, never used to underwrite directly"
+            >
+              <input
+                type="checkbox"
+                checked={isFragment}
+                onChange={(e) => setIsFragment(e.target.checked)}
+              />
+              Fragment
+            </label>
+
+            <button
+              onClick={() => setIsInputSchemaOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              title="Fields, types and ranges every application must satisfy"
+            >
+              <DocumentTextIcon className="w-5 h-5" />
+              Input Schema
+              {inputSchema && (
+                <span className="text-xs text-gray-500">({Object.keys(inputSchema.properties || {}).length})</span>
+              )}
+            </button>
+
+            <button
+              onClick={() => setIsMissingDataOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              title="What conditions and scores do when a variable is missing"
+            >
+              <QuestionMarkCircleIcon className="w-5 h-5" />
+              Missing Data
+            </button>
+
+            <button
+              onClick={() => setIsParametersOpen(true)}
+              disabled={!id}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title={id ? 'Thresholds changed through maker-checker approval' : 'Save the policy first'}
+            >
+              <AdjustmentsHorizontalIcon className="w-5 h-5" />
+              Parameters
+            </button>
+
+            <button
+              onClick={() => setIsShadowsOpen(true)}
+              disabled={!id || isFragment}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title={!id ? 'Save the policy first' : isFragment ? 'Fragments do not take live requests' : 'Trial challenger policies on live requests'}
+            >
+              <EyeIcon className="w-5 h-5" />
+              Shadows
+            </button>
+
+            <button
+              onClick={() => setIsBacktestOpen(true)}
+              disabled={!id || isFragment}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title={!id ? 'Save the policy first' : isFragment ? 'Fragments do not take live requests' : 'Replay past applications through this policy'}
+            >
+              <ClockIcon className="w-5 h-5" />
+              Backtest
+            </button>
+
+            <button
+              onClick={() => setIsDiffOpen(true)}
+              disabled={!id}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title={id ? 'Compare published versions side by side' : 'Save the policy first'}
+            >
+              <ArrowsRightLeftIcon className="w-5 h-5" />
+              Compare
+            </button>
+
             <button
               onClick={handleValidate}
               className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
@@ -283,24 +577,39 @@ const PolicyBuilder: React.FC = () => {
         {/* Test Panel (Split View Left Side - 30%) */}
         {isTestPanelOpen && (
           <div className="w-[30%] border-r border-gray-300 animate-slide-in-left">
-            <TestPanel
-              onClose={() => {
-                setIsTestPanelOpen(false);
-                clearTestResults();
-                setPendingTestData(null);
-              }}
-              onRunTest={async (jsonData) => {
-                setIsTestRunning(true);
-                try {
+            {debugSession && id ? (
+              <DebugPanel
+                onClose={handleStopDebug}
+                onStep={() => runDebugCommand(() => policyApi.debugStep(id, debugSession.session_id))}
+                onContinue={() => runDebugCommand(() => policyApi.debugContinue(id, debugSession.session_id))}
+                onSetVariable={(name, value) => runDebugCommand(() =>
+                  policyApi.setDebugVariables(id, debugSession.session_id, { [name]: value }))}
+                onRemoveVariable={(name) => runDebugCommand(() =>
+                  policyApi.setDebugVariables(id, debugSession.session_id, {}, [name]))}
+                isBusy={isDebugBusy}
+                error={debugError}
+              />
+            ) : (
+              <TestPanel
+                onClose={() => {
+                  setIsTestPanelOpen(false);
                   clearTestResults();
-                  await testPolicy(jsonData);
-                } finally {
-                  setIsTestRunning(false);
-                }
-              }}
-              isRunning={isTestRunning}
-              initialJsonData={pendingTestData}
-            />
+                  setPendingTestData(null);
+                }}
+                onDebug={handleStartDebug}
+                onRunTest={async (jsonData, asOf) => {
+                  setIsTestRunning(true);
+                  try {
+                    clearTestResults();
+                    await testPolicy(jsonData, asOf);
+                  } finally {
+                    setIsTestRunning(false);
+                  }
+                }}
+                isRunning={isTestRunning}
+                initialJsonData={pendingTestData}
+              />
+            )}
           </div>
         )}
 
@@ -393,12 +702,131 @@ const PolicyBuilder: React.FC = () => {
         <StrategyConfigModal
           isOpen={isConfigModalOpen}
           nodeName={selectedNode.data?.label || 'Strategy'}
-          conditions={selectedNode.data?.conditions || []}
+          group={strategyConditionGroup}
+          options={strategyOptions}
           onClose={closeConfigModal}
           onSave={handleSaveStrategy}
         />
       )}
 
+      {/* Decision Table Configuration Modal */}
+      {selectedNode && selectedNode.type === 'decisionTable' && (
+        <DecisionTableConfigModal
+          isOpen={isConfigModalOpen}
+          nodeName={selectedNode.data?.label || 'Decision Table'}
+          config={(selectedNode.data.config as DecisionTableConfig) ?? { hit_policy: 'UNIQUE', inputs: [], outputs: [], rules: [] }}
+          onClose={closeConfigModal}
+          onSave={handleSaveDecisionTable}
+        />
+      )}
+
+      {/* Switch Configuration Modal */}
+      {selectedNode && selectedNode.type === 'switch' && (
+        <SwitchConfigModal
+          isOpen={isConfigModalOpen}
+          nodeName={selectedNode.data?.label || 'Switch'}
+          config={(selectedNode.data.config as SwitchConfig) ?? { expression: '', cases: [] }}
+          onClose={closeConfigModal}
+          onSave={handleSaveSwitch}
+        />
+      )}
+
+      {/* Lookup Configuration Modal */}
+      {selectedNode && selectedNode.type === 'lookup' && (
+        <LookupConfigModal
+          isOpen={isConfigModalOpen}
+          nodeName={selectedNode.data?.label || 'Lookup'}
+          config={(selectedNode.data.config as LookupConfig) ?? { table: '', key: '', output_variable: '' }}
+          onClose={closeConfigModal}
+          onSave={handleSaveLookup}
+        />
+      )}
+
+      {/* Velocity Configuration Modal */}
+      {selectedNode && selectedNode.type === 'velocity' && (
+        <VelocityConfigModal
+          isOpen={isConfigModalOpen}
+          nodeName={selectedNode.data?.label || 'Velocity'}
+          config={(selectedNode.data.config as VelocityConfig) ?? { checks: [], output_variable: '' }}
+          onClose={closeConfigModal}
+          onSave={handleSaveVelocity}
+        />
+      )}
+
+      {/* Negative List Check Configuration Modal */}
+      {selectedNode && selectedNode.type === 'negativeListCheck' && (
+        <NegativeListCheckModal
+          isOpen={isConfigModalOpen}
+          nodeName={selectedNode.data?.label || 'Negative List Check'}
+          config={(selectedNode.data.config as NegativeListCheckConfig) ?? { checks: [] }}
+          onClose={closeConfigModal}
+          onSave={handleSaveNegativeListCheck}
+        />
+      )}
+
+      {/* Sub-policy Configuration Modal */}
+      {selectedNode && selectedNode.type === 'subPolicy' && (
+        <SubPolicyConfigModal
+          isOpen={isConfigModalOpen}
+          nodeName={selectedNode.data?.label || 'Sub-policy'}
+          config={(selectedNode.data.config as SubPolicyConfig) ?? { policy_id: '', version: '', input_mapping: {}, output_mapping: {} }}
+          currentPolicyId={id || null}
+          onClose={closeConfigModal}
+          onSave={handleSaveSubPolicy}
+        />
+      )}
+
+      {/* Input Schema Modal */}
+      <InputSchemaModal
+        isOpen={isInputSchemaOpen}
+        schema={inputSchema}
+        onClose={() => setIsInputSchemaOpen(false)}
+        onSave={(schema) => {
+          setInputSchema(schema);
+          setIsInputSchemaOpen(false);
+        }}
+      />
+
+      {/* Missing Data Modal */}
+      <MissingDataModal
+        isOpen={isMissingDataOpen}
+        settings={missingDataSettings}
+        onClose={() => setIsMissingDataOpen(false)}
+        onSave={(settings) => {
+          setMissingDataSettings(settings);
+          setIsMissingDataOpen(false);
+        }}
+      />
+
+      {/* Parameters Modal */}
+      <ParametersModal
+        isOpen={isParametersOpen}
+        policyId={id || null}
+        onClose={() => setIsParametersOpen(false)}
+        onEffectiveChange={setParameterValues}
+      />
+
+      {/* Shadow Policies Modal */}
+      <ShadowPoliciesModal
+        isOpen={isShadowsOpen}
+        policyId={id || null}
+        onClose={() => setIsShadowsOpen(false)}
+      />
+
+      {/* Backtest Modal */}
+      <BacktestModal
+        isOpen={isBacktestOpen}
+        policyId={id || null}
+        onClose={() => setIsBacktestOpen(false)}
+      />
+
+      {/* Version Diff Modal */}
+      <VersionDiffModal
+        isOpen={isDiffOpen}
+        policyId={id || null}
+        onClose={() => setIsDiffOpen(false)}
+      />
+
       {/* Test Modal */}
       <TestModal
         isOpen={isTestModalOpen && !isTestPanelOpen}
@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from 'react';
+import {
+  referenceTableApi,
+  ReferenceColumn,
+  ReferenceColumnType,
+  ReferenceTableSummary,
+  ReferenceTableVersion,
+} from '../services/referenceTableApi';
+
+const COLUMN_TYPES: ReferenceColumnType[] = ['string', 'number', 'boolean'];
+
+interface UploadForm {
+  name: string;
+  file: File | null;
+  key_column: string;
+  description: string;
+  change_notes: string;
+  columns: ReferenceColumn[]; // type overrides; empty keeps the previous or detected types
+}
+
+const emptyForm = (name: string = '', table?: ReferenceTableSummary): UploadForm => ({
+  name,
+  file: null,
+  key_column: table?.key_column || '',
+  description: '',
+  change_notes: '',
+  columns: table?.columns || [],
+});
+
+const ReferenceTables: React.FC = () => {
+  const [tables, setTables] = useState<ReferenceTableSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [versions, setVersions] = useState<ReferenceTableVersion[]>([]);
+  const [preview, setPreview] = useState<ReferenceTableVersion | null>(null);
+  const [form, setForm] = useState<UploadForm | null>(null);
+  const [error, setError] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+
+  useEffect(() => {
+    loadTables();
+  }, []);
+
+  const loadTables = async () => {
+    try {
+      setTables(await referenceTableApi.getTables());
+    } catch (loadError: any) {
+      console.error('Failed to load reference tables:', loadError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openTable = async (name: string) => {
+    setSelected(name);
+    setPreview(null);
+    try {
+      const data = await referenceTableApi.getTable(name);
+      setVersions(data.versions);
+      if (data.versions.length > 0) {
+        setPreview(await referenceTableApi.getVersion(name, data.versions[0].version));
+      }
+    } catch (loadError: any) {
+      setError(loadError.message);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!form?.file || !form.name) return;
+    setIsUploading(true);
+    setError('');
+    try {
+      await referenceTableApi.upload(form.name, form.file, {
+        key_column: form.key_column || undefined,
+        columns: form.columns.length > 0 ? form.columns : undefined,
+        description: form.description || undefined,
+        change_notes: form.change_notes || undefined,
+      });
+      const name = form.name;
+      setForm(null);
+      await loadTables();
+      await openTable(name);
+    } catch (uploadError: any) {
+      setError(uploadError.message);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!confirm(`Delete reference table "${name}" and all its versions?`)) return;
+
+    try {
+      await referenceTableApi.deleteTable(name);
+      setSelected(null);
+      loadTables();
+    } catch (deleteError: any) {
+      alert(deleteError.message);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const selectedTable = tables.find(t => t.name === selected);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Reference Tables</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Spreadsheets policies read through lookup nodes or{' '}
+            <span className="font-mono">LOOKUP('table', key, 'column')</span>
+          </p>
+        </div>
+        <button onClick={() => setForm(emptyForm())} className="btn btn-primary">
+          + Upload New Table
+        </button>
+      </div>
+
+      {error && <div className="card text-sm text-red-600">{error}</div>}
+
+      {/* Upload form */}
+      {form && (
+        <div className="card space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {selectedTable && form.name === selectedTable.name
+              ? `Upload version ${selectedTable.current_version + 1} of ${form.name}`
+              : 'Upload a new table'}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-sm">
+              <span className="text-gray-700">Table name</span>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="pincode_tiers"
+                className="mt-1 w-full px-3 py-2 font-mono border border-gray-300 rounded-md"
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700">CSV or Excel file (first sheet, header row)</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={(e) => setForm({ ...form, file: e.target.files?.[0] || null })}
+                className="mt-1 w-full text-sm"
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700">Key column</span>
+              <input
+                type="text"
+                value={form.key_column}
+                onChange={(e) => setForm({ ...form, key_column: e.target.value })}
+                placeholder="First column when empty"
+                className="mt-1 w-full px-3 py-2 font-mono border border-gray-300 rounded-md"
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700">Description</span>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+          </div>
+
+          {form.columns.length > 0 && (
+            <div>
+              <span className="block text-sm text-gray-700 mb-2">Column types (new columns are detected from the data)</span>
+              <div className="flex flex-wrap gap-3">
+                {form.columns.map((column, index) => (
+                  <label key={column.name} className="flex items-center gap-2 text-sm">
+                    <span className="font-mono">{column.name}</span>
+                    <select
+                      value={column.type}
+                      onChange={(e) => {
+                        const columns = [...form.columns];
+                        columns[index] = { ...column, type: e.target.value as ReferenceColumnType };
+                        setForm({ ...form, columns });
+                      }}
+                      className="px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      {COLUMN_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <textarea
+            value={form.change_notes}
+            onChange={(e) => setForm({ ...form, change_notes: e.target.value })}
+            placeholder="What changed in this version"
+            rows={2}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md"
+          />
+          <div className="flex justify-end gap-3">
+            <button onClick={() => setForm(null)} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={handleUpload}
+              disabled={!form.file || !form.name || isUploading}
+              className="btn btn-primary disabled:opacity-50"
+            >
+              {isUploading ? 'Uploading...' : 'Upload'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Tables */}
+        <div className="card p-0 overflow-hidden">
+          {tables.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">No reference tables yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {tables.map(table => (
+                <li key={table.id}>
+                  <button
+                    onClick={() => openTable(table.name)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${selected === table.name ? 'bg-blue-50' : ''}`}
+                  >
+                    <div className="flex justify-between items-center">
+                      <span className="font-mono font-medium text-gray-900">{table.name}</span>
+                      <span className="text-xs text-gray-500">v{table.current_version}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {table.row_count ?? 0} rows · key {table.key_column}
+                      {table.description ? ` · ${table.description}` : ''}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Selected table */}
+        <div className="card lg:col-span-2">
+          {!selectedTable ? (
+            <p className="text-gray-500">Select a table to see its versions and rows</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h2 className="text-lg font-semibold font-mono text-gray-900">{selectedTable.name}</h2>
+                  <p className="text-sm text-gray-500">
+                    {(selectedTable.columns || []).map(c => `${c.name}: ${c.type}`).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setForm(emptyForm(selectedTable.name, selectedTable))}
+                    className="btn btn-secondary text-sm"
+                  >
+                    Upload New Version
+                  </button>
+                  <button onClick={() => handleDelete(selectedTable.name)} className="btn btn-danger text-sm">
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Versions</h3>
+                <ol className="text-xs space-y-1">
+                  {versions.map(version => (
+                    <li key={version.id} className="flex justify-between gap-3">
+                      <button
+                        onClick={async () => setPreview(await referenceTableApi.getVersion(selectedTable.name, version.version))}
+                        className={`text-left hover:underline ${preview?.version === version.version ? 'font-semibold text-blue-700' : 'text-gray-800'}`}
+                      >
+                        Version {version.version} — {version.row_count} rows from {version.source_filename || 'upload'}
+                        {version.change_notes ? `: ${version.change_notes}` : ''}
+                      </button>
+                      <span className="text-gray-400 whitespace-nowrap">
+                        {version.uploaded_by_name ? `${version.uploaded_by_name}, ` : ''}
+                        {new Date(version.uploaded_at).toLocaleDateString()}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+
+              {preview && (
+                <div className="overflow-x-auto">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                    Version {preview.version}{preview.row_count > (preview.rows || []).length ? ` (first ${(preview.rows || []).length} of ${preview.row_count} rows)` : ''}
+                  </h3>
+                  <table className="min-w-full text-xs border border-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {preview.columns.map(column => (
+                          <th key={column.name} className="px-3 py-2 text-left font-mono text-gray-700">
+                            {column.name}{column.name === preview.key_column ? ' 🔑' : ''}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {(preview.rows || []).map((row, index) => (
+                        <tr key={index}>
+                          {preview.columns.map(column => (
+                            <td key={column.name} className="px-3 py-1.5 text-gray-800">
+                              {row[column.name] === null ? '—' : String(row[column.name])}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReferenceTables;
@@ -40,15 +40,33 @@ export interface CreditScoreBandData {
 
 export interface StrategyStats {
   name: string;
+  arm: string;
+  trafficPercent: number;
   applicationsProcessed: number;
   approvalRate: number;
+  approvalRateCiLow: number;
+  approvalRateCiHigh: number;
   avgCreditScore: number;
   avgTatMs: number;
 }
 
+export interface ChallengerStats extends StrategyStats {
+  approvalRateDifference: number | null;
+  approvalPValue: number | null;
+  approvalSignificant: boolean;
+}
+
+// Champion and first challenger of the running (or latest) experiment
 export interface StrategyPerformanceData {
+  experiment: {
+    id: string;
+    name: string;
+    status: 'running' | 'stopped';
+    productType: string;
+    startedAt: string;
+  } | null;
   champion: StrategyStats | null;
-  challenger: StrategyStats | null;
+  challenger: ChallengerStats | null;
 }
 
 export interface DecisionSplitData {
@@ -105,8 +105,8 @@ class ApiService {
     return response.data;
   }
 
-  async testPolicy(id: string, testData: any) {
-    const response = await this.api.post(`/policies/${id}/test`, { test_data: testData });
+  async testPolicy(id: string, testData: any, asOf?: string) {
+    const response = await this.api.post(`/policies/${id}/test`, { test_data: testData, as_of: asOf });
     return response.data;
   }
 
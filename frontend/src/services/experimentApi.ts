@@ -0,0 +1,146 @@
+import axios from 'axios';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000';
+
+const api = axios.create({
+  baseURL: `${API_BASE_URL}/api/experiments`,
+});
+
+// Add auth token to requests
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem('auth_token');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// Surface the API's { error: { message } } instead of the HTTP status text
+api.interceptors.response.use(
+  (response) => response,
+  (error) => Promise.reject(new Error(error.response?.data?.error?.message || error.message))
+);
+
+export type ExperimentStatus = 'draft' | 'running' | 'stopped';
+export type ExperimentArmRole = 'champion' | 'challenger';
+
+export interface ExperimentArmInput {
+  name: string;
+  role: ExperimentArmRole;
+  policy_id: string;
+  traffic_percent: number;
+}
+
+export interface ExperimentArm extends ExperimentArmInput {
+  id: string;
+  position: number;
+  policy_name?: string;
+  policy_status?: string;
+}
+
+export interface Experiment {
+  id: string;
+  name: string;
+  description: string | null;
+  product_type: string;
+  status: ExperimentStatus;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  stopped_at: string | null;
+  arms: ExperimentArm[];
+}
+
+export interface ExperimentInput {
+  name: string;
+  description?: string;
+  product_type: string;
+  arms: ExperimentArmInput[];
+}
+
+export interface ProportionStats {
+  count: number;
+  rate: number;
+  ci_low: number;
+  ci_high: number;
+}
+
+export interface SignificanceTest {
+  difference: number;
+  z: number;
+  p_value: number;
+  significant: boolean;
+}
+
+export interface ArmResult {
+  name: string;
+  role: ExperimentArmRole;
+  policy_id: string;
+  policy_name: string;
+  traffic_percent: number;
+  applications: number;
+  errors: number;
+  invalid_input: number;
+  share_percent: number;
+  approval: ProportionStats;
+  rejection: ProportionStats;
+  manual_review: ProportionStats;
+  execution_time_ms: { mean: number; ci_low: number; ci_high: number; n: number };
+  avg_credit_score: number | null;
+  approval_test?: SignificanceTest | null;
+  rejection_test?: SignificanceTest | null;
+  manual_review_test?: SignificanceTest | null;
+  execution_time_test?: SignificanceTest | null;
+}
+
+export interface ExperimentResults {
+  experiment: Experiment;
+  from: string | null;
+  to: string | null;
+  significance_level: number;
+  arms: ArmResult[];
+}
+
+export const experimentApi = {
+  // Get experiments, running first
+  getExperiments: async (): Promise<Experiment[]> => {
+    const response = await api.get('/');
+    return response.data.data.experiments;
+  },
+
+  getExperiment: async (id: string): Promise<Experiment> => {
+    const response = await api.get(`/${id}`);
+    return response.data.data;
+  },
+
+  createExperiment: async (experiment: ExperimentInput): Promise<Experiment> => {
+    const response = await api.post('/', experiment);
+    return response.data.data;
+  },
+
+  // Drafts only
+  updateExperiment: async (id: string, updates: Partial<ExperimentInput>): Promise<Experiment> => {
+    const response = await api.put(`/${id}`, updates);
+    return response.data.data;
+  },
+
+  deleteExperiment: async (id: string): Promise<void> => {
+    await api.delete(`/${id}`);
+  },
+
+  startExperiment: async (id: string): Promise<Experiment> => {
+    const response = await api.post(`/${id}/start`);
+    return response.data.data;
+  },
+
+  stopExperiment: async (id: string): Promise<Experiment> => {
+    const response = await api.post(`/${id}/stop`);
+    return response.data.data;
+  },
+
+  // Per-arm rates with 95% intervals and tests against the champion
+  getResults: async (id: string, params: { from?: string; to?: string } = {}): Promise<ExperimentResults> => {
+    const response = await api.get(`/${id}/results`, { params });
+    return response.data.data;
+  },
+};
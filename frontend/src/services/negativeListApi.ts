@@ -0,0 +1,126 @@
+import axios from 'axios';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000';
+
+const api = axios.create({
+  baseURL: `${API_BASE_URL}/api/negative-lists`,
+});
+
+// Add auth token to requests
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem('auth_token');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// Surface the API's { error: { message } } instead of the HTTP status text
+api.interceptors.response.use(
+  (response) => response,
+  (error) => Promise.reject(new Error(error.response?.data?.error?.message || error.message))
+);
+
+export type NegativeListType = 'pan' | 'mobile' | 'email' | 'device_id' | 'bank_account' | 'employer' | 'pincode' | 'text';
+export type NegativeListMatchMode = 'exact' | 'normalized';
+export type NegativeListAction = 'reject' | 'manual_review';
+
+export interface NegativeList {
+  id: string;
+  name: string;
+  description: string | null;
+  list_type: NegativeListType;
+  match_mode: NegativeListMatchMode;
+  action: NegativeListAction;
+  created_at: string;
+  updated_at: string;
+  active_entries?: number;
+}
+
+export interface NegativeListEntry {
+  id: string;
+  value: string;
+  normalized_value: string;
+  reason_code: string | null;
+  notes: string | null;
+  expires_at: string | null;
+  added_at: string;
+  added_by_name?: string;
+  removed_at: string | null;
+  removed_by_name?: string;
+  removal_reason: string | null;
+}
+
+export interface NegativeListEntryInput {
+  value: string;
+  reason_code?: string;
+  notes?: string;
+  expires_at?: string;
+}
+
+export interface NegativeListAuditEntry {
+  id: string;
+  action: string;
+  details: Record<string, any>;
+  created_at: string;
+  user_name?: string;
+}
+
+export const negativeListApi = {
+  // Get all lists with their count of entries in force
+  getLists: async (): Promise<NegativeList[]> => {
+    const response = await api.get('/');
+    return response.data.data.lists;
+  },
+
+  // Get one list with the policies that check it
+  getList: async (name: string): Promise<{ list: NegativeList; dependents: { id: string; name: string }[] }> => {
+    const response = await api.get(`/${name}`);
+    return response.data.data;
+  },
+
+  createList: async (list: Partial<NegativeList>): Promise<NegativeList> => {
+    const response = await api.post('/', list);
+    return response.data.data;
+  },
+
+  updateList: async (name: string, updates: Partial<NegativeList>): Promise<NegativeList> => {
+    const response = await api.put(`/${name}`, updates);
+    return response.data.data;
+  },
+
+  deleteList: async (name: string): Promise<void> => {
+    await api.delete(`/${name}`);
+  },
+
+  // Get a page of entries
+  getEntries: async (
+    name: string,
+    params: { search?: string; include_removed?: boolean; page?: number; limit?: number } = {}
+  ): Promise<{ entries: NegativeListEntry[]; total: number }> => {
+    const response = await api.get(`/${name}/entries`, { params });
+    return { entries: response.data.data.entries, total: response.data.pagination.total };
+  },
+
+  addEntries: async (name: string, entries: NegativeListEntryInput[]): Promise<{ added: number; updated: number }> => {
+    const response = await api.post(`/${name}/entries`, { entries });
+    return response.data.data;
+  },
+
+  // Bulk import a CSV or Excel file with value, reason_code, notes and expires_at columns
+  importFile: async (name: string, file: File): Promise<{ added: number; updated: number }> => {
+    const form = new FormData();
+    form.append('file', file);
+    const response = await api.post(`/${name}/import`, form);
+    return response.data.data;
+  },
+
+  removeEntry: async (name: string, entryId: string, reason?: string): Promise<void> => {
+    await api.delete(`/${name}/entries/${entryId}`, { data: { reason } });
+  },
+
+  getAudit: async (name: string): Promise<NegativeListAuditEntry[]> => {
+    const response = await api.get(`/${name}/audit`);
+    return response.data.data.audit;
+  },
+};
@@ -1,19 +1,74 @@
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 
-interface Policy {
+export interface Policy {
   id: string;
   name: string;
   description: string;
+  product_type?: string;
   workflow: {
     nodes: any[];
     edges: any[];
   };
+  workflow_json?: {
+    nodes: any[];
+    edges: any[];
+    input_schema?: any;
+  };
   version: number;
   status: string;
+  is_fragment?: boolean;
+  versions?: PolicyVersionSummary[];
   created_at: string;
   updated_at: string;
 }
 
+export interface PolicyVersionSummary {
+  id: string;
+  version: string;
+  created_at: string;
+  change_notes?: string;
+}
+
+export interface SubPolicyDependent {
+  policy_id: string;
+  policy_name: string;
+  status: string;
+  node_id: string;
+  node_label: string;
+  pinned_version: string;
+  follows_latest: boolean;
+}
+
+export interface DebugPause {
+  node_id: string;
+  node_type: string;
+  label: string;
+  reason: 'step' | 'breakpoint';
+  call_stack: string[];
+}
+
+export interface DebugSnapshot {
+  session_id: string;
+  policy_id: string;
+  status: 'running' | 'paused' | 'completed';
+  paused_at: DebugPause | null;
+  variables: Record<string, any>;
+  breakpoints: string[];
+  execution_trace: Array<{
+    node_id: string;
+    node_type: string;
+    output: any;
+    error?: string;
+    branch?: string;
+    execution_time_ms: number;
+  }>;
+  result: {
+    decision: string;
+    reason: string;
+    total_execution_time_ms: number;
+  } | null;
+}
+
 const getAuthToken = (): string | null => {
   return localStorage.getItem('auth_token');
 };
@@ -26,6 +81,279 @@ const authHeaders = (): HeadersInit => {
   };
 };
 
+export type ParameterType = 'number' | 'integer' | 'string' | 'boolean' | 'list';
+
+export interface PolicyParameter {
+  name: string;
+  type: ParameterType;
+  value: any;
+  description?: string;
+}
+
+export interface ParameterSet {
+  id: string;
+  policy_id: string;
+  version: number | null; // assigned on approval
+  base_version: number;
+  parameters: PolicyParameter[];
+  status: 'pending' | 'approved' | 'rejected' | 'withdrawn';
+  change_notes: string | null;
+  proposed_by: string;
+  proposed_by_name?: string;
+  proposed_at: string;
+  reviewed_by: string | null;
+  reviewed_by_name?: string;
+  reviewed_at: string | null;
+  review_notes: string | null;
+}
+
+export interface PolicyShadow {
+  id: string;
+  policy_id: string;
+  shadow_policy_id: string;
+  shadow_policy_name: string;
+  shadow_policy_status: string;
+  is_active: boolean;
+  notes: string | null;
+  created_at: string;
+  stopped_at: string | null;
+  executions: number;
+  disagreements: number;
+  last_run_at: string | null;
+}
+
+export interface ShadowExecution {
+  id: string;
+  application_id: string;
+  champion_underwriting_id: string;
+  champion_decision: string;
+  champion_reason: string;
+  shadow_decision: string; // 'error' when the shadow could not run
+  shadow_reason: string;
+  shadow_details?: Record<string, any>;
+  execution_trace?: any[];
+  execution_time_ms: number;
+  created_at: string;
+}
+
+export interface ShadowComparison {
+  total: number;
+  agreed: number;
+  disagreed: number;
+  errors: number;
+  agreement_rate: number;
+  champion_approval_rate: number;
+  shadow_approval_rate: number;
+  matrix: { champion_decision: string; shadow_decision: string; count: number }[];
+  disagreements: ShadowExecution[];
+}
+
+export type BacktestSwap = 'approved_to_rejected' | 'rejected_to_approved' | 'to_manual_review' | 'from_manual_review';
+
+export interface BacktestSummary {
+  replayed: number;
+  unchanged: number;
+  errors: number;
+  invalid_input: number;
+  not_replayable?: number; // replays that ran a database query with no logged rows; absent in older summaries
+  incomplete: number; // replays missing at least one stored response
+  matrix: Record<string, Record<string, number>>; // original decision → backtest decision → count
+  swaps: Record<BacktestSwap, number>;
+  by_rule: { swap: BacktestSwap; rule: string; count: number }[];
+}
+
+export interface Backtest {
+  id: string;
+  policy_id: string;
+  parameter_set_id: string | null;
+  source_policy_id: string | null;
+  date_from: string;
+  date_to: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  total: number;
+  processed: number;
+  summary: BacktestSummary | null;
+  error_message: string | null;
+  created_by_name?: string;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface BacktestResult {
+  id: string;
+  application_id: string;
+  requested_at: string;
+  original_decision: string;
+  original_rule: string | null;
+  backtest_decision: string; // also 'error', 'invalid_input' or 'not_replayable'
+  backtest_rule: string | null;
+  backtest_reason: string | null;
+  swap: BacktestSwap | null;
+  swap_rule: string | null;
+  missing_responses: { node_id: string; kind: string; connector_id?: string; url?: string }[];
+  execution_trace?: any[];
+  request_data?: any;
+  original_response?: any;
+}
+
+export interface DiffChange {
+  field: string;
+  status: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+  summary: string;
+}
+
+export interface NodeDiff {
+  node_id: string;
+  type: string;
+  label: string;
+  status: 'added' | 'removed' | 'changed';
+  changes: DiffChange[];
+}
+
+export interface EdgeDiff {
+  status: 'added' | 'removed' | 'rewired';
+  source: string;
+  source_handle: string | null;
+  before_target: string | null;
+  after_target: string | null;
+  before_edge_id: string | null;
+  after_edge_id: string | null;
+  summary: string;
+}
+
+export interface PolicyDiffSide {
+  version: string; // published version, or 'current' for the saved workflow
+  created_at: string | null;
+  parameter_version: number | null;
+  workflow_json: any;
+}
+
+export interface PolicyDiff {
+  from: PolicyDiffSide;
+  to: PolicyDiffSide;
+  diff: {
+    nodes: NodeDiff[];
+    edges: EdgeDiff[];
+    settings: DiffChange[];
+    parameters: DiffChange[];
+    summary: Record<'nodes_added' | 'nodes_removed' | 'nodes_changed' | 'edges_changed' | 'settings_changed' | 'parameters_changed', number>;
+  };
+}
+
+// Exported with symbolic connector and sub-policy references; see the import preview
+export interface PolicyBundle {
+  format: string;
+  format_version: number;
+  exported_at: string;
+  content: {
+    policy: { name: string; description: string | null; product_type: string; is_fragment: boolean; version: string };
+    workflow: any;
+    parameters: PolicyParameter[];
+    parameter_version: number | null;
+    reference_tables: { name: string; version: number; rows: any[] }[];
+    test_cases: { name: string; input_data: any; expected_decision: string | null }[];
+    connectors: { ref: string; name: string; type: string; provider: string | null }[];
+    sub_policies: { ref: string; name: string; product_type: string; is_fragment: boolean }[];
+    negative_lists: string[];
+  };
+  checksum: string;
+  signature: string | null;
+}
+
+export type ImportStrategy = 'new_policy' | 'new_version' | 'abort';
+
+export interface ImportOptions {
+  strategy?: ImportStrategy;
+  name?: string;
+  target_policy_id?: string;
+  mappings?: Record<string, string>; // bundle reference → local connector or policy id
+}
+
+export interface ImportPreview {
+  checksum_valid: boolean;
+  signature: 'valid' | 'invalid' | 'unsigned';
+  policy: PolicyBundle['content']['policy'];
+  conflict: { policy_id: string; name: string; status: string; version: string } | null;
+  connectors: {
+    ref: string;
+    name: string;
+    type: string;
+    provider: string | null;
+    status: 'resolved' | 'missing' | 'ambiguous';
+    connector_id: string | null;
+    matched_by: 'mapping' | 'name' | 'provider' | null;
+    candidates: { id: string; name: string }[];
+  }[];
+  sub_policies: {
+    ref: string;
+    name: string;
+    product_type: string;
+    is_fragment: boolean;
+    status: 'resolved' | 'missing' | 'ambiguous';
+    policy_id: string | null;
+    matched_by: 'mapping' | 'name' | null;
+    candidates: { id: string; name: string }[];
+    missing_versions: string[];
+  }[];
+  reference_tables: {
+    name: string;
+    version: number;
+    row_count: number;
+    status: 'identical' | 'new_table' | 'new_version';
+    local_version: number | null;
+  }[];
+  negative_lists: { name: string; exists: boolean }[];
+  parameters: number;
+  test_cases: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportResult {
+  policy: Policy;
+  action: 'created' | 'new_version';
+  version: string;
+  parameter_set_id: string | null;
+  reference_tables: { name: string; version: number; status: string }[];
+  test_cases_imported: number;
+}
+
+export interface ExpressionResult {
+  expression: string;
+  value: any; // dates come back as ISO strings
+  error?: string;
+}
+
+// Debug session, parameter, shadow, backtest, diff and bundle calls share one error format: { success: false, error } (details lists specifics)
+const policyRequest = async <T>(path: string, init: RequestInit = {}, label: string = 'Request'): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}/policies/${path}`, {
+    ...init,
+    headers: authHeaders(),
+  });
+
+  if (!response.ok) {
+    let errorMessage = response.statusText;
+    try {
+      const errorData = await response.json();
+      errorMessage = errorData.error || errorMessage;
+      if (Array.isArray(errorData.details) && errorData.details.length > 0) {
+        errorMessage = `${errorMessage}: ${errorData.details.join('; ')}`;
+      }
+    } catch (e) {
+      // If JSON parsing fails, use status text
+    }
+    throw new Error(`${label}: ${errorMessage}`);
+  }
+
+  const data = await response.json();
+  return data.data;
+};
+
+const debugRequest = (path: string, init: RequestInit = {}): Promise<DebugSnapshot> =>
+  policyRequest<DebugSnapshot>(path, init, 'Debugger');
+
 export const policyApi = {
   /**
    * Get all policies
@@ -67,6 +395,7 @@ export const policyApi = {
     description: string;
     product_type?: string;
     workflow_json: { nodes: any[]; edges: any[] };
+    is_fragment?: boolean;
   }): Promise<Policy> {
     const response = await fetch(`${API_BASE_URL}/policies`, {
       method: 'POST',
@@ -103,6 +432,7 @@ export const policyApi = {
       description?: string;
       product_type?: string;
       workflow_json?: { nodes: any[]; edges: any[] };
+      is_fragment?: boolean;
     }
   ): Promise<Policy> {
     const response = await fetch(`${API_BASE_URL}/policies/${id}`, {
@@ -170,6 +500,22 @@ export const policyApi = {
     return data.data;
   },
 
+  /**
+   * Get policies that call this policy from a sub-policy node
+   */
+  async getDependents(id: string): Promise<SubPolicyDependent[]> {
+    const response = await fetch(`${API_BASE_URL}/policies/${id}/dependents`, {
+      headers: authHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch dependent policies: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data;
+  },
+
   /**
    * Clone/duplicate a policy
    */
@@ -207,4 +553,197 @@ export const policyApi = {
     const data = await response.json();
     return data.data;
   },
+
+  /**
+   * Start a step-through debug run. `workflow_json` debugs the unsaved canvas.
+   */
+  startDebug(
+    id: string,
+    testData: any,
+    options: {
+      breakpoints?: string[];
+      break_on_start?: boolean;
+      as_of?: string;
+      parameter_set_id?: string;
+      workflow_json?: any;
+    } = {}
+  ): Promise<DebugSnapshot> {
+    return debugRequest(`${id}/debug`, {
+      method: 'POST',
+      body: JSON.stringify({ test_data: testData, ...options }),
+    });
+  },
+
+  debugStep(id: string, sessionId: string): Promise<DebugSnapshot> {
+    return debugRequest(`${id}/debug/${sessionId}/step`, { method: 'POST' });
+  },
+
+  debugContinue(id: string, sessionId: string): Promise<DebugSnapshot> {
+    return debugRequest(`${id}/debug/${sessionId}/continue`, { method: 'POST' });
+  },
+
+  setDebugVariables(
+    id: string,
+    sessionId: string,
+    variables: Record<string, any>,
+    remove: string[] = []
+  ): Promise<DebugSnapshot> {
+    return debugRequest(`${id}/debug/${sessionId}/variables`, {
+      method: 'PATCH',
+      body: JSON.stringify({ variables, remove }),
+    });
+  },
+
+  setDebugBreakpoints(id: string, sessionId: string, breakpoints: string[]): Promise<DebugSnapshot> {
+    return debugRequest(`${id}/debug/${sessionId}/breakpoints`, {
+      method: 'PUT',
+      body: JSON.stringify({ breakpoints }),
+    });
+  },
+
+  /**
+   * Stop a debug run
+   */
+  async endDebug(id: string, sessionId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/policies/${id}/debug/${sessionId}`, {
+      method: 'DELETE',
+      headers: authHeaders(),
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to end debug session: ${response.statusText}`);
+    }
+  },
+
+  /**
+   * Effective parameter set (null before the first approval) and change history
+   */
+  getParameters(id: string): Promise<{ effective: ParameterSet | null; history: ParameterSet[] }> {
+    return policyRequest(`${id}/parameters`, {}, 'Parameters');
+  },
+
+  /**
+   * Submit a complete parameter set for approval by another user
+   */
+  proposeParameters(id: string, parameters: PolicyParameter[], changeNotes: string): Promise<ParameterSet> {
+    return policyRequest(`${id}/parameters`, {
+      method: 'POST',
+      body: JSON.stringify({ parameters, change_notes: changeNotes }),
+    }, 'Parameters');
+  },
+
+  reviewParameters(id: string, setId: string, action: 'approve' | 'reject', notes: string = ''): Promise<ParameterSet> {
+    return policyRequest(`${id}/parameters/${setId}/${action}`, {
+      method: 'POST',
+      body: JSON.stringify({ notes }),
+    }, 'Parameters');
+  },
+
+  withdrawParameters(id: string, setId: string): Promise<ParameterSet> {
+    return policyRequest(`${id}/parameters/${setId}/withdraw`, { method: 'POST' }, 'Parameters');
+  },
+
+  /**
+   * Shadow policies run on this policy's live requests
+   */
+  async getShadows(id: string): Promise<PolicyShadow[]> {
+    const data = await policyRequest<{ shadows: PolicyShadow[] }>(`${id}/shadows`, {}, 'Shadows');
+    return data.shadows;
+  },
+
+  startShadow(id: string, shadowPolicyId: string, notes: string = ''): Promise<PolicyShadow> {
+    return policyRequest(`${id}/shadows`, {
+      method: 'POST',
+      body: JSON.stringify({ shadow_policy_id: shadowPolicyId, notes: notes || undefined }),
+    }, 'Shadows');
+  },
+
+  async stopShadow(id: string, shadowPolicyId: string): Promise<void> {
+    await policyRequest(`${id}/shadows/${shadowPolicyId}`, { method: 'DELETE' }, 'Shadows');
+  },
+
+  getShadowComparison(id: string, shadowPolicyId: string, range: { from?: string; to?: string } = {}): Promise<ShadowComparison> {
+    const query = new URLSearchParams(Object.entries(range).filter(([, value]) => !!value)).toString();
+    return policyRequest(`${id}/shadows/${shadowPolicyId}/comparison${query ? `?${query}` : ''}`, {}, 'Shadows');
+  },
+
+  getShadowExecution(id: string, executionId: string): Promise<ShadowExecution> {
+    return policyRequest(`${id}/shadow-executions/${executionId}`, {}, 'Shadows');
+  },
+
+  /**
+   * Backtests: logged applications replayed through the saved workflow
+   */
+  async getBacktests(id: string): Promise<Backtest[]> {
+    const data = await policyRequest<{ backtests: Backtest[] }>(`${id}/backtests`, {}, 'Backtest');
+    return data.backtests;
+  },
+
+  startBacktest(
+    id: string,
+    options: { date_from: string; date_to: string; parameter_set_id?: string; source_policy_id?: string }
+  ): Promise<Backtest> {
+    return policyRequest(`${id}/backtests`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    }, 'Backtest');
+  },
+
+  getBacktest(id: string, backtestId: string): Promise<Backtest> {
+    return policyRequest(`${id}/backtests/${backtestId}`, {}, 'Backtest');
+  },
+
+  async cancelBacktest(id: string, backtestId: string): Promise<void> {
+    await policyRequest(`${id}/backtests/${backtestId}/cancel`, { method: 'POST' }, 'Backtest');
+  },
+
+  async getBacktestResults(
+    id: string,
+    backtestId: string,
+    filter: { swap?: BacktestSwap | 'any'; rule?: string; page?: number; limit?: number } = {}
+  ): Promise<BacktestResult[]> {
+    const query = new URLSearchParams(
+      Object.entries(filter).filter(([, value]) => value !== undefined && value !== '').map(([key, value]) => [key, String(value)])
+    ).toString();
+    const data = await policyRequest<{ results: BacktestResult[] }>(
+      `${id}/backtests/${backtestId}/results${query ? `?${query}` : ''}`, {}, 'Backtest'
+    );
+    return data.results;
+  },
+
+  getBacktestResult(id: string, backtestId: string, resultId: string): Promise<BacktestResult> {
+    return policyRequest(`${id}/backtests/${backtestId}/results/${resultId}`, {}, 'Backtest');
+  },
+
+  // Versions are published numbers, 'latest', or 'current' for the saved workflow
+  getPolicyDiff(id: string, from: string, to: string): Promise<PolicyDiff> {
+    return policyRequest(`${id}/versions/${encodeURIComponent(from)}/diff/${encodeURIComponent(to)}`, {}, 'Diff');
+  },
+
+  // Evaluated by the engine's expression language (computed conditions in builder test runs)
+  evaluateExpressions(expressions: string[], variables: Record<string, any>, asOf?: string): Promise<ExpressionResult[]> {
+    return policyRequest('expressions/evaluate', {
+      method: 'POST',
+      body: JSON.stringify({ expressions, variables, as_of: asOf }),
+    }, 'Expressions');
+  },
+
+  exportPolicy(id: string): Promise<PolicyBundle> {
+    return policyRequest(`${id}/export`, {}, 'Export');
+  },
+
+  // Resolves the bundle's connectors, sub-policies and tables here; changes nothing
+  previewImport(bundle: PolicyBundle, options: ImportOptions = {}): Promise<ImportPreview> {
+    return policyRequest('import/preview', {
+      method: 'POST',
+      body: JSON.stringify({ bundle, ...options }),
+    }, 'Import preview');
+  },
+
+  importPolicy(bundle: PolicyBundle, options: ImportOptions): Promise<ImportResult> {
+    return policyRequest('import', {
+      method: 'POST',
+      body: JSON.stringify({ bundle, ...options }),
+    }, 'Import');
+  },
 };
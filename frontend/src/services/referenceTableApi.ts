@@ -0,0 +1,98 @@
+import axios from 'axios';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000';
+
+const api = axios.create({
+  baseURL: `${API_BASE_URL}/api/reference-tables`,
+});
+
+// Add auth token to requests
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem('auth_token');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// Surface the API's { error: { message } } instead of the HTTP status text
+api.interceptors.response.use(
+  (response) => response,
+  (error) => Promise.reject(new Error(error.response?.data?.error?.message || error.message))
+);
+
+export type ReferenceColumnType = 'string' | 'number' | 'boolean';
+
+export interface ReferenceColumn {
+  name: string;
+  type: ReferenceColumnType;
+}
+
+export interface ReferenceTableSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  current_version: number;
+  key_column: string | null;
+  columns: ReferenceColumn[] | null;
+  row_count: number | null;
+  uploaded_at: string | null;
+  uploaded_by_name?: string;
+}
+
+export interface ReferenceTableVersion {
+  id: string;
+  version: number;
+  key_column: string;
+  columns: ReferenceColumn[];
+  row_count: number;
+  source_filename: string | null;
+  change_notes: string | null;
+  uploaded_at: string;
+  uploaded_by_name?: string;
+  rows?: Record<string, any>[]; // first rows, when fetched on their own
+}
+
+export interface ReferenceTableUpload {
+  key_column?: string;
+  columns?: ReferenceColumn[];
+  description?: string;
+  change_notes?: string;
+}
+
+export const referenceTableApi = {
+  // Get all tables with their current schema
+  getTables: async (): Promise<ReferenceTableSummary[]> => {
+    const response = await api.get('/');
+    return response.data.data.tables;
+  },
+
+  // Get one table with its version history
+  getTable: async (name: string): Promise<{ table: ReferenceTableSummary; versions: ReferenceTableVersion[] }> => {
+    const response = await api.get(`/${name}`);
+    return response.data.data;
+  },
+
+  // Get the first rows of a version
+  getVersion: async (name: string, version: number | 'current', limit: number = 100): Promise<ReferenceTableVersion> => {
+    const response = await api.get(`/${name}/versions/${version}`, { params: { limit } });
+    return response.data.data;
+  },
+
+  // Upload a CSV or Excel file as the next version (creates the table on first upload)
+  upload: async (name: string, file: File, options: ReferenceTableUpload = {}): Promise<{ version: number; row_count: number }> => {
+    const form = new FormData();
+    form.append('file', file);
+    if (options.key_column) form.append('key_column', options.key_column);
+    if (options.columns) form.append('columns', JSON.stringify(options.columns));
+    if (options.description) form.append('description', options.description);
+    if (options.change_notes) form.append('change_notes', options.change_notes);
+    const response = await api.post(`/${name}`, form);
+    return response.data.data;
+  },
+
+  // Delete a table that no policy reads
+  deleteTable: async (name: string): Promise<void> => {
+    await api.delete(`/${name}`);
+  },
+};
@@ -1,18 +1,184 @@
 import { create } from 'zustand';
 import { Node, Edge, Connection, addEdge, applyNodeChanges, applyEdgeChanges, NodeChange, EdgeChange } from 'reactflow';
+import { policyApi } from '../services/policyApi';
+import type { DebugSnapshot, ExpressionResult } from '../services/policyApi';
+
+export type MissingDataAction = 'fail' | 'pass' | 'manual_review' | 'default' | 'impute';
+
+// What a condition or score factor does when its variable is absent
+export interface MissingDataRule {
+  action: MissingDataAction;
+  value?: string | number; // default
+  expression?: string; // impute
+}
+
+export interface MissingDataSettings {
+  default?: MissingDataRule; // policy-wide; the engine fails conditions when unset
+  variables?: Record<string, MissingDataRule>;
+}
 
 export interface Condition {
   id: string;
+  type?: 'condition';
   variable: string;
   operator: string;
   value: string | number;
   decision: 'Approved' | 'Manual Check'; // Only 2 decision types - Reject happens when condition doesn't match
-  logicalOperator?: 'AND' | 'OR';
+  missingData?: MissingDataRule; // Overrides the policy rule for this condition
+  logicalOperator?: 'AND' | 'OR'; // Legacy connector to the next condition (before groups)
+}
+
+export interface ConditionGroup {
+  id: string;
+  type: 'group';
+  operator: 'AND' | 'OR';
+  conditions: ConditionItem[];
+}
+
+export type ConditionItem = Condition | ConditionGroup;
+
+export type DecisionTableHitPolicy = 'UNIQUE' | 'FIRST' | 'PRIORITY' | 'COLLECT';
+export type DecisionTableValueType = 'number' | 'string' | 'boolean' | 'date';
+
+export interface DecisionTableInput {
+  id: string;
+  label?: string;
+  expression: string;
+  type: DecisionTableValueType;
+}
+
+export interface DecisionTableOutput {
+  id: string;
+  name: string;
+  type: DecisionTableValueType;
+  priority?: string[]; // Highest priority first (PRIORITY hit policy)
+}
+
+export interface DecisionTableRule {
+  id: string;
+  description?: string;
+  inputs: string[];
+  outputs: string[];
+}
+
+export interface DecisionTableConfig {
+  hit_policy: DecisionTableHitPolicy;
+  aggregation?: 'LIST' | 'SUM' | 'MIN' | 'MAX' | 'COUNT';
+  inputs: DecisionTableInput[];
+  outputs: DecisionTableOutput[];
+  rules: DecisionTableRule[];
+  default_outputs?: Record<string, string>;
+}
+
+export interface SubPolicyConfig {
+  policy_id: string;
+  version: string; // published version label, or 'latest'
+  input_mapping: Record<string, string>; // child variable -> parent expression
+  output_mapping: Record<string, string>; // parent variable -> child variable
+  result_variable?: string;
+  count_decision?: boolean; // the called policy's decision votes in this one (default true)
+}
+
+export interface LookupConfig {
+  table: string; // reference table name
+  version?: number; // pinned version; the current one when absent
+  key: string; // expression giving the key
+  column?: string; // one column instead of the whole row
+  output_variable: string;
+  default_value?: any; // when no row matches
+}
+
+export type IdentifierType = 'pan' | 'mobile' | 'email' | 'device_id' | 'bank_account';
+
+export interface VelocityCheck {
+  label?: string;
+  identifier: IdentifierType;
+  value?: string; // expression; the identifier's standard applicant field when absent
+  window: number;
+  window_unit: 'hours' | 'days';
+  max_count: number; // most applications (or distinct applicants) allowed, this one included
+  distinct_by?: IdentifierType; // count distinct applicants by this identifier
+}
+
+export interface VelocityConfig {
+  checks: VelocityCheck[];
+  output_variable: string; // { hit, hits, matched_application_ids, checks }
+}
+
+export interface NegativeListCheck {
+  list: string; // negative list name
+  value: string; // expression; arrays are checked element by element
+}
+
+export interface NegativeListCheckConfig {
+  checks: NegativeListCheck[];
+  output_variable?: string; // { outcome, hit, hits }
+}
+
+export interface SwitchCase {
+  id: string; // output handle
+  label: string;
+  values?: string[]; // matched against the switch expression
+  expression?: string; // boolean expression, used instead of values
+}
+
+export interface SwitchConfig {
+  expression: string;
+  cases: SwitchCase[]; // tried in order; unmatched applications take the default handle
+}
+
+export const SWITCH_DEFAULT_HANDLE = 'default';
+
+export type StrategyDefaultDecision = 'Approved' | 'Manual Check' | 'Rejected';
+
+export type StrategyAggregationMode = 'strict_veto' | 'weighted' | 'first_decisive' | 'n_of_m_reject';
+
+export interface StrategyAggregationSettings {
+  mode: StrategyAggregationMode;
+  reject_threshold?: number; // n_of_m_reject only
+}
+
+export type InputSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// Subset of JSON Schema accepted by the backend input contract
+export interface InputSchema {
+  type?: InputSchemaType | InputSchemaType[];
+  title?: string;
+  description?: string;
+  properties?: Record<string, InputSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: InputSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: any[];
+  default?: any;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'date' | 'date-time' | 'email';
+  examples?: any[];
+}
+
+export interface SchemaVariable {
+  name: string; // dotted path, e.g. "bureau.score"
+  type: string;
+  required: boolean;
+  description?: string;
 }
 
 export interface StrategyNodeData {
   label: string;
-  conditions?: Condition[];
+  conditions?: ConditionItem[]; // Children of the root group
+  conditionOperator?: 'AND' | 'OR'; // Root group operator; absent on legacy flat lists
+  defaultDecision?: StrategyDefaultDecision; // Applied when conditions are not met
+  weight?: number; // Used by weighted aggregation
+  config?: DecisionTableConfig | SubPolicyConfig | SwitchConfig | LookupConfig | VelocityConfig | NegativeListCheckConfig; // Decision table, sub-policy, switch, lookup, velocity and negative list nodes
+  subPolicyName?: string; // Sub-policy nodes: name of the called policy
   testResult?: 'approved' | 'reject' | 'manual_check' | null;
 }
 
@@ -22,6 +188,11 @@ export interface PolicyBuilderState {
   policyName: string;
   policyDescription: string;
   policyVersion: number;
+  strategyAggregation: StrategyAggregationSettings;
+  inputSchema: InputSchema | null;
+  missingDataSettings: MissingDataSettings;
+  isFragment: boolean; // library-only policy, callable from sub-policy nodes
+  parameterValues: Record<string, any>; // approved parameters (params.<name>) for test runs
 
   // React Flow state
   nodes: Node<StrategyNodeData>[];
@@ -34,6 +205,8 @@ export interface PolicyBuilderState {
   testResults: TestResults | null;
   isValidating: boolean;
   validationErrors: ValidationError[];
+  breakpoints: string[]; // node ids the debugger pauses before
+  debugSession: DebugSnapshot | null;
 
   // Actions
   setNodes: (nodes: Node<StrategyNodeData>[]) => void;
@@ -53,14 +226,21 @@ export interface PolicyBuilderState {
   closeTestModal: () => void;
   clearTestResults: () => void;
   setTestResultOnNode: (nodeId: string, result: 'approved' | 'reject' | 'manual_check' | null) => void;
+  toggleBreakpoint: (nodeId: string) => void;
+  setDebugSession: (snapshot: DebugSnapshot | null) => void;
 
   setPolicyMetadata: (metadata: { name?: string; description?: string }) => void;
+  setStrategyAggregation: (settings: StrategyAggregationSettings) => void;
+  setInputSchema: (schema: InputSchema | null) => void;
+  setMissingDataSettings: (settings: MissingDataSettings) => void;
+  setIsFragment: (isFragment: boolean) => void;
+  setParameterValues: (values: Record<string, any>) => void;
   loadPolicy: (policyData: any) => void;
   clearPolicy: () => void;
   initializeCanvas: () => void;
 
   validateWorkflow: () => Promise<boolean>;
-  testPolicy: (testData: any) => Promise<void>;
+  testPolicy: (testData: any, asOf?: string) => Promise<void>; // asOf pins "today" (YYYY-MM-DD)
 }
 
 export interface ValidationError {
@@ -75,18 +255,23 @@ export interface TestResults {
   executionTrace: {
     nodeId: string;
     nodeName: string;
+    decidedBy?: string; // Path of the condition group that settled the result
     conditionsEvaluated: {
+      path?: string;
       condition: string;
       result: boolean; // true = condition matched, false = condition failed (becomes Reject)
       decision: string; // The decision set on the condition (Approved/Manual Check) or Reject if failed
       reason?: string; // For Manual Check, what needs to be checked
+      missingData?: MissingDataAction; // Set when decided on missing data
     }[];
     nodeDecision: string;
     failedConditions: string[]; // List of conditions that failed
     manualCheckReasons: string[]; // What needs manual review
   }[];
   allDecisions: string[];
+  missingData: { nodeId: string; variable: string; action: MissingDataAction }[];
   votingResult: {
+    mode: StrategyAggregationMode;
     approved: number;
     rejected: number;
     manualReview: number;
@@ -107,6 +292,11 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
   policyName: 'Untitled Policy',
   policyDescription: '',
   policyVersion: 1,
+  strategyAggregation: { mode: 'strict_veto' },
+  inputSchema: null,
+  missingDataSettings: {},
+  isFragment: false,
+  parameterValues: {},
 
   nodes: [],
   edges: [],
@@ -117,6 +307,8 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
   testResults: null,
   isValidating: false,
   validationErrors: [],
+  breakpoints: [],
+  debugSession: null,
 
   // Actions
   setNodes: (nodes) => set({ nodes }),
@@ -173,6 +365,7 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
       nodes: get().nodes.filter(n => n.id !== nodeId),
       edges: get().edges.filter(e => e.source !== nodeId && e.target !== nodeId),
       selectedNode: get().selectedNode?.id === nodeId ? null : get().selectedNode,
+      breakpoints: get().breakpoints.filter(id => id !== nodeId),
     });
   },
 
@@ -238,6 +431,19 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
     });
   },
 
+  toggleBreakpoint: (nodeId) => {
+    const { breakpoints } = get();
+    set({
+      breakpoints: breakpoints.includes(nodeId)
+        ? breakpoints.filter(id => id !== nodeId)
+        : [...breakpoints, nodeId],
+    });
+  },
+
+  setDebugSession: (snapshot) => {
+    set({ debugSession: snapshot });
+  },
+
   setPolicyMetadata: (metadata) => {
     set({
       policyName: metadata.name ?? get().policyName,
@@ -245,6 +451,26 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
     });
   },
 
+  setStrategyAggregation: (settings) => {
+    set({ strategyAggregation: settings });
+  },
+
+  setInputSchema: (schema) => {
+    set({ inputSchema: schema });
+  },
+
+  setMissingDataSettings: (settings) => {
+    set({ missingDataSettings: settings });
+  },
+
+  setIsFragment: (isFragment) => {
+    set({ isFragment });
+  },
+
+  setParameterValues: (values) => {
+    set({ parameterValues: values });
+  },
+
   loadPolicy: (policyData) => {
     // Backend returns workflow_json, handle both workflow and workflow_json
     const workflowData = policyData.workflow_json || policyData.workflow || {};
@@ -254,12 +480,19 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
       policyName: policyData.name,
       policyDescription: policyData.description,
       policyVersion: policyData.version || 1,
+      strategyAggregation: workflowData.settings?.strategy_aggregation || { mode: 'strict_veto' },
+      inputSchema: workflowData.input_schema || null,
+      missingDataSettings: workflowData.settings?.missing_data || {},
+      isFragment: !!policyData.is_fragment,
+      parameterValues: {},
       nodes: workflowData.nodes || [],
       edges: workflowData.edges || [],
       selectedNode: null,
       isConfigModalOpen: false,
       isTestModalOpen: false,
       testResults: null,
+      breakpoints: [],
+      debugSession: null,
     });
   },
 
@@ -279,6 +512,11 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
       policyName: 'Untitled Policy',
       policyDescription: '',
       policyVersion: 1,
+      strategyAggregation: { mode: 'strict_veto' },
+      inputSchema: null,
+      missingDataSettings: {},
+      isFragment: false,
+      parameterValues: {},
       nodes: [startNode],
       edges: [],
       selectedNode: null,
@@ -286,6 +524,8 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
       isTestModalOpen: false,
       testResults: null,
       validationErrors: [],
+      breakpoints: [],
+      debugSession: null,
     });
   },
 
@@ -355,6 +595,15 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
 
       // Strategy nodes can be terminal nodes (last in execution path)
       // so no warning for missing outgoing connections
+
+      // Switch nodes need somewhere to send applications no case matches
+      if (node.type === 'switch' && !edges.some(e => e.source === node.id && e.sourceHandle === SWITCH_DEFAULT_HANDLE)) {
+        errors.push({
+          nodeId: node.id,
+          type: 'warning',
+          message: `Switch node "${node.data.label || node.type}" has no default connection`,
+        });
+      }
     });
 
     // Validate node configurations
@@ -371,10 +620,15 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
     return errors.filter(e => e.type === 'error').length === 0;
   },
 
-  testPolicy: async (testData: any) => {
-    const { nodes } = get();
+  testPolicy: async (testData: any, asOf?: string) => {
+    const { nodes, strategyAggregation, missingDataSettings, parameterValues } = get();
+    const evaluationDate = (asOf && toDate(asOf)) || new Date();
+    // Parameters are set after the input, as in the engine
+    const data = { ...testData, params: parameterValues };
     const executionTrace: TestResults['executionTrace'] = [];
     const allDecisions: string[] = [];
+    const votes: StrategyVote[] = [];
+    const missingData: TestResults['missingData'] = [];
 
     let totalConditions = 0;
     let passedConditions = 0;
@@ -384,77 +638,75 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
     // Find all strategy nodes
     const strategyNodes = nodes.filter(n => n.type === 'strategy');
 
+    // Computed conditions are evaluated by the engine, in one request per run
+    const computedSources = Array.from(new Set(strategyNodes.flatMap(n =>
+      collectLeaves((n.data as StrategyNodeData).conditions || [])
+        .filter(isComputedCondition)
+        .map(c => c.variable))));
+    const computed: ComputedValues = new Map();
+    if (computedSources.length > 0) {
+      const results = await policyApi.evaluateExpressions(computedSources, data, asOf || undefined);
+      results.forEach(result => computed.set(result.expression, result));
+    }
+
     // Evaluate each strategy node
     for (const node of strategyNodes) {
       const nodeData = node.data as StrategyNodeData;
-      const conditions = nodeData.conditions || [];
-
-      const conditionsEvaluated: any[] = [];
-      const failedConditionsList: string[] = [];
-      const manualCheckReasons: string[] = [];
-
-      let hasAnyRejection = false;
-      let hasManualCheck = false;
-
-      // Evaluate all conditions
-      for (let i = 0; i < conditions.length; i++) {
-        const cond = conditions[i];
-        const isMatch = evaluateCondition(cond, testData);
+      const evaluation = evaluateConditionGroup(toConditionGroup(nodeData), data, 'root', missingDataSettings, evaluationDate, computed);
+      const passed = evaluation.result;
+      const decidingLeaves = getDecidingLeaves(evaluation);
+      const fallthrough = nodeData.defaultDecision || 'Rejected';
+
+      const failedConditionsList = passed
+        ? []
+        : decidingLeaves.filter(l => !l.result).map(l => l.condition);
+      const manualCheckReasons = passed
+        ? decidingLeaves
+          .filter(l => l.result && l.decision === 'Manual Check')
+          .map(l => (l.missingData === 'manual_review'
+            ? `${l.condition}: ${l.variable} is missing`
+            : `${l.condition} requires manual review`))
+        : [];
+
+      const conditionsEvaluated = flattenLeaves(evaluation).map(leaf => {
         totalConditions++;
+        if (leaf.missingData) {
+          missingData.push({ nodeId: node.id, variable: leaf.variable, action: leaf.missingData });
+        }
+        const missing = leaf.missingData ? { missingData: leaf.missingData } : {};
 
-        const conditionStr = `${cond.variable} ${cond.operator} ${cond.value}`;
-
-        if (isMatch) {
-          // Condition matched - use the decision set on the condition
-          if (cond.decision === 'Manual Check') {
-            hasManualCheck = true;
-            manualCheckConditions++;
-            manualCheckReasons.push(`${conditionStr} requires manual review`);
-            conditionsEvaluated.push({
-              condition: conditionStr,
-              result: true,
-              decision: 'Manual Check',
-              reason: `Requires manual verification`
-            });
-          } else {
-            // Approved
-            passedConditions++;
-            conditionsEvaluated.push({
-              condition: conditionStr,
-              result: true,
-              decision: 'Approved'
-            });
-          }
-        } else {
-          // Condition did NOT match - this becomes a REJECT
-          hasAnyRejection = true;
+        if (!leaf.result) {
           failedConditions++;
-          failedConditionsList.push(conditionStr);
-          conditionsEvaluated.push({
-            condition: conditionStr,
+          return {
+            path: leaf.path,
+            condition: leaf.condition,
             result: false,
-            decision: 'Rejected',
-            reason: 'Condition not met'
-          });
-
-          // For AND logic, if one condition fails, stop evaluating
-          if (i < conditions.length - 1 && cond.logicalOperator === 'AND') {
-            break;
-          }
+            decision: passed ? 'Not Met' : fallthrough,
+            reason: leaf.error || (leaf.missingData ? `${leaf.variable} is missing` : 'Condition not met'),
+            ...missing,
+          };
         }
-
-        // For OR logic, if one condition passes, we can stop
-        if (isMatch && i < conditions.length - 1 && cond.logicalOperator === 'OR') {
-          break;
+        if (leaf.decision === 'Manual Check') {
+          manualCheckConditions++;
+          return {
+            path: leaf.path,
+            condition: leaf.condition,
+            result: true,
+            decision: 'Manual Check',
+            reason: leaf.missingData === 'manual_review' ? `${leaf.variable} is missing` : 'Requires manual verification',
+            ...missing,
+          };
         }
-      }
+        passedConditions++;
+        return { path: leaf.path, condition: leaf.condition, result: true, decision: 'Approved', ...missing };
+      });
 
-      // Determine node decision: Reject > Manual Check > Approved
+      // Determine node decision: default decision on failure > Manual Check > Approved
       let nodeDecision: 'Approved' | 'Rejected' | 'Manual Review';
 
-      if (hasAnyRejection) {
-        nodeDecision = 'Rejected';
-      } else if (hasManualCheck) {
+      if (!passed) {
+        nodeDecision = toNodeDecision(fallthrough);
+      } else if (manualCheckReasons.length > 0) {
         nodeDecision = 'Manual Review';
       } else {
         nodeDecision = 'Approved';
@@ -463,6 +715,7 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
       executionTrace.push({
         nodeId: node.id,
         nodeName: nodeData.label || 'Strategy',
+        decidedBy: getDecidingGroup(evaluation).path,
         conditionsEvaluated,
         nodeDecision,
         failedConditions: failedConditionsList,
@@ -470,6 +723,12 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
       });
 
       allDecisions.push(nodeDecision);
+      votes.push({
+        nodeId: node.id,
+        decision: nodeDecision,
+        weight: nodeData.weight || 1,
+        fellThrough: !passed,
+      });
 
       // Set visual feedback on node
       const visualResult = nodeDecision === 'Approved' ? 'approved'
@@ -489,24 +748,25 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
       await new Promise(resolve => setTimeout(resolve, 500));
     }
 
-    // Voting algorithm: Rejected > Manual Review > Approved
+    // Aggregate using the policy's configured mode (strict veto by default)
     const votingResult = {
+      mode: strategyAggregation.mode,
       approved: allDecisions.filter(d => d === 'Approved').length,
       rejected: allDecisions.filter(d => d === 'Rejected').length,
       manualReview: allDecisions.filter(d => d === 'Manual Review').length,
     };
 
-    let finalDecision: 'Approved' | 'Rejected' | 'Manual Review' = 'Approved';
-    if (votingResult.rejected > 0) {
-      finalDecision = 'Rejected';
-    } else if (votingResult.manualReview > 0) {
-      finalDecision = 'Manual Review';
-    }
+    // A missing-data referral blocks auto-approval (mirrors the backend engine)
+    const aggregated = aggregateVotes(votes, strategyAggregation);
+    const finalDecision = aggregated === 'Approved' && missingData.some(m => m.action === 'manual_review')
+      ? 'Manual Review'
+      : aggregated;
 
     const results: TestResults = {
       finalDecision,
       executionTrace,
       allDecisions,
+      missingData,
       votingResult,
       summary: {
         totalConditions,
@@ -520,12 +780,308 @@ export const usePolicyBuilderStore = create<PolicyBuilderState>((set, get) => ({
   },
 }));
 
-// Helper function to evaluate a single condition
-function evaluateCondition(condition: Condition, testData: any): boolean {
-  const { variable, operator, value } = condition;
+interface StrategyVote {
+  nodeId: string;
+  decision: 'Approved' | 'Rejected' | 'Manual Review';
+  weight: number;
+  fellThrough: boolean;
+}
+
+function toNodeDecision(decision: StrategyDefaultDecision): StrategyVote['decision'] {
+  return decision === 'Manual Check' ? 'Manual Review' : decision;
+}
+
+// Helper function to combine strategy decisions (mirrors the backend engine)
+function aggregateVotes(
+  votes: StrategyVote[],
+  settings: StrategyAggregationSettings
+): StrategyVote['decision'] {
+  // Most conservative first
+  const severity: StrategyVote['decision'][] = ['Rejected', 'Manual Review', 'Approved'];
+  const count = (decision: StrategyVote['decision']) => votes.filter(v => v.decision === decision).length;
+
+  if (votes.length === 0) {
+    return 'Approved';
+  }
+
+  switch (settings.mode) {
+    case 'weighted': {
+      const weightOf = (decision: StrategyVote['decision']) =>
+        votes.filter(v => v.decision === decision).reduce((sum, v) => sum + v.weight, 0);
+      return severity.reduce((best, candidate) => (weightOf(candidate) > weightOf(best) ? candidate : best));
+    }
+
+    case 'first_decisive': {
+      const decisive = votes.find(v => !v.fellThrough);
+      return (decisive || votes[votes.length - 1]).decision;
+    }
+
+    case 'n_of_m_reject':
+      if (count('Rejected') >= (settings.reject_threshold || 1)) return 'Rejected';
+      return count('Manual Review') > 0 ? 'Manual Review' : 'Approved';
+
+    default:
+      if (count('Rejected') > 0) return 'Rejected';
+      return count('Manual Review') > 0 ? 'Manual Review' : 'Approved';
+  }
+}
+
+export function isConditionGroup(item: ConditionItem): item is ConditionGroup {
+  return item.type === 'group';
+}
+
+// Leaf conditions of a (possibly nested) list
+function collectLeaves(items: ConditionItem[]): Condition[] {
+  return items.flatMap(item => (isConditionGroup(item) ? collectLeaves(item.conditions) : [item]));
+}
+
+// An expression in place of a variable path, e.g. count(bureau.enquiries, ...)
+// (mirrors isComputedCondition in the backend's condition-tree.ts)
+export function isComputedCondition(condition: Condition): boolean {
+  return /[\s()]/.test(condition.variable || '');
+}
+
+// Number of leaf conditions in a (possibly nested) list
+export function countConditions(items: ConditionItem[] = []): number {
+  return items.reduce((sum, item) => sum + (isConditionGroup(item) ? countConditions(item.conditions) : 1), 0);
+}
+
+// Root group of a strategy node. Legacy flat lists (no conditionOperator)
+// keep their left-to-right reading: `a AND b OR c AND d` is
+// `((a AND b) OR c) AND d` (mirrors buildConditionTree in the backend).
+export function toConditionGroup(data: StrategyNodeData): ConditionGroup {
+  const conditions = data.conditions || [];
+
+  if (data.conditionOperator) {
+    return { id: 'root', type: 'group', operator: data.conditionOperator, conditions };
+  }
+
+  let folded: ConditionGroup | undefined;
+  conditions.slice(1).forEach((item, offset) => {
+    const previous = conditions[offset];
+    const operator = !isConditionGroup(previous) && previous.logicalOperator === 'OR' ? 'OR' : 'AND';
+    if (folded?.operator === operator) {
+      folded.conditions.push(item);
+    } else {
+      folded = { id: `legacy-${offset + 1}`, type: 'group', operator, conditions: [folded || conditions[0], item] };
+    }
+  });
+
+  return folded
+    ? { ...folded, id: 'root' }
+    : { id: 'root', type: 'group', operator: 'AND', conditions };
+}
+
+function schemaTypeOf(schema: InputSchema): InputSchemaType | undefined {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  return types.find(t => t !== 'null');
+}
+
+// Leaf fields declared by an input schema, flattened to dotted paths
+export function getSchemaVariables(schema: InputSchema | null, prefix: string = ''): SchemaVariable[] {
+  if (!schema?.properties) return [];
+
+  return Object.entries(schema.properties).flatMap(([key, property]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (schemaTypeOf(property) === 'object' && property.properties) {
+      return getSchemaVariables(property, name);
+    }
+    return [{
+      name,
+      type: property.format === 'date' || property.format === 'date-time' ? 'date' : schemaTypeOf(property) || 'any',
+      required: (schema.required || []).includes(key),
+      description: property.description || property.title,
+    }];
+  });
+}
+
+// Example application matching an input schema, for pre-filling test data
+export function buildSampleInput(schema: InputSchema): any {
+  if (schema.examples?.length) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum?.length) return schema.enum[0];
+
+  switch (schemaTypeOf(schema)) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [key, buildSampleInput(property)])
+      );
+    case 'array':
+      return schema.items ? [buildSampleInput(schema.items)] : [];
+    case 'number':
+    case 'integer': {
+      const low = schema.minimum ?? schema.exclusiveMinimum ?? 0;
+      const high = schema.maximum ?? schema.exclusiveMaximum;
+      const value = high !== undefined ? (low + high) / 2 : low + 1;
+      return schemaTypeOf(schema) === 'integer' ? Math.round(value) : value;
+    }
+    case 'boolean':
+      return true;
+    case 'string':
+      if (schema.format === 'date') return new Date().toISOString().slice(0, 10);
+      if (schema.format === 'date-time') return new Date().toISOString();
+      if (schema.format === 'email') return 'applicant@example.com';
+      return '';
+    default:
+      return null;
+  }
+}
+
+interface LeafEvaluation {
+  type: 'condition';
+  path: string;
+  variable: string;
+  condition: string;
+  result: boolean;
+  decision: Condition['decision'];
+  missingData?: MissingDataAction;
+  error?: string; // computed condition the engine could not evaluate
+}
+
+type ComputedValues = Map<string, ExpressionResult>;
+
+interface GroupEvaluation {
+  type: 'group';
+  path: string;
+  result: boolean;
+  children: (LeafEvaluation | GroupEvaluation)[];
+  deciding?: string;
+}
+
+// Helper function to evaluate a condition group (mirrors the backend engine:
+// AND stops at the first failing child, OR at the first passing one)
+function evaluateConditionGroup(
+  group: ConditionGroup,
+  testData: any,
+  path: string,
+  missingDataSettings: MissingDataSettings,
+  asOf: Date,
+  computed: ComputedValues
+): GroupEvaluation {
+  const evaluation: GroupEvaluation = { type: 'group', path, result: group.operator === 'AND', children: [] };
+
+  for (let i = 0; i < group.conditions.length; i++) {
+    const item = group.conditions[i];
+    const childPath = path === 'root' ? `${i + 1}` : `${path}.${i + 1}`;
+
+    const child: LeafEvaluation | GroupEvaluation = isConditionGroup(item)
+      ? evaluateConditionGroup(item, testData, childPath, missingDataSettings, asOf, computed)
+      : evaluateLeaf(item, testData, childPath, missingDataSettings, asOf, computed);
+    evaluation.children.push(child);
+
+    if ((group.operator === 'AND' && !child.result) || (group.operator === 'OR' && child.result)) {
+      evaluation.result = child.result;
+      evaluation.deciding = childPath;
+      break;
+    }
+  }
+
+  return evaluation;
+}
+
+function getDecidingLeaves(evaluation: GroupEvaluation): LeafEvaluation[] {
+  const children = evaluation.deciding !== undefined
+    ? evaluation.children.filter(c => c.path === evaluation.deciding)
+    : evaluation.children;
+  return children.flatMap(child => (child.type === 'group' ? getDecidingLeaves(child) : [child]));
+}
+
+function getDecidingGroup(evaluation: GroupEvaluation): GroupEvaluation {
+  const child = evaluation.children.find(c => c.path === evaluation.deciding);
+  return child && child.type === 'group' ? getDecidingGroup(child) : evaluation;
+}
 
-  // Get actual value from test data using dot notation
-  const actualValue = getNestedValue(testData, variable);
+function flattenLeaves(evaluation: GroupEvaluation): LeafEvaluation[] {
+  return evaluation.children.flatMap(child => (child.type === 'group' ? flattenLeaves(child) : [child]));
+}
+
+function isMissingValue(value: any): boolean {
+  return value === undefined || value === null || value === '' || (typeof value === 'number' && isNaN(value));
+}
+
+// Condition rule > variable rule > policy default > fail (mirrors the backend engine)
+function resolveMissingDataRule(
+  variable: string,
+  override: MissingDataRule | undefined,
+  settings: MissingDataSettings
+): MissingDataRule {
+  return (override?.action && override)
+    || settings.variables?.[variable]
+    || settings.default
+    || { action: 'fail' };
+}
+
+function evaluateLeaf(
+  condition: Condition,
+  testData: any,
+  path: string,
+  missingDataSettings: MissingDataSettings,
+  asOf: Date,
+  computed: ComputedValues
+): LeafEvaluation {
+  const leaf: LeafEvaluation = {
+    type: 'condition',
+    path,
+    variable: condition.variable,
+    condition: `${condition.variable} ${condition.operator} ${condition.value}`,
+    result: false,
+    decision: condition.decision,
+  };
+
+  // A value of exactly params.<name> compares against the parameter
+  const reference = typeof condition.value === 'string' && /^\s*params\.\w+\s*$/.test(condition.value)
+    ? getNestedValue(testData, condition.value.trim())
+    : undefined;
+  if (reference !== undefined) {
+    condition = { ...condition, value: reference };
+  }
+
+  let actualValue: any;
+  if (isComputedCondition(condition)) {
+    const result = computed.get(condition.variable);
+    if (result?.error) {
+      return { ...leaf, result: false, error: result.error };
+    }
+    actualValue = result?.value;
+  } else {
+    actualValue = getNestedValue(testData, condition.variable);
+  }
+  if (!isMissingValue(actualValue) || condition.operator === 'IS_NULL' || condition.operator === 'IS_NOT_NULL') {
+    return { ...leaf, result: evaluateCondition(condition, actualValue, asOf) };
+  }
+
+  const rule = resolveMissingDataRule(condition.variable, condition.missingData, missingDataSettings);
+  let substitute: any;
+  if (rule.action === 'default') {
+    substitute = rule.value;
+  } else if (rule.action === 'impute' && rule.expression && /^[A-Za-z_][\w.]*$/.test(rule.expression.trim())) {
+    // Only plain variable references are previewed here; the engine evaluates full expressions
+    substitute = getNestedValue(testData, rule.expression.trim());
+  }
+
+  switch (rule.action) {
+    case 'pass':
+      return { ...leaf, result: true, missingData: 'pass' };
+    case 'default':
+    case 'impute':
+      if (!isMissingValue(substitute)) {
+        return { ...leaf, result: evaluateCondition(condition, substitute, asOf), missingData: rule.action };
+      }
+      return { ...leaf, result: true, decision: 'Manual Check', missingData: 'manual_review' };
+    case 'manual_review':
+      return { ...leaf, result: true, decision: 'Manual Check', missingData: 'manual_review' };
+    default:
+      return { ...leaf, result: false, missingData: 'fail' };
+  }
+}
+
+// Helper function to evaluate a single condition against its variable's value
+function evaluateCondition(condition: Condition, actualValue: any, asOf: Date): boolean {
+  const { operator, value } = condition;
+
+  if (DATE_OPERATORS.includes(operator)) {
+    return evaluateDateCondition(operator, actualValue, value, asOf);
+  }
 
   switch (operator) {
     case '=':
@@ -559,6 +1115,111 @@ function evaluateCondition(condition: Condition, testData: any): boolean {
   }
 }
 
+// Date operators (mirror backend/src/engine/dates.ts): dates are UTC calendar
+// days and "today" is the evaluation date
+export const DATE_OPERATORS = ['BETWEEN', 'BEFORE', 'AFTER', 'WITHIN_LAST'];
+
+const DATE_UNITS = ['DAYS', 'WEEKS', 'MONTHS', 'YEARS'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(value: any): Date | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function subtractDuration(date: Date, amount: number, unit: string): Date {
+  if (unit === 'DAYS' || unit === 'WEEKS') {
+    return new Date(date.getTime() - amount * (unit === 'WEEKS' ? 7 : 1) * DAY_MS);
+  }
+  const target = new Date(date.getTime());
+  const day = target.getUTCDate();
+  target.setUTCDate(1);
+  target.setUTCMonth(target.getUTCMonth() - (unit === 'YEARS' ? amount * 12 : amount));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target;
+}
+
+function parseDuration(value: any): { amount: number; unit: string } | null {
+  const match = /^\s*(\d+)\s*([A-Za-z]+)\s*$/.exec(String(value ?? ''));
+  if (!match) return null;
+  const text = match[2].toUpperCase();
+  const unit = DATE_UNITS.find(u => u === text || u === `${text}S`);
+  return unit ? { amount: Number(match[1]), unit } : null;
+}
+
+function resolveDateValue(value: string, asOf: Date): Date | null {
+  return value.trim().toLowerCase() === 'today' ? startOfDay(asOf) : toDate(value.trim());
+}
+
+function splitRange(value: any): [string, string] | null {
+  const parts = String(value ?? '').split(',').map(part => part.trim());
+  return parts.length === 2 && parts[0] && parts[1] ? [parts[0], parts[1]] : null;
+}
+
+function evaluateDateCondition(operator: string, actualValue: any, value: any, asOf: Date): boolean {
+  if (operator === 'BETWEEN') {
+    const range = splitRange(value);
+    if (!range) return false;
+    const [low, high] = range.map(bound => resolveDateValue(bound, asOf));
+    if (low && high) {
+      const actual = toDate(actualValue);
+      return actual !== null && actual >= low && actual <= high;
+    }
+    const number = Number(actualValue);
+    if (actualValue === '' || actualValue === null || isNaN(number)) return false;
+    return number >= Number(range[0]) && number <= Number(range[1]);
+  }
+
+  const actual = toDate(actualValue);
+  if (!actual) return false;
+  const bound = resolveDateValue(String(value ?? ''), asOf);
+
+  switch (operator) {
+    case 'BEFORE':
+      return bound !== null && actual < bound;
+    case 'AFTER':
+      return bound !== null && actual > bound;
+    case 'WITHIN_LAST': {
+      const duration = parseDuration(value);
+      if (!duration) return false;
+      const end = startOfDay(asOf);
+      return actual >= subtractDuration(end, duration.amount, duration.unit) && startOfDay(actual) <= end;
+    }
+    default:
+      return false;
+  }
+}
+
+// Same checks as the backend's policy validation
+export function dateConditionError(operator: string, value: any): string | null {
+  const isDate = (text: string) => text.toLowerCase() === 'today' || toDate(text) !== null;
+
+  switch (operator) {
+    case 'BETWEEN': {
+      const range = splitRange(value);
+      if (!range) return 'BETWEEN needs two bounds separated by a comma';
+      const dates = range.filter(isDate).length;
+      if (dates === 1 || (dates === 0 && range.some(bound => isNaN(Number(bound))))) {
+        return 'BETWEEN bounds must both be dates (YYYY-MM-DD or today) or both be numbers';
+      }
+      return null;
+    }
+    case 'BEFORE':
+    case 'AFTER':
+      return isDate(String(value ?? '').trim()) ? null : `${operator} needs a date (YYYY-MM-DD or today)`;
+    case 'WITHIN_LAST':
+      return parseDuration(value) ? null : 'WITHIN_LAST needs a duration such as 90 DAYS or 6 MONTHS';
+    default:
+      return null;
+  }
+}
+
 // Helper function to get nested value from object using dot notation
 function getNestedValue(obj: any, path: string): any {
   return path.split('.').reduce((current, key) => current?.[key], obj);
@@ -600,6 +1261,106 @@ function getDefaultNodeData(type: string): any {
         url: '',
         headers: {},
         body: {},
+        field_mapping: {},
+        timeout_ms: 10000,
+        retry_count: 0,
+        on_error: 'manual_review',
+      };
+
+    case 'dbQuery':
+      return {
+        ...baseData,
+        label: 'DB Query',
+        config: {
+          connector_id: '',
+          query: '',
+          params: [],
+          field_mapping: {},
+          max_rows: 100,
+          timeout_ms: 5000,
+          on_error: 'manual_review',
+        },
+      };
+
+    case 'fork':
+      return {
+        ...baseData,
+        label: 'Parallel Fork',
+      };
+
+    case 'join':
+      return {
+        ...baseData,
+        label: 'Join',
+        config: {
+          mode: 'all',
+          quorum: 1,
+        },
+      };
+
+    case 'decisionTable':
+      return {
+        ...baseData,
+        label: 'Decision Table',
+        config: {
+          hit_policy: 'UNIQUE',
+          inputs: [{ id: 'in-1', label: '', expression: '', type: 'number' }],
+          outputs: [{ id: 'out-1', name: '', type: 'string' }],
+          rules: [{ id: 'rule-1', inputs: ['-'], outputs: [''] }],
+        },
+      };
+
+    case 'subPolicy':
+      return {
+        ...baseData,
+        label: 'Sub-policy',
+        config: {
+          policy_id: '',
+          version: '',
+          input_mapping: {},
+          output_mapping: {},
+          count_decision: true,
+        },
+      };
+
+    case 'switch':
+      return {
+        ...baseData,
+        label: 'Switch',
+        config: {
+          expression: '',
+          cases: [{ id: 'case-1', label: 'Case 1', values: [] }],
+        },
+      };
+
+    case 'lookup':
+      return {
+        ...baseData,
+        label: 'Lookup',
+        config: {
+          table: '',
+          key: '',
+          output_variable: '',
+        },
+      };
+
+    case 'velocity':
+      return {
+        ...baseData,
+        label: 'Velocity',
+        config: {
+          checks: [{ identifier: 'pan', window: 7, window_unit: 'days', max_count: 3 }],
+          output_variable: 'velocity',
+        },
+      };
+
+    case 'negativeListCheck':
+      return {
+        ...baseData,
+        label: 'Negative List Check',
+        config: {
+          checks: [{ list: '', value: '' }],
+        },
       };
 
     case 'rule':
@@ -639,6 +1400,8 @@ function getDefaultNodeData(type: string): any {
         ...baseData,
         label: 'Strategy',
         conditions: [],
+        defaultDecision: 'Rejected',
+        weight: 1,
       };
 
     default:
@@ -695,6 +1458,120 @@ function validateNodeConfiguration(node: Node): ValidationError[] {
       }
       break;
 
+    case 'decisionTable': {
+      const table = node.data.config as DecisionTableConfig | undefined;
+      if (!table || table.inputs.some(i => !i.expression) || table.outputs.some(o => !o.name)) {
+        errors.push({
+          nodeId: node.id,
+          type: 'error',
+          message: `Decision table "${node.data.label}" must name every input expression and output variable`,
+        });
+      }
+      if (!table || table.rules.length === 0) {
+        errors.push({
+          nodeId: node.id,
+          type: 'error',
+          message: `Decision table "${node.data.label}" must have at least one rule`,
+        });
+      }
+      break;
+    }
+
+    case 'subPolicy': {
+      const call = node.data.config as SubPolicyConfig | undefined;
+      if (!call?.policy_id || !call.version) {
+        errors.push({
+          nodeId: node.id,
+          type: 'error',
+          message: `Sub-policy node "${node.data.label}" must select a policy and a version`,
+        });
+      }
+      break;
+    }
+
+    case 'switch': {
+      const switchConfig = node.data.config as SwitchConfig | undefined;
+      if (!switchConfig || switchConfig.cases.length === 0) {
+        errors.push({
+          nodeId: node.id,
+          type: 'error',
+          message: `Switch node "${node.data.label}" must have at least one case`,
+        });
+      } else if (switchConfig.cases.some(c => !c.expression && (!(c.values || []).length || !switchConfig.expression))) {
+        errors.push({
+          nodeId: node.id,
+          type: 'error',
+          message: `Switch node "${node.data.label}" has cases without values or an expression`,
+        });
+      }
+      break;
+    }
+
+    case 'strategy': {
+      const visit = (items: ConditionItem[]) => items.forEach(item => {
+        if (isConditionGroup(item)) {
+          visit(item.conditions);
+          return;
+        }
+        const dateError = dateConditionError(item.operator, item.value);
+        if (dateError) {
+          errors.push({
+            nodeId: node.id,
+            type: 'error',
+            message: `Strategy node "${node.data.label}" condition on "${item.variable}": ${dateError}`,
+          });
+        }
+      });
+      visit(node.data.conditions || []);
+      break;
+    }
+
+    case 'lookup': {
+      const lookupConfig = node.data.config as LookupConfig | undefined;
+      if (!lookupConfig?.table || !lookupConfig.key || !lookupConfig.output_variable) {
+        errors.push({
+          nodeId: node.id,
+          type: 'error',
+          message: `Lookup node "${node.data.label}" needs a table, a key and an output variable`,
+        });
+      }
+      break;
+    }
+
+    case 'velocity': {
+      const velocityConfig = node.data.config as VelocityConfig | undefined;
+      if (!velocityConfig?.output_variable || !(velocityConfig.checks || []).length) {
+        errors.push({
+          nodeId: node.id,
+          type: 'error',
+          message: `Velocity node "${node.data.label}" needs at least one check and an output variable`,
+        });
+      }
+      (velocityConfig?.checks || []).forEach((check, index) => {
+        if (!(check.window > 0) || !(Number.isInteger(check.max_count) && check.max_count >= 1)) {
+          errors.push({
+            nodeId: node.id,
+            type: 'error',
+            message: `Velocity node "${node.data.label}" check ${index + 1} needs a positive window and a max count of at least 1`,
+          });
+        }
+      });
+      break;
+    }
+
+    case 'negativeListCheck': {
+      const listConfig = node.data.config as NegativeListCheckConfig | undefined;
+      const checks = listConfig?.checks || [];
+      if (!checks.length || checks.some(check => !check.list || !check.value)) {
+        errors.push({
+          nodeId: node.id,
+          type: 'error',
+          message: `Negative list node "${node.data.label}" needs a list and a value for every check`,
+        });
+      }
+      break;
+    }
+
     case 'decision':
       if (!node.data.decisionType) {
         errors.push({